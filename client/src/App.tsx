@@ -11,6 +11,8 @@ import AdminDashboard from "@/pages/admin";
 import LoginPage from "@/pages/login";
 import ForgotPasswordPage from "@/pages/forgot-password";
 import ResetPasswordPage from "@/pages/reset-password";
+import UnlockAccountPage from "@/pages/unlock-account";
+import JoinTeamPage from "@/pages/join-team";
 
 function Router() {
   return (
@@ -19,6 +21,8 @@ function Router() {
       <Route path="/login" component={LoginPage} />
       <Route path="/forgot-password" component={ForgotPasswordPage} />
       <Route path="/reset-password/:token" component={ResetPasswordPage} />
+      <Route path="/unlock-account/:token" component={UnlockAccountPage} />
+      <Route path="/join/:token" component={JoinTeamPage} />
       <Route path="/onboarding/:token" component={Onboarding} />
       <Route path="/onboarding" component={Onboarding} />
       <Route path="/portal" component={Portal} />
@@ -1,11 +1,14 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
-import type { AuthUser } from '@shared/types';
+import type { AuthUser, PortalPermission, StaffCapability } from '@shared/types';
 
 interface LoginResponse {
   success: boolean;
   message?: string;
   error?: string;
+  // Set when sign-in continues with a two-factor authentication step
+  mfaRequired?: boolean;
+  enrollmentRequired?: boolean;
 }
 
 interface AuthMeResponse {
@@ -56,6 +59,8 @@ export function useAuth() {
     isAuthenticated: !!query.data,
     isStaff: query.data?.userType === 'claims_iq_staff',
     isPortalUser: query.data?.userType === 'portal_user',
+    hasPermission: (permission: PortalPermission) => !!query.data?.permissions?.includes(permission),
+    hasStaffCapability: (capability: StaffCapability) => !!query.data?.staffCapabilities?.includes(capability),
     refetch: query.refetch,
   };
 }
@@ -78,7 +83,8 @@ export function useLogin() {
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Login failed');
+        // ssoRequired: the user's company only allows single sign-on
+        throw Object.assign(new Error(data.error || 'Login failed'), { ssoRequired: !!data.ssoRequired });
       }
 
       return data;
@@ -113,7 +119,11 @@ export function useVerifyOtp() {
 
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      // The login page asks for the second factor before the session is issued
+      if (data.mfaRequired) {
+        return;
+      }
       // Invalidate auth query to fetch user
       queryClient.invalidateQueries({ queryKey: ['auth'] });
       // Redirect to portal
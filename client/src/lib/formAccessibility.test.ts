@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { getModuleQuestions } from "@shared/requirementsCatalog";
+import { collectErrors, collectRequirementErrors, fieldProps, requirementFocusId } from "./formAccessibility";
+
+function question(module: "core" | "comms" | "fnol", id: string) {
+  return getModuleQuestions(module).find((q) => q.id === id)!;
+}
+
+describe("fieldProps", () => {
+  it("only sets the id on a valid, optional field", () => {
+    expect(fieldProps("company-dba")).toEqual({
+      id: "company-dba",
+      "aria-invalid": undefined,
+      "aria-describedby": undefined,
+      "aria-required": undefined,
+    });
+  });
+
+  it("marks a required field with an error and points at the error message", () => {
+    expect(fieldProps("company-city", "City is required", true)).toEqual({
+      id: "company-city",
+      "aria-invalid": true,
+      "aria-describedby": "company-city-error",
+      "aria-required": true,
+    });
+  });
+});
+
+describe("collectErrors", () => {
+  const fieldIds = { legalName: "company-legal-name", city: "company-city", zip: "company-zip" };
+
+  it("lists errors in field order, not error order", () => {
+    const errors = { zip: { message: "Enter a valid ZIP" }, legalName: { message: "Company name is required" } };
+
+    expect(collectErrors(errors, fieldIds)).toEqual([
+      { fieldId: "company-legal-name", message: "Company name is required" },
+      { fieldId: "company-zip", message: "Enter a valid ZIP" },
+    ]);
+  });
+
+  it("skips errors without a message and fields it has no id for", () => {
+    const errors = { city: {}, other: { message: "Not a field" } };
+
+    expect(collectErrors(errors, fieldIds)).toEqual([]);
+  });
+});
+
+describe("requirementFocusId", () => {
+  it("focuses the first option of a choice question", () => {
+    expect(requirementFocusId(question("comms", "desired_channels"), "req-comms-desired_channels"))
+      .toBe("req-comms-desired_channels-0");
+    expect(requirementFocusId(question("comms", "white_label_level"), "req-comms-white_label_level"))
+      .toBe("req-comms-white_label_level-0");
+  });
+
+  it("focuses the input itself for other questions", () => {
+    expect(requirementFocusId(question("core", "monthly_claim_volume"), "req-core-monthly_claim_volume"))
+      .toBe("req-core-monthly_claim_volume");
+  });
+});
+
+describe("collectRequirementErrors", () => {
+  it("lists each module's errors, then core's per-line errors in line order", () => {
+    const errors = {
+      fnol: { desired_intake_methods: { message: "Select at least one option for Intake Methods" } },
+      core: {
+        monthly_claim_volume: { message: "Monthly Claim Volume must be at least 1" },
+        lob_requirements: {
+          Homeowners: { claim_types: { message: "Invalid option" } },
+          "Personal Auto": { monthly_claim_volume: { message: "Monthly Claim Volume must be at least 1" } },
+        },
+      },
+    };
+
+    expect(collectRequirementErrors(["core", "fnol"], ["Personal Auto", "Homeowners"], {}, errors)).toEqual([
+      { fieldId: "req-core-monthly_claim_volume", message: "Monthly Claim Volume must be at least 1" },
+      { fieldId: "req-core-lob-0-monthly_claim_volume", message: "Personal Auto: Monthly Claim Volume must be at least 1" },
+      { fieldId: "req-core-lob-1-claim_types-0", message: "Homeowners: Invalid option" },
+      { fieldId: "req-fnol-desired_intake_methods-0", message: "Select at least one option for Intake Methods" },
+    ]);
+  });
+
+  it("leaves out errors for hidden questions and unselected modules", () => {
+    const errors = {
+      comms: { white_label_level: { message: "Invalid option" } },
+      fnol: { video_required: { message: "Expected boolean" } },
+    };
+
+    expect(collectRequirementErrors(["fnol"], [], { fnol: { desired_intake_methods: ["web"] } }, errors)).toEqual([]);
+    expect(collectRequirementErrors(["fnol"], [], { fnol: { desired_intake_methods: ["mobile_app"] } }, errors)).toEqual([
+      { fieldId: "req-fnol-video_required", message: "Expected boolean" },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import type { ModuleType } from "@shared/types";
+import {
+  getLineOfBusinessQuestions,
+  getVisibleQuestions,
+  type RequirementAnswers,
+  type RequirementQuestion,
+} from "@shared/requirementsCatalog";
+
+// Accessibility helpers for the onboarding wizard's forms
+
+export interface FieldErrorItem {
+  fieldId: string;
+  message: string;
+}
+
+// Attributes tying an input to its error message
+export function fieldProps(fieldId: string, error?: string, required?: boolean) {
+  return {
+    id: fieldId,
+    "aria-invalid": error ? true : undefined,
+    "aria-describedby": error ? `${fieldId}-error` : undefined,
+    "aria-required": required || undefined,
+  };
+}
+
+// Map a flat form's errors to the ids of the fields they belong to, in field order
+export function collectErrors(errors: Record<string, any>, fieldIds: Record<string, string>): FieldErrorItem[] {
+  return Object.entries(fieldIds)
+    .filter(([name]) => errors[name]?.message)
+    .map(([name, fieldId]) => ({ fieldId, message: errors[name].message as string }));
+}
+
+// Id of the element that takes focus for a requirement question (the first option for choice questions)
+export function requirementFocusId(question: RequirementQuestion, fieldId: string): string {
+  return question.type === "multiselect" || question.type === "single_select" ? `${fieldId}-0` : fieldId;
+}
+
+// Map the requirements step's errors to field ids, in the order the questions appear
+// (each module's visible questions, then core's per-line questions in line order)
+export function collectRequirementErrors(
+  modules: ModuleType[],
+  linesOfBusiness: string[],
+  answers: Partial<Record<ModuleType, RequirementAnswers>>,
+  errors: Record<string, any>
+): FieldErrorItem[] {
+  const items: FieldErrorItem[] = [];
+
+  for (const module of modules) {
+    for (const question of getVisibleQuestions(module, answers[module])) {
+      const message = errors[module]?.[question.id]?.message;
+      if (message) items.push({ fieldId: requirementFocusId(question, `req-${module}-${question.id}`), message });
+    }
+    if (module === "core") {
+      linesOfBusiness.forEach((line, lineIndex) => {
+        for (const question of getLineOfBusinessQuestions(line)) {
+          const message = errors.core?.lob_requirements?.[line]?.[question.id]?.message;
+          if (message) {
+            items.push({
+              fieldId: requirementFocusId(question, `req-core-lob-${lineIndex}-${question.id}`),
+              message: `${line}: ${message}`,
+            });
+          }
+        }
+      });
+    }
+  }
+
+  return items;
+}
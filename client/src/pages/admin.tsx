@@ -9,7 +9,9 @@ import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
 import { useToast } from "@/hooks/use-toast";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
 import {
   LayoutDashboard,
   Users,
@@ -24,105 +26,1942 @@ import {
   Loader2,
   Mail,
   Copy,
-  X
+  X,
+  GitMerge,
+  Upload,
+  KeyRound
 } from "lucide-react";
 import { useAuth, useSignOut, useRequireStaff } from "../hooks/useAuth";
 import logo from "@assets/ClaimsIQ_Logo_02-09[31]_1767489942619.png";
-import type { ProjectSummary } from "@shared/types";
+import type { ProjectSummary, Company, ModuleType, SizingEstimate, BulkInviteRowResult, ScheduledJobStatus, InviteFunnel, InvitePrefill, InvitePrefillField, InviteTransferRequest, PortalAccessEntry, SsoConnectionDetails, SsoProtocol, UserSession } from "@shared/types";
+import {
+  REQUIREMENT_MODULES,
+  getVisibleQuestions,
+  formatRequirementAnswer,
+  formatLineOfBusinessRequirements,
+} from "@shared/requirementsCatalog";
+import { SIZING_TIER_LABELS, IMPLEMENTATION_EFFORT_LABELS, formatGoLiveWindow } from "@shared/sizing";
+import { STAFF_ROLE_LABELS } from "@shared/permissions";
 import { format } from "date-fns";
 import { useState } from "react";
 
-// --- API Hooks ---
-function useCreateInvite() {
-  const queryClient = useQueryClient();
+// --- API Hooks ---
+function useCreateInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      email: string;
+      companyName?: string;
+      expirationDays?: number;
+      companyId?: string;
+      deviceBinding?: boolean;
+      prefill?: InvitePrefill;
+      lockedFields?: InvitePrefillField[];
+    }) => {
+      const response = await fetch('/api/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to create invite');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'projects'] });
+    },
+  });
+}
+
+// --- API Hooks ---
+interface BulkInvitePreview {
+  rows: BulkInviteRowResult[];
+  summary: { total: number; ready: number; invalid: number; duplicate: number };
+}
+
+interface BulkInviteOutcome {
+  batchId: string;
+  rows: BulkInviteRowResult[];
+  summary: { total: number; queued: number; sent: number; failed: number; skipped: number };
+  message?: string;
+}
+
+function useBulkInvitePreview() {
+  return useMutation({
+    mutationFn: async (file: File): Promise<BulkInvitePreview> => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/invites/bulk/preview', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to read file');
+      }
+      return result;
+    },
+  });
+}
+
+function useSendBulkInvites() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rows: BulkInviteRowResult[]): Promise<BulkInviteOutcome> => {
+      const response = await fetch('/api/invites/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          rows: rows.map(({ rowNumber, email, companyName, expirationDays, csmEmail }) => ({
+            rowNumber, email, companyName, expirationDays, csmEmail,
+          })),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to send invites');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'projects'] });
+    },
+  });
+}
+
+// Emails for a bulk upload go out in the background; poll until none are left to send
+function useBulkInviteBatch(batchId: string | undefined) {
+  return useQuery<BulkInviteOutcome>({
+    queryKey: ['admin', 'bulk-invites', batchId],
+    queryFn: async () => {
+      const response = await fetch(`/api/invites/bulk/${batchId}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch invite status');
+      return response.json();
+    },
+    enabled: !!batchId,
+    refetchInterval: (query) => (query.state.data && query.state.data.summary.queued === 0 ? false : 3000),
+  });
+}
+
+function useAdminProjects() {
+  return useQuery<ProjectSummary[]>({
+    queryKey: ['admin', 'projects'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/projects', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch projects');
+      const data = await response.json();
+      return data.projects;
+    },
+  });
+}
+
+interface DuplicateCompanyFlag {
+  projectId: string;
+  flaggedAt: string;
+  company: Company;
+  existingCompany: Company;
+  score: number;
+  reasons: string[];
+}
+
+function useAdminCompanies() {
+  return useQuery<Company[]>({
+    queryKey: ['admin', 'companies'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/companies', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch companies');
+      const data = await response.json();
+      return data.companies;
+    },
+  });
+}
+
+function useDuplicateCompanies() {
+  return useQuery<DuplicateCompanyFlag[]>({
+    queryKey: ['admin', 'companies', 'duplicates'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/companies/duplicates', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch duplicate companies');
+      const data = await response.json();
+      return data.duplicates;
+    },
+  });
+}
+
+function useMergeCompanies() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { sourceCompanyId: string; targetCompanyId: string }) => {
+      const response = await fetch('/api/admin/companies/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to merge companies');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin'] });
+    },
+  });
+}
+
+function useUpdateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ projectId, ...data }: { projectId: string; target_go_live_date?: string | null }) => {
+      const response = await fetch(`/api/admin/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update project');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin'] });
+    },
+  });
+}
+
+function useAdminProject(projectId: string | null) {
+  return useQuery<any>({
+    queryKey: ['admin', 'projects', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/projects/${projectId}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch project');
+      const data = await response.json();
+      return data.project;
+    },
+    enabled: !!projectId,
+  });
+}
+
+function useAdminStats() {
+  return useQuery<{
+    totalProjects: number;
+    totalCompanies: number;
+    byStatus: Record<string, number>;
+  }>({
+    queryKey: ['admin', 'stats'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/stats', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch stats');
+      const data = await response.json();
+      return data.stats;
+    },
+  });
+}
+
+function useInviteFunnel(days: number) {
+  return useQuery<InviteFunnel>({
+    queryKey: ['admin', 'invite-funnel', days],
+    queryFn: async () => {
+      const response = await fetch(`/api/invites/stats/funnel?days=${days}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch invite funnel');
+      const data = await response.json();
+      return data.funnel;
+    },
+  });
+}
+
+function useScheduledJobs() {
+  return useQuery<ScheduledJobStatus[]>({
+    queryKey: ['admin', 'jobs'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/jobs', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch jobs');
+      const data = await response.json();
+      return data.jobs;
+    },
+    refetchInterval: 60000,
+  });
+}
+
+function useInviteTransferRequests() {
+  return useQuery<InviteTransferRequest[]>({
+    queryKey: ['admin', 'invite-transfers'],
+    queryFn: async () => {
+      const response = await fetch('/api/invites/transfers', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch transfer requests');
+      const data = await response.json();
+      return data.requests;
+    },
+    refetchInterval: 60000,
+  });
+}
+
+function useReviewInviteTransfer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ requestId, decision }: { requestId: string; decision: 'approve' | 'deny' }) => {
+      const response = await fetch(`/api/invites/transfers/${requestId}/${decision}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to review transfer request');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'invite-transfers'] });
+    },
+  });
+}
+
+function useCompanyPortalUsers(companyId: string | null) {
+  return useQuery<PortalAccessEntry[]>({
+    queryKey: ['admin', 'portal-users', companyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/companies/${companyId}/portal-users`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch portal users');
+      const data = await response.json();
+      return data.portalUsers;
+    },
+    enabled: !!companyId,
+  });
+}
+
+function useProvisionPortalUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { contactId: string; authMethod: 'magic_link' | 'password' }) => {
+      const response = await fetch('/api/admin/portal-users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create portal user');
+      }
+      return result as { portalUserId: string; emailSent: boolean };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'portal-users'] });
+    },
+  });
+}
+
+function useSetPortalUserActive() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ portalUserId, active }: { portalUserId: string; active: boolean }) => {
+      const action = active ? 'reactivate' : 'deactivate';
+      const response = await fetch(`/api/admin/portal-users/${portalUserId}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to ${action} portal user`);
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'portal-users'] });
+    },
+  });
+}
+
+function usePortalUserSessions(portalUserId: string | null) {
+  return useQuery<UserSession[]>({
+    queryKey: ['admin', 'portal-user-sessions', portalUserId],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/portal-users/${portalUserId}/sessions`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch sessions');
+      const data = await response.json();
+      return data.sessions;
+    },
+    enabled: !!portalUserId,
+  });
+}
+
+function useRevokePortalUserSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Without a sessionId every session is signed out
+    mutationFn: async ({ portalUserId, sessionId }: { portalUserId: string; sessionId?: string }) => {
+      const response = await fetch(
+        `/api/admin/portal-users/${portalUserId}/sessions${sessionId ? `/${sessionId}` : ''}`,
+        { method: 'DELETE', credentials: 'include' }
+      );
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to sign out sessions');
+      }
+      return result as { revoked?: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'portal-user-sessions'] });
+    },
+  });
+}
+
+function useSetCompanyMfaPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ companyId, mfaRequired }: { companyId: string; mfaRequired: boolean }) => {
+      const response = await fetch(`/api/admin/companies/${companyId}/mfa-policy`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ mfaRequired }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update two-factor policy');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'projects'] });
+    },
+  });
+}
+
+function useCompanySsoConnections(companyId: string | null) {
+  return useQuery<SsoConnectionDetails[]>({
+    queryKey: ['admin', 'sso-connections', companyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/companies/${companyId}/sso-connections`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch SSO connections');
+      const data = await response.json();
+      return data.connections;
+    },
+    enabled: !!companyId,
+  });
+}
+
+function useCreateSsoConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ companyId, ...data }: { companyId: string } & Record<string, unknown>) => {
+      const response = await fetch(`/api/admin/companies/${companyId}/sso-connections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create SSO connection');
+      }
+      return result.connection as SsoConnectionDetails;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'sso-connections'] });
+    },
+  });
+}
+
+function useUpdateSsoConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ connectionId, ...data }: { connectionId: string; isActive?: boolean }) => {
+      const response = await fetch(`/api/admin/sso-connections/${connectionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update SSO connection');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'sso-connections'] });
+    },
+  });
+}
+
+function useDeleteSsoConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (connectionId: string) => {
+      const response = await fetch(`/api/admin/sso-connections/${connectionId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete SSO connection');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'sso-connections'] });
+    },
+  });
+}
+
+function useStartImpersonation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { portalUserId: string; reason?: string; allowDestructive: boolean }) => {
+      const response = await fetch('/api/admin/impersonation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to view as customer');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      // The portal should load as the customer from here on
+      queryClient.clear();
+    },
+  });
+}
+
+// --- New Client Invite Form ---
+const EMPTY_INVITE_FORM = {
+  email: '',
+  companyName: '',
+  expirationDays: 7,
+  companyId: '',
+  deviceBinding: true,
+  // Optional wizard prefill
+  address: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  modules: [] as ModuleType[],
+  lockCompany: false,
+  lockModules: false,
+};
+
+type InviteForm = typeof EMPTY_INVITE_FORM;
+
+// Build the wizard prefill and locked fields from the New Client form (undefined if nothing was prefilled)
+function buildInvitePrefill(form: InviteForm): { prefill?: InvitePrefill; lockedFields?: InvitePrefillField[] } {
+  const company = Object.fromEntries(
+    Object.entries({
+      legal_name: form.companyId ? '' : form.companyName.trim(),
+      address_line_1: form.address.trim(),
+      city: form.city.trim(),
+      state: form.state.trim(),
+      postal_code: form.postalCode.trim(),
+    }).filter(([, value]) => value !== '')
+  );
+  const hasCompany = Object.keys(company).length > 0;
+  const hasModules = form.modules.length > 0;
+
+  if (!hasCompany && !hasModules) return {};
+
+  const lockedFields: InvitePrefillField[] = [
+    ...(form.lockCompany ? Object.keys(company).map((key) => `company.${key}` as InvitePrefillField) : []),
+    ...(form.lockModules && hasModules ? ['modules' as const] : []),
+  ];
+
+  return {
+    prefill: {
+      ...(hasCompany ? { company } : {}),
+      ...(hasModules
+        ? {
+            modules: {
+              core: form.modules.includes('core'),
+              comms: form.modules.includes('comms'),
+              fnol: form.modules.includes('fnol'),
+            },
+          }
+        : {}),
+    },
+    lockedFields,
+  };
+}
+
+// --- Helper Functions ---
+function getStatusLabel(status: string): string {
+  const labels: Record<string, string> = {
+    discovery_in_progress: 'Discovery',
+    sow_pending: 'SOW Pending',
+    contract_signed: 'Contract Signed',
+    onboarding: 'Onboarding',
+    live: 'Live',
+    churned: 'Churned',
+  };
+  return labels[status] || status;
+}
+
+function getStatusStyle(status: string): string {
+  const styles: Record<string, string> = {
+    discovery_in_progress: 'bg-primary/20 text-primary border-primary/20',
+    sow_pending: 'bg-accent/20 text-accent border-accent/20',
+    contract_signed: 'bg-secondary/20 text-secondary-foreground border-secondary/20',
+    onboarding: 'bg-blue-100 text-blue-700 border-blue-200',
+    live: 'bg-green-100 text-green-700 border-green-200',
+    churned: 'bg-red-100 text-red-700 border-red-200',
+  };
+  return styles[status] || 'bg-muted text-muted-foreground border-muted';
+}
+
+function getInitials(firstName?: string, lastName?: string): string {
+  if (!firstName && !lastName) return '??';
+  return `${firstName?.[0] || ''}${lastName?.[0] || ''}`.toUpperCase();
+}
+
+// --- Project Detail ---
+function ProjectDetailDialog({ projectId, onClose }: { projectId: string; onClose: () => void }) {
+  const { data: project, isLoading, error } = useAdminProject(projectId);
+  const company = Array.isArray(project?.company) ? project.company[0] : project?.company;
+  const selections: any[] = (project?.module_selections || []).filter((m: any) => m.is_selected);
+  const sizing: SizingEstimate | null = project?.sizing_estimate || null;
+  const updateProject = useUpdateProject();
+  const { hasStaffCapability } = useAuth();
+  const { toast } = useToast();
+
+  // Adopt the end of the estimated window as the SOW's target go-live date
+  const handleUseEstimate = async () => {
+    if (!sizing) return;
+    try {
+      await updateProject.mutateAsync({
+        projectId,
+        target_go_live_date: new Date(`${sizing.go_live_window.latest}T00:00:00Z`).toISOString(),
+      });
+      toast({ title: "Target go-live updated", description: "The SOW will use the estimated go-live date." });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Failed to update project",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-2xl mx-4 max-h-[85vh] overflow-y-auto">
+        <CardHeader className="relative">
+          <Button variant="ghost" size="icon" className="absolute right-2 top-2" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+          <CardTitle className="font-display">{company?.legal_name || 'Project Details'}</CardTitle>
+          {project && (
+            <CardDescription>
+              {getStatusLabel(project.status)} • Submitted {format(new Date(project.created_at), 'MMM d, yyyy')}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && <Skeleton className="h-48" />}
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load project details.</AlertDescription>
+            </Alert>
+          )}
+          {project && sizing && (
+            <div className="border border-border rounded-lg p-4 space-y-2">
+              <h3 className="font-semibold text-sm uppercase tracking-wider text-muted-foreground font-mono">Sizing Estimate</h3>
+              <dl className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">Tier</dt>
+                <dd className="font-medium">{SIZING_TIER_LABELS[sizing.tier]}</dd>
+                <dt className="text-muted-foreground">Implementation Effort</dt>
+                <dd className="font-medium">{IMPLEMENTATION_EFFORT_LABELS[sizing.effort]} (~{sizing.effort_weeks} weeks)</dd>
+                <dt className="text-muted-foreground">Estimated Go-Live</dt>
+                <dd className="font-medium">{formatGoLiveWindow(sizing.go_live_window)}</dd>
+                <dt className="text-muted-foreground">Target Go-Live</dt>
+                <dd className="font-medium">
+                  {project.target_go_live_date ? format(new Date(project.target_go_live_date), 'MMM d, yyyy') : 'Not set'}
+                </dd>
+              </dl>
+              {sizing.drivers.length > 0 && (
+                <p className="text-xs text-muted-foreground">Driven by: {sizing.drivers.join(', ')}</p>
+              )}
+              {!project.target_go_live_date && hasStaffCapability('projects.edit') && (
+                <Button size="sm" variant="outline" onClick={handleUseEstimate} disabled={updateProject.isPending}>
+                  {updateProject.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Use estimate as target go-live
+                </Button>
+              )}
+            </div>
+          )}
+          {project && company?.id && hasStaffCapability('companies.security') && (
+            <SsoConnectionsSection
+              companyId={company.id}
+              complianceConfig={
+                Array.isArray(project.security_compliance_config)
+                  ? project.security_compliance_config[0]
+                  : project.security_compliance_config
+              }
+            />
+          )}
+          {project && company?.id && (
+            <PortalAccessSection
+              companyId={company.id}
+              mfaRequired={!!company.mfa_required}
+              complianceRequirements={
+                (Array.isArray(project.security_compliance_config)
+                  ? project.security_compliance_config[0]
+                  : project.security_compliance_config
+                )?.compliance_requirements || []
+              }
+            />
+          )}
+          {project && selections.length === 0 && (
+            <p className="text-sm text-muted-foreground italic">No modules selected.</p>
+          )}
+          {project && REQUIREMENT_MODULES.map(({ module, title }) => {
+            const selection = selections.find((m) => m.module_type === module);
+            if (!selection) return null;
+            const configKey = `${module}_config` as `${ModuleType}_config`;
+            const config = (Array.isArray(selection[configKey]) ? selection[configKey][0] : selection[configKey]) || {};
+            const rows = getVisibleQuestions(module, config)
+              .map((question) => ({ question, answer: formatRequirementAnswer(question, config[question.id]) }))
+              .filter(({ answer }) => answer !== null);
+            const lines = module === 'core' ? formatLineOfBusinessRequirements(config.lob_requirements) : [];
+
+            return (
+              <div key={module} className="border border-border rounded-lg p-4 space-y-2">
+                <h3 className="font-semibold text-sm uppercase tracking-wider text-muted-foreground font-mono">{title}</h3>
+                {rows.length > 0 ? (
+                  <dl className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    {rows.map(({ question, answer }) => (
+                      <div key={question.id} className="contents">
+                        <dt className="text-muted-foreground">{question.label}</dt>
+                        <dd className="font-medium">{answer}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                ) : (
+                  <p className="text-sm text-muted-foreground italic">No requirements provided.</p>
+                )}
+                {lines.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Line of Business</TableHead>
+                        <TableHead>Requirements</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map(({ line, answers }) => (
+                        <TableRow key={line}>
+                          <TableCell className="font-medium align-top">{line}</TableCell>
+                          <TableCell className="text-sm">
+                            {answers.map(({ label, answer }) => (
+                              <p key={label}><span className="text-muted-foreground">{label}:</span> {answer}</p>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// --- Single Sign-On ---
+const SSO_PROTOCOL_LABELS: Record<SsoProtocol, string> = {
+  oidc: 'OpenID Connect',
+  saml: 'SAML 2.0',
+};
+
+const EMPTY_SSO_FORM = {
+  protocol: 'oidc' as SsoProtocol,
+  name: '',
+  emailDomains: '',
+  oidcIssuer: '',
+  oidcClientId: '',
+  oidcClientSecret: '',
+  samlMetadataXml: '',
+};
+
+function SsoConnectionsSection({
+  companyId,
+  complianceConfig,
+}: {
+  companyId: string;
+  // From the carrier's security questionnaire; sso_required turns off password and magic link sign-in
+  complianceConfig?: { sso_required?: boolean; sso_provider?: string | null } | null;
+}) {
+  const { data: connections, isLoading, error } = useCompanySsoConnections(companyId);
+  const createConnection = useCreateSsoConnection();
+  const updateConnection = useUpdateSsoConnection();
+  const deleteConnection = useDeleteSsoConnection();
+  const { hasStaffCapability } = useAuth();
+  const canManage = hasStaffCapability('companies.security');
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_SSO_FORM);
+  const { toast } = useToast();
+  const ssoRequired = !!complianceConfig?.sso_required;
+  const hasActiveConnection = !!connections?.some((connection) => connection.is_active);
+
+  const updateForm = (field: keyof typeof EMPTY_SSO_FORM, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleMetadataFile = async (file: File | undefined) => {
+    if (!file) return;
+    updateForm('samlMetadataXml', await file.text());
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const emailDomains = form.emailDomains.split(/[\s,]+/).filter(Boolean);
+    try {
+      await createConnection.mutateAsync(
+        form.protocol === 'oidc'
+          ? {
+              companyId,
+              protocol: 'oidc',
+              name: form.name,
+              emailDomains,
+              oidcIssuer: form.oidcIssuer,
+              oidcClientId: form.oidcClientId,
+              oidcClientSecret: form.oidcClientSecret,
+            }
+          : { companyId, protocol: 'saml', name: form.name, emailDomains, samlMetadataXml: form.samlMetadataXml }
+      );
+      toast({ title: "SSO connection added", description: "Users on these domains can now sign in with SSO." });
+      setForm(EMPTY_SSO_FORM);
+      setShowForm(false);
+    } catch (error) {
+      toast({
+        title: "Could not add connection",
+        description: error instanceof Error ? error.message : "Failed to create SSO connection",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSetActive = async (connectionId: string, isActive: boolean) => {
+    try {
+      await updateConnection.mutateAsync({ connectionId, isActive });
+      toast({ title: isActive ? "SSO connection enabled" : "SSO connection disabled" });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Failed to update SSO connection",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (connectionId: string) => {
+    if (!window.confirm('Remove this SSO connection? Its users will need another way to sign in.')) return;
+    try {
+      await deleteConnection.mutateAsync(connectionId);
+      toast({ title: "SSO connection removed" });
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete SSO connection",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyToClipboard = (value: string) => {
+    navigator.clipboard.writeText(value);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm uppercase tracking-wider text-muted-foreground font-mono">Single Sign-On</h3>
+        {canManage && !showForm && (
+          <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Add connection
+          </Button>
+        )}
+      </div>
+      {ssoRequired && (
+        <p className="text-xs text-muted-foreground">
+          SSO required by the security questionnaire{complianceConfig?.sso_provider ? ` (${complianceConfig.sso_provider})` : ''}.
+          {hasActiveConnection
+            ? ' Password and magic link sign-in are turned off for this company.'
+            : ' It takes effect once a connection is active.'}
+        </p>
+      )}
+      {isLoading && <Skeleton className="h-16" />}
+      {error && <p className="text-sm text-destructive">Failed to load SSO connections.</p>}
+      {connections && connections.length === 0 && !showForm && (
+        <p className="text-sm text-muted-foreground italic">No SSO connections.</p>
+      )}
+      {connections?.map((connection) => (
+        <div key={connection.id} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-medium">{connection.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {SSO_PROTOCOL_LABELS[connection.protocol]} • {connection.email_domains.join(', ')}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge
+                variant="outline"
+                className={connection.is_active
+                  ? 'bg-green-50 text-green-700 border-green-200'
+                  : 'bg-gray-100 text-gray-700 border-gray-200'}
+              >
+                {connection.is_active ? 'Active' : 'Disabled'}
+              </Badge>
+              {canManage && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSetActive(connection.id, !connection.is_active)}
+                    disabled={updateConnection.isPending}
+                  >
+                    {connection.is_active ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(connection.id)}
+                    disabled={deleteConnection.isPending}
+                  >
+                    Remove
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+          <dl className="grid grid-cols-[auto_1fr_auto] gap-x-2 gap-y-1 text-xs items-center">
+            {(connection.protocol === 'oidc'
+              ? [
+                  ['Issuer', connection.oidc_issuer],
+                  ['Redirect URI', connection.service_provider.oidcRedirectUri],
+                ]
+              : [
+                  ['IdP entity ID', connection.saml_entity_id],
+                  ['ACS URL', connection.service_provider.samlAcsUrl],
+                  ['SP entity ID', connection.service_provider.samlEntityId],
+                  ['SP metadata', connection.service_provider.samlMetadataUrl],
+                ]
+            ).map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="font-mono break-all">{value}</dd>
+                <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => copyToClipboard(value || '')}>
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+      {showForm && (
+        <form onSubmit={handleCreate} className="rounded-md border p-3 space-y-3">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="sso-protocol">Protocol</Label>
+              <select
+                id="sso-protocol"
+                className="w-full p-2 border rounded-md bg-background text-sm"
+                value={form.protocol}
+                onChange={(e) => updateForm('protocol', e.target.value)}
+              >
+                <option value="oidc">{SSO_PROTOCOL_LABELS.oidc}</option>
+                <option value="saml">{SSO_PROTOCOL_LABELS.saml}</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sso-name">Name</Label>
+              <Input
+                id="sso-name"
+                placeholder="Acme Okta"
+                value={form.name}
+                onChange={(e) => updateForm('name', e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sso-domains">Email domains</Label>
+            <Input
+              id="sso-domains"
+              placeholder="acme.com, acme-insurance.com"
+              value={form.emailDomains}
+              onChange={(e) => updateForm('emailDomains', e.target.value)}
+              required
+            />
+          </div>
+          {form.protocol === 'oidc' ? (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="sso-issuer">Issuer URL</Label>
+                <Input
+                  id="sso-issuer"
+                  type="url"
+                  placeholder="https://acme.okta.com"
+                  value={form.oidcIssuer}
+                  onChange={(e) => updateForm('oidcIssuer', e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="sso-client-id">Client ID</Label>
+                  <Input
+                    id="sso-client-id"
+                    value={form.oidcClientId}
+                    onChange={(e) => updateForm('oidcClientId', e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sso-client-secret">Client secret</Label>
+                  <Input
+                    id="sso-client-secret"
+                    type="password"
+                    autoComplete="off"
+                    value={form.oidcClientSecret}
+                    onChange={(e) => updateForm('oidcClientSecret', e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="space-y-1">
+              <Label htmlFor="sso-metadata">IdP metadata XML</Label>
+              <Input
+                type="file"
+                accept=".xml,application/xml,text/xml"
+                onChange={(e) => handleMetadataFile(e.target.files?.[0])}
+              />
+              <textarea
+                id="sso-metadata"
+                className="w-full min-h-[100px] p-2 border rounded-md bg-background text-xs font-mono"
+                placeholder="Or paste the metadata here"
+                value={form.samlMetadataXml}
+                onChange={(e) => updateForm('samlMetadataXml', e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setShowForm(false);
+                setForm(EMPTY_SSO_FORM);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={createConnection.isPending}>
+              {createConnection.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add connection
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// --- Portal Access ---
+const PORTAL_AUTH_METHOD_LABELS: Record<string, string> = {
+  magic_link: 'Magic link',
+  password: 'Password',
+  both: 'Password + magic link',
+  sso: 'Single sign-on',
+};
+
+function PortalAccessSection({
+  companyId,
+  mfaRequired,
+  complianceRequirements,
+}: {
+  companyId: string;
+  mfaRequired: boolean;
+  // From the carrier's security questionnaire; shown as a hint next to the MFA policy
+  complianceRequirements: string[];
+}) {
+  const { data: entries, isLoading, error } = useCompanyPortalUsers(companyId);
+  const provision = useProvisionPortalUser();
+  const setActive = useSetPortalUserActive();
+  const setMfaPolicy = useSetCompanyMfaPolicy();
+  const startImpersonation = useStartImpersonation();
+  const [, setLocation] = useLocation();
+  const { hasStaffCapability } = useAuth();
+  const canManage = hasStaffCapability('portal_users.manage');
+  const canManageSecurity = hasStaffCapability('companies.security');
+  const canAllowDestructive = hasStaffCapability('impersonation.allow_destructive');
+  const [authMethods, setAuthMethods] = useState<Record<string, 'magic_link' | 'password'>>({});
+  const [impersonationReason, setImpersonationReason] = useState('');
+  const [allowDestructive, setAllowDestructive] = useState(false);
+  const [sessionsUserId, setSessionsUserId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const hasActiveUsers = !!entries?.some(({ portal_user }) => portal_user?.is_active);
+  const sessionsContact = entries?.find(({ portal_user }) => portal_user?.id === sessionsUserId)?.contact;
+
+  const handleProvision = async (contactId: string) => {
+    try {
+      const result = await provision.mutateAsync({ contactId, authMethod: authMethods[contactId] || 'magic_link' });
+      toast({
+        title: "Portal access granted",
+        description: result.emailSent
+          ? "A welcome email with sign-in instructions has been sent."
+          : "The account was created, but the welcome email could not be sent.",
+        variant: result.emailSent ? undefined : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not grant access",
+        description: error instanceof Error ? error.message : "Failed to create portal user",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleViewAs = async (portalUserId: string) => {
+    try {
+      await startImpersonation.mutateAsync({
+        portalUserId,
+        reason: impersonationReason.trim() || undefined,
+        allowDestructive,
+      });
+      setLocation('/portal');
+    } catch (error) {
+      toast({
+        title: "Could not view as customer",
+        description: error instanceof Error ? error.message : "Failed to start impersonation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSetMfaRequired = async (required: boolean) => {
+    try {
+      await setMfaPolicy.mutateAsync({ companyId, mfaRequired: required });
+      toast({
+        title: required ? "Two-factor authentication required" : "Two-factor authentication optional",
+        description: required
+          ? "Portal users without an authenticator app will set one up at their next sign-in."
+          : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Failed to update two-factor policy",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSetActive = async (portalUserId: string, active: boolean) => {
+    try {
+      await setActive.mutateAsync({ portalUserId, active });
+      toast({ title: active ? "Portal access restored" : "Portal access revoked" });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Failed to update portal user",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-2">
+      <h3 className="font-semibold text-sm uppercase tracking-wider text-muted-foreground font-mono">Portal Access</h3>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={mfaRequired}
+          disabled={!canManageSecurity || setMfaPolicy.isPending}
+          onChange={(e) => handleSetMfaRequired(e.target.checked)}
+        />
+        Require two-factor authentication for portal users
+      </label>
+      {complianceRequirements.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Compliance requirements: {complianceRequirements.join(', ')}
+        </p>
+      )}
+      {isLoading && <Skeleton className="h-16" />}
+      {error && <p className="text-sm text-destructive">Failed to load portal users.</p>}
+      {entries && entries.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">No contacts on file.</p>
+      )}
+      {hasActiveUsers && (
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <Input
+            placeholder="Reason for viewing as a customer (optional)"
+            value={impersonationReason}
+            maxLength={500}
+            onChange={(e) => setImpersonationReason(e.target.value)}
+          />
+          {canAllowDestructive && (
+            <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={allowDestructive}
+                onChange={(e) => setAllowDestructive(e.target.checked)}
+              />
+              Allow destructive actions
+            </label>
+          )}
+        </div>
+      )}
+      {entries && entries.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Contact</TableHead>
+              <TableHead>Access</TableHead>
+              {(canManage || hasActiveUsers) && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(({ contact, portal_user }) => (
+              <TableRow key={contact.id}>
+                <TableCell>
+                  <div className="font-medium">{contact.first_name} {contact.last_name}</div>
+                  <div className="text-xs text-muted-foreground">{contact.email}</div>
+                </TableCell>
+                <TableCell>
+                  {portal_user ? (
+                    <div className="space-y-1">
+                      <Badge
+                        variant="outline"
+                        className={portal_user.is_active
+                          ? 'bg-green-50 text-green-700 border-green-200'
+                          : 'bg-gray-100 text-gray-700 border-gray-200'}
+                      >
+                        {portal_user.is_active ? 'Active' : 'Deactivated'}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground">
+                        {PORTAL_AUTH_METHOD_LABELS[portal_user.auth_method] || portal_user.auth_method}
+                      </div>
+                    </div>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">No access</span>
+                  )}
+                </TableCell>
+                {(canManage || hasActiveUsers) && (
+                  <TableCell className="text-right">
+                    {portal_user ? (
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setSessionsUserId(sessionsUserId === portal_user.id ? null : portal_user.id)}
+                        >
+                          Sessions
+                        </Button>
+                        {portal_user.is_active && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleViewAs(portal_user.id)}
+                            disabled={startImpersonation.isPending}
+                          >
+                            {startImpersonation.isPending && startImpersonation.variables?.portalUserId === portal_user.id && (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            )}
+                            View as
+                          </Button>
+                        )}
+                        {canManage && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleSetActive(portal_user.id, !portal_user.is_active)}
+                            disabled={setActive.isPending}
+                          >
+                            {portal_user.is_active ? 'Deactivate' : 'Reactivate'}
+                          </Button>
+                        )}
+                      </div>
+                    ) : canManage && (
+                      <div className="flex items-center justify-end gap-2">
+                        <select
+                          aria-label="Sign-in method"
+                          className="p-1.5 border rounded-md bg-background text-sm"
+                          value={authMethods[contact.id] || 'magic_link'}
+                          onChange={(e) => setAuthMethods((prev) => ({
+                            ...prev,
+                            [contact.id]: e.target.value as 'magic_link' | 'password',
+                          }))}
+                        >
+                          <option value="magic_link">Magic link</option>
+                          <option value="password">Temporary password</option>
+                        </select>
+                        <Button
+                          size="sm"
+                          onClick={() => handleProvision(contact.id)}
+                          disabled={provision.isPending}
+                        >
+                          {provision.isPending && provision.variables?.contactId === contact.id && (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          )}
+                          Grant access
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {sessionsUserId && (
+        <PortalUserSessions
+          portalUserId={sessionsUserId}
+          contactName={sessionsContact ? `${sessionsContact.first_name} ${sessionsContact.last_name}` : ''}
+          onClose={() => setSessionsUserId(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function PortalUserSessions({
+  portalUserId,
+  contactName,
+  onClose,
+}: {
+  portalUserId: string;
+  contactName: string;
+  onClose: () => void;
+}) {
+  const { data: sessions, isLoading, error } = usePortalUserSessions(portalUserId);
+  const revokeSessions = useRevokePortalUserSessions();
+  const { hasStaffCapability } = useAuth();
+  const canManage = hasStaffCapability('portal_users.manage');
+  const { toast } = useToast();
 
-  return useMutation({
-    mutationFn: async (data: { email: string; companyName?: string; expirationDays?: number }) => {
-      const response = await fetch('/api/invites', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify(data),
+  const handleRevoke = async (sessionId?: string) => {
+    try {
+      const result = await revokeSessions.mutateAsync({ portalUserId, sessionId });
+      toast({
+        title: sessionId ? "Session signed out" : "Signed out everywhere",
+        description: sessionId ? undefined : `${result.revoked ?? 0} session(s) ended.`,
       });
-      if (!response.ok) {
-        const result = await response.json();
-        throw new Error(result.error || 'Failed to create invite');
-      }
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['admin', 'projects'] });
-    },
-  });
+    } catch (error) {
+      toast({
+        title: "Sign out failed",
+        description: error instanceof Error ? error.message : "Failed to sign out sessions",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Sessions for {contactName}</h4>
+        <div className="flex items-center gap-2">
+          {canManage && !!sessions?.length && (
+            <Button size="sm" variant="outline" onClick={() => handleRevoke()} disabled={revokeSessions.isPending}>
+              Sign out everywhere
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {isLoading && <Skeleton className="h-12" />}
+      {error && <p className="text-sm text-destructive">Failed to load sessions.</p>}
+      {sessions && sessions.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">Not signed in anywhere.</p>
+      )}
+      {sessions && sessions.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead>Signed In</TableHead>
+              <TableHead>Last Active</TableHead>
+              {canManage && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.map((session) => (
+              <TableRow key={session.session_id}>
+                <TableCell>
+                  <div className="font-medium">{session.device || 'Unknown device'}</div>
+                  <div className="text-xs text-muted-foreground">{session.ip_address || 'Unknown IP'}</div>
+                </TableCell>
+                <TableCell className="text-sm">{format(new Date(session.created_at), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell className="text-sm">{format(new Date(session.last_seen_at), 'MMM d, yyyy h:mm a')}</TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRevoke(session.session_id)}
+                      disabled={revokeSessions.isPending}
+                    >
+                      Sign out
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
 }
 
-// --- API Hooks ---
-function useAdminProjects() {
-  return useQuery<ProjectSummary[]>({
-    queryKey: ['admin', 'projects'],
-    queryFn: async () => {
-      const response = await fetch('/api/admin/projects', {
-        credentials: 'include',
+// --- Bulk Invite ---
+const BULK_INVITE_STATUS_STYLES: Record<BulkInviteRowResult['status'], { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  invalid: { label: 'Error', className: 'bg-red-50 text-red-700 border-red-200' },
+  duplicate: { label: 'Duplicate', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  queued: { label: 'Queued', className: 'bg-slate-50 text-slate-700 border-slate-200' },
+  sending: { label: 'Sending', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  sent: { label: 'Sent', className: 'bg-green-50 text-green-700 border-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+function BulkInviteDialog({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const preview = useBulkInvitePreview();
+  const sendInvites = useSendBulkInvites();
+  const [fileName, setFileName] = useState<string | null>(null);
+
+  const batch = useBulkInviteBatch(sendInvites.data?.batchId);
+
+  const outcome = batch.data || sendInvites.data;
+  const rows = outcome?.rows || preview.data?.rows || [];
+  const readyRows = (preview.data?.rows || []).filter((row) => row.status === 'ready');
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    sendInvites.reset();
+    try {
+      await preview.mutateAsync(file);
+    } catch (error) {
+      toast({
+        title: "Couldn't read file",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
       });
-      if (!response.ok) throw new Error('Failed to fetch projects');
-      const data = await response.json();
-      return data.projects;
-    },
-  });
-}
+    }
+  };
 
-function useAdminStats() {
-  return useQuery<{
-    totalProjects: number;
-    totalCompanies: number;
-    byStatus: Record<string, number>;
-  }>({
-    queryKey: ['admin', 'stats'],
-    queryFn: async () => {
-      const response = await fetch('/api/admin/stats', {
-        credentials: 'include',
+  const handleSend = async () => {
+    try {
+      const result = await sendInvites.mutateAsync(readyRows);
+      toast({
+        title: "Invites created",
+        description: result.summary.failed > 0
+          ? `${result.message}; ${result.summary.failed} failed.`
+          : `${result.message}.`,
       });
-      if (!response.ok) throw new Error('Failed to fetch stats');
-      const data = await response.json();
-      return data.stats;
-    },
-  });
+    } catch (error) {
+      toast({
+        title: "Failed to send invites",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-4xl mx-4 max-h-[85vh] flex flex-col">
+        <CardHeader className="relative">
+          <Button variant="ghost" size="icon" className="absolute right-2 top-2" onClick={onClose} disabled={sendInvites.isPending}>
+            <X className="h-4 w-4" />
+          </Button>
+          <CardTitle className="font-display">Bulk Invite Clients</CardTitle>
+          <CardDescription>
+            Upload a CSV or Excel (.xlsx) file with an <span className="font-mono">Email</span> column and optional{' '}
+            <span className="font-mono">Company Name</span>, <span className="font-mono">Expiration Days</span> (1-30) and{' '}
+            <span className="font-mono">CSM</span> (staff email) columns. Review the rows before any emails are sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 overflow-y-auto">
+          {!outcome && (
+            <div className="flex items-center gap-3">
+              <Label htmlFor="bulk-invite-file" className="cursor-pointer">
+                <span className="inline-flex items-center gap-2 border border-border rounded-md px-3 py-2 text-sm font-medium hover:bg-muted">
+                  {preview.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  {fileName ? 'Choose a different file' : 'Choose file'}
+                </span>
+              </Label>
+              <input
+                id="bulk-invite-file"
+                type="file"
+                className="sr-only"
+                accept=".csv,.xlsx"
+                onChange={handleFileChange}
+                disabled={preview.isPending || sendInvites.isPending}
+              />
+              {fileName && <span className="text-sm text-muted-foreground truncate">{fileName}</span>}
+            </div>
+          )}
+
+          {preview.data && !outcome && (
+            <p className="text-sm text-muted-foreground">
+              {preview.data.summary.ready} of {preview.data.summary.total} rows ready to send
+              {preview.data.summary.invalid > 0 && ` • ${preview.data.summary.invalid} with errors`}
+              {preview.data.summary.duplicate > 0 && ` • ${preview.data.summary.duplicate} duplicates will be skipped`}
+            </p>
+          )}
+
+          {outcome && (
+            <Alert>
+              <AlertDescription className="flex items-center gap-2">
+                {outcome.summary.queued > 0 && <Loader2 className="h-4 w-4 animate-spin" />}
+                {outcome.summary.sent} sent • {outcome.summary.queued} waiting to send • {outcome.summary.failed} failed • {outcome.summary.skipped} skipped
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {outcome && outcome.summary.queued > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Emails are sent a few per second. You can close this window; sending continues in the background.
+            </p>
+          )}
+
+          {rows.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-14">Row</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>CSM</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell className="font-mono text-xs">{row.rowNumber}</TableCell>
+                    <TableCell className="font-medium">{row.email || <span className="text-muted-foreground italic">missing</span>}</TableCell>
+                    <TableCell>{row.companyName || '—'}</TableCell>
+                    <TableCell>{row.expirationDays ? `${row.expirationDays} days` : 'Default'}</TableCell>
+                    <TableCell>{row.csmName || row.csmEmail || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={BULK_INVITE_STATUS_STYLES[row.status].className}>
+                        {BULK_INVITE_STATUS_STYLES[row.status].label}
+                      </Badge>
+                      {row.errors.map((error) => (
+                        <span key={error} className="block text-xs text-muted-foreground mt-1">{error}</span>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex gap-2 pt-2 justify-end">
+            {outcome ? (
+              <Button onClick={onClose}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={onClose} disabled={sendInvites.isPending}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSend} disabled={readyRows.length === 0 || sendInvites.isPending}>
+                  {sendInvites.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    <>
+                      <Mail className="h-4 w-4 mr-2" />
+                      Send {readyRows.length} Invite{readyRows.length === 1 ? '' : 's'}
+                    </>
+                  )}
+                </Button>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
 }
 
-// --- Helper Functions ---
-function getStatusLabel(status: string): string {
-  const labels: Record<string, string> = {
-    discovery_in_progress: 'Discovery',
-    sow_pending: 'SOW Pending',
-    contract_signed: 'Contract Signed',
-    onboarding: 'Onboarding',
-    live: 'Live',
-    churned: 'Churned',
-  };
-  return labels[status] || status;
+// --- Invite Funnel ---
+const FUNNEL_RANGE_OPTIONS = [30, 90, 180, 365];
+
+const funnelChartConfig = {
+  reached: { label: "Invites", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const submitTimeChartConfig = {
+  count: { label: "Submissions", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+function InviteFunnelCard() {
+  const [days, setDays] = useState(90);
+  const { data: funnel, isLoading, error } = useInviteFunnel(days);
+
+  // Biggest drop between consecutive steps, to call out where prospects are lost
+  const biggestDrop = funnel?.steps.slice(1).reduce<{ label: string; lost: number } | null>((worst, step, index) => {
+    const lost = funnel.steps[index].reached - step.reached;
+    return lost > 0 && (!worst || lost > worst.lost) ? { label: step.label, lost } : worst;
+  }, null);
+
+  return (
+    <Card className="shadow-sm border-border">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="font-display">Invite Funnel</CardTitle>
+          <CardDescription>How far invited prospects get, from the invite email to a submitted onboarding.</CardDescription>
+        </div>
+        <select
+          aria-label="Funnel date range"
+          className="p-2 border rounded-md bg-background text-sm"
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value))}
+        >
+          {FUNNEL_RANGE_OPTIONS.map((option) => (
+            <option key={option} value={option}>Last {option} days</option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64" />
+        ) : error || !funnel ? (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load the invite funnel.</AlertDescription>
+          </Alert>
+        ) : funnel.total_invites === 0 ? (
+          <p className="text-sm text-muted-foreground">No invites were sent in the last {days} days.</p>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 space-y-4">
+              <ChartContainer config={funnelChartConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={funnel.steps} layout="vertical" margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="label" width={110} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="reached" fill="var(--color-reached)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Step</TableHead>
+                    <TableHead className="text-right">Reached</TableHead>
+                    <TableHead className="text-right">From Previous</TableHead>
+                    <TableHead className="text-right">Stopped Here</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {funnel.steps.map((step) => (
+                    <TableRow key={step.key}>
+                      <TableCell className="font-medium">{step.label}</TableCell>
+                      <TableCell className="text-right">{step.reached}</TableCell>
+                      <TableCell className="text-right">
+                        {step.conversion_rate === null ? '—' : `${step.conversion_rate}%`}
+                      </TableCell>
+                      <TableCell className="text-right">{step.key === 'submitted' ? '—' : step.stopped}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {biggestDrop && (
+                <p className="text-sm text-muted-foreground">
+                  Biggest drop-off: {biggestDrop.lost} invite{biggestDrop.lost === 1 ? '' : 's'} never reached "{biggestDrop.label}".
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h4 className="text-sm font-semibold">Time to Submit</h4>
+                <p className="text-sm text-muted-foreground">
+                  {funnel.time_to_submit.count === 0
+                    ? 'No submissions yet.'
+                    : `Median ${formatHours(funnel.time_to_submit.median_hours)} • 90th percentile ${formatHours(funnel.time_to_submit.p90_hours)}`}
+                </p>
+              </div>
+              {funnel.time_to_submit.count > 0 && (
+                <ChartContainer config={submitTimeChartConfig} className="aspect-auto h-48 w-full">
+                  <BarChart data={funnel.time_to_submit.buckets}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} width={28} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
 
-function getStatusStyle(status: string): string {
-  const styles: Record<string, string> = {
-    discovery_in_progress: 'bg-primary/20 text-primary border-primary/20',
-    sow_pending: 'bg-accent/20 text-accent border-accent/20',
-    contract_signed: 'bg-secondary/20 text-secondary-foreground border-secondary/20',
-    onboarding: 'bg-blue-100 text-blue-700 border-blue-200',
-    live: 'bg-green-100 text-green-700 border-green-200',
-    churned: 'bg-red-100 text-red-700 border-red-200',
-  };
-  return styles[status] || 'bg-muted text-muted-foreground border-muted';
+function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  return hours < 48 ? `${hours} hours` : `${Math.round((hours / 24) * 10) / 10} days`;
 }
 
-function getInitials(firstName?: string, lastName?: string): string {
-  if (!firstName && !lastName) return '??';
-  return `${firstName?.[0] || ''}${lastName?.[0] || ''}`.toUpperCase();
+// --- Background Jobs ---
+function getJobHealth(job: ScheduledJobStatus): { label: string; className: string } {
+  if (!job.enabled) {
+    return { label: 'Disabled', className: 'bg-gray-50 text-gray-600 border-gray-200' };
+  }
+  if (job.locked_until && new Date(job.locked_until) > new Date()) {
+    return { label: 'Running', className: 'bg-blue-50 text-blue-700 border-blue-200' };
+  }
+  if (job.last_error) {
+    return { label: 'Failing', className: 'bg-red-50 text-red-700 border-red-200' };
+  }
+  if (!job.last_success_at) {
+    return { label: 'Not run yet', className: 'bg-gray-50 text-gray-600 border-gray-200' };
+  }
+  return { label: 'Healthy', className: 'bg-green-50 text-green-700 border-green-200' };
+}
+
+function formatJobResult(result: Record<string, unknown>): string {
+  const entries = Object.entries(result);
+  return entries.length > 0
+    ? entries.map(([key, value]) => `${key.replace(/_/g, ' ')}: ${String(value)}`).join(', ')
+    : '—';
+}
+
+function ScheduledJobsCard() {
+  const { data: jobs, isLoading, error } = useScheduledJobs();
+
+  return (
+    <Card className="shadow-sm border-border">
+      <CardHeader>
+        <CardTitle className="font-display">Background Jobs</CardTitle>
+        <CardDescription>Invite expiry and reminder emails run automatically on a schedule.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24" />
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load background jobs.</AlertDescription>
+          </Alert>
+        ) : jobs && jobs.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Succeeded</TableHead>
+                <TableHead>Last Result</TableHead>
+                <TableHead>Next Run</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => {
+                const health = getJobHealth(job);
+                const lastRun = job.recent_runs[0];
+
+                return (
+                  <TableRow key={job.name}>
+                    <TableCell>
+                      <div className="font-medium font-mono text-xs">{job.name}</div>
+                      {job.description && <div className="text-xs text-muted-foreground">{job.description}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={health.className}>{health.label}</Badge>
+                      {job.last_error && (
+                        <span className="block text-xs text-red-600 mt-1">{job.last_error}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {job.last_success_at ? format(new Date(job.last_success_at), 'MMM d, h:mm a') : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {lastRun?.status === 'succeeded' ? formatJobResult(lastRun.result) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {job.enabled ? format(new Date(job.next_run_at), 'MMM d, h:mm a') : '—'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No background jobs are configured.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Prospects asking to continue a device-bound invite in another browser
+function InviteTransferRequestsCard() {
+  const { data: requests } = useInviteTransferRequests();
+  const reviewTransfer = useReviewInviteTransfer();
+  const { hasStaffCapability } = useAuth();
+  const { toast } = useToast();
+
+  if (!requests || requests.length === 0 || !hasStaffCapability('invites.manage')) return null;
+
+  const handleReview = async (request: InviteTransferRequest, decision: 'approve' | 'deny') => {
+    try {
+      await reviewTransfer.mutateAsync({ requestId: request.id, decision });
+      toast({
+        title: decision === 'approve' ? "Browser approved" : "Request denied",
+        description: decision === 'approve'
+          ? `${request.email} can now continue in the new browser. The previous browser no longer has access.`
+          : `${request.email} stays limited to the browser that first opened the invite.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to review request",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-sm border-accent/40">
+      <CardHeader>
+        <CardTitle className="font-display">Invite Access Requests</CardTitle>
+        <CardDescription>
+          These prospects opened a browser-locked invite somewhere new. Approve only if you recognize the request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invite</TableHead>
+              <TableHead>Requested From</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.map((request) => (
+              <TableRow key={request.id}>
+                <TableCell className="font-medium">
+                  {request.email}
+                  {request.company_name && (
+                    <span className="block text-xs text-muted-foreground">{request.company_name}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground max-w-xs">
+                  <span className="font-mono">{request.ip_address || 'Unknown IP'}</span>
+                  {request.user_agent && <span className="block truncate">{request.user_agent}</span>}
+                </TableCell>
+                <TableCell className="text-muted-foreground font-mono text-xs">
+                  {format(new Date(request.created_at), 'MMM d, h:mm a')}
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(request, 'deny')}
+                    disabled={reviewTransfer.isPending}
+                  >
+                    Deny
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(request, 'approve')}
+                    disabled={reviewTransfer.isPending}
+                  >
+                    Approve
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
 }
 
 // --- Layout Component ---
-function AdminLayout({ children, onNewClientClick }: { children: React.ReactNode; onNewClientClick?: () => void }) {
+function AdminLayout({ children, onNewClientClick, onBulkInviteClick }: {
+  children: React.ReactNode;
+  onNewClientClick?: () => void;
+  onBulkInviteClick?: () => void;
+}) {
   const [location] = useLocation();
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, hasStaffCapability } = useAuth();
   const signOut = useSignOut();
 
   const handleSignOut = () => {
@@ -164,7 +2003,9 @@ function AdminLayout({ children, onNewClientClick }: { children: React.ReactNode
               <p className="text-sm font-medium text-white truncate">
                 {isLoading ? 'Loading...' : userName}
               </p>
-              <p className="text-xs text-sidebar-foreground/70 truncate">Claims IQ Inc.</p>
+              <p className="text-xs text-sidebar-foreground/70 truncate">
+                {user?.staffRole ? STAFF_ROLE_LABELS[user.staffRole] : 'Claims IQ Inc.'}
+              </p>
             </div>
             <Button
               variant="ghost"
@@ -193,13 +2034,20 @@ function AdminLayout({ children, onNewClientClick }: { children: React.ReactNode
               <Button size="sm" variant="outline" className="hidden sm:flex">
                 <Filter className="mr-2 h-4 w-4" /> Filter View
               </Button>
-              <Button
-                size="sm"
-                className="bg-primary hover:bg-primary/90 text-primary-foreground"
-                onClick={onNewClientClick}
-              >
-                + New Client
-              </Button>
+              {hasStaffCapability('invites.create') && (
+                <>
+                  <Button size="sm" variant="outline" onClick={onBulkInviteClick}>
+                    <Upload className="mr-2 h-4 w-4" /> Bulk Invite
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                    onClick={onNewClientClick}
+                  >
+                    + New Client
+                  </Button>
+                </>
+              )}
            </div>
         </header>
         <main className="flex-1 p-4 md:p-8 overflow-y-auto">
@@ -228,19 +2076,22 @@ function NavItem({ href, icon: Icon, label, active }: { href: string; icon: Reac
 // --- Dashboard Content ---
 export default function AdminDashboard() {
   const { isLoading: authLoading, isStaff } = useRequireStaff();
+  const { hasStaffCapability } = useAuth();
   const { data: projects, isLoading: projectsLoading, error: projectsError } = useAdminProjects();
   const { data: stats, isLoading: statsLoading } = useAdminStats();
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const { toast } = useToast();
   const createInvite = useCreateInvite();
+  const { data: companies } = useAdminCompanies();
+  const { data: duplicates } = useDuplicateCompanies();
+  const mergeCompanies = useMergeCompanies();
 
   // New Client Dialog state
   const [showNewClientDialog, setShowNewClientDialog] = useState(false);
-  const [inviteForm, setInviteForm] = useState({
-    email: '',
-    companyName: '',
-    expirationDays: 7,
-  });
+  const [showBulkInviteDialog, setShowBulkInviteDialog] = useState(false);
+  const [inviteForm, setInviteForm] = useState<InviteForm>(EMPTY_INVITE_FORM);
+  const [showInvitePrefill, setShowInvitePrefill] = useState(false);
   const [inviteResult, setInviteResult] = useState<{ token: string; email: string } | null>(null);
 
   const handleCreateInvite = async () => {
@@ -258,6 +2109,9 @@ export default function AdminDashboard() {
         email: inviteForm.email,
         companyName: inviteForm.companyName || undefined,
         expirationDays: inviteForm.expirationDays,
+        companyId: inviteForm.companyId || undefined,
+        deviceBinding: inviteForm.deviceBinding,
+        ...buildInvitePrefill(inviteForm),
       });
 
       if (result.invite?.token) {
@@ -275,7 +2129,8 @@ export default function AdminDashboard() {
           description: `Email sent to ${inviteForm.email}.`,
         });
         setShowNewClientDialog(false);
-        setInviteForm({ email: '', companyName: '', expirationDays: 7 });
+        setInviteForm(EMPTY_INVITE_FORM);
+        setShowInvitePrefill(false);
       }
     } catch (error) {
       toast({
@@ -300,10 +2155,37 @@ export default function AdminDashboard() {
 
   const closeDialog = () => {
     setShowNewClientDialog(false);
-    setInviteForm({ email: '', companyName: '', expirationDays: 7 });
+    setInviteForm(EMPTY_INVITE_FORM);
+    setShowInvitePrefill(false);
     setInviteResult(null);
   };
 
+  const handleMerge = async (flag: DuplicateCompanyFlag) => {
+    const confirmed = window.confirm(
+      `Merge "${flag.company.legal_name}" into "${flag.existingCompany.legal_name}"? ` +
+      `Its contacts, projects, portal users and invites will move to "${flag.existingCompany.legal_name}" ` +
+      `and "${flag.company.legal_name}" will be deleted.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await mergeCompanies.mutateAsync({
+        sourceCompanyId: flag.company.id,
+        targetCompanyId: flag.existingCompany.id,
+      });
+      toast({
+        title: "Companies merged",
+        description: `${flag.company.legal_name} was merged into ${flag.existingCompany.legal_name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Merge failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const isLoading = authLoading || projectsLoading || statsLoading;
 
   // Filter projects by search term
@@ -351,11 +2233,16 @@ export default function AdminDashboard() {
   ];
 
   return (
-    <AdminLayout onNewClientClick={() => setShowNewClientDialog(true)}>
+    <AdminLayout
+      onNewClientClick={() => setShowNewClientDialog(true)}
+      onBulkInviteClick={() => setShowBulkInviteDialog(true)}
+    >
+      {showBulkInviteDialog && <BulkInviteDialog onClose={() => setShowBulkInviteDialog(false)} />}
+
       {/* New Client Dialog */}
       {showNewClientDialog && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <Card className="w-full max-w-md mx-4">
+          <Card className="w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <CardHeader className="relative">
               <Button
                 variant="ghost"
@@ -396,6 +2283,25 @@ export default function AdminDashboard() {
                       onChange={(e) => setInviteForm({ ...inviteForm, companyName: e.target.value })}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-existing-company">Existing Company (optional)</Label>
+                    <select
+                      id="invite-existing-company"
+                      className="w-full p-2 border rounded-md bg-background"
+                      value={inviteForm.companyId}
+                      onChange={(e) => setInviteForm({ ...inviteForm, companyId: e.target.value })}
+                    >
+                      <option value="">New company</option>
+                      {companies?.map((company) => (
+                        <option key={company.id} value={company.id}>
+                          {company.legal_name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      Choose a company to add this onboarding to it (e.g. another business unit).
+                    </p>
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="invite-expiration">Invitation Expires In</Label>
                     <select
@@ -409,6 +2315,101 @@ export default function AdminDashboard() {
                       <option value={30}>30 days</option>
                     </select>
                   </div>
+                  <label className="flex items-start gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={inviteForm.deviceBinding}
+                      onChange={(e) => setInviteForm({ ...inviteForm, deviceBinding: e.target.checked })}
+                    />
+                    <span>
+                      Only allow the browser that first opens the link
+                      <span className="block text-xs text-muted-foreground">
+                        Other browsers can request access, which you approve below.
+                      </span>
+                    </span>
+                  </label>
+                  {showInvitePrefill ? (
+                    <fieldset className="space-y-3 border-t border-border pt-4">
+                      <legend className="text-sm font-medium">Prefill the onboarding wizard</legend>
+                      <div className="space-y-2">
+                        <Label htmlFor="invite-prefill-address">Address</Label>
+                        <Input
+                          id="invite-prefill-address"
+                          value={inviteForm.address}
+                          onChange={(e) => setInviteForm({ ...inviteForm, address: e.target.value })}
+                        />
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="invite-prefill-city">City</Label>
+                          <Input
+                            id="invite-prefill-city"
+                            value={inviteForm.city}
+                            onChange={(e) => setInviteForm({ ...inviteForm, city: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="invite-prefill-state">State</Label>
+                          <Input
+                            id="invite-prefill-state"
+                            placeholder="TX"
+                            value={inviteForm.state}
+                            onChange={(e) => setInviteForm({ ...inviteForm, state: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="invite-prefill-postal-code">ZIP</Label>
+                          <Input
+                            id="invite-prefill-postal-code"
+                            value={inviteForm.postalCode}
+                            onChange={(e) => setInviteForm({ ...inviteForm, postalCode: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={inviteForm.lockCompany}
+                          onChange={(e) => setInviteForm({ ...inviteForm, lockCompany: e.target.checked })}
+                        />
+                        Prospect can't change the company name or address
+                      </label>
+                      <div className="space-y-2">
+                        <span className="text-sm font-medium">Modules purchased</span>
+                        <div className="flex flex-wrap gap-x-4 gap-y-2">
+                          {REQUIREMENT_MODULES.map(({ module, sowTitle }) => (
+                            <label key={module} className="flex items-center gap-2 text-sm">
+                              <input
+                                type="checkbox"
+                                checked={inviteForm.modules.includes(module)}
+                                onChange={(e) => setInviteForm({
+                                  ...inviteForm,
+                                  modules: e.target.checked
+                                    ? [...inviteForm.modules, module]
+                                    : inviteForm.modules.filter((id) => id !== module),
+                                })}
+                              />
+                              {sowTitle}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={inviteForm.lockModules}
+                          disabled={inviteForm.modules.length === 0}
+                          onChange={(e) => setInviteForm({ ...inviteForm, lockModules: e.target.checked })}
+                        />
+                        Prospect can't change the module selection
+                      </label>
+                    </fieldset>
+                  ) : (
+                    <Button variant="link" className="px-0 h-auto" onClick={() => setShowInvitePrefill(true)}>
+                      + Prefill company details and modules
+                    </Button>
+                  )}
                   <div className="flex gap-2 pt-2">
                     <Button variant="outline" className="flex-1" onClick={closeDialog}>
                       Cancel
@@ -460,6 +2461,10 @@ export default function AdminDashboard() {
         </div>
       )}
 
+      {selectedProjectId && (
+        <ProjectDetailDialog projectId={selectedProjectId} onClose={() => setSelectedProjectId(null)} />
+      )}
+
       <div className="space-y-8">
         {/* Metrics */}
         <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -478,6 +2483,74 @@ export default function AdminDashboard() {
           ))}
         </div>
 
+        {/* Possible Duplicate Companies */}
+        {duplicates && duplicates.length > 0 && (
+          <Card className="shadow-sm border-accent/40">
+            <CardHeader>
+              <CardTitle className="font-display">Possible Duplicate Companies</CardTitle>
+              <CardDescription>
+                These submissions look like companies that already exist. Merge them to keep one record per carrier.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>New Submission</TableHead>
+                    <TableHead>Existing Company</TableHead>
+                    <TableHead>Why</TableHead>
+                    <TableHead>Flagged</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {duplicates.map((flag) => (
+                    <TableRow key={`${flag.company.id}:${flag.existingCompany.id}`}>
+                      <TableCell className="font-medium">
+                        {flag.company.legal_name}
+                        <span className="block text-xs text-muted-foreground">
+                          {flag.company.city}, {flag.company.state} {flag.company.postal_code}
+                        </span>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {flag.existingCompany.legal_name}
+                        <span className="block text-xs text-muted-foreground">
+                          {flag.existingCompany.city}, {flag.existingCompany.state} {flag.existingCompany.postal_code}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {flag.reasons.map((reason) => (
+                            <Badge key={reason} variant="outline" className="text-[10px]">{reason}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground font-mono text-xs">
+                        {format(new Date(flag.flaggedAt), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {hasStaffCapability('companies.merge') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMerge(flag)}
+                            disabled={mergeCompanies.isPending}
+                          >
+                            <GitMerge className="h-4 w-4 mr-2" />
+                            Merge
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <InviteTransferRequestsCard />
+
         {/* Projects Table */}
         <Card className="shadow-sm border-border">
           <CardHeader className="flex flex-row items-center justify-between">
@@ -565,7 +2638,12 @@ export default function AdminDashboard() {
                           </div>
                         </TableCell>
                         <TableCell className="text-right">
-                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setSelectedProjectId(project.id)}
+                          >
                             <MoreHorizontal className="h-4 w-4 text-muted-foreground" />
                           </Button>
                         </TableCell>
@@ -585,6 +2663,10 @@ export default function AdminDashboard() {
             )}
           </CardContent>
         </Card>
+
+        <InviteFunnelCard />
+
+        <ScheduledJobsCard />
       </div>
     </AdminLayout>
   );
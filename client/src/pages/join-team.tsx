@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link, useParams } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Alert, AlertDescription } from '../components/ui/alert';
+import { Loader2, Lock, ArrowLeft, CheckCircle, XCircle, Eye, EyeOff, Users } from 'lucide-react';
+
+const acceptInviteSchema = z.object({
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .regex(/[A-Z]/, 'Must contain at least one uppercase letter')
+    .regex(/[a-z]/, 'Must contain at least one lowercase letter')
+    .regex(/[0-9]/, 'Must contain at least one number')
+    .regex(/[^A-Za-z0-9]/, 'Must contain at least one special character'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+type AcceptInviteFormData = z.infer<typeof acceptInviteSchema>;
+
+interface TeamInvite {
+  email: string;
+  firstName: string;
+  lastName: string;
+  companyName: string | null;
+  expiresAt: string;
+}
+
+export default function JoinTeamPage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<AcceptInviteFormData>({
+    resolver: zodResolver(acceptInviteSchema),
+  });
+
+  const password = watch('password', '');
+
+  // Validate the invite
+  const { data: invite, isLoading: inviteLoading, error: inviteError } = useQuery({
+    queryKey: ['team-invite', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/invites/team/${token}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Invalid or expired invitation');
+      }
+      return result.invite as TeamInvite;
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: AcceptInviteFormData) => {
+      const response = await fetch(`/api/invites/team/${token}/accept`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to accept invitation');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      setError(null);
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    },
+  });
+
+  const onSubmit = (data: AcceptInviteFormData) => {
+    setError(null);
+    acceptMutation.mutate(data);
+  };
+
+  // Loading state
+  if (inviteLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+          <p className="text-muted-foreground">Validating your invitation...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Invalid invite
+  if (inviteError || !invite) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="w-full max-w-md space-y-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-display font-bold text-primary">Claims IQ</h1>
+          </div>
+
+          <Card>
+            <CardHeader className="text-center">
+              <div className="mx-auto w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-4">
+                <XCircle className="h-8 w-8 text-destructive" />
+              </div>
+              <CardTitle>Invalid Invitation</CardTitle>
+              <CardDescription>
+                {inviteError instanceof Error ? inviteError.message : 'This invitation is invalid or has expired.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground text-center">
+                Ask the teammate who invited you to send a new invitation.
+              </p>
+              <Link href="/login">
+                <Button variant="ghost" className="w-full">
+                  <ArrowLeft className="mr-2 h-4 w-4" /> Back to Sign In
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // Success state
+  if (acceptMutation.isSuccess) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="w-full max-w-md space-y-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-display font-bold text-primary">Claims IQ</h1>
+          </div>
+
+          <Card>
+            <CardHeader className="text-center">
+              <div className="mx-auto w-16 h-16 rounded-full bg-green-100 flex items-center justify-center mb-4">
+                <CheckCircle className="h-8 w-8 text-green-600" />
+              </div>
+              <CardTitle>Welcome to the Team</CardTitle>
+              <CardDescription>
+                Your portal account is ready. Sign in as {invite.email} with your new password.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/login">
+                <Button className="w-full">Sign In</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-display font-bold text-primary">Claims IQ</h1>
+          <p className="text-muted-foreground mt-2">Join Your Team</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-2">
+              <Users className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>Welcome, {invite.firstName}</CardTitle>
+            <CardDescription>
+              You've been invited to the Claims iQ portal{invite.companyName ? ` for ${invite.companyName}` : ''}.
+              Set a password to activate your account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" value={invite.email} readOnly className="bg-muted" />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="Create a password"
+                    className="pl-10 pr-10"
+                    {...register('password')}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="text-sm text-destructive">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="confirmPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="Confirm your password"
+                    className="pl-10"
+                    {...register('confirmPassword')}
+                  />
+                </div>
+                {errors.confirmPassword && (
+                  <p className="text-sm text-destructive">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <div className="text-xs text-muted-foreground bg-muted p-3 rounded-lg">
+                <p className="font-medium mb-1">Password requirements:</p>
+                <ul className="space-y-0.5">
+                  <li className={password.length >= 8 ? 'text-green-600' : ''}>• At least 8 characters</li>
+                  <li className={/[A-Z]/.test(password) ? 'text-green-600' : ''}>• One uppercase letter</li>
+                  <li className={/[a-z]/.test(password) ? 'text-green-600' : ''}>• One lowercase letter</li>
+                  <li className={/[0-9]/.test(password) ? 'text-green-600' : ''}>• One number</li>
+                  <li className={/[^A-Za-z0-9]/.test(password) ? 'text-green-600' : ''}>• One special character</li>
+                </ul>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={acceptMutation.isPending}
+              >
+                {acceptMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating account...
+                  </>
+                ) : (
+                  'Accept Invitation'
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
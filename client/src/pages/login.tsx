@@ -12,7 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Alert, AlertDescription } from '../components/ui/alert';
 import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
-import { Loader2, Mail, ArrowLeft, Lock, Eye, EyeOff } from 'lucide-react';
+import { Loader2, Mail, ArrowLeft, Lock, Eye, EyeOff, ShieldCheck, Building2 } from 'lucide-react';
+import type { MfaEnrollment } from '@shared/types';
 
 const loginSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -26,15 +27,56 @@ const passwordLoginSchema = z.object({
 type LoginFormData = z.infer<typeof loginSchema>;
 type PasswordLoginFormData = z.infer<typeof passwordLoginSchema>;
 
+type LoginStep = 'email' | 'otp' | 'mfa' | 'recovery_codes';
+type AuthMethod = 'password' | 'magic_link' | 'sso';
+
+// Failed sign-in callbacks, including SSO, redirect here with ?error=
+function getInitialError(): string | null {
+  return new URLSearchParams(window.location.search).get('error');
+}
+
+// The magic link callback redirects here with ?mfa=verify or ?mfa=enroll when a second factor is needed
+function getInitialMfaStep(): { step: LoginStep; enrollmentRequired: boolean } {
+  const mfa = new URLSearchParams(window.location.search).get('mfa');
+  if (mfa === 'verify' || mfa === 'enroll') {
+    return { step: 'mfa', enrollmentRequired: mfa === 'enroll' };
+  }
+  return { step: 'email', enrollmentRequired: false };
+}
+
+// Errors from password and magic link sign-in when the user's company only allows SSO
+function isSsoRequiredError(err: unknown): err is Error & { ssoRequired: true } {
+  return err instanceof Error && (err as Error & { ssoRequired?: boolean }).ssoRequired === true;
+}
+
+async function postMfaChallenge(path: string, body?: unknown) {
+  const response = await fetch(`/api/auth/mfa/challenge/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body || {}),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw Object.assign(new Error(result.error || 'Verification failed'), { status: response.status });
+  }
+  return result;
+}
+
 export default function LoginPage() {
   const [, setLocation] = useLocation();
   const queryClient = useQueryClient();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
-  const [authMethod, setAuthMethod] = useState<'magic_link' | 'password'>('password');
-  const [step, setStep] = useState<'email' | 'otp'>('email');
+  const [authMethod, setAuthMethod] = useState<AuthMethod>('password');
+  const [initialMfa] = useState(getInitialMfaStep);
+  const [step, setStep] = useState<LoginStep>(initialMfa.step);
   const [email, setEmail] = useState('');
   const [otp, setOtp] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [mfaEnrollmentRequired, setMfaEnrollmentRequired] = useState(initialMfa.enrollmentRequired);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(getInitialError);
   const [showPassword, setShowPassword] = useState(false);
 
   const loginMutation = useLogin();
@@ -48,6 +90,10 @@ export default function LoginPage() {
     resolver: zodResolver(passwordLoginSchema),
   });
 
+  const ssoForm = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema),
+  });
+
   // Password login mutation
   const passwordLoginMutation = useMutation({
     mutationFn: async (data: PasswordLoginFormData) => {
@@ -59,12 +105,14 @@ export default function LoginPage() {
       });
       const result = await response.json();
       if (!response.ok) {
-        throw new Error(result.error || 'Login failed');
+        throw Object.assign(new Error(result.error || 'Login failed'), { ssoRequired: !!result.ssoRequired });
       }
       return result;
     },
     onSuccess: async (result) => {
-      if (result.requireMagicLink) {
+      if (result.mfaRequired) {
+        startMfaStep(result.enrollmentRequired);
+      } else if (result.requireMagicLink) {
         // Password verified but need magic link for full session
         setEmail(result.email);
         setAuthMethod('magic_link');
@@ -76,23 +124,115 @@ export default function LoginPage() {
         setLocation('/portal');
       }
     },
-    onError: (err) => {
+    onError: (err, data) => {
+      if (isSsoRequiredError(err)) {
+        switchToSso(data.email, err.message);
+        return;
+      }
       setError(err instanceof Error ? err.message : 'Login failed');
     },
   });
 
+  // Look up the email's identity provider, then hand the browser over to it
+  const ssoMutation = useMutation<void, Error, LoginFormData>({
+    mutationFn: async ({ email }) => {
+      const response = await fetch('/api/auth/sso/discover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ email }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to look up single sign-on');
+      }
+      if (!result.ssoAvailable) {
+        throw new Error('Single sign-on is not set up for this email address. Sign in with your password or a magic link.');
+      }
+      window.location.href = `/api/auth/sso/start?email=${encodeURIComponent(email)}`;
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  // Start setting up an authenticator app for users who must have one
+  const mfaEnrollMutation = useMutation<{ enrollment: MfaEnrollment }, Error & { status?: number }>({
+    mutationFn: () => postMfaChallenge('enroll'),
+    onError: (err) => handleMfaError(err),
+  });
+
+  const mfaVerifyMutation = useMutation<{ recoveryCodes?: string[] }, Error & { status?: number }, string>({
+    mutationFn: (code) => postMfaChallenge('verify', { code }),
+    onSuccess: async (result) => {
+      if (result.recoveryCodes?.length) {
+        // Show the codes from setting up the app before going on to the portal
+        setRecoveryCodes(result.recoveryCodes);
+        setStep('recovery_codes');
+        return;
+      }
+      await queryClient.refetchQueries({ queryKey: ['auth', 'me'] });
+      setLocation('/portal');
+    },
+    onError: (err) => {
+      setMfaCode('');
+      handleMfaError(err);
+    },
+  });
+
+  useEffect(() => {
+    if (step === 'mfa' && mfaEnrollmentRequired && mfaEnrollMutation.isIdle) {
+      mfaEnrollMutation.mutate();
+    }
+  }, [step, mfaEnrollmentRequired, mfaEnrollMutation]);
+
   // Redirect if already authenticated (use useEffect to avoid React render warnings)
   useEffect(() => {
-    if (!authLoading && isAuthenticated) {
+    if (!authLoading && isAuthenticated && step !== 'recovery_codes') {
       setLocation('/portal');
     }
-  }, [authLoading, isAuthenticated, setLocation]);
+  }, [authLoading, isAuthenticated, step, setLocation]);
 
   // Don't render login form if authenticated
-  if (!authLoading && isAuthenticated) {
+  if (!authLoading && isAuthenticated && step !== 'recovery_codes') {
     return null;
   }
 
+  function startMfaStep(enrollmentRequired?: boolean) {
+    setError(null);
+    setMfaCode('');
+    setUseRecoveryCode(false);
+    setMfaEnrollmentRequired(!!enrollmentRequired);
+    setStep('mfa');
+  }
+
+  // An expired challenge means starting the sign-in again
+  function handleMfaError(err: Error & { status?: number }) {
+    if (err.status === 401) {
+      mfaEnrollMutation.reset();
+      setStep('email');
+    }
+    setError(err.message);
+  }
+
+  const onMfaSubmit = () => {
+    setError(null);
+    mfaVerifyMutation.mutate(mfaCode);
+  };
+
+  const onRecoveryCodesSaved = async () => {
+    await queryClient.refetchQueries({ queryKey: ['auth', 'me'] });
+    setLocation('/portal');
+  };
+
+  function switchToSso(ssoEmail: string, message: string) {
+    ssoForm.setValue('email', ssoEmail);
+    setAuthMethod('sso');
+    setStep('email');
+    setOtp('');
+    setError(message);
+  }
+
   const onEmailSubmit = async (data: LoginFormData) => {
     setError(null);
     try {
@@ -100,10 +240,19 @@ export default function LoginPage() {
       setEmail(data.email);
       setStep('otp');
     } catch (err) {
+      if (isSsoRequiredError(err)) {
+        switchToSso(data.email, err.message);
+        return;
+      }
       setError(err instanceof Error ? err.message : 'Failed to send magic link');
     }
   };
 
+  const onSsoSubmit = (data: LoginFormData) => {
+    setError(null);
+    ssoMutation.mutate(data);
+  };
+
   const onPasswordSubmit = async (data: PasswordLoginFormData) => {
     setError(null);
     passwordLoginMutation.mutate(data);
@@ -117,7 +266,10 @@ export default function LoginPage() {
 
     setError(null);
     try {
-      await verifyMutation.mutateAsync({ email, token: otp });
+      const result = await verifyMutation.mutateAsync({ email, token: otp });
+      if (result.mfaRequired) {
+        startMfaStep(result.enrollmentRequired);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Verification failed');
     }
@@ -126,6 +278,8 @@ export default function LoginPage() {
   const handleBackToEmail = () => {
     setStep('email');
     setOtp('');
+    setMfaCode('');
+    mfaEnrollMutation.reset();
     setError(null);
   };
 
@@ -149,12 +303,22 @@ export default function LoginPage() {
         <Card>
           <CardHeader>
             <CardTitle>
-              {step === 'email' ? 'Sign In' : 'Verify Your Email'}
+              {step === 'email' && 'Sign In'}
+              {step === 'otp' && 'Verify Your Email'}
+              {step === 'mfa' && (mfaEnrollmentRequired ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication')}
+              {step === 'recovery_codes' && 'Save Your Recovery Codes'}
             </CardTitle>
             <CardDescription>
-              {step === 'email'
-                ? "Choose your preferred sign-in method"
-                : `We sent a verification code to ${email}`}
+              {step === 'email' && 'Choose your preferred sign-in method'}
+              {step === 'otp' && `We sent a verification code to ${email}`}
+              {step === 'mfa' &&
+                (mfaEnrollmentRequired
+                  ? 'Your account requires an authenticator app. Scan the QR code, then enter the 6-digit code it shows.'
+                  : useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when you set up two-factor authentication'
+                    : 'Enter the 6-digit code from your authenticator app')}
+              {step === 'recovery_codes' &&
+                "Each code signs you in once if you lose your authenticator app. Store them somewhere safe; they won't be shown again."}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -165,10 +329,11 @@ export default function LoginPage() {
             )}
 
             {step === 'email' ? (
-              <Tabs value={authMethod} onValueChange={(v) => setAuthMethod(v as 'magic_link' | 'password')}>
-                <TabsList className="grid w-full grid-cols-2 mb-4">
+              <Tabs value={authMethod} onValueChange={(v) => setAuthMethod(v as AuthMethod)}>
+                <TabsList className="grid w-full grid-cols-3 mb-4">
                   <TabsTrigger value="password">Password</TabsTrigger>
                   <TabsTrigger value="magic_link">Magic Link</TabsTrigger>
+                  <TabsTrigger value="sso">SSO</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="magic_link">
@@ -272,7 +437,155 @@ export default function LoginPage() {
                     </Button>
                   </form>
                 </TabsContent>
+
+                <TabsContent value="sso">
+                  <form onSubmit={ssoForm.handleSubmit(onSsoSubmit)} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="email-sso">Work Email Address</Label>
+                      <div className="relative">
+                        <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="email-sso"
+                          type="email"
+                          placeholder="you@company.com"
+                          className="pl-10"
+                          {...ssoForm.register('email')}
+                        />
+                      </div>
+                      {ssoForm.formState.errors.email && (
+                        <p className="text-sm text-destructive">{ssoForm.formState.errors.email.message}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        You'll be sent to your organization's sign-in page.
+                      </p>
+                    </div>
+
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={ssoMutation.isPending}
+                    >
+                      {ssoMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Redirecting...
+                        </>
+                      ) : (
+                        'Continue with SSO'
+                      )}
+                    </Button>
+                  </form>
+                </TabsContent>
               </Tabs>
+            ) : step === 'mfa' ? (
+              <div className="space-y-4">
+                {mfaEnrollmentRequired && (
+                  <div className="space-y-2 text-center">
+                    {mfaEnrollMutation.data ? (
+                      <>
+                        <img
+                          src={mfaEnrollMutation.data.enrollment.qrCodeDataUrl}
+                          alt="QR code for your authenticator app"
+                          className="mx-auto h-44 w-44"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Can't scan it? Enter this key instead:
+                        </p>
+                        <code className="block text-sm font-mono break-all">
+                          {mfaEnrollMutation.data.enrollment.secret}
+                        </code>
+                      </>
+                    ) : (
+                      <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="mfa-code">{useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}</Label>
+                  {useRecoveryCode ? (
+                    <Input
+                      id="mfa-code"
+                      placeholder="xxxxx-xxxxx"
+                      autoComplete="off"
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                    />
+                  ) : (
+                    <div className="flex justify-center">
+                      <InputOTP id="mfa-code" maxLength={6} value={mfaCode} onChange={setMfaCode}>
+                        <InputOTPGroup>
+                          <InputOTPSlot index={0} />
+                          <InputOTPSlot index={1} />
+                          <InputOTPSlot index={2} />
+                          <InputOTPSlot index={3} />
+                          <InputOTPSlot index={4} />
+                          <InputOTPSlot index={5} />
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                  )}
+                </div>
+
+                <Button
+                  type="button"
+                  className="w-full"
+                  onClick={onMfaSubmit}
+                  disabled={
+                    mfaVerifyMutation.isPending ||
+                    (useRecoveryCode ? mfaCode.trim().length < 10 : mfaCode.length < 6)
+                  }
+                >
+                  {mfaVerifyMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    'Verify & Sign In'
+                  )}
+                </Button>
+
+                {!mfaEnrollmentRequired && (
+                  <div className="text-center">
+                    <Button
+                      type="button"
+                      variant="link"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setMfaCode('');
+                        setError(null);
+                      }}
+                    >
+                      {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+                    </Button>
+                  </div>
+                )}
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={handleBackToEmail}
+                >
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to sign in
+                </Button>
+              </div>
+            ) : step === 'recovery_codes' ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-4">
+                  {recoveryCodes.map((code) => (
+                    <code key={code} className="text-sm font-mono text-center">
+                      {code}
+                    </code>
+                  ))}
+                </div>
+                <Button type="button" className="w-full" onClick={onRecoveryCodesSaved}>
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  I've Saved These Codes
+                </Button>
+              </div>
             ) : (
               <div className="space-y-4">
                 <div className="space-y-2">
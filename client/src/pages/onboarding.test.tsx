@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Route, Router } from "wouter";
+import { memoryLocation } from "wouter/memory-location";
+import { MotionGlobalConfig } from "framer-motion";
+import axe from "axe-core";
+import type { OnboardingDraftData } from "@shared/types";
+import Onboarding from "./onboarding";
+
+// A draft with every step filled in, so the wizard can be opened on any of them
+const completeDraft: OnboardingDraftData = {
+  company: {
+    legal_name: "Acme Insurance Ltd.",
+    address_line_1: "123 Corporate Blvd",
+    city: "Dallas",
+    state: "TX",
+    postal_code: "75201",
+    company_size: "small",
+    lines_of_business: ["Personal Auto"],
+  },
+  contact: { first_name: "Ada", last_name: "Lovelace", email: "ada@acme.com", phone: "2145550100" },
+  modules: { core: true, comms: false, fnol: false },
+};
+
+let draft: { currentStep: number; formData: OnboardingDraftData } | null = null;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } }));
+}
+
+// The API calls the wizard makes for a prospect opening their invite link
+function fakeApi(input: RequestInfo | URL, init?: RequestInit) {
+  const url = String(input);
+  if (url === "/api/auth/me") return respond({ success: false }, 401);
+  if (url.startsWith("/api/onboarding/validate-invite/")) {
+    return respond({ success: true, invite: { email: "ada@acme.com", expiresAt: "2030-01-01T00:00:00.000Z" } });
+  }
+  if (url.startsWith("/api/onboarding/draft/") && init?.method !== "PUT") {
+    return respond({ success: true, draft: draft && { ...draft, updatedAt: "2026-01-01T00:00:00.000Z" } });
+  }
+  if (url.startsWith("/api/onboarding/attachments/")) return respond({ success: true, attachments: [] });
+  return respond({ success: true });
+}
+
+function renderWizard(currentStep: number | null) {
+  draft = currentStep ? { currentStep, formData: completeDraft } : null;
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const { hook } = memoryLocation({ path: "/onboarding/invite-token" });
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <Router hook={hook}>
+        <Route path="/onboarding/:token" component={Onboarding} />
+      </Router>
+    </QueryClientProvider>
+  );
+}
+
+// jsdom doesn't lay out or paint, so contrast is left to the browser
+async function expectNoAxeViolations(container: HTMLElement) {
+  const results = await axe.run(container, { rules: { "color-contrast": { enabled: false } } });
+  expect(results.violations.map(({ id, help, nodes }) => ({ id, help, targets: nodes.map((node) => node.target) }))).toEqual([]);
+}
+
+beforeAll(() => {
+  MotionGlobalConfig.skipAnimations = true;
+  // Radix and the wizard call these, which jsdom leaves out
+  window.scrollTo = () => {};
+  window.HTMLElement.prototype.scrollIntoView = () => {};
+  window.HTMLElement.prototype.hasPointerCapture = () => false;
+  window.ResizeObserver ||= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+});
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", vi.fn(fakeApi));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe("onboarding wizard accessibility", () => {
+  it.each([
+    [1, "Company Information"],
+    [2, "Primary Contact"],
+    [3, "Module Selection"],
+    [4, "Requirements"],
+    [5, "Review & Submit"],
+  ])("step %i (%s) has no axe violations", async (step, heading) => {
+    const { container } = renderWizard(step);
+
+    await screen.findByRole("heading", { level: 2, name: heading });
+    await expectNoAxeViolations(container);
+  });
+
+  it("has no axe violations while showing a step's errors", async () => {
+    const { container } = renderWizard(null);
+
+    fireEvent.click(await screen.findByRole("button", { name: /continue/i }));
+
+    await screen.findByRole("alert");
+    await expectNoAxeViolations(container);
+  });
+
+  it("announces the new step in the live region when the step changes", async () => {
+    renderWizard(2);
+    await screen.findByRole("heading", { level: 2, name: "Primary Contact" });
+
+    const liveRegion = screen.getByRole("status");
+    expect(liveRegion.textContent).toBe("");
+
+    fireEvent.click(screen.getByRole("button", { name: "Back" }));
+
+    await waitFor(() => expect(liveRegion.textContent).toBe("Step 1 of 5: Company Info"));
+    expect(liveRegion.getAttribute("aria-live")).toBe("polite");
+    await waitFor(() => expect(document.activeElement).toBe(screen.getByRole("heading", { level: 2, name: "Company Information" })));
+  });
+
+  it("moves focus to the field when an error summary link is followed", async () => {
+    renderWizard(null);
+
+    fireEvent.click(await screen.findByRole("button", { name: /continue/i }));
+
+    const summary = await screen.findByRole("alert");
+    await waitFor(() => expect(document.activeElement).toBe(summary));
+
+    fireEvent.click(screen.getByRole("link", { name: "City is required" }));
+
+    expect(document.activeElement).toBe(screen.getByRole("textbox", { name: /city/i }));
+    expect(document.activeElement?.getAttribute("aria-invalid")).toBe("true");
+  });
+});
@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm, Controller } from "react-hook-form";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Link, useLocation, useParams } from "wouter";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -13,20 +13,52 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { motion, AnimatePresence } from "framer-motion";
-import { Check, ChevronRight, ArrowLeft, ArrowRight, Loader2, ShieldX, Mail } from "lucide-react";
+import { Check, ChevronRight, ArrowLeft, ArrowRight, Loader2, ShieldX, Mail, Paperclip, Upload, Trash2, FileText, Lock, BadgeCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import logo from "@assets/ClaimsIQ_Logo_02-09[31]_1767489942619.png";
-import type { OnboardingFormData, CompanySize } from "@shared/types";
+import type {
+  OnboardingFormData,
+  OnboardingDraftData,
+  OnboardingAttachment,
+  AttachmentCategory,
+  CompanySize,
+  ModuleType,
+  InvitePrefill,
+  InvitePrefillField,
+} from "@shared/types";
+import {
+  REQUIREMENT_MODULES,
+  LINES_OF_BUSINESS,
+  buildRequirementsSchema,
+  lineOfBusinessRequirementsSchema,
+  getLineOfBusinessQuestions,
+  getDefaultAnswers,
+  getVisibleQuestions,
+  formatRequirementAnswer,
+  formatLineOfBusinessRequirements,
+  type RequirementQuestion,
+} from "@shared/requirementsCatalog";
+import { fieldProps, collectErrors, collectRequirementErrors, type FieldErrorItem } from "@/lib/formAccessibility";
+import { normalizeAddress, normalizeState, normalizePostalCode, STATE_ERROR, POSTAL_CODE_ERROR } from "@shared/address";
+import { estimateSizing, formatGoLiveWindow, SIZING_TIER_LABELS, IMPLEMENTATION_EFFORT_LABELS } from "@shared/sizing";
 
 // Types for invite validation
 interface InviteData {
   email: string;
   companyName?: string;
   expiresAt: string;
+  prefill?: InvitePrefill | null;
+  lockedFields?: InvitePrefillField[];
+}
+
+// Saved wizard progress returned by the draft endpoint
+interface DraftData {
+  currentStep: number;
+  formData: OnboardingDraftData;
+  updatedAt: string;
 }
 
 // Validation Schemas
@@ -37,11 +69,20 @@ const companySchema = z.object({
   address: z.string().min(5, "Address is required"),
   address2: z.string().optional(),
   city: z.string().min(2, "City is required"),
-  state: z.string().min(2, "State is required"),
-  zip: z.string().min(5, "ZIP is required"),
+  state: z.string().min(2, "State is required")
+    .refine((value) => normalizeState(value) !== null, STATE_ERROR)
+    .transform((value) => normalizeState(value)!.code),
+  zip: z.string().min(5, "ZIP is required")
+    .refine((value) => normalizePostalCode(value) !== null, POSTAL_CODE_ERROR)
+    .transform((value) => normalizePostalCode(value)!.postalCode),
   companySize: z.string(),
   claimsVolume: z.string(),
   linesOfBusiness: z.array(z.string()).min(1, "Select at least one line of business"),
+}).superRefine((data, ctx) => {
+  const address = normalizeAddress(data.state, data.zip);
+  if (address.errors.postalCode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: address.errors.postalCode, path: ["zip"] });
+  }
 });
 
 const contactSchema = z.object({
@@ -66,15 +107,180 @@ const STEPS = [
   { id: 5, label: "Review" },
 ];
 
+// Company size options used by the wizard, mapped to the API enum
+const COMPANY_SIZE_MAP: Record<string, CompanySize> = {
+  '1-50': 'micro',
+  '51-200': 'small',
+  '201-1000': 'medium',
+  '1000+': 'large',
+};
+
+// Transform wizard form data to API format
+function transformFormData(data: any): OnboardingFormData {
+  const selectedModules: string[] = data.selectedModules || [];
+
+  return {
+    company: {
+      legal_name: data.legalName,
+      dba_name: data.dba || undefined,
+      website: data.website || undefined,
+      address_line_1: data.address,
+      address_line_2: data.address2 || undefined,
+      city: data.city,
+      state: data.state,
+      postal_code: data.zip,
+      company_size: COMPANY_SIZE_MAP[data.companySize] || undefined,
+      lines_of_business: data.linesOfBusiness || [],
+    },
+    contact: {
+      first_name: data.firstName,
+      last_name: data.lastName,
+      email: data.email,
+      phone: data.phone || undefined,
+      title: data.title || undefined,
+    },
+    modules: {
+      core: selectedModules.includes('core'),
+      comms: selectedModules.includes('comms'),
+      fnol: selectedModules.includes('fnol'),
+    },
+    requirements: {
+      core: selectedModules.includes('core') ? { ...data.requirements?.core } : undefined,
+      comms: selectedModules.includes('comms') ? { ...data.requirements?.comms } : undefined,
+      fnol: selectedModules.includes('fnol') ? {
+        ...data.requirements?.fnol,
+        lines_of_business: data.linesOfBusiness || [],
+      } : undefined,
+    },
+  };
+}
+
+// Transform saved draft data (API format) back to wizard form data
+function draftToFormData(draft: OnboardingDraftData): Record<string, any> {
+  const { company, contact, modules, requirements } = draft;
+  const sizeLabel = Object.entries(COMPANY_SIZE_MAP).find(([, size]) => size === company?.company_size)?.[0];
+
+  const formData: Record<string, any> = {
+    legalName: company?.legal_name,
+    dba: company?.dba_name,
+    website: company?.website,
+    address: company?.address_line_1,
+    address2: company?.address_line_2,
+    city: company?.city,
+    state: company?.state,
+    zip: company?.postal_code,
+    companySize: sizeLabel,
+    linesOfBusiness: company?.lines_of_business,
+    firstName: contact?.first_name,
+    lastName: contact?.last_name,
+    email: contact?.email,
+    phone: contact?.phone,
+    title: contact?.title,
+    selectedModules: modules
+      ? (['core', 'comms', 'fnol'] as const).filter((m) => modules[m])
+      : undefined,
+    requirements,
+  };
+
+  // Drop fields the draft did not have so they don't overwrite invite prefill
+  return Object.fromEntries(Object.entries(formData).filter(([, v]) => v !== undefined));
+}
+
+// Invite prefill fields mapped to the wizard's form fields
+const PREFILL_FORM_FIELDS: Record<InvitePrefillField, string> = {
+  'company.legal_name': 'legalName',
+  'company.dba_name': 'dba',
+  'company.website': 'website',
+  'company.address_line_1': 'address',
+  'company.address_line_2': 'address2',
+  'company.city': 'city',
+  'company.state': 'state',
+  'company.postal_code': 'zip',
+  'company.company_size': 'companySize',
+  'company.lines_of_business': 'linesOfBusiness',
+  'contact.first_name': 'firstName',
+  'contact.last_name': 'lastName',
+  'contact.email': 'email',
+  'contact.phone': 'phone',
+  'contact.title': 'title',
+  'modules': 'selectedModules',
+};
+
+// Form fields staff filled in on the invite, and which of those the prospect can't change
+interface PrefillInfo {
+  provided: Set<string>;
+  locked: Set<string>;
+}
+
+// Wizard form values and field markers for an invite's prefill
+function getInvitePrefill(invite?: InviteData): { values: Record<string, any>; info: PrefillInfo } {
+  if (!invite?.prefill) {
+    return { values: {}, info: { provided: new Set(), locked: new Set() } };
+  }
+
+  const values = draftToFormData(invite.prefill);
+  const provided = new Set(Object.keys(values).filter((field) => field !== 'requirements'));
+  const locked = new Set(
+    (invite.lockedFields || [])
+      .map((field) => PREFILL_FORM_FIELDS[field])
+      .filter((field) => provided.has(field))
+  );
+
+  return { values, info: { provided, locked } };
+}
+
+// Lets a prospect on a second browser ask staff to move a device-bound invite to it
+function RequestDeviceTransfer({ inviteToken }: { inviteToken: string }) {
+  const requestTransfer = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/onboarding/transfer-request/${inviteToken}`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to request access');
+      }
+      return result as { message: string };
+    },
+  });
+
+  if (requestTransfer.isSuccess) {
+    return (
+      <Alert>
+        <BadgeCheck className="h-4 w-4" />
+        <AlertDescription>{requestTransfer.data.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        For security, this invite can only be used in the browser that first opened it.
+        If you need to continue here instead, ask your Claims iQ contact to approve this browser.
+      </p>
+      {requestTransfer.error && (
+        <p className="text-sm text-destructive">{requestTransfer.error.message}</p>
+      )}
+      <Button
+        className="w-full"
+        onClick={() => requestTransfer.mutate()}
+        disabled={requestTransfer.isPending}
+      >
+        {requestTransfer.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Request Access From This Browser
+      </Button>
+    </div>
+  );
+}
+
 // Access Denied Component for invalid/missing invite
-function AccessDenied({ error }: { error?: string }) {
+function AccessDenied({ error, transferToken }: { error?: string; transferToken?: string }) {
   return (
     <div className="min-h-screen bg-muted/20 flex flex-col font-sans">
       <header className="bg-card border-b border-border">
         <div className="container max-w-screen-xl px-4 h-16 flex items-center">
           <Link href="/">
             <div className="flex items-center gap-2 font-bold text-lg text-primary cursor-pointer font-display">
-              <img src={logo} alt="Claims iQ" className="h-6 w-6 object-contain" />
+              <img src={logo} alt="" className="h-6 w-6 object-contain" />
               <span>Claims iQ</span>
             </div>
           </Link>
@@ -93,12 +299,16 @@ function AccessDenied({ error }: { error?: string }) {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Alert>
-              <Mail className="h-4 w-4" />
-              <AlertDescription>
-                Contact your Claims iQ representative to receive an invite link.
-              </AlertDescription>
-            </Alert>
+            {transferToken ? (
+              <RequestDeviceTransfer inviteToken={transferToken} />
+            ) : (
+              <Alert>
+                <Mail className="h-4 w-4" />
+                <AlertDescription>
+                  Contact your Claims iQ representative to receive an invite link.
+                </AlertDescription>
+              </Alert>
+            )}
             <div className="flex flex-col gap-2">
               <Link href="/">
                 <Button variant="outline" className="w-full">
@@ -143,6 +353,7 @@ export default function Onboarding() {
     linesOfBusiness: [],
     selectedModules: ["core"],
   });
+  const [draftRestored, setDraftRestored] = useState(false);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
@@ -156,7 +367,14 @@ export default function Onboarding() {
       const response = await fetch(`/api/onboarding/validate-invite/${inviteToken}`);
       const result = await response.json();
       if (!response.ok || !result.success) {
-        throw new Error(result.error || 'Invalid invite');
+        // Team-member invites sent before they had their own link land here
+        if (result.teamInvite) {
+          setLocation(`/join/${inviteToken}`);
+        }
+        // deviceMismatch: the invite is bound to another browser
+        throw Object.assign(new Error(result.error || 'Invalid invite'), {
+          deviceMismatch: !!result.deviceMismatch,
+        });
       }
       return result.invite as InviteData;
     },
@@ -164,12 +382,56 @@ export default function Onboarding() {
     retry: false,
   });
 
+  // Load any saved draft once the invite is known to be valid
+  const { data: draft, isLoading: draftLoading } = useQuery({
+    queryKey: ['onboarding-draft', inviteToken],
+    queryFn: async () => {
+      const response = await fetch(`/api/onboarding/draft/${inviteToken}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load draft');
+      }
+      return result.draft as DraftData | null;
+    },
+    enabled: !!inviteToken && !!inviteData,
+    retry: false,
+  });
+
+  // Autosave mutation for wizard progress (failures are non-blocking)
+  const saveDraftMutation = useMutation({
+    mutationFn: async (data: { currentStep: number; formData: OnboardingDraftData }) => {
+      const response = await fetch(`/api/onboarding/draft/${inviteToken}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save draft');
+      }
+      return result;
+    },
+    onError: (error) => {
+      console.warn('Draft autosave failed:', error);
+    },
+  });
+
+  // Set once the wizard has reported that the prospect started filling it in
+  const wizardStartedRef = useRef(false);
+
+  // Idempotency key for the current submission attempt; reused on retries so the server
+  // replays the original result instead of creating a second project
+  const submissionKeyRef = useRef<string | null>(null);
+
   // API mutation for submitting onboarding form (must be before any conditional returns)
   const submitMutation = useMutation({
-    mutationFn: async (data: OnboardingFormData & { inviteToken: string }) => {
+    mutationFn: async ({ idempotencyKey, ...data }: OnboardingFormData & { inviteToken: string; idempotencyKey: string }) => {
       const response = await fetch('/api/onboarding/submit', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
+        },
         body: JSON.stringify(data),
       });
       const result = await response.json();
@@ -195,13 +457,26 @@ export default function Onboarding() {
     },
   });
 
+  // Move focus to the new step's heading once it has animated in, and announce the step.
+  // Skipped on first render so landing on the page doesn't steal focus.
+  const hasNavigatedRef = useRef(false);
+  const [stepAnnouncement, setStepAnnouncement] = useState("");
+  useEffect(() => {
+    if (!hasNavigatedRef.current) return;
+    setStepAnnouncement(`Step ${step} of ${STEPS.length}: ${STEPS[step - 1].label}`);
+    const timer = setTimeout(() => document.getElementById(STEP_HEADING_ID)?.focus(), 250);
+    return () => clearTimeout(timer);
+  }, [step]);
+
   // Pre-fill form data from invite or user data
   useEffect(() => {
     if (inviteData) {
+      const { values } = getInvitePrefill(inviteData);
       setFormData((prev: any) => ({
         ...prev,
         email: inviteData.email,
         legalName: inviteData.companyName || prev.legalName,
+        ...values,
       }));
     } else if (isAuthenticated && user) {
       setFormData((prev: any) => ({
@@ -213,6 +488,21 @@ export default function Onboarding() {
     }
   }, [inviteData, isAuthenticated, user]);
 
+  // Resume from a saved draft (runs after invite prefill so the draft wins, except for locked fields)
+  useEffect(() => {
+    if (draft && !draftRestored) {
+      const { values, info } = getInvitePrefill(inviteData);
+      const lockedValues = Object.fromEntries(Object.entries(values).filter(([field]) => info.locked.has(field)));
+      setFormData((prev: any) => ({ ...prev, ...draftToFormData(draft.formData), ...lockedValues }));
+      setStep(draft.currentStep);
+      setDraftRestored(true);
+      toast({
+        title: "Welcome back",
+        description: "We've restored the progress you saved earlier.",
+      });
+    }
+  }, [draft, draftRestored, inviteData, toast]);
+
   // Show loading while checking auth
   if (authLoading) {
     return <LoadingInvite />;
@@ -224,90 +514,66 @@ export default function Onboarding() {
   }
 
   // Show loading while validating invite (only if not authenticated)
-  if (!isAuthenticated && inviteLoading) {
+  if (!isAuthenticated && (inviteLoading || draftLoading)) {
     return <LoadingInvite />;
   }
 
   // Show access denied on invite error (only if not authenticated)
   if (!isAuthenticated && (inviteError || !inviteData)) {
-    return <AccessDenied error={inviteError instanceof Error ? inviteError.message : 'Invalid or expired invite'} />;
+    const deviceMismatch = !!(inviteError as { deviceMismatch?: boolean } | null)?.deviceMismatch;
+    return (
+      <AccessDenied
+        error={inviteError instanceof Error ? inviteError.message : 'Invalid or expired invite'}
+        transferToken={deviceMismatch ? inviteToken : undefined}
+      />
+    );
   }
 
+  const prefill = getInvitePrefill(inviteData).info;
+
+  // Persist wizard progress so the prospect can resume from their invite link
+  const autosaveDraft = (currentStep: number, data: any) => {
+    if (!inviteToken || !inviteData) return;
+    saveDraftMutation.mutate({ currentStep, formData: transformFormData(data) });
+  };
+
+  // Tell the invite funnel the prospect started the wizard (first edit or click; failures are ignored)
+  const reportWizardStarted = () => {
+    if (wizardStartedRef.current || !inviteToken || !inviteData || draft) return;
+    wizardStartedRef.current = true;
+    fetch(`/api/onboarding/events/${inviteToken}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event: 'wizard_started' }),
+    }).catch((error) => console.warn('Failed to record wizard start:', error));
+  };
+
   const handleNext = (data: any) => {
-    setFormData((prev: any) => ({ ...prev, ...data }));
-    setStep((prev) => Math.min(prev + 1, 5));
+    submissionKeyRef.current = null;
+    hasNavigatedRef.current = true;
+    const nextData = { ...formData, ...data };
+    const nextStep = Math.min(step + 1, 5);
+    setFormData(nextData);
+    setStep(nextStep);
+    autosaveDraft(nextStep, nextData);
     window.scrollTo(0, 0);
   };
 
   const handleBack = () => {
-    setStep((prev) => Math.max(prev - 1, 1));
+    hasNavigatedRef.current = true;
+    const prevStep = Math.max(step - 1, 1);
+    setStep(prevStep);
+    autosaveDraft(prevStep, formData);
     window.scrollTo(0, 0);
   };
 
-  // Transform form data to API format
-  const transformFormData = (data: any): OnboardingFormData => {
-    // Map company size
-    const sizeMap: Record<string, CompanySize> = {
-      '1-50': 'micro',
-      '51-200': 'small',
-      '201-1000': 'medium',
-      '1000+': 'large',
-    };
-
-    return {
-      company: {
-        legal_name: data.legalName,
-        dba_name: data.dba || undefined,
-        website: data.website || undefined,
-        address_line_1: data.address,
-        address_line_2: data.address2 || undefined,
-        city: data.city,
-        state: data.state,
-        postal_code: data.zip,
-        company_size: sizeMap[data.companySize] || undefined,
-        lines_of_business: data.linesOfBusiness || [],
-      },
-      contact: {
-        first_name: data.firstName,
-        last_name: data.lastName,
-        email: data.email,
-        phone: data.phone || undefined,
-        title: data.title || undefined,
-      },
-      modules: {
-        core: (data.selectedModules || []).includes('core'),
-        comms: (data.selectedModules || []).includes('comms'),
-        fnol: (data.selectedModules || []).includes('fnol'),
-      },
-      requirements: {
-        core: (data.selectedModules || []).includes('core') ? {
-          claim_types: [],
-          perils: [],
-          document_types: Object.entries(data.docTypes || {})
-            .filter(([_, v]) => v)
-            .map(([k]) => k),
-          monthly_claim_volume: data.monthlyClaims ? parseInt(data.monthlyClaims) : undefined,
-        } : undefined,
-        comms: (data.selectedModules || []).includes('comms') ? {
-          desired_channels: Object.entries(data.channels || {})
-            .filter(([_, v]) => v)
-            .map(([k]) => k),
-          white_label_level: data.whiteLabelLevel || 'none',
-          languages_required: ['English'],
-        } : undefined,
-        fnol: (data.selectedModules || []).includes('fnol') ? {
-          desired_intake_methods: ['web'],
-          lines_of_business: data.linesOfBusiness || [],
-          photo_required: data.fnol?.photos || false,
-          video_required: data.fnol?.video || false,
-        } : undefined,
-      },
-    };
-  };
-
   const handleSubmit = () => {
+    if (submitMutation.isPending) return;
+    if (!submissionKeyRef.current) {
+      submissionKeyRef.current = crypto.randomUUID();
+    }
     const apiData = transformFormData(formData);
-    submitMutation.mutate({ ...apiData, inviteToken: inviteToken! });
+    submitMutation.mutate({ ...apiData, inviteToken: inviteToken!, idempotencyKey: submissionKeyRef.current });
   };
 
   return (
@@ -317,13 +583,21 @@ export default function Onboarding() {
         <div className="container max-w-screen-xl px-4 h-16 flex items-center justify-between">
           <Link href="/">
             <div className="flex items-center gap-2 font-bold text-lg text-primary cursor-pointer font-display">
-              <img src={logo} alt="Claims iQ" className="h-6 w-6 object-contain" />
+              <img src={logo} alt="" className="h-6 w-6 object-contain" />
               <span>Claims iQ</span>
             </div>
           </Link>
           <div className="flex items-center gap-4 text-sm text-muted-foreground">
-            <span>Step {step} of 5</span>
-            <div className="w-32 h-2 bg-muted rounded-full overflow-hidden">
+            <span aria-hidden="true">Step {step} of 5</span>
+            <div
+              role="progressbar"
+              aria-label="Onboarding progress"
+              aria-valuemin={1}
+              aria-valuemax={STEPS.length}
+              aria-valuenow={step}
+              aria-valuetext={`Step ${step} of ${STEPS.length}: ${STEPS[step - 1].label}`}
+              className="w-32 h-2 bg-muted rounded-full overflow-hidden"
+            >
               <div 
                 className="h-full bg-primary transition-all duration-500 ease-out" 
                 style={{ width: `${(step / 5) * 100}%` }}
@@ -335,15 +609,20 @@ export default function Onboarding() {
 
       {/* Main Content */}
       <main className="flex-1 container max-w-3xl px-4 py-8 mx-auto">
-        <div className="mb-8">
-          <div className="flex items-center justify-between relative">
-            <div className="absolute top-1/2 left-0 w-full h-0.5 bg-border -z-10" />
+        <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+          {stepAnnouncement}
+        </div>
+
+        <nav aria-label="Onboarding steps" className="mb-8 relative">
+          <div className="absolute top-1/2 left-0 w-full h-0.5 bg-border -z-10" aria-hidden="true" />
+          <ol className="flex items-center justify-between">
             {STEPS.map((s) => {
               const isCompleted = step > s.id;
               const isCurrent = step === s.id;
               return (
-                <div key={s.id} className="flex flex-col items-center gap-2 bg-background px-2">
+                <li key={s.id} aria-current={isCurrent ? "step" : undefined} className="flex flex-col items-center gap-2 bg-background px-2">
                   <div 
+                    aria-hidden="true"
                     className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold transition-all duration-300 ${
                       isCompleted ? "bg-accent text-accent-foreground" : 
                       isCurrent ? "bg-primary text-primary-foreground ring-4 ring-primary/20 scale-110" : 
@@ -352,17 +631,20 @@ export default function Onboarding() {
                   >
                     {isCompleted ? <Check className="w-4 h-4" /> : s.id}
                   </div>
-                  <span className={`text-xs font-medium hidden sm:block ${isCurrent ? "text-primary" : "text-muted-foreground"}`}>
+                  <span aria-hidden="true" className={`text-xs font-medium hidden sm:block ${isCurrent ? "text-primary" : "text-muted-foreground"}`}>
                     {s.label}
                   </span>
-                </div>
+                  <span className="sr-only">
+                    {`Step ${s.id}: ${s.label}${isCompleted ? " (completed)" : ""}`}
+                  </span>
+                </li>
               );
             })}
-          </div>
-        </div>
+          </ol>
+        </nav>
 
         <Card className="border-border shadow-sm overflow-hidden">
-          <CardContent className="p-6 md:p-8">
+          <CardContent className="p-6 md:p-8" onChangeCapture={reportWizardStarted} onClickCapture={reportWizardStarted}>
             <AnimatePresence mode="wait">
               <motion.div
                 key={step}
@@ -371,11 +653,11 @@ export default function Onboarding() {
                 exit={{ opacity: 0, x: -10 }}
                 transition={{ duration: 0.2 }}
               >
-                {step === 1 && <Step1Company defaultValues={formData} onNext={handleNext} />}
-                {step === 2 && <Step2Contact defaultValues={formData} onNext={handleNext} onBack={handleBack} />}
-                {step === 3 && <Step3Modules defaultValues={formData} onNext={handleNext} onBack={handleBack} />}
-                {step === 4 && <Step4Requirements defaultValues={formData} onNext={handleNext} onBack={handleBack} />}
-                {step === 5 && <Step5Review data={formData} onSubmit={handleSubmit} onBack={handleBack} isSubmitting={submitMutation.isPending} />}
+                {step === 1 && <Step1Company defaultValues={formData} prefill={prefill} onNext={handleNext} />}
+                {step === 2 && <Step2Contact defaultValues={formData} prefill={prefill} onNext={handleNext} onBack={handleBack} />}
+                {step === 3 && <Step3Modules defaultValues={formData} prefill={prefill} onNext={handleNext} onBack={handleBack} />}
+                {step === 4 && <Step4Requirements defaultValues={formData} inviteToken={inviteData ? inviteToken : undefined} onNext={handleNext} onBack={handleBack} />}
+                {step === 5 && <Step5Review data={formData} inviteToken={inviteData ? inviteToken : undefined} onSubmit={handleSubmit} onBack={handleBack} isSubmitting={submitMutation.isPending} />}
               </motion.div>
             </AnimatePresence>
           </CardContent>
@@ -385,67 +667,203 @@ export default function Onboarding() {
   );
 }
 
+// --- Accessibility Helpers ---
+
+// Each step's heading takes focus when the wizard moves to that step
+const STEP_HEADING_ID = "wizard-step-heading";
+
+function FieldError({ fieldId, error }: { fieldId: string; error?: string }) {
+  if (!error) return null;
+  return <p id={`${fieldId}-error`} className="text-xs text-destructive">{error}</p>;
+}
+
+function StepHeading({ title, description }: { title: string; description: string }) {
+  return (
+    <div>
+      <h2 id={STEP_HEADING_ID} tabIndex={-1} className="text-2xl font-bold text-foreground font-display focus:outline-none">{title}</h2>
+      <p className="text-muted-foreground">{description}</p>
+    </div>
+  );
+}
+
+// Counts failed submits so the error summary can take focus each time. Forms that use it turn
+// off shouldFocusError, or react-hook-form moves focus on to the first invalid field afterwards.
+function useErrorSummaryFocus() {
+  const [focusKey, setFocusKey] = useState(0);
+  return { focusKey, onInvalid: () => setFocusKey((key) => key + 1) };
+}
+
+// Lists a step's validation errors with links to each field; announced as an alert
+function ErrorSummary({ errors, focusKey }: { errors: FieldErrorItem[]; focusKey: number }) {
+  const summaryRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (focusKey > 0) summaryRef.current?.focus();
+  }, [focusKey]);
+
+  if (errors.length === 0) return null;
+
+  return (
+    <div
+      ref={summaryRef}
+      tabIndex={-1}
+      role="alert"
+      aria-labelledby="error-summary-title"
+      className="border border-destructive/50 bg-destructive/5 rounded-lg p-4 focus:outline-none focus:ring-2 focus:ring-destructive"
+    >
+      <h3 id="error-summary-title" className="font-semibold text-sm text-destructive">
+        {errors.length === 1 ? "There is 1 problem" : `There are ${errors.length} problems`} to fix before continuing
+      </h3>
+      <ul className="mt-2 list-disc pl-5 space-y-1 text-sm">
+        {errors.map((error) => (
+          <li key={error.fieldId}>
+            <a
+              href={`#${error.fieldId}`}
+              className="text-destructive underline underline-offset-2"
+              onClick={(e) => {
+                e.preventDefault();
+                document.getElementById(error.fieldId)?.focus();
+              }}
+            >
+              {error.message}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 // --- Steps Components ---
 
-function Step1Company({ defaultValues, onNext }: any) {
+// --- Invite Prefill Markers ---
+
+// Shown at the top of a step when staff prefilled some of its fields
+function PrefillNotice({ prefill, fields }: { prefill?: PrefillInfo; fields: string[] }) {
+  const provided = fields.filter((field) => prefill?.provided.has(field));
+  if (provided.length === 0) return null;
+  const anyLocked = provided.some((field) => prefill?.locked.has(field));
+
+  return (
+    <Alert>
+      <BadgeCheck className="h-4 w-4" aria-hidden="true" />
+      <AlertDescription>
+        Some details were provided by your Claims iQ representative.
+        {anyLocked && " Locked fields can't be changed here; contact your representative if anything needs correcting."}
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Marks a single field as provided by Claims iQ (and locked, if it is)
+function PrefillNote({ field, prefill }: { field: string; prefill?: PrefillInfo }) {
+  if (!prefill?.provided.has(field)) return null;
+  const locked = prefill.locked.has(field);
+
+  return (
+    <p className="text-xs text-muted-foreground flex items-center gap-1">
+      {locked ? <Lock className="h-3 w-3" aria-hidden="true" /> : <BadgeCheck className="h-3 w-3" aria-hidden="true" />}
+      {locked ? "Provided by Claims iQ (locked)" : "Provided by Claims iQ"}
+    </p>
+  );
+}
+
+// Read-only attributes for a locked text input (read-only rather than disabled so the value is still submitted)
+function lockedInputProps(field: string, prefill?: PrefillInfo) {
+  return prefill?.locked.has(field)
+    ? { readOnly: true, "aria-readonly": true, className: "bg-muted text-muted-foreground" }
+    : {};
+}
+
+// Field ids for step 1, in the order the fields appear
+const COMPANY_FIELD_IDS: Record<string, string> = {
+  legalName: "company-legal-name",
+  dba: "company-dba",
+  website: "company-website",
+  address: "company-address",
+  address2: "company-address-2",
+  city: "company-city",
+  state: "company-state",
+  zip: "company-zip",
+  companySize: "company-size",
+  claimsVolume: "company-claims-volume",
+  linesOfBusiness: "company-lob-0",
+};
+
+function Step1Company({ defaultValues, prefill, onNext }: any) {
   const form = useForm({ 
     defaultValues: { ...defaultValues },
-    resolver: zodResolver(companySchema) 
+    resolver: zodResolver(companySchema),
+    shouldFocusError: false,
   });
+  const { focusKey, onInvalid } = useErrorSummaryFocus();
+  const errors: Record<string, any> = form.formState.errors;
+  const errorOf = (name: string): string | undefined => errors[name]?.message;
 
   return (
-    <form onSubmit={form.handleSubmit(onNext)} className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold text-foreground font-display">Company Information</h2>
-        <p className="text-muted-foreground">Tell us about your organization.</p>
-      </div>
+    <form onSubmit={form.handleSubmit(onNext, onInvalid)} noValidate className="space-y-6">
+      <StepHeading title="Company Information" description="Tell us about your organization." />
+      <PrefillNotice prefill={prefill} fields={Object.keys(COMPANY_FIELD_IDS)} />
+      <ErrorSummary errors={collectErrors(errors, COMPANY_FIELD_IDS)} focusKey={focusKey} />
 
       <div className="grid md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label>Legal Company Name <span className="text-destructive">*</span></Label>
-          <Input {...form.register("legalName")} placeholder="Acme Insurance Ltd." />
-          {form.formState.errors.legalName && <p className="text-xs text-destructive">{(form.formState.errors.legalName.message as string)}</p>}
+          <Label htmlFor={COMPANY_FIELD_IDS.legalName}>Legal Company Name <span className="text-destructive">*</span></Label>
+          <Input {...form.register("legalName")} {...fieldProps(COMPANY_FIELD_IDS.legalName, errorOf("legalName"), true)} placeholder="Acme Insurance Ltd." {...lockedInputProps("legalName", prefill)} />
+          <PrefillNote field="legalName" prefill={prefill} />
+          <FieldError fieldId={COMPANY_FIELD_IDS.legalName} error={errorOf("legalName")} />
         </div>
         <div className="space-y-2">
-          <Label>DBA / Trade Name</Label>
-          <Input {...form.register("dba")} placeholder="Acme Insure" />
+          <Label htmlFor={COMPANY_FIELD_IDS.dba}>DBA / Trade Name</Label>
+          <Input {...form.register("dba")} {...fieldProps(COMPANY_FIELD_IDS.dba)} placeholder="Acme Insure" {...lockedInputProps("dba", prefill)} />
+          <PrefillNote field="dba" prefill={prefill} />
         </div>
       </div>
 
       <div className="space-y-2">
-        <Label>Website</Label>
-        <Input {...form.register("website")} placeholder="https://example.com" />
+        <Label htmlFor={COMPANY_FIELD_IDS.website}>Website</Label>
+        <Input {...form.register("website")} {...fieldProps(COMPANY_FIELD_IDS.website, errorOf("website"))} placeholder="https://example.com" {...lockedInputProps("website", prefill)} />
+        <PrefillNote field="website" prefill={prefill} />
+        <FieldError fieldId={COMPANY_FIELD_IDS.website} error={errorOf("website")} />
       </div>
 
       <div className="space-y-2">
-        <Label>Address <span className="text-destructive">*</span></Label>
-        <Input {...form.register("address")} placeholder="123 Corporate Blvd" />
+        <Label htmlFor={COMPANY_FIELD_IDS.address}>Address <span className="text-destructive">*</span></Label>
+        <Input {...form.register("address")} {...fieldProps(COMPANY_FIELD_IDS.address, errorOf("address"), true)} placeholder="123 Corporate Blvd" {...lockedInputProps("address", prefill)} />
+        <PrefillNote field="address" prefill={prefill} />
+        <FieldError fieldId={COMPANY_FIELD_IDS.address} error={errorOf("address")} />
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="space-y-2 md:col-span-2">
-          <Label>City <span className="text-destructive">*</span></Label>
-          <Input {...form.register("city")} />
+          <Label htmlFor={COMPANY_FIELD_IDS.city}>City <span className="text-destructive">*</span></Label>
+          <Input {...form.register("city")} {...fieldProps(COMPANY_FIELD_IDS.city, errorOf("city"), true)} {...lockedInputProps("city", prefill)} />
+          <PrefillNote field="city" prefill={prefill} />
+          <FieldError fieldId={COMPANY_FIELD_IDS.city} error={errorOf("city")} />
         </div>
         <div className="space-y-2">
-          <Label>State <span className="text-destructive">*</span></Label>
-          <Input {...form.register("state")} />
+          <Label htmlFor={COMPANY_FIELD_IDS.state}>State / Province <span className="text-destructive">*</span></Label>
+          <Input {...form.register("state")} {...fieldProps(COMPANY_FIELD_IDS.state, errorOf("state"), true)} placeholder="TX" {...lockedInputProps("state", prefill)} />
+          <PrefillNote field="state" prefill={prefill} />
+          <FieldError fieldId={COMPANY_FIELD_IDS.state} error={errorOf("state")} />
         </div>
         <div className="space-y-2">
-          <Label>ZIP <span className="text-destructive">*</span></Label>
-          <Input {...form.register("zip")} />
+          <Label htmlFor={COMPANY_FIELD_IDS.zip}>ZIP / Postal Code <span className="text-destructive">*</span></Label>
+          <Input {...form.register("zip")} {...fieldProps(COMPANY_FIELD_IDS.zip, errorOf("zip"), true)} placeholder="75201" {...lockedInputProps("zip", prefill)} />
+          <PrefillNote field="zip" prefill={prefill} />
+          <FieldError fieldId={COMPANY_FIELD_IDS.zip} error={errorOf("zip")} />
         </div>
       </div>
 
       <div className="grid md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label>Company Size</Label>
+          <Label htmlFor={COMPANY_FIELD_IDS.companySize}>Company Size</Label>
           <Controller
             control={form.control}
             name="companySize"
             render={({ field }) => (
-              <Select onValueChange={field.onChange} defaultValue={field.value}>
-                <SelectTrigger><SelectValue placeholder="Select size" /></SelectTrigger>
+              <Select onValueChange={field.onChange} defaultValue={field.value} disabled={prefill?.locked.has("companySize")}>
+                <SelectTrigger id={COMPANY_FIELD_IDS.companySize}><SelectValue placeholder="Select size" /></SelectTrigger>
                 <SelectContent>
                   <SelectItem value="1-50">1-50 employees</SelectItem>
                   <SelectItem value="51-200">51-200 employees</SelectItem>
@@ -455,96 +873,122 @@ function Step1Company({ defaultValues, onNext }: any) {
               </Select>
             )}
           />
+          <PrefillNote field="companySize" prefill={prefill} />
         </div>
         <div className="space-y-2">
-          <Label>Annual Claims Volume</Label>
-          <Input type="number" {...form.register("claimsVolume")} placeholder="e.g. 10000" />
+          <Label htmlFor={COMPANY_FIELD_IDS.claimsVolume}>Annual Claims Volume</Label>
+          <Input type="number" {...form.register("claimsVolume")} {...fieldProps(COMPANY_FIELD_IDS.claimsVolume)} placeholder="e.g. 10000" />
         </div>
       </div>
 
-      <div className="space-y-3">
-        <Label>Lines of Business <span className="text-destructive">*</span></Label>
-        <div className="grid md:grid-cols-2 gap-3">
-          {[
-            "Personal Auto", "Commercial Auto", "Homeowners", "Renters",
-            "Commercial Property", "Workers Comp", "General Liability", "Professional Liability"
-          ].map((lob) => (
-            <div key={lob} className="flex items-center space-x-2">
-              <Controller
-                control={form.control}
-                name="linesOfBusiness"
-                render={({ field }) => (
-                  <Checkbox 
-                    id={lob} 
-                    checked={(field.value || []).includes(lob)}
-                    onCheckedChange={(checked) => {
-                      const current = field.value || [];
-                      field.onChange(checked ? [...current, lob] : current.filter((v: string) => v !== lob));
-                    }}
-                  />
-                )}
-              />
-              <label htmlFor={lob} className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-                {lob}
-              </label>
+      <fieldset
+        className="space-y-3"
+        aria-invalid={errorOf("linesOfBusiness") ? true : undefined}
+        aria-describedby={errorOf("linesOfBusiness") ? `${COMPANY_FIELD_IDS.linesOfBusiness}-error` : undefined}
+      >
+        <legend className="text-sm font-medium leading-none">Lines of Business <span className="text-destructive">*</span></legend>
+        <Controller
+          control={form.control}
+          name="linesOfBusiness"
+          render={({ field }) => (
+            <div className="grid md:grid-cols-2 gap-3">
+              {LINES_OF_BUSINESS.map(({ value: lob }, index) => {
+                const checkboxId = `company-lob-${index}`;
+                return (
+                  <div key={lob} className="flex items-center space-x-2">
+                    <Checkbox 
+                      id={checkboxId}
+                      disabled={prefill?.locked.has("linesOfBusiness")}
+                      checked={(field.value || []).includes(lob)}
+                      onCheckedChange={(checked) => {
+                        const current = field.value || [];
+                        field.onChange(checked ? [...current, lob] : current.filter((v: string) => v !== lob));
+                      }}
+                    />
+                    <Label htmlFor={checkboxId} className="font-medium">{lob}</Label>
+                  </div>
+                );
+              })}
             </div>
-          ))}
-        </div>
-        {form.formState.errors.linesOfBusiness && <p className="text-xs text-destructive">{(form.formState.errors.linesOfBusiness.message as string)}</p>}
-      </div>
+          )}
+        />
+        <PrefillNote field="linesOfBusiness" prefill={prefill} />
+        <FieldError fieldId={COMPANY_FIELD_IDS.linesOfBusiness} error={errorOf("linesOfBusiness")} />
+      </fieldset>
 
       <div className="flex justify-end pt-4">
-        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" /></Button>
+        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" aria-hidden="true" /></Button>
       </div>
     </form>
   );
 }
 
-function Step2Contact({ defaultValues, onNext, onBack }: any) {
-  const form = useForm({ defaultValues, resolver: zodResolver(contactSchema) });
+// Field ids for step 2, in the order the fields appear
+const CONTACT_FIELD_IDS: Record<string, string> = {
+  firstName: "contact-first-name",
+  lastName: "contact-last-name",
+  email: "contact-email",
+  phone: "contact-phone",
+  title: "contact-title",
+  role: "contact-role",
+};
+
+function Step2Contact({ defaultValues, prefill, onNext, onBack }: any) {
+  const form = useForm({ defaultValues, resolver: zodResolver(contactSchema), shouldFocusError: false });
+  const { focusKey, onInvalid } = useErrorSummaryFocus();
+  const errors: Record<string, any> = form.formState.errors;
+  const errorOf = (name: string): string | undefined => errors[name]?.message;
 
   return (
-    <form onSubmit={form.handleSubmit(onNext)} className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold text-foreground font-display">Primary Contact</h2>
-        <p className="text-muted-foreground">Who should we contact regarding this implementation?</p>
-      </div>
+    <form onSubmit={form.handleSubmit(onNext, onInvalid)} noValidate className="space-y-6">
+      <StepHeading title="Primary Contact" description="Who should we contact regarding this implementation?" />
+      <PrefillNotice prefill={prefill} fields={Object.keys(CONTACT_FIELD_IDS)} />
+      <ErrorSummary errors={collectErrors(errors, CONTACT_FIELD_IDS)} focusKey={focusKey} />
 
       <div className="grid md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label>First Name <span className="text-destructive">*</span></Label>
-          <Input {...form.register("firstName")} />
+          <Label htmlFor={CONTACT_FIELD_IDS.firstName}>First Name <span className="text-destructive">*</span></Label>
+          <Input {...form.register("firstName")} {...fieldProps(CONTACT_FIELD_IDS.firstName, errorOf("firstName"), true)} autoComplete="given-name" {...lockedInputProps("firstName", prefill)} />
+          <PrefillNote field="firstName" prefill={prefill} />
+          <FieldError fieldId={CONTACT_FIELD_IDS.firstName} error={errorOf("firstName")} />
         </div>
         <div className="space-y-2">
-          <Label>Last Name <span className="text-destructive">*</span></Label>
-          <Input {...form.register("lastName")} />
+          <Label htmlFor={CONTACT_FIELD_IDS.lastName}>Last Name <span className="text-destructive">*</span></Label>
+          <Input {...form.register("lastName")} {...fieldProps(CONTACT_FIELD_IDS.lastName, errorOf("lastName"), true)} autoComplete="family-name" {...lockedInputProps("lastName", prefill)} />
+          <PrefillNote field="lastName" prefill={prefill} />
+          <FieldError fieldId={CONTACT_FIELD_IDS.lastName} error={errorOf("lastName")} />
         </div>
       </div>
 
       <div className="grid md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label>Email <span className="text-destructive">*</span></Label>
-          <Input type="email" {...form.register("email")} />
+          <Label htmlFor={CONTACT_FIELD_IDS.email}>Email <span className="text-destructive">*</span></Label>
+          <Input type="email" {...form.register("email")} {...fieldProps(CONTACT_FIELD_IDS.email, errorOf("email"), true)} autoComplete="email" {...lockedInputProps("email", prefill)} />
+          <PrefillNote field="email" prefill={prefill} />
+          <FieldError fieldId={CONTACT_FIELD_IDS.email} error={errorOf("email")} />
         </div>
         <div className="space-y-2">
-          <Label>Phone <span className="text-destructive">*</span></Label>
-          <Input type="tel" {...form.register("phone")} />
+          <Label htmlFor={CONTACT_FIELD_IDS.phone}>Phone <span className="text-destructive">*</span></Label>
+          <Input type="tel" {...form.register("phone")} {...fieldProps(CONTACT_FIELD_IDS.phone, errorOf("phone"), true)} autoComplete="tel" {...lockedInputProps("phone", prefill)} />
+          <PrefillNote field="phone" prefill={prefill} />
+          <FieldError fieldId={CONTACT_FIELD_IDS.phone} error={errorOf("phone")} />
         </div>
       </div>
 
       <div className="grid md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label>Job Title</Label>
-          <Input {...form.register("title")} />
+          <Label htmlFor={CONTACT_FIELD_IDS.title}>Job Title</Label>
+          <Input {...form.register("title")} {...fieldProps(CONTACT_FIELD_IDS.title)} autoComplete="organization-title" {...lockedInputProps("title", prefill)} />
+          <PrefillNote field="title" prefill={prefill} />
         </div>
         <div className="space-y-2">
-          <Label>Role <span className="text-destructive">*</span></Label>
+          <Label htmlFor={CONTACT_FIELD_IDS.role}>Role <span className="text-destructive">*</span></Label>
           <Controller
             control={form.control}
             name="role"
             render={({ field }) => (
               <Select onValueChange={field.onChange} defaultValue={field.value}>
-                <SelectTrigger><SelectValue placeholder="Select role" /></SelectTrigger>
+                <SelectTrigger {...fieldProps(CONTACT_FIELD_IDS.role, errorOf("role"), true)}><SelectValue placeholder="Select role" /></SelectTrigger>
                 <SelectContent>
                   <SelectItem value="primary">Project Lead</SelectItem>
                   <SelectItem value="technical">Technical Lead</SelectItem>
@@ -554,63 +998,90 @@ function Step2Contact({ defaultValues, onNext, onBack }: any) {
               </Select>
             )}
           />
+          <FieldError fieldId={CONTACT_FIELD_IDS.role} error={errorOf("role")} />
         </div>
       </div>
 
       <div className="flex justify-between pt-4">
         <Button type="button" variant="outline" onClick={onBack}>Back</Button>
-        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" /></Button>
+        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" aria-hidden="true" /></Button>
       </div>
     </form>
   );
 }
 
-function Step3Modules({ defaultValues, onNext, onBack }: any) {
-  const form = useForm({ defaultValues, resolver: zodResolver(modulesSchema) });
+const MODULE_OPTIONS = [
+  { id: "core", name: "Core Intelligence", color: "border-primary", bg: "bg-primary/10", badge: "bg-primary/20 text-primary", desc: "AI document processing and extraction engine." },
+  { id: "comms", name: "Communications", color: "border-accent", bg: "bg-accent/10", badge: "bg-accent/20 text-accent-foreground", desc: "Omnichannel stakeholder engagement platform." },
+  { id: "fnol", name: "Smart FNOL", color: "border-secondary", bg: "bg-secondary/10", badge: "bg-secondary/20 text-secondary-foreground", desc: "Intelligent first notice of loss intake." },
+];
+
+function Step3Modules({ defaultValues, prefill, onNext, onBack }: any) {
+  const form = useForm({ defaultValues, resolver: zodResolver(modulesSchema), shouldFocusError: false });
+  const { focusKey, onInvalid } = useErrorSummaryFocus();
+  const errors: Record<string, any> = form.formState.errors;
+  const moduleError: string | undefined = errors.selectedModules?.message;
+  const modulesLocked = prefill?.locked.has("selectedModules");
 
   return (
-    <form onSubmit={form.handleSubmit(onNext)} className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold text-foreground font-display">Module Selection</h2>
-        <p className="text-muted-foreground">Select the Claims iQ modules you wish to implement.</p>
-      </div>
+    <form onSubmit={form.handleSubmit(onNext, onInvalid)} noValidate className="space-y-6">
+      <StepHeading title="Module Selection" description="Select the Claims iQ modules you wish to implement." />
+      <PrefillNotice prefill={prefill} fields={["selectedModules"]} />
+      <ErrorSummary errors={collectErrors(errors, { selectedModules: "module-core" })} focusKey={focusKey} />
 
-      <div className="space-y-4">
+      <div
+        role="group"
+        aria-labelledby={STEP_HEADING_ID}
+        aria-describedby={moduleError ? "module-core-error" : undefined}
+        className="space-y-4"
+      >
         <Controller
           control={form.control}
           name="selectedModules"
           render={({ field }) => (
             <>
-              {[
-                { id: "core", name: "Core Intelligence", color: "border-primary", bg: "bg-primary/10", badge: "bg-primary/20 text-primary", desc: "AI document processing and extraction engine." },
-                { id: "comms", name: "Communications", color: "border-accent", bg: "bg-accent/10", badge: "bg-accent/20 text-accent-foreground", desc: "Omnichannel stakeholder engagement platform." },
-                { id: "fnol", name: "Smart FNOL", color: "border-secondary", bg: "bg-secondary/10", badge: "bg-secondary/20 text-secondary-foreground", desc: "Intelligent first notice of loss intake." },
-              ].map((mod) => {
+              {MODULE_OPTIONS.map((mod) => {
                 const isSelected = (field.value || []).includes(mod.id);
+                const toggle = () => {
+                  if (modulesLocked) return;
+                  const current = field.value || [];
+                  if (current.includes(mod.id)) {
+                    field.onChange(current.filter((v: string) => v !== mod.id));
+                  } else {
+                    field.onChange([...current, mod.id]);
+                  }
+                };
+                // The whole card acts as a checkbox so it can be toggled with Space or Enter
                 return (
                   <div 
                     key={mod.id}
-                    className={`relative border-2 rounded-xl p-5 cursor-pointer transition-all ${
-                      isSelected ? `${mod.color} ${mod.bg}` : "border-border hover:border-ring bg-card"
+                    id={`module-${mod.id}`}
+                    role="checkbox"
+                    aria-checked={isSelected}
+                    aria-disabled={modulesLocked || undefined}
+                    aria-labelledby={`module-${mod.id}-name`}
+                    aria-describedby={`module-${mod.id}-desc`}
+                    tabIndex={0}
+                    className={`relative border-2 rounded-xl p-5 transition-all ${modulesLocked ? "cursor-default" : "cursor-pointer"} focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ${
+                      isSelected ? `${mod.color} ${mod.bg}` : `border-border bg-card ${modulesLocked ? "opacity-60" : "hover:border-ring"}`
                     }`}
-                    onClick={() => {
-                      const current = field.value || [];
-                      if (current.includes(mod.id)) {
-                        field.onChange(current.filter((v: string) => v !== mod.id));
-                      } else {
-                        field.onChange([...current, mod.id]);
+                    onClick={toggle}
+                    onKeyDown={(e) => {
+                      if (e.key === " " || e.key === "Enter") {
+                        e.preventDefault();
+                        toggle();
                       }
                     }}
                   >
                     <div className="flex justify-between items-start">
                       <div>
-                        <span className={`inline-block px-2 py-0.5 rounded text-xs font-semibold mb-2 ${mod.badge}`}>
+                        <span className={`inline-block px-2 py-0.5 rounded text-xs font-semibold mb-2 ${mod.badge}`} aria-hidden="true">
                           {mod.id.toUpperCase()}
                         </span>
-                        <h3 className="text-lg font-bold text-foreground">{mod.name}</h3>
-                        <p className="text-muted-foreground mt-1">{mod.desc}</p>
+                        <h3 id={`module-${mod.id}-name`} className="text-lg font-bold text-foreground">{mod.name}</h3>
+                        <p id={`module-${mod.id}-desc`} className="text-muted-foreground mt-1">{mod.desc}</p>
                       </div>
-                      <div className={`w-6 h-6 rounded border flex items-center justify-center ${isSelected ? "bg-primary border-primary text-primary-foreground" : "border-border bg-card"}`}>
+                      <div className={`w-6 h-6 rounded border flex items-center justify-center ${isSelected ? "bg-primary border-primary text-primary-foreground" : "border-border bg-card"}`} aria-hidden="true">
                         {isSelected && <Check className="w-4 h-4" />}
                       </div>
                     </div>
@@ -620,130 +1091,424 @@ function Step3Modules({ defaultValues, onNext, onBack }: any) {
             </>
           )}
         />
-        {form.formState.errors.selectedModules && <p className="text-xs text-destructive">{(form.formState.errors.selectedModules.message as string)}</p>}
+        <PrefillNote field="selectedModules" prefill={prefill} />
+        <FieldError fieldId="module-core" error={moduleError} />
       </div>
 
       <div className="flex justify-between pt-4">
         <Button type="button" variant="outline" onClick={onBack}>Back</Button>
-        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" /></Button>
+        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" aria-hidden="true" /></Button>
       </div>
     </form>
   );
 }
 
-function Step4Requirements({ defaultValues, onNext, onBack }: any) {
-  const form = useForm({ defaultValues });
-  const modules = defaultValues.selectedModules || [];
+// Accent colour for each module's requirements section
+const MODULE_ACCENTS: Record<ModuleType, string> = {
+  core: "bg-primary",
+  comms: "bg-accent",
+  fnol: "bg-secondary",
+};
+
+// Requirements step schema: each selected module's answers, validated by the requirements catalog
+function requirementsStepSchema(modules: ModuleType[]) {
+  return z.object({
+    requirements: z.object(
+      Object.fromEntries(modules.map((module) => [
+        module,
+        buildRequirementsSchema(module, module === "core" ? { lob_requirements: lineOfBusinessRequirementsSchema } : {}),
+      ]))
+    ),
+  });
+}
+
+function RequirementField({ question, name, fieldId, control, error }: {
+  question: RequirementQuestion;
+  name: string;
+  fieldId: string;
+  control: any;
+  error?: string;
+}) {
+  const descriptionId = question.description ? `${fieldId}-description` : undefined;
+  const describedBy = [descriptionId, error ? `${fieldId}-error` : undefined].filter(Boolean).join(" ") || undefined;
+  const requiredMark = question.required && <span className="text-destructive"> *</span>;
+  const description = question.description && (
+    <p id={descriptionId} className="text-sm text-muted-foreground">{question.description}</p>
+  );
 
   return (
-    <form onSubmit={form.handleSubmit(onNext)} className="space-y-8">
+    <div className="space-y-2">
+      <Controller
+        control={control}
+        name={name}
+        render={({ field }) => {
+          switch (question.type) {
+            case "boolean":
+              return (
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor={fieldId}>{question.label}</Label>
+                    {description}
+                  </div>
+                  <Switch id={fieldId} checked={!!field.value} onCheckedChange={field.onChange} aria-describedby={describedBy} />
+                </div>
+              );
+            case "multiselect": {
+              const selected: string[] = field.value || [];
+              return (
+                <fieldset aria-describedby={describedBy} aria-invalid={error ? true : undefined} className="space-y-2">
+                  <legend className="text-sm font-medium leading-none">{question.label}{requiredMark}</legend>
+                  {description}
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {question.options?.map((option, index) => (
+                      <div key={option.value} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`${fieldId}-${index}`}
+                          checked={selected.includes(option.value)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...selected, option.value]
+                                : selected.filter((value) => value !== option.value)
+                            )
+                          }
+                        />
+                        <Label htmlFor={`${fieldId}-${index}`} className="font-normal">{option.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </fieldset>
+              );
+            }
+            case "single_select":
+              return (
+                <>
+                  <Label id={`${fieldId}-label`}>{question.label}{requiredMark}</Label>
+                  {description}
+                  <RadioGroup
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    aria-labelledby={`${fieldId}-label`}
+                    aria-describedby={describedBy}
+                    aria-invalid={error ? true : undefined}
+                    aria-required={question.required || undefined}
+                    className="flex flex-col space-y-1"
+                  >
+                    {question.options?.map((option, index) => (
+                      <div key={option.value} className="flex items-center space-x-2">
+                        <RadioGroupItem value={option.value} id={`${fieldId}-${index}`} />
+                        <Label htmlFor={`${fieldId}-${index}`}>{option.label}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </>
+              );
+            case "number":
+              return (
+                <>
+                  <Label htmlFor={fieldId}>{question.label}{requiredMark}</Label>
+                  {description}
+                  <Input
+                    {...fieldProps(fieldId, error, question.required)}
+                    aria-describedby={describedBy}
+                    type="number"
+                    placeholder={question.placeholder}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                  />
+                </>
+              );
+            default:
+              return (
+                <>
+                  <Label htmlFor={fieldId}>{question.label}{requiredMark}</Label>
+                  {description}
+                  <Textarea
+                    {...fieldProps(fieldId, error, question.required)}
+                    aria-describedby={describedBy}
+                    placeholder={question.placeholder}
+                    value={field.value ?? ""}
+                    onChange={field.onChange}
+                  />
+                </>
+              );
+          }
+        }}
+      />
+      <FieldError fieldId={fieldId} error={error} />
+    </div>
+  );
+}
+
+// Labels for the kinds of file a prospect can attach in the wizard
+const ATTACHMENT_CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  sample_claim: "Sample claim file",
+  policy_form: "Policy form",
+  process_diagram: "Process diagram",
+  other: "Other",
+};
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Files attached during the wizard; staged against the invite until the form is submitted
+function WizardAttachments({ inviteToken, readOnly = false }: { inviteToken: string; readOnly?: boolean }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [category, setCategory] = useState<AttachmentCategory>("sample_claim");
+
+  const { data: attachments = [], isLoading } = useQuery({
+    queryKey: ['onboarding-attachments', inviteToken],
+    queryFn: async () => {
+      const response = await fetch(`/api/onboarding/attachments/${inviteToken}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load attachments');
+      }
+      return result.attachments as OnboardingAttachment[];
+    },
+    retry: false,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('category', category);
+      const response = await fetch(`/api/onboarding/attachments/${inviteToken}`, {
+        method: 'POST',
+        body,
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to upload file');
+      }
+      return result.attachment as OnboardingAttachment;
+    },
+    onSuccess: (attachment) => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding-attachments', inviteToken] });
+      toast({ title: "File attached", description: `${attachment.name} will be added to your project.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachmentId: string) => {
+      const response = await fetch(`/api/onboarding/attachments/${inviteToken}/${attachmentId}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to remove file');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding-attachments', inviteToken] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't remove file",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    event.target.value = '';
+  };
+
+  if (readOnly && !isLoading && attachments.length === 0) return null;
+
+  return (
+    <section aria-labelledby="attachments-title" className="space-y-4 border border-border rounded-lg p-5 bg-card">
       <div>
-        <h2 className="text-2xl font-bold text-foreground font-display">Requirements</h2>
-        <p className="text-muted-foreground">Configure your specific needs for the selected modules.</p>
+        <h3 id="attachments-title" className="font-semibold text-lg font-display flex items-center gap-2">
+          <Paperclip className="w-4 h-4" aria-hidden="true" /> Supporting Documents
+        </h3>
+        {!readOnly && (
+          <p className="text-sm text-muted-foreground">
+            Optional: attach sample claim files, policy forms or a diagram of your current process. They'll be added to your project when you submit.
+          </p>
+        )}
       </div>
 
-      {modules.includes("core") && (
-        <div className="space-y-4 border border-border rounded-lg p-5 bg-card">
-          <div className="flex items-center gap-2 mb-2">
-            <span className="w-2 h-2 rounded-full bg-primary"></span>
-            <h3 className="font-semibold text-lg font-display">Core Intelligence Configuration</h3>
-          </div>
-          
-          <div className="grid md:grid-cols-2 gap-4">
-             <div className="space-y-2">
-               <Label>Monthly Claim Volume Estimate</Label>
-               <Input type="number" {...form.register("monthlyClaims")} placeholder="e.g. 500" />
-             </div>
-             <div className="space-y-2">
-               <Label>Document Types Needed</Label>
-               <div className="grid grid-cols-2 gap-2 mt-2">
-                  {["Police Reports", "Medical Bills", "Repair Estimates", "Photos"].map(t => (
-                    <label key={t} className="flex items-center gap-2 text-sm">
-                      <Checkbox {...form.register(`docTypes.${t}`)} /> {t}
-                    </label>
-                  ))}
-               </div>
-             </div>
+      {!readOnly && (
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="space-y-2 sm:w-56">
+            <Label htmlFor="attachment-category">Document type</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as AttachmentCategory)}>
+              <SelectTrigger id="attachment-category"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(ATTACHMENT_CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+          <input
+            ref={fileInputRef}
+            id="attachment-file"
+            type="file"
+            className="sr-only"
+            tabIndex={-1}
+            aria-hidden="true"
+            onChange={handleFileChange}
+            accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.jpg,.jpeg,.png,.gif"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            aria-describedby="attachment-hint"
+          >
+            {uploadMutation.isPending
+              ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" /> Uploading...</>
+              : <><Upload className="mr-2 h-4 w-4" aria-hidden="true" /> Attach a file</>}
+          </Button>
+          <p id="attachment-hint" className="text-xs text-muted-foreground sm:pb-3">PDF, Word, Excel, CSV or images (max 10MB)</p>
         </div>
       )}
 
-      {modules.includes("comms") && (
-        <div className="space-y-4 border border-border rounded-lg p-5 bg-card">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No files attached.</p>
+      ) : (
+        <ul className="divide-y divide-border border border-border rounded-md" aria-live="polite">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <FileText className="w-4 h-4 text-muted-foreground shrink-0" aria-hidden="true" />
+                <span className="font-medium truncate">{attachment.name}</span>
+                <span className="text-muted-foreground shrink-0">
+                  {ATTACHMENT_CATEGORY_LABELS[attachment.category]} • {formatFileSize(attachment.file_size)}
+                </span>
+              </div>
+              {!readOnly && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(attachment.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Remove ${attachment.name}`}
+                >
+                  <Trash2 className="w-4 h-4" aria-hidden="true" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function Step4Requirements({ defaultValues, inviteToken, onNext, onBack }: any) {
+  const modules: ModuleType[] = defaultValues.selectedModules || [];
+  const linesOfBusiness: string[] = defaultValues.linesOfBusiness || [];
+  const savedLines = defaultValues.requirements?.core?.lob_requirements || {};
+
+  const initialRequirements: Record<string, any> = Object.fromEntries(
+    modules.map((module) => [module, { ...getDefaultAnswers(module), ...defaultValues.requirements?.[module] }])
+  );
+  // Only ask about the lines selected in step 1
+  if (initialRequirements.core) {
+    initialRequirements.core.lob_requirements = Object.fromEntries(
+      linesOfBusiness.map((line) => [line, { claim_types: [], perils: [], ...savedLines[line] }])
+    );
+  }
+
+  const form = useForm({
+    defaultValues: { requirements: initialRequirements },
+    resolver: zodResolver(requirementsStepSchema(modules)),
+    shouldFocusError: false,
+  });
+  const answers: Record<string, any> = form.watch("requirements") || {};
+  const errors: any = form.formState.errors.requirements || {};
+  const { focusKey, onInvalid } = useErrorSummaryFocus();
+
+  const errorItems = collectRequirementErrors(modules, linesOfBusiness, answers, errors);
+
+  return (
+    <form onSubmit={form.handleSubmit(onNext, onInvalid)} noValidate className="space-y-8">
+      <StepHeading title="Requirements" description="Configure your specific needs for the selected modules." />
+      <ErrorSummary errors={errorItems} focusKey={focusKey} />
+
+      {REQUIREMENT_MODULES.filter(({ module }) => modules.includes(module)).map(({ module, title }) => (
+        <section key={module} aria-labelledby={`req-${module}-title`} className="space-y-4 border border-border rounded-lg p-5 bg-card">
           <div className="flex items-center gap-2 mb-2">
-             <span className="w-2 h-2 rounded-full bg-accent"></span>
-             <h3 className="font-semibold text-lg font-display">Communications Configuration</h3>
+            <span className={`w-2 h-2 rounded-full ${MODULE_ACCENTS[module]}`} aria-hidden="true"></span>
+            <h3 id={`req-${module}-title`} className="font-semibold text-lg font-display">{title}</h3>
           </div>
           <div className="space-y-4">
-             <div className="space-y-2">
-               <Label>Required Channels</Label>
-               <div className="flex gap-4">
-                  {["Email", "SMS", "WhatsApp", "In-App"].map(c => (
-                     <label key={c} className="flex items-center gap-2 text-sm border px-3 py-2 rounded hover:bg-muted cursor-pointer">
-                       <Checkbox {...form.register(`channels.${c}`)} /> {c}
-                     </label>
-                  ))}
-               </div>
-             </div>
-             <div className="space-y-2">
-                <Label>White Labeling</Label>
-                <RadioGroup defaultValue="basic" className="flex flex-col space-y-1">
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="none" id="wl-none" />
-                    <Label htmlFor="wl-none">None (Claims iQ Branding)</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="basic" id="wl-basic" />
-                    <Label htmlFor="wl-basic">Basic (Logo & Colors)</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="full" id="wl-full" />
-                    <Label htmlFor="wl-full">Full (Custom Domain & Email)</Label>
-                  </div>
-                </RadioGroup>
-             </div>
+            {getVisibleQuestions(module, answers[module]).map((question) => (
+              <RequirementField
+                key={question.id}
+                question={question}
+                name={`requirements.${module}.${question.id}`}
+                fieldId={`req-${module}-${question.id}`}
+                control={form.control}
+                error={errors[module]?.[question.id]?.message}
+              />
+            ))}
           </div>
-        </div>
-      )}
 
-      {modules.includes("fnol") && (
-        <div className="space-y-4 border border-border rounded-lg p-5 bg-card">
-           <div className="flex items-center gap-2 mb-2">
-             <span className="w-2 h-2 rounded-full bg-secondary"></span>
-             <h3 className="font-semibold text-lg font-display">FNOL Configuration</h3>
-           </div>
-           <div className="space-y-4">
-             <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label>Photo Intake</Label>
-                  <p className="text-sm text-muted-foreground">Allow users to upload photos during FNOL</p>
-                </div>
-                <Switch {...form.register("fnol.photos")} defaultChecked />
-             </div>
-             <Separator />
-             <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label>Video Intake</Label>
-                  <p className="text-sm text-muted-foreground">Allow users to record/upload video statements</p>
+          {module === "core" && linesOfBusiness.length > 0 && (
+            <div className="space-y-3 pt-2">
+              <div>
+                <h4 className="font-semibold text-sm">By Line of Business</h4>
+                <p className="text-sm text-muted-foreground">Claim types, perils and volumes differ by line, so tell us about each one.</p>
+              </div>
+              {linesOfBusiness.map((line, lineIndex) => (
+                <div key={line} role="group" aria-labelledby={`req-core-lob-${lineIndex}-title`} className="border border-border rounded-md p-4 space-y-4 bg-muted/20">
+                  <h5 id={`req-core-lob-${lineIndex}-title`} className="font-medium text-sm">{line}</h5>
+                  {getLineOfBusinessQuestions(line).map((question) => (
+                    <RequirementField
+                      key={question.id}
+                      question={question}
+                      name={`requirements.core.lob_requirements.${line}.${question.id}`}
+                      fieldId={`req-core-lob-${lineIndex}-${question.id}`}
+                      control={form.control}
+                      error={errors.core?.lob_requirements?.[line]?.[question.id]?.message}
+                    />
+                  ))}
                 </div>
-                <Switch {...form.register("fnol.video")} />
-             </div>
-           </div>
-        </div>
-      )}
+              ))}
+            </div>
+          )}
+        </section>
+      ))}
 
       {!modules.length && <p className="text-muted-foreground italic">No modules selected. Go back to select modules.</p>}
 
+      {inviteToken && <WizardAttachments inviteToken={inviteToken} />}
+
       <div className="flex justify-between pt-4">
         <Button type="button" variant="outline" onClick={onBack}>Back</Button>
-        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" /></Button>
+        <Button type="submit" size="lg">Continue <ArrowRight className="ml-2 h-4 w-4" aria-hidden="true" /></Button>
       </div>
     </form>
   );
 }
 
-function Step5Review({ data, onSubmit, onBack, isSubmitting }: { data: any; onSubmit: () => void; onBack: () => void; isSubmitting: boolean }) {
+function Step5Review({ data, inviteToken, onSubmit, onBack, isSubmitting }: { data: any; inviteToken?: string; onSubmit: () => void; onBack: () => void; isSubmitting: boolean }) {
   const [confirmed, setConfirmed] = useState(false);
+  const sizing = estimateSizing(transformFormData(data));
 
   const handleSubmit = () => {
     if (!confirmed || isSubmitting) return;
@@ -752,10 +1517,7 @@ function Step5Review({ data, onSubmit, onBack, isSubmitting }: { data: any; onSu
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold text-foreground font-display">Review & Submit</h2>
-        <p className="text-muted-foreground">Please review your information before generating the SOW.</p>
-      </div>
+      <StepHeading title="Review & Submit" description="Please review your information before generating the SOW." />
 
       <div className="grid gap-4">
         <Card className="bg-muted/30 border-border">
@@ -787,6 +1549,73 @@ function Step5Review({ data, onSubmit, onBack, isSubmitting }: { data: any; onSu
              </div>
            </CardContent>
         </Card>
+
+        <Card className="bg-primary/5 border-primary/20">
+          <CardContent className="p-4 space-y-3">
+            <h3 className="font-semibold text-sm uppercase tracking-wider text-muted-foreground font-mono">Estimated Sizing</h3>
+            <dl className="grid sm:grid-cols-3 gap-4">
+              <div>
+                <dt className="text-xs text-muted-foreground">Tier</dt>
+                <dd className="font-medium text-lg">{SIZING_TIER_LABELS[sizing.tier]}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Implementation Effort</dt>
+                <dd className="font-medium text-lg">{IMPLEMENTATION_EFFORT_LABELS[sizing.effort]} <span className="text-sm text-muted-foreground">(~{sizing.effort_weeks} weeks)</span></dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Suggested Go-Live</dt>
+                <dd className="font-medium text-lg">{formatGoLiveWindow(sizing.go_live_window)}</dd>
+              </div>
+            </dl>
+            {sizing.drivers.length > 0 && (
+              <p className="text-sm text-muted-foreground">Based on: {sizing.drivers.join(", ")}</p>
+            )}
+            <p className="text-xs text-muted-foreground">This estimate is indicative. Your Claims iQ team will confirm it in the Statement of Work.</p>
+          </CardContent>
+        </Card>
+
+        {REQUIREMENT_MODULES.filter(({ module }) => (data.selectedModules || []).includes(module)).map(({ module, title }) => {
+          const answers = data.requirements?.[module] || {};
+          const rows = getVisibleQuestions(module, answers)
+            .map((question) => ({ question, answer: formatRequirementAnswer(question, answers[question.id]) }))
+            .filter(({ answer }) => answer !== null);
+          const lines = module === "core" ? formatLineOfBusinessRequirements(answers.lob_requirements) : [];
+
+          return (
+            <Card key={module} className="bg-muted/30 border-border">
+              <CardContent className="p-4 space-y-2">
+                <h3 className="font-semibold text-sm uppercase tracking-wider text-muted-foreground font-mono">{title}</h3>
+                {rows.length > 0 ? (
+                  <dl className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    {rows.map(({ question, answer }) => (
+                      <div key={question.id} className="contents">
+                        <dt className="text-muted-foreground">{question.label}</dt>
+                        <dd className="font-medium">{answer}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                ) : (
+                  <p className="text-sm text-muted-foreground italic">No requirements provided.</p>
+                )}
+                {lines.map(({ line, answers: lineAnswers }) => (
+                  <div key={line} className="pt-2">
+                    <p className="text-sm font-semibold">{line}</p>
+                    <dl className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                      {lineAnswers.map(({ label, answer }) => (
+                        <div key={label} className="contents">
+                          <dt className="text-muted-foreground">{label}</dt>
+                          <dd className="font-medium">{answer}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {inviteToken && <WizardAttachments inviteToken={inviteToken} readOnly />}
       </div>
 
       <div className="flex items-start space-x-2 p-4 bg-accent/10 border border-accent/20 rounded-lg">
@@ -799,7 +1628,7 @@ function Step5Review({ data, onSubmit, onBack, isSubmitting }: { data: any; onSu
       <div className="flex justify-between pt-4">
         <Button type="button" variant="outline" onClick={onBack} disabled={isSubmitting}>Back</Button>
         <Button onClick={handleSubmit} size="lg" disabled={!confirmed || isSubmitting}>
-          {isSubmitting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Generating SOW...</> : "Generate Statement of Work"}
+          {isSubmitting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" /> Generating SOW...</> : "Generate Statement of Work"}
         </Button>
       </div>
     </div>
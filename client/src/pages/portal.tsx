@@ -53,7 +53,19 @@ import {
 } from "lucide-react";
 import { useAuth, useSignOut } from "../hooks/useAuth";
 import logo from "@assets/ClaimsIQ_Logo_02-09[31]_1767489942619.png";
-import type { ProjectSummary, ChecklistItemWithTemplate, ProjectWithDetails } from "@shared/types";
+import type {
+  ProjectSummary,
+  ChecklistItemWithTemplate,
+  ProjectWithDetails,
+  CompanyRolePermissions,
+  ConfigurableContactRole,
+  PortalPermission,
+  MfaStatus,
+  MfaEnrollment,
+  UserSession,
+  PasswordStrength,
+} from "@shared/types";
+import { PORTAL_PERMISSIONS, CONFIGURABLE_PORTAL_PERMISSIONS, CONTACT_ROLE_LABELS } from "@shared/permissions";
 import { formatDistanceToNow, format } from "date-fns";
 
 // --- API Hooks ---
@@ -211,6 +223,68 @@ function useInviteTeamMember() {
   });
 }
 
+function useRolePermissions() {
+  return useQuery<CompanyRolePermissions[]>({
+    queryKey: ['portal', 'permissions'],
+    queryFn: async () => {
+      const response = await fetch('/api/portal/permissions', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch permissions');
+      const data = await response.json();
+      return data.roles;
+    },
+  });
+}
+
+function useUpdateRolePermissions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ role, permissions }: { role: ConfigurableContactRole; permissions: PortalPermission[] | null }) => {
+      // A null permission list returns the role to its defaults
+      const response = await fetch(`/api/portal/permissions/${role}`, {
+        method: permissions ? 'PUT' : 'DELETE',
+        headers: permissions ? { 'Content-Type': 'application/json' } : undefined,
+        credentials: 'include',
+        body: permissions ? JSON.stringify({ permissions }) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update permissions');
+      }
+      return result.roles as CompanyRolePermissions[];
+    },
+    onSuccess: (roles) => {
+      queryClient.setQueryData(['portal', 'permissions'], roles);
+    },
+  });
+}
+
+function useStopImpersonation() {
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/impersonation', {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to stop viewing as customer');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      // Everything cached so far was loaded as the customer
+      queryClient.clear();
+      setLocation('/admin');
+    },
+  });
+}
+
 function useChangePassword() {
   return useMutation({
     mutationFn: async (data: { currentPassword: string; newPassword: string }) => {
@@ -242,11 +316,13 @@ function useChangePassword() {
 }
 
 function usePasswordStrength() {
-  return useMutation({
+  return useMutation<PasswordStrength, Error, string>({
     mutationFn: async (password: string) => {
+      // Signed in, so the password is also checked against the user's own details
       const response = await fetch('/api/auth/password-strength', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
         body: JSON.stringify({ password }),
       });
       if (!response.ok) throw new Error('Failed to check password strength');
@@ -255,6 +331,96 @@ function usePasswordStrength() {
   });
 }
 
+function useMfaStatus() {
+  return useQuery<MfaStatus>({
+    queryKey: ['auth', 'mfa'],
+    queryFn: async () => {
+      const response = await fetch('/api/auth/mfa', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch two-factor status');
+      const data = await response.json();
+      return data.data;
+    },
+  });
+}
+
+// Shared by the two-factor mutations, which all refresh the status when they finish
+function useMfaMutation<TResult, TVariables = void>(path: string, fallbackError: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<TResult, Error, TVariables>({
+    mutationFn: async (variables) => {
+      const response = await fetch(`/api/auth/mfa/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(variables || {}),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || fallbackError);
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'mfa'] });
+    },
+  });
+}
+
+function useStartMfaEnrollment() {
+  return useMfaMutation<{ enrollment: MfaEnrollment }>('enroll', 'Failed to start two-factor setup');
+}
+
+function useConfirmMfaEnrollment() {
+  return useMfaMutation<{ recoveryCodes: string[] }, { code: string }>('enroll/confirm', 'Failed to enable two-factor authentication');
+}
+
+function useRegenerateRecoveryCodes() {
+  return useMfaMutation<{ recoveryCodes: string[] }, { code: string }>('recovery-codes', 'Failed to generate recovery codes');
+}
+
+function useDisableMfa() {
+  return useMfaMutation<{ success: boolean }, { code: string }>('disable', 'Failed to disable two-factor authentication');
+}
+
+function useSessions() {
+  return useQuery<UserSession[]>({
+    queryKey: ['auth', 'sessions'],
+    queryFn: async () => {
+      const response = await fetch('/api/auth/sessions', {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch sessions');
+      const data = await response.json();
+      return data.sessions;
+    },
+  });
+}
+
+// Pass a session ID to sign out that device, or nothing to sign out every other device
+function useRevokeSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean; revoked?: number }, Error, string | void>({
+    mutationFn: async (sessionId) => {
+      const response = await fetch(sessionId ? `/api/auth/sessions/${sessionId}` : '/api/auth/sessions', {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sign out sessions');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'sessions'] });
+    },
+  });
+}
+
 function useDocuments(projectId: string | null) {
   return useQuery({
     queryKey: ['portal', 'documents', projectId],
@@ -356,6 +522,8 @@ function PortalLayout({ children }: { children: React.ReactNode }) {
   const [location] = useLocation();
   const { user, isLoading } = useAuth();
   const signOut = useSignOut();
+  const stopImpersonation = useStopImpersonation();
+  const impersonation = user?.impersonation;
 
   const handleSignOut = () => {
     signOut.mutate();
@@ -418,16 +586,44 @@ function PortalLayout({ children }: { children: React.ReactNode }) {
 
       {/* Main Content */}
       <div className="flex-1 md:ml-64 flex flex-col min-h-screen">
-        <header className="h-16 bg-card border-b border-border flex items-center justify-between px-4 md:px-8 sticky top-0 z-10">
-           <h1 className="text-xl font-semibold text-foreground font-display">
-             {location === "/portal" ? "Dashboard" : location === "/portal/sow" ? "Statement of Work" : "Portal"}
-           </h1>
-           <div className="flex items-center gap-4">
-              <Avatar className="h-8 w-8 md:hidden">
-                <AvatarFallback>{initials}</AvatarFallback>
-              </Avatar>
-           </div>
-        </header>
+        <div className="sticky top-0 z-10">
+          {impersonation && (
+            <div className="bg-amber-100 text-amber-900 border-b border-amber-300 px-4 md:px-8 py-2 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 text-sm">
+                <Eye className="h-4 w-4 shrink-0" />
+                <span>
+                  Signed in as {impersonation.staffName}, viewing the portal as <strong>{userName}</strong>
+                  {impersonation.companyName ? ` (${impersonation.companyName})` : ''}.{' '}
+                  {impersonation.readOnly
+                    ? 'Changes are disabled for your role.'
+                    : impersonation.allowDestructive
+                      ? 'Destructive actions are allowed and every change is logged.'
+                      : 'Approvals, key regeneration and deletions are disabled; every change is logged.'}
+                </span>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="bg-white shrink-0"
+                onClick={() => stopImpersonation.mutate()}
+                disabled={stopImpersonation.isPending}
+              >
+                {stopImpersonation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Stop viewing
+              </Button>
+            </div>
+          )}
+          <header className="h-16 bg-card border-b border-border flex items-center justify-between px-4 md:px-8">
+             <h1 className="text-xl font-semibold text-foreground font-display">
+               {location === "/portal" ? "Dashboard" : location === "/portal/sow" ? "Statement of Work" : "Portal"}
+             </h1>
+             <div className="flex items-center gap-4">
+                <Avatar className="h-8 w-8 md:hidden">
+                  <AvatarFallback>{initials}</AvatarFallback>
+                </Avatar>
+             </div>
+          </header>
+        </div>
         <main className="flex-1 p-4 md:p-8 overflow-y-auto">
           {children}
         </main>
@@ -462,6 +658,7 @@ export function PortalDashboard() {
   const { data: checklist, isLoading: checklistLoading } = useChecklist(projectId);
   const { data: activities, isLoading: activitiesLoading } = useActivity(projectId);
   const updateChecklistItem = useUpdateChecklistItem();
+  const { hasPermission } = useAuth();
 
   const isLoading = projectsLoading;
   const progress = checklist ? getChecklistProgress(checklist) : 0;
@@ -596,7 +793,7 @@ export function PortalDashboard() {
                         ? format(new Date(item.completed_at), 'MMM d')
                         : item.status === 'pending' ? 'Pending' : ''}
                     </div>
-                    {item.status !== 'complete' && (
+                    {item.status !== 'complete' && hasPermission('checklist.update') && (
                       <Button
                         size="sm"
                         variant="outline"
@@ -672,6 +869,7 @@ export function SOWPage() {
   const uploadDocument = useUploadDocument();
   const deleteDocument = useDeleteDocument();
   const downloadDocument = useDownloadDocument();
+  const { hasPermission } = useAuth();
 
   const isLoading = projectsLoading || projectLoading;
   const isAlreadySigned = !!(project as any)?.sow_signed_at;
@@ -945,29 +1143,31 @@ export function SOWPage() {
              <CardTitle className="text-lg font-display">Actions</CardTitle>
            </CardHeader>
            <CardContent className="space-y-3">
-             <Button
-               className="w-full"
-               size="lg"
-               onClick={handleApproveSign}
-               disabled={approveSow.isPending || isAlreadySigned}
-             >
-               {approveSow.isPending ? (
-                 <>
-                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                   Approving...
-                 </>
-               ) : isAlreadySigned ? (
-                 <>
-                   <CheckCircle className="h-4 w-4 mr-2" />
-                   Already Signed
-                 </>
-               ) : (
-                 <>
-                   <CheckCircle className="h-4 w-4 mr-2" />
-                   Approve & Sign
-                 </>
-               )}
-             </Button>
+             {hasPermission('sow.approve') && (
+               <Button
+                 className="w-full"
+                 size="lg"
+                 onClick={handleApproveSign}
+                 disabled={approveSow.isPending || isAlreadySigned}
+               >
+                 {approveSow.isPending ? (
+                   <>
+                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                     Approving...
+                   </>
+                 ) : isAlreadySigned ? (
+                   <>
+                     <CheckCircle className="h-4 w-4 mr-2" />
+                     Already Signed
+                   </>
+                 ) : (
+                   <>
+                     <CheckCircle className="h-4 w-4 mr-2" />
+                     Approve & Sign
+                   </>
+                 )}
+               </Button>
+             )}
              <Button
                variant="outline"
                className="w-full"
@@ -1061,32 +1261,34 @@ export function SOWPage() {
             </CardHeader>
             <CardContent className="space-y-4">
               {/* Upload Button */}
-              <div className="space-y-2">
-                <Label htmlFor="file-upload" className="cursor-pointer">
-                  <div className="border-2 border-dashed border-border rounded-lg p-4 hover:border-primary/50 hover:bg-muted/50 transition-colors text-center">
-                    <input
-                      id="file-upload"
-                      type="file"
-                      className="hidden"
-                      onChange={handleFileUpload}
-                      accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.jpg,.jpeg,.png,.gif"
-                      disabled={isUploading}
-                    />
-                    {isUploading ? (
-                      <div className="flex flex-col items-center gap-2">
-                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                        <span className="text-sm text-muted-foreground">Uploading...</span>
-                      </div>
-                    ) : (
-                      <div className="flex flex-col items-center gap-2">
-                        <Upload className="h-8 w-8 text-muted-foreground" />
-                        <span className="text-sm font-medium">Click to upload</span>
-                        <span className="text-xs text-muted-foreground">PDF, Word, Excel, Images (max 10MB)</span>
-                      </div>
-                    )}
-                  </div>
-                </Label>
-              </div>
+              {hasPermission('documents.upload') && (
+                <div className="space-y-2">
+                  <Label htmlFor="file-upload" className="cursor-pointer">
+                    <div className="border-2 border-dashed border-border rounded-lg p-4 hover:border-primary/50 hover:bg-muted/50 transition-colors text-center">
+                      <input
+                        id="file-upload"
+                        type="file"
+                        className="hidden"
+                        onChange={handleFileUpload}
+                        accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.jpg,.jpeg,.png,.gif"
+                        disabled={isUploading}
+                      />
+                      {isUploading ? (
+                        <div className="flex flex-col items-center gap-2">
+                          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                          <span className="text-sm text-muted-foreground">Uploading...</span>
+                        </div>
+                      ) : (
+                        <div className="flex flex-col items-center gap-2">
+                          <Upload className="h-8 w-8 text-muted-foreground" />
+                          <span className="text-sm font-medium">Click to upload</span>
+                          <span className="text-xs text-muted-foreground">PDF, Word, Excel, Images (max 10MB)</span>
+                        </div>
+                      )}
+                    </div>
+                  </Label>
+                </div>
+              )}
 
               {/* Document List */}
               {documentsLoading ? (
@@ -1119,15 +1321,17 @@ export function SOWPage() {
                           >
                             <Download className="h-3.5 w-3.5" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-7 w-7 text-destructive hover:text-destructive"
-                            onClick={() => handleDeleteDoc(doc.id, doc.name)}
-                            disabled={deleteDocument.isPending}
-                          >
-                            <Trash2 className="h-3.5 w-3.5" />
-                          </Button>
+                          {hasPermission('documents.delete') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-destructive hover:text-destructive"
+                              onClick={() => handleDeleteDoc(doc.id, doc.name)}
+                              disabled={deleteDocument.isPending}
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     );
@@ -1277,6 +1481,7 @@ export function IntegrationPage() {
   const createWebhook = useCreateWebhook();
   const deleteWebhook = useDeleteWebhook();
   const regenerateCredentials = useRegenerateApiCredentials();
+  const { hasPermission } = useAuth();
 
   const copyToClipboard = (text: string, keyName: string) => {
     navigator.clipboard.writeText(text);
@@ -1510,19 +1715,21 @@ export function IntegrationPage() {
           <Separator />
 
           <div className="flex gap-3">
-            <Button
-              variant="outline"
-              className="flex items-center gap-2"
-              onClick={handleRegenerateCredentials}
-              disabled={regenerateCredentials.isPending}
-            >
-              {regenerateCredentials.isPending ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <RefreshCw className="h-4 w-4" />
-              )}
-              {regenerateCredentials.isPending ? 'Generating...' : 'Regenerate Keys'}
-            </Button>
+            {hasPermission('api_credentials.regenerate') && (
+              <Button
+                variant="outline"
+                className="flex items-center gap-2"
+                onClick={handleRegenerateCredentials}
+                disabled={regenerateCredentials.isPending}
+              >
+                {regenerateCredentials.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4" />
+                )}
+                {regenerateCredentials.isPending ? 'Generating...' : 'Regenerate Keys'}
+              </Button>
+            )}
             <Button
               variant="outline"
               className="flex items-center gap-2"
@@ -1563,19 +1770,21 @@ export function IntegrationPage() {
                         </p>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="text-destructive hover:text-destructive"
-                      onClick={() => handleDeleteWebhook(webhook.id)}
-                      disabled={deleteWebhook.isPending}
-                    >
-                      {deleteWebhook.isPending ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <XCircle className="h-4 w-4" />
-                      )}
-                    </Button>
+                    {hasPermission('webhooks.manage') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteWebhook(webhook.id)}
+                        disabled={deleteWebhook.isPending}
+                      >
+                        {deleteWebhook.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <XCircle className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -1584,28 +1793,30 @@ export function IntegrationPage() {
           )}
 
           {/* Add New Webhook */}
-          <div className="space-y-2">
-            <Label>Add New Webhook Endpoint</Label>
-            <div className="flex gap-2">
-              <Input
-                placeholder="https://your-domain.com/webhooks/claims-iq"
-                value={webhookUrl}
-                onChange={(e) => setWebhookUrl(e.target.value)}
-                className="flex-1"
-              />
-              <Button
-                onClick={handleCreateWebhook}
-                disabled={createWebhook.isPending || !webhookUrl.trim()}
-              >
-                {createWebhook.isPending ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  'Add'
-                )}
-              </Button>
+          {hasPermission('webhooks.manage') && (
+            <div className="space-y-2">
+              <Label>Add New Webhook Endpoint</Label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="https://your-domain.com/webhooks/claims-iq"
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                  className="flex-1"
+                />
+                <Button
+                  onClick={handleCreateWebhook}
+                  disabled={createWebhook.isPending || !webhookUrl.trim()}
+                >
+                  {createWebhook.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    'Add'
+                  )}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">We'll send POST requests to this URL when events occur. A secret will be generated for signature verification.</p>
             </div>
-            <p className="text-xs text-muted-foreground">We'll send POST requests to this URL when events occur. A secret will be generated for signature verification.</p>
-          </div>
+          )}
 
           <div className="space-y-3">
             <Label>Supported Events</Label>
@@ -1671,8 +1882,99 @@ export function IntegrationPage() {
 }
 
 // --- Team Page ---
+function RolePermissionsCard() {
+  const { data: roles, isLoading } = useRolePermissions();
+  const updateRolePermissions = useUpdateRolePermissions();
+  const { toast } = useToast();
+
+  const handleUpdate = async (role: ConfigurableContactRole, permissions: PortalPermission[] | null) => {
+    try {
+      await updateRolePermissions.mutateAsync({ role, permissions });
+    } catch (error) {
+      toast({
+        title: "Failed to update permissions",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const togglePermission = (entry: CompanyRolePermissions, permission: PortalPermission, enabled: boolean) => {
+    const permissions = enabled
+      ? [...entry.permissions, permission]
+      : entry.permissions.filter((p) => p !== permission);
+    handleUpdate(entry.role, permissions);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Role Permissions
+        </CardTitle>
+        <CardDescription>
+          Choose what each role can do. The primary contact can always do everything.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !roles ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left font-medium py-2 pr-4">Permission</th>
+                  {roles.map((entry) => (
+                    <th key={entry.role} className="text-center font-medium py-2 px-2">
+                      <div>{CONTACT_ROLE_LABELS[entry.role]}</div>
+                      {entry.customized && (
+                        <button
+                          type="button"
+                          className="text-xs font-normal text-muted-foreground hover:text-foreground underline"
+                          onClick={() => handleUpdate(entry.role, null)}
+                          disabled={updateRolePermissions.isPending}
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {PORTAL_PERMISSIONS.filter(({ permission }) => CONFIGURABLE_PORTAL_PERMISSIONS.includes(permission)).map(
+                  ({ permission, label, description }) => (
+                    <tr key={permission} className="border-b last:border-0">
+                      <td className="py-3 pr-4">
+                        <p className="font-medium">{label}</p>
+                        <p className="text-xs text-muted-foreground">{description}</p>
+                      </td>
+                      {roles.map((entry) => (
+                        <td key={entry.role} className="text-center py-3 px-2">
+                          <Switch
+                            aria-label={`${label} for ${CONTACT_ROLE_LABELS[entry.role]}`}
+                            checked={entry.permissions.includes(permission)}
+                            onCheckedChange={(checked) => togglePermission(entry, permission, checked)}
+                            disabled={updateRolePermissions.isPending}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function TeamPage() {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const { data: projects } = useProjects();
   const currentProject = projects?.[0];
   const { data: project, isLoading } = useProject(currentProject?.id || null);
@@ -1738,10 +2040,12 @@ export function TeamPage() {
           <h1 className="text-2xl font-bold font-display">Team Management</h1>
           <p className="text-muted-foreground">Manage your organization's team members and permissions.</p>
         </div>
-        <Button className="flex items-center gap-2" onClick={() => setShowInviteDialog(true)}>
-          <UserPlus className="h-4 w-4" />
-          Invite Team Member
-        </Button>
+        {hasPermission('team.invite') && (
+          <Button className="flex items-center gap-2" onClick={() => setShowInviteDialog(true)}>
+            <UserPlus className="h-4 w-4" />
+            Invite Team Member
+          </Button>
+        )}
       </div>
 
       {/* Invite Dialog */}
@@ -1954,6 +2258,8 @@ export function TeamPage() {
         </CardContent>
       </Card>
 
+      {hasPermission('team.permissions') && <RolePermissionsCard />}
+
       {/* Pending Invitations */}
       <Card>
         <CardHeader>
@@ -1976,6 +2282,273 @@ export function TeamPage() {
 }
 
 // --- Settings Page ---
+function TwoFactorCard() {
+  const { data: status, isLoading } = useMfaStatus();
+  const startEnrollment = useStartMfaEnrollment();
+  const confirmEnrollment = useConfirmMfaEnrollment();
+  const regenerateCodes = useRegenerateRecoveryCodes();
+  const disableMfa = useDisableMfa();
+  const { toast } = useToast();
+
+  // Which code prompt is open: finishing setup, replacing recovery codes or turning it off
+  const [action, setAction] = useState<'confirm' | 'regenerate' | 'disable' | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const resetPrompt = () => {
+    setAction(null);
+    setEnrollment(null);
+    setCode('');
+  };
+
+  const handleStart = async () => {
+    try {
+      const result = await startEnrollment.mutateAsync();
+      setEnrollment(result.enrollment);
+      setRecoveryCodes(null);
+      setAction('confirm');
+    } catch (error) {
+      toast({
+        title: "Failed to start setup",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmitCode = async () => {
+    try {
+      if (action === 'confirm') {
+        const result = await confirmEnrollment.mutateAsync({ code });
+        setRecoveryCodes(result.recoveryCodes);
+        toast({ title: "Two-factor authentication enabled" });
+      } else if (action === 'regenerate') {
+        const result = await regenerateCodes.mutateAsync({ code });
+        setRecoveryCodes(result.recoveryCodes);
+        toast({ title: "New recovery codes generated", description: "Your old codes no longer work." });
+      } else if (action === 'disable') {
+        await disableMfa.mutateAsync({ code });
+        setRecoveryCodes(null);
+        toast({ title: "Two-factor authentication disabled" });
+      }
+      resetPrompt();
+    } catch (error) {
+      setCode('');
+      toast({
+        title: "Code not accepted",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isSubmitting = confirmEnrollment.isPending || regenerateCodes.isPending || disableMfa.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          {status?.required
+            ? "Your organization requires a code from an authenticator app when you sign in."
+            : "Add an extra layer of security to your account."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="flex items-center justify-between p-4 rounded-lg border">
+            <div>
+              <p className="font-medium flex items-center gap-2">
+                Authenticator App
+                {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {status?.enabled
+                  ? `${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} left`
+                  : "Use an app like Google Authenticator or Authy"}
+              </p>
+            </div>
+            {status?.enabled ? (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => { resetPrompt(); setAction('regenerate'); }}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  New Recovery Codes
+                </Button>
+                {!status.required && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => { resetPrompt(); setAction('disable'); }}
+                  >
+                    Disable
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Button variant="outline" onClick={handleStart} disabled={startEnrollment.isPending || action === 'confirm'}>
+                {startEnrollment.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Enable'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {enrollment && action === 'confirm' && (
+          <div className="flex flex-col items-center gap-2 p-4 rounded-lg border text-center">
+            <img src={enrollment.qrCodeDataUrl} alt="QR code for your authenticator app" className="h-44 w-44" />
+            <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+            <code className="text-sm font-mono break-all">{enrollment.secret}</code>
+          </div>
+        )}
+
+        {action && (
+          <div className="space-y-2">
+            <Label htmlFor="mfa-code">
+              {action === 'disable'
+                ? "Authenticator or recovery code"
+                : "6-digit code from your authenticator app"}
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="mfa-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="max-w-xs"
+              />
+              <Button onClick={handleSubmitCode} disabled={isSubmitting || code.trim().length < 6}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : action === 'disable' ? 'Disable' : 'Verify'}
+              </Button>
+              <Button variant="ghost" onClick={resetPrompt} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <Alert>
+            <Key className="h-4 w-4" />
+            <AlertDescription className="space-y-3">
+              <p>
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+                authenticator app, and they won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <code key={recoveryCode}>{recoveryCode}</code>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  Done
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SessionsCard() {
+  const { data: sessions, isLoading, error } = useSessions();
+  const revokeSessions = useRevokeSessions();
+  const { toast } = useToast();
+  const hasOtherSessions = !!sessions?.some((session) => !session.is_current);
+
+  const handleRevoke = async (sessionId?: string) => {
+    try {
+      const result = await revokeSessions.mutateAsync(sessionId);
+      toast({
+        title: sessionId ? "Device signed out" : "Other sessions signed out",
+        description: sessionId ? undefined : `${result.revoked ?? 0} session(s) ended.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to sign out",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>Devices where you're signed in. Sign out any you don't recognize.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && <Skeleton className="h-16" />}
+        {error && <p className="text-sm text-destructive">Failed to load sessions.</p>}
+        <div className="space-y-3">
+          {sessions?.map((session) => (
+            <div
+              key={session.session_id}
+              className={`flex items-center justify-between p-4 rounded-lg border ${session.is_current ? 'bg-accent/10' : ''}`}
+            >
+              <div className="flex items-center gap-3">
+                <Globe className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">{session.device || 'Unknown device'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ip_address ? `${session.ip_address} - ` : ''}
+                    {session.is_current
+                      ? 'Active now'
+                      : `Last active ${formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true })}`}
+                    {' - '}Signed in {format(new Date(session.created_at), 'MMM d, yyyy')}
+                  </p>
+                </div>
+              </div>
+              {session.is_current ? (
+                <Badge variant="secondary">Current</Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(session.session_id)}
+                  disabled={revokeSessions.isPending}
+                >
+                  Sign Out
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            className="mt-4 text-destructive hover:text-destructive"
+            onClick={() => handleRevoke()}
+            disabled={revokeSessions.isPending}
+          >
+            {revokeSessions.isPending && revokeSessions.variables === undefined && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Sign Out All Other Sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function SettingsPage() {
   const { user } = useAuth();
   const { data: projects } = useProjects();
@@ -2000,7 +2573,7 @@ export function SettingsPage() {
     newPassword: '',
     confirmPassword: '',
   });
-  const [passwordStrength, setPasswordStrength] = useState<{ valid: boolean; score: number; errors: string[] } | null>(null);
+  const [passwordStrength, setPasswordStrength] = useState<PasswordStrength | null>(null);
 
   // Update form when user data loads
   useEffect(() => {
@@ -2316,29 +2889,32 @@ export function SettingsPage() {
                       <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
                         <div
                           className={`h-full transition-all ${
-                            passwordStrength.score >= 80
+                            passwordStrength.label === 'Strong'
                               ? 'bg-green-500'
-                              : passwordStrength.score >= 60
+                              : passwordStrength.label === 'Good'
                               ? 'bg-yellow-500'
-                              : passwordStrength.score >= 40
+                              : passwordStrength.label === 'Fair'
                               ? 'bg-orange-500'
                               : 'bg-red-500'
                           }`}
-                          style={{ width: `${passwordStrength.score}%` }}
+                          style={{ width: `${(passwordStrength.score / 5) * 100}%` }}
                         />
                       </div>
                       <span className="text-xs text-muted-foreground w-12 text-right">
-                        {passwordStrength.score >= 80
-                          ? 'Strong'
-                          : passwordStrength.score >= 60
-                          ? 'Good'
-                          : passwordStrength.score >= 40
-                          ? 'Fair'
-                          : 'Weak'}
+                        {passwordStrength.label}
                       </span>
                     </div>
-                    {passwordStrength.errors.length > 0 && (
+                    {passwordStrength.errors.length > 0 ? (
                       <p className="text-xs text-destructive">{passwordStrength.errors[0]}</p>
+                    ) : passwordStrength.feedback.warning && (
+                      <p className="text-xs text-orange-600">{passwordStrength.feedback.warning}</p>
+                    )}
+                    {passwordStrength.feedback.suggestions.length > 0 && (
+                      <ul className="text-xs text-muted-foreground space-y-0.5">
+                        {passwordStrength.feedback.suggestions.map((suggestion) => (
+                          <li key={suggestion}>• {suggestion}</li>
+                        ))}
+                      </ul>
                     )}
                   </div>
                 )}
@@ -2367,48 +2943,10 @@ export function SettingsPage() {
             </CardContent>
           </Card>
 
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Shield className="h-5 w-5" />
-                Two-Factor Authentication
-              </CardTitle>
-              <CardDescription>Add an extra layer of security to your account.</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center justify-between p-4 rounded-lg border">
-                <div>
-                  <p className="font-medium">Authenticator App</p>
-                  <p className="text-sm text-muted-foreground">Use an app like Google Authenticator or Authy</p>
-                </div>
-                <Button variant="outline">Enable</Button>
-              </div>
-            </CardContent>
-          </Card>
+          {/* Two-factor and session settings belong to whoever is signed in, so they're hidden while viewing as a customer */}
+          {!user?.impersonation && <TwoFactorCard />}
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Active Sessions</CardTitle>
-              <CardDescription>Manage your active login sessions.</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                <div className="flex items-center justify-between p-4 rounded-lg border bg-accent/10">
-                  <div className="flex items-center gap-3">
-                    <Globe className="h-5 w-5 text-muted-foreground" />
-                    <div>
-                      <p className="font-medium">Current Session</p>
-                      <p className="text-xs text-muted-foreground">Chrome on macOS - Active now</p>
-                    </div>
-                  </div>
-                  <Badge variant="secondary">Current</Badge>
-                </div>
-              </div>
-              <Button variant="outline" className="mt-4 text-destructive hover:text-destructive">
-                Sign Out All Other Sessions
-              </Button>
-            </CardContent>
-          </Card>
+          {!user?.impersonation && <SessionsCard />}
         </TabsContent>
 
         {/* Preferences Tab */}
@@ -3,7 +3,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Link, useParams, useLocation } from 'wouter';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, keepPreviousData } from '@tanstack/react-query';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Alert, AlertDescription } from '../components/ui/alert';
 import { Progress } from '../components/ui/progress';
 import { Loader2, Lock, ArrowLeft, CheckCircle, XCircle, Eye, EyeOff } from 'lucide-react';
+import type { PasswordStrength, PasswordStrengthLabel } from '@shared/types';
 
 const resetPasswordSchema = z.object({
   password: z.string()
@@ -27,20 +28,41 @@ const resetPasswordSchema = z.object({
 
 type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 
-// Password strength calculator
-function getPasswordStrength(password: string): { score: number; label: string; color: string } {
-  let score = 0;
-  if (password.length >= 8) score += 20;
-  if (password.length >= 12) score += 10;
-  if (/[A-Z]/.test(password)) score += 20;
-  if (/[a-z]/.test(password)) score += 20;
-  if (/[0-9]/.test(password)) score += 15;
-  if (/[^A-Za-z0-9]/.test(password)) score += 15;
+// Wait for a pause in typing before checking the password
+const STRENGTH_CHECK_DELAY_MS = 300;
 
-  if (score < 40) return { score, label: 'Weak', color: 'bg-red-500' };
-  if (score < 70) return { score, label: 'Fair', color: 'bg-yellow-500' };
-  if (score < 90) return { score, label: 'Good', color: 'bg-blue-500' };
-  return { score: 100, label: 'Strong', color: 'bg-green-500' };
+const STRENGTH_COLORS: Record<PasswordStrengthLabel, string> = {
+  Weak: 'text-red-600',
+  Fair: 'text-yellow-600',
+  Good: 'text-blue-600',
+  Strong: 'text-green-600',
+};
+
+// Checked by the server, which also screens against breached passwords and the account's details
+function usePasswordStrength(password: string, token: string) {
+  const [debouncedPassword, setDebouncedPassword] = useState(password);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedPassword(password), STRENGTH_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [password]);
+
+  return useQuery<PasswordStrength>({
+    queryKey: ['password-strength', token, debouncedPassword],
+    queryFn: async () => {
+      const response = await fetch('/api/auth/password-strength', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: debouncedPassword, token }),
+      });
+      if (!response.ok) throw new Error('Failed to check password strength');
+      return response.json();
+    },
+    enabled: !!debouncedPassword,
+    placeholderData: keepPreviousData,
+    // Don't keep typed passwords around in the cache
+    gcTime: 0,
+  });
 }
 
 export default function ResetPasswordPage() {
@@ -62,7 +84,7 @@ export default function ResetPasswordPage() {
   });
 
   const password = watch('password', '');
-  const strength = getPasswordStrength(password);
+  const { data: strength } = usePasswordStrength(password, token);
 
   // Validate token
   const { data: tokenValid, isLoading: tokenLoading, error: tokenError } = useQuery({
@@ -225,15 +247,25 @@ export default function ResetPasswordPage() {
                     {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                   </button>
                 </div>
-                {password && (
+                {password && strength && (
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-xs">
                       <span className="text-muted-foreground">Password strength:</span>
-                      <span className={strength.score >= 70 ? 'text-green-600' : strength.score >= 40 ? 'text-yellow-600' : 'text-red-600'}>
-                        {strength.label}
-                      </span>
+                      <span className={STRENGTH_COLORS[strength.label]}>{strength.label}</span>
                     </div>
-                    <Progress value={strength.score} className="h-1.5" />
+                    <Progress value={(strength.score / 5) * 100} className="h-1.5" />
+                    {strength.errors.length > 0 ? (
+                      <p className="text-xs text-destructive">{strength.errors[0]}</p>
+                    ) : strength.feedback.warning && (
+                      <p className="text-xs text-yellow-600">{strength.feedback.warning}</p>
+                    )}
+                    {strength.feedback.suggestions.length > 0 && (
+                      <ul className="text-xs text-muted-foreground space-y-0.5">
+                        {strength.feedback.suggestions.map((suggestion) => (
+                          <li key={suggestion}>• {suggestion}</li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 )}
                 {errors.password && (
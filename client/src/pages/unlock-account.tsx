@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Link, useParams } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Alert, AlertDescription } from '../components/ui/alert';
+import { Loader2, LockOpen, ArrowLeft, CheckCircle } from 'lucide-react';
+
+export default function UnlockAccountPage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Unlocking waits for a click so link scanners opening the email can't use up the link
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/auth/unlock-account', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to unlock account');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      setSuccess(true);
+      setError(null);
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : 'Failed to unlock account');
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-display font-bold text-primary">Claims IQ</h1>
+        </div>
+
+        <Card>
+          <CardHeader className="text-center">
+            <div
+              className={`mx-auto w-16 h-16 rounded-full flex items-center justify-center mb-4 ${
+                success ? 'bg-green-100' : 'bg-primary/10'
+              }`}
+            >
+              {success ? (
+                <CheckCircle className="h-8 w-8 text-green-600" />
+              ) : (
+                <LockOpen className="h-8 w-8 text-primary" />
+              )}
+            </div>
+            <CardTitle>{success ? 'Account Unlocked' : 'Unlock Your Account'}</CardTitle>
+            <CardDescription>
+              {success
+                ? 'Your account has been unlocked. You can now sign in.'
+                : 'Your account was locked after too many failed sign-in attempts. If those attempts were yours, unlock it below.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {success ? (
+              <Link href="/login">
+                <Button className="w-full">Sign In</Button>
+              </Link>
+            ) : (
+              <>
+                <Button
+                  className="w-full"
+                  onClick={() => unlockMutation.mutate()}
+                  disabled={unlockMutation.isPending || !token}
+                >
+                  {unlockMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Unlocking...
+                    </>
+                  ) : (
+                    'Unlock Account'
+                  )}
+                </Button>
+                <p className="text-sm text-muted-foreground text-center">
+                  Didn't try to sign in?{' '}
+                  <Link href="/forgot-password" className="text-primary hover:underline">
+                    Reset your password
+                  </Link>
+                </p>
+                <Link href="/login">
+                  <Button variant="ghost" className="w-full">
+                    <ArrowLeft className="mr-2 h-4 w-4" /> Back to Sign In
+                  </Button>
+                </Link>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import { readFile, writeFile } from "fs/promises";
+
+// Regenerates server/data/breachedPasswords.ts from the committed list of common
+// passwords in script/data/common-passwords.txt (one per line, "#" for comments),
+// adding the capitalized, suffixed and year variants people make of them. Only SHA-1
+// hashes are written, grouped by their first five hex characters the same way as the
+// Pwned Passwords range API.
+//
+//   npx tsx script/build-breached-passwords.ts [path/to/passwords.txt]
+
+const SOURCE = "script/data/common-passwords.txt";
+const OUTPUT = "server/data/breachedPasswords.ts";
+const PREFIX_LENGTH = 5;
+
+const WORD_SUFFIXES = ["1", "12", "123", "!"];
+const CAPITALIZED_SUFFIXES = ["", "1", "123", "!", "1!", "123!"];
+// Words people pair with a year to satisfy rotation policies
+const YEAR_WORDS = [
+  "password", "welcome", "summer", "winter", "spring", "autumn", "fall", "january", "december", "monday",
+  "friday", "company", "claims", "insurance", "admin", "letmein", "changeme", "football", "baseball", "secret",
+];
+const FIRST_YEAR = 2015;
+const LAST_YEAR = 2026;
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+
+function addVariants(passwords: Set<string>, base: string[]) {
+  for (const word of base) {
+    if (!/^[a-z]{4,}$/.test(word)) continue;
+    for (const suffix of WORD_SUFFIXES) passwords.add(word + suffix);
+    for (const suffix of CAPITALIZED_SUFFIXES) passwords.add(capitalize(word) + suffix);
+  }
+  for (const word of YEAR_WORDS) {
+    for (let year = FIRST_YEAR; year <= LAST_YEAR; year++) {
+      for (const variant of [word, capitalize(word)]) {
+        passwords.add(`${variant}${year}`);
+        passwords.add(`${variant}${year}!`);
+        passwords.add(`${variant}@${year}`);
+      }
+    }
+  }
+}
+
+async function buildBreachedPasswords() {
+  const input = process.argv[2] || SOURCE;
+  const source = await readFile(input, "utf-8");
+  const base = source
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+
+  const passwords = new Set(base);
+  addVariants(passwords, base);
+
+  const ranges = new Map<string, string[]>();
+  for (const password of Array.from(passwords)) {
+    const hash = createHash("sha1").update(password).digest("hex").toUpperCase();
+    const prefix = hash.slice(0, PREFIX_LENGTH);
+    ranges.set(prefix, [...(ranges.get(prefix) || []), hash.slice(PREFIX_LENGTH)]);
+  }
+
+  const lines = Array.from(ranges.keys())
+    .sort()
+    .map((prefix) => `${prefix}:${ranges.get(prefix)!.sort().join(",")}`);
+
+  await writeFile(
+    OUTPUT,
+    [
+      "// Generated by script/build-breached-passwords.ts - do not edit by hand.",
+      "// SHA-1 hashes of the most common passwords in public breach compilations, along with",
+      "// their usual capitalized and number/symbol-suffixed variants. Each line is a five",
+      "// character hash prefix followed by the remainder of every hash sharing it.",
+      `// ${passwords.size} passwords from ${base.length} in ${input}`,
+      `// (sha256 ${createHash("sha256").update(source).digest("hex")}).`,
+      "// Regenerate with: npx tsx script/build-breached-passwords.ts",
+      "export const BREACHED_PASSWORD_HASHES = `",
+      ...lines,
+      "`;",
+      "",
+    ].join("\n"),
+  );
+
+  console.log(`wrote ${passwords.size} hashes to ${OUTPUT}`);
+}
+
+buildBreachedPasswords().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,5034 @@
+// Generated by script/build-breached-passwords.ts - do not edit by hand.
+// SHA-1 hashes of the most common passwords in public breach compilations, along with
+// their usual capitalized and number/symbol-suffixed variants. Each line is a five
+// character hash prefix followed by the remainder of every hash sharing it.
+// 5034 passwords from 481 in script/data/common-passwords.txt
+// (sha256 6942571629a977e16f3e28d49fb597d838c31700c13cedb26e2a65b94a64b319).
+// Regenerate with: npx tsx script/build-breached-passwords.ts
+export const BREACHED_PASSWORD_HASHES = `
+0015D:0367E2331D49B70580F12C5D72B0EAA842C
+00248:47BCDE1E1DDB578FCD307F0662A660100A9
+00295:D6C063D0D9CCC6E2DC3249198A694486B26
+003D5:C7AB6489E1FDC74301917E6954DEB28ABBC
+00422:365673EE106F0712CF13E9609DFDECED3ED
+00467:6543ACBD851FD4533437A47E2E1A66B3F7B
+00619:DFCEDB6C415286F4923575972C1C4AB4703
+0067E:FEAED41979D46A665DE0447186E22EB36DD
+00683:9D264A38B7F58E5C8130447528BF4B7AEE1
+006C3:9A25220AB4129C6039913BB16E3596B7FEF
+0070F:41745458F4F26EDF6F2CC351823BDED5394
+00717:1DA9DB1789F41A5C7C869ED4F8D2E344E26
+0081B:35E256F5F2AF567CC91CF2655B908251184
+009E2:861BB8A794BA5BF267E686B3AEA9E44412F
+00A72:B6D69FB192381EF48DA57C179ABCDFCE3C6
+00A99:253B3721BEFB556DBB34F8A301A375FEBC0
+00C8D:308D3DD38C1917C07EEC90FB4BEF2044AF6
+00CAF:D126182E8A9E7C01BB2F0DFD00496BE724F
+00D79:3F60D839D90277ED7900191444118CB0557
+00DA1:BFB64C80217AE33070672CE719ED97F7743
+00DB3:B50DCE56DF69FF7763B3B1599337250A838
+011C9:45F30CE2CBAFC452F39840F025693339C42
+01207:DC1B137D4439C4D0F92AAF0B0021560E4AB
+01387:2E31D06557BBCEF7A84041EBDD3033555A4
+013E8:975490BFF350A5625AD27CA2FCB611ADEED
+0146F:1CEF5DD47329A27D960D28D30FC706174EF
+01483:8F4527C63799878D831B4D31EEFE2608A47
+01488:01A0FB132170D36B126DB3382B9BED7E57D
+01504:AA177EF6D65D1AB6E9471A1D17C17D763D0
+0166D:1831E669E59A6B90DB8CAAC11691D8F8C56
+0182F:97B66C290303A88A58F5544B78AEE071A85
+018CF:3F46C118BCA00F4E2328B0CE25D692FD310
+018F4:D7F06CB8626E1756452581373E05AE41C56
+018FD:9A068271BEFED34D41CC1F01A6CF3924A0F
+019BE:62BC737051BA5252F029D446359BD39668E
+019DB:0BFD5F85951CB46E4452E9642858C004155
+01A46:703137396CFCF28E04A17ACF640CBCFC984
+01AAF:02F0526FAD6CFC61FD620ECC1516AA1314C
+01AF0:A541C761FB782FB93678764DF1E917288B4
+01B15:BB664146451B2BC2332E91BD966941F8586
+01B30:7ACBA4F54F55AAFC33BB06BBBF6CA803E9A
+01BE3:C4D86FAEFA4F6FA83D4E2345697A5E7494E
+01CAC:AFAA0095A3839BF40BDF412E40E9BA566A4
+01DC8:B6B924FE15D080A7CEFEAD953D3C673B426
+01E2A:3874FED2FCB1001C594984961E32D6F16E6
+01EB7:3E0BE9E600793F4692703F85A26C0CD8D6A
+01F6C:861BF8C1DD06B55C19AF49328B66F754B46
+01FB8:29638B04841D9CF2C2B24B9C8EC59C0E2A4
+01FE6:B135066595CE0C3393245716CECC4934EC8
+02001:46B91E4763A0EF90355C80EEE85B532B57B
+020DB:D72606E4615705A56EB3E33F6B7B5F3C8A4
+0232C:BE0ACA3E125A8210811320AEABFE321B439
+023BB:76337B2B6A7700A4DC1123B73639C5D70AD
+02563:5DD444EA38CF7F6A6FE7FD966AF5698F7B0
+02600:3F9713C11A4E07FC1682DC11A50727A6481
+02665:0030C0670E91D74B9E3308B2C0056A5DABD
+02693:94C60B8CB1070592F32F81747CE79581DEE
+02731:34DE7C6502BB1D0A71C75FFF7574D33B6BD
+02759:7E59399C45A340F1545188B9441FBD888FB
+0283B:84EE2F01437D993D4BE402CBF68BEB3E010
+0286E:DB27D113E53DDDDE432748B6E0B99F3AEC8
+029DC:561E6797A2D6D813E7C8CBBF85E0DE7C238
+02A15:7808620347FD856C981E6516AF5FC86FEF3
+02A2C:37A892EBF8F8B3216CA1AB74CBA88993FBD
+02B0B:2AE185A94FCAB50D8F08156D86BF2B32C92
+02B3B:BAF45317FB81E8180A9AAFA70441DF098DD
+02CC5:EC8E79E897D2518AEBBFA6C96396BDD6E1F
+02E0A:999C50B1F88DF7A8F5A04E1B76B35EA6A88
+03065:37EBCF374EF8892ADAFFC46B19C24C8D731
+0324D:06DBABDC112D784EFE4AE19CED28C109F3E
+03402:01FD40FB79A1948028CF4FFAB1C6BF91962
+03480:D9A0C08DAC789A42A8CF642C516A45176EA
+035C7:4A5DD20F92E3B95265AC3549A9077669901
+035D5:C52F29FBEDEA0B95654A7A06D2B61308054
+035E0:5F676144CA053CF185F7261A75CD0F58800
+03686:2374D6B71072289888644A9A95F6EB46240
+036F6:518EFD680ECDD46EE8C6CA1E1B4586F04BB
+03826:807F49ED43A274DC8D7A43B0CE523D6C20B
+0383C:99D260049C783F396C0156E1573021FF0B2
+03896:534C389418A4353EF18F9D0D7F20ACC937C
+03A40:C54533C1A72E5F6ECF72B6F974FAA747777
+03AF5:502E22F507E0CFBB907B27B5B9C6F2759D1
+03B2D:10B947DB789B909E78D22C0C908090AAA9B
+03B99:080733BFA4115CAA3EF3C00841C46A91EE6
+03D7C:855C1A056359FF73B8CA63680E973A2EC01
+03FAF:2D2D9B50F2C6213A4B889823231385EC64E
+03FDF:1323C8D4770C90576CE2A1860D476DED8AB
+0405F:09E8CCD8CE4236BDB6B167E4426BFC41848
+040AA:C5D65A96494530569E2F0A953139963A09B
+04127:CC5DFB8C0234B9094FCCB98CCF3E5C1B97E
+04313:8045FC6694D2A1048A158BBCAE4893AF3B5
+043A5:58250409758B64F73D07D7F06B3DF654BC0
+04426:D8FDAA6E318D9E379E4231A2BC319350C7F
+04450:7C8314178F51F47BF2FD6E666A4139B6EEF
+0446C:2927C7B3531DF2DF467C6E243403796370B
+04494:EFEF14865DC2E7CD7A9C7373FE6D7E758FA
+04497:3F664367E41D082942BAFEA7C346B770196
+045D5:4DB48D06FFC31DEEACFDB15CC8F95E54F51
+04611:E788BC1EC5F54E6B6C05CE43F31E35042BD
+0462F:23328F763D95306D265A4FB92D7861165B0
+046F7:CEEB5A470E147860DAD27BE8B141DE0C795
+0477D:D17348760494C924F039B78F26606C47511
+048AB:0B9122866F1AE73D21F45F1390093076021
+048B8:D94719900BDB2C92994181DE18AA9268F63
+04A39:AF864D1334093C852FEDE1A08673586B0A9
+04B6D:FECCDD7AA6A817AD992A7572EC162365B67
+04B94:92B1C1E1CA3CE1FD3BBEF88FD0F2A9CF26A
+04B95:556BEFDCCD3E2E2AACA18088A4E01CA5DF9
+04D1C:B35AE8A060A561F9169E09DECDDE9EF3E6D
+050B4:DC2A85FA8CFDB375D01F899BCAEE25694BA
+05149:731278CD6B0E417311977ACC98332634F99
+0520E:5DDE707750FBA995C925FCC53D030F2CDFD
+05233:40000F8A88EEE46C9DAE18B8B8FCA8C573A
+0547E:ACC0467CB20B44200D52B9E6C076D4B8335
+055AE:20C14B47A47B42D9F06B184AA3133C18E5A
+05699:9EE57583DB4414000AE7D9817640C61702C
+056AF:9B9DD37D4EE4FBED9E79C61F40E08116219
+0570D:CFE1F3137ED5FDFA168DE27E6EEA3D9EDC6
+05757:82C67AD7CA3536E9B312B64898B42622FD9
+057AA:041D78822C9ABFEB89CE97F79A02BAC3B31
+05973:90906253F44554770816C1A2E41334B596C
+059A6:9F5CCC9681F43D9899FC6A9FA053D041301
+059BF:C4354E4288234A85BAD32D43D4F161AFF7C
+05A5E:7A19DD6C473E8C02B5A1F5C913E1F05144F
+05A75:6D0E7EFDF51F1114619AD224C56B4F19F52
+05AB7:159BF4A771FDC4194388C8DC364FF3760A4
+05B53:0AD0FB56286FE051D5F8BE5B8453F1CD93F
+05BF3:3C787E61EBF1E62EFA4557E2C93A409EF11
+05CC5:2D1635CF1FAD3561B9F8AA1CFDE65755CF2
+05CDE:F2E8EEDFF3B4E7823844DAE3CE316F6ECCF
+05D17:74D936777DC10522535EAB61EE031233022
+05D2C:DBF8DB8A91A793F3D8A33BD82E04C5D8AF4
+05DE2:F6CD41FC2938A433DDBE82F999EF5805089
+05E85:AB9D88E730DD3A240F697075FA4A6CA1938
+05E95:9E529CF13B1FB9B4D3D17767B0998054511
+05EEA:C16600B4EEDB3CF0166E003C51D143DC1B7
+05F9B:C2B2234EA664EF5531B32E6DEC0D07679B5
+05FE7:461C607C33229772D402505601016A7D0EA
+06002:42EBFE86AC68AE269ADABEC04072C390B6B
+06025:49DAD0BFB046908ED60D56DD14C6806B6BD
+0608B:F2D071D035727DA7E1A832C3BE375414D2E
+06098:9C4805434730B96D4CB30492D13DB5DC4DC
+0611A:F583293C39219D2E6922471193E56CD38EA
+06171:3FA2AD376430AC11555D1895F97876DC58F
+061DF:D55226BD544EBA386BBA448E869CD9E9F74
+06558:89EF1E98837EC0D326C1FEEEA9847C8A0F1
+0670A:30925EB0DB112B15B1B242F45419C97D8F7
+06894:2C83F0E6994D046F7EC01B8F42BA8F317A7
+0698B:7D1C2574F92FE2CAEF718348E3A78CF66CB
+069F6:28C6633CBA70427D594FC7A784D38F50518
+06A3F:D76243303FCF0950997F6C3B56351EB0855
+06AD4:B57B51C4A583B142A6FDFF52E77D7BC27CA
+06B59:B8B5ED2C8CA90AD67C2637EFE3951E38B71
+06B84:48847F2B180F7F26FB80E4AC89657B5A1D8
+06D05:B4CAE8178DF4C41467BC9A783B6BB75386F
+06D81:C03DB8D2924B8DFFA6D00F3F04F8AEF9F18
+06DCF:B657E685FF106B1C6E679AFC5DA5527B1F0
+06DEF:A81A89F3128DC2C57116E0396372F6EE525
+06E3C:4CC620E7BE91AF6E201523B2483CA553F67
+06E8D:B2DFD69DC1703EDF9418FB7533FA5D026DE
+06EEA:ED7AA0F20559553C49FBC9C7C9AA31A2577
+06EEC:9F0F596C864E9C670DA0C80A750883CCA7D
+06F72:2A9842C5CDE93163B2B98CFAD49D08A6787
+07106:C918375C842C8DCC2464ADEB46140BA042C
+0716B:9029D0818CBABD7C69AA55D01C877982B54
+07197:08D1CC814839BD818FDC27D446652F03383
+0721F:518A848C222193E4CD6BF9014E66D561563
+0722B:3651BE10EEB8DF39CCED958B74A98D18CE3
+07368:FCFCD0198F82E1F041D1C20A7C4A8D644B7
+0742D:14E46F0ACF6A979B7DCCE8EA65594055995
+07532:73276F649BE8523BDC2F4520FE62470588F
+07585:7DF60E39B646337A5ADA8E74743510F5CCB
+07623:DD6AE322551AEB2E087F31EDF2173CF3D54
+076BE:B6D53F3B0E9668E83F2829F2E627B44FA57
+076FB:CF4A651644B0E6001CACC3EF53F471B8641
+079F6:548028BBF1AFB559EF43E7FC4D99048AB20
+07A34:334FCDEF4D62E398AB0E9BAF5EC99A2F3A2
+07B61:D74BEDA5FEE4B834DB3C966F0A635A33953
+07B99:E4461F4064EA5A89E2225207D90C43930CB
+07E28:CEEEBBC676BF3D350F556CE88DD7CF6FE97
+07FE0:2C90DBD9742677B8A055AB2BB474F09EB45
+07FE7:3AF1F604A8033BE8F794BA532A5040B3095
+0806C:BEEE7D35E1BE9005FFC4B4A9655EE22995F
+080A7:02AE3B17FD3F439859A8998C065132732AF
+08175:C9C3B9721D4DFDC9ADFF93A07889DA543CD
+0829C:F835B86C7C532643EB0AD50C38201D302F2
+08354:E4CA62779A08B3DFA47292E05B2E87038DE
+0845F:1D54A18D4622B2E1DF8EC7A43E180C54308
+086D7:BBE39747B7EC91251CC2435838E2B039785
+08713:E024920AD977E9BEC30F77F8FE5E86FC658
+08802:D707979E4D796A2538BED8CD67EF20F7C91
+08808:065106E0F48E0D8EFBD4C492C633B4D69E8
+088B6:5D16F5E4F3731298E103B56BB35D864C75C
+088E3:3F77386225AAE26FB3473786B47F111DEF6
+08912:AD2BBA2067FAC20C87F81B1E4362EFDAFC0
+08984:9790A229B01F6CF88FF844C34929B5298AF
+0899D:9CB497A31E54B1033B57FB9998B39734651
+08B31:4F0E1E2C41EC92C3735910658E5A82C6BA7
+08C54:771D5E1F93F170C7F8BE8ADE54C6BFB63BE
+08CED:F576484D76CE4A001251E3B27C04C177136
+0922B:57BAA034D90D4752E5DE9C501709AADE466
+09331:68E9068772948B870CB3B785522F2A4083A
+094AD:16A6F80FD0F4FC53CA8665F80E131391110
+094E8:E159DB7824161B1E67AB209DA503434C626
+095D8:63EAC3337865F739296D327F1571DF4E452
+09639:92090AAC2D595B32D34E8A5FCAB9FAE3151
+097E4:B32DAB832C3BE1D506DC8239D7465041937
+0987E:36E54FCD576736732870E475AD02B5723A7
+0999F:AB182973AACF0E1E20FB7E45237A91BB305
+09C06:D178FDE3A0674CC0C3AC07A6B47AD947C97
+09F24:B8EC0C396BCB36E3EC35BFCCCEBF2340E2D
+09FB6:AABA7940A7B7FFDBC9CBB9B3498303C1BAD
+0A0D5:419DACE23A81B9991AFE48954D032EE785A
+0A142:161AA1A6D43C76E2CF8C9968820CCB035DA
+0A318:7AFF26834D1E7726FE14C138140946E24BD
+0A590:A2DBC729ADDEEB9D08FA556FABB5EA22DC2
+0A68D:6A807F35962DC97B7633CA9D5A3F9B46AA1
+0A80C:0E9844B66EF35591AC6DA64EE813B00DC69
+0A968:51AA3934512B395E5848DA582B120FAFB8B
+0AA1E:5029B90C7AE2272E4AA2A446C75D30FB673
+0AA7D:33CCF0BB2FB0DF5FC3B69D8D1154BEC78FE
+0ACDE:39ADCA5F1BC7AB29B606137974F7EEB029B
+0AD55:B76FBC0C4511AF550C57878A171C6D8A671
+0AF11:F951AF648C48B83C19F37EE13A3D28308DB
+0AF96:97427927D87F9AA585E5FC27631C4985999
+0B03F:F0D6F770CE932717394341098D7C5264EA6
+0B04D:280B9D7D1FAF0C0141D5447D04D6675FAE0
+0B11A:335BDF17F9EC0E42CBDDB827DF4C453F54E
+0B15C:29A853923C6ADFB90F1AA6A54A56B5383FA
+0B1AC:F145EAA10281CBA8674064B0D3435C248E5
+0B1C4:25D9D0E5931B3E2DA9C997F88D7462261CC
+0B2D2:93306511D90B3A9F23424FB9836760018CC
+0B2FF:7669F8405F568445B5DF749F340A82784FE
+0B3F2:39739A91A8AB906B0CC38B5F6B415231BBC
+0B410:FBC540DFA90C05B3C7EF638DAAE14CE548D
+0B45A:0FA5D0EB4753C6883A2A48E039DE4989F44
+0B6DC:854A7C4FCB302FE4E390F38BC4E13F0648D
+0B7FB:F343D9A28405C947B6A49E379B13A588E2E
+0B9B8:6B0E8E53648BC9BA4CDDBFD355082B9B5DC
+0BA96:775C19E26EB1315F34E3233574948AE922E
+0BB4F:D1459C454803762BAB3CABFC8D7FF7862DF
+0BB9A:330F137DA1611909EAFCAB6DA0F1AEDC88C
+0BE7D:877AF3E4A0FE505D6567A29546BC9A4205D
+0BF88:9EFD381A96D45B98642A7684135480DFA1B
+0C032:9E6FAD1348E2D9EA3460D1E1E9594D87FF2
+0C04E:E7B95ECC0A6D76C8CD23822FDD1E253A7EC
+0C252:E13767C02934DADFA76C292B419843EBDE9
+0C321:1850A0DAD1C0C468CB0D50E4A1967C206DF
+0C442:0FEF8682BEA310A1FB47CF39195DBF571CD
+0C4C6:11E92F59A909744B5CF4BD698E4D53F686D
+0C67A:C18F50C5E6B9398BFE1DC3E156163BA10EF
+0C6AD:AD7F4D2E1AE71CF4802BEC9A623D5EFEF73
+0C6BA:03885F3AAE765FBF20F07F514A44DBDA30A
+0C735:3E619903B50FB4DD16F0963DA02F25B3643
+0C78B:3F08EBB39318D85CB25B1939BC12FEBB407
+0C89C:CE040577BF318AD945EE58E2677C175C995
+0C9A9:EE62603C2E0D05E61CA7904AC52EE70FE41
+0CD40:1C6A9D04917E7EE17BA048EEFC9ABCFCDFC
+0CE79:11E6479995D6C346D6F03EB723B5135309E
+0CF1F:0AA9EA2A9337D5701F1749CD10BB84556F8
+0CF84:732AE83173927FB44E51CAB309A83DAEC08
+0CFB6:180A9DF8C1CE52247AD45C3A1233082DCF4
+0CFCE:03424AA2AB72AB4999E35C870904534335B
+0D021:D276F9C09BF675B2B57E43EB4643C8CB31D
+0D027:ACA152615B30B846FBE718A362548D12753
+0D05E:2CBD1BB6BF9689B7BEEDC7099D587F706E7
+0D060:B0D6BEFC1F8BD4CC2A5693125F1F31E5703
+0D0C6:5E86C444A039B7CADC6F83EE3708CDB9660
+0D0CB:B59296D9ACC111F9D04BAC586C827724CF1
+0D0D0:A992100260F1359A445C6811E4C85E35D49
+0D131:5348375827B84D93CF3555F52B98EDFA0E0
+0D363:B06D6988D708E559C1BB7D1BC729C04573C
+0D430:B42C7DBCE9CEF07EE9AE4942F69C85C8874
+0D488:71649D04CCF51D1A6B39F9EA58E079D885A
+0D4CF:5BCEFD3DAF6B5AB6D270CF1F76AD6CCA145
+0D59B:8BA9E8A636C57C91B9828D26724AFD9E100
+0D619:2DDFB73B446AFF3EB99A3CC8D9D1FEFC768
+0D66E:F296867A91083CFDAE67190C87FB45CE8DB
+0D68E:F4CFAEC3326DBF78C9C32DB84E09F175322
+0D876:44577F1EF0CB9719E88BB635CE30F852AD6
+0DC83:B074A03B44B674CE4F4CA7A98DEA6667F5D
+0DC94:781CB588AC73301EA11B9D1CB36B4A83B33
+0DEDC:12C17B35ECF4491753E7D828A61C64F6B7E
+0E155:1DA2A0134E9D0D417A4C82E8F30E9168951,9B2792DE2BD2AECF26FDC15D5526A6A5B8E
+0E228:9AEAF81185FE5E46309AACFBF8D10DB4822
+0E2BD:691278BB213978A33D84D5DCD381F5A7F4F
+0E2D3:19ADF28A2A145B598763FC3648EE334ED64
+0E32F:FD628B5F4716F7EC29E13BF98FDD0462AE4
+0E3EC:C39D75B1CADDFFC27AEE5ACA62145045DC0
+0E5C1:06AAB172CBD8205ABF28B353E94A6296E0D
+0E623:4D13E44C976018C2A551ACB752F32AB7A66
+0E670:764B21B92685EB374AF60E7340775648453
+0E6D9:7481ED55597BC040FDC60D0AC0B0939E155
+0E6F6:DF6097063A1D5D89D6D7D861F5411006887
+0E735:BFB5F71C957A7D1B0321CEF88BB1864AC69
+0E749:0C207D41285CA1B4AEF76E35F12B2E9BB64
+0E818:BFA0679DF304036382AAA7667DF92CBE30E
+0E847:0CA6F3B4334668F014E082E3DD9EB2C2909
+0E933:0E6F99CB3FFE77439E9FDDF3B58FCA5BD2F
+0E95E:87511F25F84E1FF140815BE397DDE46289F
+0E987:E0BA5689D2C9248AEC180745933CC6044BA
+0EA04:FA80457F44E95534EC2889C208165F9AE74
+0EA35:A0C06B3DFA6B092D4127092C9F2E8192165
+0EA67:4DFEDAA8CA3E41DBF32C22357E11A4DE197
+0EAB7:B4D4DF4952FAC580F3D6C517707439712E4
+0EB4D:C1A95186951826298D6159F74323C1B2871
+0EB7F:600DDE95890FF24EBF3B4828150E06EA692
+0EBA8:C0EF7D65688F5048F06678F158A53F032E9
+0EBD4:153E37DDA126FE6DB5EEDF71F4CD78DC197
+0EC53:AD9E4A4BE6C2B936FE19698227A899F3886
+0ECC1:7990368FEE53FB379CA6BC728884B595ADE
+0ED47:904A3B8DA39EDDED6E8C10FBF6317A78FDB
+0ED61:0F5A1462FDB5642A3218FCF88DF2CCE32E4
+0ED7E:0D0E8E1EDF0D4B98650792665BAE21C75FA
+0F092:5B48D5D82CDAEF8C1BED17B77644C086191
+0F0EB:4AF5F9B1810BCE24F811AA0F2C0568F1F9B
+0F125:41AFCCE175FB34BB05A79C95B76E765488B
+0F2D8:E5BE29A6D5EA4D03CF0EE06EC37F229F6FA
+0F2DE:2D4EE15A866EA88A5EA9B13B688A99C436F
+0F300:F33B728CABD2CD5CBDE86757722DE291CEB
+0F50A:EC131CA932998C62F58008ED44935BD5729
+0F526:124D9C0E976CBF9D963B7D30ED5AF1DC21F
+0F58D:5A5515F1A8A9D179AA58858B67B2F8A3388
+0F8CA:A0C368CE3C259E66E13C03BF28C2444C8D7
+0FA1D:697C5BFC54E138E2D89D67AED58423C5F6F
+0FA35:B74E4DD1E36D5768801953087755A059EA9
+0FAE1:63097E48FB68DAE806EDD2728850E9585EC
+0FB78:778A2CFBB2291A78284AC49A9A6C568025C
+0FC67:91A91D23F017990782EB282125C1DB46ED1
+0FC9A:CDD6BFA767A09A691C850F2A3E0D6495E65
+0FCEC:B634323A60532866FB027BB40E1C54C88AD
+0FDB3:B756D03D220621DB51647D74FC85E34C693
+0FDF3:9972BFFEAE1991A531A62A2CD338B06A073
+0FED5:A59562583D732A6977E0B954FBC1301328B
+1001B:22C8E4ADEB77EF10481AD06FF9C35006CB3
+100B3:7D8D724E387B0E9B041912D67F5638D77F1
+10160:D7B5E756752ED0842987E3AD9080C8E369A
+10271:2C7C9C04B6DE722DAAB600A940197BB15AB
+102E8:79ADF214D3B81683D1DFF4A4074752A4075
+1036C:CDA40BDA0A1459D58C0E8C5F3B025AA7FDC
+10373:F3214B8B1C201F953B60138A55CA618B38F
+104A0:AB2C6753B5D7CC89ED4673D61E1612E5D4C
+104BA:14E919AF03264CC6D0BA3A33C55221F1902
+104E0:3314A82F3FBC0CE1C681CFDFA2D0542E492
+10569:6EBEC42C9B8FF272655372931CD5FD2EE00
+106D0:2EC79206B022B2CC19648FD5B59DAFE71DD
+10704:27D103D20B991BB205113883AD600A2FE52
+1078E:B979190C734FB20AD17B97165E56A8E6421
+107D3:48BFF437C999A9FF192ADCB78CB03B8DDC6
+1088E:B4AC4B6F4FC68D9379D2FE1B28EBDF1C9CC
+108F9:39DE8C5F00F334A613887CB100ED19BCAFF
+10BAF:437844C25109ED7F9623295CEFCFFB21C81
+10C28:F9CF0668595D45C1090A7B4A2AE98EDFA58
+10C6E:F80BE6D28D3C0BA6B5A51E9E1060FFDC6E9
+10CB9:4878F17CC898F5900E8188DA93840C99036
+10D7B:0BCEA5E1564551DDD6802DD9E3AF9647BB9
+10E4F:3819007F514FB766FE23090FC7CFE370604
+10EB3:EDA5CC95E5C28413B17C80098A6C0506A79
+10EB8:02A4214D7BF9AA757E961B266C48C8216FD
+10F3C:884B66F766BF5E48AEE83502DA0358B45A7
+10FA6:503CE2510A4D9D0119C1ADA7C2543CE8696
+10FBD:625E87A8DC9058F5E27D9764BBAD77D92F4
+10FD2:8F89F6454435577DAC3E966FE0A9455E4A5
+1103B:11F29B7C4522DE0A8FCD0C5938349209C0F
+11074:441E80693B82FDA5901B91C83B3ECA987A9
+112A2:B437CEA0196C6D442BBC3AF9385C8EC50E5
+113C8:F6557890DA2A18CAC3B4DE12FC9A566CAE9
+1144E:9791066FCC2F911108616DEB91E09458C37
+11594:787A658A5DE6A49DCCFB90C889FAD9EEEF1
+1161E:6FFD3637B302A5CD74076283A7BD1FC20D3
+11707:420E3222BB96102B6BAD57CC78C14E8B845
+1195E:9A2C742EE4D5E8F39C785D6C63CAFDB6D72
+11AB9:0A7D0ED86469755DDD313A74C439858B5BF
+11AC7:E9196A8960FA8BA1ED6DD5CDF5961AC3D67
+11C3B:BBA3BECDAAD823511A7F88B5FD4FD87E51A
+11CC5:07581A2EBDA7BECDB8C6CCBA96B815C7B08
+11E1D:CE5AD55CE25727C10DE6CEA02A45E980299
+11E27:4C3FFC40932AAA6C5B5CAA6F4340D6263B1
+11E83:2B0497243BF6131F93A77D745CFB29C8130
+11F2F:1020A24A8A6865EACC1E6329E83AB084FBA
+11F32:42118FF2ADD5D117CBF216F29AC578F6BA6
+11F52:AD50E8A42C88368DEFFC27ECFBBE7AF07F2
+1203A:4C68907586724A28AB89890CB233E3E8575
+1205D:2EDD167E67665CE4CA14788D1B4B9312E98
+12073:A74577D7336911CDEE99C94520F2EAF0992
+12104:C593232229994B3C9AB2D885034D156C8E1
+121AA:D342AC1538479CF03450ABEB753D52723B4
+121B1:70827BFE489397C0BFD78A8238F7F79AF24
+12276:72FBF10E4B8A00AC8B70F9A4620E62089D3
+122A4:17E6DCE08A4A554333BBC6E9922B62C1F31
+1239B:DCBA17D6EEC78F78077D6DCADFAD51516EA
+1246C:EAE28F06A7E69F5105792A1E45A0B43053D
+1249D:35E5A033FC99CAE00CBCA2D1DFFDD5DB2CB
+12526:26215E3FDDD8C9A88659BBED7D25F770CD1
+1259B:26F9A54BA7D363D36ECBE88301C21FE2116
+12639:47A1FFE94A5F8EC2962C35CFAB656B05C43
+12660:71A07B096DF5B63B67E61D66BE89C2CD44F
+127A6:61B8E2A7DD29C8C8D45600B0C1011B21963
+12DEA:96FEC20593566AB75692C9949596833ADC9
+12E70:CB23D66B847211218CF1166C410E76B0AD7
+12E92:93EC6B30C7FA8A0926AF42807E929C1684F
+12F00:6984E3FD352620EB0B8C9DE09AECB7617CA
+12F58:634DC5DE953C352AA455BBC1C20FB087293
+13052:0882DFFEFFE6A87272F145480AEBC9CD9B4
+1319A:F9FD4C15C0DF34F896928926CBA44744ED5
+1319F:928A1F5D872415F3AE700D7C3243EC26937
+13247:8A70D3EDEE9DDE642DB29E381343D76D82C
+1328E:471EF9026349AA3877693BB28B1C9A5A6CD
+1331B:49D43E6062B8A18D450BC82A0D5DBE08260
+133AF:A9AD91545ECC6C9A447675843F19900EB4A
+133C8:1002A0F73BE7461797B1B9722D64BBB73D8
+134E9:305305A1E7C3ACE24B6D1FCC4A14EFA3E88
+137BE:F7EDC2E76A2F6B064778430B996398FCB6A
+13902:78BF1C486D0F3DF894C38B56A60CF0781D7
+1397E:098ADE9F9BD9D65C39CF1C25B4854B1291E
+13ACE:34ED11CF9DDDEC01508DA49A39A0AC80BAF
+13AE1:1065F3F55AD3DBB7C2953AE5145318AA093
+13E69:87A7A80B8A88E27FB4DB1B98222E4E1ECC3
+13E75:990390C5D0AD6EBBD7C8488F7D8BBABA278
+13EBF:B2A17993993A3A4BC76FADA5BBADE909A03
+13EC8:4EE74A20EE10F29AD4EF78E971884CDD7C9
+14116:78A0B9E25EE2F7C8B2F7AC92B6A74B3F9C5
+144DD:B83A70F15E6634ED69A02BD93DA1CBC7836
+1461B:0D8355715B741F294780F7721B0F16F4094
+14676:09B7FFA3AA25E6BCED120F577967CF371DB
+1467D:13B34EE0B37B09D1E750DF2B92B061BE7B0
+146C4:AB78B0A597A5217A7BEF3C8B49AE2210B13
+14728:5AA94655A77E8028B3D22B1BBA5F5C53ED0
+14784:7D73EE819CFCBFAF4E907CE7370654B8248
+147AC:49D20F9BE6BDC3BB82614CA1ABB3059E842
+1484F:EACC191D0F9FF076B4EDA5BBC105D1F0B87
+14874:D27310C1D24FC9FBB53930D85E9A174540A
+1488F:B4630C5E20B278FEE43FCC7BE2504FE056C
+1496A:A696D9D35AA2C23B0F1EF3020DF7F26F869
+14A2F:037AA4C84DAF02FAD60ECF0832F0A64E372
+14B43:1F9F8C704C33959B2F78CD83F812ECB827B
+14C55:CBD8AEBA3D924C8E8342AD4E20ADC1181C8
+14D6A:BE7686707087D4A016C9D5992595A9991D7
+14E72:E2CC0E76C5A829B3B878C69ABDCACF149BF
+14ED9:460B2AB646CD29B3456C4DC22A5FE352198
+15029:5E19A269B2213FA70991436A9A0BA3643C8
+150BD:2C82246AD4B7F8A7B779A527D68930AE5EE
+150C4:FA01B8B2D6CFFA88C93D945746992939CF6
+150E7:F7EA27577784E6ED6BEC1193C94FE89FF67
+15294:A2DEB7E2CC4860885F50DC10349B1693B57
+153EC:5B96F2AA4FE5EAB09C974C13222348018EF
+153FA:238CEC90E5A24B85A79109F91EBE68CA481
+15499:D809576573AC03E5B6A95DFE86F6A8675DC
+15603:0C639974FCDA664B4EABC6531171849DF91
+15614:82C1292222496D39BB43EB61619184A51C9
+1576F:6553927D6408F73C0A14B989C69BBA0544B
+157C9:8538ED3183C3F3ED017B9947917547255FF
+15840:4F91A729CEFDA033106CEDE05D1E19E321A
+15D83:4B328BB637EEEF49B6624774BDED566B659
+15F8D:D45C4837D95DD016FB5D42AE3E44B01324B
+16057:48331E1B352EAC0E7EC7E93DDB7065119BF
+163C2:C9920E2EDEA12943F2F3AC2B8D544496AB7
+16452:C2DEC19A293196B79FD3F35E3C7ABC7F4EF
+1645E:E78DE0F7C73001E1A8ED1FACC25A72B6796
+16499:CDE66F33DB1EA136215C6CBED178C21666B
+16754:CDD4BF4E7A544D18E5AD4C93B1903EC6B7D
+16776:9471973ECBBFA373D8DA9170D8B5683BCCA
+16782:C4FDE9C19FABE00C1836CFEF0360FD51081
+167D7:E1C0CA7817F1EF30C69015F7DD710FDBBCB
+16891:287EDA9A08E7787AB9C09D9B837302EDE52
+168DB:F97F50E0A2B78CB428F80472ADEBEEA1C6B
+16D4D:CDA09CE23AE216017C390715DAB759A8416
+16DFF:B7F08238DA14AF6DC3F76D54B543CA50050
+17145:E7EF137A86307F95FE31AF6FCD19A737C9F
+171CB:E7E0C05248D3DF92A4862F5E3702B8C740E
+17305:A2F2AED9D58C73FB12AD27831799DE28B90
+1735E:47911B8FCD71DA220F04670B1F476630B72
+17614:850F4F7D23D0FA961779D48332550B58C0C
+17994:0664680BF4BFB1572384457681540F11D1A
+179E1:3144CA36DB904F242D1520275D62F79CFC7
+179EE:36B57EAF03427383A3C990A0A38C78B41DC
+17B9E:1C64588C7FA6419B4D29DC1F4426279BA01
+17C28:3446D32F61AB8F7BB0CB7AA4517C1BBD54F
+17C64:76E25317280D79EF31BCB76815C4647DCCA
+17CB6:8FB9DA0C0937CD7E12AD9109EB3E2DA7CD8
+17DEA:7E49283FF0A4288B90EB914ED31CE3F08E2
+17E7A:A702EEDF4C7938D041B7BCBE45B451858DD
+18008:ABBBE6A71276FD13F81F69A13EB624D2059
+1800C:1A172518EBD2552219A4993F965468EEC1B
+18056:44460553540D4BE1152DC1347A13182189D
+180E4:E63EE81054831F12A6EBA22E907D817E472
+180F0:969DB3573C59DB450222E2D146F0A6EBAD1
+18124:C4C275CF0705763861FD01F4C07EC2C32D8
+18167:C9607374D18D478132D8980382F6395C4B7
+182E0:B9E7E77CFCD34EB55867D22C7BF774E9414
+183B1:A1B10640465BBADF6FBBF643A881F4DB02D
+183C7:7EF3A9BE8B531FFD1443A075E305191AD13
+183E3:FCD89C2B9A4B11D6A85347F280E26906FCE
+18435:0BDD77D9C89F3A3B9AF1F615447B5F7785D
+18558:AD71EBA629D61519034C1EE35EC5114C801
+185D1:57675352FAAFEAA5B0AFC455EA0E70D9104
+18612:CF09C8E26CBAE6976336E597652DD2A205D
+18858:605FBF56D4D235CBA7A95A2B41384AB8F08
+18869:34A665E0FBCB25F126492802636734CDE4E
+188C6:E7B7BBEA62AD8173ECD886B5BAB042647FF
+18907:EA23ADD087AB90BC60AB41314E76F13A95D
+189D2:B4D61D6C47F31A89EF5D008C201199EF899
+18A05:3250269CF13B408AE5944AA2903B013D9C8
+18A13:A41C99BA0208631F548DC7D190E5D691704
+18BFC:B298472A2D56D6F578CFE7FE062D3929E15
+18C28:604DD31094A8D69DAE60F1BCD347F1AFC5A
+18C4F:FA41A30E90FBA333BC28A78EAB4BA6810FA
+18D0D:1315C0B32F1A3622E2452E37A1B09C076FC
+18DC4:028BCDAF196732A52400D8E8ADAFE97A196
+18E3E:3C5E8778CF7DB1FC6DC7C4E31C72683682A
+18E83:8C22920F50007D1FBC81FB542AD91DF5D71
+1900D:77B82BA5F7FA5646218B2E32D61BBD325FB
+191CC:A9A9C246040BC76373EDDBCA94C3B772761
+19369:EF584E2AC33C5CB8872A9D30B68BD2E2549
+19485:E369C691FA8ECE1FABC8A6CEABFB5666B79
+19495:55FA6168B281E91B9363AC378916C54EBB3
+19628:8EAA5EA8A6CFD794CBB9568678432B981C9
+196F6:FE311ACD5D808410419E4FBC04DD35CBFA0
+1977D:BF873C2472D1EE9D1D204AEACD9DEBCE001
+19844:5C238355FAD7996D0ECB91F19E1E0ABB1CB
+198ED:1BCFB5AFB415293E1B5600945B1849DA346
+19936:22B35ED43DFBD0F8E17BB6A6E0EC93602E2
+1999E:4893F732BA38B948DBE8D34ED48CD54F058
+19A6A:E5B71700367FDFFB0F41265B6452C4E1EFB
+19A9C:FA02EEF661F6537386381A68F0958A98913
+19B05:6140116019A2AD0526359222B3202AFE9A0
+19C5C:CD36A76AF87D2A172BBE8CDA52B9EB41BF2
+19C9B:EE43253BAB3EA68B1E0660DC0505D1F45C4
+19DEF:A00BD720A507257929B22E12395F1399875
+19F12:05A2CD75276AC64A8AAC93FAC949F0709B9
+19F39:9CBF57923D0B81284A41C2CF2E60E8E70C9
+1A0C8:EE36DF152800D2531C05FA2065F452B09B3
+1A10F:114846A7D93A6A3D1F3F025754A923115CD
+1A129:C534A5E932FEA1A6CD78FEAA8F212E165DA
+1A186:B2D0F57F26F466C7FE36443DE62EBBE1579
+1A3CF:F3017F32D057CB1939A3926D2EA1FE3769F
+1A4A0:5823CB85AF3E33393E8F6118E03554B92E7
+1A4FC:97E094151881AD13C058F19B64F5BDDC2C6
+1A782:6F79DF74D624AB90747A3DD8F1D9C6189D2
+1A841:AEECCB03B00AAE9B407C63014D7600650A0
+1A856:5A9DC72048BA03B4156BE3E569F22771F23
+1AA08:ED0D82D0261837D70DFD1D789BCBEBC05E6
+1AA25:EAD3880825480B6C0197552D90EB5D48D23
+1AAFF:3342C824D7187F278EF83DC2E4C1B76612C
+1AC8E:5FFF919F931D6BFE95437400A503872DC66
+1AEE0:642C8C8122E220361B8914998C48AFC2390
+1AF37:1DF800D25FD1CEC959A0697BD4B9E29A703
+1AFD4:DD481A068E23E80E97B108B7C2B35469209
+1B028:1EEFE1BB88E9A85CE8F1F2F0C7FA871495B
+1B08C:92BE66784B8700C100B76639BF340617CC1
+1B128:48AD00B66579765232D0538719DF44FB752
+1B1C3:4D33F8E9588AD1CE4CD382C294364D0BCB0
+1B2D8:79ED29F9FFFB8F3440177FA12A4DBD63896
+1B3B9:F7AD11DDED3A68154659AC5E78B08C134D8
+1B468:BB9A353D615DB623EA6D2390A1B7CB6257E
+1B70A:D4BB4A5DAF559C362199AEA119C98B68D9E
+1B86F:86C883BEC429D2321A4E4CDFEA8E6915895
+1BA33:206BBFAA6600FA3A54136E6935C2DA45202
+1BBA0:86040E9071EFD98E303EA4758B1D91F05B5
+1BC09:0493FBC0A4557A0E428E3E62B17933D7AF8
+1BCCB:507D53B09AD3081C3923C04894CAD298214
+1BD46:B4005811D701EE0DB9B39B558BFF8B35201
+1BD79:603BD242FF9CB5C3D14836845D46E4122F4
+1BE2B:539CCCB752C8A7D88572591A1EA342CBC22
+1C1BF:884AD3F1321278891865B5088CA0F3177B2
+1C1E2:066C08286501701C31DBE32AB50D1861766
+1C1E5:48837C800E856BC3180A6A662144C1E82B8
+1C483:A2AC54504FDFD77AE45A77C86BCE39189D6
+1C53E:D2B80B2E6F0D5253AEA4208209DF3B5BF50
+1C6D2:4DF5A5A13B057A0F5E95E9FEE40480A9AA5
+1C7CB:BDCAA8527E90EDC7AB0047EB4198150C86D
+1C834:156808ACA746DEABFFE15432FD81163CD1F
+1C905:9170910835368500990479A5CF828444D34
+1C9E4:D0D9B5045F69AB72E9FA07AC5AB0B497260
+1CB5B:D5A9E45420321F44C72DA5D90D7F0432FFB
+1CC05:1E212135BC5C67805CD94CBE76AA2465AE2
+1CC27:0A86EE0C81E2A55570D773EBB5ACF649F67
+1CDF5:D93825316BA28A6F9C2A20D9AA117CBD1A4
+1CE76:2B83EFB342651FA87EC68407E1FF119E61F
+1D080:12C6370C5BBDEFBEBCDFAC5BC86FB4DC442
+1D0E7:3FF2ABF31D588391C1D523620175BB58287
+1D2D7:60A86AD5CA20ED46CBF7E1A7428F59B628C
+1D2E8:342946B29526CCC993D4EE5F27A70C9F1E7
+1D362:FC782B9B5544D022C919FF216CE3282D154
+1D4FC:599676D53885A8CFF224E7A95D6FB54DBDB
+1D57F:ADCF9D3BDBB2CC1B46FC4C10B588F60D91C
+1D5E2:23AF8CDC90BF0A112E5D69B3771D665D456
+1D6DA:91A4A48B990026D4484777949930654CF9B
+1D806:47F28F57D028F1F60D117BB92733D7DE36E
+1D81B:5F6815BF0DA9EA6D3EB45B7D82FACE79775
+1D96E:4206BEA782AC246C56F5A96FF8A1C6A06CF
+1DB97:6637EB9B082480A8478770892789A163400
+1DBED:C1ACF932460469C5A832C836564466A89EE
+1DC04:3BB8EB5646851FF808477BB5D3573739F1C
+1DC80:FA9AA448DB8548EB03A3962CB122CB28757
+1DD1A:C5ACE8EB0103D7B43FE18B333E252D4F3FD
+1DDFD:3D41C0A8D6D8125E928F3F1400CC2B1E907
+1E052:7882BE2E225B9A59FBF989CB3D68384FE63
+1E365:F7FB15D292E971D01D201602F6BC15EB1EF
+1E377:A41311EFA24C1F994065C8EBCEDC9FFD85A
+1E41C:981637834CAEC149B4D33F7F8566076DDFA
+1E4C5:C49AD1696B6EAAA8170965D75CDF2ACFBB9
+1E5FA:75167DE66D119CA333F8F872625FFBC5B30
+1E690:CA3BEF69ADFA159A4C6F6AE1151C2D80E92
+1E6BB:442C013C58B3697148C714BCA55D3149CF5
+1E6C6:CEC545FB1282476A7456A22CDE189F38CD0
+1EBC1:6E108B7AFD95C9CD6E32EF04924E65292B1
+1EBFB:E3E5FC9110D156709A981470F6E73BB5CEF
+1ECD7:6C2B070DDC45F569486B0CBAC836AC5A78B
+1ED2C:68EFF9E0D6559EAA1726E4150D63A8D042B
+1EDA2:3758BE9E36E5E0D2A6A87DE584AACA0193F
+1EDAB:3C25A852FDF601720CB0D533C3CA4374779
+1EE57:9DD0144E2CDE8C8F53D3784183812A6B662
+1EE77:60A3190C95641442F2BE0EF7774E139FB1F
+1EF16:40C1684BB3B63815425F6BCCC29B52F5200
+1EF41:AF4175FE164BF14A260FDF226218961C106
+1F0C6:993E1B30879F84BB21CB0D2E67301475A2D
+1F15D:35B74CE7E69B956D6014D34F5B45A0F743A
+1F17C:35981EFB69B646D1B1D9ABA77EC644D4D9D
+1F1D3:B429D1790E26061A0F72FE20A38B7D266A1
+1F3D7:50A61178D62919911E3BA1239201AFC8B04
+1F4D5:9875B54758E2972A71FC0A33120F3A0CF05
+1F552:3A8F535289B3401B29958D01B2966ED61D2
+1F6CC:D2BE75F1CC94A22A773EEA8F8AEB5C68217
+1F82C:942BEFDA29B6ED487A51DA199F78FCE7F05
+1F8A7:EDD15A580D7D2792EA640590510D0C7924B
+1F8AC:10F23C5B5BC1167BDA84B833E5C057A77D2
+1F901:9BCFCE11DBBA581078021BF4D61CA06DC84
+1F914:C761C052BF932D1860325904FF6DA1D24F4
+1FA19:CD7F6F2DB79EA9EF2F07FE467ABE42939BC
+1FADF:B22B9FE1CECF3169407284621A623681ADF
+1FC85:4110E5532480000542834F453DE31936C2F
+1FCCD:EA6369F12E76A2379CA500845A13CD1291A
+1FD1B:4516473C36C8FB30BBF7C4490FC20419A10
+1FD5D:7B0317B7B429B46CD09DB472C778F17CED7
+1FDD0:7FE3DED93C7CCCE1601DCCB2FF0A21739D1
+1FFF8:C7BE7829FB657F9CDF5D55334999C9DD6A3
+2001A:1D6F4E973BF0227DFD922D73875360B3834
+201B8:F20DD1695D7D46E80A23F0487D1CB91E255
+20257:AB9F1A51B874AF29BE08FF16FA03BEF607F
+20299:8CDBC0B9F6BBBA14CFDF1C9B0C667810FF5
+202A4:C3A45F7ABF027E835EEC7752FCA023FA54D
+202B7:4B3C7223D7DB1EFD6166932725278558171
+203F1:24919042D80285903AB318EF5DB3793CE57
+2041A:83384320E198ADEA260DAF52DE1584CB98D
+20453:7D697B535C3456CBCC6C6AB917219834D67
+2056C:3F3CC641E006CE7406661B3938BCC0703B2
+20646:E51D0489F449EAFB3858260F1DB7FF6EE0F
+20660:E0A82345F4471778FD181F4E332119351B1
+20796:F8E97FAEFB50CEDBB0167FB907BA99E2848
+207C1:972B49B936BB8025AF9A0FC3598A0F25BE6
+2093A:B1AC94CF2B49639360C6E1088F42C2073DA
+20A99:CD399ADC3EA31F408DBAD1CC0FDD36E103C
+20B63:78D96C3656E988219838E4FA668AD3BB0A2
+20BEE:D61F5D64368B9ABA66E91A1D2A090A0D4AE
+20C94:FFC0942A152176FC5A25DA73B6CF1B0261F
+20D25:3779A917A99F0FC278C478A10D748945850
+20DF5:08F35BD056FB810E65D83CFDE8FCBA2146C
+20EAB:E5D64B0E216796E834F52D61FD0B70332FC
+20FA9:E67BB1D94FCF4884159C3ABDA6699EFD54C
+20FD7:18BE57AB37207FE251647DAC7036212D1F5
+21010:DE43F356A98FEB77754C1D8EC3E67F1AE6B
+21052:C0EB692AC7759403D6886E168C5D1B2D28C
+21298:DF8A3277357EE55B01DF9530B535CF08EC1
+212F9:C8267F923FBE313CBCABDF3AEE3C7E07309
+21357:44F2B0B89A2610CD8E65D680D51BDC9343C
+213FC:9103CA0FA20D12A69C457EB8AA35E369182
+2160C:D38542783BD0B615E4DCCE741C4FDB5B95A
+216F1:FBD17A08D3E01663352E8A6D50B74EB643C
+21716:1E9BA321E649537A430D7E27FAFB9801EE5
+2182E:15B847EAD318E78BC5CB65970D95C558B9C
+21839:E47192EFA83AEE3414039B962FACF6CDD67
+2196F:7EE075A656A265774CDA948DEB717632745
+219B9:C58C2C296D01D36136E18661812BBC4F6A8
+21AD1:EA473A1FBFBB4F5A192F4FAAF9637143C6F
+21B7C:280D13AA4B59E583029F70136DEE7441F6A
+21C1B:EDE89E3C7E49138654ED2E24046DEF9946F
+21C35:7D6DD4A0D91E7F0F595B9941CC72C2B3F20
+21DB3:454D5F7408A9941CD5BAF4B3F01B2CE5A9F
+21DE6:5249A6C9A5EB57ED4485710747FC9C7469D
+21F32:D892D090B2EC7B6984F8A2F3C5999C9C7A6
+2225B:8FD3B0AACECC8F5E7C541D76F5EE4128601
+2225D:4D6CE9ECD79F265A89BB6620FA39A4D4492
+222A3:6AAB0721088EB7EA9B8CC459EE41C3F92E3
+22396:915ADE41417F5B5D05E76CE71B2A24AC4BE
+2243E:8BC48F4CB895845BEDD606153834A6462B2
+2245F:63EC044E88ED36A905D911C2708C88A4D32
+224DF:A13795234063140F1C8ADBC6CD332A1E852
+2259B:DE28392B8F8382B4D75DA23CFCA4250CAF9
+22665:F9CD19CC9946CF921623D4DCAB834B221E4
+2267E:92C46C2AB718AB6F33ECAEA26EEA987EAC6
+226A7:2621FDD02349CC7C18E97EF074B7A1A0308
+226C5:895228EBA460F38617C3747C9B0B5E138B1
+2276F:9F836BDBE8371A49D945AE98F21153B73B3
+2285F:929D38932996BD99687EBBD732EA3B18AED
+228F0:1D58D028C85482A4D0B3A102B26E1218376
+22942:B7C5CDF7813BA3C1EA82FF3A2B406486271
+22AC6:3087327912AEEFD98D64932BBA239EB7AA7
+22ADB:6CC53027CF8CF42F614C3E4662A6A4F5B85
+22D23:EFA4A0FD0F8334B7EFD94105BBF4E03EBC9
+22EBB:DEF9118D3BD43BF5D678D3B2E027338D711
+23013:107D6E0DA6E1772C84A388A024F7462D1EA
+23057:E78166E9000EB2FE24193346B9F46E4F7C5
+231C9:C262833F0AB5721C67B49262ABA4543983E
+231CD:19DB2E5E444A7ECA66054D00D4332E268FA
+232BA:BB0952422462C6AE902BA4E7A7FD1B35CC7
+23329:12EAC8ECC06DC92BFD396F3E2251A5D3441
+234D3:309B86C261ABA8DB1F878CA00EF57CF0F6C
+2352A:22B9F352BD6116F3A24ADE7AF373AD079FA
+23584:2F4E1F1D43465B8D36FDEE13728B8D7C2C0
+237DF:A0A21C8E17A7276CF161EEF7E0FBA067C47
+23869:B733FCD6665832F65258AC650E6EC89A4A7
+2394E:EAC9FC3DB56189A894E221220B6089E78D3
+2397B:9336960B91D4DE7B4B832A0D431D2A9FDA6
+23C8B:8113B6D894830545F650751DD2BEFFE150D
+23D6C:3141690DD9284B0A2649DC21362097BDD31
+23D71:8EC53BC45F357EF6D30594704D74AA7DFC2
+23ED3:CBB89FB94DBBD36D375DAAEDE422F217FE7
+23F29:16E01209D6282F226BE9677AFFAEC44A8D6
+23F6F:7E389010222D6BD70DA4FBFCB6E8B10A3BD
+24065:ABE1B9ECCE94D52846C1DD609AA4D64543A
+2428D:D91606633BE27B63B734ECE86F88CFB7B52
+243F4:A1C53E7A8FC7331933025842EE64A8F6DD5
+243F5:196FA067F8C6B0F0B2C6FD933D242FA0535
+244A7:58DDDB261420114F51425004C9B1AAE4CEB
+244BC:4AEFD6C2C4913B583386638B3204AADE189
+2451F:04D62956CF5E910CCE1F0E17D29E315D879
+24534:3F7347D1D18769FB07277FE0F7EAC9CEDE2
+24615:D93D230FFAC17943498C1B4B5D6B8AF0E06
+2462A:2B6AC5F1D7527D0B83FC2F7EA6042C255AA
+24851:0136410798C784BA702DF249756AD286BE4
+24890:2131A732628AEF6E2872827DB10DF7C07BF
+248F8:6E0F083DEEEFE3D5F1D3896149E1B5AD7F3
+24A29:65CDCF376E6948231429DD691581265FE9D
+24A33:A15C46632148E069F5A4ED6E4B77DBF23E1
+24A50:0E738413E25B7E492856519A5043A74A6E8
+24B7D:EAC13FD0AF54A46D815CFF073CEE8640EBD
+24ED0:667978807C4707D01528E805F26980D03F6
+24F15:72A940BAF09CD957A18CACCC4FBE33518C3
+25024:83D832CD812CB8342E1E9630C3FC9B01539
+25061:478BB94916930FA6984E2A0D4FACA64BEEE
+250B6:BEFBCA15727C5B18F074C79D5BD87DA244C
+250BD:370FCDDCB9B0F4210377F6681440CBE3486
+250E7:7F12A5AB6972A0895D290C4792F0A326EA8
+251BD:E4F72142F7D44F495900FD60AA1FFF3FBA6
+25389:3622DC44DE03E0C11162B65D92F39DEBC08
+2539D:3DF1FCFA43CD1D5F5D55901F6718A10C595
+25590:BFDE8809B275D3447C3F18B45DF804A44FE
+256AC:D7F3F9D26EE4ACEEAF4E4C5AA4802701CA0
+25769:6C131BE052B14D47A8C5442E0FB6324AFC1
+2581B:D2CE3583DC5927F48B98642FD5AD252D943
+25821:409CA02C93B79222114DB29BA3362B44FFB
+2583F:B4A7FF77DAA2AE761CC2E4D5CF7C3616CD3
+25846:5759831222D475216E3266E71E3567310DD
+258F5:032CC3E64CBF9F399B033F9C0B5C212A16A
+25922:43C1246C50520B707782C7F0B4A3652066B
+259ED:4ABD1D82776EC5F160E8A3265248751C6A8
+25AFF:7F4B1BB747833F5175789A1998B31CA4ED4
+25C0A:D35CDA8CB5FEF4EFF2A162B9891A512B49B
+25E16:20D4B949E9EF672156F17C27B3709BA33AA
+25E94:B2FBD0AE254138FDEE730EC2714D25F39C9
+261EB:8E4B9BC3019E1DEDC82D40E929093A461F2
+261F5:95886C7C6D73149888B8ABD460AAF51A7D5
+2625C:5EC982EA29B03EA1117E2CF62622E8021E9
+263D0:0820F9F5E0ACC0274DA747E0A9B6868145E
+264AA:1A7627BE26D26506E7EAA53BEFFCB6144A9
+264AE:B4A753EED9638FCE0EE61EEC7BAB9CB2C52
+2657A:333A01BA32DC017F52084BE50A110FFBCF0
+2672E:F3DB357558D724E2F156E3E9CE1C1DE4888
+267C2:F5C46997698CA1F8F2889536A658D337484
+26952:954EB652C3E797CF74B8E7B29BC9F447212
+269A0:3F47F0550E98664C4A542EA78A23B305A82
+26A54:D7A3FB0B699C285BA437E69540178A0EDFB
+26C7E:FD8E5F5FC7655E9C92C11F4219B78EE4B5E
+26C8C:79196A9634E761A5224CA90024A6FB7B44A
+26D9C:28D789C254F71EA99A3463B99A7CCC2F4FA
+26F3C:D230E935F8BEF3596727F75448CB446120B
+26F58:0AE0EFC69079ED9A6BEEA0E30288AD90119
+2705C:9C25D49204579858E07840BE96FC55E2701
+2736F:AB291F04E69B62D490C3C09361F5B82461A
+273A0:C7BD3C679BA9A6F5D99078E36E85D02B952
+273C0:802A3643F0336968A6B118FBDACDDAD0287
+27498:2CF42E6CF400CBF58C5EE85449FFB324AB1
+274C4:CB34B968CA98805D2B4C3B9132F26CEEB8D
+275DC:9C6CACA5FD255B1BD1ECE497743C0927426
+27720:A5D939A2AB94DCE10265BD06A63C7337EC1
+2779A:4BEF10578650E2B7AD639842151574A39E5
+2783B:3147B851415898158FCD8F1D6F3E29E77AC
+278D6:E659FA3F3B460A0BD322102B8076FD2E908
+27935:F2A8CCB14BCCE8F49BF03F31428F60D161F
+2793B:64AAB71277189072D49738246D52CB58901
+27983:EC51B7F5AFAD0D72B904639CEB98A266869
+27D77:D1B50E867BB2B53CC3EFF54596467B23920
+27E72:DBA56CBC8AD7DC2FD00F42B2D369C44A02E
+27F3D:F25A4D98B69B3AA24F98CCEF399520C15C1
+2802D:D5078B8C3D59F2AA9A1567B0B221ED40EC7
+281F2:CFD8BA1A80C5D878003F3E0233C78424382
+28342:E8CC628B4366DB11A89CBDD07C4B7F7FB78
+28476:2CB4151B016102311AF00F6AB735EC50F33
+285CC:F96C1BE00B38B47B73E47C18B2F9246853B
+28772:8AC61B15BEB002DBEE6F353676E3B80DB2E
+288D3:BF1997AA9969BFC8FCEAF8A6A48432ED68F
+2891B:ACEEEF1652EE698294DA0E71BA78A2A4064
+289A7:0B8F9DFCE5DD618F95CD1C6BC22C11B02BF
+28A38:E672DE62DE1169E9052C8F52CE421103AF0
+28B2B:66E14D189994BC495A3CB663DAF0B92761C
+28C07:D76D9E0D41314E5A7A243E0C721CFE4AAFB
+28C4C:229A7356BEB60161DFDA4D71F899B420550
+28CE8:1DFD89ED3D67F05BEA396C5D01D0849F74A
+28E97:351FFE3E72CD9991DFB34B2EDE3E0E5106F
+28F7F:DE4C0AE8BADC391B5C71819FF59F8444724
+28FF8:EDFD15F9F0F81EB6512E73457357014325D
+2901A:34974AB903BE63548DC966C065578A68B3C
+2940D:2B97C556B21AE3F057C3E3AC6B5BE04A60F
+2942C:A8605012DB754A661870524716FF29CE0E9
+294F5:6409154C00000388EF929A66A483EB6871C
+29514:21EF933491CA7498B7CFFFD7C296893D36A
+2966A:5D8B9F912E5EBB1AD3BB2FB3224781F4EBB
+29756:520B3612C0931DB9924E6416154DEA95B81
+29935:3CEB1DFD8C002AD896BAEF5D0ADE4DCAE4D
+29A9D:5752ACE0E0C43AC5A5281DEFE4AD8897E5E
+29C11:DDAE10E4CC3351A5D0F9038410F32D338D1
+29DCC:C87BCC62F0B26BD938B9399C9282611B177
+29DEF:BAB9929A94FD5A06F193DCB8BA716727A66
+29EB7:012226B190B682720A85F70662475A5D8DD
+29F71:6260A7733EB00CD1083B6E0D754C8D01FFC
+2A0B6:FCBA0773BEF83302E140FC653E5FD52F89F
+2A17D:4EB42E1A87A8E8F63C9A101815C70593570
+2A23E:20AC6C320FF53DF88236F73FAE9D393E4F2
+2A3D5:AEBAB352B9CCFFB0E2AF6A78A45F16061BC
+2A494:1C7C24121246A53F121864BFB56FC2EFD3C
+2A497:3EAF5EAA199EE05673C65F1D5D2FE7AB833
+2A5A6:8316F0BA0D8C814886ED031B57FC91D0A1B
+2A705:7F8098DECF0D1FFA01D8D00A2BFA38FDC1D
+2A932:655A2DF5E3F0111C4B2E0F622E155A4D5C1
+2A9E6:1B075892E30DCD21B1DEDF7791238C676CA
+2A9F6:8E49CE2024849BE5FF056DF72B763029E5E
+2AA70:7F9164BE2C52C1A5B6383CBA361E5F43453
+2AD1E:A09163185F96D9366B5B44B16186A423E41
+2AE66:EEF163339B7AB30DCEFFF006D2BEA6649B1
+2AE8B:36D3ABB9F7E7A601E49D260C58BB21BCA75
+2B06B:F52ACE367C6BA5E6551AF08B44685A7EDBE
+2B0C0:B56695893412BC8DA6FB269066C6002D700
+2B299:22BE5B1B0756EF50F6FDF39EF6B945B1D04
+2B33F:BEAFF0E76C019F00F98CA10454B9EDF1DCF
+2B41B:D1AD0648AE4ABCEFA003F2CE68D3C5C11F4
+2B59F:E1D11CF04BB15D3848CD4317EEBE7DD7814
+2B5BF:08902A9979F63AC333C4A658F8D66391EFA
+2B681:C0A24BAFF8899D7163CC7F805C75E1F44E4
+2B6D4:7B884344FF0859A373915C3F3EC4EF36160
+2B6DB:D7700A201D4351C4824CAFDEBB2A13EDCB0
+2B791:F512C4F94B43153DA78FD70066BEE61D27B
+2B7A5:B1B7B2FC3F86510DFB2ED220804444C1F97
+2B7C2:52DBD5FA325B4530F5FC79C7E7F46A15507
+2B847:37ABA547592CDC6573441293D2940D2021F
+2B8D0:C90AFA526F50F5705F84F6A37F00C289B3F
+2B9EC:EB7A86A9F577EF80586C5C1D7FDE9FF493D
+2BA2D:9DD6F0F81D56EE236E49009AE0A3B0583B6
+2BADB:0154D9FB30AFEA807284CC40DCE2A8FAF36
+2BB2E:6E4F9C62D746413A9710DE00A7046E3DD5B
+2BBEA:C1D2352F34E83FADE5B19BA4F5F44A3817B
+2BC34:9D2128EDD220AA3073033E0B07BD9EB8EDC
+2BD61:306640A3048BFC7ABBC5B8C6DF4117D6B80
+2BD9B:489BA558EDF550F3D571ED900215F79405C
+2BDAB:C6A80E33959FEAB39FF58ED54330F70BC57
+2BE5C:6D2423B931A603B52E8BA42A1D2BE795A5A
+2C1C2:926BC9D8F7C8E26D932FCF3154A15CA2793
+2C312:A712140D725EFCF28F5835BA0C9349E5271
+2C40F:CC8335ADD7D8465F253A8B1D6592DEFE1AD
+2C490:B8E68B92E79CE344C25F3D87FC297D12346
+2C4A8:21222B0C5685D516713E1ABA046F7149499
+2C4C3:891E2AC6958E9810A1E49C6705784FBFA1A
+2C4C7:79F675F8F1B4314897A115B3303118818BB
+2C5D7:12B6BAC35AC6FA8DA594CC9EB1C4DF78C58
+2C6A0:B9661ECA1FCD2F2AD5970488122A392A161
+2C777:E932671619CFC04CCDC325D5C5CF7845B03
+2C782:832F0980E2CBCF743ED2C9259AC89EFFE01
+2C7C5:F3675A1F557B24FE89C1BE522E6C34DC1A9
+2C831:22766D200EEF172FCB9843D7215F3DCFFA8
+2C8A4:9C52BC87A644099960EDF259EFD9A6D1177
+2CA73:B8FE346267510E8FB9AC317CE62B5F15B2C
+2CA97:2AB24248B02D720B19A0B0634E8E8AAB3C4
+2CAD8:9EDCEC53A1230C62F77014AB1EC0B5F2827
+2CB81:691E1E102E02EA3FBF7B44A461C8C0E81DD
+2CBC4:3DAF355D450BC49E26F0F51D724C27F2B01
+2CC67:2F1D84D3AB80DEBDAE2BE0DE59AA53E2F16
+2CD38:DADA29A3C01EF71B70B24289D5F4DF2B7D1
+2CDBF:AB3E9A9590B961D9A6D81E7DF25D3DA69C0
+2CED5:33E7A5076B742ABD2CB2FDE3DDA6E38F3B7
+2CFB9:1900AAC3012F9E25840CAB38B6100DBB651
+2CFBC:9B7302272F8B195A22C677D1FBA84C53A48
+2D0DA:ECD752BF9DD0E459FA1A71CEA3856765B17
+2D18A:E95541EBA9EFEDCB6AD50F613342BAF56F6
+2D27B:62C597EC858F6E7B54E7E58525E6A95E6D8
+2D3E9:6341ECD14EFF5B450AFFCE1424E9CFBEBBF
+2D62E:FFF3E3356EDC3780C41036A762834261263
+2D69A:2B835978D92D969F2CEB62BB59383F88F1E
+2D885:F0C978DFBFCF0BB415A17438808859C8694
+2D8AA:44BAD6D3C08A6DD1558A09BCAD6ED321638
+2D903:B4571AA26DFF5569F025CCCB822B1CC07A0
+2D9B7:A3CF465B0DBE74D992A8AE1443496C733B7
+2DA87:21C6010B87CFEF8B82BB43E11ED1152D424
+2DA9D:47052E3C19DDC4767D28876E98F3A3618AF
+2DB7A:4BE659AE534CBE089A2BB2936EB452B6AB8
+2DC50:53699A351121BF839C446BD4A878DDA5735
+2DD58:33D0215534EAD3070C295169F70A8C25974
+2DEB7:EAB48A5164C0BA313682DBBF3BCA60FD563
+2E2B6:533A81BC15430CF65DE46DC097EEB5BA70C
+2E2F0:D6AF0C02F993C7D928CB8C752BC70159BC7
+2E37D:6CEAD3C1AC4FFDCDBB97DA3FD4DDDF515CE
+2E4C0:F76A27255D01A397572265E56C9D9ADE9BD
+2E5BE:C5EF925C536B6B99E77CE72CAA99C09E85A
+2E5EF:1C0345F1C25280B0F2F9E03622DA1AD85A9
+2E62F:8E74F1741CEC86EDA9597765BBE83679B1C
+2E735:DA38847F768856CBD77881EDB67CA500D9C
+2E7A1:AE421D688F6948A9CE39D41F5284DFAD761
+2E8FB:EAB0E04B4F782D901D5DF334F6E6C7491C6
+2E99F:7D56E16FC4204B4AE72C78F40FB4645C822,8EB1E1C26D3F84602558329771057685B10
+2EA14:2C2F35A4923C42ABDBB4C22D2038C260A79
+2EA62:01A068C5FA0EEA5D81A3863321A87F8D533
+2EA8F:3F0F9918B966537A51B855C3A56E55E5BF4
+2EC10:E4F7CD2159E7EA65D2454F68287ECF81251
+2EE63:5507C0330F060681D1780C25A91F7D31095
+2EE70:7516B5D94773485288331CC342A69376160
+2EEB5:F03E334B11370B4234AF3614588201B8690
+2EFC6:1D149DFC33CA6018C7F893ACE63925DD1EC
+2F029:A902A7C5E87DED3812D945587D5BD28A2AE
+2F03E:33D2A285820C710879D90D460527D2845EC
+2F060:9FB5EEEC340ADE82D1B1B97FBB668267FD5
+2F083:81C88697FD0A0EFC9C46B7906947C56D5EE
+2F0EE:D81F94EAC22F3EC1473DAB42B0A02A80723
+2F129:C53EB52E4444B57477746242542F5D12C7A
+2F134:6DE68DF07B29589A94CED23E28EC49911CF
+2F1FB:1B68E48047BED845ABE5C67D5D8371EA153,B142FB717893D8E86D34E8487B9878857C4
+2F24C:C57952BA396CB162D5931D9E510D9BB5EE0
+2F24F:AB9EB5D32EB8A59E30D10F73A17B787E809
+2F2BB:917A7B0317ED404511AFA79514A2133DFD8
+2F376:A82B43744E010FB6C02AB826EEAACD19E1B
+2F4C5:CE01F30865D02B2CC2B60D50B0BC5A1EE75
+2F4D8:9C8EBE407FD9CA9B13E0F18B89D8EFFD19E
+2F5F8:551F24F40FA5539927EBB12B42A051A2D48
+2F77A:250B04E7C390270402FB42033102B28B071
+2F81A:22DE0AF5E9EAB19326E19693F86CE612518
+2FB5E:13419FC89246865E7A324F476EC624E8740
+2FBE9:A242844201F0331DE3C2839D838374CCF91
+2FC10:E2333F84F9ACE0AEFECE3D42E33B4E2ACE1
+2FCF0:DB3FBBB087EBB83A5330F1FA9AD772C5DB1
+2FEA0:31E65EC10C15603BE3C0DC442A6B231C25C
+2FEAC:F6C0F959D80AF1D378AC097AC57ECD823C2
+2FF2F:952AFE853A3191339BBB6E3253857061EF3
+2FFB2:E8A1C2232051F17E514D61184965481F495
+3013F:D0A2253803C81771E403D43A61B56B057B6
+30163:745AACC4ADEA4FC6EEDFDF4F647ACC1481F
+3018B:B52B3A12531A5F98E918578F45B49ACB955
+301B7:7E788BF9A576C1A9B7AB443DAC065217144
+3024A:3691D69922231B1BD2D7E6F100E9F45B0BA
+3032B:26ED6840A43F7AD6B757321E858F42A151A
+30350:9E0FD48CD460CE98679379A1A6CD1D807CF
+3047E:AE181744016E8F5370DEB89C366C9DB2897
+304C8:EA5FB0A31CFB3B139FA66E21FD6A0433F34
+30AA8:A5E632CF10D5C83A5FDDAEDE5ECB968ED52
+30B22:269AD654B7AE40C03FEF61962CB7F3EF446
+30E60:ED28E5669E6201A7E30686CD479FF2A9D5F
+30E7F:1D987B485173514D581099AEB9815C54FD7
+31255:0C4F651D27B096078549ACC130E5F19C218
+3127A:CFEB1ECFAC092C49A5112259CC7AA05826F
+312B7:F8587351B3F6FA4EF42733B81061B34AE21
+313AF:A5189C150B7B0F3E6D39E0FA223F88EC42B
+3148B:8ABE39C7EDB0208AC74FB4143C756C67B4F
+314D6:F32746C14397F36A48438AF76050A30CF1D
+317F1:E761F2FAA8DA781A4762B9DCC2C5CAD209A
+3197B:05F6FC202ED080A0C34D7BD88B39495A265
+31992:B7BF70B93B8EBB618B8DBB8E4498BB982B1
+319FB:65DD3ED589DC2AB86D7F1BFCDAAB3EB6FCF
+31A9F:56DCC5E17747B59D3AC7C5A2E4F632A0C0E
+31AD3:00BDAE5E974505FE38472FE855853B79201
+31B44:5691EE9369E5031A03DECEC9EC6C3E5C665
+31C75:A80786F930597AC48C419E01B646144C114
+31C7F:D2E291EEEE7451AD31168F87183E31B4B9D
+31C9C:F69EE147EE4D1A89D3C90352463C44B9C5A
+31FC7:675F537164B7E4B17B35FB2DA5D6AE481D4
+32049:237E902E7B83821C9CADD598FA35B394B71
+320BC:A71FC381A4A025636043CA86E734E31CF8B
+3240B:A4D75993C506C36592D8B058E01FEFA5A13
+324A2:5BF7D239E84F6D9E0D877CB69A002651AAC
+32576:F4FEDC07F63020353AF6A8AAC66C4452C4C
+32660:1F52409727B2CE8F50677EFCA5766244AD5
+32715:6AB287C6AA52C8670E13163FC1BF660ADD4
+3287A:C1AFEABA5B2539248261785AF7E89F1BEAE
+329CB:8B6BA8C427BE7C09B298295C655415C7AC9
+32A44:ABB7A66E19EF716F60478E030165C233AEA
+32B26:A271530F105CBC35CB653110E1A49D019B6
+32B7D:E276F77769E68B90072219A78F0AB6EB4BB
+32C7C:5ECEF841624904B23C800A8437276672487
+32CA9:FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573
+32D17:A8C55EC5FABCCA0F7486B732250E03BDCFA
+32D3D:894B9CF4392B2DFCC7163C196B0253F8829
+32E08:30077DD025B31C1E3C8133DF05B4B0555F8
+330EC:58A64D8E66738865CC4FFDC6426F7D1A369
+3315D:CC284D8A746A7D6008B939B9B6C0B2CA8BC
+3315E:E4EEB7B0BDC928F87BD39426751A7946471
+33161:C5A218E8163BCD2A474CE9F4D2557C7081F
+331A2:29851CCB588DF0DC293BEA762A10DCDD967
+332AD:086941C4C3D7A125C295ABE801F83E59370
+3342B:502D4AEE582972E79FD43070BA4634D40DF
+3344C:70C901C0CEE0461246B722021F126A2FD7D
+334F2:CE84CCC5159347B5FE8582E9B23C1986A8F
+3351D:714DE3CCAAE48BFD9E0102FB615B508E991
+335EE:DB4A71DE2068C9EB7E0D422CB4AEC86A206
+3366F:2F39460751CE537145A436AA86218AE35EE
+33712:D62C7B46DBC49345B5C3E15F02871FF8EDA
+3374A:B9CC4136B87E71A3EFD7CFD3C0E832AB4F9
+337E4:FE45DE0CEFE12A9731978561527D87BC9C0
+3388C:865797C41FA4ADBA2E0019E18AA888E401C
+33A7E:9F66A8F1B298EF84B91903C5141601B65C4
+33BAB:4A16748B7FA19FDF7973571C6FD2CF6963D
+33BDE:3FB12311E27ECCAC3BEA2CD85C360813E84
+33BE6:323AB3A5BA63923565FBF614120EE58AC5A
+33CC9:5330822E4384935EC9CE8640C38F7AE83E3
+33DE9:D4711DD531847ADF1E3210E0709BDBA47C1
+33F3E:16CB521167BD1A91C93F3E7AAE179E3538B
+3409B:2B88E99F2E496261C0BD6341BCAAFE911CB
+3413B:E55942586BCBBD07BB578F5ED7747BE775E
+3416D:AD014E1516FDB2D9AD8C78AC86700C4FE36
+341AB:AF8135DE27CA425DA9C602DB4CFC0C9F2DB
+34241:4265B1D3804D6A6CCF0787BD672ED1D1CD8
+342C1:BC901800AC62CE39278E4FB0AD7DC645C46
+342DE:0B75E00D4CE3E8EB8BB18BCFD85C8547A6E
+3432B:2C3B5767D64E47AEEF82437EBB04576E4E1
+343E7:09C936449F53429BA82C29D6BB0957E64F7
+344D6:5427B73125BA181AF628942A81672D627B6
+34512:0426285FF8B1D43653A4D078170B4761F75
+3458B:DFC2CDC6572B526CB6933096FB8B446AD9D
+345A0:E57BFC644B0561215D865B062B9938F5C50
+345C6:1626B13BD1357DF4F288C640D93A90AC094
+3470C:ED74876D961666838FBCA623B09FA41143C
+34971:B8FB11CAEB1C1DCA94916912471FC143971
+349AC:842F8D7977EAA7348EE710F0A30F75798D6
+34A35:4F24B420ED71F6B31FD62CD04DC483ECC8E
+34A5D:76B7010E9BCF8AA9FB0EEE45F50485E1C0C
+34B8F:4600B9E75B3ABCBC4355D1CD739AC840878
+34BF4:584D5CD97020510179D4855B47AF42F6A71
+34C60:B46E86DF0B25057750788BA45B998DBF1F5
+34D2C:8A7260B82965F3A50ED61D623F1CDB3E21F
+34DB1:11169CC5E1A50E5A055B1691E4B8464407D
+34E71:1874E4F52562A00484C191C3F9D1BADD781
+34EC7:FB7CF53F45136C23C9212E493913315010D
+35185:28E0B41BE2E7F9EC66BF9D75C1A80360843
+3526F:607BCD4F51AD0BC05F814579A42C2C0BA57
+35351:199BB6245402E4831EE1A482092407DB338
+35529:670EBE14F75335398F458EB27E7C5A2F8AD
+35560:839817CEBF667592470491AE45CE7DA286E
+3559E:FC37C61A31AA9DA4F2E4ECD952192CD9DA0
+355E2:BA98B8B3ED4DD01A3C71548522848E68C66
+35675:E68F4B5AF7B995D9205AD0FC43842F16450
+3577D:93D050028200E6629F62859BF60166F469F
+35927:4C930D4FF2DADBD11BAACA65DDD0EC23E45
+35B95:B6DCFC4880C8B12B6DAF8BB5FB72AAF1077
+35C2B:461AF695EA1243B1DA8C52DDACD64E846E7
+35FAA:4278A19023D43359DD9616DFD4280B0BA71
+35FDE:AED92E8B2E809750FAD07CDC7FD58628C7B
+360A7:305B5E72711C5955352893F8446E4456249
+360AF:621823E04FC605064091A10FE9355F8BD19
+360E4:6F15F432AF83C77017177A759ABA8A58519
+361A9:FDAC99EF21C4019C60BCB1F36A8C654138C
+362C0:A0D12BD384DAE59BB14E1EEDD45082A7E07
+36316:05F64088503C46482C6560C9336C215B47B
+36335:288C6D5C2EC2534BFC134E94938FBEC1165
+3635E:19C41D9B6393A37736B699002860ABB949D
+363FD:CC2E20606AAB834CC99D0F2C3B9AE0AD6D2
+364A3:BAFE519B279D854473EF56FCA341BC0ABD0
+364DE:137C794276C5A582E7848CD1A7AD0D2E93A
+36621:88D503AF0CB9E352C202C4E7A1CF53005C8
+36749:51EC264A72168CB2D89A5F634E512F6629D
+36776:03405C62FADFBB2E01A9BA096899450AEC8
+36810:ED90AA5DE17CBC1B471B999EC6B53B7C602
+36860:2293FB238D5C261CBA16CD348FDC49C5E19
+368B8:DA09E3EFD0B3C68F67E54F5DFD4D3F91CD7
+368F9:76940775C710AEC525FE1E349F8A1FB9A39
+3697D:520C8450D9FAB314649791AB888C0481990
+36ABC:61C95B4B4F2BF7568BA4A62386176AF46A0
+36B32:5C5BDC4EC643A1B69588E1A98D6AAF70090
+36D18:58A98645F1C0BD60F19F72C87899A803926
+36DA4:6482340573194056BAC9A54CB3A7221E53B
+36DDB:A1E5E61F0DD4F638863C4EC2A2F8E3D4E1C
+36E22:93C61DE8AC407C3B80593EBF6883292BF3A
+36E61:8512A68721F032470BB0891ADEF3362CFA9
+36EE7:EC60D18CBA598AFFC7032730536DC3FF32A
+37019:4FF6E0F93A7432E16CC9BADD9427E8B4E13
+3708C:F23BF5BCD14A2383A4FB24C4AF1FB4FB352
+3709F:E6259AB48DDB4B3E0D720F0ED4004636398
+37166:D19437546891D23A2BA1D47E30A466F46CC
+37424:670501B3D4737F7E3569C98DE558F062725
+3755F:3F206953314CAB133719791D70C7C568127
+37619:FC13053F82B7CB7DA3D24CEB1598AB6D05C
+37654:41354E8FA0146C0764B2BB2923DB3FCF396
+3770F:CCB3FD17105FFCD3743AF563A6A7C375D4A
+378F6:CDFB9397422CC9B8D39C2D9E329A95230B8
+37BA2:0B326247042005FF7ADB106983E1717F91A
+37CC6:7C8A92F1EC22054790AA80174CA8B77BE9F
+37D15:81413FD3ED52458ACB8F554C68026AF1EC9
+37D1B:1DFEAD7DCAF127238AE0CBA241D215F8754
+37F55:6CC2529242DB0ED624ABF38F1F2FE7D9C9C
+38053:3A0B24A2F8558A63C1DC16D66ABBE32550B
+3814C:3CBF0E7C6CA7D61220B74C4C32037D08C16
+381A1:3164F6103D23F3E7CEE60894D89E0A5CE45
+382DA:EB5BA012A387EBA595A1FACA098F3F9EAD9
+3831E:9216D0A7B6D80AE1C1D8866DDE36FECA921
+38328:DE3E246DA2BECAB2F1B4ED4C541D660143A
+38373:56FEDD3E1C344E4FB8FC9A703037F62228E
+3837F:1860C00DD487ABBD7DE62C9DD3B353A5478
+383E4:FCF7C6757B4A12B320BBAF7AE0B79402529
+38457:3ACB0BB050486295419F9E1AE32C1D83889
+3888A:91E76375C254E872E0FCAB073F22B6BD498
+389DB:5AA47221E72B8A38CD16866A59536217C81
+38B47:E00EDA0217EF9C2801CECE754E4D95E9116
+38B96:DE8E2F48556F058B218CC5F55073FC68374
+38D07:84FCFA8B1464C24CF0ABA7877DBAEF632AB
+38D16:B4455D3CBBD0006B83D25B0829C51C778D9
+38D30:29EB303493DF631E5B31201936C3412021C
+38E55:630F77AA3B1989569FF416857EE13441C23
+38E92:1AE852BFA8BA95DB68B013B22C0E13FAC1C
+38EB7:965BE0FFD62D943E37C85B690D4C6219D51
+38F07:8A81A2B033D197497AF5B77F95B50BFCFB8
+39020:A7D4EFA11CA83CE6638EA58B5B9DAC3C9C2
+390CA:5BD44A234592B25186194115F5064D5D24A
+39158:E314C89466344AE9A9C9DA32081A1E16A1A
+3939A:E18129E0B066047A8A705D393785BFCE46D
+3939D:B954D54081AFFB05A5CBB8F02DC8D54D6E7
+3943C:34FBFC88262B0BB309A8D52CDBD765AC83C
+3978D:009748EF54AD6EF7BF851BD55491B1FE6BB
+397AC:0E09421BF2153CB8B223AC95EC4212F81E2
+39A58:1A4659CC189802F61CBB47D25B51798AD86
+39AF5:DEC08147BE050CF2C22538ADBB3C30C6393
+39B8B:A4FE30D3FAD8FD5DDA2D71DCC327CEFB712
+39BE2:2AA43C3C2FADCDFC46F18E7307B10409605
+39C8F:E2D85503DB7AAF19648938CE69C73755B49
+39CA6:90020C7C0A848E4D803F3B9BE8C00FD2D1D
+39DFA:55283318D31AFE5A3FF4A0E3253E2045E43
+39E07:0713590C7A7806E80DA4BDBAB8BC1D2DF47
+39E88:C5FBAB8E9B99ADC2A1B31B93BA4C36D7595
+3A033:A8938C1AF56EEB793669DB83BCBD0C17EA5
+3A212:04F96128EA02C56A6A72D78C27019FE2F34
+3A325:A9D32FD22262CD91630D0157B9C5018697B
+3A3AE:363E2CDEFA7E61C0C0DC1524AE3E01DAA4C
+3A499:F285BD74812E173A73C23A7EA1B6D2E41C0
+3A5BF:FC2D3270F5AD81EA6FA5266DD4D8A0B072B
+3A70F:B8DE1A0AE64CDB690DED3F00A19AF1FB17C
+3A7B0:E8CC4D1E2F411B267691EB59C2C6F44E4D3
+3A866:A59476FEC733575D08D54D870D303E8084E
+3A9F3:A7AECDD796E9E01750BE8895F467D1E8D2F
+3ABB5:94D47B2541D1ADB2252F104F083B9EA6F26
+3AC97:4649215F35288AE185B07589193815282DB
+3ACD0:BE86DE7DCCCDBF91B20F94A68CEA535922D
+3ADC9:AA281584F3DBBF207C8379ECB0E7476DAFD
+3ADE5:CF3D8D821F9F030C472508C774C4083A83E
+3B004:AC6D8A602681F5EE3587C924855679E21D9
+3B01E:03CEEE6CA634768C4B9AF2FAE2026027209
+3B058:098481A6BF28FA0A482C5BE849FACFD8209
+3B065:3B56650676131BEC313C863756780BC78AE
+3B0DC:CAA38A6DA60E34007905189A269CD551549
+3B0E2:5126E7EFABA142EFD14D111D58E29507BCB
+3B0F2:31EC8517E9C69B2174D139782C9274BF0DE
+3B18B:4F40F41F2E356B9E946BD24464F698C4930
+3B21F:A00B6C263C157D2DD48D58C8B24451495E4
+3B2FD:5CC4C65247AFDDA8DC8993E9884D71F7086
+3B55F:4A26E10EC7FC1549694826C5F6AC9B7F05E
+3B681:D9D2C454525E4EEE635207FA55A0878E7CB
+3B89E:460C151A49C6D44947E49C9218C0031A4EB
+3B910:F3052CF8E95953D49EA9FCFDCBB93E7C081
+3BA08:ECC324E7E2C58BBD58C1B82A1A3B2EBF774
+3BAC8:36E86959E8671CD086FFCCC8C7E28F40B55
+3BC32:C445FA16D6A3E5A20C52F11019EB0E0F7BA
+3BD42:44F52EE4EB04DA3312C6E92DF4F48EC0963
+3BD63:00E7BD173386E9ADA947FAC500DC80B639E
+3BE47:F95BE8A7F16C8B6CB4311B59A13717A8F2F
+3C094:3CC3623065D5B8E542028316228630E311C
+3C1AC:59D2822901076E5C73DFA114E46B1536B04
+3C20F:501C989B97681F26385FC16D2C9D2ABC792,635CFAF45F9FA575F71AE5A7DA19D927600
+3C24E:FE553BA0E9FFDB444DA97879E176AF41B6A
+3C3CC:3FC1AC7738CEDFE0C5BB86AA1DED99BB0F1
+3C5A8:7467BEA9E94566135C4DF16A6AA7947859A
+3C669:F22C7A63EB1C40917AF531DCB9FD8F8D443
+3C7E5:BCE80B1FF0990BDD8F57DDC2DA5D58D8959
+3C846:1DF3BE68C233F3AF81FBF71C60EF3F39BB9
+3C909:18BFC876DE596F1D0666B64AE07C130360C
+3CBCA:3EAF31AA9DC807A8736966D2BA9B1B503E1
+3CCBB:3D98373BC1BD87946E4CAB648F0D08B3CA2
+3CCDC:CE55EFBF68D1A18F73C40E47FD0F9C1F958
+3CD90:E645156610C5F829DD09AE5527E961B9085
+3CEA7:BD44A83FF1146EDCF9BA51DF96375E6ECED
+3CFEF:D5CF5DFDB9F6745EF806C863E9FCFCBFB61
+3D0A3:6D183610080A148493D6B1CC35D7B70A2DD
+3D0F3:B9DDCACEC30C4008C5E030E6C13A478CB4F
+3D1F6:8889F797B5C2E7FCD7D887B7F1C6DE1BE0F
+3D203:E177AE8BCF097DECCBD929DB5A5468D6F16
+3D371:76124BA5843E316B245E2FAA7332EC4470C
+3D4A9:4CDC9DB1A4F9CAA04AB77FD100BE5A10BBB
+3D4F2:BF07DC1BE38B20CD6E46949A1071F9D0E3D
+3D920:9C4598BFBC38B3C096081BEE3A09697E939
+3D9CC:53B943DAE7CADCDD6AEA3CE3AA59E1C8F9B
+3DA23:1A5C3890550681BE9238B1CD875AF974703
+3DA2D:1D91138FBE2DBC8114B8BB19479E54D7DEC
+3DA54:1559918A808C2402BBA5012F6C60B27661C
+3DA7C:4D910F6D1F2E74910D34213D27330C14894
+3DB0B:DEC4FB154EF995150F32E92F43BBCC5CB92
+3DC2C:440FED87B5688E0CD513E48EBB0E5AB5C7E
+3DD1C:F4193120B0D34E3FC802762B11AC14FFD34
+3DE22:8E20BAAC07582585BA16C027F8836C5F923
+3DE4F:901FFFB30AC720B0E7EB654B4FAA2DD03FA
+3DEA2:EB074FC8D0B9F18B8B5A8576C03DA0D8CDD
+3DECD:49A6C6DCE88C16A85B9A8E42B51AA36F1E2
+3DED7:D05B63EB858CC9B6D89702997BBC2D83DE6
+3E078:D62EC3CFE4499ADD3AA7DD50944150031F5
+3E0E3:4A5CFAB0D038937E01E8FBAC4FE36A0381F
+3E1F9:75601F59090DECC8F2D5CED72010162E48E
+3E2E4:00561FDFAD4C3351C6FA2704459F24ECBAA
+3E49C:3E4513E92806634F552518EA6BBAD14FA60
+3E4A5:124B855F9F9E27FFD826969E128CDEC5FFA
+3E661:428AEE3A0EF92A13178387A607EF9DDA429
+3E6E9:B705E1E07637441D9E1C76FB0E2399255B6
+3E6F9:DEA0C6836610D24ED8C0DDEBA5E8AE12D35
+3E78B:28CFFEBAE1201B591A22EDA127656BA97FB
+3E949:49B267B084A328FC446B5D6196777796783
+3E978:FBF8AAD93B7520FCEC25F666A8823B47615
+3E9BE:EB92E4D496758CD33D16B47997F5B9DFBDB
+3EA33:EC2077E0B1BFD18AB53BD93AAA4365E2A62
+3EA91:9653F01FE982E05D8FCEDED5663AF30C9E0
+3EB04:A8A559B92A1C8B099E812F1DA1CE9CCAF8A
+3ECC6:C90A21651ED5E7B22E6BDA6CCF08828FEA7
+3F21A:2A734C421F298C706F37580125C6E6A9695
+3F249:0BE725F0EFEDFAE51C023FA80A750E8A3EE
+3F286:37B6754D49713D014CB652CDDD73AF5037E
+3F4BD:56EE9E80670BF98D810F08FEF6C5D75AE87
+3F503:E83FD8464E23982AA6AE827259A103884ED
+3F579:48BC9828CF1A6292C6753D5533358203B51
+3F5DE:61BCDBAC7A1D555635433E251B295194EFC
+3FAEE:EB934B14C2E1C4F571E348E808F6DE8A017
+3FB37:2A9023613ACE074B4E66ECC4360A00F03B4
+3FB9B:96F1532E728457912286ECCC0C18AB8C440
+3FCFC:1F7F34E78A937E81171BA51DC39538DB993
+3FDFD:F92741985E88A081E45E9AE308B59A53853
+3FE0F:14FD8F2ABB9F517AE20423C266688322973
+3FE1D:91B1450F6FF4E40BE6612FE3E2C187ECF4F
+3FEF3:6775F761F263173A1AD3A6898BDCE05EC38
+3FFFA:DDD55B01633D0002828451BB19789701048
+40027:A49C722A44044CCA34371834A23196BC453
+40123:E9C6273385EA69892C48C80AA6CB25B9113
+40203:3E0F9A2FF2D38067992720529E36EF2D585
+40242:8E1E8A66E8082FE18DDD209D65D37FA3219
+40388:72FFEC196E1EC7EA91AE29271BB45E92611
+403E3:5A2B0243D40400AF6BB358B5C546CDDD981
+40505:43462E2246609190D3061827AB8A05880FD
+40536:36D2E086EFB0E0FBE8E57EF57894D9337E9
+4068F:0880B399410602D694B3CC711C8A8F4727E
+407C3:82553DA0F5F8C03778FC9553F9B2762476A
+40841:7D1372E0E1F89B406FF727196D289DBCB55
+40951:AF810FF5ADF6CCE11F91225A96C2E058670
+40A78:3F7585FA7ABEBF88551BFD54D5A4E820CD1
+40BF6:96D25DD56ED44C864E05F75D33A4CFACE91
+40C20:10CD90B4D32C9321876C46DC51F94004534
+40CB2:9C7560B5F318B6545FB1965C130F002E39D
+40D19:D8DAB1B8412E014D182B812C78C1725AE86
+40D35:D55F267E36711ECB6DCA59DF4036A1DD556
+40DCE:F3751ED335A86DAEABEC9AC51A94EF5C986
+40DE1:09B048D2870DF54BAC7E6C423F332E32A05
+40FC5:647DFCF83FA0DBC372BD4C72A1641F47B96
+411E2:1EF5FE3CEE9C98093C0CF38570FC63E4D72
+41217:084A032E0085811AD0CE8657820A669BE87
+41465:94C9C6AC5407A3123560401170C2756A342
+414ED:FDB372EE81A798454D871FB6BE4A7FF35A4
+414F4:67DD0E6B5EE1CDF6B6265E6A12740C4756B
+4159A:528453880B300B9A7310FBDE4A567E394AF
+416DD:21D57AEFC526FD6EE3CFFD63AA2055041CA
+417E7:FBFB12ACE4BFDDA6FBBD6FD72E7E379DA48
+41813:F7B58FD22C23303921FD712930A2B0BC6F6
+41880:EE3438C878762E9A1A0FEC66BCC23DAC767
+41A58:5756A79943009DF7839FE8835207CD9A721
+41A76:F2148DC8625F9A6189E7676A6AB555B5ED3
+41AC3:A4BD886B3443DFEDDA8F9D58A06B7EBEADA
+41B7F:B7AC9A2E494B4BC2FE019771112944C724B
+41BC7:4A60034040A36295A971A7E70CF36061B9D
+4208E:6BFB7FB6A021679479CA9286059A681D118
+420FC:C63481AC21FDCA8F011608A9F8731609CFA
+4229C:E52C28E0BB73430906EDE930FB143B2B4E4
+42319:EC57F31FA01E533D7E07817E24ED8AC54DF
+42331:37D1C510F2E55BA5CB220B864B11033F156
+4246D:1FB8171D87099D5EA7A38269F3F0E74B65D
+425A2:1A17986AB223C1D7FE8BD1E6B03FDB20066
+425AF:12A0743502B322E93A015BCF868E324D56A
+425B0:D65725B50474F87E3F42A7363727DD524B5
+42606:49CFF4A8251B3DDE3C6E44DEB3355509064
+42696:FD9505D2D1D0A765B5F618D659099159F37
+427FA:C7513BCA82B2AD9108D50B5A36F3C8396BD
+42822:194C808184DF9A1003019C17F1FF94FC1FA
+42965:24415E0DBFCEBEBCBE7018E11DB8B022B46
+42997:105E428DFABDDCCD60336E43599D33B822A
+429C0:84E96A7FE2BD51A17463B2D64DF8CAF2891
+42B44:826CEFA6814B2DFA9730B49F661DBC30EB3
+42B93:FA4D5704492504E8ADD620643550DD4D356
+42D1F:9243114643C3B0DC2D3E5E86A94122D2306
+42E74:C0D7FADB3B5509484E4DDB8FE8132F38C9E
+42E87:6D8EA910001F61F937D9B337F8C2687024E
+42EC2:729B289A662013E8CAA29B269C4EDA89AE8
+42F23:6B285256CBE97BBD1F1FC668049E6E4BCFE
+42F5B:E09807D63E840BCAC44AD18C98F1C83547A
+42F6C:ADC25520EF337758E6F1466EBBA35DDC9BE
+43020:BCB77639EFC7C8D1545893D138A8D0335DD
+43136:4B6450FC47CCDBF6A2205DFDB1BAEB79412
+43173:39E5240CB4F8D9BB3B887992ACAD5F2EAAE
+4317D:573CF3D89B5562DFEF9F1B75186D99C46B1
+43244:0FF1B3B454CD3551616CEA3093BB40CE695
+4330D:3A09F7451A45098A837229100E87AEE6742
+43347:63D1BCC23DCE5D511D8AE81A5BBA62DFA31
+43376:A58BB90A97773EBAFAE1DCF9D8501369BA3
+435B4:1068E8665513A20070C033B08B9C66E4332
+4368D:2B67A8CCB7F7D9DDF68D0138D1BE8EF5784
+438D3:9396DCF31DD9D6677A4B3068E09BF223800
+43A3F:8AA7F60AEDAD9EE75E673BE409100558668
+43B7C:59B940CFD7A83F03DBFDF5681213B8723D9
+43CDE:71BC99EC48B74DA015D3C53E0A11147AEB7
+43D95:978F7C4AD8E399933A54CDE1CEB21B104C1
+43E76:A837C99E70B09C63C5C06C8DD504241289B
+43E90:2F6510B1AF06B9DB4EB0AB768C1669C5BAC
+43EB8:595A499C92ECB8AB221EEFADAF56A91A55E
+43F0B:33393CB38434E1F4A02ABA4ECA67236D227
+44154:7750C4A0D45D070E37801E24D9194223070
+44213:F9F4D59B557314FADCD233232EEBCAC8012
+4451A:E61C3AB2352FD7C2C4E5B7DDE09FAC93FFF
+445C7:754B09EAFD96E602F520EEF4924FD83C41C
+445F6:25F9D594450CBDF8F605CDFF32EE402C864
+44670:C23E46B0A95E12CB327241543188AA1AC71
+4475E:25BF4E13347012261CD80DB9D2C37F58342
+44781:984609FBB142E58A35FDEF7F828CB043AD9
+447A1:307220371CBB71372A378047C16E4DBEAC0
+447B5:E3623D424ACDBA72C257A87C9AAA15E3F0D
+4484F:12CD7BF7142C73AA96CC55D7CEC738487E2
+448CF:42C0631F31E5504EBE5B401F77AE682BF8D
+44993:8CD38C82BCDDC2B534548DDBE984ADB8EFC
+44A41:E0783B5D504C077C6B58802A30635F72EF9
+44BAF:52AA205B57442B9C5975466F4346068C3D3
+44C13:DD15AC660AA56D59A282E85B2ABC1F24787
+44C57:DEBC46812183969B20508DCE671BBE0D52B
+44CA4:64D6FF38F668A95E12B0F8694EFCCE4E101
+44D18:F6D84284CC8ADF0A797DF766B5544AA2CDF
+44D41:BC624514AE9C22172682E309462E390B5C2
+44F75:3F69896BF5E46591E73B6F024510837F9C4
+45007:901DA2021358082851EC2CCD692067B228B
+45332:3B8EA3F60BE63FC9B00EF5237CBCA04CD3E
+4534E:41D9637DA11C89ED71C360343894D793A6B
+45433:87189F87C9D47096FFC7598FB04D7849104
+45494:6D5EDA56847BB3921C21B35503794DF535D
+456DE:A7628E026F1F9124159433140AF6DBBF3E4
+4574E:674198A144CFEECA900ED161185B4B078A0
+4585E:CBAD78ECC76ACBD122ED14772DD1D405C11
+459A9:0E1E5682DF994E0741E60F442ACE32BDEB6
+45A95:84A5A6980909B5BF031B11B9F92C48C56CB
+45AA4:5081BF5337D323283C46658EC37CAE6B6E2
+45C8F:117DDC232DD76AB4680352EC7474C20200B
+45D08:5E6DC036D722D06FDFC8F2C262B179DD0DD
+45D33:30D7298166DCC39498AA1F0B9A96890AAA4
+45E1A:5CAA86F8E1A2460FE2CC41ABA9802270DF1
+45ED9:D79A1DE68E5FB495CEE2EDACC4E4BE4DCA9
+45F39:0A18706B4913CC2E0BF46EB5DB5D1BF187F
+45FA5:D459FECADFB2E8C74DA3045539B40AEB884
+46000:D45016E21C7A00710339DBCBEE4AF26C42D
+46147:6587780AA9FA5611EA6DC3912C146A91760
+4614F:1F2A506ABF9DB93516256B67962FAEA25E7
+46160:57067BFE911F9B2F6E209A2CB84BD04539C
+461EC:1333112B6A50712F7C2666D2B55AC2081C8
+462AB:89CDE69F90274A549275C3DA1082D3EAF9F
+4630B:18139DEC239CC4B118B643994294F661281
+46394:B07F1F2632616B13E1AC316754A5185A42C
+463BA:397A5888F190B3B2D05C1C85E85FDB884A5
+464B7:57B43D8E2986920138FFB791D29028FFEFA
+4652F:6CD1D886F168F0CB15821373225C10CD7E8
+466BC:8CEF3E71DE796EC483E212724A2C2044C68
+466FA:2F04F718CAE42B92295862D057B5891D588
+46864:F5E9A2DB58056C06FC64364809969CBBDA0
+468D6:7DA9458E3D9EE7E6BA46856E94B6C554CB6
+46D73:EA687989518E648D2B330D1870D628E5513
+46DC1:92C62C7E6EF6B691F8BD3C24EA465482F78
+46DCD:4DD65B63D106B8CFB4AAD906B23716CC613
+46E7B:B6807B7AB263C469C9293FAB309ABC55574
+46FC7:1FBA8A2D423BF8A3E34E835044846F18E06
+46FC8:54F002BAFB7311206BCB223A0B972DFB32A
+47012:E5C460AA4C2B3B13E7A35072249EAE0C04C
+470C2:C4D314FF490C331CA7228CA7474D8D555E6
+4712C:D940B3EE51847EC696D15CC7A21469E8A29
+4715C:53FA9414147ABCA465029DB77F4E087CDEB
+47178:DBF0979A35E295A6CEE8E51B92786B98F8A
+47277:3A6ED75D54105448A76FBFE880C92EC99F2,463B9135891337B2C39255776F9511BC96F
+472B9:26413C6E2EE1E0F58D30ECD683F17F8FA53
+473C2:D0D0950352C9927B3EADD71015C390478CB
+47456:CC868F5920BB1E358C1D5C14C320C529ACF
+474BA:67BDB289C6263B36DFD8A7BED6C85B04943
+474BB:7A37D97A94178D0E8C3F10446FB60F669E6
+47510:8BE5FE7CB89909AAC739E6DF429E4F518F8
+47585:BA0D4D428B083B186DEECA9DD293B78B578
+475A7:4E3C0C82094CAE9BDC8E0DD34FFC78770FB
+47643:2A3E85A0AA21C23F5ABD2975A89B6820D63
+4767B:2E75AD3B28D64C91B75F6D7A845A1DF12BE
+477A3:6C1447B49ACF94AE2382664D550F4A6A5DD
+47861:A833B9686C1849128A774BFFD6D1018CA96
+47A12:EB815A67048BA72AEFA7718C3EC63602596
+47BE1:A567DEA3F3C250A29C44BA9107B99DDA060
+47C1D:C4559EAE95CDDE6246BF4AA3FB058DD8373
+47CDB:CB5DFC3392385190168B4E4EC72DB748EA5
+47DE1:4F78EFFE137FCAD695FB4D61CAAA97BAD1F
+47F2F:D36C647BB68706D34FA6599A6DDFA2A0716
+4804D:32D728567AD7C176AA41DCB78BF533A8054
+48058:E0C99BF7D689CE71C360699A14CE2F99774
+48111:DCCB2C8BD20D547F49B6C68E9A7AF5530A2
+4823B:26300CDABC0B00A9731E0594DE3B23A6BB7
+482D4:FF293DBCA74ED25421DD8AF8CDCEDC7B9A7
+48333:0DB231D8FD020CB88D02886D3203D3615DD
+484A7:57FC33570A25044856A1F53024349578976
+48775:5319C1751BD372A5A51992DC882A44391D0
+4879A:B0FA4EE75685946A6ABF220C2939FAC2F46
+487F2:891B672B8AD4328480B568DF047CE9552E2
+48A18:EFD33181B5638B69A4302E6B8087EBF546A
+48A92:E3524F6AC3F0A8BDDC15DA5690042884515
+48ADD:E05F3A9ED0EEA8A6A3A95205F9584C0BD98
+48C73:7714E9C70307A8662CE2349ECF8C89BB1AF
+48C7F:79CF97571E5BAE6AD8D9DBF7E35D23DD636
+48EFC:4851E15940AF5D477D3C0CE99211A70A3BE
+48EFD:7F81C11D37EF8BFC0EFDA0FC4B67347C21F
+48FC2:83B6B3D329197D07A1FAB5B2D2F81B394C6
+4908B:BFA2EE5FEC1C7C53A57DF09156A114CEF27
+492D5:5457CEE3C4B5F661E012B52D506DEF90065
+49377:C77E7264443438C1AC04C71B9CFCA81FC0F
+49455:9CA59368D9B044021BCC5546ADB2C47A599
+49459:B0903B8EEC0C50B7F97354162AF33E78DF7
+49518:EB3209CC1375F2202B4B4650F06BD8D5C72
+4951A:C3305EACB54C8DDAB015213E3B34C7AE50B
+49557:42B2D74102E861DBBC8004C5527B3FE1337
+49609:B341821393E6050065E2033209F9BE5B019
+4961D:CE387D126E910964603089C7F93BB5C818B
+496B1:05D56E7D96B2278CF0952CE90992FFF3860
+496C3:7D72FF3745CA5F2F855830B110DCBBF5E65
+4989D:304FCC975B121DBD23FA9FBD9868F486610
+498F6:0090A08996F0593E3A36B52C7193922E156
+499AE:161174279399BC55BE1936F572998A48805
+499D0:C6E20FD2FED1D4C697B027813EE602E724E
+499E5:0C32876BDF832E8E33FF7840FFCEB008839
+49B1B:C9828E2EAF11EED857D5F2E2A9E542F90E5
+49B38:7C3E2F71979A2456C2DC0A03A0EA25648BF
+49D17:D6FFA1921D164CD518FB2EA6D6ABDA91379
+49D25:A47AFE9D01169AF8CD062106E91CDD83D01
+49DEC:4C3237B9046E890A8711868B519899965E3
+49EFE:F5F70D47ADC2DB2EB397FBEF5F7BC560E29
+49F93:19F1ABE944EEB960C171B25C8607CD5E045
+49FEE:76AAAAF4D584AEA2BF5764F28CE51EB2DEB
+49FF1:9D54AD94F82B3AB9125E39DC0C933D9F645
+49FFB:3A93BBE1AA6CC24C11ADE747121DEEB3567
+4A0B9:AE4089FBDEDE39E11D7E6E1450488E8D329
+4A2A0:182D2384F5A781FF3DA4FD6167C832ECB91
+4A2F2:0AC1B4DB616F2AF0EA44D7460E37BCCF943
+4A479:32420A9AD6B5876A8BADB2932894E2C4351
+4A4F2:5497EBFC1FCB27DC67AE26ACB633AF6D084
+4A5F4:B392AEFF8C7B34C1BD9E17C55EA6B973BA9
+4A924:4E8636FB1E90EC15D5F6D80217A19B4B597
+4A944:712860D83D7CBFF5149D7C5B7235DC73DB1
+4AA2E:940E256BF8DDD0015EB0341BB7F3FE90A54
+4AAC8:82A59BB46E94CBD3C8982C29AE443B410E9
+4AB05:9D8F2D686713DFAF86A54873AA7A25B60AA
+4ABE5:9D95CD828D0AB47835A40487E929C8D8CFA
+4AC81:BCFA410364B853CF81B6C7A8A9F95D78005
+4AE8B:0898D54C78818CBB78FD87B85871BA54D08
+4B067:7CA1FC8BC7F5BD5B3581AEC09A4C3D31A30
+4B076:DAC870DD11C7AEBF37FE60CAF7501A6C318
+4B0CE:B2CBC31BE1CAB8F2A171D284487C4D172D6
+4B163:1F461B35EED8E448076D8786F76B9814078
+4B18A:12B72BC7F767872F3EB46D7064733E7501B
+4B2FA:8CEE8E96664E763D1EA9E51BD91516EB55E
+4B30F:367E70007E86763594D1E9678320C41C5F3
+4B352:0B1C5DC0E18252970A7D702FAF71BD96EBA
+4B4B0:4529D87B5C318702BC1D7689F70B15EF4FC
+4B536:6C8D9B4D0C56CC34D4B47D01B083C6B916D
+4B56D:7F9995616ACCAE1BCB207591CE1F7CB3D04
+4B665:EDD598EEF08F3C1BA30A736E220D547E5FE
+4B7F9:13D75E033B86EE32430BB42FA9566F90356
+4B8F5:C5E8FEBB4170C89E8F74BABA1B05D5F280D
+4B9D9:42ED7081C5623D79C4C47F1787ADACCC980
+4BC0E:A94CF0D76508B9E459A6F11D74798EC27B5
+4BC8B:ED273DF01BF6D4E7A258516A670B10FBDA5
+4BCD1:77678A606058443F40CC4415B311D08C018
+4BD03:BE47B297BA237FC72A2C4D34FBF56422550
+4BD0E:C65B8F729D265FAEBA6FA933846D7C2D687
+4BD80:130DDA8828FDA4FC9CABE7A1930A9320135
+4BD8B:4C72DFA05B04CB38738D1DAC00145D61A12
+4BDE3:36E8B74B58EB5E7EB247E8B4D34B56B7335
+4BE30:D9814C6D4E9800E0D2EA9EC9FB00EFA887B
+4BEF7:1B04E9A1FE7B5D791E2B1E53606779C8537
+4BEF8:FA749637104786141A5F3D2BE122F5E18F3
+4BFE0:29D971DDB359DABED0D0AB968A329ED0AB0
+4C131:1FE0A3D0D1341C0A9D9FBD87990C9170580
+4C1CA:89215B0DB98317CBC6848F4A9B4BECFEAE8
+4C1CF:756E10DBDDC78646C909C62AE31E9675666
+4C474:D9E03E5523EA83C4C4FABD1D0E5AF77D648
+4C4F0:3F5CB494A4F04E44A40B28C8D3D8FF1FA2A
+4C57F:0C88D9844630327623633CE269CF826AB99
+4C5D8:C871BDD22A4B216107BC3E4C8FB0CB344D9
+4C719:8F47AB3AF7431713B777DA3EEB2216F1186
+4C7C1:BE83D7E1B67CB784EC761548E6D2ACBD019
+4C969:3C7531CE0A6A0DBA58C87418747E60A75EF
+4C9A8:2CE72CA2519F38D0AF0ABBB4CECB9FCECA9
+4CA3F:FCFBF9B897C73B6ED27027B465C9B2767EC
+4CDCC:3B4A202EC4B7DA4B364F506170379D8D322
+4CF5B:C59BEE9E1C44C6254B5F84E7F066BD8E5FE
+4D036:41D6774D278A0616FE9D8F4BF405175FA95
+4D0BF:4CFAD926BDF40D714B22F4A5A1ACE41B701
+4D0FB:475B242228032CBDF6D53924D2538DF037B
+4D2BC:87DF32E7CE49C58A581B0F0E48A4B6E89E7
+4D3BA:3FA9A34CD97B6863B981566A0C27546565F
+4D3F6:85B75372C98627727537BC47E50FA08623E
+4D67D:97C3E7A9D0836A7217416601E259C88C038
+4D6EC:3E33C5389A6DCF8A93B5E603335213AB0C1
+4D8B4:D6E78C7A1679BCF58B4E37FF35F623C2B56
+4D901:2B4A77A9524D675DAD27C3276AB5705E5E8
+4D9BF:1F67B2B3E4282846349EA9A70B5BA2AF87B
+4DB0E:A790651DD4F729F79627BA53248B573F29D
+4DDAF:11FEC0BDB2773B23A89FC9C7958A250CAA9
+4DE42:3D8B9724F54D7564E0F9788A242F7F16CB3
+4DF0E:7BABEFFE078531B4183D7BDAC6A962F40E3
+4DF29:F8757E32F905BCE1E503687A319DEF15FD2
+4DF71:CC940738D7CD228AF6820D3FC6A69EB2A4F
+4E000:3C5366BC1808EF58490B34AC0E06BDEEFD1
+4E05D:4FA6439A3DAF2B853E3DF1858D42E861DF1
+4E0D4:5FF5B2AE290221EF72EFF4E62C6C59C6A1F
+4E240:ADC5C889D40EC689A27A40F6365603A9573
+4E2BC:47A797764686AC9476C1C19F7710A8F3720
+4E3AD:CFE37C3701D7F736553A4C722E7133E909E
+4E3C7:5C7765F3C59637AADBD8951ADA89D032873
+4E3F3:3D8F4EB394A3753A86C05F166FE055E03EC
+4E45C:C3A54D14B4384C36FDB5DDC25C6AEAA05B8
+4E4B1:601012F32AC576CD75829ACB7BC28AADDEB
+4E562:3CAF0F4DE996276997A0DC9228B2B8F2774
+4E5A2:893BDCC7D239C1DB72E4C4FFBE4BEA73174
+4E5F3:B1C35F05F0599E025C9CD092EA5213E054E
+4E6E0:B9A08EC7EF16AFB80FFB105999DD1F67DFA
+4E7AF:EBCFBAE000B22C7C85E5560F89A2A0280B4
+4E883:EA0CD5B5A5AF1267F695B94E08E5FEA7148
+4E8CE:EC01B76E5017A9802EF53B4E58867910DD3
+4E9FC:C7959AD404C76EBF578313F4FED005AB9C5
+4EA84:2C8C6304F4A418835FB6665DF10524DF1A5
+4EB6D:2687A85E24D3FC385B8E324294FBCB44DFE
+4EC61:988A6CF48394116C133F3AA9B0737508F67
+4ECBC:EDC28C1CD66D17B426882C0ED6506A5DFF9
+4EF73:FE083BA41FA70D970033016F5A254D8669B
+4EFB6:CB7C018F0C686D4E9D68B615950223B4DD1
+4EFC0:451F3995CA3E0A36D94AFF39074D4A9DE84
+4F044:016E45FD7FCC7C331605D1DD82403C18CF2
+4F178:8E18CEE217F72DC54BF535C0FD58C349A80
+4F21C:D05B43CB2305765B1D9B6CCA2584CB71462
+4F26A:EAFDB2367620A393C973EDDBE8F8B846EBD
+4F2A3:743AF7E820D518463BC3257635EE584B367
+4F2EF:2C6046AE3662EEF0EA6C5F5119CCECC2D3A
+4F4E0:5F1322B25B68ADD643EEAC9BDA0716E0242
+4F61E:C4D2D1FD181EC25797E1D8D2400C5B04F24
+4F6CD:285A6FC2DB4C1CC4F2A4122DE8C7C587A68
+4F7F8:8EC2A19197132B24AD3EED4D5E1995A8FD0
+4F86A:7B0C0340A28561BC96D9D926DF0093D9A36
+4F8FA:9ABAC01CE0C7DDBC6D3FF2B4A48F0C12929
+4F9D0:7F7323456195FA28E920F0F98E933F0C918
+4FD1F:362E4E06AF4731E1E393F773F689F8A6C03
+4FE22:0D0FDA24373A4F8C8327DA189C98B443468
+4FE5C:000A92AD6D2DBAD638397DCB28B1B22900E
+4FF1A:33E188B7B86123D6E3BE2722A23514A83B4
+50115:2A17F6A9C119C66797D90095B078AA2853C
+5018E:C306710B3381E74ED529F693FBA04BD3911
+50345:7AE251A1F301A579B678CB9781CE3B96B13
+503A4:392F63D12982285FBB99D2496DB70669CD8
+503B0:658AA927CB28A36BA46B8DA27C057F80003
+503BA:F000C1903AD1507F060CF2131D23ED8074D
+503D1:9FE284A836EC61D073D2CA4286BD7A1A226
+503DA:8C6530DA19DB5900B3EC1467364FDCDA11C
+504BC:0DD03A908CE5611DBAD84EBDC25DCDA2023
+50532:95102034C0A0096BEC094F89EA20534D261
+5065B:A6855A9220FF499B1D7732CC3633750DF40
+506AF:91622CF2E7059C4611D375A78F48B6D0E98
+5089C:85CCF5F86430FF2DF9F5FEA88EEDCAA659D
+5092E:892F5D5C2322884B917B48F79FFF41ABA7E
+50962:A1F1870B6EF951467E89BD42AB83E30AEA7
+509EA:305942E125C48D4331E011E6529CDF3C19E
+50AAC:B4F1D6F493F87AD16BEAEB1BFC01F1CE0EF
+50AFE:EA9F1E5DC5690F63F384CC4C1B3EC300D83
+50BC2:DA29FA9EAA7B60BCF7DBB42E06AD7B981DA
+50D6A:046B4D9C8CBCBF33031A9E7F02E6F102962
+50D74:70B47736C17752CD4BCA5B89692F222B7D0
+50E84:02F72CAB2C8457E4A61226E64B78581200F
+50ECF:310F48B8745396542537DE0C856D5247EEF
+50FBD:12185865903546C6C8364C929B72DAC9188
+5116E:40694AC48F654CB7B6816177E0E717237C6
+51205:E550DF75D0AB13785D303AFEAE3CF71B257
+512B5:41854FE07F4D51250D969022E5EE097FDEE
+51548:9CEB7BE0AD8E63C76E757EA22A73BB5E5BA
+51613:9B232CB9FD358778A96BFDA64BF879B26F7
+51748:C63712B42F2B47B2035E1A7A325EF0352EF
+51791:E9A3D260980273813C92140F29C3F55E0AE
+51833:174746EA4BB73EAF2AA216A229CAE201899
+51956:816D60B805254A17E6198E95879ED268A57
+519BC:3F0FDA96312357E1409DE278BFF4D5F5B25
+51A14:F944D03CD09341FAEFC09A170D5E926F24B
+51A60:18BFD0FB27A58D4049EC50B9E6AA2E866B3
+51BB4:51ECC30E1F5F4AA3CDB568A97FD7AFB668E
+51C2E:971915365BAA3095D5BBF8DD61FE56F62F2
+51C47:6F0BCAF6BBB300A2632EC50B66FB012E9B6
+51C67:A8EF1371A144070AA191BD35BE1C168BBBD
+51D03:5C7A23F02F05B33C2FEF57C344CBF9E831A
+51EC0:714B63DB58C77111F4BED49D803D57DAD3C
+5243C:CA54EF5A2FF929A1BA38599193EB548423A
+524F1:2BB3BB1AE9CBB9DAD225186A972ABC9771A
+525CD:317FEF5425C3ADAEFDB40B7C25132ADB2EF
+52745:A533702EAD1F15EC3F4577CDFC4BBF4B8FF
+52789:DEF23BD92B69AF96C0518070D030A51EE3A
+527F5:BE7752613B4CEEEADAF02A179E7A5BFC345
+528BE:6967DF438630D553B3A24C7064CD1E5252E
+528CE:F87D0BFB947548AB94679D1E5765F19089A
+52913:F96894244F64987F50E933FBEA6C15CA811
+52AB6:4D3046E9CF66B7DED2B2B8FB123F70B8F2F
+52B46:4D213A3C6038AF4CC4004C65C52758D2994
+52B7D:A31C8016EB02A80FD51D19E31CC59EF28BF
+52C2C:842C6219D7DB5D7697CA0A83098FB32A122
+52D45:BB8A05AE2F7E5B631F4C15588C34A8639D0
+52DA8:254FBBC9F5DC7F86BFA0F68E0D1BEA2C5A2
+52E09:EE2FA384E7753C3E65BFFAB887210FC69A7
+52EAD:56469195282972C974FECED33A739E4E84B
+52EFF:545CC0D1B647D95F0D7D12E224BE80E6F78
+52FD6:9DF5D5A4B37ACFD895A31BA6343CB056B7D
+5318B:B5B4F49D43B2765066F057F780E3268039B
+532A0:458C6C6C95B066634316650CD7FC00755E5
+532CB:218BA1550F9BC6D1F0C4DD2FA1BB95424F2
+53378:0A05CC2F25E0468F140951F3209DDDCD563
+535BF:15BD7E54926E3A207336237F090C5579CC8
+53610:56AF506C16E88EC148F3E7FC35534556AD2
+5365F:6E4B2CA1C664DC3236534F7A9500A45AE4B
+53761:713D226A8A3CE2BD9ED74B39DA8F0D96883
+537BD:5AC1FBA1DCC1D7BCFAAEB9B23AD0F28473D
+537D5:D1EC9881D7A17862159EBA0EE767296B830
+537D8:BA2E150854FE9977B5A99EE189A07CDD6A7
+53853:2CAC204D0D71577D4EC976A3A1798E12341
+5392C:950BDDE4BE7E5F5B8FDC6A1CA5F21E905CF
+53A64:CB78D17F6E1803411F188F682457C890A77
+53CE1:5E43EC7953C7140AD9434982690214DD940
+53D2E:E3E33B2BCACEC83C3F46D3DD92A7FB7EAF3
+53D34:34167DD830C9EA10003B8B7418D4FE73D96
+53D88:2CCAFC825BB6FE2361D6CB64FECCC1E823A
+53EBB:3F78995D7F8A800E3FE3A5165EEB1206EB8
+53EBC:572B4A44802BA114729F07BDAAF5409A9D7
+53EE7:E9A316EA6EDFFB08891E29C546D9C34EC1C
+53F55:76BFADD42B9448440B4E46E913B1E2D8694
+541CB:CA20D0962E2D2CCD62C40935C602128E912
+54241:3CB6A441BE5F7C7AB8199744C6DAA81B7B4
+54473:6EFC936223F0675EAFACDFA64BBF5339ED2
+54577:DB29EFF8092D8F0240CD9EA718E1B776E1C
+5459D:39832983EB22967C2FA4BF1E27B728BA873
+545C0:2D867289C34DB7FC372B597283673FAD9D1
+54669:547A225FF20CBA8B75A4ADCA540EEF25858
+5479F:2FA49524ADACFF538D1CB23DF73200D0EC6
+549C6:CA8A52F36B331223B662798B56A8AFF8DD7
+54B86:9057F5253A9C3B201428BEFE69D050E65CD
+54C3E:AEC3BC84C86922AD8D265ADADBA181BDD91
+54D6C:E0A23B7A14C9594595AC09A1E8983696416
+54E8D:2E15D3CAA89AA3F82C8C0428AD5742F056C
+55122:FFF8D300A8743301ACD69419C8B75BE3483
+551A1:295556C210FEE83AA71DA02D8821850E8B1
+5542B:FFDA800762369192A583CBF80EB5F4D7318
+5557B:EE39E25556D5306948F05D8BA623D26C226
+555A9:C193FFFA11995A3560F8DA048868516FB01
+55645:6DF00DA48B710AD30834E50891F06105F78
+55828:7DDCC3557B09EC00CA17B3E4BE7E6645858
+5584D:839BDF0C2A5ED5A33C47D7DE344875BD296
+5588B:6481810958A07FC03E880315C9BE5083411
+5595F:B19597747D151EAD9740F0869B0A760EE8F
+559E5:86521C3D59740D8DB20246FEB310D652C22
+55A3B:52DD6019786A44FA269A753B2A9BA6950A1
+55A63:54F5779BD818F7F2BC63A2D61D179208827
+55A9D:3D32D58A018A81379016F3118BBE97BD718
+55B5A:0F748D3A82DCE10B205ECB0A0D8916C66A1
+55D88:78F7BD742DE8FA3ACFF19DF41C8381D8113
+55F65:51125B77B08BC7425D57B8C27D2F6186636
+55F92:600199A244F63635BE424EDA47B5FFCB97D
+5607F:11C18329FD9305B3091B72681160EF2DB18
+560F5:9530D36803DA6CBBD922EFA19F65BC29A5B
+56210:D746DA553025FAA1A0DC9B10EAB9668611A
+56259:DD1C4EA0117CD601FFF7AEFA0E8892A3B25
+562A1:9FC123452CA4B12BC10C418845ACA3D9B0E
+563B0:AAEDE50C3FED691D136198F662AD0380FF4
+56703:6E656FBB65526F42D38AF9528DA2C4DF076
+567E5:2658488B9C7647E50C9B097170A7ADB184A
+56853:55206E23BC8412EE9745B5E415CF4687836
+56980:713E2C033E646E01559414A15CD39CA42BA
+56A06:6935C52F72BCD037A783C668DC9754AD164
+56C7C:FB343EB2425658DCA89D3A4B663A42A45D0
+56CCC:825B47CA4CEB362ED9A9AE09518E75D9BE6
+56EA9:EEFEBBDDC369505F6F2737B7901CB694DD4
+56F0C:496F94E4ED629357D9D1FCB0E2B858E8278
+56FA7:5C45380CB5846BCB3A7676A8D26D0764C5F
+56FB9:292646F5C77C95B9A5394F45086FC2EFCAF
+56FD6:2AF1FFF4903459A265F02BBFFF8B712E987
+57191:C930C5CEA96C564B14834B5A69670177794
+571A3:98EC0C484A141A38DC87A752DC0813303FA
+571B3:19865DC5595AFA67533C5D78CB1DA3E85FA
+5721B:BEF40B22BBDB2E6A062B096D9B48735C2FF
+57271:D955B2C523126725D14EF23A2C6D67FA43D
+5731A:C1F6EB45C993DFA48011ED48F65C73A5AB9
+573A2:005379E233D6255439E9446B912ACBA9833
+573BA:CC4AB30167AA59D81E28F03405D3C1BF63B
+57570:D96024D8645CC29CB5B7D43A9D90DA95E5E
+5776B:67232E8F98F786D5581774A03C12DD0DAA3
+577EF:1F87D42D81B4D69B61853937910AB4F277C
+5782F:A148276F08B7AF37D86ADC6E92F9A73A4D4
+579C8:A60024F030A3C994CDA72D452CB9AD70704
+57AD7:9649B677CF8F889BA6DC5FB4F98ADA2767E
+57B29:D747A0D12347BCB54583039FB9BE0489C27
+57B2A:D99044D337197C0C39FD3823568FF81E48A
+57C12:C63ABA880BD4471402B6FF608F01163D365
+57D9B:03F80243E4D89EE76E2954EF25CEDAF0681
+58009:88995D52AE4E03CD90B55F3CD241C0A302A
+58033:C5A0DF54EEA23C2057BEFB1C8D97F2CB1F4
+58071:C0F14BCCA29ABC0ABFC0C5F42A7AB2B85F1
+58093:2427EEEFB83F267A3925CB9DE47AF73A6DE
+5818F:B2B37CF0C92289D1C5D8F5B96117E8274F5
+58263:F9C095654B3A281BDE273EE6CD44863A472
+5830A:3604AE0C50847CA285258209F3D5D065234
+5850E:40E9ECF26DD4AB699026F61B9445BC5BBBA
+5863A:84D9CCAD07A5726B20283378706810B3B3D
+586B9:43C54EEA5F08AB49B973B361602802A8367
+587CB:C8AFC368A00B620819DAF4339E3A4BD5936
+58801:94514CE16C17526BFCAE48E784088997E32
+58947:EBC8FF43456C10A258659E8FB435561A3FF
+58A19:F4D1A004D07FD0B557CDC1C167266B62D5A
+58A37:CF13FAAED3B81B3A1FCE4872824EB4E57C4
+58A62:6A69E8E9AF78A8564CD94E0F0E05AF5E538
+58B2B:A69D831180A75983E878968BB8AEDD6BC65
+58C96:37AC6A671AA28B1F2081F6A1DA133E7B602
+58CAD:4D35AD2B7E567304C2705C532DBFC62363B
+58E71:C41EB3A9F9D911586ABBDB599FB71BD6BE9
+59033:478180D07080D5E4F3BAA0099996C364162
+590BB:7554914A3ECCB4593E71AA76E65EB084302
+591D8:B24105B911E9D59AE99274D100EC869C660
+59248:85F11B6AE3C6CF25DD082D958C4564B1BF6
+59337:B802AAF92EE24A1F6FAC2C3D06D2FD271DF
+59342:D5B7BF60AA2B340E9374A0C2BE51FC27828
+595EA:26F85FBB97AAD4865CC1E83BDC8AFCB5B60
+59775:46F1610CFA25BD3B6354113378285EBA856
+597C7:43C47D956C6E6B05896689151EFA5D1FCB9
+598FB:4F48E08B34B18379145AEF8EDC76FEA6958
+59943:84914BF50499C546787306E20A3F9827B75
+59986:A0C18DC0F468B5AEE7F70032B02B2BA317C
+59AC2:88E8996C1E4AD9573B483EA2B48D75B3293
+59B22:9DBF263E2790639683EE9AE79BE82194E89
+59C82:6FC854197CBD4D1083BCE8FC00D0761E8B3
+59D9A:6DF06B9F610F7DB8E036896ED03662D168F
+59DA9:8289894DDB6317178960AB5AE98B81BBF97
+59DE4:93B1764778E894E69DA3A5A4AACAD7436B8
+59FFD:8D2742BB0C77CB26971FD210A9932936EB2
+5A0E1:818803B6BBDBB0CB77D88080AEAFF8B5D2A
+5A1C6:CE33F8FB7EC6B86F95E3DE99968E6C0C096
+5A22B:195950060EAE0B5EDB9632063FA0B931F76
+5A269:51E952BE078082ECD6B05B4680B6A3494EC
+5A46B:8253D07320A14CACE9B4DCBF80F93DCEF04
+5A46E:F5B0553114E7FBB14AEC1E4DCBA3AAD9A39
+5A4F2:6B21EBC770C5837D49E7C35574B29654610
+5A553:E9FCF93F17AE26B1325160B608E79A04C02
+5A5EB:03A331CA480819AB0C370E92EEC2179F18C
+5A6EB:86FE2AB8F89EDB37869CBE23A0DED0FD6FE
+5A711:567E56574ED547D91B9069FC69BCC5EFAAC
+5A760:E1FCA257E334E34A9D5086BF2E6CFA2881F
+5A762:E33B9CCDBD60F2122E554E2A5E038F0260A
+5A93B:417F60AA9B35B5EDF7515831D84AB9F44E9
+5A97C:C6D58D03CBE5AF7E3FB4FF19D953DFCF945
+5AA64:80C84B3F86FFABB5E2F63F2B42EBB82B810
+5AA99:161A8E5B0050BF194D3C86CD0E85B67C937
+5AB79:1471E089DDF4DC1428DAF17F456A9E97A04
+5ABB6:417F466C3EC3C4C0AC4E5C22B4F72829887
+5AD23:DBA1001A2F7423B195BD2AE56DE49F86B55
+5AD56:F95E58809DF7AFAD232A414BB6A1F7EB7E3
+5AD90:56C83D9F898BD088185580072F2E9CA29EA
+5AFEC:B69612C6E89CE20486B6B3D5B2358F1A711
+5B026:CC0066E54E834C7F404ADD01E8C051E1187
+5B06F:1F08503B4E6346926667D318F0F9D7E9FD1
+5B29C:1BD90A19EC5C2026FB2E1482070BF4F76CD
+5B29D:A4BADCDED6D53B32A6D1ED1ADB497AF5F16
+5B2DE:813B23DE82181467EBB0B9B2BEA23F67CE7
+5B3BB:3703DC55F88C509AF47878D2F79366A17AC
+5B3E7:6B3CE73AC2D7EC00B0B0328606F9E57A205
+5B64F:F0A3CADF1701FED8C6A286F559720A626D0
+5B745:EACB2C631CD97D778EF9C04771FD51BC9D3
+5B7E0:C19399835816D98C36E0FCF67FE2EA143AD
+5B92F:FA5E3D3AE38BC3A33AEA9DB3DA197E10F47
+5B9DC:135054BEE11285D4C14A82D6B3EE40C71E9
+5BAA6:1E4C9B93F3F0682250B6CF8331B7EE68FD8
+5BC01:25AFB713D3665CC529D1BB8D7DF8C354DC9
+5BC0C:CDB955D6498808176BAB0F15011527CF2A6
+5BC18:24930FFBBAFC27E7EB204260A4017859A35
+5BDCD:3C0D4D24AE3E71B3B452A024C6324C7E4BB
+5BDE2:E02CA0FBAA1BB039149BE4AECC8E8045C36
+5BE5E:2C8AC650E5E6A53CA54A27BDEE85E16ACC1
+5BF1C:FA0B08AF3919A06124AA18060CE279DB496
+5BF2B:1B2339198DC10E49A2D81953C03BB72EED4
+5BFC0:4E2F186C5F20B8E1766B336E9D03F660FC1
+5BFD0:8BDAC5988B8C1D14A86BF8AB736DB159E9F
+5C0D0:11FE2B0B15E8D963415E14E166A38A4BF26
+5C101:40866A93EEEAAB50E59B61D11244A08D839
+5C116:2822DCADB69CDD9F0202AC05819CABE0C2F
+5C171:986AA6D5EBCA3EC509DCC8B7C926C3C5E62
+5C17F:A03E6D5FC247565E1CD8FFA70E1BFE5B8D9
+5C1AE:82C29543AC887703776BF3DA2C7DCCE683D
+5C1C9:A3E43A0BB3A50B3FFF58FB7D4FFE830DD4A
+5C242:4EF7E808F4E664CF2549C244ED5B856C42F
+5C29F:2B8D84F86F6ECBF02537F8EE4825E4D91DC
+5C4B2:2ACECF541CF5D8DFF4D59BE173A391DE9B9
+5C6D9:EDC3A951CDA763F650235CFC41A3FC23FE8
+5C750:F4C958C53B5F10110589F57B0A70BD01A40
+5C796:969877F11C7BB68138D2379C3DC7CA64A96
+5C933:E47E10DD2C802F2E7EE6C6F5AFCD3489E82
+5C968:8A59F3FCBFDBFEEA06378A76AF06A09AA95
+5C98B:20519425EAFAF2041057A0FAD427DC2962F
+5C995:BBB81B028B869EE4EA7C44BB1A9EA6152BC
+5CA16:8E44EA0F056FA0C42850FA54767E0C1F997
+5CB7D:5439B65F11AB45EB7222772E7C11636509F
+5CC74:F38183F27E31A434B347F091B4800485A63
+5CD77:41B1E7FA47772CBD6E746433EA54AEC34D5
+5CEC1:75B165E3D5E62C9E13CE848EF6FEAC81BFF
+5D0CB:E136F82F4E5DA55217B3BE821E360529C09
+5D37A:607B6A161D79E3C97CE463BF4767F11203D
+5D3BB:A5BE89786D0EC49A38474F86F7A84B5F30C
+5D557:0CDA429F0EC7F2E5965B95D2990486DDEF0
+5D70C:3D101EFD9CC0A69F4DF2DDF33B21E641F6A
+5D74A:E093A16A00E5AF127763F2DC7E13988F162
+5D91E:3DCF2FB31B62E4BA86DEA8BF5C490B9A4B9
+5DA4E:C0D8E254021897B8BA28DF8ECB57522C0AF
+5DAB5:8EE44A9EB7511291659B67CAA12C95174BA
+5DAE2:7A5A2B50937F334810E46C83651B4E0B63C
+5DB13:949DDE1D2B82FFFAF55B1A09DD886747018
+5DC75:7704DAC085DB29F3E9EA295E8B5A91AC3C5
+5E009:010C1BAA1259F0176C840D250CA9A746146
+5E163:54719C4B58E50E3AF29C319910B4CD371B0
+5E17D:00FB84D1FF6F502249EC055B0F13E5E11BC
+5E27C:8F938F64D9B86233EB883BBF60F8C4729B5
+5E42A:1BF760D39752E211D1A0F9C658A9BE77539
+5E4CB:55477FB521FF379549438DF1211E32D772A
+5E6BE:9D9EF65EEF288E2C2E174A7546A15391E31
+5E885:8D41F069D4A2BF36D29A97D89F3F85AB5C2
+5E88D:E6EAAAED728521D138162D44F373B4D6873
+5E8A0:7936DC3F6BA8FC84A9990CBB74ABD68C6A9
+5E94D:7B52CD67D8AD2FEAEDDB70CDD9EE7058187
+5EA89:622AE5C2E97239A15900835D06D80BEC1D5
+5EAC8:B1690EE67D9F7D8943CC5C760AF65123091
+5EAED:297B58709C9BBD38A73C41287E938FE63C5
+5EB73:3B9473C87601E2D3D9CAB689BA3783169A2
+5EB8A:854DD56DB61A736F654F0A2E2BA18C0FF39
+5EDD5:48CB2A1ADBD533E0AA5FF65E111D033B6DF
+5EEA3:B6B00EFC537573B8BB546B5F249AD4DCDEB
+5EEA6:C1BA9CC1736BF5B92526E2FD3E6A18AACE6
+5EF11:DE5E18A58355ADC4519EF2290F9578DE905
+5F04F:DE886FD29E184AAC481E77A1E8681B43CC1
+5F079:981221CE504832142E9526B623BBFB6E686
+5F0AB:7B4CDE8ADC883A182C3EF95E1DDA293C25B
+5F143:7EC331D7509B7AE83B23A2BC7176D6E1D92
+5F1D2:D6B275A456FFB0985C7983C177C39CA1265
+5F232:78835FA6046EB1A0A96C8074B4E427EE6D3
+5F235:DFC7F1C7D8B70EE752FE7F59F04A85BFC37
+5F264:52467E5E56623F85763C0720CB89BB788DB
+5F33D:57ABFA59568E15F7664E1F4019537B790B3
+5F35A:B39BC01807A0520E703710BD79E7AB1153B
+5F372:BA065F777F1223564C70EE4BC74436BEC1C
+5F497:810F4759D4C2D94DB018BBC02FEE5CA906B
+5F50A:84C1FA3BCFF146405017F36AEC1A10A9E38
+5F52C:6D1D0E45847AB81A3B49D381018B56B1F7F
+5F706:18C45F399B413109E970A2A901BEB060E97
+5F802:11CCB43CD491C4E2FFBBDA4C7F6BA0FF604
+5F923:A00F4DCEB60963B2F87FB486EB61AED106E
+5FA33:9BBBB1EEACED3B52E54F44576AAF0D77D96
+5FC34:E2431BA408701AC4A542694335299E4EBE0
+5FCCE:B08D9C7FC73A5946B67FD20870A035A8BB6
+5FE07:525E00185863E318EB3D723A69E23CBBFCA
+5FEE0:0239940F883D4C2854E41C7F989E75278A3
+5FFCB:835CFA88A7BFC6F709BECE6B14EB16A6ED3
+60170:CBA0CF7DF10FAA71FF5DED3902FE2B6C305
+601F1:889667EFAEBB33B8C12572835DA3F027F78
+6027E:7336A63CEB31C733B302A11A4D4BC069E2F
+602CE:F63ECAF3D16242F82E47D7FCB0E4EC5803D
+60327:11B48CA3827BD2F020A8555F3730D7B86FF
+603A5:FD94CC349617C7E2037869C1102336A16F9
+60518:3A0EEAEDC675938D85DD4FFD2D801AEA7F0
+6061D:73281DFD73B86EED0C518A6EB4D6E7D41CF
+606EB:C13A277201C6A8C2979336C58EFD8E0D5B4
+6070A:AADFEA7FBCF98B463CA1EB893C511EB93FD
+6092A:032351D76D6AACE89D4467BAC17E09B52CE
+609B0:ABE4CA49B93E146A8FD0EA95C748B997900
+60BE8:4B7F832B2E76131AF9B1BBFD1272F691731
+60C08:5E8049CA19ABCE802C88851CBFC9F051D36
+60CC2:A923A97E8EB7A2D00659C1F05A72D47DB56
+61074:F1C958D6CDD32DAD889B3D58A2D0704CBE3
+61152:1845AD2295014F5F24751B01E9C8496EF73
+6156F:3B4CCA6382771F52BE220F5079B262F4820
+6157A:04ED2C5842835DB1E0D4CFD6F83147170EA
+61785:9E1C19E4BFC286D6CFDAD2370159781665D
+61848:DA208DF7314623BDC7A5AE1385D1B679E20
+61952:E402FC2B46B71A5DBA6742FAEA5B7B2C220
+6197A:4FF316C107342F67953F1FA2252A6E44A50
+61A4A:9C2DBB9092DC736480B1A5D442216B895F2
+61B44:3C1A9FBD7C71650A1A4F517BBEBCD73B544
+61D0C:AE02CD65CCB454D52EC4001E9F7470655D1
+61DD2:952957A728A2E9DC1D7712844A6E9ADC4EA
+61DFA:EDD8F86A313F0B7D0F6173EEB024A866C10
+61E3F:39FC99E80CCEEC030542E19A44E6DF7A13D
+61EA3:A739FDDCC3296A970051E351B7DC8315DA1
+61F1A:94BA87D2667B31CCDE89F3BC87EECE74B09
+6202E:584C58CE655BFAB015F65B21FAA52FD8B0C
+62050:1B50D0F24DB1A2169793F2A88A3A288D9C7
+6208B:EE44B8F18B4DC2C8BB9DD697F8E84C70303
+620D3:FB30A64B08E046A51948B1525B3D38C32EA
+622A8:0E5206CE2289213D2F77401AF9E5456555F
+624C2:2A8C8F8C93F18FE5ECD4713100C8D754507
+62784:EFCFADCF30A1613907F9CDA044EA30B6BFA
+627AF:9D02D78F3C15543046223D6A77225FE162D
+6280B:68928E0318E20CD8B2D20A59814AA6A17A5
+62916:1EE04325F67E1421F823BC1726264991691
+62A56:A64C1489FBE3BAD6983401EF58E0CC26B41
+62A63:912EECC3E6548DCA0110FDA7BA6678F1D2E
+62A8C:88FF9287D52961C6D3F20B97F3A19C09EC0
+62B22:7E5D028B7534F4C7E471E8B46B11BB08204
+62B48:7BC84825B3DF028A932F082526E195EEFF2
+62C65:05357E1FFB1B2887EEC01ADAB3C6FC4C263
+62C78:6C5932DA8817304F644E74141DB94B5B83F
+62F0E:DEB28DBD41F7167456FD2E7DBCCCBB8768E
+62F15:7898406F9CB23F3A738981C9B10FC916882
+62F79:167F252BE3F65951F91E59B2DBEFCFE55E4
+63262:92C0E57752E948225C4A39C0D4F57181E25
+63400:0314804B03AD21371DFC259FBB6CC13D737
+634B5:FAC4FE5DD9A642A4209110A3A20F151B52D
+634C4:ECE82568C2ED5592B7C876E4A937CC8FCEE
+6352E:43D256721D8B00066397D790F045AEF29D4
+6367C:48DD193D56EA7B0BAAD25B19455E529F5EE
+636B8:6E2C6622A9C277662EB2A233EDE45F4E472
+636C9:077CEE2735F904E311AA4F5A2D0E8FB9E45
+636D4:613A9C0284F3D7F9D759E53F5F9E14483F9
+637F5:BF79C6C18645F54853C99A60C0F2CC541AE
+63834:BA7EF3EE6575CA39BAF9079C9A1A1B89BB7
+638E0:7FB2985E6CEF5AA6D945EA46C142B9366C1
+63971:D195E4AA05489784DEAF20E5C36BB993518
+639D8:4D872414D3CD1ECCFC71A59AC416CC0DE44
+63ACC:5E0A27978EB3C44E50EBA8DB2C9D731EB6B
+63B2B:D190A8F456DE7F4A2285052A5053795017C
+63BA2:8C4EA538E5EF05528EA2E1A8A8D3B7BEA04
+63C1B:DC371ABF1793BC02A5F97798EAFC2826EBE
+63CCD:3EC0C221BAFD1EC0C7F3799B06230B7AD85
+63CFE:153B3CFD77A5AE49BD83CD96796C14DC4D9
+63D55:A2EB5D1F29811753DCBC10F4C31846C894F
+63EB4:E03220DA85DDCE906FAEAF64961F5B4B3BF
+63F5C:347EF158500F121D78160B7A92C3C94EE35
+63FC8:800627A4D2A04B020B25E0B39F8A02D389C
+640AB:2BAE07BEDC4C163F679A746F7AB7FB5D1FA
+640FB:06193D8F2177C0FBF84F172DC686D33DD00
+64111:1978A46E7424A74C6A8B23F4B145A0E9440
+641CE:7E12A6791B90E5A91B1E23080776EEDAB03
+6420E:D4D831B436D1E92D25605D18297296374E3
+64286:DA8B4CF01F0A804D912C5E8785EE9735C4D
+642E8:267E7BAF79F63B6ACB3D018145D81A35F81
+64356:BCFAE350C970263C1CE575185B289F7B836
+64438:EE426438161DA88554B3E2DE796B0CA265E
+64628:15E0C25104DA8F50BF4CA5100892298B8E7
+64654:9364887C656096B94F8F50B0E7BFC58AA85
+64765:59166EC2A358C66090A7DAEF811C51002CB
+6480D:AE479F4791F61D8497E59E7F710173EBB1D
+64814:A3B7FD8444A56AD3641FD3451C6DEAF0757
+6484B:28EE2445D2DD67A38FED12BEFAC8123F7DE
+6486D:8E8975F48F5AB070D42FF812B82FF4743E3
+64903:821843F75EAD171A5A1945A465E106DD78C
+64A53:7B0750CB729F4B81C4E30A6F8B8A311A56B
+64A65:5C4A69EDAE4967FB9582ECBA2DA8D291640
+64AE9:2700A2FD2868688B34724AD5FB6AEB4F82E
+64BC1:C8FF4A1C461602CB86670DA18D7401638FA
+64C1A:55C1AF56BC31D1E1480390737678577EF10
+64CD6:F6601A55AAAB2F868A00C7AB7CFFAA6C2AB
+64D64:40B9C1F814DEBAD2956FE622A98C1AE26C7
+64DF8:9E22C2EA6A54C14DAD2EE6600623ACC6798
+64E7C:0B00D7A43603BC212D73E21F30E5127B159
+650F3:A9A5E7797916F099982E14B26AD352FE1FA
+6519D:48028DE05A2002BFE0A0E7359CC2A53C4BB
+654E7:630A1D4481EE9AB3DFA5CF9A801C2E5348E
+65640:C6577C9C72497525E656127B5BD1DEB6F85
+65824:15C291CF4BE85C0A1FCF58DD2426D0E650B
+65966:8A0B3E0AB8690A9F38B9454DA0E40A5BFFC
+659E9:4351310575060E7E7CE4C2DEA279157230F
+65B20:1D0BFA89428915EE453BC8D33E5B10642BF
+65B3D:D225FE19C6A9EC4383161EA00FE0F161157
+65C26:B6AFB3A1C8A2F14944E8D8B2F2534563E2D
+65CD3:109677A3EF523C4F4AB14B02051EFDEE429
+65D13:CFD631E63F6099C1323D3EACB4BBA85D5E7
+65D8D:FD4D47DF79C93D5F85071A558DCD6507DC0
+65DE2:388433E80F9BE577F410A7BB4F951F8A404
+66045:EC31C4407C22AF289F1E049DC46F1BB8928
+66224:F31B3A28456FD8E3B98CA55C7CF1B2AEE3B
+66317:92DAC56DE9BDBF8FE289094CD9C7B79A4BA
+6632D:C3491F6C37142B72276E85A851D1E558D40
+66413:E04A7F7AD5D654EDC4C1D08213A6AB5C8E3
+66481:9D8C5343676C9225B5ED00A5CDC6F3A1FF3
+664EB:62AD1F94CA3037D2CFF931876695A9FD8DD
+66614:CD0AFC6492F8EF2775D8B2B4C745396D8C3
+66764:1B92CEAE6BD7443B8F8C9DEB1DF46A3E78C
+667B4:C7131EA999A1F32B9546598268B1248D17B
+667E8:207C1602F8C5C3CE58D3CD9C78495E74673
+6693E:F2377FBA3B91213EECEE458EBEA2654A25A
+669AC:76CA7EB6E20C28A65FB622EA6D44B0F7894
+66AE9:D7D3A7C563E95BF18848A3982AC449CE9D4
+66C06:C11D179E39C42E5E800F99B57865822CF68
+66D5F:04684DAFA4338D5358E54CFC66A29265F63
+6709D:D8807AEC04944B12F4DC424E150CA51DD3C
+6711F:CF6F9917805CFF5DDAC7C8135767672B313
+6713F:37922D4417399DF21A1BD5A189B1B0AD1CF
+67161:1F07201AB79668487764AFBD3DE5C76A94C
+6724B:635C4C13A7DA7CE920199D162ED96D47929
+67382:97FEC01B206F63D08D7FA90D74F4744FD9A
+6738D:FCC5FA1E64422DE57AF963019028388B4BB
+67402:7E17B0ED64E76CDE2005CB8E76FB4CD671A
+6746B:E2430478EC3C1927048FE1CCF8DE91E03FE
+674D6:A22CD44A60486E70224F5F93298BF53456F
+67513:1969B5F6AB48B27DD3BD7E7535FD5B2DC93
+675DC:611BAFB0B7348DD3BAF7E005B6916FB954D
+6777E:B74792A095DFBD35566CD4526C03FADEAC5
+67863:DC0B0AC7CDB978021CDE81A90B6AF2F059D
+67878:85C84CA63777A95FB7992BE52CD52DC591F
+67AA2:19007019C598B832621DB4567F54025F1F5
+67B5F:A48F92CE8525701F324D6DFED859C20B64F
+67DD3:22F7F4BF03CDA6DD50AB35162796FC66893
+67EC7:1C59CFD7624B2CFBFF2B14F6BCB563E45FE
+67EF6:07CDADF91236ADCD06B64AAA224E1779154
+67F02:097BA7B893CFAD01C36C7E3CAE26537904D
+6825E:C7AEEF64837B79E20F12FDF2BBDC8F4CADB
+68302:3CE09177D731EEB0255AFB006244925F45F
+68513:9AADF5A3AEF8F0E29234EAEB96168867500
+685AF:F3AB89909779466FF6F87175DDC44A0C561
+685F8:66635D33874F892E058708BD057E371C232
+68847:E1A89BABBFB83625057BDD48FEDC9D0D288
+6884C:DA367D865757FE6C2AFC652A72530445DEF
+6888B:C15FF0D90650954BC7CEEC1CBF8004B6E80
+689CD:1CD19BFC2EAA606599AA8A2606A0EA3DF25
+689E5:FE8A3A481C79463CCDB523A7DE78B0586DA
+68A11:85B5989289374094273FB4C236FBDD2D897
+68AA9:0C898A5CF0FFF096CB0280168C1F7061D00
+68B8D:0B8C0C391823446A28136CB191BBD3F1B1E
+68C3F:6159B34B278C17126B2233DC7603B2B33CE
+68CF5:E3251379179122FA88E761E2ACD5577C249
+68D62:CB4548C71D579839C1131B51D97B031FBE7
+68E27:347D27726E7687736417D080E764566B0A9
+68EF7:6D5001049A352005DCAE56A289CAEBF34D3
+68F8D:985453C365E0626D9B60E42BC89553DC7FC
+68FDC:DCE20C7733C27262AD65B644141C8D2E3CE
+6900B:11FDC9284C6E55C69E853315ADCFD3373D0
+691AB:698A43FD6443F845CCD2B7F8F1607A14AEE
+691EA:FE852485DBBA6AEDE38121D3388978D7C8D
+6921D:E228CF7579FD1BEC50C2A5127D439FE0ADA
+69342:C5C39E5AE5F0077AECC32C0F81811FB8193
+69389:3A82EB1B9C8F4BD0A5C3A6364FBFABBBC5B
+693B9:80DEDF6379D4D3648149C3CD6E296CEB57D
+6948F:EF060FBB735E597F1C2964335E4752E6564
+695DB:E6EAAF2A03FE2A5F7F0472A19B45AD791DC
+6966E:5E998ACDDC97CEEFF16ED3B1E6068F5FE79
+69A27:64E715A43297787FEB7FAFD26E461E218DC
+69B0D:9D77ABB21C14F03AE828867AE2F0208FD5A
+69B56:8C6F99DCB0DC44A5A08388CFC786EFCFB6A
+69B87:6E52D81C0A65A6696E3EFABE61BFD442F21
+69BAF:D2376ADAF2F956E6275B0C0ECDC46058506
+69DD6:029822318F75DE16C40E5DAC553D6B467DD
+6A077:12FF2E60D8362128A0FC25032CA0A82F582
+6A08F:328E1217459C69B076264ADCF595CEE488B
+6A0FB:500E116F40F9BDE39724526A40AC4B8A143
+6A320:94C3E2105E5DBE6EE846ED0ABBDE6618901
+6A336:772F9AF64A44A0559DD7F9DFC0551542C47
+6A385:1409CA70E8540E8BF02683179E6ED22B11A
+6A3FD:DFC21CCE2BABCFBE9A686AFF6E1A74D56A3
+6A45D:08D037EC9DBE6025955FCB311FFA1105279
+6A474:E494C7153241CC1D7D438BC8697B8BF054E
+6A4A0:8CD9BD4BE020A5BA3A7DC9AB29414213596
+6A572:A242D58E973A564D971197B1E3E82959DE0
+6A577:A7743F405EA6A07E7222FDF7832A4C8E0E2
+6A599:54C9B893726B56B729B68F0DB11D84DDB79
+6A601:3D3576456651A4F80AB54D018864EF88E24
+6A77B:5E529C96DE6777A7B08D748918054B3F01D
+6A8F7:DCF6003F42E3ADB1AA5E6F38234BBEA2DC1
+6AA90:772E79480EE12F96F125D1E3A43FDCEC6D0
+6AC58:7CADDAA94838E872D449309873164B6665E
+6AE97:9C1D6B1F804C13408A76E949DCFA1007BDD
+6AEAB:6E5D37CC0937ACEC6D223A1DE24FE6469AA
+6AF2B:B477DBF550D2B729D25C5E664DF709CC6E9
+6B055:C266F275E64A4688D2B4E09F4996434EA76
+6B062:0E2D0B3C745A64196F098BCD76603D65526
+6B140:9325DD054AAFAE71BD561A751FE2937FAEC
+6B181:F66B514AE578765842C946D99B9879A8EBC
+6B2A6:1490513FD74FF12B3A3D1B511A3927052A9
+6B395:4D942F2FADA2C80BCE374F341B11831A614
+6B3F4:4A1FEEA7DD02BF2BD52C8468B455D76C500
+6B427:A147DE563E9A6CA19676FBF190ACB5DF019
+6B499:268038CD892812F319D6654D5B85465D251
+6B56C:553A20CA777F1FD2DEB9160BA620BE7EED2
+6B58E:675849BBF0F19823F36B9792FF2AF329BEB
+6B615:59281E9A1773088E7D0AE1F104838CDA409
+6B631:BE514230B6502E12CCD45ACE209B0FED778
+6B656:198F356868D00254E5220CC832DA33C5475
+6B8A2:92BCFB7717451909366AEA9CBE4B39C7531
+6B98E:EB9B05D3146B2410877B58512D927D9B0BD
+6B9CE:887BCC5867F3A7D4917C8923587C6444AFE
+6BC1D:662661EB5063E6D1BCB9E75164E8204702B
+6BC55:3F7439486059474CE73211D872B6E0FC125
+6BE73:49B055CE0D078F42101AA1850306034C79F
+6BFD9:7F177B7AEE72F2FC4588784CC8998DD00B8
+6C00D:7A7FFB7F257081175A886815A6F568B7022
+6C18D:CDD642F3E237FDDFA5297CD9F3103DD731D
+6C200:DA780AE3DB5CCD6B1D1DCBA02AD36B8793E
+6C3A7:2EAF6235DFA967F2BBA4DFC3E431C3E1180
+6C489:23EA0DF6A08B012196764FF638FE37F82BB
+6C4BF:03F7FE90904E1770238A1EB94866743F969
+6C603:59B172B47C8B7E9611189F23A2CD42FE91B
+6C616:F7C2D2FDE9018A09F06EAEFCFC7582BC7BA
+6C78A:3B6B131192B6A455F6BA8FC5D1BB34DA7A1
+6C7CA:345F63F835CB353FF15BD6C5E052EC08E7A
+6CA2D:12B141A234D5E5BA35D8D933884F9ABA920
+6CD3C:05D45F46553B89B03DEB09C5E735ACC4035
+6CD5B:22B4BCB8E5C70C86DD11256F45B4A75D218
+6CD97:EA7A4C760D989AEF63C1B70871B70979834
+6CF57:10F2BC978E864307EE114856CA2F14E14E8
+6D07C:45D757C58B805349EE1969767764DAD8BBC
+6D0EB:BBDCE32474DB8141D23D2C01BD9628D6E5F
+6D565:5161372423A455B3D1626349E89A31B5996
+6D5F5:9D02F2F84A3A8516484F59E36E696ADB994
+6D613:A1EE01EEC4C0F8CA66DF0DB71DCA0C6E1CF
+6D6BB:A156ADEC20F5054737C532B1BC5A96500ED
+6D6E5:40A79149110F32A8B408FE4C15263A0D6AE
+6D85E:C4E089C88B5514893E99D910461D21A6E19
+6D8D5:2A15D520947B2D614924E4508EE65F36563
+6DA1F:5B659BD3CEE30357C4441C17004F689BAF6
+6DC8C:BF5DE2A793738B340A3C0E09F7CD515F667
+6DD71:B25C16C338017D3F7EB5409E072338B3224
+6DE36:FF17BD7BDB5BFC7366749AEC8DD58635ABA
+6DE6E:7BA5CA97D38C1D17A94968ABC291C0A3D72
+6DFF3:DD5C1FB8C84E438B56520EC32CF342ABC59
+6E017:B5464F820A6C1BB5E9F6D711A667A80D8EA
+6E039:C90EE25D8C0AB16461542068250CA45617D
+6E1A4:38CFE5A6C9E2165665F8C2258849CCC43F0
+6E2F9:E6111E77EDD0C446EA7A84E25323D137A61
+6E31C:157470720CDB3269FC6D393F83BF5CDF76C
+6E360:40FA5CBAA698AEB56469451152C99EF4D08
+6E3CD:2D33684AF42A6395208476240A421E494F3
+6E548:79AFD26D147E954B5D3F84546908857A77D
+6E568:348ED5763535D42746ED2747CF1CC4285C1
+6E6B3:379B1372F28B688FF1CE85658E3B0295D97
+6E899:C1108B88E75D4887B85F9A62C26D9571739
+6EA03:0055D37DF442D7989640C01ABB6398465D4
+6EA16:4759ADCCDF0B63C3E6A8A52792691F4C37B
+6EA19:CF7BE998A422D82600C86E5B9B31C63E4F6
+6EB00:3E8B46F82FA3E229DC93FBD90C853D41A0A
+6EB85:D0573B6A561B75CFD1804725B28C7B20478
+6EB95:32F383DBFD871241FE1A9605C01D57BDDB3
+6EBF4:5B356CB9DB4775E08461B1B84A7EC116265
+6ECDE:BD69341CDE7283E906D9475FD26ADBF1561
+6ED2E:7A8A12293193DBDDFA8225A59A66EB26699
+6EDDA:3F18316890BDCE26285F0A24E7F30098868
+6EEDF:590C54D31F31AA623EA227B8A94F9813E76
+6EF22:ECCAC9957CFDD4B7728F2C137ACEE7BC9B3
+6EF5E:40D04BDD7DDDCF6AAF65DF596F6F1C0E47E
+6EF6F:A148B6B5F1A987EC772F487E87F75657884
+6F002:6253D00A6672823E1D82788C49FDB569C85
+6F107:884BEBED97DCCD3EF93704CDCB43FF26AB8
+6F221:7AE377E24A27C5B57C25585A7E4D0773CCA
+6F84C:E025697B820527135DDD1CBC9ACC03AF027
+6F865:2E445CAE0A0DE3CF50E1CDD27FA90CE7426
+6FB77:C8B7C9972348D3D24EC002B0EF392AC2E9A
+6FB80:3480300E4F67F3B07098CC06D9A6E0AF514
+6FBD4:4A191B81A58A6FABD65552F261BD34F992B
+6FC20:96686F70EA78034E65B0EB617A31CEC3A7B
+6FCD0:2555CF0B70D62F0443891A66A3E52998841
+70167:75BB17162F07F287FBCE4FB193836681253
+701B3:89B848A2B1CFAB867093101D8D5AC56ADDD
+70336:8BEC789BFEF5BD1D7868DAC3A66442EA209
+7055F:EDD1B0C6385F4C79342C1854564A724ED27
+70631:002DB2ED7E3076178833D51499C2067D791
+70692:85E82A00E271C42726AE362E6D11DB8E3A9
+7073D:0FAB1EA36CD0C0F1F603A2A5E44B931B31C
+708B0:3176702E0295A5B6126F51472EF0AAC8A1E
+70975:7C4F28613084DCEAE6BB675E894C7A4E9EA
+70C88:1D4A26984DDCE795F6F71817C9CF4480E79
+70CCD:9007338D6D81DD3B6271621B9CF9A97EA00
+70D6D:A2D2D0CD38326D4F36283E02297F657F601
+70D6E:5AD51670EAA6CF49E13DE7CC180460A7BAA
+70E1A:673A3DA0DCBE6C1B407375CA561B57A8983
+71011:165E6F4116D3943A7B5EF8446C02F10EA7F
+7110E:DA4D09E062AA5E4A390B0A572AC0D2C0220
+711C7:3F64AFDCE07B7E38039A96D2224209E9A6C
+71338:E93FC7DDE40FC1CADA8E870D07B07C56FDC
+71486:86369B144C8E4147A0C9BA3E45FECEFD6B3
+714D0:18DCF37375C884735BA0D12A5E7C2557237
+714EB:F9904C149C76804BEFCDA808974F3B8CCC6
+7157A:4894A43C24AB5A741A2DB90791EC4D716FE
+716B5:2D463412FD3011A2BC0349D23414BF12784
+717DA:F4C02A486212F72783C468F7787BC3679F1
+717F6:B3F4ED6F5B867E9A3CD0BC196D20D6C2D0D
+71841:30308B456C0AF4C5BBBDB9BAA2D90AA8296
+718A8:4713E7917E8DC6D16319003580046AE550C
+718AA:9C126A9B8FF916D265F76A43193202D1ED2
+71A1A:C7365E706F687AEABE1A9740207AB46988C
+71A4A:C9EC0455CD5317E372465C9A5F7104D4D35
+71A87:A4B68C997B9CE0D093A76628FABB499CDF7
+71B05:92F77CCCFBDE99B5B144BAC802E09A72ADF
+71B21:161FFA1E6516BCC072AAF5EF38CBE85B511
+71D2E:246824AD80023E902E5C4C2419E11683944
+71FB6:3C2C5BE264E5E8D2B66EB6B2C2A7E990DC7
+72077:5F55BAF36670D5CAA5C41DF108BE8F1BB88
+7212A:9E01329EA93A57F574BD9BF77695D5FDCA4
+7212F:996F6D0A7F7EA25EFDB677F7F486FDDD0CE
+721D6:5122734734800A1EDD6E68C03210E7B2ACA
+72221:C40CC0CF098FB7BF5C625C2F79553EBA84A
+7249E:04BC0800B579DC9314483AA736A15881741
+724AD:8BF82042FB65CEEB28F96E8B509B977F57E
+72507:6B595177DEFE4F88100614579949199275C
+72515:64CCE933BB5EEBA3FDAB726AF7C61BCBAE6
+725A0:577C7AAE4BBC9513279FBA4A6557F9D13E0
+72655:306BB703517B77A9FD41A1C7D0186FE2F6A
+726AA:C3244339876CC53F35538841B2422BD0C0B
+726BD:2A027147645277ACD9FC866A60647E13AD9
+72865:A43C1F03977E0AE2A9946B5C7675ABA2F5A
+7288E:DD0FC3FFCBE93A0CF06E3568E28521687BC
+7294C:0885E4270694B6030280C710C49BA0A6AA1
+729FA:F160290C31B7DD012BBB0B98A197287160E
+729FB:208EADAE2C31B38B248372062745EB5C44C
+72A2A:D007954200A0B79B20E65D37F513B6472FB
+72B34:47E4460B525D0383AD1B26CEF1BF13D4193
+72B3A:73D8B2F4C579101C6929A705CE51966894F
+72BCC:76BA11A34A2153147A45FB74963968B39BC
+72C0C:BF5083E6405F6E565AEBB77C3A24750DE96
+72D94:8B845714CE91D664A8DFA74F4B892C34187
+72DC6:9CB600581D9BD65B52F8A912FCDD9221EFA
+72EDF:C94DA4E6BFB9C8BD46828D78C4F4D5E5FD2
+730AE:BB958FE56639F766760CCB2E7C5516AD8DC
+730ED:BFE54BF825AFD2DA01786C71F0C1164B212
+73165:52D550131F753F1218B7661AC46B9582ABF
+73270:800A8FCE6BA06F0F53FB8F1251EC931865D
+73280:27C596A321209EA8A9F8A4D6AA8E1F7E72F
+73291:A60DA4E02EFC8F516A50AF432C161789425
+73424:68548DE011BBA36A8A0A683C610CBB6FE59
+7346A:84E2A9CF8C909C453E35B72866CD5237DEE
+7347F:D3B86C52BE283F3CA0BB60AE91ABE5F3069
+73491:97004C3C403D8DF47E2074A5996B4BFE910
+735F8:6C942CD6176FEED08206EE6C2BDE4699F53
+7364C:3758A2E040E637F5974BE310E91073801F9
+7364D:9D4BCF56DDC6BA69EBE587D77ED6F7D4E29
+73658:EF8175425068D2071C04AC52037DBA09187
+73679:047DB2F54AB6BE238CF2650A02BD80D4A66
+737E1:F676F01983854BBB1BB0845A0B0166206F9
+73C3F:9DE21E774701CE7423BD9BC3439C28C0E1A
+73CD4:2E7C18F7FBC5B30A1866FEC6BB5A7BABD9C
+73D1B:5F714E59A3847AF21A82E5B1212A2ECC323
+73F93:6B6DDD16855B94C3F9740660EEBAF2474F9
+740DC:9E1D43B796FF409456D5C28DF1C22425A67
+74279:6F1641AFD927918C130FA09907FDEC870B9
+742D4:D16F51E72FABED2EF611840DEE1168D508B
+74433:A68AEC8DC3226B93A251B0F56E6BA9A5CCF
+74494:3D2425BC781AC16D114C59C536877108250
+745D0:55D10B52143117B516DEC3632B700E8ED15
+746A6:DDE920B9AC6609F2D3FEB2D83BD96F32C6D
+74762:2E401D51E24BC1C31183A0AB5A7A8E91B31
+74978:9E440CFA930F45829BAF8DAAEFA7C003422
+749F0:7D23B6C0926D6F19D07D1C4AA4CEC9A8ABD
+74A79:D49110C52C767F59F2E2AD4A2702B69E116
+74A87:1ACBF060DDA5FC7260D05A5924A34E4C0E7
+74ACD:9D5649F3C2CB1C72DDFC993CF239301D3FF
+74B65:45280B682640E97179188B6AD60CE6FFFC4
+74BB7:C3999AD70080998B332254AE642D89396C3
+74CFB:1E143D85123E814952EC4051C5819DCF660
+74DAA:6F5BD87DE2DE519C6A8997C760758F00D6C
+74E3F:98E9183A61B53A0CE363510E83ADBE62FAC
+7505D:64A54E061B7ACD54CCD58B49DC43500B635
+750A0:0FF2F336158223DF783CA1C527E445C6384
+753AC:EC0A83E07758EB02567EAC00A835827DB4E
+756C5:627C9BB0AF6F29D53699C31127EDCC80EC1
+758FD:C6EC3217F893199153B426E53498C9B6B08
+75926:E6645F9F642924BA4D9543A6046BD7F2265
+75973:0A97E4373F3A0EE12805DB065E3A4A649A5
+75A0A:1C981FEA69A013811B3091B66D8E1457FC6
+75AA6:8783F53A2E4C786F24BD883D402C57F6AFC
+75B29:8A477A72F770ADF10F64676986A04BFCD91
+75B81:155A615A00376FC2AECB434888FB3D59751
+75BE4:19E7274CA5BB0D937F4EBFD6489CF1085A9
+76218:C74690B1A09BE4A7D98EF9341A918C8A0BC
+7644D:0503552B0D8FA37B74C403ADEF4525148EF
+76477:0A7039C9B19EDE4D0A69D51D3B20E7636DB
+7650B:9C678549614D75454A640451BA411B6E38A
+766C8:5976BFD9A808D59B909939DF4E89C33A788
+766D1:0DEEDBF1ADC15E0036094048C2F1EF64406
+766D8:613BF8392B3C865EFE76B0C123B611981C8
+76A26:EABD1426BC2944155C7E82041ECDB36F09C
+76AE6:860257021ABEA67C6428A901D698BC82351
+76B26:BC14D9ED396E0821B3D2C5D1A08C0A5D72C
+76C22:BD175F4E02FC9CF301C392C32891DABA7AF
+76D6E:0D1FA66B30E731D28A4FB55508C3E85331E
+76E03:AA06C9C190E08B5C726DD00669DAE9B89C8
+76E49:719C0A213A4AC195EF56EB91C22FF0E8010
+76E99:8C4A2CCDACC6B23FE86D1C3E9DDA5139F39
+76F0C:E12CACAD70259186B0DA052BD91DA7AEF23
+77140:6E7377BDC0C1B8CB967BC750E1376AD598E
+7718A:5C8F8DFB3F8594EE06550EEF90667681387
+77222:11AC210D9BC33D7F742D36D741C5BEF843F
+77282:40C80B6BFD450849405E8500D6D207783B6
+772DC:B84FF796ADA88F4460EE54F05B2491D5B57
+77337:00AB381DCA1BE62E439B74CEA28D6EEB71F
+7741A:4994795C393E0206E7A0D874C5E6BB27AC7
+774CC:687D9A29EE1EA797DC4DF2B70AF97A027DE
+7751A:23FA55170A57E90374DF13A3AB78EFE0E99
+775BB:961B81DA1CA49217A48E533C832C337154A
+775C0:93C98C89F177A2E02CF4B450F78B85916B9
+77727:97AC7B01015D655BD7CAA7D75EBE37EA5A9
+77778:7A17006837A86375130B58DB6E9D8AEE900
+77788:B10342ACE74E4A61A075139538B72CD873C
+7782A:FC9D36EE81DFC950662FF41B5997FF75BA6
+7782C:1DF18E611A45607A2AACEEC3D32FBFD4A60
+77862:B117C20A39A99F3378E642EA59193C16DAB
+77887:A67E331955EB7C16F1F552EE8EF94E58043
+77957:589EFEF624ADF6A029D863B48CC3FF76D07
+77978:EA66D77C43DD6D760CBFFF4E04D4A1DA0EE
+779AD:1B78C69ACC19D82F2EFE640D9D75CCAE16E
+77A56:70A852F91B2866E7A278B820399CB90557E
+77BCE:9FB18F977EA576BBCD143B2B521073F0CD6
+77C23:A47C14D2DCA0719FD3D3B895EED53EB47C2
+77D0D:1BF29B51E3C4277CFD9D79045337CAD3D68
+77D98:D6B24964E91395460BA45D2544B56E4F813
+77EE4:EEDC14E828126159A59FAC26DB3C74B6A4B
+77F77:DD74E1E8113ACE6522F1525DACC38DBD438
+77FFC:485415FAE1F0179BA3AA6C2939BE755BE4D
+780B8:AF5BD8EC210898A3863AEA25335BC12BDB8
+781FB:BFB2E44856D31D6B3FC21C9571C703FC36B
+78296:0EA4908A4747A19C975CA6057C9414C5A2F
+782F9:B10621E362D5BD0DEF3A279B5E0908C9EBB
+7841F:6635F60F9A72FC777E75F4CE8F3025B4F72
+78459:BE8C9B8EE1BC344D297EC165CDBC15CC2F6
+78534:731605C2F83C7CD5E5627E49BB7C95C0F4A
+78694:4A4DBB70BA91A855BC77AECDFCEADF4A572
+78905:EE1A48A17258447B961A0ED6EAD84460288
+78988:010B890CE6F4D2136481F392787EC6D6106
+78AE1:B524FE8F863B7750D349AD21204E9BF803B
+78AE9:FDE58BB4D79BC740C99BD0F2FEF77DE02FF
+78B06:AEBF1E24675C1710FBA15C406788D79D9F7
+78B21:71FEB8A12D661F0CF5B234E17A7B11DCCBC
+78C04:E2E5DCBEE9AC57552627BE8AE6DED7882D2
+78E23:0FC28E5BB411E7852D09896B02FD8211BFA
+78ED4:F2ADA6256930BCDA910A937C5A341314BB9
+78ED7:DD9974E651AA4AF85B7030D7CE39B36544D
+78F16:6948A74AFBC7E9678902E6344A267CE37D5
+78F19:15956A269D81BBA0C59F5BE21D0FFD2239F
+78F38:42F0201C993FEC13905F2FF9EC3FDD39056
+78F77:EE6344B2E266112A3E0E1D3027C39E11262
+791C8:EB19D03F5207B1D161CAB78D187BDFEC06B
+79240:597EE3608246B0F9075DB50E56305DC5F2B
+792B3:8AEA9CBA74A075B018C9E4A4D2FBD037E0C
+79631:C02590AE7F54F8F0A85F544A2EB16B16E92
+796BC:588F0B9FC9B8493C94ADEDF8B6A797B715A
+79700:9CA0DDC4EDE177EED0558234C5FE2C08376
+79743:B700E5F4AEDEC55EA66B53C26A915F7CEF2
+79781:88CC32211108B87C77F13D6AB6C3E9E4AED
+7978B:0D9B8F0764BCE7434E7197F755837724CBF
+798BB:AC31C07ACC70053097CA81A4D8F94431F0B
+79921:A1ECD86E36C0FA50A1B5D4E0F6EEAC76E43
+79985:950B5E09FF5DEEB8B72EAFC494104BAEDC7
+79A73:C09AB4156CA6895CEFDA0C9BA19E733FFF4
+79B33:3C96EC99512A3BF72653B23C7ED8A52DC42
+79BFA:6F30C31E7ED64B021892CD2A1708261F08F
+79DA9:EAA3469EABD7DD1AFB249048331B2D64341
+79E11:43EFED0E1EECF63DB37315EAF8D484EACD0
+7A053:59C71EB2FD1833282A1E8B90856CA0E5E91
+7A055:6A50F17DB9B9BD77298C11F3CE049617F80
+7A06A:3D139A050201FF57EBF6CE63D45C6D16532
+7A0A8:1B63C8EA009BCCAB81031FBBE150B286AD1
+7A199:4999D181DEEA68E4304B3346E78F838ECB7
+7A1B7:3BDBC92A16DFBFA6DFBE2C7F15A15F2042C
+7A22D:73D336ABD6281D4DD71080220A230CB79DE
+7A267:602DB5CFC195538415376EAB4E41FA84165
+7A271:5047EAD6A82DF8F71A32D2C810DE5BD5654
+7A29F:9B04683E089B267D8D6DB1C9CF7C2022E4D
+7A4CA:C3103D9B7658626D58AB9A1CA8341E1811C
+7A636:66FDC03DAC15C89106F9AD6EA31DD0388E0
+7A749:0AB46647FFF496807D7BDC1796517CFD85C
+7A83B:7D5B4D389343269FB839A9DD7A55DF16E63
+7A879:CF4E410228F26511D07477CE370B88BE711
+7A972:D073A74492EC2621FDAEA47931C0BF43BD1
+7A9C7:7BB25000374E2DD1BD0ECEA4D88CDD89086
+7AAC1:B6F04DE5A22C84AA0F40A1F6BC9C1940173
+7AAE5:9CA23176A31E4269B2EC8E2C59A3EB02C90
+7AB51:5D12BD2CF431745511AC4EE13FED15AB578
+7ADC2:AED257D100EA41F47DF3609F4BD52DD9D02
+7AF2D:10B73AB7CD8F603937F7697CB5FE432C7FF
+7AF78:C911D5B48BEA1DC2449D9D89513ABEB4BE5
+7AFAA:0A74C41394C7122FE61723DDC365F322A55
+7AFDC:189F04B1C4BAE0873045F9A0E8E455E65F7
+7AFF0:3960854665C74950F430469641F755D583C
+7B0A6:9F3DA8A7A8FCD4555201AD286A458CDB2F2
+7B165:344A9C8621E3D529E1AD94B274B8DC18FCC
+7B1E2:95C4DB9D719E0254D85325F79E7CA32B355
+7B218:48AC9AF35BE0DDB2D6B9FC3851934DB8420
+7B24A:0A288B234A3E04F01289D95E6B05C8AFB67
+7B372:59E149636E3330D530CBF408F2B8C1EDA6A
+7B3C0:6BA0028F3108C8908F4E1CA28EBF62A5E40
+7B416:F595D45C7C8C83E380097AF3EBEC76A076A
+7B5FE:DE4EFB3C6782EB7284A3C99C1F303DF38FB
+7B65B:873E5D3F3C479E09DCF46690BCCE87187F0
+7B6A8:8DB360FA028471599241991EDAF55891273
+7B785:8E42B9997C95DC302A2D53767DD56BB6D7B
+7B902:E6FF1DB9F560443F2048974FD7D386975B0
+7B959:7CB98AB4A4CE98A0375B5E3021B44F5E4B9
+7BB88:1F925C3700218B1323B25AC74AF0F097AE5
+7BBF1:937A88394A9E6907782443E5864E16A5F40
+7BD3F:297BBFD4359FF740509B2EA2B1CA733EB35
+7BEF7:6F64B2D99AC53DCD52225F88615BA52FBB9
+7BF29:A335B2D027B09580B99D9CB58469C42A1D3
+7BF57:B851984383F400DA6D8FD3615D4A11A960B
+7C029:C0BB067454E8755DB1F23B62DDEDB92742E
+7C0A0:5D66003548009FA9DEA4ECE07F77069784C
+7C165:38DCC7F952F797EE4AF26C71FF98DE69DAD
+7C222:FB2927D828AF22F592134E8932480637C0D
+7C357:F5B65BB67A576B74F82D786E5C9B5C2BD4C
+7C360:7B8E61BCF1944E9E8503A660F21F4B6F3F1
+7C4A8:D09CA3762AF61E59520943DC26494F8941B
+7C4D2:FE917374B62C695E9D6AE77942C1C4FE5BB
+7C6A6:1C68EF8B9B6B061B28C348BC1ED7921CB53
+7C92F:C5CF65F2BA5A464FB79FF7952D9CECDDA49
+7C95B:4C1282FCECBBA982009DC5F3D84FC4B44EA
+7CB2A:5359DC197403D99093BD606682BE5B8A753
+7CB60:B424A256E77CADD4AB219EB786B602FA34D
+7CBE1:7AC33DCE706213D3436188230AA00EACA27
+7CBFC:4D6D2A91E7FD1436A544AC8FD510A1495A9
+7CC91:8F959308C71F292F9308E7A748ADF4D1434
+7CCDD:8E4FC120883C7DB2E2B559AD3B1A30AAFC4
+7CD4F:16768A5DD35C825ADDA1F6303AAEA058FB3
+7CD70:21A458B5ADFB1DA5B5419AA8E53426A6583
+7CE03:59F12857F2A90C7DE465F40A95F01CB5DA9
+7CE68:E2C9F64403F1D725DD354AC0C7FA51C7472
+7CF7E:DDB174125539DD241CD745391694250E526
+7D048:04AE71286D46A2B06A736B1B9779C98F36F
+7D07D:2BDBE9453A084DD82F96640BEBBDA26852C
+7D09D:488B5D724CE60A92626090AAE74D75DF435
+7D1BF:1B77568500BCAED08EDF5E06D65628F54E8
+7D1F6:CF7B6A9876E10372C6EA776DD204147DE72
+7D2C5:C6FFB2BC0E7279144D5ECFB72BAC3CCAE18
+7D2C9:D339903406837F8720CC3374451A4389B34
+7D3FF:BFC24F8E4C47AB28184DFDF8259D31D2DDE
+7D44B:C449C2A26374800A503F10F3D8949505F40
+7D47A:6D7FB042BBB7E5FE1ECE7C2E28F40A53A59
+7D4D9:D396AFFFC4566AD0FFB837A26907E299EC7
+7D4EE:BAB7CE33F2C5D6D8C6240CC8FE65EA14CD7
+7D53A:78B95E36350D1AC060D87F09372C7C948BF
+7D65E:8543752C857B95FC899AE8929B0794C7360
+7D667:5BF55DC10DE981C413CE1239124C7BBA65D
+7D803:673A0B8C64E97ED24F94181F066B8559D46
+7D8B6:B001CA891CEF22F53D49D9EDC78FA1DB5F6
+7D8F4:B4B4613DC7E15333E6449692AD4AF502D1D
+7D941:A67C1A47DC93B3C9A96FDDD8F86F84DB31F
+7D9B7:09ADD56B601077A03EC1BA81B6B6FE44CAA
+7DA7B:FDA27ED0679AA6EC15D466F5B1250E51554
+7DD2C:11EA9744000A194A36439182E9ACACAD6C2
+7DDC5:E8FBC0B867D8955038F4B20DD28F9A59C85
+7DDFA:E762B0E3B67B6C7D017022C3C2E5F016860
+7DF1A:BB57369FEA176583B63B88E425952A56C7A
+7E063:A2577C0372E2FD959F3DC831240498076B5
+7E0E0:C4012FCA9F0A18C802DF01E758713A0751B
+7E477:93D14AA02C7E1024B432D8757727FDE3920
+7E51A:02FDA6EB5A239BD4D3BB470A9B2F09DD0E9
+7E530:9D90F660471ABE5B6C696DE1ADC9C4888A8
+7E57F:9D7F735A87EE67F1BD0F95CFDAD163D8846
+7E650:35EF8BCEEA890047CBF1F1A0080AF934E65
+7E71D:073F91ABD43C66B089BA70CCF3C55A2A002
+7E726:88E04544C8FA38E0308B226606EEEC94003
+7E836:8C765068388463275E3450889E3B7974ADF
+7E8B0:A3433F1210A9699D85420E363A1B162ECAC
+7E8E7:D0ED69DAC1CF7C7FAE259E5BD424D7651D5
+7E90B:D2EF8D411F30185560FD5C4EBC23471D678
+7E957:D9933FFF5A06E8B37D6E57A682BC121DA9A
+7EA0D:C7EA7895ED313B007D3111890BE732085A2
+7EA35:D812706D9213868749011AF1ED4FA2F6AA0
+7EB3E:C264E63186678B54E645AAB6EDFEE9A0AEE
+7EBDE:0F6D9A04CC29923BE13099F9BE8E2AA2C18
+7ECD2:74AC97B349496C3AE51BD13AEE5194B60DA
+7ECFD:8F97B4729C6FF0799B0B4D40F870083B461
+7ED83:4F73CC3C84C202A29E1FE8DCC1A1C9E3C51
+7EDA7:7675FEE6B6DCCBD9CD01587B9BCAF74E7FA
+7EDFB:FE5160399DC3D11CEED39F21446882FB563
+7F04E:BC02AFC7B7100B99672BECA300233B10210
+7F087:1085CB3A34C4B02428E49B07CD77E0231F4
+7F0A6:9832665663D7DC8514A85851DA66084D49A
+7F0DB:28C577F568C2904F69698616CF7A603F900
+7F2BE:99D71F38FEEF79D926C8F8FFA7A41C7D7DC
+7F31F:3E068620523FC302B201E042B1B253E4323
+7F605:51432428954229940AB442CFB93E149C5AB
+7F87F:915CDE85EA629B846F241976C876F1CC3E4
+7FA07:D310B7AE7CE262010961D7935BDDB3EAFCC
+7FBAB:7792163B4F428AF58908C61B3C6A5E8C260
+7FE00:14E58D83883C10807C16972A82BC5C6F187
+7FE8F:67A3DE31941FB97D6C587C07FA66DD68B04
+7FF5A:D061E6BCEDBC239D64DE430594D940E6A1A
+7FFCA:5FDE98CFAB4389B6AB518D41237B40272BC
+7FFDE:AE88C06D7F940687DAE5F657A65EC7434F8
+80033:5EE3193604A70B64AEB9FF9BD9DD3560BDC
+8010B:86E8ED8EFEDB54EE6FD6A769E58BBC9411C
+8038F:00CDAC35745D6EF5B7190F6A3073D538276
+803BA:D6BEF95C4D195B7A8A8144C067F1CAA1E9F
+8052B:E4EF3692E603450F4710649536EEBDF8564
+8085C:3607495239A326D7C23ECB083BD543916D5
+808D7:DCA8A74D84AF27A2D6602C3D786DE45FE1E
+80975:6344714AF6773724A5A9280F2B9F155B0D5
+80AEF:E2D17198CA2DA819EB98EAE4EC2353495D4
+80B6C:49AF86E654AAA3143721CF453BEE663B979
+80BBD:6A0B640B2A54EBDCD903ABFCEA6EEF4844A
+80E55:C10C5B6374CD9C512157693B0EAB6D3F2BA
+8106D:01B8A13BB52E8BC3E0B0A7DEBD13AABEBA7
+811DE:23A8EBFB3BA151A220DFB7994A7712817CF
+812C8:F22D35AE7EC663AAB4416B98DD58F6D1F25
+81349:B1B43652A676940B9ADB54F889CF84F8B40
+81416:BBE53E559261390CB25B080B39159B9D563
+81434:D86662DCB714F33FEF318AB9A649732BD43
+8165C:82EFF69D84781CD1B0494719C702126E25B
+8182D:8BA131CD557E739634F67E2FA020C011ACA
+81941:ADD3E463581722BAC84D02282CAFB1C32C2
+81A81:C3D13ACD3CE22AD52EAF81FE8A18931BBD6
+81B22:90678E8AC977B38FB9F65126E4020E0F41B
+81B70:F7E3A46A67C960C01EE449AA4563AB49C73
+81BE0:7C43EBAADFF763E9D54BB6AD93CDAF03D1F
+81D13:DA335C6510B619D92E0926A5350F9F25DEE
+81D88:79028143192238A7B101AD4006C24A4238B
+81E67:5700C80E5DF9ED46691A6FA1D41E47B8412
+81F97:3184E216DB9B3EAF00A360C639C6C18F3AB
+81FB5:42143851D91F85A584A1D12C621E04736FC
+81FE8:BFE87576C3ECB22426F8E57847382917ACF
+82216:3C80304A3B32A19053127CFADA983F28978
+82363:8DF856E7A7B598A2C75FAA7F4E0904AF195
+82419:490EE51953E4ACBB4C45051910740E200B7
+82459:6230518EB3C35FBEF0E8C21F422322B1F87
+824D1:1BC5D0DD9C5AF67C89645876EEB233092A3
+82569:F1D6DAEED45FE2DACE8AAD9B036D06E6D3E
+82916:B7722B74969CFBA47DE2DAC53C83552FB30
+82A40:9F3109F6231CCC7E0F7A128150CAD6099C2
+82B44:5DA59FF379F20A7DC9C72F2A5E128E6D5D6
+82BE7:6F6FF4A917E18720FA05EC51FDD0C0BD241
+82CE4:2FF07B94053F7F82C0409AA7CAA5276E326
+82CE8:0685E07AE029F5A33E58EAB374D5DAECFBA
+82DA6:7B211249624F24F3C7DB5642A5112C9446F
+82E4B:C54E431D62A1053D1B6D7A45D602C7FC778
+83086:51804FACB7B9AF8FFC53A33A22D6A1C8AC2
+830FF:352BC3E51D7C941940008F7B25FB23D56A7
+83172:794E6513643D3CBB7F848319E9C83A62509
+8328B:5BA7C9B0AABBEA0C5625FB2D28D20DC07D9
+833F4:663C0A41973917D52B25902F1A76998D359
+834D8:3B4BDD599D234C0B145E1DA6CF9370B7845
+83592:796BC17705662DC9A750C8B6D0A4FD93396
+836BA:BDDC66080E01D52B8272AA9461C69EE0496
+836F6:36DBAF996C4B1E7F4CE66F4A62444F49C3E
+83769:22A27E83B9EADCDEC3596A70BF6C4DB5730
+8382C:949071C990740C62BA967484DCE09052847
+8394E:6F22A450B2B89FDA0177F557834DA3BBA71
+839E2:0EFAB4BFB25AD771097120F46C295FEA98D
+83A6D:F79C6A7D0ADC80C4E9FB519CCA33108527B
+83AA9:AD8D4AB47EA224CDB5554CCD46E7BAA1A33
+83AD8:510BBD3F22363D068E1C96F82FD0FCCCD31
+83C36:10D9779A51A08FA3EC4CB5AEEF239EBB645
+83D0F:417CE80140EC34A1A46B43C4CA2A1C89994
+83D5E:2F584695B97E0C426F1237F2F0FC522FA3E
+83DCA:3A09F52CEF3D442EC55A6F36F11E204748A
+83E8C:EF8D84F02139290F90F29C0338EE7B4C246
+83EED:B93AA8574C8BD616E6CA4E71BAF7D4C6262
+83F24:305155FADFB0518006A02C8F870BBD9A805
+83F6D:B5D7902CF7F6D10FFD4B6563F6CC2A6B2D9
+841A4:17A8EECF81AFC447F7C75E9FA56E6AEDCB8
+8420C:A204CDFCF7782075A6202073C9FDB053ED5
+84463:E52AC051929B7DEF689C638D41E94CF7A77
+84498:2F196EA1D7336FB998FA8FBEAD2FA68D1AC
+846B9:0266CABF4B353BBBA66C67A975F6510709B
+84776:38F55D847D16CFB0AB926ADA6C7DE34659B
+848F1:4B899347CBA496A0D240AEA2638478BD097
+849B2:8DCBE2C37B2C60D994E5DBD4B21535D0701
+849E7:2F5A2DFACA5C2046171DD184F71B7266153
+849FA:636D4A3CB6FE18AA28B3316691142C35993
+84A66:08CB2120786EBB85CFDF8A0144E4FADCAC4
+84B23:E3A3DD55211BC0E621F57A4E0449A5BC34A
+84B7E:6E77B94F7B67836133B3D0517C7991BBB97
+84D7A:3683A000812380273CAE6AB4C3DFB968E16
+84DE6:753B298ABD027FCD1D790EADE2413EAFB5A
+84ED2:27CE803060DE56EF499E4926424C35E479E
+84FA6:B9839516C739027F77B1EFFEDE065DFF231
+85435:454ABDC6ED91D70C06F8DDF8F5FD4CFF610
+85541:F05DCDD9C8E7AAB259A10798B7E26C79F5D
+85632:E84EF840F64F767B039FF343C23DCA975E9
+85733:ABBA39474DCC6B77EC713CEA4E8CD3CEBD3
+85BFF:F95805EF1E638C06EB92E36416EB92E9408
+85C12:D7F9BC094EB6EBBF4EF231D1ECB3F5DD15A
+85CEE:605A1133ADE9F4DB0E247880C7C471A0E3B
+85D0E:F826E0E5EE5C118D43E1857EC2E5DC27287
+85D37:F70ECFC0B3EF4666ADCA4EF9CFF987F956E
+85E71:CB1DC91E6CA6DA41F968BF1271FE87E088F
+85F75:E55B1C8DD6C8B2EC99EEAB4225290702F89
+85F94:0C72D551AB70C79A22134A14DC2838D31AB
+86029:D25D9A7D9F1BB9F4B0269EDAFD0F4553E68
+8602B:903E10B3A8B1D2F753B8AFCF424BC8FC41C
+86234:AB8A6B337071B5131D1211FA04D25A50508
+86265:B4E8591BDFCE4D88842BA476EF216511E45
+8631B:38046949ED166010E6B43DF8CD829A85885
+863DA:E13577340B98C4C247F4A05B204A3543248
+863FF:F3D3F4EEA01DA175363B8EBDEE57407709E
+864A6:AAA98DC7B06245A2C6C7F5EA72D5BA460E7
+86526:5970365AC705F994163BEA6E8CC47C18438
+86572:84A3798F8FA9461741A46907D714BC8F789
+8681D:2AA20F41C6C3492E6C5DEC83E94134BC705
+868D7:199539D6F1840C22FF49E6FC79A8411045C
+8697F:432058B914BA2B20C5BD6F0678548126E21
+869E9:0A1BC3A30FEEAD839694B68B30BF77D7303
+86C41:99EF2615F77345C4C8A655ED721F4BA0EC4
+86D79:4AFAD2966D2407928C6E7599C00DA88EBFB
+86EEC:F5334CDDE21205A164443414D13EF774A24
+87045:3C38769D877D8A31899B0DBA42006C1F0F6
+87101:2CDE30C5398F65C105EFF0207A895E15811
+873B2:F758793442018AD1ABE39AA47144B9DB0DB
+875B9:C4B81480DCB51C3271827FAB0CE80D04D46
+875D1:0FA6AE9879FC6D3F7A951C712B5019CEF0A
+87723:CA6BDBFF402B763F0AA9D786B19310473DC
+87987:A9F8D2B66364F449C812CD272796DF31988
+87A9A:D2E04CD1D38ED30F5EF6161BD1450AC0309
+87ACE:C17CD9DCD20A716CC2CF67417B71C8A7016
+87BBD:5E30E9D14CE8B4F1A0B25E97BE6B7B01DF4
+87C5E:09D93E2E4BA91ED6631DA4B76C2BBA789DE
+87C67:BFA454D28C77CB2056FAE01698446D281C4
+87EC9:A8F2E35C16795489761DFF275C421FCDC88
+880A6:FD061E13EC8B6B8AB870EB37A8A699B44CB
+8816D:25163FA68EDCC7B15DE269A09EFA2410A39
+8852F:0B3E65E761F439731CB2AE186CF64B5B54F
+88549:280AC6E90C3E8723DC39F6F7C913CD592E4
+8856B:E4A7E0F935FA3A930AE4BF0B772F89E79BB
+8857D:A2C44B3D6987D15CBA6727CD417A709A884
+885A0:047FAB1ECE3A9EFECCFFCF029B7C157A98A
+885F3:ECC7F912660595ED06DE45213BEC5EC6C8F
+88796:D814A38A33D7CF8AAF4FB0FEB5F6C7F6793
+887B5:8F6B6C1BCB5E9B68D09E0F6C13DA8D3AD02
+88888:080ACC95DC1548E2DD597C4F708155517F0
+88985:79D2203764C39470F501C9B92C973BAEBC2
+889C6:853A117ACA83EF9D6523335DC065213AE86
+889EF:C94D712E494DB533DE6A5FAB9314C562A2D
+88A9F:5DF8F1EB9B21F00CDB801C183293E414FF1
+88BEF:5E55F83673EBAF15534598D59DE12A3F16A
+88C50:A7286A6F3A20BD6085CC79A8E7175825F03
+88C63:693EFEBEA8E99E87827A2408A466D64F640
+88C6B:29BD51811E6B8486B12AEA2C223D61A88FD
+88D81:A103AA32E5FC3A395986E1CE42ED94C16FE
+88EA3:9439E74FA27C09A4FC0BC8EBE6D00978392
+88F28:CB5D3A0EC64E0291E2EC0C10BB933E4224D
+88FDA:9A04117E3952ACC31D335D79EAB9A68E59B
+88FDD:585121A4CCB3D1540527AEE53A77C77ABB8
+89064:E061EFE79354D553BC08509F67B06C09594
+891C5:FEEF171DA85AADD3FDB8130BA509B03F5EA
+892B1:52A73426DA7BD87611A508CC4D0B6C2574A
+89371:81511E0FD07FC54271645C2913AC6968494
+894F3:6E5FE639267301DE83D341819ACC0A14D4B
+895A7:3A52320DC2BD22E47E7BCF0176AA3CBA5C7
+895B3:17C76B8E504C2FB32DBB4420178F60CE321
+895BC:91D079A35A576E22409E5924D6C8608BFCB
+89677:615C2EC030BC5542ABBACB5C286B12096FE
+8970A:923B4BF2AF18052CE068B6BC8AD8A473414
+89752:435B5DB3BF6B7630BF310726530BE46C58B
+8975F:039CA06EE9DDBC6727496365F1F276A3CEE
+89916:8449389C1F55CD0A914625A92343DF0BE78
+89C6B:5C0F1F0EB8DB8B274A9297A3D440CE0D8C7
+89CDA:A29D32824E959969E40B0A17921006D4E02
+89D1E:7800ABAF81BA8AC15CC81ED408CFC9F598D
+89DC0:D75F58E4CAD7C9C6B8D5EEF045ED20DFFC9
+89DD0:33F7FDDB0A48AC108F860826554DCBEE6D7
+89E5B:24855898A950C2239A4574F6C4310D5BECE
+89E89:C17F877CA2821B557F633CEC3253B0AA941
+8A020:4AA57723D755038538A5156B957CDF2B0F3
+8A035:036A9F75922327F0360A1C33AC2D9229435
+8A10B:0357181C8C3D94CE7C0033E38F2CF74EDCB
+8A162:1DAE39BF1D91D372C77F441E80B8F68B9B6
+8A168:1E612A2025087B703FDF1F8F617E506B053
+8A186:0E4B061BA3076307140296AC36CC449B6EC
+8A597:71E7C81B7CA46D8224C9B074E905413510D
+8A5C1:DA8F7FB3D1EC1266DB175AFE2B8F6BC745C
+8A639:963879AF0FC95199A0B7AAA0A6A6CA84F26
+8A655:EAA113CB25EEF268557D3643FBFFE5E1B8C
+8A6B3:C5E6BA4DA6EBFDF08B068CA74F7D99ED161
+8A6BE:90E84072649B81E400A686021C6B953379A
+8A6D7:B0873FFF3EACF939291DB530FFB5195B216
+8A6F5:D35C435FBD005186CA3FE34B66E0D1F060C
+8AB8E:2F8B8D831DA45877F894A1A8208F05DA260
+8ADB4:20A51FCF7B5AF1AF646C876A68FD9382CAB
+8ADC7:B71CF3CA3BE8B571A207724F23A2E6742FB
+8AE58:DFA98B918A054DB2C41B7141411C43BDC05
+8B263:822D98FC16B00BF2E5CE15D13A27FB7334F
+8B48D:DEAE8FDA036D7E874202863133DCA496F0D
+8B4BD:7E85A2A95EC33E9DF1E683D856C697C8F16
+8B51A:BCB6FE40F7841E263DDAFF61DCD2892BABD
+8B5DE:D73D444CAA66B605782EB2903ABBEC3A417
+8B631:D20D2EBDD28E671D5565D6ADF02EA5E66FA
+8B682:1BD93899E634509843433A7F949D0566D43
+8B742:4A10AA0AA8424DEBA245BD68FF9712C9CEC
+8B768:E06908F1CD7FD6B33ACE750B5A86DF44307
+8B8E7:DE3414817D147013C4325EECC8104E5243F
+8BAE5:A9F7B06AC8101216D8AAE488B3514113732
+8BB46:9A7734AB7C44C07E17DAF2E8EDE19D13945
+8BB6B:2C99199E6265AE3E82B5183AC1847809A4D
+8BB9E:768FE7E599296476E50D58797E47ACD6755
+8BC6A:FC2337CD4E58CC596563507DC5796090084
+8BE3C:943B1609FFFBFC51AAD666D0A04ADF83C9D
+8BE93:77EB23A3A1FF6EDAA540117CFC75C183C93
+8BF1F:E851608A8B358391BF0C2BED7FC31AE3007
+8BF68:3D0C2CAB498AB9314C5AFB26EB5D9D778DF
+8BF85:AA659CA5847881EBFA39784F763D494FE95
+8C149:A4E53AB6AD8C42DFA599DD4407030EDBDD3
+8C16C:44A2F67F9F0001469358F403A2F4E179E60
+8C16F:71669B51628630F3EE0D57CC3922F1F1398
+8C258:085654083B891CB5125CB6DCB740C8A73F8
+8C278:F0B569F4E9ADBD4E2365FDCF5CC8D7E3F4B
+8C3B1:F5B641FD00D64D3514CC583F8EF9D8DEC95
+8C55E:3FC2ED55FB7C5DD9B9FB50AB1E45AEE9E77
+8C689:50E044F4C3E5B11AB907BDFC8A88ED094C2
+8C6B8:1350056B41959916CB69270FD3F240B619B
+8C767:E1E67502E57B64EEC4E1C22E68D44132FFB
+8C829:EE6A1AC6FFDBCF8BC0AD72B73795FFF34E8
+8C918:2455635E3F8653FC90C6B863A21024CF119
+8CA7E:78CAFB1F7EDF0BA946C6A451EC15F0316BC
+8CA9A:524CA27992866B42BE6C613CA251A2BD5B0
+8CAE5:37CEDC0E2EF864E80792BDD1522DC984B7C
+8CB22:37D0679CA88DB6464EAC60DA96345513964
+8CB70:6DCCB601EC747367471E6CF0C8AF283562E
+8CD6C:7848C5E7E4E9C0AA36CDAF8D591718342E8
+8CD80:7C0958A87767044A8418A2A31FD97FA3056
+8CDDD:F67316364E7070D6FB76AD3D4FA71105EE6
+8CEAC:321491CB78D25E920D5DA2F9CDE7771C171
+8CFF3:D51343EF75C459346F975CC635AB648A11F
+8D040:71BFCA942238F8813622510EA7D3A28F331
+8D0BD:9172C4484546C17C40FFD2EB702F900D8D0
+8D0F9:6837CEEAD8ADF42539A0B29F406729C1598
+8D1A8:83BDAEB94EF8269B38DFBF762128CE41483
+8D224:5653B8B6148835D94478F2324F42233BB46
+8D274:FD5E6F969DAD778C50080302BC3EA89591E
+8D33A:5E7754E304D077E240AF3401C23F70DA75C
+8D3D9:1781F477328C85F1AD724E777502D22B744
+8D4F9:51439C5C4F0C4A2FB17FDC401CF5C2F505D
+8D500:4C9C74259AB775F63F7131DA077814A7636
+8D5EA:0B539D74E130CC2EB0026E4C68CEC028141
+8D61D:0E777D7ED95EFE590E276089F60978B3C19
+8D6E3:4F987851AA599257D3831A1AF040886842F
+8D84E:058EB01D792F710A9465FA518892382684A
+8D860:CBC4C3B1E36DCBB8B67C0251B467CE137DE
+8D9F0:409DF953EEE5C832F7831C508A7F20C5D36
+8DA71:4357FEFF5AA920E358EF09F9551DDF83BC7
+8DA7C:24DA7B4822C97AEBAE3D53F1D18CF4CFDF1
+8DB3B:F6427E1C10AEF8C5FC92E03DD0DDBA32E89
+8DBAA:136C83B10834105033BDC39678A89EAEC9F
+8DBFC:07B3F68233FF8C0C8E646F8B9C51051C050
+8DC1E:C2610AC7B31322E68C50D7FA825DF55A06D
+8DC2E:533F34E4D10BE60F37E8A7E306C328B9670
+8DC80:3D112DE3C2BD5130AB107B2266F23D449C1
+8DCCC:13F7DA2BA97F17CA826DFA17F87DB5FB52F
+8DD86:7FFF28054744867D5FBCE3C48FCC8D9E71A
+8DDA3:814743B26CC2371F4BC1106B4C51F4AF076
+8DDBE:2DD599FD965ABBFB228342A444B9CCE1214
+8DDD7:AAD99E33DC9F36D0A7E9DC4A35AB6C7860E
+8E0B3:EA5041C8FFB5DC7B2942C8230935A2AAC5C
+8E244:4901CEE442ACA9531FF10BFE92D58220945
+8E41C:D90BA9412629C5C247753923CCF6897270F
+8E440:8B475D63385A73AED2FE911DD9818E82FB5
+8E45B:31A46BCDF17990203B2DB262CD5DFC59BC3
+8E5F9:58527E457833B1C9083C155C948411DE05C
+8E608:A0A0061868B81F54C5CE4E734B8E61F4FE5
+8E626:55794A57B5B376678AA8958C2F9B13FBED3
+8E667:27BFFC14EC948944BAE1EC5E3CBE803A4FA
+8E756:C9F2B15DA6A63F84852FC39667617523133
+8E7B7:EC83814E609841C3B5C7A34E7749E006E76
+8E7E6:FF3DDB57F0C05144990B0DB2F9043FD75C4
+8E8CC:12502E206565058FC311917A0149D9B802B
+8E8F9:9391DCFE35703DFC5D4FD6C6A09495BD5B4
+8E9AA:44F0213DD799BC1701C170F861E0618891B
+8EA2D:B31E0A05B9831AB4C98DCD38F5D1DA21619
+8EB88:2351F65E6AEA0E433B668C36A728F3D8438
+8EB93:10F5F15369D401615739B1C5D04EBFE80EF
+8ECCA:40F91FF62F4F1B0A664B57048A7D1BC148C
+8EEC7:BC461808E0B8A28783D0BEC1A3A22EB0821
+8F0DA:62CCF5A95A280D4FB96EE918EE599E26949
+8F13B:5EAF8E4637B88681229990A17EBF5C916CB
+8F148:7BD5E86F00433346935983ABEF6B10B422C
+8F217:4C83B060AD8A652B5070A46CF2CC46314F0
+8F263:DB9E9E6E7259866281DB399E16FAC312BBB
+8F2CB:710EAFAFFAE577977E4A506C11A939BCEB6
+8F2EF:45764B6C2803CE0D92533C6D81F01F090F0
+8F368:579CA5EBD07137878362DA43254FFBD00C7
+8F48B:8A37D8A616532DA324CE09655483F2B0C97
+8F626:B066850C9EDE7A4FE6780D0B88B28482D62
+8F6C1:6F281F18A524EBE5AA3CF27F1FDD177DED0
+8F7D8:8E901A5AD3A05D8CC0DE93313FD76028F8C
+8F8C5:8FD8545889EBF46C55F18FC9AF89F150BAE
+8F8CC:717A4040B695B56D335D4FEBF300A5B2AD4
+8F986:A3BF91713E1FE119212FF48D8DDA2D6F553
+8FB32:8664C4D29C40D6A6FE3044E711E1F8CEE0A
+8FDA0:4E78DD1570A464EEA06851202982211165C
+8FE5B:BFD83BFE455F14567D8BC5D2AC06F8806A5
+8FE6D:86515FB41A2B0BEE1BAB4CC3C684EC7C1D2
+8FECC:D3EDB6C1C4F3B564E71F2C5FA012E4BA05F
+8FFA3:91AEFD0F41A696257D1DC577524E4E2CC10
+90093:37CF16333F07109B593405CF7552ED8059A
+900BB:4B777D678AE806E2CEA1556D4E086A9889E
+900CD:BFE080DEAFF2CE2B122B042DBDE3991F1FE
+9018D:E68DC245281CD1CF1DDA397EDB0AC6E13CB
+90228:3E321A5C142C63BE39B96194B94D7109D0F
+9039B:F8ED31FAECA8F7A22EE9251628DB29A0DC8
+90421:69B3A4B92C8EB89B1D3ACFFF6F99D4CE990
+9076D:93379791576B620ABD9B85D761C3624BAC1
+907A5:4197AAA7F00E6CAA9E0C2B16B61DD7E54B7
+908ED:F2E99B3D45DA7C4C4AB150C969BFA1310CE
+9095D:99135E0B11AABCBEBDA22A511E8D35EC599
+909A1:CF42797B2CCDCF89B78E9DFBDED1B47339E
+90A21:FB75480886DA68D30DCBB11757796B91E36
+90A3C:EB748E721DA50F92311225D7951F279F16F
+90BD0:87C2082D376A98BA3F54EB25159D967A521
+90BD4:D7CF1C75EF70172F5CE13FCE76C4BD059CD
+90D2C:FB22509D3A85F094931CED9DDA6739564AA
+90E01:D6464588B26C3C8E17ADE1641D37AE6B7A7
+90EF6:C7E59876AD74EDB52B9676EED4AC65CD686
+90F5E:9B39DBFD226E26800EC28673B58B8CF2737
+91054:711192F81D23D086B04A550FFB3EBF84EAE
+91068:A69BC165D3B23B0A9F469379FB507456259
+9114F:1721082B45BFB18FA701337B8EDE25F7A73
+912C1:06A14310615DFE86B9B571CBACF77849A6F
+91316:2E01DD5263AE42AF90C62B9F5A5C890AE2F
+91329:9EF2EFB0014AAEE2103A57281A6CCA71C90
+91367:1C1C2850AED7C2A06A0848C79F7267C65F0
+91421:77CE2A6B3FA92AB4FDAB142629FDD38DE12
+91581:AF0B7BF8BA283865A5C691D784DBC8C64FE
+917FF:AF0B1101EF1C2621FC42F591F47AD41DCCC
+91829:52D5811BA2F6BBD9A0A7451B025D6C91873
+91875:EEB404B6BD9B1686474F8E987BA4EB3D090
+918C0:DF6E613EB5C6CB23FDFD84C723190A9CC47
+91984:5C9998EFA7FCFF467BA43BD70AB886D1B5D
+91A5C:B83C404E00F31CDD8A7DA420778F429BD0B
+91B6B:8D09BE4BBB4C5EE10936B4D65FDD5707F7D
+91BD9:7365A9056B2133C346DA49AC34CDBF50660
+91C46:B06093551106E43DD903DF0D9A4588DC9BA
+91E09:D0708EC4EF6ED88032ED825E9522792792F
+91EF2:7FCE0BE9845EE70BC7429425FE184C9468B
+91F5D:0BF511225BB4C9F0C806B4DB6EA93C1A676
+91FB6:4276C08BB21ADED26660F7D81BA92CEEA7C
+9209B:583727818671CE8A9CE8068D862BAC8D645
+92119:E2C63E9366ACFEFE818B50537A85577E2DB
+9233C:CB325766AF9FA5F4C2400E006F857D785D6
+9235E:4C69D137CBDF3EC2A30692BEE774BDF5E9E
+92405:D6B7ED3B4FA3D444422C01EF0C196D4F122
+92429:D82A41E930486C6DE5EBDA9602D55C39986
+92464:5B3E345A600BF94AE78F01C5886CC320A89
+92630:51707ABDAF86F2FADE3A4FFA885A6246974
+927C4:FD83BCD0FDCB686F0782427E12AA4A7A2D6
+927F3:0A24726FB67D411440DE36C82D201926BC0
+9286F:A940279AA33E8E47CA7DD175324F333E4FA
+928A1:C29102DB5A2CDFF0140C406C7ABF9B0F04E
+928A4:4F8C3389D2E63CBE7BE516042F3E28C3EC4
+92DEA:A63A038D93EF5D11E84CC6BE8EE5F07F763
+92E60:6DABDC0196E9225116FE588F31DF3867684
+92F4E:11169AC16F9DA274C6E52CAAF101B29DD74
+93236:6717C9AB558D72CB1473475E36F3E76501B
+9329E:8B1C609979CD2BCDD8901437CA591CAC1C8
+932EE:B1076C85E522F02E15441FA371E3FD000AC
+933BF:21AFDD55A0D2283845FED0E7BBDD1F5DB49
+93506:5A8BB8BDB9A82798800B457F1C041F63472
+935E2:65F3CC34E56AFE2152E0F3CBFFE682BB766
+936B4:36777E242C3691D08DBE9A7660E42AFC1A1
+936BB:7BC2BD540D923CB018AD6E7D01B858BC3E1
+936FA:92E3681CD1979871D76998D392BB9C1699A
+937DF:AA19F2392D8FFC76D1F32082423FF4811EA
+9393A:82CF1E3E645C0B8539E82F52DB8B0485102
+93A47:455E3EE73B8F3FE85650D2005FF6816A422
+93AA3:925A5EDF52DB11DF7DA68AD106BD30A952D
+93EC7:1B22793A81569C94CA17E4D9C293D8E201F
+93F51:0B18C3EBEC1CFAEFC9BC60A1A395C9B19C4
+93F5F:087F985BFAC2097339066D55C093A9684EF
+940C0:F26FD5A30775BB1CBD1F6840398D39BB813
+940C8:3FBAE5C96E2DDF42609ED86681EE582DD60
+94132:6A103FEF8880AE3561E494A889CF57FF154
+942AB:F2045BB502EB32FEB8595E41C781728A395
+94446:C2BBAB1911B0DD3B5424D3C9779D7FD2902
+945D8:D4F656C99A4979EEF33868E6A15E45935E0
+94781:8DDE54000A5D31461801F021B4E6A924415
+947C8:44D900B26A575AEAF8EF37C3851E8BE474B
+94AB2:ABE64F10A1BFDF2A20E4894E6D5BF78AE9B
+94AF6:C4088103E96D349B87FE76774686B86FAA5
+94CA3:98432DA60F0DC3981770DD9FEABE624BA9E
+94CA8:C090CEF46CA7EE749BC9A6F70CC8232A8B3
+94CD1:66631D14DAB533858B9B47E9584A2FF3F65
+94EDD:0419718C6536DA4CD7A98B0BF2C2800D176
+94F93:9F8106AF81385EA5B779426A6DE0E74285F
+94F9B:E0EF3E4DCB2D8C14C2D134A49A21D4D0792
+9514B:7429F221AE60A832B13104D2FCC3FF29039
+95336:56D4E7FF6D68355CB6FBCCDCA26CEB067A9
+95368:5796B34F695888E4DA7FD28E83E2EE66081
+9539A:91D5F7C412F30D7A1E3F851401EF6F773A7
+95478:4DF6E43718CB429B31017422C3BB3C4E5DA
+95653:4F1EF9F8E4CE788781FD8DFDC2422FB318D
+957CC:21FE69B5D057AFAC6E6F5A39BD5C3E31E25
+957D3:F6A269B35F467EC0986255C853998E59562
+9586D:E00B909EA4E42ED2D752AEE5F46F7DE9C00
+958ED:77D125603751C29290E9FD835262870FF6D
+959A6:D8895F4808D3E828B0B17C4370F8A3B223F
+95C93:05093161286E317B33167F7CBA5175136C1
+95C94:6BF622EF93B0A211CD0FD028DFDFCF7E39E
+95DDF:4208EB2B0CB97256003FFB645EAEA6FC3FB
+95EA0:69691E174A7FFDB7830F5D1FDAFFB34D940
+95FBD:B3E3D93F62058F8C18ACD1D01130B16296C
+960E3:2B67B7B26265068BE1E043C341DD2A1AA62
+961B8:3797DE521E4D951338A764A9311262572FC
+961C5:40869680A9F272E33B12F967479F29F6DE6
+961FF:C011425D18472B88161B149E15DADFEF1D3
+962BA:B0AC4CED378CA715324302ED56BA85D9C98
+96375:9BF13A02D181A804B57F4351DABD366254E
+9653A:F05F246108D5724E5DA6F5ED0E89FC69C02
+9663E:A9A5E57758C0FB927047C5F68788ECE4F49
+968B2:9F44430D27F5A5C5F22189A1C4E66A1A8CA
+968EF:4F4C811EEF8F4DA6638E0FE3482A2500F0A
+969A0:62AE3BE2EED1FA8C92BE82B45F4A2487169
+969C9:040D88C894C4C1CA48261517061C1352A5D
+96A38:9EDC9E732AC913B26743124A360249B3149
+96A60:153813860C00A861EAAEA66AFFBA9A39558
+96ACF:B3F289C2971AA553881A72D99731963FB6B
+96D3B:37C304F1BFB23011F90A7849F0DF8C0CEEF
+96DE5:543D183D7DE52AC5FA21C46FC811F673F89
+96F38:8C6576F56C103996A0789A5013C3C3C0F9D
+96F6A:302371B09D6E077CB3E2B078EF918D7389B
+97063:77A84DDF99FA147D587C02C6A684C7A3465
+97166:84B88E630E106BF6A4677C5B9C896D70119
+971A8:AD6B5885899CA673BD3C0E5A68296D77CDC
+973C1:93B1FD3DEDE0CF4D052E7E07CB8B8FBBF82
+973CA:5F4C8E4424F491243BC31017A33DA5014BC
+97485:B2441E6E42BD435206F0FBF914716F16EA9
+9752F:B540F7084FF266A7A6439FE883C380CF49F
+97608:14E30D0440B1DE44C859A88B2CE8B084BFD
+97627:2B40FB37F813D4A0104C7C8310FA8D0E85F
+97638:3B3F9468F2C3E6F30BA42CD9F12055390E9
+97673:69A3EDE5FF362A8910D03271C1B1D334566
+976BC:050C0DD15429FAAB50A5616F2B883C0F7BC
+9773C:34426FFE2289ABC0AFF290BCEDADDF32B77
+97771:8E064F1B44AE134F3266F69B3F59F68BEC6
+97968:09F7DAE482D3123C16585F2B60F97407796
+97AF5:9D37C6CA59D522D2FCD51C0B4D874351D35
+97BBC:79679FE1CFD9AFB52FD6F01D033B479555D
+97CBA:A9A3EBBB8711F9EED1ACD1FCB41F8539EA6
+9802F:2F55B748840D9E2EC18A548230105EEB4C2
+9816D:537E76EE2664F259AAD9A25A32200C6DE8C
+981D4:B547640DCC52D2EDC9BE6216CB4CCEC8442
+98358:E56356329BEACEBB3EAEC05760BD8BBADCB
+9851B:7A2F0E39DABF91AF59CAA2F1C69D33EB090
+9864C:BFDFDCE1AAF6A2955301076012F36900B13
+98781:339DA92BF313A97CCB8C1505AC7B4755D79
+9878E:362285EB314CFDBAA8EE8C300C285856810
+987BF:F91FE6E517AB6D4748B6978D51CEE6DA3DE
+98850:6D376BA789DA3640B49E2B2ECB5E9B9B8B3
+98905:BB10010F8715FA445650F8393C73B821315
+98A53:2B74DF1D551F5AB7C06E1D3438F2AFADCE4
+98B3B:C1244C4138D4D12DFD0C8AF12AC4CB49EA5
+98B5D:E6B2BFFB1BCF2FA33EDB0E358F32CC527EE
+98E30:02450246538ADCFB1E5FF3C89071BC45C29
+98F54:143AB4E86B28C3AFEE0F50F2F51CFB2ED38
+98FCD:FCD242C1557B34584398796682B971AF2C9
+990AE:E182F6E4077C8DE575D605282A965FA4E98
+9927F:A3AC960DF1E82B498845EBA94CF24FDD4BE
+993BA:4DDFA9A49614DBF10D7C8A74B78728AF3EB
+993C7:AFED352EA3540DE9665F479670815276BFB
+99515:88299ADC0A29070C8830EC1614AF9281ADF
+9951C:D6EDA18B737B590FD09E428E9E4C187B725
+99550:A6A7AE12D8F1BFBE758D56D424E78FB0F19
+9958B:1F05E04BD135DC04CB2EB15C8B3D1C28E87
+996C1:E9DD29C03D62A4E39E1556B50AF5403ADF9
+997A3:04756434D34BC8DA859035C53BEE5B00A02
+997A6:C4DF061DCFCD541BAB43D62D093B9080396
+99890:E3D5F796B359C4262A8CABCEF7AE8E1BB40
+998F8:E8355A43B498D04C28FC9C38885154F257B
+9991E:5670C1A0089CD95DA5147CB5D2FEA7CF873
+99996:B911567C83CCE17CDF194F314975C57DDF1
+99A70:6CF3E35F3569AD85164E9B84F4B85BD1365
+99A8C:12D70B425A2A7572736C317B6B616AF42FC
+99B23:E32BF0F5D77444E9F191441131D1A956C83
+99C4A:A1C1C236C8726AFA304BA56498DF1BF9F77
+99CAB:882AC13D5715B3B2E60B12FA0076DFA2FBA
+99DC7:18B051ECC25A94FF09986008830411FF4A1
+99EA7:BF70F6E69AD71659995677B43F8A8312025
+99EF9:608F2C4A6797FEF07C7390C24FF0CACF76B
+99F98:787207E815648B542AF7C805D4585B88B7A
+9A11C:39633497B46020E03D230CCEF2C9D0D558D
+9A12B:1D84266DA5138D9A672325EFB65F4CFB515
+9A29C:E2676BCE2FF9F095568A38F4BA2E3697B8C
+9A338:74B87ED672817FA1BBAEC438EF1514A9D66
+9A3BA:A03FE5557C9E072B1F02E0BD96867757A13
+9A60F:C9F461ACCB238C6E11A1E169385390AC343
+9A6BD:EF135015F031D737EAF7584DC4F8FC683D9
+9A763:1F913F68A86EE489A52A42476471941147E
+9A934:B71945AA05A35EC66C822DB3443FAB6A0AB
+9A94C:57E6509FB0127440A0E3D93DE7B17870560
+9A96D:B123B9B17AD6C5C1CF6BF88DCBB42C5E9CA
+9A98A:10B10848A62CC7B9C85CF2DF58E3294532D
+9A9BA:C33A7ACD2D885E73FE6A279692ED55CDFB2
+9AA44:208FDDF7CBE26E51C9A78E1FA7396AA3B2D
+9AAB2:72568136C885D46A4699FBF926D5F2A2A65,EF07977D9119D851AF4E469A0C56FC5C423
+9AB93:C4994F31770D6A7A1D5D29F4DAF9F287600
+9AC20:922B054316BE23842A5BCA7D69F29F69D77
+9AC36:E4A90C4704DEBF114BED2DD2AD6B6EA6518
+9AC68:ACE0B2DC0E38B8035F151DE8E4C26B6875F
+9ACC4:1406B6AB0F95F519A1E930CA8F856000A82
+9AD86:A97567648E09C96F4C00B5D2CD84ECD5AF9
+9ADFA:3D955D149BC88D6A7689DFC5D3A40FC468A
+9AEC9:E08F079BBDA8092FC7FF3563DA6C0D64E05
+9B039:247490E238CC5AEFBFF6CAB3099841DA03B
+9B07D:3580780601E7A37029EC2FE2FB32D358737
+9B162:22371FE5E497009BC7EF51458254E73636E
+9B19D:6F30658EABFE1025728730614B49D57F1FF
+9B5AE:0DE1C53DA763DD13749814C95BB06818CCD
+9B607:A43522868709948FD805D0F6D1F13A54087
+9B67B:586D26AF805041F9B69EAD32F626E8B76E3
+9B840:BA4B9E7E879D911E49B6EA7F4A358F233DB
+9B8C0:2FED3901E82728D18F32BB0369743B22C35
+9B93F:68C0CAF8A2F9A39E2211947155B3A01C37D
+9B996:68208B3F89DA9BB0257B02CBE44EF627C2D
+9BAA1:CBB85F59C9D24B977C3564FC26541A34AC1
+9BAF4:DC85A3755C9713EC0FC1B74D6B532D2C526
+9BB03:5B4AE048EF7734665DEF45B1D0F63277763
+9BC34:549D565D9505B287DE0CD20AC77BE1D3F2C
+9BCBF:37D3DD0F427BFE34CA01FAD88A4F13F7EB5
+9BDFC:3CAFD445BFF4C865B80F50AA43DE52DD817
+9BEA8:6AB9FF4BC3B6E1893C44B0A75835B3D20BC
+9BEE3:49AA51BD8736EE2A6EC778BCD907FB67318
+9BF6A:E44CE95221915B73C31CE90475AAF5A41CF
+9C017:6F98A11D21EC26059E90F03874ED1106A2E
+9C01A:257262779E8CC575BF5E4A8E5386CC69FBA
+9C1F2:5AFF7DA9F4FE2F83696C26D880F27038B4C
+9C306:CE592FB0C2A2AE5BF979C19ACDB996DA44C
+9C4FE:B86095B3FCE7C44FEAED9CE24542D66EB6D
+9C538:9982F22C9B4525A19884A9AA84287DE57F6
+9C566:E9A22C2F74F1FF36829D9A1CB9EBD873EAC
+9C600:7EDB92A947039A24288C09873E9B36A566F
+9C688:5D151B4659BA960B4DDF5B727181C215503
+9C694:4D6C158CAE1BC8611005BC23E2531638C06
+9C6C5:055444F3CFB2CE90E47A5FA90F6CDA7EA42
+9C735:E1176E1748ED6DABA6CBDECB01FEC04A950
+9C7A5:7AE5C65987DB7CD1846F8E24F200912C203
+9C848:BBDCEAE21A5979FBF1B8088D1AD85212D7C
+9C881:BDB6BC930D18797D72D07BB9E01EEB40D8B
+9C884:87EBD81163F534C2212639489DFF5145E00
+9CBE2:A2EFF0C172BAA7FD6790488BABD2B746473
+9CC76:940A9247140D448741BA5D181ED25F679AB
+9CD65:6169600157EC17231DCF0613C94932EFCDC
+9CF95:DACD226DCF43DA376CDB6CBBA7035218921
+9D03C:2A30B27D29826267339DD424AAA4726DEEA
+9D0BD:A38CD21253C711018A7B925116B5935B600
+9D120:66601440183B56E8A384410CD079F1CCDDA
+9D138:837C9F8DC31296FB939BD8EDAFE586DAC25
+9D1FD:8567CD3C9D9AA0D40DC83CEBF294CF4DD5D
+9D2F7:8A7A860A8CAE2116EB2FFF883D1B81C8904
+9D331:6813951D04A1363B4772273FF252B41119B
+9D37E:DF7A8822E730385AB49C4DA15051CF78198
+9D39B:003813707A304EC97575CF2975F6466DDB5
+9D3CC:7D3874249876E96B9B68865CB8B02C50B33
+9D3F5:582F0F9BF72CA674260B15C9663D2AA2FA7
+9D41C:C7A34C3C34C4E3A65332358AAC11C25CE5E
+9D43E:0313505E235F1C969AD568553D4A9659E64
+9D4D6:A84B5F56A8DD7921214F7E44E6B460FC5D1
+9D4E1:E23BD5B727046A9E3B4B7DB57BD8D6EE684
+9D53E:4876D77BE5421C8315073DFB833CD9576E3
+9D572:9ABDEA0103E194D5BE72C95B032BBA63D1D
+9D5FA:E859CEDBD39C1D6C936F00FA1A710ADE47D
+9D61B:A84065FC83956CDFC63E49BC7A9D21D8665
+9D7E7:1338C7BEAA4AD88369AD318E6C4E454738F
+9D906:36D2CA5751EC065612E74186AF06D4BB979
+9D954:E1DAD3F9905C868F19FCDEA54B61F45743D
+9D969:0375A5C0EDAC75520458CBC4EF502062052
+9DB61:A10697BFA92FAC0C24F48F448ED71F1CDB3
+9DC72:26A87062ACBF9F614CDC26FCC847A47D3DB
+9DCD0:DFD018DF0A85433B4BDF18EBDC6352FB3BE
+9DD5D:D0868C467561253D63821B9883294437177
+9DD98:DE1E769F05732FCD3E55F49D7144AC85887
+9DE20:29A4489C44BE702E943FA5971EEED00C1C6
+9DEE1:EC52B5F9BFA2D25346A7A473C292025C731
+9E071:400C9ACFF1258935F750B0D4E2CE933CD99
+9E0D8:E7331319D03A0E09DE1FC414CFE472A26E7
+9E210:4319A1FC8C416C1525B720EED464284F369
+9E262:B7B7F86908A98D60187C89B9E174D964FD0
+9E411:8637E6141A912E158C66FFB31C77E493503
+9E536:37527E4841DCD13AFC8BE344DA22154FE8B
+9E8A0:7C04D9F3C1745985042BA14A1EBDE707F45
+9E8C5:571ED239017AF494CCD8918125513234142
+9E959:6BD664215C93B22750C00CAC5D0F3051AE3
+9EB74:26EE6261E77642C5FD8A9220398F76D6593
+9EBE6:E701804599DF1BA6016A4B8329BD1BBF9F5
+9EC42:36A09D01395A838F2E774923B4E8548FD19
+9EECF:07E76813654FC196315A1F5B61644554BC9
+9EFCC:03F21665121CE5A3FECE257910D793C2F23
+9F00E:8B6DF07952469CC1D99AC21ACEAA6403A2F
+9F154:827D7ACF4DD81E64B7D3641448A81869E74
+9F2FE:B0F1EF425B292F2F94BC8482494DF430413
+9F413:120F195625F4DA221526C3AE7AA99732E45
+9F51F:CA951EAC222E916A0CDDD1A2E021B2F847F
+9F533:9F6EC0EB956285B587CCCF82CC0EA3EC5BA
+9F8A2:389A20CA0752AA9E95093515517E90E194C
+9F8B2:92416D449F57D59A053A1A9C98C8929D041
+9FA60:B939FAE5EBBEDD4CC50827E05C346008B7B
+9FB1C:7F81428A9D86CFB6BD32B29A428A6855A27
+9FD8D:E5FC2A7C2C0D469B2FFF1AFDE4E5DEF37BA
+9FE9F:154595A7E5745E767B01B2BD0B30C17DC28
+9FF79:EDEEB591956528ADD8D1015AACF73550709
+9FFB3:D42774682390DC29EA6976DDE2AE2AF640F
+9FFC4:CFC767DC690C6029980CEC3A71E3C759BF8
+9FFFB:8B9E82B2D5A43A6CF32EE2542F0F2B1FA13
+A0080:C2DF5B92664104561CEB3753F4A3C7007D6
+A00BB:6A32917676AE860AB423DFEAB8749F2EC62
+A075B:0F21B8CF934C6AEB130DEB55966BFC8779C
+A0847:543CDE93421D289F9CA3F9372A660844CED
+A0867:0FF00AB376DFCA8A7542DCCE81626B2B469
+A0936:81BE2D73F96659987B67D9ED927203B810E
+A0A90:3BA9DB418C645F1D84501D153081FB8360E
+A0AE8:245B23C95A98A2E1B189CD790B57AE6257B
+A0B9B:796CFBABA77229988FDF255237E779CC995
+A0C84:9D62D67126BB39974573611F1CDF03FBCA4
+A0C8F:58B4CB50CFBB26E0630CF70441BC6B19CB0
+A0CEE:55573A6085567C6F0501A3F42CEAA906F74
+A0ED0:067BA00AB82A39A394025E81D060E98CC48
+A0F52:30D49EBF33E25C3FE5B58E328F19DB0AAA1
+A0F67:C99839351A7B710E4146818402B864AD937
+A1037:F14CEBC6BD318916F54CBE00D3EA2A197C1
+A103B:7219C91113A204F7BB1B2416B430ED15F71
+A12B7:0A5BEBE5DE7E2B9945B616BA4EB52EE2B3E
+A1358:2D2A341930EAE8740C90F97301E7C6CBA73
+A136A:39AE57602C58AF382FC7C7182E498619DFF
+A1511:CDE5C5368EE593D3E733FAA7B21CBB9026C
+A17E9:3C48AFCF16F8780844EC1464A621C999404
+A1883:54F1BD5D49E4B97360DB2384B5B71B79D97
+A1A77:6E422879F047C849BD24BDA0FFE41DF24AB
+A1D1C:D5D63871AD062CEDA92C2D242E97CADC23A
+A1DC3:0610C157AAFA04090296A7B5292F758212B
+A1E29:0BAB556CC85CB72A2CB75BB9A0ABA45B447
+A1EA4:B59CEC4CB229112914A47DCA9959B664A6F
+A1F2A:DE914D2352C7DBFED448DD81D8CE5FA266B
+A1FCF:C7B9B3B43157898418DD648A00CC91A3F3F
+A21C3:91E895F0B948E35CE4AA08BDBE3C9C1E3C5
+A2227:5FF0A0BAF1A994AFD842797197C83B7B25F
+A22D0:E82FC4D0EC6A97301F2D0FA8AD8DE170456
+A233F:0E898ED0661D6D47ED0958F16B52E537231
+A23FF:8784CFE3F858A07B2CDEB25CBD27AA99808
+A24CF:BDF63FFF6B551300F5EE13772D00F771A75
+A257C:42ABDC482C88FE931C612A13295651300D7
+A2678:3F52838035506B1ADE3159986BD1A6C4150
+A26E0:E0875EF32F683AEAA6B96B7FF703FBF1790
+A2862:33A0781F5B4937F40C92747437E7861529E
+A2932:89C155B7BE2C7B0BDD688702ACD1B248D9E
+A2946:B2C34AE5EBB574835E65A6A80E04A0A2BA4
+A2A5F:C5E4F1FFABB5B703AA3167D8CF3D2F9EE74
+A2AA2:2A612A13ADDF9BC5A0CBEE76D6A405368FE
+A2BE8:E2428B14EB3194153AEAE3C8F8D77C7AFAB
+A2C90:1C8C6DEA98958C219F6F2D038C44DC5D362
+A2CB7:063C00ACBA417953C81F88E5967F68FA3A1
+A2D0D:5FA436A12C0C298096B2894663852120FEB
+A2D44:5FE78F64EA1290F519E676536312581EFB1
+A2EBB:A04049FB81CDF0ACD0FCCB948E60DD70EBA
+A2EC0:06BDB092F9D60F3A60BA1186F4E6D654477
+A2EF3:2543BF29AA2067913A546E858F87F943C92
+A2FC8:E403A686A2A9219739F8E1A79EE690DC430
+A2FD6:A424212D4AC16B6D815B28855B421B177DA
+A32BE:9B6B93FA2D7D4F99C527558A84EAD53AEF1
+A36E1:F2D2C1309E9F4CD2D6D2EF75D01DD4FD21C
+A37C3:67AB930F079F0EADA3B27959BE7E5FB90B1
+A3862:DEB0D3536CCA603F126B9FE6755E2595E71
+A3929:39CDAEEC80BE3EE4E5569FD3A9D66E00F91
+A395C:8A47A4C8DA6A48991F00C3280E3F8CA989A
+A3A7C:8BDF66CB7554721D6690507F4ED426F903B
+A3AFF:F8DE352A044FB8C6CCE08CBB6B9AD8BD4B0
+A3B1A:B6E0DAE9C06E8D0348E806AC495FBCD364A
+A3B21:1FDC8E5051200F7F2C97113B0B4B2E69A11
+A3B47:FE3DE869322953C70DAB822A3D9359E492F
+A3B97:EC4F7672684EA94967E904DAACF91C230B2
+A3C83:4A05CF7096BB95802813285E03CFFCC87FD
+A3D5F:CA1447E9E4B85CA5F161948B32DF2796D5D
+A3DAF:C547E4D0B62338F8022E11E8B79263048B5
+A3DF5:59C23E40B4A6E2498E4649281C1D2811FF7
+A3E24:E8540592EA7BB2BEDD97D98B1E5A815A210
+A3E2A:5BB68C1528A60C2BE6556A063CFC3A9C2E1
+A3E69:B33CA2B321AFE649344CFC9C700304B2A11
+A3ED7:7F371602948D8B19C67D84F3DBEC0047774
+A400C:40E60812B028A8615E2AD2722361F1CC830
+A4044:FEF350C22C48FFC933BA4D603F311F749B9
+A43B9:1138D02D613AC50B82A59E872D007AC3877
+A4405:A6D0360D8AFBD27570AB02DF2B8E5A2E291
+A478D:65FD1F13FD8EE5E6EC3BC07166385D6EC6F
+A47B5:CC8F06168F0EC3832A99894834E1D27F744
+A49E5:8BB3B714405403D5E12DB31C75DFBB52B0B
+A4AC9:14C09D7C097FE1F4F96B897E625B6922069
+A4AD1:3B5BCCF8E8366EC8DFB1DABE34AB6688B0B
+A4AD5:97972709438BC526986CD4784C343D10D91
+A4B67:2F3AD54A6847F295076ADD07DC28598E735
+A4BB1:B0CCCCFA6BEB6FBBE0D1FD21507E76CF6DD
+A4C3D:D592625F5C5712B277823F17D7C11E3A6FF
+A4DD4:AA60FC8E99F781B4A11AA7D9DC53731B37C
+A4FDE:10DB7AAAA2982FB2224D755F962D907B541
+A5017:F4D86B394699E6D9BAAB217951D531E3971
+A5021:8E6D9B3B6DCD38034315C811FF6E43272BD
+A5083:DFB85980ADEFA5F376B49899E24342359F5
+A50F6:0931115DB8AFA078875F4975502E93315D2
+A51B3:8B40CB58A4591429842886D380F8D4005BE
+A537D:0F723014FEAAFFEA4733CF59E493F2FFAF3
+A53B8:2B4FE825AE1100926D922AD0510D35280DC
+A5455:2A8E1D5B9EFC218A3A3743A7C83CD3975A6
+A54A5:5FCB8965000F37D1913E26BA1EA8672B2BE
+A5547:8430A7F1F8A10AF955FDE969936D0F6E7F9
+A579E:CB409E1EC6E4CCC31DEE58398C3686B5471
+A587A:CD7C9615BDEABADD60984B2E82FAC33618B
+A5970:EC303B2224151F7421976BFC5762820BE5B
+A597F:10A64297441A9F298928209F9213C5E561E
+A5992:F739C98F109D7063AE6BF864D4621C22410
+A5B7A:933EF06C93F6830E65C9948DD48A6A276ED
+A5C29:7C15E40AC3881DB51277613AEA3731B673A
+A5D69:A1C4C8CDF0F8085139F9B7ACC1BB91CBC9C
+A5E27:C7F3340C95268BEFCD9CB62373942ABE4DA
+A5ECF:C9572EE3101E8C160C9232F2D4F63118C59
+A5FF1:718435951BF5015B7F7EC728723A9DB636C,C641758CC02744172A50E577BBE06C2A1C5
+A60A2:E2B46358223F312E97A7468728AA8C78BBE
+A642A:77ABD7D4F51BF9226CEAF891FCBB5B299B8
+A655B:B8F5BEA6E7C3A102FDC163A27D29A5B8206
+A67C0:1AE21935AE57DDF2B5EEB9E9C7FD65A75E1
+A67D5:A576E4BA3B4009EDEBBEECBAE2BCD696BC7
+A6A35:02BCDC0F999B6C80DE025AEEB681E57E171
+A6D52:9747D9F95EB578D73D953E4DFE27EEDCA70
+A6DDB:8A42FC46FB5820A95082E93294E45D29560
+A6F37:5A196CD4C89C41DBB4500553EBF3BAB0A41
+A70E6:FE6FC9D427B0DB7D0E2036E7C427A7BA6A9
+A719C:C488E1086A03AD79D4595DA9C62BBAFC913
+A71E7:9B17365939706B843DD005C5C450D16D0A7
+A7327:AEA899438BBEFBEAFCC14C10568BB865ABA
+A7392:862830C39A209C5740D841EC2DFEF45A48E
+A7580:5CE8536BD950B246D96E0974A8E99602091
+A76A8:B142AF784B850847614B9122221C6CD0357
+A7759:1BE2044AFCD45B50ACDFCE3A585CAAE257C
+A78EE:63A19597E48BCE0B72D6079B8CFA5B6C976
+A79C7:39556A676FDAD22EB743A11F479ED9C64BC
+A79E8:50D54DCD7367ABF30B02ED75664F869A9FA
+A7B2F:F933ABE5957B6C98FD2150524E39CD56F64
+A7C0C:13C7074DB9D37BD7253C81E330087F255E2
+A7D57:9BA76398070EAE654C30FF153A4C273272A
+A7E67:F802B90592DE92EF6D7B824CC5F96200BF7
+A8143:4589757E654444719DE434C44E9ADC0C708
+A84E6:10A18FFC870F5ACED6828D56B1C1D433821
+A85C9:116E693095A8415C937347F6D4A87E60D73
+A8905:03E82D4B1955ED848393521D21749FF379D
+A8A74:431AD4702DD0A8B39377D3DD20CACC8DE55
+A8D6A:E01F234E66B1328608CF56249DDA288C03D
+A8E52:60BC3DDBB6D38FA692BCD154172BC76E44E
+A8EE9:01DB49064BDAD2DB2404FD18EA566C243BA
+A8FFB:7112965DD8C454CEE0278522658A9596075
+A9072:CBED2A748559BF3E3E4504D6C7A43D1D167
+A9208:B17F4474084FE6D19E03145A87DAC760779
+A9313:1F3E2FAD0D2DC1EC404AC04305823CA946A
+A9396:0DCB641815D629DEE04B9BE4418407E5379
+A94A8:FE5CCB19BA61C4C0873D391E987982FBBD3
+A9667:FE405976919F5613C801679F442B3958C8F
+A968D:B3C7ACA825BE0DB62B852731B58F0215E20
+A9884:BC974631F651F40D15F4B96A706FA2DF152
+A98D1:14C5520559433B9D409E6E60EEDF8B278A9
+A996A:8D78AEF00DB43D4A445BD929C5047E26A1E
+A9A2E:8456BF9D58E91FE91CBFE10CAD5211216C2
+A9A83:19A49846F42EDF1450B61B3BC6E3F56AD5F
+A9AB6:70D43A88D107386408837609C473E8096E7
+A9AE7:2519CB99545C8C6969F1DDCEE3304B6A62C
+A9E0C:61A18C25EA29A26EBD8E56B1A5544CA510E
+A9EF7:295B04169A7555448EB4C67AD966EB6D73D
+A9F5C:3CBC5913048723383BDDD758AA6AE33EED7
+AA09B:51D5EB09531153737214671865201237639
+AA0E7:E86B7AA21E9851B9DB8B752998918D2B608
+AA14F:09D751AFE8802597C9CFEC138725081CAB4
+AA182:B8D01182DCD08D328194DEFF91066FCECA4
+AA1C7:D931CF140BB35A5A16ADEB83A551649C3B9
+AA29D:2E2D7A3196268B460787180DC6D90C85A8D
+AA2AF:2C2F2D651DDFE086D20FAD38DA205AEE92F
+AA409:115FDF8B007E55032C8CB28148738023DC2
+AA40C:514B0FB007548DBA172A93E356BF926DB3A
+AA4C7:1A827AAE0420C88B00F464C70837560D0FD
+AA57C:B5780DB885B12AEE20C747C6F2B8CABA5BD
+AA5CC:69FD6C0DADA7B1BC49AD8F90FE47627E097
+AA602:EE0BA50F2323CE23793DC38EF3B036B2832
+AA632:3A6174BB1C8B28EB444FC58548E7ADB3BE3
+AA746:29D9B3B4222DB09B4B4C52DC9950F3F078D
+AA8B7:C48E6A3F9E98116D6D67DB9291ABE241F9D
+AA94C:C606A1724CEDE91BA407B8BF843A667B840
+AA96D:06C50E1975D84BFF8B5ECBDE87177ED1899
+AA9F3:C032E8925C9D362174B5B16DC2A35A6639B
+AAAC8:B8AC7F713DFD9D5DE08DAA88F5F7F02A672
+AABBF:8E71437218B4F2EF0CC665A620F5F1CE431
+AABC0:FE9C2E62BF6278CC0A594DBE6CD0AF0F3A3
+AABFD:B8EEA655D1887676EB243CBB8A89C9AAE89
+AAC09:0B6C320611A37B402EA7D2207BE23090932
+AADA5:C1EAA4F000A3A21296CC346B8790C74831A
+AAEB9:802E2E5B14E2D33DA1DDA73C4021A3C1E28
+AAF4C:61DDCC5E8A2DABEDE0F3B482CD9AEA9434D
+AAF6C:C744D2471FC3BF7293388E93998459F610F
+AAF77:D37AE500E15E3A76C95E3C7F18CBE8DACDD
+AAFDC:23870ECBCD3D557B6423A8982134E17927E
+AB0FD:9394536799D8556E87D629CB325947180F3
+AB154:44D92E7F8F573FA0A1A1CCAD2A2454383F0
+AB378:B80A8A4AAFABAC7DB7AE169F25796E65994
+AB4BE:2CAB0877AA543553E267F8A6BA5E57A4415
+AB4FC:F2F1698FD1BC41701FBDDF12592891D0828
+AB642:F20D10A382E54118AAA053ABC680FA24977
+AB65D:8B9611FB58F4C612F6A5EC239E0E73FD38C
+AB7B8:EA47EADF93146C012E72A5EA673322853AA
+AB808:62B3721ABE736F25DFE09DA1187FB71F903
+AB87D:24BDC7452E55738DEB5F868E1F16DEA5ACE
+AB92C:05F028C56F93D4E7507712F2AA68D835420
+ABA08:399156CD829B8F35C5CCD07F69AE51C6F18
+ABA23:09EC1790E353DF0EA4D9FD757BB78C558A2
+ABB1F:BF9DDBF0DAFD232739E895721D496905753
+ABCCF:54B832D256110CD9DB45C5391DA9AB6AB33
+ABED1:CF9B8C7E24B8EC88DC6BBED101F44FCF2CC
+AC02C:DDA934FF3DBC2DC7415FC0AD32C6B568353
+AC05F:5ED6C3C5C3F51A5911D33826A47434EA6FF
+AC137:C6AE0947718332991E7CB2F50EB20B62AAA
+AC1AF:265FDCB70573E1ADF277CFA89B2611AF736
+AC210:59ADFE1DE3F2F53C8EB3F8D303A99074F26
+AC240:49B444D2821748198B03F55A14CBB15157E
+AC2F6:19280E41AC2CC25E47B4DD3352FFE84ACA5
+AC354:C8AE0CFDB7932F0338174F2E9A200470833
+AC3C5:8AADC30292FB1D05F19585C10129B343626
+AC466:6FBA851781912502D8F5510EA8912311266
+AC4A6:25FCD724382E3C4EE1316B67786B9AF626C
+AC4F4:985E73B719023FA77C60A02FB8EC34AACBA
+AC56D:DF459FEB5CE39D3FE5C3B31FDF6B6414B92
+AC58B:520E46905F522E0D46ADF896FB69014E76A
+AC5CE:1C5A371AB99EBB97388584C79093B4459AE
+AC6D2:7DDEA9B9D9CC888A5172369B806DB42A12C
+AC814:68FDC6A2D40344F427CC62182B8C95F9EF3
+AC895:D5AF75E037AEA774CC21C45F8AF69C1182B
+AC967:4CB76153159953DFF9D572DC537FA8DDC79
+AC9A2:CD0A01D65C21A3393E1373A6CEE8348D14A
+ACCB4:4812A9D1BF2AA804C62D82B6007F63F5F6A
+ACE28:97DED65467209C7118C328256CE5C181590
+ACE40:4AD32BD4FD8A721BC0DA8CE15375CDC64A6
+ACE42:3FEA6877DA4CD9A9FB488D22ECB42FDDEEE
+AD186:3E3CBDAA8D0E42961B45F6A87C25DB2D27E
+AD228:ECBEF8D6CF5CAEEE598514A5319D30B3642
+AD3AF:8C768C25C90DE997F65A66C7F1403C0FE76
+AD5E5:AF501E6AEBBF85450A83FEF8ADAB19AA1DF
+AD5E9:99447A0A93FE65A9B2B858EDFE419C187E2
+AD606:52072CD1030494839D358904897B902117F
+AD60E:B30B2C5CF1BBABFE6CA87B65AA17FA0167F
+AD61E:E8F19F3D7D6F4AE2B44E18F35B3AA6BB8BE
+AD70A:B97AE1376E656002641CFB067C9C94906A2
+AD7EC:BC474405B2B21F3DB6B071F4C707F048DB2
+AD816:7DF4B75BD9F2E165EA9F6053195CF7652B5
+AD905:6406390CFAA42B23010B8287717EB0AAA46
+AD913:060B943FC7C7D40B8D29100A7467D079DA5
+AD97A:3BFB6C9A21F94C20A858ED549165FD28E09
+ADBA8:67EFE853776D9A22C808CE3E338847EF41C
+ADC31:1F8233A81AC0A1E2912DC1D63D2611DC568
+ADC73:0AFD62971BABD010747FD16E5A83AD9405E
+ADD49:37F8403AA91498FCE1146B5BADDD7FE40B7
+ADD75:F750CF6AEA83B22ADB37CF036AAB8F93749
+ADDDC:25F41289BB0E9DA98742A94A861560C1C37
+ADDED:CAD7AE1F7BF9DC9A3972E26AA5F3A455C70
+ADDEF:BAC6E4AA13499D98A5EED1E6FC1CCE5B1C3
+ADE79:B76DB7ECB17AC9E489379784EA8708BFB32
+AE024:D278269AE28FFA397DE14B70E8DBFFC9653
+AE15C:680EC47FFA4E1BBED4573A6D9D759BAFE86
+AE398:2FDC55AF9785E942E81A79B8037B761D4CF
+AE439:CCB20F317D9D1441B471DE9BCCD0A5BB8C2
+AE48D:07860A399595A4CDC12A9997FC8D60F5E45
+AE604:A7E79BCEF69CB9D255994AAC4F834DFCBF1
+AE672:A80B7F35D1491E7B26966993D7EC36772C8
+AE6CF:5C8329C015351352821950DA3F6BD08B094
+AE74E:071C253AA507A8BB68815723264255BE772
+AE776:FC2771463ED244EB2A8A42885E25782654C
+AE78A:7BBD66E4C4AE1E111088CA301683D227993
+AE85E:06FE57FE417D36D75D78F5373354ADAA7CB
+AE9D2:A1B23E21051897081A14A8FCD47462BADAA
+AEA9E:B55BA5B2DE2F002867AFC4E976DC9A260FA
+AEC78:482C1F64D424D70F588843396326CC0729A
+AECAB:3A58E554179F6518A486036F45578467971
+AED11:1F47A591396CE0D99D620022C05F83C6835
+AEDE8:C79F0E3A0A204D6A05FFD224F737293EC72
+AEEBD:9C070A674C1CDEEB56FBBFC9E00E2B125BB
+AEFA4:3A7D0966EDFF7CC73C04DC8DEE484F6D907
+AF049:97B96D059CA4EDF726FD9BF6EEB0B36F7D1
+AF194:F162932A0ACA2FAAB097778697D5438A309
+AF1C9:9AB83732929B99B4D69F4174F754F41CAB4
+AF2C4:1EB4E034ED0A417D1EC637082072A4D3AAE
+AF428:9D27F939E5DA58981758CB0BBFA0F5E8635
+AF4F8:DE65516A5B45D9BC38D8293B7E2866A8046
+AF5B0:1BA6AECFB35779A32CD12DDAB59052CC449
+AF5BF:AE50D7601E7B3194F2C147A5AC33D51CB79
+AF60E:2381F9E48347789C2FC715A07C5C734E25C
+AF6DA:F5F1A60C91F73361DD476C97E496BEDA065
+AF891:DC8631EE59A73ACFE940C404E1974D0F16C
+AF897:8B1797B72ACFFF9595A5A2A373EC3D9106D
+AF8E9:126C1FA32E6CD6F89336232168151DB407E
+AF909:44B76164BB05C7641B65C4F83EF91570978
+AF987:DCA8C3C5821DE10820790B96FB01A415CC6
+AF9B6:B9739281706C779F4440C703DA935A1C932
+AFAC3:438BBC2DC5A0A4B1D9C82F9902AA9A2E212
+AFAED:75406BD414820CEA4A5119F90C259C05755
+AFC0E:34A47243B36B815F22408D727ECED3EB5B3
+AFC9F:3E9E71C57359476AA569AC73D1C5AC624F5
+AFCA9:B77AFF9DB70751FCBFBEF919BBD22EECEA5
+AFCEA:60F96A3A4C372309B4F76B9F3B1517F06B1
+AFE1A:516856665211D5F096FE1ABD29C41052296
+AFF8D:18E7CCCA4B44489E74D3771812037649654
+AFF9C:E656A73FDDFFDDD5CD71BCDAF91C4FB3D62
+B011A:C175D50F09BF459D05580165923B43DF845
+B01AF:C2B077956ACC69F99E0B7DF1CB70CB01331
+B01C7:E1A8CB4C127EC214890665C4F00604ACFBF
+B0386:F7DBE993FADAC3CD7D9A3776DF63CA223F4
+B0399:D2029F64D445BD131FFAA399A42D2F8E7DC
+B03AA:F488A1C031CF90753125F0755731080021D
+B0473:D2385C77C7E1370D7F574420C4CCDF8BD17
+B0513:9004693B44ED1E849B14A7D8BADE7E5BD78
+B078B:F57068EC23BD5930BD721C0AE807714CA80
+B096F:DF2757B0691E3A22284FD502533948CEE28
+B0983:3CEC69EFF1BB667940A45E311262E85A422
+B09A8:97DDAF9C4B8DBBB18B6C030C7FF248BB9D8
+B0BD9:B387B18780D46CADE4E6EF970CA585A64E9
+B0DC7:86026C2233B32E6ACCD5FBEEDABE30608FD
+B0FCF:AC2252702AC076B2CE09FEB4DC1FD0427B8
+B0FF9:4D7EAC12BA2137A94765DDB136C733905E5
+B13E2:6DEF7F05F7ECBA4260DB1E1E297ECF59F9D
+B142B:CD443C9669F1398B193698F494CE016FB1D
+B14AB:480028768CB748FD97DE56144A304EB8A1A
+B1505:9C7E62B3243AC26D622AF0BB2F1403F9AA1
+B182E:3F5DB9DBB9482CCFE456966A6987CF137D0
+B19FD:1AA2647D48B36652236A2A79FAD635BA9C3
+B1A5B:FECCD0BB3DB11CFEE9205E7DBCD595462AB
+B1A99:F6B93FAFAC863B0B02910B2EF63D3692305
+B1B0C:461AD649213D66A35B5E5F21B32A8177E2F
+B1B37:73A05C0ED0176787A4F1574FF0075F7521E
+B1CE1:CDEEC3D27C1193C244DB4BDEA3C39B84B06
+B1D1B:6F79FDB2F60C475C65B7D4ABE9F8689D498
+B1D1F:4E77E36F0D468706FC267204B5AA1C1A481
+B1DB4:F8BD855D06FCD227B08F69D3D550C2D8FE4
+B1E2D:F585A20E47D283225AFFF6B4FCF2EC589D2
+B1F45:ED147D6803AC1A2A91BDEA1FAB603F910A5
+B2170:674B6AC5611ACC6474057A41A33C1472682
+B21E4:F5EFD92EE1703ADD6C59F1A3B2120AE5049
+B23DE:C54662CA37EE893CA999BB94BF998C2EB53
+B2432:0CDA763CDD6CC6FF2EFBBCE72978CEB8BD1
+B2475:002DAEA240B205A30EE89B25A8915EA578E
+B24C3:A95AEF4ABCA5DE6D94A3F152718A6DB0501
+B24ED:7DB06817C48245A939DD97E72573A81C881
+B25CA:AE5F0CAA8757DC62C2CDE8A264B1AA4A694
+B25EA:5D4E453BF16D66023DBADD00FCA520D10DF
+B2640:95FAEA279A30761AD8F80F93637177EE34E
+B27B6:FA71B6A74D96458F43C848358F7182C49DD
+B2813:F98ECD1602855D1EE74923331D4662D682B
+B2965:8B4C5FB5ED08B25535AAEBB52721C773036
+B296D:05903F47E2B42C909BE9E28841033C869AB
+B2AAE:3DA479BDE3D132F3DF77FDA2666FC186D56
+B2BA3:C74657140499EB5A130B42A1648A0069467
+B2BEB:C75E65F9D2816148FDBC8D7CA88AD0B9EFB
+B2C07:0D9F65016BED74CEEF316FD5D39990307E1
+B2C25:E23153A29A09357A6E6C37933B1A2BCE60C
+B2D46:BAF543F4192F509AE8380F1A6F8AD43B8DE
+B2D58:3AD28A43B8D37E5699CA636098F618D886A
+B2DE4:814131E8E7EFB94603C614CDEC39BD8C400
+B2E98:AD6F6EB8508DD6A14CFA704BAD7F05F6FB1
+B2EE6:0370AD57D9BC3877E9024C507AB99303A64
+B2F56:1B8BC2706AB1A08E7AD12839842A59E1364
+B2FD7:B5C7B7A67E409EDA911C0D3DB0119FD7449
+B2FE9:39D679D67F6C27E58E5E2377F29423061EB
+B3078:0EAE94BA2590BEF8A0C0201644996BE4338
+B30F2:E1458AE25D376E532B43F06B328FEACF7B9
+B31B8:C4A7453F8ABFC2865457327BE977921A0E8
+B331A:FAEF01051487D12F9A098DF717A72A29DA7
+B339E:B044FC4475402CEA4FD0FEDC55A65061920
+B3489:97660DC58B4972308D078006067D4E5311B
+B3500:AE3BB64FF4BFD570C0FE34015A410655DE2
+B35B4:0E527FCE954B87E01C1791FC18CCC57EB97
+B35F7:1E0FCD7CB2B958A3939A63640818D0DF667
+B363C:6EF45640A79DDC7BBC826A87E02734D88F0
+B36F0:03A506081D5B449CB897373AC1CCED61497
+B3850:E04B5CC10929206D2336EFA79A041358D57
+B3932:535E8072DA5632841244F7FE1EF9B1C604C
+B3ACA:92C793EE0E9B1A9B0A5F5FC044E05140DF3
+B3C15:BBE74E4AFCE2FCDFA8EC3C9BDF350662334
+B3CA4:E6EC1C5D34CE8AB25C99A1804EF18A45376
+B3DAA:77B4C04A9551B8781D03191FE098F325E67
+B3E30:FE20713D6DF4E6E39BCE34C85BC0D813497
+B3F70:CABBEF2D4CF64DEC001A40E1747D60477BC
+B406F:B57B29FC76F71864FBB37F0238045F84D9D
+B444A:C06613FC8D63795BE9AD0BEAF55011936AC
+B4544:1EC2174803E0639CCF1CE4201B3C1DA9BBA
+B4610:6E5356FD5C0C3DF65717B785D7DD6BF4869
+B4691:715AF470E6D18D2BE930E43F9A80DD55CEF
+B473A:8A37CEEA8C47CDB43F60A80CAB692D2782A
+B47B5:340A10F5D0FF2407273C0FB30E75152B12D
+B480C:074D6B75947C02681F31C90C668C46BF6B8
+B487A:F41779CFFB9572B982E1A0BF83F0EAFBE05
+B4A93:95D25398654FD5D000E4B82A1D8273339BD
+B4B3F:090F1A49567C4F098109B6C625029B9E6FE
+B4B57:5AF48DBAE92C18B5F7FF27A22EAF4F5A2DB
+B4B6A:9F750CD9C7DF28B4D1F51895B76C6C23D75
+B4D52:69B17F8DBEDA89A04C43FFA4ACAD703D0E5
+B4E91:67FB0622ED89136824799C7FF4AB3A78BA1
+B509F:9716996063C86F5A03038048E7EAB3597E9
+B5128:E89D22BCB2CC09F2B1F7047E8015C925824
+B51A3:1597A8A749173279CBA2C322CC63CD1F9F1
+B54C3:BC3440EAA8BF886C1FEDC83F98A02CE5C4B
+B563F:F040E42EF4D1BEC49A575077B77B8C35182
+B564F:716B495CFEF12A6F3844B919C81A190A015
+B5663:A91D4E30238942F0043C9A74309FA73066C
+B567A:ADEFB58EA65641A1EC3C9791F6204AD6C03
+B5841:92C296CA67BC305BA9E280592081A3666E5
+B58F0:E92C75B25D8A9735EA51A6AB008312A81A4
+B58FA:4D7047179C9F48178CB2990AF10910F722E
+B592D:A74FAB3E25F22662CDFD27B7B2EB827F4AC
+B5A09:8B6AC25E2DE9B32DEA827E6C8DEE3702956
+B5CD3:2DDB22D8037CB3AE225891DA9DBAF59F044
+B5E2A:088693C7B38261BA757F15F6C28D6CC9DFF
+B5E38:153EC39C74A472BDA08B76A5852DF168EAD
+B5F2F:D04B472F127D9456360556075666F959ABF
+B5FE0:6D67D43DF781C4E4A232D61DC1FB51B0436
+B6109:BA069F8896058AE4C16101B178BF932AC5A
+B611B:BD5851502D800D4E9D1146A82DB25A4AED7
+B61A6:24E29874A4C93F8F486625A12053030DA07
+B61E9:B64D11D8CE3340974CF46437116CCFFF11C
+B630C:6CF8F59440A3CEDF3741C12D7DC611E882B
+B6327:C2E07E395122BE26E18240AA021E0ADA23B
+B660D:4F1DA91E318A0B6B2753BB38836835AE072
+B662B:F244F8F8DC7E5D6A168C23823E3084FEAA4
+B6652:5C5409AA374E64653793BFA643780560C65
+B6680:6F4D55C4A9E01DE69F4F38E621817931B81
+B66A5:337CC0D5F1A5466ED96FD125396C0DD24E6
+B6717:CAEFD1F28E17AEBE8A799E07AB0199CCE89
+B68E4:9A388508F5ED7360F3FF07479321A6B0291
+B69C0:6AC08D8078CAB93753EBA23E4DDE0813D33
+B6B11:16A1D3EC2E905E201535BDED0D34DA6229C
+B6B17:47A356D59A84C332863B4A877274951227B
+B6B58:880051EFF891D6EEB5F0CF66572F468A6EA
+B6BDC:ECD57A1D0FE19375A0FAA9951F48CD999CC
+B6C52:BE06AF384E2C8198DB97AD7B006B56D59FF
+B6D84:D1C48AE65636620EF2586584DC500BB799B
+B6E50:5D0778AEA5DCE63BD8F639AFD15348DCE19
+B6F65:EAAA32D9435C4927CB2FE7D7F26071055B1
+B6FCD:6665A0EDBAE0669D458A6F3BAFE9D4F73A2
+B71C7:6A6B049694BD25B52D6EFEAD25D6301F004
+B725B:7D3A4BDE4FC650CBFB6C9540A353869F5F1
+B72A8:CAF30FCCC7CB73DA60F2EF9760B717F1809
+B744D:112B39F2A69DEB810950A701503F411A840
+B74C6:7F39F7E6C65C80DB73E2A162A5324DF7D73
+B74DF:8452BE95E3BCF8744CCF8C237BC2915F7AB
+B75C9:C3D904A16107B9C620CC8E6AF24C7F171CC
+B765A:0346371016C1F8F5FF0B6AB5DFF323900F4
+B7803:4AACF3559FFFBFCB545D9A9122EFB93181F
+B7A87:5FC1EA228B9061041B7CEC4BD3C52AB3CE3
+B7C0A:3D1C11AFBB20E06AA13404C57BE37C5CDEB
+B7C10:C4BEC83AB340D0C6ED051495CD9E23E1689
+B7C40:B9C66BC88D38A59E554C639D743E77F1B65
+B7D04:055D023A2B64BA137F9196F2CBDFB345C11
+B7DA2:BC3FCD2B79E7AA7FF39A79143DEE4F3978E
+B7DD4:118046ED40FC4444873B1F7D1B86E131661
+B7DD9:42D1EDE611FD1675BFBBBF6AF1F06ECC927
+B7DE4:2C92B876C984D64E1DBB5910BEFA3E9BE7C
+B7E6F:FEB76FB218AE3D6770F86A4FA6330DE1A0E
+B7E71:73388AD89D045A05B0D7892027B16BFF564
+B7EE4:C8F3ACF7AFFE7A84403E7DC41108E2BE6B4
+B7F73:C5B66DCA06B94AA7A7134C24E0159E1DD0A
+B800E:8E1FF392127A651E3F3A3BA4AB5A2AE5312
+B80A9:AED8AF17118E51D4D0C2D7872AE26E2109E
+B8123:334662720A902B17965EAF25974028BDE0E
+B82A6:912FDDB82D7435438F6FE7206C3945C8CA1
+B837A:DAA0713D683DC1C6F2EAFF39E5BCD59C4FB
+B8456:FA72E5FCA3793716E8B89004E2349C41CD7
+B8468:9B769AB3D929F7CC14EE35E77C4AE6427C8
+B8679:1D85A26450A5BA8BB2CC7B5C252ADFCFFD2
+B8720:5E476386B099E865FA9CDF4FDE95DE21F1D
+B87FF:971591877C58B071F957D713E101702D07A
+B8838:F64142CFF999318BC38AD7F29710872DF09
+B89C7:6FDD889CE931C328A1F111014ABC2343B3B
+B8B3D:0083929284378F3BB9B37CAA55A13051855
+B8C9F:2EA7C54B2AE606D9B9F8B3FD6EA79696427
+B8D8E:FDF39D1411DEE3E69040ACCFD8432033EFA
+B8EAF:D8232BA775940CA95237A94433C1EB1470C
+B9078:18E0997C8CE082A89CA91C0E05191C3D6CF
+B913B:5BE7863B8377D5011D20550E59E742FF549
+B9298:805D54C7683878614EE1E63C62628BE3137
+B93AE:BA96ADE20D139A82DDC9943594C2FA3D532
+B945C:05897FD8BF29C35CA21DD209AD2CF10C0F2
+B948A:B4FFF63F58019D23BE6214C31412839A3DA
+B962B:9132D90B746CF2321EDFF590D8AB48C3526
+B96E0:A8E6E885105FE719DC381051D5B25BD781D
+B990D:049EFA331664636F69BC006D5A7B3FE0106
+B9988:87BE9B34D9E857CDD8B3EBAD7EC45FBD592
+B99AA:7139DAFFE647938F91E54C0831EEB0F626B
+B99E0:D26BD5E00B07BE2517C1A966355E73E1A72
+B9D7F:95E1F74073544380D62BCD9A19B65252CA4
+B9DD4:5C69C405766AC4870F32E6373756602C4EC
+B9EC4:161952648B791D0FED3926B0205A261057A
+BA03E:B889D8F9C017236FB26218EEFE88C31FE48
+BA119:92C3C36412325D704F8995BE1C979820E5C
+BA16D:64FF63E7BE24B25B62F531891294BD865A3
+BA279:49E1EA7F240C1D28554040307AB6ACEBFF8
+BA324:CA7B1C77FC20BB970D5AFF6EEA9377918A5
+BA32D:C7E26C682B51B33D316B5E268B33181CC31
+BA45D:DB7F21FD267EE8F38018A15BEB39700D5DC
+BA5D8:027D4FBAF0E92582959DECFE1A2E20FD300
+BA65A:40B314834F7D3163946D163576AC7F08FD2
+BA6D0:E3FAACB5D8C398C0548D1F7D5512CF15279
+BA856:797A6ED7651C7E6965EFEEAD66CB632F0A5
+BA9AD:B7296FDC28911356E3875BF4129AACBC36D
+BAAA1:8844B8DB958C57EDDDF824F4A8B5CD9E298
+BABC4:E7247F9C6D5BF856E1C260C0795FB6B939F
+BABE3:050E2E81DFD87A8CE67264D518CB34AEF72
+BAC90:BD965154C4AC4173BE61F812508C80A707B
+BAD23:5E5A51E027982747EA4D1DDA602D6E518C7
+BAD33:420FC9C20EA36EF443233E16E126BAC9E0E
+BAD7B:3E1F97B9364A17C561A4DEEF8ACC7F2D2DB
+BADCF:A3C62742B3BCC1DCD893E78713BD36AA430
+BAEFC:A5ABEBD27AAC009995EFCFAE16E821A7F37
+BAF46:55048FF1D05BF1EFA9FFF67D65FA32FF101
+BAF8F:F418BDCA36240EF877D373DD4D2B99D4877
+BB1BD:EF9AD527E6B2509CE5F4F2356FBDC924711
+BB317:8E85A6F73140491CD452A9DD33871A20BB6
+BB41C:9729342F6EBFAAEEAE7B39821F507AD5054
+BB4DD:43B4E074EA0ADCD1418886FCD87210163C3
+BB78E:C0E03070828C4AFC4967046E5320EAAB65E
+BB843:233516228955935B2ACD1E02F408D5566F7
+BB8A4:2781B6568272792B295DBE97ECEB67CBFC9
+BB931:C7431143596C4E8C8F67EF4EA310D706AD8
+BBB1F:5300ADB6B2CECEB1CB352D7F7442842142D
+BBBAC:44BC42E4C21F08C4872B9D21868D8B2F406
+BBC12:342D0879C82465B86FD7A81E607C02FA0B7
+BBE4B:0B495C37EF9F200901B658686DF832DE60C
+BBE9D:924783F4475714C38CA7051F814CBF936B6
+BBF60:F50BC4574B897752A528F4C723857CBDA06
+BBFD2:BBF8A7958CDD7B7DBCB621D31F8C23855ED
+BC066:F11E0DE475FCB0871E136BC79610708F5CC
+BC079:2D8DC81E8AA30B987246A5CE97C40CD6833
+BC082:955FBD791AFA31121736F0E0551977EA955
+BC390:FF4D49361846580FDE5711666CC869B0140
+BC4A8:22DD0F8A3363C7A5C902767CF5EE359FFAF
+BC4DC:17E4232108BA1472FE3895CEFFD8F1FC623
+BC510:A3416B1F017ADAB3D0571F39092251F0BE6
+BC5F6:FF1ADB3D9CFACD31D9991A5423A77D67C26
+BC654:0F4A42842EEE3374DDC9C66F7DDF1581D1F
+BC679:1A6BB2D96050230BD854A616950D9CE2DD4
+BC74F:4F071A5A33F00AB88A6D6385B5E6638B86C
+BC7E4:F1A917E912A818B5D84394AF88D670241BE
+BC82F:38302EE62308DE2BAF3D8F65961E5723217
+BC8DC:EC57FFE5F66E28A02B0ACA625ACF90A492E
+BCB68:379B8850F00FD690AAFE5B9374A7EE582F5
+BCC4F:6DDCBB82AA458ED467A496046D207918A1C
+BCD11:F69B309BDB027618B57966EF36ACBF73549
+BCD17:489072F2AE6A70FBA6C970AF08E9F7E7606
+BCD59:17B85289CF889711720CE741F75C47ADD13
+BCDFD:7D6A2048B78A75CD269C4395EF77410A9C4
+BCEF7:A046258082993759BADE995B3AE8BEE26C7
+BCFD4:A1FEA4955FCB63B9B941D0EB80008B729FA
+BD020:2A72CB50284B4DB041AB70F29E853B96147
+BD06B:30440C46BAB6994B71F5D2051072DB1F65F
+BD210:8F3C935EA9C21B2601B54AB20C1C60EEFAF
+BD2D3:C40C45A648990A267B22D02DB8B60C08549
+BD344:F033B937F567F38144F48739E497AB39E90
+BD3B2:0B10755A9F9D434C6AC8F639479E10AD740
+BD4A6:9FC97D905186B6F98188A47C5FDACD8EAEB
+BD4DE:2197D79FF01052D0F9D986D1C0FC06F3162
+BD659:14C877C363B4FBAFD3B80C37373FD04197F
+BD75D:DC36C8C87C5E0B0C39DED7F98EFCA645A80
+BD834:EC625873C0FB2DD3B1EEE7C1D0530D27300
+BD905:B54B717094932C93E23CD117B52DE2E36B2
+BD99A:921F3E756A96C1521A1106BCA0F2AD7C784
+BDA12:65BCCBDB3EAFE1B8427F679447378721FE5
+BDABD:445DE9FA9E8C5F9F31E5D5D7895C50AE45E
+BDC23:0517920669589AA50EA1DFC22E0B77A88DE
+BDC79:FF3FDA99A5F4FFB32DE50358BE0791DE508
+BDD48:C24E6BC52C71FB3792F6F938B258A21A435
+BDE40:AF36ACD2EB9E5EFB6B90176EBE4A1935782
+BDF69:0EF5ADB6C3742CC59A5500AD0A2DFA9BF58
+BE081:8DCAFB120DB78FD74CF3D9580073A053523
+BE085:C1FAACC4A3A5C07601D0699B8F9177D86A0
+BE11D:DA7DD3CEEBC49C307362A45DCBEB5314F62
+BE137:7A0B538C2EAE837BF660C4F0C124E87162A
+BE177:A1F50EA280E1C403C31311DAAAEB184A28C
+BE194:EC4C98A42B7ABFC490EE57261B539F0E5EA
+BE31A:86C982D3A8FABF1F00DE3CC1B62239653C8
+BE4E2:E8594B2C5C4650797464AE299F165CB1F79
+BE6C2:CB01D1245ADDDE67B8DFFDC22B8CF3B60E8
+BE6D8:FFCC4D44F0875F1095BBF66D8C0F9781BB1
+BE721:FACFE42AED047E2B3C19AAD1539389DF71E
+BE7B7:3EFC4A60ABF629BFA9ED33869E4DA018EF5
+BE83F:A873DA8BFDE63439B59FE6E850F33389E69
+BE862:F9649FB3A0D3061FBB53173355844C7719F
+BE867:A1334BE772204EB5E2A601CA2A4016B36C7
+BE8D5:98FFFD4F472330D6E7E67AAFC6D626BBF9D
+BE959:CF41EF33448071BC478D51745666645F458
+BEAD8:E38DB02B782EC89ED360D28FA9BD1D75B5D
+BEB0E:378DB82195E2AD581404AD7F8224C9B921B
+BEB53:622857062A21A5B72ABA3D8070CDCDD63D1
+BECF0:943FE0F6D86212E7F94820BEA0403AB7ED1
+BED9C:9FABBE91BF70F3DDEFA0698867338BE4F40
+BF24B:F85DB7EFDC152A45611A2A09061F5592BCB
+BF259:7C976BED4994506B111CB5CE8A8DB780F44
+BF2F7:49E80C970F50552E9D5F3E8434E78B88D35
+BF329:17BB7AA48C2C5299912A3EB6695320FA33A
+BF39E:EFA53030C82EB2EC987BA81EC3DB09F9BDD
+BF5AC:669F9CAF1443D2F57D3412E28BCE5EE185F
+BF5C9:8A4FD48FE90B434A63E3DAABF4DF63C1782
+BF6B8:2CA25208177B163C3C7078622102A453EFD
+BF6DD:D53584F5BFE1F28E4EC01B24A67F779DECA
+BF7BD:244CBCC8CDA1FFF9E55164A4EDC8C24D1DB
+BFB1C:766C43BD0BE9E1CE9D55338C0B0AFCC7352
+BFC8B:75349A2E08CB16A33FAF3C5CEB8FEF62B6B
+BFD0D:07631A1DFD999F8529AD999A3DD83A74A94
+BFD1B:BD9E19E215112948775C21EC964B9A6A2CE
+BFE54:CAA6D483CC3887DCE9D1B8EB91408F1EA7A
+BFF3D:911638DC33022767BA66A2828C101C7D6BD
+BFF48:8954002A2AF078C97028E006B70FAFB6A73
+BFFB9:44DB6173A45C4C9E380A9CA4914E737D2F4
+BFFFE:9AD39C3C953FA7EDA206CE0F8571D1CA03C
+C0063:12F261636B8278C210C9AB60E10116457CF
+C01D1:C5E1164B2AE60E563CCFD484015062EF3B4
+C0302:CB832DA4F325C45949DB17F3F98386A305D
+C0355:5C8289418493AEB1EEFC743B450B718A9A1
+C03FD:5EF53574910882B73B230B11C43181811CA
+C0422:182CEC97EAF5FD5F22778D87F06C89BDDA5
+C044D:2914A6DE79A96734837C2D13E16CB51E42C
+C0488:8DCB0AEB3A9FB64735C366D3FCBA247DF66
+C04EF:3A181CF6D75F663FAAA6AB455992B16E0D0
+C05E0:CAFDD73DEC4CCCF30461D084811A94A7617
+C06AB:B89FEC5AADA997B9C8B41E0B322C8CF3CEC
+C06BE:EC1B539DDE2CC6D2F7D3658B3DD2DB39D0D
+C0752:C82F18765FCD3A20377EAA1B7C4A081FDF6
+C07F4:15FD501A792BCECA28F332F27B78A666485
+C08A8:77BA3AF911197F03072483BFB5FBCCB5F47
+C0A2B:F6F41B4E5F017D817B20812C63F3ACB16E4
+C0A79:59C34C26BEA8F03BD02A579485E5BE597BB
+C0A8B:B66C3D5E03E4C122315D1FB906700DBB8F8
+C0A8F:28B61C37FE2F7C6B18739523305ED9A50E1
+C0AD9:0BA1F62D734A73EEBBCE493E8A0873AEB02
+C0B13:7FE2D792459F26FF763CCE44574A5B5AB03
+C0B53:638EAE12C40C0195CDA4FE11AE5AABC425B
+C0B92:ADFF6655AC0E589976E62548EF12B7D27E4
+C0D22:AC14ECA0FF4967E9F0A706738D35648396E
+C0D82:1EEFE9E6CC9BDE6046BE1FD6EB9E23B26A4
+C0F7F:1AE9C191439E23C929C85326CB23B856E0B
+C103D:1977D9DBA973A70C16BEBE344F05888279F
+C10C6:99F0168A5F2323E01B0C62D42B254CB20A5
+C112E:88173D4D3C5C1409A17BEE4837673523991
+C11C7:0E8899C8189620BABC772F86D91062D33E3
+C11D5:E1D35FB7E158E57F09EC98D28E19D6CB900
+C1253:04ED2481CA211241EF6CC99B534E746213D
+C129D:3D0F63FB7C86F4BB9241DD7FDF5EDA44CDD
+C12C5:BC8FD50B3D4AB5AB92B605D09DCA9DB8F1E
+C1304:68A2CA902BF3D61A8C11E022E59C8BAA250
+C1456:D8516AF62E98B46ECFB8E92F6BD8EF825EA
+C1485:057E3F4748DDA902C8FCAF3FE262B2DA6FF
+C1508:A5A91C794C2B5E68E4667B432FF0D99A6EE
+C165B:B234EE4ABDC30E8421400629F604F7BF738
+C1678:B2B3FF4D7D6802D5A17AFA75134F5B35621
+C169F:9899B853FF4CF8ED756C432961B7CFA83CD
+C1701:D899339FF3BC01608FA45B283AD92B973D2
+C1723:8D81F21DFDFE5E52AEF51FDC8833392725F
+C1729:6C8E5D91D68A747FD7D17B1E1583D86E18B
+C1740:3F8FE5A2CCCB41AC8C309877C8E084F577A
+C17DB:DC6C8C80794C861A0C4B8724AAA119C560A
+C17E7:C80A93866BD91E884B8F282AE4F2798CE95
+C1816:A07A1D20B9BFC3B93A7D1A5803EDA81AABB
+C184D:CC68A28E10E0B73E6D901BD00B04060500D
+C187A:9472016E78F47751A02C44058FD46AD04A1
+C1881:0861FEE46A68B79E19C43E5C8F295BA517C
+C198E:0C508943B10B49F054C42EDBE351093697F
+C19FF:4F8F993B2E79CB23401745D61E3460B2C5E
+C1AB9:924ECDA1BEAF8BBAA1EB8238B83E0ED8C63
+C1D94:FE8583FC64A984B3CCC42454DF85640A2AE
+C1F4F:9E91DD0774B12A49BC3F394B48DDC419E8E
+C208E:115CF387260DAB5B7D087D199E96BDA7AF0
+C230B:829F3B95DF3084618B8E4CFD503FD22F0D0
+C230F:C87E6896327C064A2950C99B7DAAE8E22B7
+C2331:9F848BD0A65165FE323A951969652B9DF84
+C23CA:618D465AF5C1A4509A85671BFECDC8D5F75
+C246E:AAEB2A79CFA9DCA63838F75308079091288
+C2571:3EB6F4B2555ED9FC4A96CADEC05CD384177
+C2577:430D91716490DC5D33C20D901E008B696E7
+C269A:F59B8D32AF462511A834387CADAE8CEC538
+C2761:1045AFE546CC542E72FA36B1CC81DF8BC32
+C27D6:B5FF4A3F93FABE1A7BFBE6854895B651125
+C289D:5E26789D840AA5E65A97C3D559284F09098
+C28C9:70B4D9E49C3746E9F2C6F55DB43039A96C9
+C29A2:1CE56E21E2B2C94B652EF8C3E453D089AFB
+C29D1:6DAA7D15E24958C7D60F77D3DED552F8DDC
+C2BA5:9CEED2FF8FB81D066FB2E4A1237ABDECFA9
+C2DCB:037CD9DDA0ED3BFA2AE26AF1679F44B8E97
+C2E0E:0C4E0E398E4ABD827AF28DCD54ADF1BC9B3
+C2F62:BF0F4EEEAF4094EED38301F89A4315A08A6
+C2FC7:AF4C3BE0B14E2EE5FEC830092A6E9A6B51E
+C2FD6:87207A272E7470F9B39A39634A9F3F70C9D
+C3109:B9B125987C1A1BF4D05E7B517B393C9F8C1
+C3140:5B16FBB48ADB41B8F6505E788FCB13EBD91
+C32DA:38EF8958FAF728DF83CAC65EC6831D9EAB2
+C33F0:59B0CA7725FBFD6C9EA4F2F012CC7AC5A74
+C343B:A6C2A90BB873601007DD96E6E1CDE7C77CE
+C3465:193D96D5E3E6C482F3C29D40CCC3C5D382E
+C35A3:7F0BCA08AFA583247CC461CAD9C8082A47C
+C35B0:7262FCA57647E4281358EEC6674C2C5BB44
+C3628:63DF188B00227116B054BA4E89C70466A0E
+C386D:DB9A21460067BEE1542A51535DE28967DE3
+C3ACA:791CFD786A1CE524D59BBEAE4A3D1F0C98B
+C3C20:18D4656C1AD330329A67394D99412AB8783
+C3C37:07C81AEB1B5C623D297FFFFE7697FA9EAD2
+C3DDD:5FD82303A2DE46231BC22F10CB30261BA08
+C3F15:D27BCB5AB07B71D7FD598F8800939F4D597
+C3F27:0C0C70794C0A9E6CC7483FEB11C3243D707
+C3F63:EE769C8F251565E45CF724F6E4EFAEE0387
+C4038:2DD2EA6B1D905124595F198787C79599130
+C4157:9082D72FDFE9191359D236E2E099F72336D
+C4238:9892F45146A595C651969FB38DE5FBA793A
+C4254:21DACF582C4BAEEB204E961BDC726398AD6
+C4328:02C0DDF96C15541DC895208A8925915CADF
+C4684:3806AFCD7D908AEF981BC2BC8F1C9BCB733
+C470E:76DF6EA6B50BB952DBA2180043340D8C7CF
+C47AC:0301718A9ECC2E36D72F4216A9CFAB0D487
+C47C1:FB413B2968729BE078046EE371680501348
+C482C:60492061B7B37CD350E26F20ECC62D21BDA
+C4867:9E5F61BC4456166BF668777BB7EE49CFD6D
+C486B:6DBD676EC3D8F0C4AE00C3123773B66D1FD
+C4946:5453D6B53F5776A3CDF0D9CC048C6DA172C
+C4A6B:689E378ED552F591D19D0C4F0580AD9E148
+C4AA4:037801744300C4BF3BBAF7376C517C01545
+C4B91:44101F349534E061D1C791B625110EC1FC7
+C4D33:C8C4CDCFB223029C5F850B39215A127EBFA
+C4E7B:0B8D09274159B1E7BE06B64F83B99B3B2C6
+C4F6F:BBEF73712BA71BDBCA83BE2FF93F7442E04
+C506E:42036AD92D75598221DED324273D13318EA
+C507A:C6EBE6AEE90E8257E247B7F89E48781A4C0
+C5144:9EB3C12B1A965DBAC2251A7A95AB2B69459
+C5155:0532D4EAF3D7BF1DB41050FE18CDDF7C92A
+C516F:127AB98688A569EA439102B1F8D363A047B
+C5195:728BF0D5BFE8C016C4A90F133D87509EA8C
+C5288:8225C6929961BB5FDD4C51FE46C239D9E11
+C5325:5317BB11707D0F614696B3CE6F221D0E2F2
+C5343:3D7B0E77E32673DF87D8984BE189F2A2985
+C538D:6D5E4E82A587AA204CB4CC1575151822D58
+C5391:53BA1F947BD4B6F910263B967C4A0A62357
+C5395:8F681E9EE24C72019812A458A34DF35A27C
+C543E:750C4BFD00DC60F270AB510C21763ED55B0
+C5515:2DB120DB8A929588A5CE9AC20A951DA2AED
+C5530:46FB284C979ED055DA662D5C9283F1428C2
+C5535:D21A2B5B7F5E121E1E328E80FE47F65FED6
+C561D:66E42ED58CE8015945F7B748A7714560210
+C567E:E5299807CFA6CA24C2C1ED0A1CDF14C7DAD
+C5731:FFBEA7CEC903CE7FC7B4E51DEFFD56F5A51
+C57DD:DBF413CE993D73548BAC882010D51B14970
+C590A:FA9BB59191FFAB30F223791E82D3FD3E3AF
+C5977:42520FC6F5234901C025F965E9039F133CD
+C5AEB:B3B9B800DD74A5985BC734F37566C83CDAC
+C5B50:D6102984281C0E94A97B591E174B66853FA
+C5C10:9E5E5521BDB0D79ADD3CFC1744B6D8BD2CC
+C5CD9:AF038C33E56C2855F40DF6CA58CAEDB6379
+C5D83:5D9585830142BA01769D18E3C916C1F0F83
+C5E6B:A6043ACDD07D2A403FECB807DE57960913D
+C5F37:8F5E3769D90347DCF75BD06B13A0452F04F
+C6026:6A8ADAD2F8EE67D793B4FD3FD0FFD73CC61
+C616B:7D8E51275C9337B920E7535556876F0FD99
+C62E5:83F78A4EDE9DABCDDCF0F855CAED4E8E26B
+C62F1:1D8B7166E7912EB697AF832339C8C952445
+C6552:D59A7D1722626CCDC9CDCE529C9FB981661
+C6598:3BA7CA3AF6B2916EE784167B4746E2B5ABD
+C6761:8A387E1F44E9BEDBF7F4C3E9442FDB713D5
+C68DA:C844E2415DFC90FCABC93A7957D8B62279B
+C68E2:EDD6F01D947AF7C63400673F8F64A872CD5
+C6922:B6BA9E0939583F973BC1682493351AD4FE8
+C6B4E:8102E13702AB3EF1C91A00AC70CF6F470F8
+C6C42:BE007971599963573D1EF39AA5F6939B5DD
+C6CA7:ED39BCA2118C1CB3DB5947190D3F23BFD54
+C6CEE:C9FE1D02D6076835A98B389BAD97866862D
+C6D23:E9F91103FEF7FF97D602EB51B6E9CF8E876
+C6F99:E1C6E9920095459FB5F5EE869B8A7A3146F
+C70FF:2B2197D9DA19BD80D868E3F44F660669C9B
+C7106:DBFE5864BFA8C27201D1EB61DDA63EBFD8C
+C7166:F264BC1F4FA941691B5D6817F7D9D259CA9
+C71D7:F5B7933B5BED09A6B083675C8B479174656
+C720F:88F5EF2879A74308DADED250DF619E87FFA
+C7276:CA1CD719A5BF5F3504FEF257574399394E9
+C739A:C81FDC698C3C62C6874C8CFF83E25A725BE
+C74B1:B0FC233E8CC7226C82BCED40D686DDD97E8
+C76DA:F6BD664D1564D2293FBEAAD2A80CCCB1558
+C7764:A0F818303C9FF0578E96B669E424430CCDC
+C78DA:305D435EFCDD2685928E75418E3DEE72EF6
+C7B37:6C573A0255D9023CC99D2A315CACF21D812
+C7D12:D147DA77F90E7765C0BE1D181D5071B4581
+C7D4B:9503D7C1DC0E9FEA376621796A209DBF8CE
+C7E64:77ECEF29604380F3185E205C3CC4EF565F3
+C7F18:C763249A68C52A015F6350C0A52AE2B9895
+C81A3:4131B382CA7BF1451260A1FA7C5A43283CD
+C824F:E0AFE16857DD6F587AA7C4044D2642D60FB
+C8266:1CCD38599312086CA0440ADB4F236A5C7DF
+C8316:363DAA07B33314B5B75BB15CA7A89DC27B3
+C8389:AA0BD11F3B9229124E8B8BC60EA7B082233
+C838E:049A8FF3BFA9EC6888A8D91C94D6F7A2432
+C8411:BDDE28C70EED7B08AFB3433E0DBEB5C3A6A
+C85EF:666591BD1BF5F34B1AD2F82CFAE685FCDD5
+C8622:899266BB980AD4A5EBC738E92849C011977
+C86D6:5C0B7BB9B8C882AB843F24644AD90FFD469
+C8703:37406AAF1F62017F0B55A4B4F4B90F85ACE
+C8775:08A189E97409BA3DC40693375C54CD151E9
+C87BB:B1A06411B125DF037191E2E9F7C72537745
+C88B2:CD538966539B14D28AD5B1045F19C5EBA93
+C8A50:F632C3C4BAF27FC05FACB1883104E1D16EF
+C8A8F:767C18701041415675CD6245248BACE4142
+C8D72:FB5A56C317DC73AFE66CE8D43EE68D6D0F8
+C8F5D:08B64DFD9E72C4EB9580F5FEDE4AB16611A
+C8F7F:5A18BE255A091AE1840E3D6D328C80C7B2E
+C902A:0E3F559935D106A9294630C4B442FAD7783
+C907F:B9E8161A2633BBDC5EEF229F15DF7791D59
+C90AC:6B8C55A2DF49E50FFF11A77037451633439
+C9122:2E9B1C7E43D3E8C302F0A1021538636AE91
+C916E:71D733D06CB77A4775DE5F77FD0B480A7E8
+C93B1:9C52E5FA9F499A15D51E9D0E58BC096CA3A
+C943E:E263831A3BC4A9DEC7209D7D417C321502A
+C944D:8A54FDF21F2C019604596674D1B4F0377BF
+C9525:9DE1FD719814DAEF8F1DC4BD64F9D885FF0
+C978F:A13383B8BCC8925E34ABBC6C3BE15902F06
+C984A:ED014AEC7623A54F0591DA07A85FD4B762D
+C99B7:D8D742E1C48AC7DBA91A8553E04CB6286F0
+C9BD4:CEE2A9F862D95765CBB609B9650680548DB
+C9F95:5F7DEBC17BA6877B70182A646D51EC9C989
+CA09E:10726972578B98460D9B6B4E89D54486A0F
+CA0A7:C9F1410F1AB44D428A2F03C19CE37540B6D
+CA2F8:46ED004A3D7F99CD9B5C4ACEDFD2ED6014E
+CA4EF:A4D119EF9A8995167D508385B4EBC97412D
+CA4F9:DCF204E2037BFE5884867BEAD98BD9CBAF8
+CA863:9D0E9F0D2831BBBEF1ADBC48272EA03CD76
+CABEC:9453F510359E76E95B5CD98FFE574CCF32D
+CAC1A:E097E72EBE25C249F8EEEEAB118AE82935E
+CAD1E:50462AA441A3BC3F4A13FCCCD209DCCFBD7
+CADFB:5BE2A34AAC0864441BF73856A8D4C9A9B85
+CAE35:5B615B61313E7A2D42D0C650F705DC3D94E
+CAEA3:241502AE34EE662FE128D5D0B8B1F70C376
+CAEAC:4531ACCA8C9EC3646E61F32249CD9E34841
+CAF31:D39B10FD86C10E762AF87E7D6307C096678
+CAF5C:82EFE7CA571675A65025691080153753744
+CB047:D26CECB70DE3B7E682FA5E9D6C5539F7603
+CB069:89C97925E254369BCA463133A11C5780A35
+CB0CB:170D106F8E8D5AF1E05BBDBD3A96A7DE197
+CB15A:D564768485DD5DC390C31C4806EBEFDBAD9
+CB1B2:9B971E4C4C87B43AED8CC2F343C79202DCD
+CB37D:E1D915A124412FF8113BEF18511DAEC3050
+CB3CB:BCA86AE44F416574500BEE7E6EAEC42FEFD
+CB443:702D917581B3E07C01083A5619AE05F0BFD
+CB45C:671CBC500627EA424EEA5F91996221B5935
+CB510:13C0F5933CA75C57CC30E74202082FF6ACC
+CB7F9:037516A100144E19F4A90A90D9EA756ED80
+CBA9D:F6B6ECC3A90AD84A51C7606C90678353E71
+CBB73:53E6D953EF360BAF960C122346276C6E320
+CBDB0:CC7F3F5B4BE81A75FA7242590E3E9882E1E
+CBE64:8909034C0624C205FE219D3FBD10052C715
+CBE86:9668B9F87F1E14514260D97E7BEE2692C52
+CBF25:10A5F9F7EECE23428DA7125C06115839E2B
+CBFDA:C6008F9CAB4083784CBD1874F76618D2A97
+CC02A:FC28A3E49CB142AA27B33AA4E911638CA26
+CC042:292474FDB5897142258E697BA0F8B94115B
+CC231:18F1C99AFC53C463C3F4A3D45A6C4F6C731
+CC317:65F1D133D4A88E6A9784EC51B479D7FD0EC
+CC35A:D1FBE06BE7FD096C71F84DC1A99BB69E115
+CC3D5:0EBDD40ECECD0FABE0798E781A63563CBE9
+CC54A:ADC66C9DFACDA93E2F4001C911C46D5AD80
+CC600:A46CC766FE2974F6F896E85261814AAF055
+CC60F:7488171EAB86AE50FCDFE95FE82BC37C2B6
+CC711:69D0C91C795ACAF7CB8F72C9FE08DADF133
+CC71F:A587FE5EDD0FF84502D62117AC1D38A3B35
+CC8E3:DA99737B56F00FF700886BC5DF74F68CDDC
+CC901:183A36AAF1B438F9FDAA811FE5517386853
+CC9F8:16A42431CF852CDC7A3FAD42A6F65FFCE24
+CCA23:FBB0F40D8EA70740204E1811B39D5936F11
+CCAA8:D8DCC7D030CD6A6768DB81F90D0EF976C3D
+CCAD6:3C495216861BE844C72253590E9A97DCF2C
+CCB80:575CBE1A0CB4884F646C078B75954DA8075
+CCBF3:DA2E2EE083A8593E3BB7B47619B419F07D7
+CCE3C:8B06362E8AAA5EB849D3187C7DD3DB7BE81
+CCE88:5E484184D58F82DCD332696827E722A7050
+CCF97:5ABE36CA449FA3B1BB3D9C42941572F59E0
+CD027:069371CDB4F80C68DCFB37E6F4A1BDB0222
+CD218:26697D3F74E46C162287DB265780C1E134E
+CD22D:046303B91161C7D39C87D1C914AE7F456E7
+CD2DD:03750C8B1F2AFF63E86657EBAB788369168
+CD2FB:4E60BC6251B5B2AED3A5C0112980D2D4371
+CD481:DCEA5F13B27DE1BA67CD0BB90FC62A729A9
+CD49D:A9D2AC9373E69AB381E13E3AD3DD1FD0BC4
+CD58D:4B62F9D31B3C6C52737CF5323CA6251C0FB
+CD6A7:B8768528485A0DBCD459185091E80DC28AD
+CD72F:54AF341A45A60838FA8B29D3C3CAD53EE65
+CD751:A8BB320C8B60C36DF15894F64E611658CB5
+CD898:962D0395E426BC810B3E8E614746118B5BA
+CD899:9B61E82C7094C107358788824009C60175D
+CD991:9944148169A25C2DA3ADED2E06CBE367762
+CD9D6:B7ECC9BC605FC688342F2A8B2B179B4881B
+CDCA8:723933A3CA36C5707A04ED0D7ABBBD40C6A
+CDD9F:A4E8F9DB3DEDCA9ED5A5A2CF9E5B453D3B5
+CDDAA:BFE504F76910944AD115DC5F8E97606C0E6
+CDE18:011727E259787CF7CB3F50172193F1A8411
+CDF54:7ED4C64E6994AF35CFCD69C4204C9227A97
+CDF8D:B2F86DB022A26F4277115BE7B4C5A378CE7
+CDFA8:A0F21B1E19408A2CD5E918F78CA4C57ADF1
+CE0D6:0D87789209C779660107F12AD42DE539557
+CE136:F838D30CB77F8DE3E80D2C28F9118A8B723
+CE21A:EE97B298BCD5ED1CCAB1EEF61A555E5D4CA
+CE271:282FB8772AFBB67B796B7C98EA10D09454F
+CE3BF:DBCD7598AAB8997F7F51B4579C7B1F35891
+CE3E5:0EA3A966A8EB5EC5B6F17B75F6211E5BF73
+CE456:BEA95CD0D0A22D7B934F9A53838F2BAF65D
+CE460:A947B14D42C1E62BAB72A67BCB289A6428A
+CE596:7FA01949EEB92832AFCF27EB742D5B0FA6D
+CE616:6079990A12D9ACC146A7A19CC4F897B4FA3
+CE6F8:6BD9777453636C48AA30EACB2E02FA26A28
+CE71D:F295CE7ACBA647AED4368015ACE34BF2676
+CE76C:9AF7FADCA6168403E3E363878213B48EC27
+CE877:357483F06C2F184D596DAE67D1C8C87A847
+CE9D1:966B5A0F92F7DBD648AFF5ED592ADAD9D90
+CE9E3:1149C4506B70BE78F210783F40D01CE89F5
+CEAFB:51E2B0783D53DD620019DFF3AA66708A26F
+CEBDF:A92535860E337C5861391679BB6ADF28D66
+CECCB:2F02281E20C3998193C07819FF26541E29D
+CEDF4:1FCCB586DC39E1CE34BB482F0AFE557B49F
+CEF7E:59218E3A7E18AAF7FAA4A23BCD964323A66
+CF1C3:3D21A4F887C571A01917541F8A98EB6FDFB
+CF252:0DB9C0F5B49EB7757071539D6752A298B84
+CF2E8:75D70C402E4AAF32CEB64B1FA6F7396AF59
+CF4A9:47F79D83627C91C189608933E92222D8D5B
+CF60B:2B865D4A83696A206454EEF5CE1F33D829B
+CF6EB:109FF8F05999FA6268E4BE787AFBE0E52EC
+CF7D7:3BB6ED704CF1C5D23F3BD537D07A85B95E2
+CF803:BF4250CB13BB6C858F7CF01BADF09EB9FDC
+CF8A9:D3177D4C046F4570EA7DB511BEF48A2C70E
+CF8EF:47FBA54D1D184912747A08E1F36696FAB80
+CFAEB:398918CA2E4782CFBC1DFE837122DF7B1E0
+CFC6B:2A52096264D44A2E16CD582259A9EC2D171
+CFCED:82237C1B14B81D2F96DAC9DFEB8D8D87107
+CFD20:A106DDC95003823F5F17AD64A10C78EA977
+CFD8B:A62143F37D97D6692910C21A9A47EFB6395
+CFE77:C59B82B013955A52DE376A9A1E208C5852B
+CFEF1:1D457DA9DC9DD29B23B4434BAB5483519F1
+CFFA4:0787CF103E9F711C0F9B32B13EE2EDB2707
+D0038:59C6EE6E39935DCCCF8E972EE22465A6795
+D0125:E9F12CA3CF1CBD0C8DAB4347D492CA07946
+D015C:C465BDB4E51987DF7FB870472D3FB9A3505
+D033E:22AE348AEB5660FC2140AEC35850C4DA997
+D04C1:675B232C6ECE69ED95E189E95D589F217B0
+D0580:2CB9344A83956431BAC2AB4F8C67E534B65
+D05DB:4C20ADE805EBA9A0B2DD82DF40FB10AD6FC
+D0664:3694449442B0980D58098ABF02F496A9DA8
+D0688:C0A13BE24A80E15E4238D934D4925017E12
+D073A:0E7496B8A19F43B22631A981967E24AF354
+D073B:C318121D77A2872D8E7D0676A2ED6BAC10C
+D09A8:A9A69D142973EC871C92E38D5B0AE32BF59
+D0A65:436A81128B4FAC0F27A75B9A15CFD6F07C9
+D0ACA:AE940E865A04DCB456778ACCE39375C38A8
+D0BE2:DC421BE4FCD0172E5AFCEEA3970E2F3D940
+D0D1E:74E6CD427F94226726F272B6E2A5844049A
+D0DEA:CFDEF5651DD40BFFEC2F2662E90508C196E
+D0DF3:2246147514628B8321D2F231ADDD48D3176
+D0F09:5667B8A9EF1E200FF64FDA36B20962D71AB
+D104C:5465D4D2425BB11B426495C7B5014B6D6FC
+D10E9:60522ADCAB522C89897D350A119CC11B94F
+D124B:B7F1763761224A83A6D3FCF0706887812D2
+D131A:DB1454055F88CE71C4D4DD08904715FBB00
+D14B3:97E052F68343C1E31A8AFBA317BF39DE41B
+D1559:A9DF29C4CD3A7E09B141E340FFAEFDCE454
+D166E:844A3F3F87149CC4F866EB998E9A751C72A
+D1863:1A03F728FE6B2E585A8B4911F54D119602A
+D18A7:88A440AD02E3F8BB9BECE0FF541EE05F885
+D1913:E535CF31753A6400EE6088CA5E8C26CFED9
+D192A:7A70A0D4DC3DF408A3A954C6F529B946639
+D196F:6A89618F2B9D01C8C203953C76FA3C8111D
+D1AA4:DF922CE43EFA526D61435DD3FE0640E43B2
+D1BE5:D48D8A73E4BEDDFF3FE7D854AAB15758220
+D1C42:4DBE12E7757007771224C7A3D007BDFDECA
+D1CD5:6A32873DF2B984CE58EE9734C010C418C56
+D1CE0:3E672588599A6356E83AD2B3C6D19128CA5
+D1D14:5BDBB89B3043F75FF7D337D960C70FA8E86
+D1DEB:400DE7825B02D156DEFFEFB05285A2630A3
+D20BD:C0A74454A1DC6E5DBCE1AAA65B878BE517E
+D2341:66D7283600DA3C4519CF50C0296771F622C
+D253E:3BD69CE1E7CE6074345FD5FAA1A3C2E89EF
+D25A8:007E4559EFA671F07D77D3448E41BA50732
+D26B7:223C8BDFB369672CCF58364EC9ECD80F569
+D26CF:1D6AF453AFF332899BF9742F9953FD30E5D
+D2741:BE1EDD7995DD70EB36137E039177BDAF064
+D27B2:3C6DA4EF8085D78462D1DABD7F5CA1AA3BA
+D27F4:469BE6EADFDE078A1E371C9D67D3F7512C7
+D286D:28CFD4C2E8EB5BEDCEC46325F75E11DFE32
+D28C4:81D71E51696A8CA81D1C57719F0611AA29E
+D2973:EEE4A5724220E68FEECC6954442672AD5B9
+D2AB0:89D8CA1BE17B49CEA736D9C1D85A34AD7EB
+D2B23:758B20706B57952C8046808C83AB1EBC660
+D2C4B:9640B1ACBEDEE8148D6DE44272C00D74643
+D2F8F:5DE6E2C7EE3898F4BBCD2F17CF2172D23DE
+D3006:62CBA935FF38D6015B8612BE88AA3C50CA5
+D300C:33CCFC912D7F938D3C0EE5B4A0887B0A69B
+D30AF:D521506D7D66C4A0954CC3948F16791EB05
+D318F:44739DCED66793B1A603028133A76AE680E
+D328B:F57D823BB1630307E061BDDFFBA187DD61B
+D3357:8C3AE9B06430291F576DA737C037ECAC0C2
+D3399:E0501224051D5027A3AD1356312ED83EC2E
+D35AD:B2B046641B656400682BF4A74039088C468
+D3756:3CBD15FCCED9171DAD05CB2EE8F68672D91
+D37E8:E3DE769700DBBAD12A312D14AC0351F2A7E
+D385B:AB51C694B46A9912538D6B1137D0E8D3F77
+D398D:A3EE09ADD728FB009D83A585CEDF32EBFBE
+D39B1:6FBC417CFE2924D54CBBDBD5457ADDBA160
+D39E4:F01393723DA65129FAD5E6C8FFDCC614619
+D3BAE:A3D2146C97CF84CA41FA2DD94AEDAF0CC50
+D3DD8:FA8CDDB3DB6A5011FC3FF80EAE4708A72C1
+D3E2E:284EB261AF8EB924A5702C1F67AC7726729
+D417A:11A3B84666C1729558377D80D2E0E626D3A
+D445A:32EE8C45B84DFDAA69A03417FD700A33540
+D4503:E87763803F16ECC0CFCD0CC01C649F27722
+D4543:CFB987CC7B3C03545CD24742ACBC2A7EF8A
+D46C2:76D3EC03852D570BC8B9379A8839F024363
+D4757:01085F37AAF2A6F1BA9DF93C086D54E6113
+D479A:93E6DE0DCA96FFD0631D9EAA17B50572004
+D48B3:9393F18C374818712C47EF645E31CA001F9
+D4A1E:4C1E5C5F08A26FAC500FBECBD20675F28E4
+D4AD6:8206E67AD385E9158DA7F7913B177A3FC0D
+D4B90:F2DFAFC736205A98BF3AE6541431BC77D8E
+D4BAF:B9BD40B8C760CAF31C0255A16CA2ACDC782
+D4D18:87B7146824B91CD79CC8BB8D3A50A4410EC
+D4DD5:385B8CF396F98EF03767D20C05EB7609855
+D4E1D:387B58C2108E84BDA284524629257E6AD7D
+D4E7D:7D330F01C6F13B3E35C0A25A2A6367E177B
+D4F07:8005935DB6DD4DEFA5E0AA2489C2AC1160F
+D4F55:DEC8C7BC9675182779E564FAE1327D30F9B
+D511F:B8289778BC642FAA096EE623D1006C6DAA5
+D51BD:F9A27D4753D37861DDBFB29324FB5A4F6E8
+D5244:A331AAD290F924ED5ED8C070D65D2E0633E
+D52B9:58B59E0BBC5856A5660B7D86989B7A18D00
+D5365:2DE63B26F2B99ABFC5699FAC10F3F95E1F7
+D54A0:63B46015C938C3C472DCA0941CC2BB6C570
+D54A1:3E7FF58208063DA2B329A9A1F1EB43BFC7D
+D54B7:6B2BAD9D9946011EBC62A1D272F4122C7B5
+D595A:6D0A3FFCBA778685F91CD8F64D87C5343B6
+D59C6:9346313A900F20A217FD05D9D62E0F632EC
+D5A1B:DF9CE989FD6161063E94B92BDEACB94ED23
+D5A46:6F24508845AFE2834F6B741BD73D5AB0BE7
+D5AD4:C78031096D2F3029736E848B206F1A4AE18
+D5BB9:25D332591AAD987368919DA5E9826123CA1
+D5BD1:04D3FFB3C5B8973AF567CD74818117F9351
+D5CC7:CBADBDBE866A6E800D2845248E3D1FB20CD
+D5E13:19795CC5F47A15504521402D4AAF07EA372
+D5EC7:4E16154E8964A6D3CB10EC0FCCCEA3C2B9E
+D5EFD:44D3B631AAC9A62610D7CDBBE750A4C29B3
+D6058:AC17C549E50B19A107CDFE6AA49FCDFD9F5
+D60AE:E8A01FA8B700778E46ADF2016F5421140CC
+D6303:4AED317EE1E05D435C7E88E2D8006F986A3
+D6376:B7B348CC68D625C039E984DF8D9BEF9271A
+D637E:6EDAF4193FFCD807B5F60282A26FF72989B
+D6519:DA7E8399FCAC76394BC85DDB73A79327F3C
+D6558:B0BE179868CB54E2096D37644B1DF0BF405
+D6663:DDA5FE9B2524BF91F13A7621EC735F8A155
+D6955:D9721560531274CB8F50FF595A9BD39D66F
+D6984:6E97EFC119531C42635EBB51E35CD8165C5
+D6A5B:CEC74373331D794EFDB0F69A3BB37EF22B7
+D6BA7:0255C54529FD91A711C0B16B30929B87F2B
+D6C2F:62B94D2E6298C8893EFA75FF73D6EDB4740
+D6CFC:61C43B384DA5BFC0042FB7C6FF87A273658
+D6CFE:5E76C8347BC803168FE861F69FCC69CC79C
+D6D17:9707A746AFC233F3DFC4E96608319DA6177
+D6D2C:E9214EF1BAFA3456EF76F6AA697613338B3
+D6D5D:360314863CA1B9E84CDA309759AF3AC15EF
+D6E40:D194CB262A441A9EB523B7327A43E9BDBC6
+D6EB6:1B7EAA1A822729A860BB62E13B78349389F
+D6EE9:503BDF069ABC407FACBB6F321F0A81EFFB7
+D6F7A:22828512B69F6E2A37006F4E5D03A32D1ED
+D6FB1:0F1B0046264477694E6853FD5FC78284FCF
+D701F:B8CE3906A86F750CB3807675EBEAF93F54A
+D712F:F18F8F534BA87027B6A9028951C00FA96D0
+D714D:8456935FA20E60BD9E661423CB2583C79D9
+D71F0:6E9A2A6F928414732F69FA538A976DE3CA2
+D7204:1BC0D5DADD517A3B6B9835D9CE1DE7CB40C
+D7555:5C0F89906B1DD7AAB5635FD1312CB0208AE
+D7556:EA365ECB2BD67B985F9E09708997BD234B0
+D7568:1F44B89B0BA09B312CFA23AF8234B3D8378
+D75B2:5CB6A9220E88CCCF9C8CAFF57E3F3A0BCAC
+D7630:25C6A544DA3F8808D626D6FA933683E3F9B
+D7683:E52AF93B105A44FCEF5BD668A77FAFD49F9
+D7895:36779CB8A85CD03990FDA67C692F503BB92
+D7966:074B3D619B43EE1C6296AE5332C48D6CB1C
+D7977:566C6714D1AA4C1A23CF0D228F3F8AB15E0
+D7A24:1B3F0BFB86C57E2B86E0270759261997A54
+D7B24:F804847D7EDD32A05BB8373DE22D32FDA9F
+D7C73:AB2138A904468D3BA8D0F6CADDC972C517E
+D7CD5:6F2A2A3F47830760EDFB89946EB7B9E2CD1
+D7D1E:B4B6D7E024619CA18E5192AC703C5F6D711
+D7D28:8E3D82FD9C068E22494E8B55AD2EF977D1A
+D7F58:1E013753225AA589A0D8B85377447F187CF
+D8105:747FACD7558ACA4559169590ADA33E4ACA0
+D812B:03A7F4B03215457DDDECC7F95AA83D5793E
+D8148:0FD97E47A9C056B0659D36DE8E0539DD73D
+D819B:82566E9B601D87E168D0DFFE31CEE1A9229
+D81B6:9B3443BE6529521AE051E08515F45B39BF1
+D84BE:FBBD2B7C244B0DD9A30C23BB6349E502E59
+D84BF:4D4D27D96B9DC8B5C6B6450B1CD5EF65470
+D84C1:C8439E9DA352BA9F7E13CE1E687E790094B
+D850B:8240A432C29C0C2C3A10ED4102AF4C9FDAF
+D867F:1A3FFF6239FAF127AD4137694DCFDFC4599
+D869D:B7FE62FB07C25A0403ECAEA55031744B5FB
+D87B8:54F0D9E4D34BB58A478EA07F9DFA64EEC35
+D886B:1402780C62D42243F93F7837C731347A841
+D88B8:4F8C25101B8699FD6D6D66F1D4E0462B563
+D8940:4CF21173233E6C5117E3E15350C8B2A5085
+D8A61:2A0F2DD07F6DCECDF708599D8D9BF395922
+D8B50:4F784DCB60F60A1915E81D99A8635B4272E
+D8B81:0F0E1A56F8C3DA62E8FE69D225E07F8CD8D
+D8B87:A1EB19D797C8E8976D94FF86EA9A56F46ED
+D8B9E:A0DE170D9B948FE78D155A04F49EF6EEEAD
+D8C64:FB4213DC46D51A012E4F69D5890E544171B
+D8CD1:0B920DCBDB5163CA0185E402357BC27C265
+D8D5C:9EAFDB918DE2F5B4078AF49AE9B3DF3313B
+D8DA7:AB39E416333C2B94E8AF670F6297BFC74D3
+D8DFB:C2A9AE8B563BD803D0E99BBD6C7C7F4C6C9
+D8F18:B94C54328EB42D8AACE07D58820E36EAF8A
+D9042:1795B4D768FE1734922BCECB5DE283D63F9
+D909B:493DBAE7A78908A8E87053AC55F9328E7FA
+D90A8:4406C7862C3D126667FBC1CCC28594A89A7
+D90E8:10B6149C68041A109A73BC4C4B35682DB36
+D90F7:86E828B5F0E98C940AD6CC8EDB076075C2D
+D92DF:F24A5AEB38D8E4854DFF74306895C4E5214
+D933D:D681E710E120782D5F80843AA222494E293
+D94E8:2FD9D574BDFB49F5D6809E58ADB791D3CA9
+D9507:145FE70A1C61828EA04F73A98AC07092ED4
+D9572:CF8633C2983CD5A14947EA7E9009AA5037F
+D9698:31EB8A99CFF8C02E681F43289E5D3D69664
+D96FD:464724A41BE95991CDF62D92A3A7C93C589
+D972E:3AD7C5AF0E07E31F4893A9B5CC5AC2DDF08
+D9753:057BA583D7183ADA70D2DE7F576EABD7ABE
+D986F:637E0EC09FD413A5107B0A202A86CB326DA
+D99EE:244C1DC2B463B2B63CF99FBAE80DDE410B6
+D9A7B:844C4B5846C9E89FC5FE1CC4D4F0FF448D1
+D9C69:1D27B3766353BA245739E91737B922AD20A
+D9C71:F04624A780550414B4B4B2D4016ED5D4D41
+D9D10:7E261182715E8CA0764EED600609B1C0457
+D9D4B:393C73D73FA13FD6F1F2AE8CCB6A90F1112
+D9DA8:DDA616E5B6571776E90DB88830A5B6B06A4
+D9F3F:7B9EAA14A1D4E482BA6C47E6F46A56E9EDA
+DA0E1:59D5D4299044F79F21022B30F585ED2166B
+DA18E:45060D15A10458DECE5A6C503703E75259B
+DA1E6:2747DE6BC01D6FB8E640D7AF28B203D81BD
+DA1F8:2DB3C4D787E48DFF9549642EF2C630E9C26
+DA353:47F08D053B9592632F44BD4D8E6E809DE0B
+DA427:397A1A46BA649F80D417AAFA3A1474A1161
+DA523:DB863D6D53918048FD5C9ECEEDFE98815BF
+DA5D5:AD63EEB35E0D77B5D5F3C9C612BBD0855A7
+DA687:E2E2DC36EBDA7817C9BACD0CDD43F7F2DD2
+DA6A8:1787AA46D8A11E046CCE8DB8B8D1BC2A923
+DA7D3:388C18B25303528DC895E63781FA0DC4E16
+DA851:94A434F19A694ED79D5C4AA014C556C207D
+DA891:862C585C1C8F246884B28A33149783DE3A4
+DAB85:0CC17977BFD6DF5A4094BECFA978EA153AE
+DAB90:BF4ED58C21B41146C6FE4D72ACDABA40B8A
+DAC0E:03BC13CD56EFF11F31235D2BBBE38008CE6
+DAC11:0CFA3FBD1748348791DD5A287B4F22FD12B
+DAC12:48C99A2137F08C844D6802DFDCEB8D415D2
+DACB4:3B4EA8861EC07AEE27C64035F0C1C65A041
+DACBA:057532284437B64A4CE6D20F4C952F81F44
+DAD1E:5F4B84D0ADA3F2AB71A4E434EFE0EF04020
+DAD32:3F82616F9DB90D413BF11AA0763B427443B
+DAE09:65CD4D4BBD8901DEE0743C70E5A967B73D7
+DAEF1:3D9DA23EA48FAD3E760309E64C26281ED46
+DB1DD:4F3C3EE6BDC9109CD9000A2769D229BE1B5
+DB25F:2FC14CD2D2B1E7AF307241F548FB03C312A
+DB51A:4240F1AF587B1E4140F081D261D934AC843
+DB531:87E9D84EEC5BCBF034834C21D7507FCA9E6
+DB57C:31F739C259D3CBC24CE6EA7ADB9AEDA1690
+DB59E:4B91F7AFCA5CF122519F58811C0A3395ACC
+DB5BF:6DBF9D79F96BCFE0572B9E251C5E9A29985
+DB5DF:9DC112A5C757DDA434FE97D40AAE1C5A7C0
+DB606:77795BC20BD2B6DC6082636BA779DDC8F5B
+DB70D:861D1E564A3823BE3F0E4B807D79CD045D5
+DB7DB:5897571E433FD1EBC420D06EB91142AAFFB
+DB91C:1C261D2A9F1BA7C1C68F5C147C9420F11F7
+DBAAB:1F96625B437E0B7BBC58ADFFBEF15E9043C
+DBAF9:EB115BCED10C179990C5C8402CFE03769E6
+DBC5E:B621DC05FF94B56A8A3B51DCB0A13D3D72E
+DBCE7:05929C7DC1924EA1173F37652BB00F96D6D
+DBCED:FD8C963FBDA343168326F2738B3D15FC7D9
+DBE5A:7307C94BE9FE3BA371A939C924FD2039830
+DBED1:66D8ADFF2A038A90C417CC332BE85E64DCC
+DBFFB:25B95F81A9876EA1864D39EEE0A54930BD9
+DC004:2E546435F5991B774E83A476DA890F5F761
+DC0AD:B37D6A0758A1F322B580DC5503C21660061
+DC10A:F20088285B9E9023CA25384C38921625FF9
+DC1AE:2B3022F87634527DFF73B7337DD84E7A828
+DC25F:9DC0DF2BE9E6A83E6F0B26F4B41F57ADF6D
+DC34D:44C8765FEDF140F785558BA5DC7B74F3725
+DC3BD:5DFA33B27ADD3C837608F1A1E0934EB300C
+DC3CA:53D42988808C3F1E546BAB04F695C24C6B1
+DC4E0:8A408FA8EDD77884E3EB3604AF517445F14
+DC4E7:69A28447575D28A38DCEFC265B5CDE33EE3
+DC675:F29E09ED5C392AAFE8582E6BCEFA94F5EF3
+DC6D4:BC5E258C18D7CF2332DBAB88F1ACC14E31C
+DC721:84D7F3328470E8C947D45BC020B0E999D28
+DC76E:9F0C0006E8F919E0C515C66DBBA3982F785
+DC796:FFDB94337B1B76087DED630ADA2E7A02ACD
+DC7A3:618C74903B917B789E9F542CB2F04F0BA79
+DC919:A2BC300DF84CF596816E8B4C72A958DFFBF
+DCB94:B0B87D6222FD6F30214FE01ABE179A9B16E
+DCC83:626D09533528F615F517B48DD739EB93BD7
+DCEEE:F63BCE33DAE64E0500AA6DADFC79FFBC912
+DCF08:FECEF3852D17E8F2882962FC58CEF1A399F
+DCF5B:CBFCCA2346E1C956860B3821510E5317E02
+DD059:5C5763AF950CB74404D121CD6BF844DD2EB
+DD08B:58E1D30DAD48D37A35A8760CFFE8D756CFA
+DD0E0:045D285F6342490D334570D6C66F7E330F9
+DD13C:D2AAF98F1FA09BE4EA0D546DB06CCD22A26
+DD220:074F39C367659F2CD1E66DD8C25588F6CB5
+DD3BD:5EDA76E9E3EDC20FD02F0DAC0E295C14EEA
+DD4D5:C4DE682FA778F31C07C507ACDBD2FC31929
+DD51E:8FFD46393CBB2BD3E12CCBAFC4A04614399
+DD5C5:B61BD339D2A67A8CCF1737A6E264DD35A67
+DD5E1:A7292F2DB13E6DA76AFDF8EB9075798824B
+DD5FE:F9C1C1DA1394D6D34B248C51BE2AD740840
+DD65F:426BD4C210276E2E7BF90368CF5F73DEC78
+DD6A4:D12955A2FFB14FFD86DC4235B8FA142DF2D
+DD6E0:85D7FC47BC822EE1158DEFDCA384AF5B26A
+DD7AC:CA808561B87EA4E5E8C91D1CB502602F766
+DD7BC:79A84650F6889E62E6E0B25B300E58E824E
+DD979:11AE17D92544A4DB17F3BA569DC3CA6B3B6
+DD9D9:9F8033D71684F97417C6F5B4206F9F33985
+DDA18:4F924AAE48D9A7BF083AF851B1A12DA3D67
+DDA30:39558EB4E6BBB33ED9518E2D0F79B70725D
+DDC87:7A1FD299043F106C2E685D317D9C92B2C5B
+DDC9E:5CD033C79CBEF87E57DE69BC2CE8DC9026E
+DDF1C:EAF0A82B73024B0A57D2FE3BBBA44EBA58C
+DDF45:997A7E18A25AD5F5CF222DA64814DD060D5
+DDF4B:9F04575FD379ED04960824F9F1D7B9B710B
+DDF4F:18E95277555D3193BC6518EC3AE4FA92BA5
+DDF9B:008BE9917D3BC1DF230EA93D448369F49A2
+DE059:F5E3AB6BCEA2DD78BE4A6B61F7AA0DFC2E6
+DE194:E278006B88ABA20354FDB3960A60F99D871
+DE20D:BC8A98273F5556FBF0AD85F94657AB11FDA
+DE346:0832EA070EFFABBC7032D7594BBDE1BB120
+DE39D:575263F561D1D9CED03F49E6E32AA75BF18
+DE408:E8DEED34E168C829245E0D2ACBD6A9056F8
+DE428:5EE8A9FB99C856C61C9025A01DD104AA506
+DE4AB:6E26DB462B930510BA83E9F80B7DB2BEF88
+DE4CD:C2BAB5BD66893166471244A230138168A4A
+DE57E:58089EE137B3DCABBD6E232562A0F01D89E,FA1B187D1913414B430868A93C79560C047
+DE61F:824AB25050E5870F29E6E064B4B702BA1E4
+DE87A:BEDA29D146EDC1113416AA041128D5D973F
+DE8CD:DDFCD34FBFC859C9BAB9E2575BC413737F6
+DE9A5:DD7C5750ED3689671214057731A0E70BBFA
+DEA4E:9A446F4909AC6C90BDAC7EBB7534B90AB6F
+DEA74:2E166979027AE70B28E0A9006FB1010E760
+DEBA0:172511D5701D964202F4E5DE698D5E07C67
+DECA8:4CA93E6BC33DFEAA0C877473001DF29E5D8
+DECEF:3DCD0574B5C2AED7773F84679B9174CB480
+DEEF6:132A40116276C4AF9F1CF2003EABBC04059
+DEF2B:225F4D5200F575FA84E86AD20B052783F80
+DF0B6:338C339049AEF27B1D90C4EF2CAB0245527
+DF0D5:7EF041B6E6C5F6617A535287716872FD74B
+DF168:E7E57C74DC5D3B3FEB8D5454E1D4CEA06A5
+DF18C:E139EBB7D8609871821F5E1B71F5AD03556
+DF1E9:A98B8022278F1A6B7F5F058E2B35696C680
+DF298:3700FFECB52E6649F0CB3981B66537083A4
+DF418:181878A120D5C202067783C7F5376C1903A
+DF46C:DF43C32DE904B0870E0A443EB6C5F62776B
+DF4EB:E8FE035CB060F75F4F9B09006F5E67DA472
+DF53E:98ABA8750959D65AFC18A5F5C94E6EBF59E
+DF658:124B171CC5CD572E988D31DA16E4C400414
+DF70F:9B975B42116EE6C0231A7E6EAD0BBB283AA
+DF8CD:538BA12F8695ECA9CBEB2E38331C4C350C4
+DFA0D:D1536D226259631BD40ABB47E487F76613A
+DFA4A:6252ADDA219A28A5230C9F4F217A4676255
+DFB23:E3F12D43A3D2BBBE6F94EAC01138649D038
+DFB41:82CCBE3D3A562ED105C5552691B8059C98E
+DFB44:AA43793796091A3371055E3FD74B989B6D8
+DFB9E:D09DC17C7FE0C4A195B32C5130F596E31DC
+DFC04:CBBD4CA54321AF8B34E628A19CE49ACC269
+DFC1F:BBA7DD0B64A40EB3C87E491E26C260BE544
+DFCE5:37D91250B242A55D60FE225C7F493202250
+DFD67:A5DE8EAA302251D516CC86B02D81BD0063F
+DFD7F:4936FF605C769D8F91B3B969A44F56A411E
+DFE36:8E5D43B8669A9EEED2528E3D8633837AC52
+DFE6D:21E7D9A4745924ED661C0326BD2CE1DFC6F
+DFFE2:AE2C738D515E04B679E8C37B81A7085955D
+E00CD:6C0EEF532E7C9A3B327CA951211FE7CA5E5
+E0183:8F06744EAED0DE450A58ECB908FDB3FEE1C
+E022D:4C173F094B4521227D801F8BF21A3514833
+E0263:06522CB94D131B656C579C8B950AC9C30F5
+E0350:9E8CD8D8BA99567AD8FEE371A39F465EC22
+E0374:8CF1BEFDE7583924EA474CFA8D24CA0B190
+E039D:D9236789530308B720977BB25C8362CAA54
+E04A6:C51FE8E69954754E7C8A538E00BEB92633B
+E05B3:4924C12206D99363B37A92B0F495AE6F3FF
+E0618:AD565656FF663537D68B2B4395BEB11CF63
+E06ED:B3D1A727F2967EA6637A1A7EC404B295726
+E07C4:32320DE593B80D14993C5683D7ACF8AB6E1
+E07F8:C4AB682212744526982F0F08D336E1C9041
+E0836:12B4A67573E1D46743C39878D44E81916CD
+E0849:B02E243712AF28E739B517763B941320866
+E0903:8C14F9EE6E0ACA9BCAB4AAF8FE29487E738
+E0A3E:35F1C666DA17FA1F89BA5E5DF5CC1D6F9A4
+E0C95:748A455C27A80FD289269120D4944D1F318
+E0CB2:9403AD179DCCDDCCFC9CFF4227369A4C5E6
+E0CFC:826180CEC94990952ABA9C5F6C66A09436C
+E0E7D:F19D42672069A402FB65DB751467289B289
+E0F0F:F2ED57A4C971868EF3623610126FAC56E9E
+E101F:D352E2D56EC1FDDEECB5164592CC49F3ABD
+E11C2:0311C2F0D71BEDF932E6F55C47F91679FD2
+E1269:9DD3F0EC1831D3F83845FBDA63FA18DE3AD
+E1345:BAABD92FCA43278FDFE27CCDCB9957B0212
+E1453:EA751D5F9B052484113A2E7304E7A8095D1
+E1468:AA3354A8F018634E0D465B08C01412E6C37
+E1544:25EB908715B87F5A4CB08DBE2A5EEA27A5E
+E15A7:974CAFE52831C840101BBFD5822949A1C05
+E1639:497832EA8D16F856AA19CF7A185D2DC0DAD
+E17D2:28BC3AEE644A4B725C117BAECA12568E00B
+E182B:E6B9C035879591692397DAFD10FF7ADC883
+E1AEE:4B607626BCFA2FBF8C303A0E818B4934CC6
+E1B02:6BEE19BB534A62D22AE932924C0F7C9723E
+E1B1C:1D038DEA6223379F98EACCC688D6FF64840
+E1CB7:6B0599FB39B453458751421E25847ACBF45
+E1D55:C311FB617FC63C0126DC504855611865072
+E1E23:F4C9D55B18C1AC7DACA8CC7C33BD436DB40
+E21B6:1F153D01250984F7822F6FCBA7BFCF6BD5F
+E2441:018415E68BC29546602BEC3D6A912806B85
+E264F:0DB47EF8C628420812FE9CBC3A1132F703D
+E279E:02360FCC33D70DB6C32C23454BB466E2D55
+E27B3:5A03084F98A2A2295793FF1D2F43A6E19C2
+E281E:E0324CDB4FCA61F1E61051F9C00741F790C
+E2869:77B13F1A89E20D0459207545D15FE1EBA08
+E2927:471D311A67DB1A91F2B2BF0D18DC4B7A003
+E2B80:156840CCF0324AB9EBBEB309A2604E7DDA4
+E3149:C89B03E1ACB74F1AF5803E97D03945EDC59
+E3208:45866F0818A00F3EEE55A66BD44FDD5461D
+E3283:E086ADD3D49DF5B98477BB2907D99D4DE4C
+E34B6:E512A2BAE6BEC6234659896B1747E6E9451
+E355D:E878E2E1A6557940F9870FB59DFB5D407E6
+E35BE:CE6C5E6E0E86CA51D0440E92282A9D6AC8A
+E37E7:731FBBAF52EB5DD670FF972A6F3161F357C
+E3828:96A7885D8DFE15959A57F4746ECCB525D90
+E38AD:214943DAAD1D64C102FAEC29DE4AFE9DA3D
+E38FF:CBD2683115A552D81ACC05B58D705CEF18E
+E39D1:E651033B649A29E01ACA82272CAD64B9A82
+E39FA:6F177092337845E82CC8EDF3CB7C9C965B3
+E3C50:28808ECBC225FD2297170EF4F7364484FB6
+E3CD9:F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD
+E3D4A:22607375FA6317258DF8AC5407CB382370D
+E3DBF:FAD6B874D7C7ED290A5A43C99DA12B14AB6
+E3ECF:8DBC2DDBED12AC2E2DB41D548DB92613FC3
+E4194:494EFF360B2D90C405FF832F97906C43313
+E41D0:CEBD8D17C1115FB526D99FC35E9493CA970
+E41DF:C3B71D5DDBFF43CB53F8F3829DDC727C876
+E4210:28269715F36C3FC6CA42F5FA4787876AD0D
+E4308:4C694A3066B3F14019FBADDE19EBE0B6FDA
+E4321:C7199B19E88A3D194872DE739889B7E49F1
+E436C:21431EBC4241FDEE8A60307F8E9EB711D82
+E439D:BCFAF126B3CE9069189DF3D52B713BA5572
+E43B7:E7B13BBD9972D51267517C6AB8D90F9C442
+E4409:822BA1D95BEBCEC2DFAF8F8B3D2E7C8291E
+E44CE:1CDC6E4C88097AAF3BECA3BFE80DA365E20
+E45E2:77B5DB4E35098EF41CC0553D31F8092AF24
+E45ED:40F34005E1636649AB18BBD16ADA02CB251
+E4970:BE8A295CD4987DFD7F46CE56807969E8B0A
+E4D8B:A04D0C630C70501EA0779A7DFA62B1481EC
+E4DD5:B3B47B0430C9E0A400FF6EDBF35B9CEAD7A
+E4DF3:49C2917608D990B7BD31231F40D8E07FAED
+E4E04:C3843C785AD28F68BA90C77515CF71FB2E2
+E4F53:AFA2345A194AD86E539525EDA60F226ACDA
+E4F81:994FED009C24D31EFD799E2D47A74A60F1F
+E509C:34E9BD3F8025607CFE2FD983DEBBB2A83B9
+E50E3:B8D65A906C76E3422A2D8285C751D9EEA63
+E50F3:474AE97F4A1455F21FCC02AFCC6268703EA
+E5256:2829D3BEE99654EF655AD4A5610C14C8A62
+E52E5:E6CD50EF4DE30D8A4FAFBBFAB41180CC200
+E5340:7CFE1A5156B9F0D1EED3BAB5EF3AE75CFD8
+E53D9:2CAA56E00A9CFB84EBFD57DDE859F77E2C1
+E55F8:01B773E6FC524AC1371658020932A80344D
+E5710:44DF0DE5392AA1637C4760146E2D18E01B6
+E5767:8FB1278C19A50A1F43576D44D9C04BB1963
+E580C:4C799F66851B8E1CFC259136017012B7269
+E58FF:B78267E23CEFD1DD7B732C57A87F5702050
+E59E8:B61D945A074033E7622671C6C5EDC3FD551
+E5A0A:F1773F05A4DF991573A065F34BA3F6A876E
+E5AEF:B53B40E09EB9B2807C76C9CF8317F5F21AE
+E5B4A:7601D9B9408E8BD934284A695F7F6E39527
+E5C67:328755A2A0192D4F011953075BD3A9BE84E
+E5CB6:EECD6BC68CA188FB03D16A384D5F917EC26
+E5D12:7A9F62498D061E6B24C3D27EDC403249869
+E5D7B:A47D8903988AD5B59C791A8C02746BD6D4A
+E5D86:7BD498F557C8AA181F0647E3718BDA17E5F
+E5E02:13249CD5BD8FB9D09BB50854072D3DFA7DB
+E5E94:AD02667834F282F29B55A08CFDEECDD01E9
+E5E9F:A1BA31ECD1AE84F75CAAA474F3A663F05F4
+E5F0C:DD51F11723C7FCE109721F2223539DA501F
+E5F4C:7C6FC96213F8EB1D3CA9C84CAC4913FEC34
+E5FA4:C65287321C1D0BF0DADAC0906F5198D8AF3
+E5FAC:2B0764ABDC285119116E99D06E4601D4206
+E60B8:F054A7F449457CFCDF09E7B0024D915C834
+E6146:16DF52430DF99AC4F14B46802352D56EED0
+E63D8:8BD7BF3060458DCEDA03C30CCDBC80C037B
+E6427:457497FE0F4F93A7334D2203B8E17EE82DF
+E643E:81D2800486AB1928E09016F949B1892CD27
+E64BD:4C216E8A1BBCEFC3A17D97102A1B569A704
+E64D6:458A02BA1F2B606B4D8BC63E278877B2E26
+E657A:B34318AA8E5F8AD4D82CFF29031244F9E40
+E6852:777C0260493DE41FB43918AB07BBB3A659C
+E6862:933EAEEBBE8181C8BBCC6926C8F2D32A742
+E68E1:1BE8B70E435C65AEF8BA9798FF7775C361E
+E69A6:4E75F7ECCCE98C876B159362D635E80A552
+E6A3F:77A2225C5FDE8BF8751469CADA217D605B4
+E6AAB:FF105350DA6F18FA4CB82F36CDC1CF9EE0C
+E6B19:1CEA08DE8E37D0141F3AF0BF4B6B572FD64
+E6B6A:FBD6D76BB5D2041542D7D2E3FAC5BB05593
+E6BBD:62C9189D2169891F75271E1CBF94085AE1C
+E6BF3:D54C30A7C713C4676A5E3CCE1E3C08FAD9A
+E6E09:8E3771D2F33F2FF7C12298D815C00AC9671
+E6E23:488B794D4CEC72E15F0457CDD24414EA6A7
+E6F2B:EB861FA96F3430436134966D25230B3E4FA
+E6F47:0AA3C1F6DDB4FA9DD7B9BAABAAE32E7164C
+E6FC5:7972B9B5440B092E453536A15B73B7936E6
+E7024:E81E7E087D9475938ECAEC38AB0553F940E
+E719D:B599A00A2F241CF2EBD3351C42A0078BFED
+E72D5:48A52423A1FA02BF2EAA3240DBE6413D8AA
+E7387:5A759B2E0A3C5DD31BCD384BBB1DB99EE02
+E7429:9D0E6FC7918BE96DB94F435056DFB0479F9
+E7511:3AC5EDBEB9E25E7B5FE7929C2FB9E6E4B46
+E7578:7856C781087B5FB7845907043578F132E63
+E7588:83C1B4D8C44135FD566C351EC221C765172
+E76A4:3EACC765A48E22FD7337C997EECFF69E73F
+E76B6:895CE19B1669BFBFFC7FDC6E550A72B306E,E8886C736173900D465FF101F1233FA950C
+E76DA:C66147F4362ACDA423A01932A9596D1BC87
+E77AB:8F38BF8B7FA487C404CB6FFCE8E9622356A
+E7802:81233E39305380342911FE90A07F9366948
+E78AB:7960048A542C628D5DF03BB1D7372FE8C36
+E78CC:1DAD268F989D00FE847EE2104CB78843ED3
+E793E:29B4F741131B8338702A595B7CC045593C0
+E7965:266C3622F9B3B171BC18A4ACC3D86F45770
+E79D3:D8938FB6FC99110437FED11153815E861E3
+E7A1F:2FA05A11660FA13CB668D1625B67669B7B2
+E7AA4:C75B8A6F0E6DFA50F59803A173CF4192D2A
+E7AF0:B1D59970FD24B84FCF5F6E9DAE030EAFB55
+E7B61:87F5C360F2B6AFC7DAE063193F8B0035D04
+E7E29:7A0B13B799DFF58460AFD00C654A0A83D0C
+E8072:1793C24AE14EDFCA9B26AD406A9815CD3FF
+E80FC:15E8BA4B8151736140CBCD76037EBDA8B9C
+E8126:C64C3486E84081FFFAD6A0AB22D4267BB41
+E819E:EFB8249B4107D96FD32204588EAF39EB45D
+E8245:B3767DDC604AC3F49C084F84B056797B0B1
+E8268:1336140E5D433A39A4F34371A082B671272
+E84AA:24658F328B3FBBC31525359C5397E021D6B
+E8509:EBCE57B831FE321D6EC2B5A1AE00FD87188
+E8777:33F12823EE6F317DDE4B2D75EEF13AB35D9
+E8839:FCE52DB1C507CA007619608A3D84B7DE437
+E8843:D2BF5376D63C788049A46B413C9126F0505
+E8890:7A469EC9C9DE2808E2969315C3CCD5AC322
+E88F6:9B79FC7BAC9BF67B851A2865DF5AEB5DB8E
+E8947:193ED5C142C854BD8B1284A22E3BF431AD5
+E8AFA:59ED9036D14B1726AEA5A35AEBA9AF412FA
+E8B63:B3703C4F87F825CAF1B9F8F3F0D6CA47B9B
+E8C95:637C938A1742944CAF1F9E73DEF5E8A81A1
+E8CE9:57D24DEF8B95CF4E4B6033E3C2F7FE06EB3
+E8D45:46BEC9A10A1BEF5CBE6369894B37728AA4A
+E8DDA:6D65D467F7DE273BD70F6E8050688B60A91
+E8F4E:A77242421FD658E6A11FA07E0580E2CDE93
+E90BE:A2017739ED1A5F050F1FF8DC1CAE3FC8DA3
+E93D0:01C9316049928D7D5856212949ED78CA400
+E9424:E7E2A8860A0D3198A794E94222D7A1083D2
+E9476:2436DBDFF192E7BDDA20C307583F9CA7523
+E956F:001520559F0A3F8296517234230B184DB31
+E9685:7C58F716104CAEAD648EE6AA61AB8E41CDC
+E977F:30EA412972BD3057BAA1518B1F7DD9E2B1D
+E97BE:C539CDE6266716FABE3ACF6BED37AC63806
+E97E1:256F3CF60C7674EF462C4675BB958900C78
+E98C4:B337F54FEE8731AE1AE942155A5E7A8C640
+E9A8E:C5A17E0696F043230F9CCEE9A0C4A0F9F6C
+E9AF5:88C391D883301918A06D0C99F2BAB3E8089
+E9B09:F9B20A15489E1ECDCBFABDD454E75A1D2D1
+E9CBF:3D1F5E14A0FB36E2587AE024A785BA2DEB0
+E9DDB:7A8BE08D37748C37ADFC2DC17F8340E9B15
+E9E41:FD6F59672751D010FD87DB39957CB522977
+E9F2B:9B61AE3889752307118641A90F306692314
+EA0BC:471F976F003DAEF44A5DA8F1B68B49C7941
+EA487:CB296D547E8C28EC4A213E5815F67773148
+EA48F:8F4EAAF64814A79CAD29039672275C8A3A4
+EA688:78ED56F4EB328BE822C3643978EDA0F3C94
+EA764:D45FFC8121E41C44CAE6305F7CB2513AABE
+EA991:18A64FA98D0E0F6A02489F843C86507D45D
+EA998:C84DE27E1852796349DEBBB0BF6645DACB7
+EAA9D:446AB309293BC33F89F5D97C5E859E4E0FB
+EAAA2:83F256085DA830F8D1DBD1209C71BA26152
+EAB0F:0D675765E4F0E8773762673A9D86F53028C
+EABDF:94E13996F57A124D22F8D5B1FDA50156307
+EACB0:D1B53A6F12893E95C7C5AEC16DE3FF2A939
+EACB2:3A25520D3EFF1A77D93EA605683D5AB0C47
+EACD5:2D229C7DD0C9166BED4DDFE8730DC719945
+EAD78:26B1C4FFE186CA67A229DB601F5BDFB6F79
+EB035:84442316CF2AE35E60EE1065E9140BF41CB
+EB067:043EC5AF23AABCDAB1349430F2B7B87FF2E
+EB1C9:6F3373DB5858E39D726A5D20C9FBF150018
+EB22C:5E28ADF024CFEE08804C00DDB9AC2973892
+EB2D1:283068B1C5B684714357A4078791175DF76
+EB3B0:C150D06E5AA2E8D921FEA8C1056C1FEA6F8
+EB40F:D083F825A806522A612F4BE5542F895864D
+EB489:2A4737EFCB3F629A26D7765DA39A455E8EC
+EB4DA:12BF661C55780BA953E97DDE6341B4C556D
+EB54F:2D1E17C76474B462DCC40272E9A017908F8
+EB564:145C24984C394D771AB1A9777CC8BB6FE85
+EB604:69E1DB4026180EF1EC0AA9391F05DCD4EAA
+EB631:72BF807C4AA3CD3D114221DC473B5CA93AB
+EB6E2:BB2689EE81313624B264E48FB83306616E8
+EB838:4E607FAD9E9154E1F10B93C3D8B89DAF8B4
+EB848:286E5C11AF4DFEB711BADADAB39EA725A1F
+EB97D:E16395E85FD8C56544ADADE183DD9156391
+EB9C5:DEE0395B44141E4BE306B216F20A2AA3175
+EB9E4:88CCA6D7B95DD73B5417C319A3931B45632
+EBAB0:4FAC5B88AD4C69823B0B1B76439DC6B561F
+EBBC4:D8431AD7A6383E629177615239893A735F9
+EC0F1:0698082C93DB66CC3BACC7C4262043D5C37
+EC192:F3A7C15989BFB8DE9A89024C64E10A737B4
+EC1E7:FB8656DBA32737ACABC2E5A1FB2D02A973F
+EC295:5C9316F93D10209843D60AFC18BE6ECF663
+EC2AC:7B0E2170E3B1C73C8ABDD91D0C9D273A063
+EC2D7:744C603BAF507E66BF82835DFB6204656A8
+EC30A:DC79E734900430E4174CF0A36C2D0C42272
+EC408:3CA341DA86269204F1FDEBBA909F0F5699E
+EC45E:F2CC66DD975A09912FB7EB9D590F014C817
+EC461:B5480380ECF863D9802EDBE70152AEE1C46
+EC565:F7F6FAE8B0B392ED0D4759458CB45F1181C
+EC5A7:C3E21436A8E76716710CE551356F9AA745E
+EC5FC:916F5E002027E902B68F13D7C2053445539
+EC654:393F7E8318D0086455F78687CB8578DC574
+EC65A:740F5A00CAFE7C7FB6DE725FE369C87F0DE
+EC6EC:9BEE724C1C93B29E340C2BD68FA2785E8A0
+EC701:588E00B07EB5A931EC579461B09ED52AEFE
+EC7CB:F6FB4D54687ABC6B659668B2ECBC055307D
+EC900:3255BD6FE4D45D56279C9D0DE88CD2EE2F0
+ECBE2:68D2F10251197729B55A6108D25E80B013E
+ECC7A:FA2B78528D06BD2ACE8B400E2B08C5D7FDB
+ECCF2:35D3E40E163C0305C49DB3E0846DA22A894
+ECD76:E48F1359C251980A3A8E79A1CB6F4ED671B
+ECDCB:BCEC3DDC821AF24277E9029D6BC16073F9D
+ECE20:68B9B1CC45E9E178A484FF13DD927D494DF
+ECE4E:6B27CF0A2C5C9D83E44BFD5A71795F8A6E0
+ECE89:22B39F4109CFFF14F2BEDCAF172BBC2A8F7
+ECF4A:5D4AE6A640134A2A4FCE45FD2E6399F9736
+ECFDC:F4E67BD777B369F987B273EB7965AD222BE
+ED06D:DB1859A34BFC8A82AA08293F9747698E17C
+ED1ED:2E2C22317ADB1B3B16245517675F16D0F2F
+ED209:2F9E352DE06543D45CB53839C1F41978E9E
+ED699:74FE3B5E22BE37A9080E7D5DFB0D107F4BA
+ED841:6309E5FDBED59884DF55C9B6A83A62F1C81
+ED869:B76B74C39779E02819F462A5CA92DCECE8B
+ED9D3:D832AF899035363A69FD53CD3BE8F71501C
+ED9ED:23B385C460F302958C0BABDF9796AA0412C
+EDD40:CA16010639268BD4A9D1A9EBE516F81642E
+EDE74:204CD2F715845E829B83805973872C0B6D4
+EDF36:0B3F9F25E1B43F3777DB55C002035DCFE5C
+EE063:0B33F1DE43C3EB21D240A6402BA0E6434D3
+EE0D1:1FCD6E958277BCA5036245B0B5C6A420CB4
+EE1C8:85CA539BB9D8E6D38663B57036F47DBEE9C
+EE279:29623E2E5214F6BE5ECB9CEE919CF63EE16
+EE4B4:7FB8AD71BAFE2A3322D5DE5A664CE56BB8A
+EE51B:C1239706E82EDDFDAD34EE378762C391261
+EE748:4C4423A6EC43A5A8A9F8B29048438C58C21
+EE7A1:F12FA9E8995475D754862931ECBEE16E646
+EE8B2:D73A9B18A5756E0DB6CA888B0B7D044C589
+EE8D8:728F435FD550F83852AABAB5234CE1DA528
+EE9AC:B29ABE3985D68D069910849C9EDEB4DF3DF
+EEA08:3B62231B96A620E017C77AAE53725C5D8EA
+EEBF2:6B3016B7FA7DFF2A18962D32E0DFD78F388
+EECC8:5755836D7A1F9F26AF8B60A7150ABBD2F99
+EED8A:083E02F8BBFBB23A6C9CA43518B6D28C83F
+EEE83:ACCE30F4926A835A3DFD46030740BF87A16
+EEEB1:CD586803EF8D06BA3260D988D1F542F7A01
+EF026:710A72C544B3B8B55C43852B3D3C231549E
+EF068:4107CE0FD531452DE0E4E5C8B7544DFDA4D
+EF0B4:7D307BBB6B09B5E6F41A989DBF77A073194
+EF0EB:BB77298E1FBD81F756A4EFC35B977C93DAE
+EF170:267A075E94CB86DE95BD84D0172801D7241
+EF334:D259A1E0DD6A77BC2DF9FE5406B0AA86B46
+EF40B:69D3EE859044474447EBDF0DF61A859B834
+EF47B:25A1DB000D42439022432B2A980CBE3B2AC
+EF48C:A0D838F1E524F5CCE49CF326BE3959A9139
+EF496:931497F58D0C9D9F7E9F775748FFD93E8F9
+EF4F5:FA62E5A7408A65A7C97633C1E73C452E11A
+EF547:BADB8B0801D06A93155CC052341C749D1C0
+EF59B:53C0EF1CD4C7F47537E39D13424EFD495F9
+EF5A3:BFB007D8C6A5FF926C57A6F161930AC0C7A
+EF783:0DB5BFBF3536820C00105AB5734EF4609FC
+EF7A5:5553260A8FBAFA1D55A22076EDEBDA8A3FE
+EF842:0D70DD7676E04BEA55F405FA39B022A90C8
+EF91F:A4C07C854CEC902D2CB90F66D7EFCB59751
+EF971:EE38BBA25D9AC8A840D235457A038448B09
+EF9A6:F5BF9F36B2E2487F0B174990A581CA8C044
+EF9EE:30C60AFECBC11528A4328DA7795EEE2078F
+EFA33:1DFF679A76A63BD7D52B28D391856D1D4F7
+EFA91:D66D08F32C125A7C0A9BB7F7943F7F40178
+EFB24:B909FA4D4CDF8377DB1DCA1E07FAD198354
+EFB4E:648EF9501CBBA5553F2A1C2074B823EC503
+EFCED:C18DDB81620B915CEFAC0BEC9DF7BEFE752
+EFCF1:BD0FF75364BC01A1738C7DC4EA96B9BC134
+EFD8A:2D7A5E5DE475045A73A705E95C72720F68E
+EFDAD:0604C0871A9B97220738B2CCF1DDA9BBF91
+EFE11:5C283173C7E58B868AFB4FD7CCCFD7F9EFB
+EFE27:ECA0846537C85B06440DCE7944F1E209B50
+EFE53:1E0B2B68BA5A9B665752809432432197A07
+EFEBD:FC78EA1935C4B926324522B452B766FBC76
+EFFD6:02B9EA19F90334A5758AF4F4893275BB30E
+F0014:882083AD04099CA5894694005937CA3E140
+F0119:53963F7C028788B1F92C98311B7C06454EC
+F0151:68A2406CA60532D6FE4414CB18124502FAD
+F02A2:7E2F102FA7505D94FAFB494B40875DEC5B6
+F02A7:61D8DA05F8E20DEC91A8463BB198C2C02FC
+F0346:014C098AD79193CB1EFECBFE59832293195
+F0578:F1E7174B1A41C4EA8C6E17F7A8A3B88C92A
+F05B5:1C294C32403C0419F78B6E36BCFDF3287F8
+F0649:7A0C7F8D169043A2382D4A4E0EDA14D25C6
+F0744:D60DD500C92C0D37C16174CC58D3C4BDD8E
+F074A:E548A312B9D63E9DC51237DB4B620079120
+F08A7:A19E6F47E1125C9AEE2336C6759C7798FE4
+F0AC9:C1AC37E7DDABCCB49E81A5E461907528EDB
+F0B9E:01AA06F53CD94B9A07BC3AC3085E2B4A5C9
+F0C72:DFFA3814CA6AED3A563ADD9C68B2832379C
+F0D21:3100303C7463B3D2B7CEB5BBBB82C4B7CAE
+F0D61:723FDF7301391BEA5FFF1EF28FA3C7D0EEA
+F0F0D:617AA337B192DA8BE09FFDDB08DB06B3900
+F0F2F:B1D620C2B608F6401C598816257895C1A2B
+F0F98:2D18912D32D383A3BAEE19E270F619B3FA7
+F1022:7D579D80F5F53109344FEF868D3EC30ADA3
+F1187:63794AC161EE7438CD3A5B082C9D255EE64
+F11EA:658082349955674A565FE658AD5BEDFB328
+F1236:9157742C2DEC0876FDE4934AB65FF03837E
+F12D5:A522F782D9D71A455187AD4732254F29879
+F1416:844B9EC16AFCFF15C49FBACEFF69A87F4DD
+F15E5:18A239A5DDBC4E7F942B93B7FBD60C1048D
+F162D:82D320B7F8F2477FF966CE1BD506BC494BC
+F1640:1914F8D6E79F26264243E394617C35A463F
+F1707:F87B7662B61EA627B9769338D60AA852E16
+F1788:1A3334E0CDE99BC94FC9E561DB26C8DBEF7
+F178F:73041C4DB48A643D478284F340F29D0A34A
+F18A0:852D1870746AC4FEE4765B6FE7A84A5C899
+F18BC:56AC4492CD8CC9C2F5A8B4746EF911BCC74
+F1A7D:AAD61240EB4051352643025E4ECF327F311
+F1B44:E125E30BFD0ED3CEAD5AFB55376F957350D
+F1BA8:47181793B3BABD9059E9EAA6A3D1EE9D95D
+F1DF7:1A9D60CD46A2E09691E504C4E09A4DA9A7A
+F1E1E:5D010B3422D38D10A05BBA0AF6DB2F524E8
+F1EB0:8C4E3F8A5AB5761723B1210AD4C30E41DC7
+F1ED1:59A2CABB9FF836D38B5F7192BADAA2849A5
+F1F4C:6E51C07E0BB4371F3C09BE676503660B422
+F2031:B3A311AD2AC2F6865F01560C2696DEC545A
+F209A:C0CCC57CCF0810D048B501E16CB4F3C06A9
+F20B2:5E88554769EEBDD944F0A18D5F15867CB01
+F2289:CDF52AF45FC1361F31F10A16F07E21C0EAD
+F2340:FCDBE7A6382CC7939056271DF2F22C5C113
+F2439:E4EA89A947308076ED64BCB5EDD10BA4892
+F2557:FF86DFF4495B05BC7798E77294A59226114
+F2576:E40979756D226DFB585E58486A2883C4E48
+F258F:42A6FE89E4F3FDB933B81814BA9DF83459F
+F25A3:86343919BA59E7D53A35D78D93238B093E4
+F25B7:2CF45C8EF0687D919E455F9064205653713
+F25CE:1B8A399BD8621A57427A20039B4B13935DB
+F272D:2217E5FCABBD1C25222DC946E5684C0212B
+F2847:B1BD9624F927E979C1846D9FE17DD65F518
+F29FB:5E570E0151E3A79264E53AB3B5B98DF4A84
+F2B14:F68EB995FACB3A1C35287B778D5BD785511
+F2C26:839E7D7C14E931663598A18F46CBF34A48B
+F2C93:9D444CB5180768DB1FBABEB2E9416795BB1
+F2CBE:C33169D4BACE9309778CC7F886EE1A90BB0
+F2DA7:B0212A9053511EF986E90C077F7C0B36E57
+F2DB8:2ECF3D0BD7E2E5F956233DDBD3DB8A5B262
+F2EDF:456353FF95EDAAE45E86FC74D59162D2679
+F302A:7F2CEB402B3269C41A9BE9564C6B7E693A3
+F3215:7A45887E4FE5ADC0B5198F7EC4920A526D7
+F32D5:A3B17E614297417CC279A7EC1CD02274D65
+F3427:61B2ED587DDC727BBC31B75AB34647DF51F
+F3583:CD8E44409E1010F472BD8938B79C5CFBFDE
+F35BC:30C0AB883785EB8909FE8DB729E6E591A9E
+F38CF:2A6ECD250BEED70DD661A2093732E6BC6C5
+F38D7:60AD4B84E416ED6A0B9272A5BCA36A2D3AF
+F3B05:A6C98F598A283B5DC0660E75E5C1CCEF6AC
+F3B54:4E7596C8AF877B6C2172815823F0466160A
+F3B86:6446EA5B206F3F4E4BEFE85C9683D645CA3
+F3BF3:127CD6FF4C4B1B0A054E41B6AAEF535BCA0
+F3CA5:F23BC0BFA61FAE1FBAB1538557FB3352C94
+F3D11:F4AD2A240E00B463518A8F136AC2D607047
+F3D3D:6E57084316CEC37A640C076FC16A181BC27
+F3E35:32CA0C8502D3532E7EB53B2FA6E12A050F0
+F3E4F:9691CE7BF3D2A78B5A2EB0C3B35D687B401
+F3E94:B6762330E4D775F7DD17022376C12CA43D2
+F3F40:4FA23CE36CB96EB8F43DA1B2BE6D42F979C
+F404C:A9F7477148985E10038538D1279F677259F
+F40D1:C437BF5A2E5EE551DD87DE7E1A21DF4C625
+F4234:3E88594581338AA32DDA7A2AB368DD10EE4
+F429B:4209CA7382E75D0DBD53823EA1E933D6012
+F42A3:FABE1E9BED059D727F47EB752E3AA61B977
+F42F2:1B46F82A6EF7B235CA4E35ADCCF4CA94803
+F44F6:436B0E95A4E8E912E2E5687751C66116933
+F45BD:814E195EF24309FBBD1CC4511B69A1451DF
+F45FC:5847BEE336EE240F2698DA4D5833CAA5803
+F471D:68445ADEB4A72397A69121AF97586AEF6A5
+F4742:5A89701931950517D1F589E1284DEB3AFAE
+F47E8:064143775A2B7F435C05E063F05FBA74B39
+F481A:118F892210056B65C4BAFC3B07181E1731B
+F485F:A3FC36D9252B12138780D371AA447BD20BD
+F4862:3A64B4832542B065DACD3ABF4F83C06FCDF
+F48D4:F66BC4CD3A98DF114FD2117638959A297AE
+F4C34:4366E3D9E570B9369B6223B76BD2CF561EE
+F4C67:F124BC79AB3844225991432F48194617CB2
+F4D7B:DED2A2720881493643E495BE018027F4524
+F4DF6:17BADB3205E40F899CB63212BC09A38FC40
+F4E55:C5A21A0E5C5A857A2D991E317BE8773F457
+F4E7A:8740DB0B7A0BFD8E63077261475F61FC2A6
+F4EE7:415066B23ED0C5555E3A10AA76726A995D7
+F504A:9CFF6350B31B235010274C4A90F7825D460
+F5074:EC003C1FC5B5DBE2A5C36E8B902047CF0F1
+F5138:59951C27E982B9330087A02CA1D5308A82F
+F5511:19667D74EF2969644FA41BDD2E56598F6AA
+F5514:F6C8486F87A2000C2A6B232A5900156ACED
+F57FB:D76DACAD4A59BEDC90AD76C8D47BC8B6B3F
+F58AF:CC6A87C3D8EB736BC6A6024A201535A6BA4
+F58CF:5E7E10F195E21B553096D092C763ED18B0E
+F5BB5:DE6172088757236EFC6CE8E0D7E31E2A3B7
+F5C56:65E4FD7EDBCF7990FD4EA02588FEC09FB38
+F5E70:04936482EF7FF96BD31A50E0C884121FDFC
+F5EFE:3C7B79AA2C2532E4BEFB1085575BCCAA7EF
+F601E:EDA08500F9FC5931CBEC629B1685F0A0C60
+F60ED:E23F36BAE119BF725EF701AF71B86865B18
+F61A5:6082C62717815E7024BD7694BF3AC7F49A1
+F6224:3E5C8460F0A3D9A5DF866D1FA391791C442
+F624C:877A11671D3DED586CF0735875A7563342B
+F638E:A12A8D29005C6EB236DCCAFC04132B523C1
+F63C3:456CACD9E36A7A50951ECECC7AFF2391274
+F64DE:3184FB2DE1B64884937616715D494FB168E
+F64E8:46643B8205D932F6321BC141F04A99FF776
+F657A:DBC2E120B62A43FEA8F351E958C04505DDA
+F6727:CEEF04BDE796FBCCE6ECE515E3E25A84BE2
+F69E0:845C1100817586D881A092BE0B4E6551880
+F6A3F:4C2245B836CD526B97122D009BBEC69E4AC
+F6AFB:5351BFB2224CE78C4695563EA08D66E3FA7
+F6B44:BA3C2E031E27736303C30FC4F92BB70ABF1
+F6BD5:C614780B00D9BA0ED5E3C101A2DE441FB38
+F6E25:EDC6F7A9BFE79F39C904ED0B3BE653AC139
+F6EC1:02916180D5B788A5A6DA5B60F6BCACA7774
+F6F4D:A8D93E88A08220E03B7810451D3BA540A34
+F6F91:716C376B79B296724F42982439541055FB6
+F6FC4:C1229972CC9F432192548D904AFA722221A
+F700A:6934E78CD908CB5665CD84F89318BFA2D43
+F710D:EBEE88A015475D94B3C29266B40BA2F9B75
+F715F:FAF2C8294DF43DF3357C6A37F04B900FB06
+F71B4:7E5F8BE4C6E31DAD9F5BB646B0D544B5A90
+F71ED:D8DFBEBB2963A452412591E9B6E5DDA0ED2
+F732D:FDBD0AED62727F958CCCCA9EC3A5CB13EDA
+F745E:0A42F302F7706EEEFF0D8A245A71ABDEF25
+F766E:1E8F4CD5A247079C0B3BEDADFF6A93D70C3
+F77BC:3A1021E5B290D5C18E63E5E4A840B6D7115
+F77D5:687ACEE6484A780EEFFCBAF823D1E228543
+F7872:BA682888416D526677291111E0E638111F1
+F7887:5A9C30951B703FACC9D71F679E316D47690
+F78FA:4869F9BCE8CEA2B5141136694AFB618AD71
+F795D:3399568B431229754A73B871EB2FC070FE2
+F7A9E:24777EC23212C54D7A350BC5BEA5477FDBB
+F7B32:D6F7F590BB042A90AF65244BCC91146078C
+F7C39:BC407CDF99A9363DDD37F2B6C0528F144B8
+F7C3B:C1D808E04732ADF679965CCC34CA7AE3441
+F7D07:F3DF406E966DA0D5309E3794803B0322351
+F7DC6:D90EA55FB0BFA62A8D3DF1584C9FFC35D38
+F7DFE:1C4EBE10FFF0AE95A9F734B3F3B3660958D
+F7E00:273CF594AB6163634241D4279A51794525F
+F7FF9:E8B7BB2E09B70935A5D785E0CC5D9D0ABF0
+F80D0:CA101E967B50B730DDF8E8ACA0DE85E8DF6
+F8248:E12727710C946F73D8F6E02EB93530DD9DE
+F83F4:6B34A40CC09C897F47D6B17BBE679CE7FA8
+F8415:CFE81E3570878AB84EA8241B26EEBBD908D
+F85D5:4FA4AA57502E2C3A52575BDC227D902ABB7
+F85F0:461126756BA4E0EB7F0C82DEC83D819B046
+F865B:53623B121FD34EE5426C792E5C33AF8C227
+F8694:A2A12E2502D01F04DD2CE4154DF22979269
+F8697:535D0725159B5D2BDABF785E9C28A070138
+F86D0:FE81D0B99C2CD753A7EFDBACB482BE0C794
+F86E0:917DC1A242CEC1CD301987917B209C91CE1
+F872C:AAD177D67BBE18C119D0505F2D3CAA02AF3
+F872D:FF066FDAED1B9002EEC00980AACBA4DE4B7
+F8946:50E5277F99B673CCCF23DA9985F03D41F47
+F8A48:E5BA1072379DAFE561AC15D1A90C0690985
+F8B1F:118CF57F3FD27ADE4E002D30416D2E349F3
+F8B48:AEB5B0565F9F8C728194BA40B8BD834D087
+F8C38:B2167C0AB6D7C720E47C2139428D77D8B6A
+F8DEA:91010CE6DEE706EC3A61D10D4C6CFC1EB69
+F8E29:25FA2D4A9F97C32FE19C8B6B148D8DA5C3D
+F8F11:7E9D86335F99553784796635727A56324B4
+F8F14:47694989B471EC12043C2DCDF6ADCC31449
+F8F86:5A1A2B45A379D3E088B194075BE74885C48
+F906F:AFA64C095DBD219201CC2BDB2C7EB3D968A
+F95BD:4B8955488232BC8949880ADF613F1E6323B
+F9678:F87D8927B02F248B91B42E30B4EF20F8D6C
+F96F0:E0E729D218212ADF318C69FBA7B541DF82F
+F9721:A8676F4A8D9F4EA7E91943EC28636E90B82
+F9753:3F9783B345C918248A98CFD0EE7308BE879
+F977B:03753624D00A92BA5484778E5B71847DE7A
+F9BCA:7911A303C67548A13DD2941CE0D98660AB3
+F9BE0:52B17EF83F760AE45B9EDE984527BC62C9E
+F9C05:F0C15204A9A00665435964F26D3D8EA2188
+F9DD2:9C662D67D8EEC100EFD5CF32489CD69750D
+F9E03:A29BD41432044F66F53A2E12789DEE11F68
+F9E6D:0785C5A5016BFA187C8F525633FF7511E21
+F9E8E:6448FCD21A65A3884D8D81BFF662620D673
+F9EF6:6F90CBE240DA376F1FDEEF65EBA75ACD5A0
+F9FC5:5B9129FFDDFEDDA92244F4FE4189C69C044
+FA1EC:7A6559120BBB978E6DFCBCBB667302120FD
+FA28B:9AD8EF1ADE7AE0D6545D084149DA7E8F234
+FA2E9:B1158DAB4F52C4C5EB4260D60B01E25DAB6
+FA3C9:ECFC251824DF74026B4F40E4B373FD4FC46
+FA442:EBBFFB680A82D0BBB3253AE69A8C2F8EF6F
+FA491:C4E57A3E71EB7958F228497D461EDB11C51
+FA7D9:640E4D8D256C157DA8B50E3A70AE02FCE57
+FA805:C03F697250C2CDBEC030B2671426BB5C8C2
+FA8ED:9594223987C8C506A1232EF4AF7788DC831
+FA907:C72A21634570E7F7BDE8E3CF5081C90EE8B
+FA9BE:B99E4029AD5A6615399E7BBAE21356086B3
+FAA0C:9ABE6ECB0CDBCFA4D5CCA6144497A9D2C7F
+FAC05:8B2250AE1DF5C869ACF9703851F22D69C52
+FAC25:D9B625B2C5B22F7D281BEC5A3A3DB0AD6EC
+FAC67:3092FBDCAB2CD92EFC19675F2750ED97CA1
+FACE8:3EE3014BDC8F98203CC94E2E89222452E90
+FAF1D:1A2D09750FEE5324FB297BC1A6412C4CB67
+FB1D9:EF6A02299665A774C65892E900C7F4263F5
+FB1E0:716797ECB43940CBAFA3AC371F8F912ACE9
+FB315:1C8055F095ADD2052ACC83EE74FB04B7552
+FB40A:39D6360601438461E08E976919F0E77773C
+FB427:3D14E2B17C9615BCEF2B9817832EDCEE9EF
+FB5BD:89FDD110280C2934346237FB8DA9B751594
+FB7AC:CBAE065DD6A0417AEED7299564D3F58C168
+FB7D5:5065263037E552DCA5F197E617F944A322F
+FB81E:B694B1AFBF569EBCD42C3E740AB7FA96252
+FB8C4:F4DD505BC414ED0CC1308CE299D312CD684
+FB94A:5F432F61E0ABF090890797960C988373865
+FB9A7:B842C78E1242986574FF087CE98FEE3DC8D
+FBA52:170B9A5FE22C952096CE87F0CA4B1E6C955
+FBA99:F1CC8A6718BA9DDAA9C502892DA78598975
+FBA9F:1C9AE2A8AFE7815C9CDD492512622A66302
+FBCE3:4DCD173863712690B09F92AA5B2ACA63BC3
+FBD02:718171E945E3A7FDED944F93FEA999C55B0
+FBDD0:35255D3A72DC968EC64E833385D388F0930
+FBF59:6EC969B7925608DF0CCDE562EFECA33BB5C
+FC212:81175E0D4EAFFC904C881B76BC5F02847C9
+FC321:3B5DB57128DF4F4DE3B1B5C894F4A48A04C
+FC454:9F4726319B9151374ADF6D50FCBDA01D6D9
+FC491:57468F3DF8BE9B24F55EAD49D7656968DA4
+FC492:2836EE6BCB33BC72F7BB4AC6FEFE05E4717
+FC6FA:E10DB2BD0B625077D7C6D1B9A96925FD2B7
+FC84A:AA687374AED41957693F32664E5F4981862
+FCA49:48DAB1EC64940C2A293055D1D9256D4A24D
+FCB8A:F0F7A61CA89B982DF008804BF55EF2A43B8
+FCB8F:40140297C7D1E3464C53E1F9A8BC4DDBEDF
+FCBEC:C0B0FDE637EDA5D76CC9BB8272C44841FF9
+FCC13:CCAE73DC28EB436889A2A4989F192CB8387
+FCCBC:B1443409CB0BECAFD15AA2483E9E4AA02B8
+FCCE4:23C2D804DFAC667099DD4AF53D2E6082D23
+FCDB1:EFC200970CFF5B9D0CE2E3BA075C4E98EFD
+FCDF2:56371719D1C93F2D900CAA6599F7A6D7CDE
+FCE31:7712B32A32415113FB7980986000ABFAEAD
+FCE48:44FCD8D490D3E308235AEA7922D9A843FA4
+FCE63:6E758ABFE8D14E3B259328D2DE1A52FA9F3
+FCE90:039A4B21B54B316CB582EE1B49FB032BD6A
+FCECD:2294CC2AE5A39AB2ECF360E6ABFB71D4968
+FCEDB:67778CD32E9F25747595AC188D619AED397
+FD030:1972AC210AC276163E6D738EE0C55838742
+FD113:7F2407F7F1CC6F70962E4E3130611E11C7C
+FD1D4:919285F9929CB1D4E7F9B2A79B5C8C19C9C
+FD1DC:64DB6898AEB6D675D7619A916A42A35A1FE
+FD345:42FA94241C2BFBD944DC074E55839DD50BD
+FD3A9:ADF226B4687E3B8D7E188841D3980B3C4CF
+FD4BE:10F1C7CB90058ECED810DB1073E2B534B87
+FD4CE:F7A4E607F1FCC920AD6329A6DF2DF99A4E8
+FD4DD:BD30A58ED28F3F694969368526EA084BFB5
+FD50B:9EE877F0183E54D01FD77D1944AE48DE7A7
+FD563:38A7F86949BD20D9178A34B4105323C5D0A
+FD68D:303E5C01C188D5518526CEE844721646A36
+FD733:BEC1C6DFFDD981B4CA44EABA00C95A22CF5
+FD8DB:C187FF7AA5B615028CBEE7EB3329EDE51A2
+FD9BC:11A52FA259CE6F9059AE2A3BE11D3526378
+FDA32:3273104D98FA0C930A361F897F34F0E8A8E
+FDAFE:27A9896EE304C6B3B5DE1BFD1213E72A57A
+FDB4D:3AD7A86357EED98088BE617EA7F9D7EB46A
+FDB87:DFD199045AF7165780B11640B83768A0D57
+FDC56:0F2E9ACCFB1D0C617BEB90C6794DD018EE4
+FDCA2:95090BAD302FA44F5929920E7ED4DE7D9BB
+FDF28:9B1B9AEAFC6AA1AF6AF0F0176F101759418
+FDF3C:BF55D02A34D0F129141172F3687AB5F2ADE
+FDF8E:DECD1A4F8C5310F9ED99DFFC37E2AF7F58F
+FE0D6:523ECCB365C4740635E1712B8A73C54FD2D
+FE1F6:AE535A23B49AA5195C6C726B7BF8A7328E7
+FE230:8D29D9ACFCFA066D8BBB943ECBB72CB18A0
+FE24C:5F63B4E401E66C021A3A76420A7A23DE9B4
+FE256:762D1C2A713BBB6818DC631CE5EC06E9423
+FE2C9:038D7D5822C1FD6742F00D45CFD76A20BA2
+FE3A4:D44703424FCB0C2C1DA1CA900E37DB837D4
+FE445:EE3D6C41E878EA341125CF42604A2EBF005
+FE6F4:9E9691B16E4F5A016248508013B4122BF1B
+FE762:14DF99E878A03EAC5F2DC44B48D282D108C
+FEABE:BDADEF66E22FEC591BDBCE8CA39BA0160D7
+FEB10:EBF176BFD818381DE3998402305C9DB6D80
+FEB36:C9E441D248A0953C699C10F9418D63FB981
+FEBDC:7284AEAA09A9A1109CB23105EE3F0AED79B
+FEC73:A6FC8A1074FE5818CFA31FBD75CC1980A82
+FEC8F:B6C1BF83167659374761A5E13091BC05E5A
+FED8F:CF14C26C7AF194CBA5DD01C2DD74882FF99
+FEDDE:4C8D9A9D84FD8874C94BD8C9EDA8FF37811
+FEF2D:9FFAADA9B006BD133B342499B4651B8E26D
+FEF9C:3C85A8B4B9BA5A01EAFC0C49DAD1E5F94D4
+FEFF1:692535644A299C6BE191DEF44345FBA321A
+FF04B:063A61A90E5534A63B9B35991A250D88DE1
+FF066:D7A11AE417A1A92EE4E54F7840C33675AA3
+FF0D5:F34124B544AC5DE7FB63E81CAF762951464
+FF11F:082D3E209F99055BD8BF6081F6BED71A504
+FF130:96E382115C8BF97A55505922E14AA402A2C
+FF1F9:4B7C46872F4AE1FEA2DA6AF3148B431C57D
+FF30C:798BEBAA679C9EDA3408153E50DE9540A74
+FF32B:049E8ACF1DC6784A04D2427DF60A7812B5F
+FF395:1E5BE8B573728B623515953C65517D772DA
+FF52C:B37F3818B8B7F4E175CF222D7F6E75C2CB4
+FF537:BB4EE5EAF733A2733EB1F56EA86F621BD14
+FFA79:63757D9158EE371815183DF44092C451B6B
+FFAAA:FBDEE1DE041310096E1FF171618A2049F6E
+FFD9C:BB68EBCEFBF05C4C3B2F350F361CC755840
+FFED0:8D327631E0C8C224F42A1627E073EFDF7AD
+`;
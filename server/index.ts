@@ -1,11 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startScheduledJobs } from "./services/scheduledJobs";
 import { createServer } from "http";
 
 const app = express();
 const httpServer = createServer(app);
 
+// Behind a proxy, take the client address from X-Forwarded-For so per-IP rate limits
+// apply to clients rather than the proxy. Set TRUST_PROXY to the number of proxy hops.
+if (process.env.TRUST_PROXY) {
+  const hops = parseInt(process.env.TRUST_PROXY, 10);
+  app.set("trust proxy", Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -93,6 +101,7 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startScheduledJobs();
     },
   );
 })();
@@ -0,0 +1,214 @@
+import path from 'path';
+import crypto from 'crypto';
+import { supabase } from './supabase';
+import type { AttachmentCategory, OnboardingAttachment } from '../../shared/types';
+
+// Configuration
+const STORAGE_BUCKET = 'documents';
+const MAX_ATTACHMENTS_PER_INVITE = 10;
+
+/**
+ * Get the files staged for an invite, oldest first
+ */
+export async function listAttachments(inviteId: string): Promise<OnboardingAttachment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('onboarding_attachments')
+      .select('*')
+      .eq('invite_id', inviteId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to list onboarding attachments:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('List onboarding attachments error:', error);
+    return [];
+  }
+}
+
+/**
+ * Upload a file to the invite's staging area in storage and record it
+ */
+export async function stageAttachment(
+  inviteId: string,
+  file: Express.Multer.File,
+  category: AttachmentCategory
+): Promise<{ success: boolean; attachment?: OnboardingAttachment; error?: string; status?: number }> {
+  try {
+    const { count, error: countError } = await supabase
+      .from('onboarding_attachments')
+      .select('id', { count: 'exact', head: true })
+      .eq('invite_id', inviteId);
+
+    if (countError) {
+      console.error('Failed to count onboarding attachments:', countError);
+      return { success: false, error: 'Failed to upload file' };
+    }
+
+    if ((count || 0) >= MAX_ATTACHMENTS_PER_INVITE) {
+      return {
+        success: false,
+        error: `You can attach up to ${MAX_ATTACHMENTS_PER_INVITE} files`,
+        status: 400,
+      };
+    }
+
+    const fileExt = path.extname(file.originalname);
+    const uniqueId = crypto.randomBytes(8).toString('hex');
+    const storagePath = `onboarding/${inviteId}/${uniqueId}${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .upload(storagePath, file.buffer, {
+        contentType: file.mimetype,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error('Storage upload error:', uploadError);
+      return { success: false, error: 'Failed to upload file' };
+    }
+
+    const { data: attachment, error: dbError } = await supabase
+      .from('onboarding_attachments')
+      .insert({
+        invite_id: inviteId,
+        name: file.originalname,
+        file_path: storagePath,
+        file_type: file.mimetype,
+        file_size: file.size,
+        category,
+      })
+      .select()
+      .single();
+
+    if (dbError) {
+      console.error('Attachment record error:', dbError);
+      await supabase.storage.from(STORAGE_BUCKET).remove([storagePath]);
+      return { success: false, error: 'Failed to save attachment' };
+    }
+
+    return { success: true, attachment };
+  } catch (error) {
+    console.error('Stage onboarding attachment error:', error);
+    return { success: false, error: 'Failed to upload file' };
+  }
+}
+
+/**
+ * Remove a staged file (only if it belongs to the given invite)
+ */
+export async function deleteAttachment(
+  inviteId: string,
+  attachmentId: string
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  try {
+    const { data: attachment, error: fetchError } = await supabase
+      .from('onboarding_attachments')
+      .select('id, file_path')
+      .eq('id', attachmentId)
+      .eq('invite_id', inviteId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Failed to load onboarding attachment:', fetchError);
+      return { success: false, error: 'Failed to delete attachment' };
+    }
+
+    if (!attachment) {
+      return { success: false, error: 'Attachment not found', status: 404 };
+    }
+
+    const { error: storageError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .remove([attachment.file_path]);
+
+    if (storageError) {
+      console.error('Storage delete error:', storageError);
+      // Continue anyway to remove the database record
+    }
+
+    const { error: deleteError } = await supabase
+      .from('onboarding_attachments')
+      .delete()
+      .eq('id', attachmentId);
+
+    if (deleteError) {
+      console.error('Failed to delete onboarding attachment:', deleteError);
+      return { success: false, error: 'Failed to delete attachment' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Delete onboarding attachment error:', error);
+    return { success: false, error: 'Failed to delete attachment' };
+  }
+}
+
+/**
+ * Move an invite's staged files into the project's documents once onboarding is submitted
+ * Files that fail to move stay staged (and are logged) so they can be recovered; returns the number moved
+ */
+export async function promoteAttachments(inviteId: string, projectId: string): Promise<number> {
+  const attachments = await listAttachments(inviteId);
+  let moved = 0;
+
+  for (const attachment of attachments) {
+    try {
+      const projectPath = `projects/${projectId}/${path.basename(attachment.file_path)}`;
+
+      const { error: moveError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .move(attachment.file_path, projectPath);
+
+      if (moveError) {
+        console.error('Failed to move onboarding attachment:', moveError);
+        continue;
+      }
+
+      const { error: documentError } = await supabase
+        .from('documents')
+        .insert({
+          project_id: projectId,
+          name: attachment.name,
+          file_path: projectPath,
+          file_type: attachment.file_type,
+          file_size: attachment.file_size,
+          status: 'pending',
+          uploaded_by_id: null,
+          notes: `Attached during onboarding (${attachment.category.replace(/_/g, ' ')})`,
+        });
+
+      if (documentError) {
+        console.error('Failed to create document for onboarding attachment:', documentError);
+        // Put the file back so the staged record still points at it
+        await supabase.storage.from(STORAGE_BUCKET).move(projectPath, attachment.file_path);
+        continue;
+      }
+
+      await supabase.from('onboarding_attachments').delete().eq('id', attachment.id);
+
+      await supabase.from('activity_logs').insert({
+        project_id: projectId,
+        user_id: null,
+        action: 'document_uploaded',
+        details: {
+          document_name: attachment.name,
+          file_type: attachment.file_type,
+          file_size: attachment.file_size,
+          source: 'onboarding',
+        },
+      });
+
+      moved++;
+    } catch (error) {
+      console.error('Promote onboarding attachment error:', error);
+    }
+  }
+
+  return moved;
+}
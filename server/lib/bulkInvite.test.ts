@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = await vi.hoisted(async () => {
+  process.env.BULK_INVITE_EMAIL_INTERVAL_MS = '0';
+  const { createFakeSupabase } = await import('../tests/fakeSupabase');
+  return createFakeSupabase();
+});
+
+vi.mock('./supabase', () => ({ supabase: db.client }));
+vi.mock('./invite', () => ({ createInvite: vi.fn(), resendInvite: vi.fn() }));
+
+import { createInvite, resendInvite } from './invite';
+import { getBulkInviteBatch, processBulkInviteEmails, queueBulkInvites } from './bulkInvite';
+
+const inviter = { id: 'staff-1', name: 'Grace Hopper' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  db.reset({ users: [], invites: [], bulk_invite_batches: [], bulk_invite_rows: [] });
+  vi.mocked(createInvite).mockImplementation(async (data) => ({
+    success: true,
+    invite: { id: `invite-${data.email}` } as never,
+    token: 'token',
+  }));
+});
+
+describe('queueBulkInvites', () => {
+  it('creates the invites without emailing them and records each row', async () => {
+    const result = await queueBulkInvites(
+      [
+        { rowNumber: 2, email: 'ada@acme.com' },
+        { rowNumber: 3, email: 'not-an-email' },
+        { rowNumber: 4, email: 'ada@acme.com' },
+      ],
+      inviter
+    );
+
+    expect(createInvite).toHaveBeenCalledTimes(1);
+    expect(createInvite).toHaveBeenCalledWith(expect.objectContaining({ email: 'ada@acme.com', sendEmail: false }));
+    expect(resendInvite).not.toHaveBeenCalled();
+    expect(result.rows.map((row) => row.status)).toEqual(['queued', 'invalid', 'duplicate']);
+    expect(db.tables.bulk_invite_batches).toEqual([
+      expect.objectContaining({ id: result.batchId, created_by_id: 'staff-1', inviter_name: 'Grace Hopper' }),
+    ]);
+    expect(db.tables.bulk_invite_rows).toEqual([
+      expect.objectContaining({ row_number: 2, status: 'queued', invite_id: 'invite-ada@acme.com' }),
+      expect.objectContaining({ row_number: 3, status: 'invalid', invite_id: null }),
+      expect.objectContaining({ row_number: 4, status: 'duplicate', invite_id: null }),
+    ]);
+  });
+
+  it('reports a row whose invite could not be created as failed', async () => {
+    vi.mocked(createInvite).mockResolvedValue({ success: false, error: 'Failed to create invite' });
+
+    const result = await queueBulkInvites([{ rowNumber: 2, email: 'ada@acme.com' }], inviter);
+
+    expect(result.rows[0]).toMatchObject({ status: 'failed', errors: ['Failed to create invite'] });
+    expect(db.tables.bulk_invite_rows[0]).toMatchObject({ status: 'failed' });
+  });
+});
+
+describe('processBulkInviteEmails', () => {
+  it('sends each queued email once and records the outcome per row', async () => {
+    const { batchId } = await queueBulkInvites(
+      [
+        { rowNumber: 2, email: 'ada@acme.com' },
+        { rowNumber: 3, email: 'grace@acme.com' },
+      ],
+      inviter
+    );
+    vi.mocked(resendInvite).mockImplementation(async (inviteId) =>
+      inviteId === 'invite-ada@acme.com' ? { success: true } : { success: false, error: 'Failed to send email' }
+    );
+
+    expect(await processBulkInviteEmails()).toEqual({ sent: 1, failed: 1, interrupted: 0 });
+    expect(resendInvite).toHaveBeenCalledWith('invite-ada@acme.com', 'Grace Hopper');
+    expect(resendInvite).toHaveBeenCalledWith('invite-grace@acme.com', 'Grace Hopper');
+
+    const rows = await getBulkInviteBatch(batchId, 'staff-1');
+    expect(rows).toEqual([
+      expect.objectContaining({ rowNumber: 2, status: 'sent', errors: [] }),
+      expect.objectContaining({ rowNumber: 3, status: 'failed', errors: ['Failed to send email'] }),
+    ]);
+
+    expect(await processBulkInviteEmails()).toEqual({ sent: 0, failed: 0, interrupted: 0 });
+    expect(resendInvite).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks rows left sending by a stopped run as failed instead of sending them again', async () => {
+    await queueBulkInvites([{ rowNumber: 2, email: 'ada@acme.com' }], inviter);
+    Object.assign(db.tables.bulk_invite_rows[0], { status: 'sending', updated_at: '2020-01-01T00:00:00.000Z' });
+
+    expect(await processBulkInviteEmails()).toEqual({ sent: 0, failed: 0, interrupted: 1 });
+    expect(resendInvite).not.toHaveBeenCalled();
+    expect(db.tables.bulk_invite_rows[0]).toMatchObject({ status: 'failed' });
+  });
+});
+
+describe('getBulkInviteBatch', () => {
+  it('only returns an upload to the staff member who sent it', async () => {
+    const { batchId } = await queueBulkInvites([{ rowNumber: 2, email: 'ada@acme.com' }], inviter);
+
+    expect(await getBulkInviteBatch(batchId, 'staff-2')).toBeNull();
+    expect(await getBulkInviteBatch(batchId, 'staff-1')).toEqual([
+      expect.objectContaining({ rowNumber: 2, email: 'ada@acme.com', status: 'queued', inviteId: 'invite-ada@acme.com' }),
+    ]);
+  });
+});
@@ -0,0 +1,426 @@
+import { supabase } from './supabase';
+import { createInvite, resendInvite } from './invite';
+import { readSpreadsheetRows } from './spreadsheet';
+import {
+  bulkInviteRowSchema,
+  MAX_BULK_INVITE_ROWS,
+  type BulkInviteUploadRow,
+} from '../../shared/validation';
+import type { BulkInviteRowResult } from '../../shared/types';
+
+// Configuration
+// Pause between invite emails so a large upload doesn't trip the email provider's rate limits
+const EMAIL_INTERVAL_MS = parseInt(process.env.BULK_INVITE_EMAIL_INTERVAL_MS || '500', 10);
+// Stop a run well inside the scheduler's lease; the next run picks up the rest of the queue
+const MAX_RUN_MS = 5 * 60 * 1000;
+// A row still marked as sending after this long belongs to a run that stopped part-way
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+type BulkInviteColumn = Exclude<keyof BulkInviteUploadRow, 'rowNumber'>;
+
+// Accepted header names for each column (compared lowercased, ignoring spaces, dashes and underscores)
+const COLUMN_ALIASES: Record<BulkInviteColumn, string[]> = {
+  email: ['email', 'emailaddress', 'contactemail'],
+  companyName: ['company', 'companyname', 'organization', 'organisation'],
+  expirationDays: ['expirationdays', 'expiresindays', 'expiration', 'expiry'],
+  csmEmail: ['csm', 'csmemail', 'assignedcsm', 'assignedcsmemail'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+function blankToUndefined(value: string | number | undefined): string | number | undefined {
+  return typeof value === 'string' && value.trim() === '' ? undefined : value;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Read invite rows from an uploaded CSV or Excel file (first sheet, header row first)
+ * Row numbers match the spreadsheet so errors can be traced back to it
+ */
+export async function parseInviteSpreadsheet(buffer: Buffer, fileName: string): Promise<{
+  success: boolean;
+  rows?: BulkInviteUploadRow[];
+  error?: string;
+}> {
+  try {
+    const [header = [], ...data] = await readSpreadsheetRows(buffer, fileName);
+
+    // Map each known column to its position in the header row
+    const columns: Partial<Record<BulkInviteColumn, number>> = {};
+    header.forEach((cell, index) => {
+      const name = normalizeHeader(String(cell));
+      const column = (Object.keys(COLUMN_ALIASES) as BulkInviteColumn[])
+        .find((key) => COLUMN_ALIASES[key].includes(name));
+      if (column && columns[column] === undefined) {
+        columns[column] = index;
+      }
+    });
+
+    if (columns.email === undefined) {
+      return { success: false, error: 'The first row must include an "Email" column' };
+    }
+
+    const cell = (row: string[], column: BulkInviteColumn): string | undefined =>
+      columns[column] === undefined ? undefined : String(row[columns[column]!] ?? '').trim() || undefined;
+
+    const rows: BulkInviteUploadRow[] = [];
+    data.forEach((row, index) => {
+      if (row.every((value) => String(value).trim() === '')) return;
+      rows.push({
+        rowNumber: index + 2, // 1-based, after the header row
+        email: cell(row, 'email') || '',
+        companyName: cell(row, 'companyName'),
+        expirationDays: cell(row, 'expirationDays'),
+        csmEmail: cell(row, 'csmEmail'),
+      });
+    });
+
+    if (rows.length === 0) {
+      return { success: false, error: 'The file has no invite rows' };
+    }
+
+    if (rows.length > MAX_BULK_INVITE_ROWS) {
+      return { success: false, error: `At most ${MAX_BULK_INVITE_ROWS} invites can be uploaded at once` };
+    }
+
+    return { success: true, rows };
+  } catch (error) {
+    console.error('Parse invite spreadsheet error:', error);
+    return { success: false, error: 'Could not read the file. Upload a CSV or Excel (.xlsx) file.' };
+  }
+}
+
+/**
+ * Validate bulk invite rows: field formats, assigned CSMs, and duplicates within the
+ * upload or against invites that are still pending
+ */
+export async function validateBulkInvites(rows: BulkInviteUploadRow[]): Promise<BulkInviteRowResult[]> {
+  const results: BulkInviteRowResult[] = rows.map((row) => {
+    const parsed = bulkInviteRowSchema.safeParse({
+      rowNumber: row.rowNumber,
+      email: row.email,
+      companyName: blankToUndefined(row.companyName),
+      expirationDays: blankToUndefined(row.expirationDays),
+      csmEmail: blankToUndefined(row.csmEmail),
+    });
+
+    if (!parsed.success) {
+      return {
+        rowNumber: row.rowNumber,
+        email: row.email,
+        companyName: row.companyName,
+        csmEmail: row.csmEmail,
+        status: 'invalid',
+        errors: parsed.error.issues.map((issue) => issue.message),
+      };
+    }
+
+    return { ...parsed.data, status: 'ready', errors: [] };
+  });
+
+  const valid = results.filter((result) => result.status === 'ready');
+  const emails = Array.from(new Set(valid.map((result) => result.email)));
+  const csmEmails = Array.from(new Set(valid.map((result) => result.csmEmail).filter(Boolean))) as string[];
+
+  // Assigned CSMs must be active staff
+  const csms = new Map<string, { id: string; name: string }>();
+  if (csmEmails.length > 0) {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('id, email, first_name, last_name')
+      .in('email', csmEmails)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Failed to look up CSMs for bulk invites:', error);
+      throw new Error('Failed to validate invites');
+    }
+
+    for (const user of users || []) {
+      csms.set(user.email.toLowerCase(), {
+        id: user.id,
+        name: [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email,
+      });
+    }
+  }
+
+  // Addresses that already have a live invite
+  const pendingEmails = new Set<string>();
+  if (emails.length > 0) {
+    const { data: pending, error } = await supabase
+      .from('invites')
+      .select('email')
+      .in('email', emails)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.error('Failed to look up pending invites for bulk invites:', error);
+      throw new Error('Failed to validate invites');
+    }
+
+    for (const invite of pending || []) {
+      pendingEmails.add(invite.email.toLowerCase());
+    }
+  }
+
+  const firstRowByEmail = new Map<string, number>();
+  for (const result of valid) {
+    if (result.csmEmail) {
+      const csm = csms.get(result.csmEmail);
+      if (csm) {
+        result.csmId = csm.id;
+        result.csmName = csm.name;
+      } else {
+        result.status = 'invalid';
+        result.errors.push(`No active staff member with email ${result.csmEmail}`);
+        continue;
+      }
+    }
+
+    const firstRow = firstRowByEmail.get(result.email);
+    if (firstRow !== undefined) {
+      result.status = 'duplicate';
+      result.errors.push(`Same email as row ${firstRow}`);
+    } else if (pendingEmails.has(result.email)) {
+      result.status = 'duplicate';
+      result.errors.push('A pending invite already exists for this email');
+    }
+    if (firstRow === undefined) {
+      firstRowByEmail.set(result.email, result.rowNumber);
+    }
+  }
+
+  return results;
+}
+
+// A row of bulk_invite_rows
+interface BulkInviteRowRecord {
+  id: string;
+  batch_id: string;
+  row_number: number;
+  email: string;
+  company_name: string | null;
+  expiration_days: number | null;
+  csm_email: string | null;
+  csm_name: string | null;
+  status: Exclude<BulkInviteRowResult['status'], 'ready'>;
+  errors: string[];
+  invite_id: string | null;
+}
+
+function toRowResult(record: BulkInviteRowRecord): BulkInviteRowResult {
+  return {
+    rowNumber: record.row_number,
+    email: record.email,
+    companyName: record.company_name || undefined,
+    expirationDays: record.expiration_days || undefined,
+    csmEmail: record.csm_email || undefined,
+    csmName: record.csm_name || undefined,
+    status: record.status,
+    errors: record.errors || [],
+    inviteId: record.invite_id || undefined,
+  };
+}
+
+/**
+ * Create an invite for every row that passes validation and queue its email for the
+ * bulk_invite_emails job. Rows that fail validation are recorded as-is and not sent.
+ */
+export async function queueBulkInvites(
+  rows: BulkInviteUploadRow[],
+  inviter: { id: string; name: string }
+): Promise<{ batchId: string; rows: BulkInviteRowResult[] }> {
+  const results = await validateBulkInvites(rows);
+
+  const { data: batch, error: batchError } = await supabase
+    .from('bulk_invite_batches')
+    .insert({ created_by_id: inviter.id, inviter_name: inviter.name })
+    .select('id')
+    .single();
+
+  if (batchError || !batch) {
+    console.error('Failed to record bulk invite batch:', batchError);
+    throw new Error('Failed to queue invites');
+  }
+
+  for (const result of results) {
+    if (result.status !== 'ready') continue;
+
+    const created = await createInvite({
+      email: result.email,
+      companyName: result.companyName,
+      invitedById: inviter.id,
+      invitedByName: inviter.name,
+      expirationDays: result.expirationDays,
+      sendEmail: false,
+      metadata: result.csmId ? { assignedCsmId: result.csmId } : undefined,
+    });
+
+    if (created.success) {
+      result.status = 'queued';
+      result.inviteId = created.invite!.id;
+    } else {
+      result.status = 'failed';
+      result.errors.push(created.error || 'Failed to create invite');
+    }
+  }
+
+  const { error: rowsError } = await supabase.from('bulk_invite_rows').insert(
+    results.map((result) => ({
+      batch_id: batch.id,
+      row_number: result.rowNumber,
+      email: result.email,
+      company_name: result.companyName || null,
+      expiration_days: result.expirationDays || null,
+      csm_email: result.csmEmail || null,
+      csm_name: result.csmName || null,
+      status: result.status,
+      errors: result.errors,
+      invite_id: result.inviteId || null,
+    }))
+  );
+
+  if (rowsError) {
+    // The invites exist without their emails; they can still be resent from the invite list
+    console.error('Failed to queue bulk invite emails:', rowsError);
+    throw new Error('Failed to queue invites');
+  }
+
+  return { batchId: batch.id, rows: results };
+}
+
+/**
+ * Rows of a bulk invite upload with their current status, or null if the batch
+ * doesn't exist or was uploaded by someone else
+ */
+export async function getBulkInviteBatch(batchId: string, userId: string): Promise<BulkInviteRowResult[] | null> {
+  const { data: batch, error: batchError } = await supabase
+    .from('bulk_invite_batches')
+    .select('id')
+    .eq('id', batchId)
+    .eq('created_by_id', userId)
+    .maybeSingle();
+
+  if (batchError) {
+    console.error('Failed to fetch bulk invite batch:', batchError);
+    throw new Error('Failed to fetch invites');
+  }
+
+  if (!batch) {
+    return null;
+  }
+
+  const { data: records, error } = await supabase
+    .from('bulk_invite_rows')
+    .select('*')
+    .eq('batch_id', batchId)
+    .order('row_number');
+
+  if (error) {
+    console.error('Failed to fetch bulk invite rows:', error);
+    throw new Error('Failed to fetch invites');
+  }
+
+  return ((records || []) as BulkInviteRowRecord[]).map(toRowResult);
+}
+
+/**
+ * Send queued bulk invite emails one at a time with a pause between them, until the queue is
+ * empty or the run has gone on long enough; the next run carries on where this one stopped
+ */
+export async function processBulkInviteEmails(): Promise<{ sent: number; failed: number; interrupted: number }> {
+  const startedAt = Date.now();
+  const now = () => new Date().toISOString();
+  const inviterNames = new Map<string, string>();
+  let sent = 0;
+  let failed = 0;
+
+  // Rows claimed by a run that stopped before recording the outcome may or may not have been sent
+  const { data: interrupted, error: interruptedError } = await supabase
+    .from('bulk_invite_rows')
+    .update({
+      status: 'failed',
+      errors: ['Sending was interrupted. Resend the invite from the invite list.'],
+      updated_at: now(),
+    })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(startedAt - SENDING_TIMEOUT_MS).toISOString())
+    .select('id');
+
+  if (interruptedError) {
+    throw new Error(`Failed to release interrupted bulk invites: ${interruptedError.message}`);
+  }
+
+  while (Date.now() - startedAt < MAX_RUN_MS) {
+    const { data: queued, error } = await supabase
+      .from('bulk_invite_rows')
+      .select('id, batch_id, invite_id')
+      .eq('status', 'queued')
+      .order('created_at')
+      .order('row_number')
+      .limit(50);
+
+    if (error) {
+      throw new Error(`Failed to load queued bulk invites: ${error.message}`);
+    }
+
+    if (!queued || queued.length === 0) break;
+
+    for (const row of queued as Pick<BulkInviteRowRecord, 'id' | 'batch_id' | 'invite_id'>[]) {
+      if (Date.now() - startedAt >= MAX_RUN_MS) break;
+
+      // Claim the row so a run on another instance doesn't send it too
+      const { data: claimed } = await supabase
+        .from('bulk_invite_rows')
+        .update({ status: 'sending', updated_at: now() })
+        .eq('id', row.id)
+        .eq('status', 'queued')
+        .select('id');
+
+      if (!claimed?.length) continue;
+
+      if (sent + failed > 0) {
+        await sleep(EMAIL_INTERVAL_MS);
+      }
+
+      let inviterName = inviterNames.get(row.batch_id);
+      if (inviterName === undefined) {
+        const { data: batch } = await supabase
+          .from('bulk_invite_batches')
+          .select('inviter_name')
+          .eq('id', row.batch_id)
+          .single();
+        inviterName = batch?.inviter_name || 'Claims iQ Team';
+        inviterNames.set(row.batch_id, inviterName!);
+      }
+
+      // The link issued when the invite was created was never sent, so a fresh one replaces it
+      const result = row.invite_id
+        ? await resendInvite(row.invite_id, inviterName!)
+        : { success: false, error: 'Invite not found' };
+
+      await supabase
+        .from('bulk_invite_rows')
+        .update(
+          result.success
+            ? { status: 'sent', sent_at: now(), updated_at: now() }
+            : { status: 'failed', errors: [result.error || 'Failed to send email'], updated_at: now() }
+        )
+        .eq('id', row.id);
+
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+      }
+    }
+  }
+
+  return { sent, failed, interrupted: interrupted?.length || 0 };
+}
@@ -0,0 +1,301 @@
+import { supabase } from './supabase';
+import type { Company } from '../../shared/types';
+
+// Types
+export type CompanyMatchFields = Pick<Company, 'legal_name' | 'dba_name' | 'website' | 'postal_code'>;
+
+export type CompanyMatchCandidate = CompanyMatchFields & Pick<Company, 'id' | 'city' | 'state'>;
+
+export interface CompanyMatch {
+  company: CompanyMatchCandidate;
+  score: number;
+  reasons: string[];
+}
+
+// Configuration
+const DUPLICATE_THRESHOLD = 0.6;
+const SIMILAR_NAME_THRESHOLD = 0.85;
+const MAX_CANDIDATES = 50;
+const WEBSITE_DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+// Words that don't distinguish one carrier from another
+const NAME_NOISE_WORDS = new Set([
+  'the', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'ltd',
+  'limited', 'lp', 'llp', 'plc', 'group', 'holdings', 'of',
+]);
+
+/**
+ * Normalize a company name for comparison ("The Acme Insurance Co., Inc." -> "acme insurance")
+ */
+export function normalizeCompanyName(name: string | null | undefined): string {
+  if (!name) return '';
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !NAME_NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Extract the bare domain from a website ("https://www.acme.com/about" -> "acme.com")
+ */
+export function extractWebsiteDomain(website: string | null | undefined): string {
+  if (!website) return '';
+  return website
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0];
+}
+
+/**
+ * Normalize a postal code to its comparable prefix (ZIP+4 -> ZIP)
+ */
+export function normalizePostalCode(postalCode: string | null | undefined): string {
+  if (!postalCode) return '';
+  const compact = postalCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return /^\d{9}$/.test(compact) ? compact.slice(0, 5) : compact;
+}
+
+/**
+ * Dice coefficient over character bigrams (1 = identical, 0 = nothing in common)
+ */
+function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = (value: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+      const bigram = value.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let overlap = 0;
+  aBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, bBigrams.get(bigram) || 0);
+  });
+
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+/**
+ * Score how likely two companies are the same carrier (0-1) and explain why
+ */
+export function scoreCompanyMatch(
+  input: CompanyMatchFields,
+  candidate: CompanyMatchFields
+): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const inputNames = [input.legal_name, input.dba_name].map(normalizeCompanyName).filter(Boolean);
+  const candidateNames = [candidate.legal_name, candidate.dba_name].map(normalizeCompanyName).filter(Boolean);
+  let bestName = 0;
+  for (const a of inputNames) {
+    for (const b of candidateNames) {
+      bestName = Math.max(bestName, nameSimilarity(a, b));
+    }
+  }
+
+  if (bestName === 1) {
+    score += 0.6;
+    reasons.push('Same company name');
+  } else if (bestName >= SIMILAR_NAME_THRESHOLD) {
+    score += 0.45;
+    reasons.push('Similar company name');
+  }
+
+  const inputDomain = extractWebsiteDomain(input.website);
+  if (inputDomain && inputDomain === extractWebsiteDomain(candidate.website)) {
+    score += 0.5;
+    reasons.push('Same website domain');
+  }
+
+  const inputPostal = normalizePostalCode(input.postal_code);
+  if (inputPostal && inputPostal === normalizePostalCode(candidate.postal_code)) {
+    score += 0.2;
+    reasons.push('Same postal code');
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+/**
+ * Find existing companies that are likely duplicates of the given company fields
+ */
+export async function findDuplicateCompanies(
+  input: CompanyMatchFields,
+  excludeCompanyId?: string
+): Promise<CompanyMatch[]> {
+  try {
+    // Narrow the candidates in the database, then score them here
+    const filters: string[] = [];
+    const postalCode = normalizePostalCode(input.postal_code);
+    if (postalCode) {
+      // Stored codes are compared without their spaces and dashes too
+      filters.push(`postal_code_compact.like.${postalCode}*`);
+    }
+    // The filter string is parsed by PostgREST, so only plain domains are matched on
+    const domain = extractWebsiteDomain(input.website);
+    if (WEBSITE_DOMAIN_PATTERN.test(domain)) {
+      filters.push(`website.ilike.*${domain}*`);
+    }
+    for (const name of [input.legal_name, input.dba_name]) {
+      const firstWord = normalizeCompanyName(name).split(' ')[0];
+      if (firstWord && firstWord.length >= 3) {
+        filters.push(`legal_name.ilike.*${firstWord}*`, `dba_name.ilike.*${firstWord}*`);
+      }
+    }
+
+    if (filters.length === 0) {
+      return [];
+    }
+
+    let query = supabase
+      .from('companies')
+      .select('id, legal_name, dba_name, website, city, state, postal_code')
+      .or(filters.join(','))
+      .limit(MAX_CANDIDATES);
+
+    if (excludeCompanyId) {
+      query = query.neq('id', excludeCompanyId);
+    }
+
+    const { data: candidates, error } = await query;
+
+    if (error) {
+      console.error('Failed to find duplicate companies:', error);
+      return [];
+    }
+
+    return (candidates || [])
+      .map((company: CompanyMatchCandidate) => ({ company, ...scoreCompanyMatch(input, company) }))
+      .filter((match: CompanyMatch) => match.score >= DUPLICATE_THRESHOLD)
+      .sort((a: CompanyMatch, b: CompanyMatch) => b.score - a.score);
+  } catch (error) {
+    console.error('Find duplicate companies error:', error);
+    return [];
+  }
+}
+
+/**
+ * Flag likely duplicates of a project's company in its activity log
+ * Called after onboarding submission; staff review and merge from the admin dashboard
+ */
+export async function flagDuplicateCompanies(projectId: string): Promise<CompanyMatch[]> {
+  try {
+    const { data: project, error } = await supabase
+      .from('onboarding_projects')
+      .select('id, company:companies(id, legal_name, dba_name, website, city, state, postal_code)')
+      .eq('id', projectId)
+      .single();
+
+    const company: CompanyMatchCandidate | undefined = Array.isArray(project?.company)
+      ? project.company[0]
+      : project?.company;
+
+    if (error || !company) {
+      console.error('Failed to load project for duplicate check:', error);
+      return [];
+    }
+
+    const matches = await findDuplicateCompanies(company, company.id);
+
+    if (matches.length > 0) {
+      await supabase.from('activity_logs').insert({
+        project_id: projectId,
+        user_id: null,
+        action: 'duplicate_company_flagged',
+        details: {
+          company_id: company.id,
+          company_name: company.legal_name,
+          matches: matches.map((match) => ({
+            company_id: match.company.id,
+            company_name: match.company.legal_name,
+            score: match.score,
+            reasons: match.reasons,
+          })),
+        },
+      });
+    }
+
+    return matches;
+  } catch (error) {
+    console.error('Flag duplicate companies error:', error);
+    return [];
+  }
+}
+
+/**
+ * Merge the source company into the target (re-parents contacts, projects, portal users,
+ * invites, role permissions and SSO connections, then deletes the source) via the
+ * merge_companies database function
+ */
+export async function mergeCompanies(
+  sourceCompanyId: string,
+  targetCompanyId: string,
+  mergedById: string
+): Promise<{ success: boolean; moved?: Record<string, number>; error?: string; status?: number }> {
+  try {
+    const { data, error } = await supabase.rpc('merge_companies', {
+      p_source_id: sourceCompanyId,
+      p_target_id: targetCompanyId,
+      p_merged_by: mergedById,
+    });
+
+    if (error) {
+      // PTxyz codes raised by the function carry the HTTP status
+      if (error.code?.startsWith('PT')) {
+        return { success: false, error: error.message, status: parseInt(error.code.slice(2), 10) };
+      }
+      console.error('Failed to merge companies:', error);
+      return { success: false, error: 'Failed to merge companies' };
+    }
+
+    return { success: true, moved: data };
+  } catch (error) {
+    console.error('Merge companies error:', error);
+    return { success: false, error: 'Failed to merge companies' };
+  }
+}
+
+/**
+ * Require or stop requiring two-factor authentication for a company's portal users
+ * Users without an authenticator app set one up the next time they sign in.
+ */
+export async function setCompanyMfaRequired(
+  companyId: string,
+  mfaRequired: boolean
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  try {
+    const { data: company, error } = await supabase
+      .from('companies')
+      .update({ mfa_required: mfaRequired, updated_at: new Date().toISOString() })
+      .eq('id', companyId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to update company MFA policy:', error);
+      return { success: false, error: 'Failed to update two-factor policy' };
+    }
+
+    if (!company) {
+      return { success: false, error: 'Company not found', status: 404 };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Set company MFA policy error:', error);
+    return { success: false, error: 'Failed to update two-factor policy' };
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('Email,Company\nada@acme.com,Acme\n')).toEqual([
+      ['Email', 'Company'],
+      ['ada@acme.com', 'Acme'],
+    ]);
+  });
+
+  it('accepts CRLF line endings and a byte order mark', () => {
+    expect(parseCsv('\uFEFFEmail,Company\r\nada@acme.com,Acme')).toEqual([
+      ['Email', 'Company'],
+      ['ada@acme.com', 'Acme'],
+    ]);
+  });
+
+  it('keeps commas, quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('"Acme, Inc.","Say ""hi""","Line 1\r\nLine 2"')).toEqual([
+      ['Acme, Inc.', 'Say "hi"', 'Line 1\r\nLine 2'],
+    ]);
+  });
+
+  it('keeps empty cells and blank lines', () => {
+    expect(parseCsv('a,,c\n\n,b,')).toEqual([
+      ['a', '', 'c'],
+      [''],
+      ['', 'b', ''],
+    ]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+
+  it('rejects an unterminated quoted cell', () => {
+    expect(() => parseCsv('"Acme\nada@acme.com')).toThrow('Unterminated quoted cell');
+  });
+});
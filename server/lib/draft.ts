@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import type { OnboardingDraft, OnboardingDraftData } from '../../shared/types';
+
+/**
+ * Get the saved onboarding draft for an invite
+ */
+export async function getDraft(inviteId: string): Promise<OnboardingDraft | null> {
+  try {
+    const { data, error } = await supabase
+      .from('onboarding_drafts')
+      .select('*')
+      .eq('invite_id', inviteId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to get onboarding draft:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Get onboarding draft error:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or replace the onboarding draft for an invite
+ */
+export async function saveDraft(
+  inviteId: string,
+  currentStep: number,
+  formData: OnboardingDraftData
+): Promise<{ success: boolean; draft?: OnboardingDraft; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from('onboarding_drafts')
+      .upsert(
+        {
+          invite_id: inviteId,
+          current_step: currentStep,
+          form_data: formData,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'invite_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to save onboarding draft:', error);
+      return { success: false, error: 'Failed to save draft' };
+    }
+
+    return { success: true, draft: data };
+  } catch (error) {
+    console.error('Save onboarding draft error:', error);
+    return { success: false, error: 'Failed to save draft' };
+  }
+}
+
+/**
+ * Discard the onboarding draft for an invite (after submission)
+ */
+export async function deleteDraft(inviteId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('onboarding_drafts')
+      .delete()
+      .eq('invite_id', inviteId);
+
+    if (error) {
+      console.error('Failed to delete onboarding draft:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Delete onboarding draft error:', error);
+    return false;
+  }
+}
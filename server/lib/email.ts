@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import sgMail from '@sendgrid/mail';
 import { supabase } from './supabase';
 
@@ -9,6 +10,8 @@ export interface EmailOptions {
   subject?: string;
   html?: string;
   text?: string;
+  // Echoed back on SendGrid event webhook payloads (e.g. invite_id for funnel tracking)
+  customArgs?: Record<string, string>;
 }
 
 export interface InviteEmailData {
@@ -46,8 +49,29 @@ export interface WelcomeEmailData {
   portalUrl: string;
 }
 
+export interface PortalAccessEmailData {
+  recipientName: string;
+  companyName: string;
+  loginUrl: string;
+  // Set when the account signs in with a password rather than a magic link
+  temporaryPassword?: string;
+}
+
+export interface AccountLockedEmailData {
+  recipientName?: string;
+  unlockUrl: string;
+  lockedFor: string;
+}
+
 // Email type for logging
-export type EmailType = 'invite' | 'magic_link' | 'status_update' | 'password_reset' | 'welcome';
+export type EmailType =
+  | 'invite'
+  | 'invite_reminder'
+  | 'magic_link'
+  | 'status_update'
+  | 'password_reset'
+  | 'welcome'
+  | 'account_locked';
 
 // Initialize SendGrid
 const apiKey = process.env.SENDGRID_API_KEY;
@@ -57,6 +81,9 @@ if (apiKey) {
   console.warn('SendGrid API key not configured. Emails will not be sent.');
 }
 
+// Verification key from SendGrid's Signed Event Webhook settings
+const WEBHOOK_PUBLIC_KEY = process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+
 const FROM_EMAIL = process.env.SENDGRID_FROM_EMAIL || 'noreply@claimsiq.com';
 const FROM_NAME = process.env.SENDGRID_FROM_NAME || 'Claims iQ';
 
@@ -131,6 +158,7 @@ export async function sendEmail(
         name: FROM_NAME,
       },
       subject: options.subject || 'Claims iQ Notification',
+      ...(options.customArgs ? { customArgs: options.customArgs } : {}),
       ...(options.templateId
         ? {
             templateId: options.templateId,
@@ -153,6 +181,38 @@ export async function sendEmail(
   }
 }
 
+/**
+ * Check a SendGrid event webhook request against its ECDSA signature
+ * Returns false when no verification key is configured
+ */
+export function verifyEventWebhookSignature(
+  payload: Buffer,
+  signature: string | undefined,
+  timestamp: string | undefined
+): boolean {
+  if (!WEBHOOK_PUBLIC_KEY || !signature || !timestamp) {
+    return false;
+  }
+
+  try {
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.from(WEBHOOK_PUBLIC_KEY, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+
+    return crypto.verify(
+      'sha256',
+      Buffer.concat([Buffer.from(timestamp), payload]),
+      publicKey,
+      Buffer.from(signature, 'base64')
+    );
+  } catch (error) {
+    console.error('Webhook signature verification error:', error);
+    return false;
+  }
+}
+
 /**
  * Send invite email to a prospective client
  */
@@ -220,7 +280,91 @@ Invited by: ${data.invitedBy}
 If you did not expect this invitation, please ignore this email.
   `;
 
-  const result = await sendEmail({ to: email, subject, html, text });
+  const result = await sendEmail({
+    to: email,
+    subject,
+    html,
+    text,
+    customArgs: inviteId ? { invite_id: inviteId } : undefined,
+  });
+
+  await logEmail('invite', email, subject, result.success ? 'sent' : 'failed', {
+    messageId: result.messageId,
+    errorMessage: result.error,
+    inviteId,
+  });
+
+  return result;
+}
+
+/**
+ * Send invite email to a new member of an existing client's team
+ */
+export async function sendTeamInviteEmail(
+  email: string,
+  data: InviteEmailData,
+  inviteId?: string
+): Promise<{ success: boolean; messageId?: string }> {
+  const subject = `${data.invitedBy} invited you to join their team on Claims iQ`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #1a56db; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #1a56db; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; }
+        .company-name { font-weight: bold; color: #1a56db; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Claims iQ</h1>
+        </div>
+        <div class="content">
+          <h2>Join Your Team</h2>
+          <p>Hello${data.recipientName ? ` ${data.recipientName}` : ''},</p>
+          <p>${data.invitedBy} has invited you to the <strong>Claims iQ</strong> client portal${data.companyName ? ` for <span class="company-name">${data.companyName}</span>` : ''}.</p>
+          <p>Click the button below to set a password and activate your account:</p>
+          <p style="text-align: center;">
+            <a href="${data.inviteUrl}" class="button">Accept Invitation</a>
+          </p>
+          <p><strong>This link will expire on ${data.expiresAt}.</strong></p>
+          <div class="footer">
+            <p>If you did not expect this invitation, please ignore this email.</p>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+Join Your Team on Claims iQ
+
+Hello${data.recipientName ? ` ${data.recipientName}` : ''},
+
+${data.invitedBy} has invited you to the Claims iQ client portal${data.companyName ? ` for ${data.companyName}` : ''}.
+
+Set a password and activate your account here: ${data.inviteUrl}
+
+This link will expire on ${data.expiresAt}.
+
+If you did not expect this invitation, please ignore this email.
+  `;
+
+  const result = await sendEmail({
+    to: email,
+    subject,
+    html,
+    text,
+    customArgs: inviteId ? { invite_id: inviteId } : undefined,
+  });
 
   await logEmail('invite', email, subject, result.success ? 'sent' : 'failed', {
     messageId: result.messageId,
@@ -231,6 +375,90 @@ If you did not expect this invitation, please ignore this email.
   return result;
 }
 
+/**
+ * Remind a prospect that their unused invite is about to expire
+ */
+export async function sendInviteReminderEmail(
+  email: string,
+  data: InviteEmailData,
+  inviteId?: string
+): Promise<{ success: boolean; messageId?: string }> {
+  const subject = 'Reminder: your Claims iQ onboarding invite expires soon';
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #1a56db; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #1a56db; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; }
+        .company-name { font-weight: bold; color: #1a56db; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Claims iQ</h1>
+        </div>
+        <div class="content">
+          <h2>Your Invite Expires Soon</h2>
+          <p>Hello${data.recipientName ? ` ${data.recipientName}` : ''},</p>
+          <p>You were invited to begin the onboarding process with <strong>Claims iQ</strong>, but haven't completed it yet.</p>
+          ${data.companyName ? `<p>Company: <span class="company-name">${data.companyName}</span></p>` : ''}
+          <p>Pick up where you left off using the button below:</p>
+          <p style="text-align: center;">
+            <a href="${data.inviteUrl}" class="button">Continue Onboarding</a>
+          </p>
+          <p><strong>This link will expire on ${data.expiresAt}.</strong></p>
+          <p>If you have any questions, please contact us.</p>
+          <div class="footer">
+            <p>Invited by: ${data.invitedBy}</p>
+            <p>If you did not expect this invitation, please ignore this email.</p>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+Your Claims iQ Invite Expires Soon
+
+Hello${data.recipientName ? ` ${data.recipientName}` : ''},
+
+You were invited to begin the onboarding process with Claims iQ, but haven't completed it yet.
+${data.companyName ? `Company: ${data.companyName}` : ''}
+
+Continue your onboarding here: ${data.inviteUrl}
+
+This link will expire on ${data.expiresAt}.
+
+Invited by: ${data.invitedBy}
+
+If you did not expect this invitation, please ignore this email.
+  `;
+
+  const result = await sendEmail({
+    to: email,
+    subject,
+    html,
+    text,
+    customArgs: inviteId ? { invite_id: inviteId } : undefined,
+  });
+
+  await logEmail('invite_reminder', email, subject, result.success ? 'sent' : 'failed', {
+    messageId: result.messageId,
+    errorMessage: result.error,
+    inviteId,
+  });
+
+  return result;
+}
+
 /**
  * Send magic link email for authentication
  */
@@ -557,6 +785,160 @@ The Claims iQ Team
   return result;
 }
 
+/**
+ * Send welcome email when staff give a contact access to the client portal
+ */
+export async function sendPortalAccessEmail(
+  email: string,
+  data: PortalAccessEmailData
+): Promise<{ success: boolean; messageId?: string }> {
+  const subject = 'Your Claims iQ portal access is ready';
+
+  const signInHtml = data.temporaryPassword
+    ? `<p>Sign in with your email address and this temporary password:</p>
+          <p class="password">${data.temporaryPassword}</p>
+          <p>Please choose a new password after signing in.</p>`
+    : `<p>Sign in with your email address. We'll email you a secure sign-in link each time, so there's no password to remember.</p>`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #1a56db; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #1a56db; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .password { font-family: monospace; font-size: 18px; background: white; border: 1px solid #e5e7eb; padding: 10px; border-radius: 4px; text-align: center; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Claims iQ</h1>
+        </div>
+        <div class="content">
+          <h2>Welcome to the Client Portal</h2>
+          <p>Hello ${data.recipientName},</p>
+          <p>You now have access to the Claims iQ client portal for <strong>${data.companyName}</strong>, where you can track onboarding progress, upload documents and review your statement of work.</p>
+          ${signInHtml}
+          <p style="text-align: center;">
+            <a href="${data.loginUrl}" class="button">Sign In</a>
+          </p>
+          <div class="footer">
+            <p>If you did not expect this email, please contact your Claims iQ representative.</p>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+Welcome to the Claims iQ Client Portal
+
+Hello ${data.recipientName},
+
+You now have access to the Claims iQ client portal for ${data.companyName}, where you can track onboarding progress, upload documents and review your statement of work.
+
+${data.temporaryPassword
+    ? `Sign in with your email address and this temporary password: ${data.temporaryPassword}
+Please choose a new password after signing in.`
+    : `Sign in with your email address. We'll email you a secure sign-in link each time.`}
+
+Sign in here: ${data.loginUrl}
+
+If you did not expect this email, please contact your Claims iQ representative.
+  `;
+
+  const result = await sendEmail({ to: email, subject, html, text });
+
+  await logEmail('welcome', email, subject, result.success ? 'sent' : 'failed', {
+    messageId: result.messageId,
+    errorMessage: result.error,
+  });
+
+  return result;
+}
+
+/**
+ * Send account locked email with a link to unlock it
+ */
+export async function sendAccountLockedEmail(
+  email: string,
+  data: AccountLockedEmailData
+): Promise<{ success: boolean; messageId?: string }> {
+  const subject = 'Your Claims iQ account has been locked';
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #1a56db; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #1a56db; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; }
+        .warning { background: #fef3c7; border: 1px solid #f59e0b; padding: 10px; border-radius: 4px; margin: 15px 0; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Claims iQ</h1>
+        </div>
+        <div class="content">
+          <h2>Account Locked</h2>
+          <p>Hello${data.recipientName ? ` ${data.recipientName}` : ''},</p>
+          <p>We locked your account for ${data.lockedFor} after too many failed sign-in attempts.</p>
+          <p>If this was you, click the button below to unlock your account now:</p>
+          <p style="text-align: center;">
+            <a href="${data.unlockUrl}" class="button">Unlock Account</a>
+          </p>
+          <div class="warning">
+            <strong>⚠️ If you didn't try to sign in, someone may be guessing your password.</strong>
+            Consider resetting your password once your account is unlocked.
+          </div>
+          <div class="footer">
+            <p>Your account unlocks automatically after ${data.lockedFor} if you do nothing.</p>
+            <p>For security, never share this link with anyone.</p>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+Your Claims iQ Account Has Been Locked
+
+Hello${data.recipientName ? ` ${data.recipientName}` : ''},
+
+We locked your account for ${data.lockedFor} after too many failed sign-in attempts.
+
+If this was you, unlock your account now:
+${data.unlockUrl}
+
+If you didn't try to sign in, someone may be guessing your password. Consider resetting your password once your account is unlocked.
+
+Your account unlocks automatically after ${data.lockedFor} if you do nothing.
+For security, never share this link with anyone.
+  `;
+
+  const result = await sendEmail({ to: email, subject, html, text });
+
+  await logEmail('account_locked', email, subject, result.success ? 'sent' : 'failed', {
+    messageId: result.messageId,
+    errorMessage: result.error,
+  });
+
+  return result;
+}
+
 /**
  * Get human-readable status label
  */
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.MFA_ENCRYPTION_KEY = 'test-encryption-key';
+});
+
+import { decrypt, encrypt } from './encryption';
+
+describe('encrypt', () => {
+  it('round-trips through decrypt', () => {
+    expect(decrypt(encrypt('oidc-client-secret'))).toBe('oidc-client-secret');
+  });
+
+  it('uses a fresh IV for every value', () => {
+    expect(encrypt('oidc-client-secret')).not.toBe(encrypt('oidc-client-secret'));
+  });
+
+  it('does not store the plaintext', () => {
+    expect(encrypt('oidc-client-secret')).not.toContain('oidc-client-secret');
+  });
+});
+
+describe('decrypt', () => {
+  it('rejects a value that was tampered with', () => {
+    const [iv, authTag, ciphertext] = encrypt('oidc-client-secret').split('.');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 1;
+
+    expect(() => decrypt([iv, authTag, flipped.toString('base64')].join('.'))).toThrow();
+  });
+});
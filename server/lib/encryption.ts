@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+
+// AES-256-GCM for secrets stored in the database: TOTP secrets, sessions held for two-factor
+// sign-in and SSO client secrets. Changing the key disables every authenticator app and
+// every OIDC connection.
+if (!process.env.MFA_ENCRYPTION_KEY) {
+  throw new Error('Missing MFA encryption key. Please set MFA_ENCRYPTION_KEY environment variable');
+}
+
+const ENCRYPTION_KEY = crypto.createHash('sha256').update(process.env.MFA_ENCRYPTION_KEY).digest();
+
+/**
+ * Encrypt a secret as "iv.authTag.ciphertext" (each part base64)
+ */
+export function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypt a value from encrypt(); throws if it was tampered with or encrypted with another key
+ */
+export function decrypt(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
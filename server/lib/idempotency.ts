@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+
+// Types
+export type IdempotencyScope = 'onboarding_submit';
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'replay'; responseStatus: number; responseBody: unknown }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' }
+  | { status: 'error' };
+
+// Idempotency-Key header format (client-generated UUIDs, or any opaque string)
+const KEY_PATTERN = /^[A-Za-z0-9_\-:.]{8,255}$/;
+
+/**
+ * Check that an Idempotency-Key header value is well formed
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Hash a request body so a reused key with a different payload can be rejected
+ */
+export function hashRequestBody(body: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+}
+
+/**
+ * Claim an idempotency key before doing the work
+ * Returns the stored response if the key has already completed
+ */
+export async function claimIdempotencyKey(
+  scope: IdempotencyScope,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  try {
+    const { error: insertError } = await supabase
+      .from('idempotency_keys')
+      .insert({
+        scope,
+        idempotency_key: key,
+        request_hash: requestHash,
+        status: 'processing',
+      });
+
+    if (!insertError) {
+      return { status: 'claimed' };
+    }
+
+    // 23505 = unique_violation: the key has been seen before
+    if (insertError.code !== '23505') {
+      console.error('Failed to claim idempotency key:', insertError);
+      return { status: 'error' };
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('idempotency_keys')
+      .select('request_hash, status, response_status, response_body')
+      .eq('scope', scope)
+      .eq('idempotency_key', key)
+      .single();
+
+    if (fetchError || !existing) {
+      console.error('Failed to load idempotency key:', fetchError);
+      return { status: 'error' };
+    }
+
+    if (existing.request_hash !== requestHash) {
+      return { status: 'mismatch' };
+    }
+
+    if (existing.status === 'completed') {
+      return {
+        status: 'replay',
+        responseStatus: existing.response_status,
+        responseBody: existing.response_body,
+      };
+    }
+
+    return { status: 'in_progress' };
+  } catch (error) {
+    console.error('Claim idempotency key error:', error);
+    return { status: 'error' };
+  }
+}
+
+/**
+ * Store the response for a claimed key so duplicates replay it
+ */
+export async function completeIdempotencyKey(
+  scope: IdempotencyScope,
+  key: string,
+  responseStatus: number,
+  responseBody: unknown,
+  inviteId?: string
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: responseStatus,
+        response_body: responseBody,
+        invite_id: inviteId || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('scope', scope)
+      .eq('idempotency_key', key);
+
+    if (error) {
+      console.error('Failed to complete idempotency key:', error);
+    }
+  } catch (error) {
+    console.error('Complete idempotency key error:', error);
+  }
+}
+
+/**
+ * Release a claimed key after a failure so the client can retry with it
+ */
+export async function releaseIdempotencyKey(
+  scope: IdempotencyScope,
+  key: string
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('scope', scope)
+      .eq('idempotency_key', key)
+      .eq('status', 'processing');
+
+    if (error) {
+      console.error('Failed to release idempotency key:', error);
+    }
+  } catch (error) {
+    console.error('Release idempotency key error:', error);
+  }
+}
@@ -0,0 +1,213 @@
+import { supabase } from './supabase';
+import { getTenantContext, hasStaffCapability, validateCompanyAccess, type TenantContext } from './tenant';
+import { IMPERSONATION_BLOCKED_PERMISSIONS } from '../../shared/permissions';
+import type { StartImpersonationInput } from '../../shared/validation';
+
+// Configuration
+const SESSION_MINUTES = parseInt(process.env.IMPERSONATION_SESSION_MINUTES || '60', 10);
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Write an impersonation event to the activity log of each of the company's projects
+ * Companies without a project get a single entry not tied to any project
+ */
+export async function logImpersonationActivity(
+  companyId: string,
+  staffUserId: string,
+  action: string,
+  details: Record<string, unknown>
+): Promise<void> {
+  const { data: projects } = await supabase
+    .from('onboarding_projects')
+    .select('id')
+    .eq('company_id', companyId);
+
+  const projectIds: (string | null)[] = projects && projects.length > 0 ? projects.map((p) => p.id) : [null];
+
+  const { error } = await supabase.from('activity_logs').insert(
+    projectIds.map((projectId) => ({
+      project_id: projectId,
+      user_id: staffUserId,
+      action,
+      details,
+    }))
+  );
+
+  if (error) {
+    console.error('Failed to log impersonation activity:', error);
+  }
+}
+
+/**
+ * Start viewing the portal as a portal user
+ * CSMs can only impersonate users of companies with a project assigned to them
+ */
+export async function startImpersonation(
+  staff: TenantContext,
+  input: StartImpersonationInput
+): Promise<{ success: boolean; sessionId?: string; expiresAt?: string; error?: string; status?: number }> {
+  try {
+    if (input.allowDestructive && !hasStaffCapability(staff, 'impersonation.allow_destructive')) {
+      return { success: false, error: 'Your staff role cannot allow destructive actions', status: 403 };
+    }
+
+    const { data: portalUser } = await supabase
+      .from('portal_users')
+      .select('id, company_id, is_active')
+      .eq('id', input.portalUserId)
+      .maybeSingle();
+
+    if (!portalUser) {
+      return { success: false, error: 'Portal user not found', status: 404 };
+    }
+
+    if (!portalUser.is_active) {
+      return { success: false, error: 'Portal user is deactivated', status: 400 };
+    }
+
+    if (!(await validateCompanyAccess(supabase, staff, portalUser.company_id))) {
+      return { success: false, error: 'You can only view customers assigned to you', status: 403 };
+    }
+
+    const expiresAt = new Date(Date.now() + SESSION_MINUTES * 60 * 1000).toISOString();
+
+    const { data: session, error } = await supabase
+      .from('impersonation_sessions')
+      .insert({
+        staff_user_id: staff.userId,
+        portal_user_id: portalUser.id,
+        reason: input.reason || null,
+        allow_destructive: input.allowDestructive,
+        expires_at: expiresAt,
+      })
+      .select('id')
+      .single();
+
+    if (error || !session) {
+      console.error('Failed to create impersonation session:', error);
+      return { success: false, error: 'Failed to start impersonation', status: 500 };
+    }
+
+    await logImpersonationActivity(portalUser.company_id, staff.userId, 'impersonation_started', {
+      session_id: session.id,
+      portal_user_id: portalUser.id,
+      reason: input.reason || null,
+      allow_destructive: input.allowDestructive,
+    });
+
+    return { success: true, sessionId: session.id, expiresAt };
+  } catch (error) {
+    console.error('Start impersonation error:', error);
+    return { success: false, error: 'Failed to start impersonation', status: 500 };
+  }
+}
+
+/**
+ * End a staff user's impersonation session
+ */
+export async function endImpersonation(
+  sessionId: string,
+  staffUserId: string
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  try {
+    if (!UUID_PATTERN.test(sessionId)) {
+      return { success: false, error: 'Impersonation session not found', status: 404 };
+    }
+
+    const { data: session } = await supabase
+      .from('impersonation_sessions')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('staff_user_id', staffUserId)
+      .is('ended_at', null)
+      .select('id, portal_user_id, portal_user:portal_users(company_id)')
+      .maybeSingle();
+
+    if (!session) {
+      return { success: false, error: 'Impersonation session not found', status: 404 };
+    }
+
+    const portalUser = (Array.isArray(session.portal_user) ? session.portal_user[0] : session.portal_user) as
+      | { company_id: string }
+      | null;
+
+    if (portalUser) {
+      await logImpersonationActivity(portalUser.company_id, staffUserId, 'impersonation_ended', {
+        session_id: session.id,
+        portal_user_id: session.portal_user_id,
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('End impersonation error:', error);
+    return { success: false, error: 'Failed to end impersonation', status: 500 };
+  }
+}
+
+/**
+ * Build the tenant context of the portal user a staff user is impersonating
+ * Returns null if the session has ended, expired or belongs to someone else.
+ * Read-only staff get no portal permissions; destructive ones are removed unless allowed.
+ */
+export async function getImpersonatedTenantContext(
+  staff: TenantContext,
+  sessionId: string
+): Promise<TenantContext | null> {
+  if (!UUID_PATTERN.test(sessionId)) {
+    return null;
+  }
+
+  const { data: session } = await supabase
+    .from('impersonation_sessions')
+    .select(`
+      id,
+      allow_destructive,
+      expires_at,
+      portal_user:portal_users(auth_user_id, is_active, company:companies(legal_name))
+    `)
+    .eq('id', sessionId)
+    .eq('staff_user_id', staff.userId)
+    .is('ended_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (!session) {
+    return null;
+  }
+
+  const portalUser = (Array.isArray(session.portal_user) ? session.portal_user[0] : session.portal_user) as
+    | { auth_user_id: string; is_active: boolean; company: { legal_name: string } | { legal_name: string }[] | null }
+    | null;
+
+  if (!portalUser?.is_active) {
+    return null;
+  }
+
+  const tenant = await getTenantContext(supabase, portalUser.auth_user_id);
+  if (!tenant || tenant.userType !== 'portal_user') {
+    return null;
+  }
+
+  const company = Array.isArray(portalUser.company) ? portalUser.company[0] : portalUser.company;
+  const readOnly = !hasStaffCapability(staff, 'projects.edit');
+  const permissions = readOnly
+    ? []
+    : session.allow_destructive
+      ? tenant.permissions
+      : tenant.permissions.filter((permission) => !IMPERSONATION_BLOCKED_PERMISSIONS.includes(permission));
+
+  return {
+    ...tenant,
+    permissions,
+    impersonation: {
+      sessionId: session.id,
+      staffUserId: staff.userId,
+      staffName: [staff.firstName, staff.lastName].filter(Boolean).join(' ') || staff.email,
+      companyName: company?.legal_name || null,
+      allowDestructive: session.allow_destructive,
+      readOnly,
+      expiresAt: session.expires_at,
+    },
+  };
+}
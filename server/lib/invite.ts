@@ -1,6 +1,6 @@
 import crypto from 'crypto';
 import { supabase } from './supabase';
-import { sendInviteEmail } from './email';
+import { sendInviteEmail, sendTeamInviteEmail, sendInviteReminderEmail } from './email';
 
 // Types
 export interface InviteData {
@@ -9,12 +9,16 @@ export interface InviteData {
   invitedById: string;
   invitedByName: string;
   expirationDays?: number;
+  // Bind the wizard to the first browser that opens the link (defaults to INVITE_DEVICE_BINDING)
+  deviceBinding?: boolean;
+  // Email the link straight away (default); bulk uploads queue the email and send it with resendInvite
+  sendEmail?: boolean;
   metadata?: Record<string, unknown>;
 }
 
 export interface Invite {
   id: string;
-  token: string;
+  token_hash: string;
   email: string;
   company_name: string | null;
   invited_by_id: string | null;
@@ -23,19 +27,47 @@ export interface Invite {
   used_at: string | null;
   project_id: string | null;
   metadata: Record<string, unknown>;
+  reminder_sent_at: string | null;
+  device_binding: boolean;
+  bound_device_hash: string | null;
+  bound_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type InviteRejectionReason = 'invalid_token' | 'not_found' | 'used' | 'expired' | 'revoked';
+
 export interface InviteValidation {
   valid: boolean;
   invite?: Invite;
   error?: string;
+  reason?: InviteRejectionReason;
+  // Set whenever the token identifies an invite, even if it was rejected (for the access log)
+  inviteId?: string;
+}
+
+interface SignedInviteToken {
+  inviteId: string;
+  expiresAt: Date;
+  secret: string;
 }
 
 // Configuration
 const DEFAULT_EXPIRATION_DAYS = parseInt(process.env.INVITE_EXPIRATION_DAYS || '7', 10);
 const TOKEN_LENGTH = parseInt(process.env.INVITE_TOKEN_LENGTH || '32', 10);
+const DEFAULT_DEVICE_BINDING = process.env.INVITE_DEVICE_BINDING !== 'false';
+const REMINDER_DAYS_BEFORE_EXPIRY = parseInt(process.env.INVITE_REMINDER_DAYS || '2', 10);
+// Invites younger than this are skipped so a short-lived invite isn't reminded right after it's sent
+const REMINDER_MIN_AGE_HOURS = 24;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// HMAC key for invite links; changing it invalidates every link already sent
+if (!process.env.INVITE_SIGNING_SECRET) {
+  throw new Error('Missing invite signing secret. Please set INVITE_SIGNING_SECRET environment variable');
+}
+
+const SIGNING_SECRET = process.env.INVITE_SIGNING_SECRET;
 
 /**
  * Generate a cryptographically secure random token
@@ -44,30 +76,159 @@ export function generateInviteToken(length: number = TOKEN_LENGTH): string {
   return crypto.randomBytes(length).toString('hex');
 }
 
+/**
+ * SHA-256 hex digest; invites store only this hash of their token
+ */
+export function hashInviteToken(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function signInviteToken(payload: string): string {
+  return crypto.createHmac('sha256', SIGNING_SECRET).update(payload).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Build a signed invite link token: `<invite id>.<expiry (unix seconds)>.<secret>.<signature>`
+ * Only the hash of the secret is stored, so the raw token is returned to the caller once
+ */
+export function issueInviteToken(inviteId: string, expiresAt: Date): { token: string; tokenHash: string } {
+  const secret = generateInviteToken();
+  const payload = `${inviteId}.${Math.floor(expiresAt.getTime() / 1000)}.${secret}`;
+
+  return {
+    token: `${payload}.${signInviteToken(payload)}`,
+    tokenHash: hashInviteToken(secret),
+  };
+}
+
+/**
+ * Check a signed invite token's signature and split it into its parts
+ * Returns null for anything that isn't a signed token we issued
+ */
+export function parseInviteToken(token: string): SignedInviteToken | null {
+  const parts = token.split('.');
+  if (parts.length !== 4) return null;
+
+  const [inviteId, expires, secret, signature] = parts;
+  if (!UUID_PATTERN.test(inviteId) || !/^\d+$/.test(expires) || !/^[0-9a-f]+$/.test(secret)) {
+    return null;
+  }
+
+  if (!safeEqual(signature, signInviteToken(`${inviteId}.${expires}.${secret}`))) {
+    return null;
+  }
+
+  return { inviteId, expiresAt: new Date(parseInt(expires, 10) * 1000), secret };
+}
+
+/**
+ * Team-member invites (sent from the portal) join an existing company instead of starting onboarding
+ */
+export function isTeamMemberInvite(invite: Pick<Invite, 'metadata'>): boolean {
+  return invite.metadata?.inviteType === 'team_member';
+}
+
+/**
+ * Build the link sent in invite emails: the acceptance page for team members,
+ * the onboarding wizard for everyone else
+ */
+function buildInviteUrl(token: string, metadata: Record<string, unknown> | undefined): string {
+  const appUrl = process.env.APP_URL || 'http://localhost:5000';
+  return metadata?.inviteType === 'team_member'
+    ? `${appUrl}/join/${token}`
+    : `${appUrl}/onboarding/${token}`;
+}
+
+/**
+ * Look up the invite a token belongs to. Signed tokens are matched by invite id and the
+ * hash of their secret; links sent before signing was introduced by the hash of the whole token.
+ */
+async function findInviteByToken(token: string): Promise<InviteValidation> {
+  const signed = parseInviteToken(token);
+
+  if (!signed) {
+    if (!/^[0-9a-f]{64}$/.test(token)) {
+      return { valid: false, error: 'Invalid invite token', reason: 'invalid_token' };
+    }
+
+    const { data: invite } = await supabase
+      .from('invites')
+      .select('*')
+      .eq('token_hash', hashInviteToken(token))
+      .maybeSingle();
+
+    return invite
+      ? { valid: true, invite, inviteId: invite.id }
+      : { valid: false, error: 'Invalid invite token', reason: 'not_found' };
+  }
+
+  if (signed.expiresAt < new Date()) {
+    return {
+      valid: false,
+      error: 'This invite has expired',
+      reason: 'expired',
+      inviteId: signed.inviteId,
+    };
+  }
+
+  const { data: invite } = await supabase
+    .from('invites')
+    .select('*')
+    .eq('id', signed.inviteId)
+    .maybeSingle();
+
+  if (!invite) {
+    return { valid: false, error: 'Invalid invite token', reason: 'not_found' };
+  }
+
+  // A resent invite gets a new secret, so links from earlier emails stop working
+  if (!safeEqual(hashInviteToken(signed.secret), invite.token_hash)) {
+    return {
+      valid: false,
+      error: 'This invite link has been replaced by a newer one',
+      reason: 'invalid_token',
+      inviteId: invite.id,
+    };
+  }
+
+  return { valid: true, invite, inviteId: invite.id };
+}
+
 /**
  * Create a new invite and send the invitation email
  */
 export async function createInvite(data: InviteData): Promise<{
   success: boolean;
   invite?: Invite;
+  // Returned once; only its hash is stored
+  token?: string;
   error?: string;
 }> {
   try {
-    const token = generateInviteToken();
+    const inviteId = crypto.randomUUID();
     const expirationDays = data.expirationDays || DEFAULT_EXPIRATION_DAYS;
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + expirationDays);
+    const { token, tokenHash } = issueInviteToken(inviteId, expiresAt);
 
     // Insert invite into database
     const { data: invite, error: insertError } = await supabase
       .from('invites')
       .insert({
-        token,
+        id: inviteId,
+        token_hash: tokenHash,
         email: data.email.toLowerCase(),
         company_name: data.companyName || null,
         invited_by_id: data.invitedById,
         status: 'pending',
         expires_at: expiresAt.toISOString(),
+        device_binding: data.deviceBinding ?? DEFAULT_DEVICE_BINDING,
         metadata: data.metadata || {},
       })
       .select()
@@ -78,12 +239,16 @@ export async function createInvite(data: InviteData): Promise<{
       return { success: false, error: 'Failed to create invite' };
     }
 
+    if (data.sendEmail === false) {
+      return { success: true, invite, token };
+    }
+
     // Build invite URL
-    const appUrl = process.env.APP_URL || 'http://localhost:5000';
-    const inviteUrl = `${appUrl}/onboarding/${token}`;
+    const inviteUrl = buildInviteUrl(token, data.metadata);
 
     // Send invite email
-    const emailResult = await sendInviteEmail(
+    const sendEmail = isTeamMemberInvite(invite) ? sendTeamInviteEmail : sendInviteEmail;
+    const emailResult = await sendEmail(
       data.email,
       {
         recipientName: data.companyName ? undefined : undefined, // Name not available for invites
@@ -104,7 +269,7 @@ export async function createInvite(data: InviteData): Promise<{
       console.warn('Invite created but email failed to send:', data.email);
     }
 
-    return { success: true, invite };
+    return { success: true, invite, token };
   } catch (error) {
     console.error('Create invite error:', error);
     return { success: false, error: 'Failed to create invite' };
@@ -120,27 +285,30 @@ export async function validateInvite(token: string): Promise<InviteValidation> {
     await expireOldInvites();
 
     // Look up the invite
-    const { data: invite, error } = await supabase
-      .from('invites')
-      .select('*')
-      .eq('token', token)
-      .single();
-
-    if (error || !invite) {
-      return { valid: false, error: 'Invalid invite token' };
+    const lookup = await findInviteByToken(token);
+    if (!lookup.valid) {
+      return lookup;
     }
 
+    const invite = lookup.invite!;
+    const rejected = (reason: InviteRejectionReason, error: string): InviteValidation => ({
+      valid: false,
+      error,
+      reason,
+      inviteId: invite.id,
+    });
+
     // Check status
     if (invite.status === 'used') {
-      return { valid: false, error: 'This invite has already been used' };
+      return rejected('used', 'This invite has already been used');
     }
 
     if (invite.status === 'expired') {
-      return { valid: false, error: 'This invite has expired' };
+      return rejected('expired', 'This invite has expired');
     }
 
     if (invite.status === 'revoked') {
-      return { valid: false, error: 'This invite has been revoked' };
+      return rejected('revoked', 'This invite has been revoked');
     }
 
     // Check expiration
@@ -152,10 +320,10 @@ export async function validateInvite(token: string): Promise<InviteValidation> {
         .update({ status: 'expired', updated_at: new Date().toISOString() })
         .eq('id', invite.id);
 
-      return { valid: false, error: 'This invite has expired' };
+      return rejected('expired', 'This invite has expired');
     }
 
-    return { valid: true, invite };
+    return { valid: true, invite, inviteId: invite.id };
   } catch (error) {
     console.error('Validate invite error:', error);
     return { valid: false, error: 'Failed to validate invite' };
@@ -163,11 +331,11 @@ export async function validateInvite(token: string): Promise<InviteValidation> {
 }
 
 /**
- * Mark an invite as used after successful onboarding submission
+ * Mark an invite as used after onboarding submission or team invite acceptance
  */
 export async function markInviteUsed(
-  token: string,
-  projectId: string
+  inviteId: string,
+  projectId: string | null
 ): Promise<boolean> {
   try {
     const { error } = await supabase
@@ -178,7 +346,7 @@ export async function markInviteUsed(
         project_id: projectId,
         updated_at: new Date().toISOString(),
       })
-      .eq('token', token)
+      .eq('id', inviteId)
       .eq('status', 'pending');
 
     if (error) {
@@ -248,12 +416,27 @@ export async function resendInvite(
       return { success: false, error: 'Invite has expired. Please create a new one.' };
     }
 
+    // Only the token's hash is stored, so the resent email carries a new link and earlier
+    // links stop working (a saved draft is kept against the invite, not the link)
+    const { token, tokenHash } = issueInviteToken(invite.id, expiresAt);
+    const { data: rotated, error: rotateError } = await supabase
+      .from('invites')
+      .update({ token_hash: tokenHash, updated_at: new Date().toISOString() })
+      .eq('id', invite.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (rotateError || !rotated?.length) {
+      console.error('Failed to issue new invite link:', rotateError);
+      return { success: false, error: 'Failed to resend invite' };
+    }
+
     // Build invite URL
-    const appUrl = process.env.APP_URL || 'http://localhost:5000';
-    const inviteUrl = `${appUrl}/onboarding/${invite.token}`;
+    const inviteUrl = buildInviteUrl(token, invite.metadata);
 
     // Send email
-    const emailResult = await sendInviteEmail(
+    const sendEmail = isTeamMemberInvite(invite) ? sendTeamInviteEmail : sendInviteEmail;
+    const emailResult = await sendEmail(
       invite.email,
       {
         companyName: invite.company_name || undefined,
@@ -281,7 +464,7 @@ export async function resendInvite(
 }
 
 /**
- * Expire old invites (should be called periodically)
+ * Expire old invites (run periodically by the scheduler)
  */
 export async function expireOldInvites(): Promise<number> {
   try {
@@ -307,6 +490,79 @@ export async function expireOldInvites(): Promise<number> {
   }
 }
 
+/**
+ * Email a one-time reminder for pending invites that expire within the reminder window
+ * Throws if the invites can't be loaded so the scheduled job records the failure
+ */
+export async function sendInviteReminders(): Promise<{ sent: number; failed: number }> {
+  const now = new Date();
+  const windowEnd = new Date(now.getTime() + REMINDER_DAYS_BEFORE_EXPIRY * 24 * 60 * 60 * 1000);
+  const createdBefore = new Date(now.getTime() - REMINDER_MIN_AGE_HOURS * 60 * 60 * 1000);
+
+  const { data: invites, error } = await supabase
+    .from('invites')
+    .select('*, invited_by:users(first_name, last_name)')
+    .eq('status', 'pending')
+    .is('reminder_sent_at', null)
+    .gt('expires_at', now.toISOString())
+    .lte('expires_at', windowEnd.toISOString())
+    .lt('created_at', createdBefore.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load invites for reminders: ${error.message}`);
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const invite of invites || []) {
+    // The reminder carries a new link (the original's secret isn't stored), replacing the old one
+    const { token, tokenHash } = issueInviteToken(invite.id, new Date(invite.expires_at));
+
+    // Mark the reminder as sent before emailing so a retry can never send it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('invites')
+      .update({ reminder_sent_at: now.toISOString(), token_hash: tokenHash })
+      .eq('id', invite.id)
+      .is('reminder_sent_at', null)
+      .select('id');
+
+    if (claimError) {
+      console.error('Failed to mark invite reminder:', claimError);
+      failed++;
+      continue;
+    }
+    if (!claimed?.length) continue;
+
+    const inviter = invite.invited_by as { first_name: string | null; last_name: string | null } | null;
+    const invitedBy = [inviter?.first_name, inviter?.last_name].filter(Boolean).join(' ') || 'Claims iQ Team';
+
+    const emailResult = await sendInviteReminderEmail(
+      invite.email,
+      {
+        companyName: invite.company_name || undefined,
+        inviteUrl: buildInviteUrl(token, invite.metadata),
+        expiresAt: new Date(invite.expires_at).toLocaleDateString('en-US', {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        }),
+        invitedBy,
+      },
+      invite.id
+    );
+
+    if (emailResult.success) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
 /**
  * Get all invites with optional filtering
  */
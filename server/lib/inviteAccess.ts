@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+import { validateInvite, type InviteValidation } from './invite';
+import type { InviteTransferRequest, InviteTransferStatus } from '../../shared/types';
+
+// Types
+export type InviteAccessAction =
+  | 'validate'
+  | 'draft_load'
+  | 'draft_save'
+  | 'event'
+  | 'attachments_list'
+  | 'attachment_upload'
+  | 'attachment_delete'
+  | 'submit'
+  | 'transfer_request'
+  | 'team_accept';
+
+export interface InviteAccessContext {
+  action: InviteAccessAction;
+  // Random id from the browser's invite device cookie
+  deviceId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface InviteAccess extends InviteValidation {
+  // HTTP status for a rejected attempt
+  status?: number;
+  deviceMismatch?: boolean;
+}
+
+/**
+ * Generate the random id stored in a browser's invite device cookie
+ */
+export function generateDeviceId(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+// Only a hash of the device id is stored against the invite
+function hashDeviceId(deviceId: string): string {
+  return crypto.createHash('sha256').update(deviceId).digest('hex');
+}
+
+/**
+ * Record an attempt to use an invite link. Failures are logged rather than thrown.
+ */
+async function logInviteAccess(
+  inviteId: string | undefined,
+  outcome: string,
+  context: InviteAccessContext
+): Promise<void> {
+  const { error } = await supabase.from('invite_access_logs').insert({
+    invite_id: inviteId || null,
+    action: context.action,
+    outcome,
+    ip_address: context.ipAddress,
+    user_agent: context.userAgent?.slice(0, 1000) || null,
+  });
+
+  if (error) {
+    console.error('Failed to log invite access:', error);
+  }
+}
+
+/**
+ * Validate an invite token for a request from a prospect's browser and audit the attempt.
+ * Invites with device binding are bound to the first browser that uses them; other
+ * browsers are refused until staff approve a transfer.
+ */
+export async function checkInviteAccess(
+  token: string,
+  context: InviteAccessContext
+): Promise<InviteAccess> {
+  const validation = await validateInvite(token);
+
+  if (!validation.valid) {
+    await logInviteAccess(validation.inviteId, validation.reason || 'invalid_token', context);
+    return { ...validation, status: 400 };
+  }
+
+  const invite = validation.invite!;
+
+  if (invite.device_binding) {
+    const deviceHash = hashDeviceId(context.deviceId);
+    let boundDeviceHash = invite.bound_device_hash;
+
+    if (!boundDeviceHash) {
+      // Conditional update so two browsers opening the link at once can't both bind
+      const { data: bound } = await supabase
+        .from('invites')
+        .update({ bound_device_hash: deviceHash, bound_at: new Date().toISOString() })
+        .eq('id', invite.id)
+        .is('bound_device_hash', null)
+        .select('bound_device_hash');
+
+      if (bound?.length) {
+        boundDeviceHash = deviceHash;
+      } else {
+        const { data: current } = await supabase
+          .from('invites')
+          .select('bound_device_hash')
+          .eq('id', invite.id)
+          .single();
+        boundDeviceHash = current?.bound_device_hash || null;
+      }
+    }
+
+    if (boundDeviceHash !== deviceHash) {
+      await logInviteAccess(invite.id, 'device_mismatch', context);
+      return {
+        valid: false,
+        inviteId: invite.id,
+        error: 'This invite link is already in use in another browser',
+        status: 403,
+        deviceMismatch: true,
+      };
+    }
+  }
+
+  await logInviteAccess(invite.id, 'valid', context);
+  return validation;
+}
+
+/**
+ * Ask staff to move a device-bound invite to the requesting browser
+ */
+export async function requestInviteTransfer(
+  token: string,
+  context: InviteAccessContext
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  try {
+    const access = await checkInviteAccess(token, context);
+
+    if (access.valid) {
+      return { success: false, error: 'This browser can already use the invite', status: 400 };
+    }
+
+    if (!access.deviceMismatch) {
+      return { success: false, error: access.error, status: access.status };
+    }
+
+    // A repeat request from the same browser keeps the existing pending request
+    // (unique_violation on the pending-request index)
+    const { error } = await supabase.from('invite_transfer_requests').insert({
+      invite_id: access.inviteId,
+      device_hash: hashDeviceId(context.deviceId),
+      ip_address: context.ipAddress,
+      user_agent: context.userAgent?.slice(0, 1000) || null,
+    });
+
+    if (error && error.code !== '23505') {
+      console.error('Failed to create invite transfer request:', error);
+      return { success: false, error: 'Failed to request access', status: 500 };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Request invite transfer error:', error);
+    return { success: false, error: 'Failed to request access', status: 500 };
+  }
+}
+
+/**
+ * List transfer requests for staff review, newest first
+ */
+export async function getInviteTransferRequests(
+  status: InviteTransferStatus = 'pending'
+): Promise<InviteTransferRequest[]> {
+  try {
+    const { data, error } = await supabase
+      .from('invite_transfer_requests')
+      .select('id, invite_id, ip_address, user_agent, status, reviewed_at, created_at, invite:invites(email, company_name)')
+      .eq('status', status)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Failed to get invite transfer requests:', error);
+      return [];
+    }
+
+    return (data || []).map((request) => {
+      const invite = (Array.isArray(request.invite) ? request.invite[0] : request.invite) as
+        | { email: string; company_name: string | null }
+        | null;
+
+      return {
+        id: request.id,
+        invite_id: request.invite_id,
+        email: invite?.email || '',
+        company_name: invite?.company_name || null,
+        ip_address: request.ip_address,
+        user_agent: request.user_agent,
+        status: request.status,
+        reviewed_at: request.reviewed_at,
+        created_at: request.created_at,
+      };
+    });
+  } catch (error) {
+    console.error('Get invite transfer requests error:', error);
+    return [];
+  }
+}
+
+/**
+ * Approve or deny a pending transfer request. Approving rebinds the invite to the
+ * requesting browser and denies any other pending requests for it.
+ */
+export async function reviewInviteTransfer(
+  requestId: string,
+  reviewedById: string,
+  approve: boolean
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  try {
+    if (approve) {
+      const { data: approved, error } = await supabase.rpc('approve_invite_transfer', {
+        p_request_id: requestId,
+        p_reviewed_by_id: reviewedById,
+      });
+
+      if (error) {
+        console.error('Failed to approve invite transfer:', error);
+        return { success: false, error: 'Failed to approve transfer', status: 500 };
+      }
+
+      return approved
+        ? { success: true }
+        : { success: false, error: 'Transfer request is no longer pending', status: 409 };
+    }
+
+    const { data: denied, error } = await supabase
+      .from('invite_transfer_requests')
+      .update({
+        status: 'denied',
+        reviewed_by_id: reviewedById,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', requestId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      console.error('Failed to deny invite transfer:', error);
+      return { success: false, error: 'Failed to deny transfer', status: 500 };
+    }
+
+    return denied?.length
+      ? { success: true }
+      : { success: false, error: 'Transfer request is no longer pending', status: 409 };
+  } catch (error) {
+    console.error('Review invite transfer error:', error);
+    return { success: false, error: 'Failed to review transfer', status: 500 };
+  }
+}
@@ -0,0 +1,128 @@
+import { supabase } from './supabase';
+import type { InviteEventType, InviteFunnel, InviteFunnelStepKey } from '../../shared/types';
+
+// Funnel steps in order; numbered 1-6 by invite_funnel()
+const FUNNEL_STEPS: { key: InviteFunnelStepKey; label: string }[] = [
+  { key: 'sent', label: 'Invite sent' },
+  { key: 'email_opened', label: 'Email opened' },
+  { key: 'link_validated', label: 'Link opened' },
+  { key: 'wizard_started', label: 'Wizard started' },
+  { key: 'draft_saved', label: 'Draft saved' },
+  { key: 'submitted', label: 'Submitted' },
+];
+
+// Time-to-submit histogram buckets (upper bound in hours, exclusive)
+const SUBMIT_BUCKETS: { label: string; maxHours: number }[] = [
+  { label: '< 1 day', maxHours: 24 },
+  { label: '1-3 days', maxHours: 72 },
+  { label: '3-7 days', maxHours: 168 },
+  { label: '1-2 weeks', maxHours: 336 },
+  { label: '2+ weeks', maxHours: Infinity },
+];
+
+/**
+ * Record that an invite reached a funnel step. Only the first occurrence is kept, and
+ * failures are logged rather than thrown so tracking never breaks the request.
+ */
+export async function recordInviteEvent(
+  inviteId: string,
+  eventType: InviteEventType,
+  options?: { metadata?: Record<string, unknown>; occurredAt?: Date }
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('invite_events')
+      .upsert(
+        {
+          invite_id: inviteId,
+          event_type: eventType,
+          metadata: options?.metadata || {},
+          occurred_at: (options?.occurredAt || new Date()).toISOString(),
+        },
+        { onConflict: 'invite_id,event_type', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Failed to record invite event:', error);
+    }
+  } catch (error) {
+    console.error('Record invite event error:', error);
+  }
+}
+
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+function roundHours(seconds: number | null): number | null {
+  return seconds === null ? null : Math.round((seconds / 3600) * 10) / 10;
+}
+
+/**
+ * Build the invite funnel for invites sent in the last `days` days
+ */
+export async function getInviteFunnel(days: number): Promise<{
+  success: boolean;
+  funnel?: InviteFunnel;
+  error?: string;
+}> {
+  try {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase.rpc('invite_funnel', {
+      p_since: since.toISOString(),
+    });
+
+    if (error) {
+      console.error('Failed to load invite funnel:', error);
+      return { success: false, error: 'Failed to fetch invite funnel' };
+    }
+
+    const furthestCounts = (data?.furthest_step_counts || {}) as Record<string, number>;
+    const submitSeconds = ((data?.submit_seconds || []) as number[]).sort((a, b) => a - b);
+
+    // Invites reaching a step = those whose furthest step is this one or later
+    const stopped = FUNNEL_STEPS.map((_, index) => Number(furthestCounts[index + 1] || 0));
+    const reached = stopped.map((_, index) => stopped.slice(index).reduce((sum, count) => sum + count, 0));
+
+    const steps = FUNNEL_STEPS.map((step, index) => ({
+      ...step,
+      reached: reached[index],
+      conversion_rate: index === 0 || reached[index - 1] === 0
+        ? null
+        : Math.round((reached[index] / reached[index - 1]) * 1000) / 10,
+      stopped: stopped[index],
+    }));
+
+    const buckets = SUBMIT_BUCKETS.map((bucket, index) => {
+      const minHours = index === 0 ? 0 : SUBMIT_BUCKETS[index - 1].maxHours;
+      return {
+        label: bucket.label,
+        count: submitSeconds.filter((seconds) => {
+          const hours = seconds / 3600;
+          return hours >= minHours && hours < bucket.maxHours;
+        }).length,
+      };
+    });
+
+    return {
+      success: true,
+      funnel: {
+        since: since.toISOString(),
+        total_invites: reached[0],
+        steps,
+        time_to_submit: {
+          count: submitSeconds.length,
+          median_hours: roundHours(percentile(submitSeconds, 0.5)),
+          p90_hours: roundHours(percentile(submitSeconds, 0.9)),
+          buckets,
+        },
+      },
+    };
+  } catch (error) {
+    console.error('Invite funnel error:', error);
+    return { success: false, error: 'Failed to fetch invite funnel' };
+  }
+}
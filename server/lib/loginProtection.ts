@@ -0,0 +1,329 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+import { sendAccountLockedEmail } from './email';
+import {
+  checkRateLimit,
+  recordRateLimitHit,
+  resetRateLimit,
+  getRateLimitStore,
+  type RateLimitPolicy,
+} from './rateLimit';
+
+// Types
+export type SecurityEventType =
+  | 'account_locked'
+  | 'account_unlocked'
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'mfa_recovery_code_used'
+  | 'mfa_recovery_codes_regenerated'
+  | 'sso_login'
+  | 'sso_login_failed'
+  | 'sso_user_provisioned';
+
+export interface LoginAttemptContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface LoginThrottle {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  // Set when the account is locked rather than just slowed down
+  locked?: boolean;
+}
+
+// Configuration
+const LOCKOUT_THRESHOLD = parseInt(process.env.AUTH_LOCKOUT_THRESHOLD || '10', 10);
+const LOCKOUT_MINUTES = parseInt(process.env.AUTH_LOCKOUT_MINUTES || '30', 10);
+const UNLOCK_TOKEN_LENGTH = 32;
+
+const MINUTE_MS = 60 * 1000;
+
+// Failed password sign-ins for one account; locked once LOCKOUT_THRESHOLD is reached
+export const LOGIN_ACCOUNT_POLICY: RateLimitPolicy = {
+  name: 'login_account',
+  windowMs: 60 * MINUTE_MS,
+  freeAttempts: 3,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 5 * MINUTE_MS,
+};
+
+// Failed password sign-ins from one IP address, across all accounts
+export const LOGIN_IP_POLICY: RateLimitPolicy = {
+  name: 'login_ip',
+  windowMs: 15 * MINUTE_MS,
+  freeAttempts: 20,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 15 * MINUTE_MS,
+};
+
+// Magic link codes checked for one email address
+export const OTP_VERIFY_POLICY: RateLimitPolicy = {
+  name: 'otp_verify',
+  windowMs: 15 * MINUTE_MS,
+  freeAttempts: 5,
+  backoffBaseMs: 30 * 1000,
+  backoffMaxMs: 15 * MINUTE_MS,
+};
+
+// Two-factor codes checked at sign-in from one IP address, across all accounts
+export const MFA_VERIFY_IP_POLICY: RateLimitPolicy = {
+  name: 'mfa_verify_ip',
+  windowMs: 15 * MINUTE_MS,
+  freeAttempts: 20,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 15 * MINUTE_MS,
+};
+
+// Magic link and password reset emails sent to one address
+export const AUTH_EMAIL_ADDRESS_POLICY: RateLimitPolicy = {
+  name: 'auth_email_address',
+  windowMs: 60 * MINUTE_MS,
+  freeAttempts: 5,
+  backoffBaseMs: MINUTE_MS,
+  backoffMaxMs: 60 * MINUTE_MS,
+};
+
+// Magic link and password reset emails requested from one IP address
+export const AUTH_EMAIL_IP_POLICY: RateLimitPolicy = {
+  name: 'auth_email_ip',
+  windowMs: 60 * MINUTE_MS,
+  freeAttempts: 20,
+  backoffBaseMs: MINUTE_MS,
+  backoffMaxMs: 60 * MINUTE_MS,
+};
+
+// SSO lookups and sign-ins started from one IP address
+export const SSO_IP_POLICY: RateLimitPolicy = {
+  name: 'sso_ip',
+  windowMs: 15 * MINUTE_MS,
+  freeAttempts: 30,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 15 * MINUTE_MS,
+};
+
+function hashUnlockToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function secondsUntil(time: string): number {
+  return Math.max(Math.ceil((new Date(time).getTime() - Date.now()) / 1000), 1);
+}
+
+/**
+ * Record a security event. Failures are logged rather than thrown.
+ */
+export async function logSecurityEvent(
+  eventType: SecurityEventType,
+  email: string,
+  context: LoginAttemptContext,
+  options?: { portalUserId?: string | null; details?: Record<string, unknown> }
+): Promise<void> {
+  const { error } = await supabase.from('security_events').insert({
+    event_type: eventType,
+    email: email.toLowerCase(),
+    portal_user_id: options?.portalUserId || null,
+    ip_address: context.ipAddress,
+    user_agent: context.userAgent?.slice(0, 1000) || null,
+    details: options?.details || {},
+  });
+
+  if (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+/**
+ * Get the lockout currently in force for an email address, if any
+ */
+export async function getActiveLockout(email: string): Promise<{ lockedUntil: string } | null> {
+  const { data: lockout } = await supabase
+    .from('account_lockouts')
+    .select('locked_until')
+    .eq('email', email.toLowerCase())
+    .is('unlocked_at', null)
+    .gt('locked_until', new Date().toISOString())
+    .order('locked_until', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return lockout ? { lockedUntil: lockout.locked_until } : null;
+}
+
+/**
+ * Check whether a password sign-in may be attempted
+ */
+export async function checkLoginAllowed(email: string, context: LoginAttemptContext): Promise<LoginThrottle> {
+  const lockout = await getActiveLockout(email);
+  if (lockout) {
+    return { allowed: false, locked: true, retryAfterSeconds: secondsUntil(lockout.lockedUntil) };
+  }
+
+  const account = await checkRateLimit(LOGIN_ACCOUNT_POLICY, email);
+  if (!account.allowed) {
+    return { allowed: false, retryAfterSeconds: account.retryAfterSeconds };
+  }
+
+  if (context.ipAddress) {
+    const ip = await checkRateLimit(LOGIN_IP_POLICY, context.ipAddress);
+    if (!ip.allowed) {
+      return { allowed: false, retryAfterSeconds: ip.retryAfterSeconds };
+    }
+  }
+
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Find who to tell about a lockout: a portal user by contact email, or a staff user
+ */
+async function findLockoutRecipient(
+  email: string
+): Promise<{ portalUserId: string | null; name?: string } | null> {
+  const { data: portalUser } = await supabase
+    .from('portal_users')
+    .select('id, contact:contacts!inner(first_name, last_name, email)')
+    .eq('contacts.email', email)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (portalUser) {
+    const contact = Array.isArray(portalUser.contact) ? portalUser.contact[0] : portalUser.contact;
+    return {
+      portalUserId: portalUser.id,
+      name: contact ? `${contact.first_name} ${contact.last_name}` : undefined,
+    };
+  }
+
+  const { data: staffUser } = await supabase
+    .from('users')
+    .select('first_name, last_name')
+    .eq('email', email)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (staffUser) {
+    return { portalUserId: null, name: `${staffUser.first_name} ${staffUser.last_name}` };
+  }
+
+  return null;
+}
+
+/**
+ * Lock an email address and send the owner, if there is one, a link to unlock it
+ * Addresses without an account are locked too so responses don't reveal which accounts exist.
+ */
+async function lockAccount(email: string, context: LoginAttemptContext, failures: number): Promise<void> {
+  const normalizedEmail = email.toLowerCase();
+  const token = crypto.randomBytes(UNLOCK_TOKEN_LENGTH).toString('hex');
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * MINUTE_MS).toISOString();
+
+  const { error } = await supabase.from('account_lockouts').insert({
+    email: normalizedEmail,
+    locked_until: lockedUntil,
+    unlock_token_hash: hashUnlockToken(token),
+  });
+
+  if (error) {
+    console.error('Failed to lock account:', error);
+    return;
+  }
+
+  // The lockout takes over from the failure count; the account starts afresh once it ends
+  await resetRateLimit(LOGIN_ACCOUNT_POLICY, normalizedEmail);
+
+  const recipient = await findLockoutRecipient(normalizedEmail);
+  let notified = false;
+
+  if (recipient) {
+    const appUrl = process.env.APP_URL || 'http://localhost:5000';
+    const result = await sendAccountLockedEmail(normalizedEmail, {
+      recipientName: recipient.name,
+      unlockUrl: `${appUrl}/unlock-account/${token}`,
+      lockedFor: `${LOCKOUT_MINUTES} minutes`,
+    });
+    notified = result.success;
+  }
+
+  await logSecurityEvent('account_locked', normalizedEmail, context, {
+    portalUserId: recipient?.portalUserId,
+    details: {
+      failed_attempts: failures,
+      locked_until: lockedUntil,
+      unlock_email_sent: notified,
+    },
+  });
+}
+
+/**
+ * Count a failed password or two-factor code against the account and the IP address
+ * Locks the account once it reaches the lockout threshold.
+ */
+export async function recordLoginFailure(email: string, context: LoginAttemptContext): Promise<LoginThrottle> {
+  if (context.ipAddress) {
+    await recordRateLimitHit(LOGIN_IP_POLICY, context.ipAddress);
+  }
+
+  const account = await recordRateLimitHit(LOGIN_ACCOUNT_POLICY, email);
+
+  if (account.attempts >= LOCKOUT_THRESHOLD) {
+    await lockAccount(email, context, account.attempts);
+    return { allowed: false, locked: true, retryAfterSeconds: LOCKOUT_MINUTES * 60 };
+  }
+
+  return { allowed: account.allowed, retryAfterSeconds: account.retryAfterSeconds };
+}
+
+/**
+ * Clear an account's failed sign-ins after it signs in successfully
+ * With two-factor authentication, only once the second factor has been passed.
+ */
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await resetRateLimit(LOGIN_ACCOUNT_POLICY, email);
+}
+
+/**
+ * Lift a lockout using the token from the account locked email
+ */
+export async function unlockAccount(
+  token: string,
+  context: LoginAttemptContext
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data: lockout } = await supabase
+      .from('account_lockouts')
+      .update({ unlocked_at: new Date().toISOString() })
+      .eq('unlock_token_hash', hashUnlockToken(token))
+      .is('unlocked_at', null)
+      .select('id, email, locked_until')
+      .maybeSingle();
+
+    if (!lockout) {
+      return { success: false, error: 'This unlock link is invalid or has already been used' };
+    }
+
+    await resetRateLimit(LOGIN_ACCOUNT_POLICY, lockout.email);
+
+    await logSecurityEvent('account_unlocked', lockout.email, context, {
+      details: {
+        lockout_id: lockout.id,
+        // The lockout may already have lapsed by the time the link is used
+        expired: new Date(lockout.locked_until) <= new Date(),
+      },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    return { success: false, error: 'Failed to unlock account' };
+  }
+}
+
+/**
+ * Delete rate limit counters that haven't been touched for a day
+ */
+export async function pruneRateLimits(): Promise<{ pruned: number }> {
+  const pruned = await getRateLimitStore().prune(24 * 60 * MINUTE_MS);
+  return { pruned };
+}
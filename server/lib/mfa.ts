@@ -0,0 +1,616 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { supabase, getTokenSessionId } from './supabase';
+import { encrypt, decrypt } from './encryption';
+import { getTenantContext, type TenantContext } from './tenant';
+import type { MfaEnrollment, MfaStatus } from '../../shared/types';
+
+// Types
+export interface PendingSession {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at?: number;
+}
+
+interface MfaFactor {
+  secret: Buffer;
+  confirmedAt: string | null;
+  lastUsedStep: number | null;
+}
+
+interface MfaChallengeRecord {
+  id: string;
+  authUserId: string;
+  enrollmentRequired: boolean;
+  failedAttempts: number;
+}
+
+// Configuration
+const ISSUER = process.env.MFA_ISSUER || 'Claims iQ';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from the neighbouring time steps are accepted to allow for clock drift
+const TOTP_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_MINUTES = 10;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// Authenticator apps take the secret in base32 (RFC 4648, no padding)
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Generate the TOTP code for a time step (RFC 6238, HMAC-SHA1)
+ */
+function generateTotp(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Find the time step a code belongs to
+ * Steps at or before the last one used are skipped so a code can't be replayed.
+ */
+function matchTotpStep(secret: Buffer, code: string, lastUsedStep: number | null): number | null {
+  if (!TOTP_CODE_PATTERN.test(code)) {
+    return null;
+  }
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = currentStep - TOTP_DRIFT_STEPS; step <= currentStep + TOTP_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (crypto.timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+// Recovery codes are shown as xxxxx-xxxxx but accepted with any spacing or dashes
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, '');
+}
+
+async function replaceRecoveryCodes(authUserId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await supabase.from('mfa_recovery_codes').delete().eq('auth_user_id', authUserId);
+
+  const { error } = await supabase.from('mfa_recovery_codes').insert(
+    codes.map((code) => ({
+      auth_user_id: authUserId,
+      code_hash: sha256(normalizeRecoveryCode(code)),
+    }))
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  return codes;
+}
+
+async function getFactor(authUserId: string): Promise<MfaFactor | null> {
+  const { data: factor } = await supabase
+    .from('mfa_factors')
+    .select('secret_encrypted, confirmed_at, last_used_step')
+    .eq('auth_user_id', authUserId)
+    .maybeSingle();
+
+  if (!factor) {
+    return null;
+  }
+
+  return {
+    secret: Buffer.from(decrypt(factor.secret_encrypted), 'hex'),
+    confirmedAt: factor.confirmed_at,
+    lastUsedStep: factor.last_used_step === null ? null : Number(factor.last_used_step),
+  };
+}
+
+/**
+ * Record a code's time step as used, unless another request got there first
+ */
+async function claimTotpStep(authUserId: string, step: number): Promise<boolean> {
+  const { data: claimed } = await supabase
+    .from('mfa_factors')
+    .update({ last_used_step: step, updated_at: new Date().toISOString() })
+    .eq('auth_user_id', authUserId)
+    .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+    .select('auth_user_id')
+    .maybeSingle();
+
+  return !!claimed;
+}
+
+/**
+ * Whether a user must use two-factor authentication
+ * Always for staff; for portal users when their company requires it.
+ */
+export async function isMfaRequired(tenant: TenantContext): Promise<boolean> {
+  if (tenant.userType === 'claims_iq_staff') {
+    return true;
+  }
+
+  if (!tenant.companyId) {
+    return false;
+  }
+
+  const { data: company } = await supabase
+    .from('companies')
+    .select('mfa_required')
+    .eq('id', tenant.companyId)
+    .maybeSingle();
+
+  return !!company?.mfa_required;
+}
+
+/**
+ * Get a user's two-factor authentication state
+ */
+export async function getMfaStatus(authUserId: string, tenant: TenantContext): Promise<MfaStatus> {
+  const factor = await getFactor(authUserId);
+  const enabled = !!factor?.confirmedAt;
+
+  let recoveryCodesRemaining = 0;
+  if (enabled) {
+    const { count } = await supabase
+      .from('mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('auth_user_id', authUserId)
+      .is('used_at', null);
+    recoveryCodesRemaining = count || 0;
+  }
+
+  return {
+    enabled,
+    required: await isMfaRequired(tenant),
+    recoveryCodesRemaining,
+  };
+}
+
+/**
+ * Start setting up an authenticator app
+ * Returns the secret and a QR code for the app to scan; nothing changes until it is confirmed.
+ */
+export async function beginMfaEnrollment(
+  authUserId: string,
+  email: string
+): Promise<{ success: boolean; enrollment?: MfaEnrollment; error?: string; status?: number }> {
+  try {
+    const existing = await getFactor(authUserId);
+    if (existing?.confirmedAt) {
+      return { success: false, error: 'Two-factor authentication is already enabled', status: 409 };
+    }
+
+    const secret = crypto.randomBytes(SECRET_BYTES);
+
+    const { error } = await supabase.from('mfa_factors').upsert(
+      {
+        auth_user_id: authUserId,
+        secret_encrypted: encrypt(secret.toString('hex')),
+        confirmed_at: null,
+        last_used_step: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'auth_user_id' }
+    );
+
+    if (error) {
+      console.error('Failed to save MFA factor:', error);
+      return { success: false, error: 'Failed to start two-factor setup', status: 500 };
+    }
+
+    const base32Secret = base32Encode(secret);
+    const label = encodeURIComponent(`${ISSUER}:${email}`);
+    const otpauthUrl =
+      `otpauth://totp/${label}?secret=${base32Secret}&issuer=${encodeURIComponent(ISSUER)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+    return {
+      success: true,
+      enrollment: {
+        secret: base32Secret,
+        otpauthUrl,
+        qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+      },
+    };
+  } catch (error) {
+    console.error('Begin MFA enrollment error:', error);
+    return { success: false, error: 'Failed to start two-factor setup', status: 500 };
+  }
+}
+
+/**
+ * Turn on two-factor authentication once the user enters a code from their app
+ * Returns the recovery codes, which are only shown this once.
+ */
+export async function confirmMfaEnrollment(
+  authUserId: string,
+  code: string
+): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string; status?: number }> {
+  try {
+    const factor = await getFactor(authUserId);
+    if (!factor) {
+      return { success: false, error: 'Start setting up two-factor authentication first', status: 400 };
+    }
+
+    if (factor.confirmedAt) {
+      return { success: false, error: 'Two-factor authentication is already enabled', status: 409 };
+    }
+
+    const step = matchTotpStep(factor.secret, code, factor.lastUsedStep);
+    if (step === null) {
+      return { success: false, error: 'That code is not valid. Check your authenticator app and try again.', status: 400 };
+    }
+
+    const { error } = await supabase
+      .from('mfa_factors')
+      .update({
+        confirmed_at: new Date().toISOString(),
+        last_used_step: step,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('auth_user_id', authUserId);
+
+    if (error) {
+      console.error('Failed to confirm MFA factor:', error);
+      return { success: false, error: 'Failed to enable two-factor authentication', status: 500 };
+    }
+
+    return { success: true, recoveryCodes: await replaceRecoveryCodes(authUserId) };
+  } catch (error) {
+    console.error('Confirm MFA enrollment error:', error);
+    return { success: false, error: 'Failed to enable two-factor authentication', status: 500 };
+  }
+}
+
+/**
+ * Check an authenticator code, or use up a recovery code
+ */
+export async function verifyMfaCode(
+  authUserId: string,
+  code: string,
+  options: { allowRecoveryCode: boolean } = { allowRecoveryCode: true }
+): Promise<{ success: boolean; usedRecoveryCode?: boolean }> {
+  const factor = await getFactor(authUserId);
+  if (!factor?.confirmedAt) {
+    return { success: false };
+  }
+
+  const trimmed = code.trim();
+
+  if (TOTP_CODE_PATTERN.test(trimmed)) {
+    const step = matchTotpStep(factor.secret, trimmed, factor.lastUsedStep);
+    return { success: step !== null && (await claimTotpStep(authUserId, step)) };
+  }
+
+  if (!options.allowRecoveryCode) {
+    return { success: false };
+  }
+
+  const { data: recoveryCode } = await supabase
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('auth_user_id', authUserId)
+    .eq('code_hash', sha256(normalizeRecoveryCode(trimmed)))
+    .is('used_at', null)
+    .select('id')
+    .maybeSingle();
+
+  return recoveryCode ? { success: true, usedRecoveryCode: true } : { success: false };
+}
+
+/**
+ * Replace a user's recovery codes after checking a code from their app
+ */
+export async function regenerateRecoveryCodes(
+  authUserId: string,
+  code: string
+): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string; status?: number }> {
+  try {
+    const verification = await verifyMfaCode(authUserId, code, { allowRecoveryCode: false });
+    if (!verification.success) {
+      return { success: false, error: 'That code is not valid', status: 400 };
+    }
+
+    return { success: true, recoveryCodes: await replaceRecoveryCodes(authUserId) };
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return { success: false, error: 'Failed to generate recovery codes', status: 500 };
+  }
+}
+
+/**
+ * Turn off two-factor authentication
+ */
+export async function disableMfa(authUserId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.from('mfa_factors').delete().eq('auth_user_id', authUserId);
+
+  if (error) {
+    console.error('Failed to disable MFA:', error);
+    return { success: false, error: 'Failed to disable two-factor authentication' };
+  }
+
+  await supabase.from('mfa_verified_sessions').delete().eq('auth_user_id', authUserId);
+
+  return { success: true };
+}
+
+/**
+ * Record that the sign-in behind an access token passed two-factor authentication
+ */
+export async function markSessionMfaVerified(authUserId: string, accessToken: string): Promise<void> {
+  const sessionId = getTokenSessionId(accessToken);
+  if (!sessionId) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('mfa_verified_sessions')
+    .upsert({ session_id: sessionId, auth_user_id: authUserId }, { onConflict: 'session_id' });
+
+  if (error) {
+    console.error('Failed to record MFA session:', error);
+  }
+}
+
+/**
+ * Forget a sign-in's two-factor check when it signs out
+ */
+export async function forgetMfaSession(accessToken: string): Promise<void> {
+  const sessionId = getTokenSessionId(accessToken);
+  if (sessionId) {
+    await supabase.from('mfa_verified_sessions').delete().eq('session_id', sessionId);
+  }
+}
+
+/**
+ * Check that a request's session passed two-factor authentication if the user needs it
+ * Catches tokens obtained straight from Supabase rather than through our sign-in routes.
+ */
+export async function isSessionMfaSatisfied(
+  tenant: TenantContext,
+  authUserId: string,
+  accessToken: string
+): Promise<boolean> {
+  const { data: factor } = await supabase
+    .from('mfa_factors')
+    .select('confirmed_at')
+    .eq('auth_user_id', authUserId)
+    .maybeSingle();
+
+  if (!factor?.confirmed_at && !(await isMfaRequired(tenant))) {
+    return true;
+  }
+
+  const sessionId = getTokenSessionId(accessToken);
+  if (!sessionId) {
+    return false;
+  }
+
+  const { data: verified } = await supabase
+    .from('mfa_verified_sessions')
+    .select('session_id')
+    .eq('session_id', sessionId)
+    .eq('auth_user_id', authUserId)
+    .maybeSingle();
+
+  return !!verified;
+}
+
+/**
+ * Hold back a new session until the second factor is checked
+ * Returns null when the user neither uses nor needs two-factor authentication.
+ */
+export async function createMfaChallenge(
+  authUserId: string,
+  session: PendingSession
+): Promise<{ token: string; enrollmentRequired: boolean; expiresAt: string } | null> {
+  // Unknown users get no further than requireAuth, so there is nothing to protect
+  const tenant = await getTenantContext(supabase, authUserId);
+  if (!tenant) {
+    return null;
+  }
+
+  const factor = await getFactor(authUserId);
+  const enrolled = !!factor?.confirmedAt;
+  if (!enrolled && !(await isMfaRequired(tenant))) {
+    return null;
+  }
+
+  const now = new Date();
+  await supabase
+    .from('mfa_challenges')
+    .delete()
+    .eq('auth_user_id', authUserId)
+    .lt('expires_at', now.toISOString());
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(now.getTime() + CHALLENGE_MINUTES * 60 * 1000).toISOString();
+
+  const { error } = await supabase.from('mfa_challenges').insert({
+    auth_user_id: authUserId,
+    token_hash: sha256(token),
+    session_encrypted: encrypt(JSON.stringify(session)),
+    enrollment_required: !enrolled,
+    expires_at: expiresAt,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return { token, enrollmentRequired: !enrolled, expiresAt };
+}
+
+async function getMfaChallenge(token: string): Promise<MfaChallengeRecord | null> {
+  const { data: challenge } = await supabase
+    .from('mfa_challenges')
+    .select('id, auth_user_id, enrollment_required, failed_attempts')
+    .eq('token_hash', sha256(token))
+    .is('completed_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .lt('failed_attempts', MAX_CHALLENGE_ATTEMPTS)
+    .maybeSingle();
+
+  return challenge
+    ? {
+        id: challenge.id,
+        authUserId: challenge.auth_user_id,
+        enrollmentRequired: challenge.enrollment_required,
+        failedAttempts: challenge.failed_attempts,
+      }
+    : null;
+}
+
+/**
+ * Find who a pending sign-in challenge belongs to
+ * Wrong codes count toward the same account lockout as wrong passwords, which is keyed by email.
+ */
+export async function getMfaChallengeUser(token: string): Promise<{ authUserId: string; email: string } | null> {
+  const challenge = await getMfaChallenge(token);
+  if (!challenge) {
+    return null;
+  }
+
+  const { data } = await supabase.auth.admin.getUserById(challenge.authUserId);
+  const email = data?.user?.email;
+  return email ? { authUserId: challenge.authUserId, email } : null;
+}
+
+/**
+ * Start setting up an authenticator app during sign-in, for users who must have one
+ */
+export async function beginChallengeEnrollment(
+  token: string
+): Promise<{ success: boolean; enrollment?: MfaEnrollment; error?: string; status?: number }> {
+  const challenge = await getMfaChallenge(token);
+  if (!challenge) {
+    return { success: false, error: 'Your sign-in has expired. Please sign in again.', status: 401 };
+  }
+
+  if (!challenge.enrollmentRequired) {
+    return { success: false, error: 'Two-factor authentication is already set up', status: 409 };
+  }
+
+  const tenant = await getTenantContext(supabase, challenge.authUserId);
+  return beginMfaEnrollment(challenge.authUserId, tenant?.email || '');
+}
+
+/**
+ * Check the second factor and hand over the session held back at sign-in
+ * Users setting up their app during sign-in also get their recovery codes.
+ */
+export async function completeMfaChallenge(
+  token: string,
+  code: string
+): Promise<{
+  success: boolean;
+  authUserId?: string;
+  session?: PendingSession;
+  recoveryCodes?: string[];
+  usedRecoveryCode?: boolean;
+  // Set when the code itself was wrong, so the caller can count it as a failed sign-in
+  codeRejected?: boolean;
+  error?: string;
+  status?: number;
+}> {
+  try {
+    const challenge = await getMfaChallenge(token);
+    if (!challenge) {
+      return { success: false, error: 'Your sign-in has expired. Please sign in again.', status: 401 };
+    }
+
+    let accepted = false;
+    let recoveryCodes: string[] | undefined;
+    let usedRecoveryCode = false;
+
+    if (challenge.enrollmentRequired) {
+      const confirmed = await confirmMfaEnrollment(challenge.authUserId, code);
+      if (!confirmed.success && confirmed.status !== 400) {
+        return { success: false, error: confirmed.error, status: confirmed.status };
+      }
+      accepted = confirmed.success;
+      recoveryCodes = confirmed.recoveryCodes;
+    } else {
+      const verification = await verifyMfaCode(challenge.authUserId, code);
+      accepted = verification.success;
+      usedRecoveryCode = !!verification.usedRecoveryCode;
+    }
+
+    if (!accepted) {
+      await supabase
+        .from('mfa_challenges')
+        .update({ failed_attempts: challenge.failedAttempts + 1 })
+        .eq('id', challenge.id);
+
+      const remaining = MAX_CHALLENGE_ATTEMPTS - challenge.failedAttempts - 1;
+      return remaining > 0
+        ? { success: false, codeRejected: true, error: 'That code is not valid. Please try again.', status: 400 }
+        : { success: false, codeRejected: true, error: 'Too many incorrect codes. Please sign in again.', status: 401 };
+    }
+
+    // Only one request can take the held session
+    const { data: completed } = await supabase
+      .from('mfa_challenges')
+      .update({ completed_at: new Date().toISOString() })
+      .eq('id', challenge.id)
+      .is('completed_at', null)
+      .select('session_encrypted')
+      .maybeSingle();
+
+    if (!completed) {
+      return { success: false, error: 'Your sign-in has expired. Please sign in again.', status: 401 };
+    }
+
+    const session: PendingSession = JSON.parse(decrypt(completed.session_encrypted));
+    await markSessionMfaVerified(challenge.authUserId, session.access_token);
+
+    return {
+      success: true,
+      authUserId: challenge.authUserId,
+      session,
+      recoveryCodes,
+      usedRecoveryCode,
+    };
+  } catch (error) {
+    console.error('Complete MFA challenge error:', error);
+    return { success: false, error: 'Failed to verify code', status: 500 };
+  }
+}
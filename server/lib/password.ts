@@ -2,6 +2,9 @@ import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import { supabase } from './supabase';
 import { sendPasswordResetEmail } from './email';
+import { revokeSessions } from './sessions';
+import { analyzePassword, type PasswordContext } from './passwordStrength';
+import type { PasswordStrength, PasswordStrengthLabel } from '../../shared/types';
 
 // Configuration
 const SALT_ROUNDS = 12;
@@ -19,8 +22,12 @@ const PASSWORD_RULES = {
   requireLowercase: true,
   requireNumber: true,
   requireSpecial: true,
+  // Out of 5, from analyzePassword
+  minScore: 2,
 };
 
+const PASSWORD_STRENGTH_LABELS: PasswordStrengthLabel[] = ['Weak', 'Weak', 'Fair', 'Good', 'Strong', 'Strong'];
+
 /**
  * Hash a password using bcrypt
  */
@@ -40,58 +47,84 @@ export async function verifyPassword(
 
 /**
  * Validate password strength
+ * Besides the character rules, the password is screened against the bundled breached
+ * password list and scored for common words, keyboard patterns and the user's own details.
  */
-export function validatePasswordStrength(password: string): {
-  valid: boolean;
-  errors: string[];
-  score: number;
-} {
+export function validatePasswordStrength(password: string, context: PasswordContext = {}): PasswordStrength {
   const errors: string[] = [];
-  let score = 0;
 
   // Check minimum length
   if (password.length < PASSWORD_RULES.minLength) {
     errors.push(`Password must be at least ${PASSWORD_RULES.minLength} characters`);
-  } else {
-    score += 1;
   }
 
   // Check for uppercase
   if (PASSWORD_RULES.requireUppercase && !/[A-Z]/.test(password)) {
     errors.push('Password must contain at least one uppercase letter');
-  } else {
-    score += 1;
   }
 
   // Check for lowercase
   if (PASSWORD_RULES.requireLowercase && !/[a-z]/.test(password)) {
     errors.push('Password must contain at least one lowercase letter');
-  } else {
-    score += 1;
   }
 
   // Check for number
   if (PASSWORD_RULES.requireNumber && !/[0-9]/.test(password)) {
     errors.push('Password must contain at least one number');
-  } else {
-    score += 1;
   }
 
   // Check for special character
   if (PASSWORD_RULES.requireSpecial && !/[^A-Za-z0-9]/.test(password)) {
     errors.push('Password must contain at least one special character');
-  } else {
-    score += 1;
   }
 
-  // Bonus points for length
-  if (password.length >= 12) score += 1;
-  if (password.length >= 16) score += 1;
+  const analysis = analyzePassword(password, context);
+
+  if (analysis.breached) {
+    errors.unshift('This password has appeared in a data breach. Please choose a different one');
+  } else if (analysis.score < PASSWORD_RULES.minScore) {
+    errors.push(analysis.warning || 'Password is too easy to guess');
+  }
+
+  const valid = errors.length === 0;
 
   return {
-    valid: errors.length === 0,
+    valid,
+    score: analysis.score,
+    label: valid ? PASSWORD_STRENGTH_LABELS[analysis.score] : 'Weak',
     errors,
-    score: Math.min(score, 5), // Max score of 5
+    breached: analysis.breached,
+    feedback: {
+      warning: analysis.warning,
+      suggestions: analysis.suggestions,
+    },
+  };
+}
+
+/**
+ * Load the details a portal user's password is checked against
+ */
+export async function getPasswordContext(portalUserId: string): Promise<PasswordContext> {
+  const { data: portalUser } = await supabase
+    .from('portal_users')
+    .select('contact:contacts(email, first_name, last_name), company:companies(legal_name, dba_name)')
+    .eq('id', portalUserId)
+    .maybeSingle();
+
+  const contact = (Array.isArray(portalUser?.contact) ? portalUser?.contact[0] : portalUser?.contact) as
+    | { email: string; first_name: string; last_name: string }
+    | null
+    | undefined;
+  const company = (Array.isArray(portalUser?.company) ? portalUser?.company[0] : portalUser?.company) as
+    | { legal_name: string; dba_name: string | null }
+    | null
+    | undefined;
+
+  return {
+    email: contact?.email,
+    firstName: contact?.first_name,
+    lastName: contact?.last_name,
+    companyName: [company?.legal_name, company?.dba_name].filter(Boolean).join(' '),
   };
 }
 
@@ -140,6 +173,7 @@ export async function createPasswordResetToken(
       .from('portal_users')
       .select('id, contact:contacts!inner(first_name, last_name, email)')
       .eq('contacts.email', email.toLowerCase())
+      .eq('is_active', true)
       .single();
 
     if (userError || !portalUser) {
@@ -245,7 +279,10 @@ export async function resetPasswordWithToken(
     }
 
     // Validate password strength
-    const passwordValidation = validatePasswordStrength(newPassword);
+    const passwordValidation = validatePasswordStrength(
+      newPassword,
+      await getPasswordContext(validation.userId!)
+    );
     if (!passwordValidation.valid) {
       return { success: false, error: passwordValidation.errors[0] };
     }
@@ -291,6 +328,9 @@ export async function resetPasswordWithToken(
       return { success: false, error: 'Failed to update password' };
     }
 
+    // Sign out every device, in case the reset is because someone else got in
+    await revokeSessions(portalUser.auth_user_id, 'password_reset');
+
     // Mark token as used
     await supabase
       .from('password_reset_tokens')
@@ -313,7 +353,7 @@ export async function setUserPassword(
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // Validate password strength
-    const validation = validatePasswordStrength(password);
+    const validation = validatePasswordStrength(password, await getPasswordContext(userId));
     if (!validation.valid) {
       return { success: false, error: validation.errors[0] };
     }
@@ -379,6 +419,7 @@ export async function verifyUserPassword(
       .from('portal_users')
       .select('id, auth_user_id, password_hash, auth_method, contact:contacts!inner(email)')
       .eq('contacts.email', email.toLowerCase())
+      .eq('is_active', true)
       .single();
 
     if (error || !portalUser) {
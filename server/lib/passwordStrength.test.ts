@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+import { analyzePassword } from './passwordStrength';
+import { validatePasswordStrength } from './password';
+
+const ROOT = path.resolve(import.meta.dirname, '../..');
+
+const patternTypes = (password: string) => analyzePassword(password).patterns.map((pattern) => pattern.type);
+
+describe('validatePasswordStrength', () => {
+  it('rejects a password on the breached list', () => {
+    const result = validatePasswordStrength('Password123!');
+
+    expect(result).toMatchObject({ valid: false, score: 0, breached: true, label: 'Weak' });
+    expect(result.errors[0]).toBe('This password has appeared in a data breach. Please choose a different one');
+  });
+
+  it('rejects a password containing the user\'s own details that would otherwise pass', () => {
+    expect(validatePasswordStrength('Byron$Quest7').valid).toBe(true);
+
+    expect(validatePasswordStrength('Byron$Quest7', { firstName: 'Ada', lastName: 'Byron' }).errors).toEqual([
+      'Passwords containing your name are easy to guess',
+    ]);
+    expect(validatePasswordStrength('Acme-Mutual-9', { companyName: 'Acme Mutual Insurance' }).errors).toEqual([
+      "Passwords containing your company's name are easy to guess",
+    ]);
+    expect(validatePasswordStrength('AdaByron!84', { email: 'ada.byron@acme-mutual.com' }).errors).toEqual([
+      'Passwords containing your email address are easy to guess',
+    ]);
+  });
+
+  it('rejects a keyboard pattern', () => {
+    const result = validatePasswordStrength('Zxcvbnm#4821');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Keyboard patterns like "qwerty" are easy to guess']);
+  });
+
+  it('accepts a long password with no guessable patterns', () => {
+    expect(validatePasswordStrength('Tangerine-Orbit-Glacier-58')).toEqual({
+      valid: true,
+      score: 5,
+      label: 'Strong',
+      errors: [],
+      breached: false,
+      feedback: { warning: null, suggestions: [] },
+    });
+  });
+});
+
+describe('analyzePassword', () => {
+  it('finds the capitalized, year-suffixed variants the breached list is built with', () => {
+    expect(analyzePassword('Summer2024!')).toMatchObject({ breached: true, score: 0 });
+    expect(patternTypes('Summer2024!')).toEqual(['dictionary', 'year']);
+
+    // Outside the years the list covers, the word and year still hold it back
+    expect(analyzePassword('Summer2031!')).toMatchObject({
+      breached: false,
+      score: 0,
+      warning: 'Common words are easy to guess, even with numbers or symbols added',
+    });
+  });
+
+  it('matches common words through substitutions', () => {
+    expect(patternTypes('Tr0ub4dor&P@ssw0rd')).toContain('dictionary');
+  });
+
+  it('finds keyboard runs typed with shift held', () => {
+    expect(analyzePassword('!@#$%^Kite').patterns).toEqual([{ type: 'keyboard', start: 0, end: 6 }]);
+  });
+});
+
+describe('breached password list', () => {
+  it('was generated from the committed source list', () => {
+    const source = fs.readFileSync(path.join(ROOT, 'script/data/common-passwords.txt'), 'utf-8');
+    const generated = fs.readFileSync(path.join(ROOT, 'server/data/breachedPasswords.ts'), 'utf-8');
+    const sourceHash = crypto.createHash('sha256').update(source).digest('hex');
+
+    // Regenerate with: npx tsx script/build-breached-passwords.ts
+    expect(generated.match(/\(sha256 ([0-9a-f]{64})\)/)?.[1]).toBe(sourceHash);
+  });
+});
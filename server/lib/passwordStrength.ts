@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import { BREACHED_PASSWORD_HASHES } from '../data/breachedPasswords';
+
+// Types
+export type PasswordPatternType = 'personal' | 'dictionary' | 'keyboard' | 'sequence' | 'repeat' | 'year';
+
+export interface PasswordPattern {
+  type: PasswordPatternType;
+  // Characters [start, end) of the password
+  start: number;
+  end: number;
+  // What a personal match came from
+  source?: 'email' | 'name' | 'company';
+}
+
+// Who the password is for, so it can be checked for their own details
+export interface PasswordContext {
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  companyName?: string | null;
+}
+
+export interface PasswordAnalysis {
+  // 0-5
+  score: number;
+  breached: boolean;
+  patterns: PasswordPattern[];
+  warning: string | null;
+  suggestions: string[];
+}
+
+// Configuration
+const HASH_PREFIX_LENGTH = 5;
+const MIN_DICTIONARY_WORD_LENGTH = 4;
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+const MIN_KEYBOARD_RUN = 4;
+const MIN_SEQUENCE_RUN = 3;
+// Effective length needed for each score above 0
+const SCORE_THRESHOLDS = [6, 8, 10, 13, 16];
+const MAX_SCORE = SCORE_THRESHOLDS.length;
+
+// How many characters of guessing a pattern is worth, however long it is.
+// Personal details are worth nothing: anyone targeting the account knows them.
+const PATTERN_WEIGHTS: Record<PasswordPatternType, number> = {
+  personal: 0,
+  dictionary: 2,
+  keyboard: 1,
+  sequence: 1,
+  repeat: 1,
+  year: 1,
+};
+
+// Most significant first; the first type found is the one warned about
+const PATTERN_PRIORITY: PasswordPatternType[] = ['personal', 'dictionary', 'keyboard', 'sequence', 'repeat', 'year'];
+
+const PATTERN_WARNINGS: Record<Exclude<PasswordPatternType, 'personal'>, string> = {
+  dictionary: 'Common words are easy to guess, even with numbers or symbols added',
+  keyboard: 'Keyboard patterns like "qwerty" are easy to guess',
+  sequence: 'Sequences like "abc" or "123" are easy to guess',
+  repeat: 'Repeated characters like "aaa" are easy to guess',
+  year: 'Years are easy to guess',
+};
+
+const PERSONAL_WARNINGS: Record<NonNullable<PasswordPattern['source']>, string> = {
+  email: 'Passwords containing your email address are easy to guess',
+  name: 'Passwords containing your name are easy to guess',
+  company: "Passwords containing your company's name are easy to guess",
+};
+
+const PATTERN_SUGGESTIONS: Record<PasswordPatternType, string> = {
+  personal: 'Avoid your name, email address and company name',
+  dictionary: 'Avoid common words, and predictable substitutions like "@" for "a"',
+  keyboard: 'Avoid keyboard patterns and sequences',
+  sequence: 'Avoid keyboard patterns and sequences',
+  repeat: 'Avoid repeated characters',
+  year: 'Avoid years, especially recent ones or ones linked to you',
+};
+
+// Words that turn up most often in breached passwords, plus terms from our own domain
+const DICTIONARY_WORDS = [
+  'password', 'passwort', 'welcome', 'letmein', 'admin', 'administrator', 'login', 'access',
+  'secret', 'private', 'secure', 'security', 'default', 'changeme', 'change', 'guest', 'user',
+  'root', 'test', 'temp', 'pass', 'word', 'master', 'system', 'server', 'hello', 'whatever',
+  'iloveyou', 'love', 'lovely', 'baby', 'angel', 'jesus', 'blessed', 'faith', 'hope', 'peace',
+  'family', 'friend', 'friends', 'happy', 'smile', 'lucky', 'money', 'power', 'freedom',
+  'summer', 'winter', 'spring', 'autumn', 'monday', 'friday', 'sunday', 'january', 'february',
+  'march', 'april', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'sunshine', 'rainbow', 'flower', 'butterfly', 'unicorn', 'princess', 'prince', 'queen', 'king',
+  'star', 'moon', 'dragon', 'monkey', 'tiger', 'eagle', 'falcon', 'phoenix', 'shadow', 'hunter',
+  'killer', 'ranger', 'knight', 'wizard', 'thunder', 'matrix', 'diamond', 'crystal', 'silver',
+  'golden', 'purple', 'orange', 'yellow', 'green', 'black', 'white', 'blue', 'cookie', 'cheese',
+  'chocolate', 'banana', 'apple', 'pizza', 'coffee', 'football', 'baseball', 'basketball',
+  'soccer', 'hockey', 'tennis', 'golf', 'superman', 'batman', 'spiderman', 'starwars', 'pokemon',
+  'pikachu', 'naruto', 'minecraft', 'computer', 'internet', 'mustang', 'ferrari', 'porsche',
+  'mercedes', 'corvette', 'yankees', 'lakers', 'cowboys', 'steelers', 'chelsea', 'arsenal',
+  'liverpool', 'barcelona', 'america', 'london', 'boston', 'chicago', 'dallas', 'texas',
+  'florida', 'canada', 'michael', 'jennifer', 'jessica', 'ashley', 'daniel', 'andrew',
+  'charlie', 'thomas', 'robert', 'jordan', 'taylor', 'matthew', 'joshua', 'william', 'james',
+  'david', 'john', 'chris', 'nicole', 'amanda', 'hannah', 'samantha', 'sarah', 'maggie',
+  'buster', 'tigger', 'pepper', 'ginger', 'bailey', 'buddy', 'company', 'business', 'office',
+  'manager', 'service', 'support', 'account', 'project', 'portal', 'claims', 'claim',
+  'insurance', 'adjuster', 'contractor', 'contract', 'estimate', 'roofing', 'restoration',
+  'construction',
+].filter((word) => word.length >= MIN_DICTIONARY_WORD_LENGTH);
+
+// Common character substitutions, mapped back to the letter they stand in for.
+// "1" is tried as both "i" and "l".
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '1': 'i', '!': 'i',
+  '|': 'l', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z',
+};
+
+// US keyboard rows; each row is offset half a key to the right of the one above
+const KEYBOARD_ROWS = ['1234567890-=', 'qwertyuiop[]', "asdfghjkl;'", 'zxcvbnm,./'];
+const SHIFTED_KEYS: Record<string, string> = {
+  '!': '1', '@': '2', '#': '3', '$': '4', '%': '5', '^': '6', '&': '7', '*': '8', '(': '9',
+  ')': '0', '_': '-', '+': '=', '{': '[', '}': ']', ':': ';', '"': "'", '<': ',', '>': '.',
+  '?': '/',
+};
+
+// Parts of company names that say nothing about the company
+const GENERIC_COMPANY_WORDS = new Set([
+  'the', 'and', 'inc', 'llc', 'ltd', 'corp', 'corporation', 'company', 'incorporated',
+  'limited', 'group', 'holdings', 'services', 'service',
+]);
+
+// Free email providers, whose domain says nothing about the user
+const PUBLIC_EMAIL_DOMAINS = new Set(['gmail', 'googlemail', 'yahoo', 'hotmail', 'outlook', 'live', 'icloud', 'aol', 'proton', 'protonmail']);
+
+let breachedHashes: Map<string, Set<string>> | null = null;
+
+function getBreachedHashes(): Map<string, Set<string>> {
+  if (!breachedHashes) {
+    breachedHashes = new Map();
+    for (const line of BREACHED_PASSWORD_HASHES.split('\n')) {
+      const [prefix, suffixes] = line.split(':');
+      if (prefix && suffixes) {
+        breachedHashes.set(prefix, new Set(suffixes.split(',')));
+      }
+    }
+  }
+  return breachedHashes;
+}
+
+/**
+ * Check a password against the bundled list of breached passwords
+ * Hashes are looked up by their first few characters, the same way as a Pwned Passwords range query.
+ */
+export function isBreachedPassword(password: string): boolean {
+  return [password, password.toLowerCase()].some((candidate) => {
+    const hash = crypto.createHash('sha1').update(candidate).digest('hex').toUpperCase();
+    return !!getBreachedHashes().get(hash.slice(0, HASH_PREFIX_LENGTH))?.has(hash.slice(HASH_PREFIX_LENGTH));
+  });
+}
+
+/**
+ * Lowercase the password, and undo common substitutions so "p@ssw0rd" matches "password"
+ * Every form is the same length as the password, so match positions carry over.
+ */
+function getNormalizedForms(password: string): string[] {
+  const lower = password.toLowerCase();
+  const unleet = (one: string) =>
+    lower.split('').map((char) => (char === '1' ? one : LEET_SUBSTITUTIONS[char] || char)).join('');
+
+  return Array.from(new Set([lower, unleet('i'), unleet('l')]));
+}
+
+function findWords(
+  forms: string[],
+  words: string[],
+  type: PasswordPatternType,
+  source?: PasswordPattern['source']
+): PasswordPattern[] {
+  const patterns: PasswordPattern[] = [];
+  for (const form of forms) {
+    for (const word of words) {
+      for (let start = form.indexOf(word); start !== -1; start = form.indexOf(word, start + 1)) {
+        patterns.push({ type, start, end: start + word.length, source });
+      }
+    }
+  }
+  return patterns;
+}
+
+function getPersonalTokens(context: PasswordContext): [NonNullable<PasswordPattern['source']>, string[]][] {
+  const letters = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+  const words = (value: string) => value.toLowerCase().split(/[^a-z]+/);
+
+  const emailTokens: string[] = [];
+  if (context.email) {
+    const [local, domain = ''] = context.email.toLowerCase().split('@');
+    emailTokens.push(local.replace(/[^a-z0-9]/g, ''), ...words(local));
+    const domainName = domain.split('.')[0];
+    if (domainName && !PUBLIC_EMAIL_DOMAINS.has(domainName)) {
+      emailTokens.push(letters(domainName));
+    }
+  }
+
+  const companyTokens = context.companyName
+    ? [letters(context.companyName), ...words(context.companyName).filter((word) => !GENERIC_COMPANY_WORDS.has(word))]
+    : [];
+
+  const nameTokens = [context.firstName, context.lastName].map((name) => letters(name || ''));
+
+  const usable = (tokens: string[]) => tokens.filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+  return [
+    ['email', usable(emailTokens)],
+    ['name', usable(nameTokens)],
+    ['company', usable(companyTokens)],
+  ];
+}
+
+function areKeysAdjacent(a: string, b: string): boolean {
+  const find = (key: string) => {
+    const row = KEYBOARD_ROWS.findIndex((keys) => keys.includes(key));
+    return row === -1 ? null : { row, col: KEYBOARD_ROWS[row].indexOf(key) };
+  };
+  const from = find(a);
+  const to = find(b);
+  if (!from || !to || a === b) {
+    return false;
+  }
+
+  if (from.row === to.row) {
+    return Math.abs(from.col - to.col) === 1;
+  }
+  // The row below is shifted right, so a key touches the one below it and the one below-left
+  if (to.row === from.row + 1) {
+    return to.col === from.col || to.col === from.col - 1;
+  }
+  if (to.row === from.row - 1) {
+    return to.col === from.col || to.col === from.col + 1;
+  }
+  return false;
+}
+
+/**
+ * Find runs of characters where each one follows the last by the given rule
+ */
+function findRuns(
+  chars: string[],
+  follows: (previous: string, current: string, run: string[]) => boolean,
+  minLength: number,
+  type: PasswordPatternType
+): PasswordPattern[] {
+  const patterns: PasswordPattern[] = [];
+  let start = 0;
+  for (let i = 1; i <= chars.length; i++) {
+    if (i < chars.length && follows(chars[i - 1], chars[i], chars.slice(start, i))) {
+      continue;
+    }
+    if (i - start >= minLength) {
+      patterns.push({ type, start, end: i });
+    }
+    start = i;
+  }
+  return patterns;
+}
+
+function findPatterns(password: string, context: PasswordContext): PasswordPattern[] {
+  const forms = getNormalizedForms(password);
+  const lower = password.toLowerCase();
+  const patterns: PasswordPattern[] = [];
+
+  for (const [source, tokens] of getPersonalTokens(context)) {
+    patterns.push(...findWords(forms, tokens, 'personal', source));
+  }
+
+  patterns.push(...findWords(forms, DICTIONARY_WORDS, 'dictionary'));
+
+  const unshifted = lower.split('').map((char) => SHIFTED_KEYS[char] || char);
+  patterns.push(...findRuns(unshifted, areKeysAdjacent, MIN_KEYBOARD_RUN, 'keyboard'));
+
+  // abc, 123, 987: every step goes the same way by one
+  const isSequenceChar = (char: string) => /[a-z0-9]/.test(char);
+  patterns.push(
+    ...findRuns(
+      lower.split(''),
+      (previous, current, run) => {
+        const step = current.charCodeAt(0) - previous.charCodeAt(0);
+        const firstStep = run.length > 1 ? run[1].charCodeAt(0) - run[0].charCodeAt(0) : step;
+        return isSequenceChar(previous) && isSequenceChar(current) && Math.abs(step) === 1 && step === firstStep;
+      },
+      MIN_SEQUENCE_RUN,
+      'sequence'
+    )
+  );
+
+  // aaa, or a chunk typed more than once; for chunks only the repeats are guessable
+  for (const match of Array.from(lower.matchAll(/(.)\1{2,}|(.{2,}?)\2+/g))) {
+    const start = match.index!;
+    patterns.push({ type: 'repeat', start: match[2] ? start + match[2].length : start, end: start + match[0].length });
+  }
+
+  for (const match of Array.from(password.matchAll(/(?:19|20)\d{2}/g))) {
+    patterns.push({ type: 'year', start: match.index!, end: match.index! + match[0].length });
+  }
+
+  // Keep the longest patterns that don't overlap, preferring personal details on a tie
+  const ranked = patterns.sort(
+    (a, b) =>
+      (b.end - b.start) - (a.end - a.start) || PATTERN_PRIORITY.indexOf(a.type) - PATTERN_PRIORITY.indexOf(b.type)
+  );
+  const chosen: PasswordPattern[] = [];
+  for (const pattern of ranked) {
+    if (chosen.every((other) => pattern.end <= other.start || pattern.start >= other.end)) {
+      chosen.push(pattern);
+    }
+  }
+
+  return chosen.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Estimate how hard a password is to guess
+ * The password is scored on its effective length: characters that are part of a common word,
+ * keyboard pattern, sequence, repeat, year or the user's own details count as a single
+ * character (or two for a word), and passwords in the breached list score 0.
+ */
+export function analyzePassword(password: string, context: PasswordContext = {}): PasswordAnalysis {
+  const breached = isBreachedPassword(password);
+  const patterns = findPatterns(password, context);
+
+  const covered = patterns.reduce((total, pattern) => total + pattern.end - pattern.start, 0);
+  const effectiveLength =
+    password.length - covered + patterns.reduce((total, pattern) => total + PATTERN_WEIGHTS[pattern.type], 0);
+
+  const characterClasses = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter((rule) => rule.test(password)).length;
+
+  let score = SCORE_THRESHOLDS.filter((threshold) => effectiveLength >= threshold).length;
+  if (characterClasses < 3) {
+    score = Math.max(score - 1, 0);
+  }
+  if (breached) {
+    score = 0;
+  }
+
+  // Only warn about patterns that are actually holding the password back, except personal details
+  const personal = patterns.find((pattern) => pattern.type === 'personal');
+  let warning: string | null = null;
+  if (breached) {
+    warning = 'This password has appeared in a data breach';
+  } else if (personal) {
+    warning = PERSONAL_WARNINGS[personal.source!];
+  } else if (score < MAX_SCORE - 1) {
+    const type = PATTERN_PRIORITY.find((type) => patterns.some((pattern) => pattern.type === type));
+    warning = type && type !== 'personal' ? PATTERN_WARNINGS[type] : null;
+  }
+
+  const suggestions: string[] = [];
+  if (breached) {
+    suggestions.push("Choose a password you haven't used anywhere else");
+  }
+  if (score < MAX_SCORE - 1) {
+    suggestions.push('Add more characters, or use a phrase of several unrelated words');
+  }
+  for (const pattern of patterns) {
+    const suggestion = PATTERN_SUGGESTIONS[pattern.type];
+    if (!suggestions.includes(suggestion)) {
+      suggestions.push(suggestion);
+    }
+  }
+
+  return { score, breached, patterns, warning, suggestions };
+}
@@ -0,0 +1,228 @@
+import { supabase } from './supabase';
+import { generateTemporaryPassword, hashPassword } from './password';
+import { sendPortalAccessEmail } from './email';
+import type { PortalAccessEntry, PortalAuthMethod } from '../../shared/types';
+
+// Types
+export interface PortalAccountData {
+  email: string;
+  companyId: string;
+  contactId: string;
+  firstName: string;
+  lastName: string;
+  authMethod: PortalAuthMethod;
+  // Required for password sign-in; stored in Supabase Auth and hashed locally
+  password?: string;
+}
+
+// Long enough to never lapse; lifted again on reactivation
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+/**
+ * Create the Supabase auth user and portal_users row for a contact
+ * If the portal user can't be created the auth user is removed again
+ */
+export async function createPortalAccount(data: PortalAccountData): Promise<{
+  success: boolean;
+  portalUserId?: string;
+  authUserId?: string;
+  error?: string;
+  status?: number;
+}> {
+  const { data: existingPortalUser } = await supabase
+    .from('portal_users')
+    .select('id')
+    .eq('contact_id', data.contactId)
+    .maybeSingle();
+
+  if (existingPortalUser) {
+    return { success: false, error: 'This contact already has a portal account', status: 409 };
+  }
+
+  const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+    email: data.email.toLowerCase(),
+    password: data.password,
+    email_confirm: true,
+    user_metadata: {
+      first_name: data.firstName,
+      last_name: data.lastName,
+    },
+  });
+
+  if (authError || !authData.user) {
+    if (authError?.code === 'email_exists') {
+      return { success: false, error: 'An account already exists for this email', status: 409 };
+    }
+    console.error('Failed to create auth user:', authError);
+    return { success: false, error: 'Failed to create account', status: 500 };
+  }
+
+  const { data: portalUser, error: portalUserError } = await supabase
+    .from('portal_users')
+    .insert({
+      auth_user_id: authData.user.id,
+      company_id: data.companyId,
+      contact_id: data.contactId,
+      is_active: true,
+      auth_method: data.authMethod,
+      password_hash: data.password ? await hashPassword(data.password) : null,
+      password_set_at: data.password ? new Date().toISOString() : null,
+    })
+    .select('id')
+    .single();
+
+  if (portalUserError || !portalUser) {
+    console.error('Failed to create portal user:', portalUserError);
+    await supabase.auth.admin.deleteUser(authData.user.id);
+    return { success: false, error: 'Failed to create account', status: 500 };
+  }
+
+  return { success: true, portalUserId: portalUser.id, authUserId: authData.user.id };
+}
+
+/**
+ * Give a company contact access to the client portal and email them how to sign in.
+ * Password accounts get a temporary password; magic link accounts sign in by email.
+ */
+export async function provisionPortalUser(
+  contactId: string,
+  authMethod: 'magic_link' | 'password'
+): Promise<{
+  success: boolean;
+  portalUserId?: string;
+  emailSent?: boolean;
+  error?: string;
+  status?: number;
+}> {
+  try {
+    const { data: contact } = await supabase
+      .from('contacts')
+      .select('id, email, first_name, last_name, company_id, company:companies(legal_name)')
+      .eq('id', contactId)
+      .maybeSingle();
+
+    if (!contact) {
+      return { success: false, error: 'Contact not found', status: 404 };
+    }
+
+    if (!contact.company_id) {
+      return { success: false, error: 'Contact is not linked to a company', status: 400 };
+    }
+
+    const temporaryPassword = authMethod === 'password' ? generateTemporaryPassword() : undefined;
+
+    const account = await createPortalAccount({
+      email: contact.email,
+      companyId: contact.company_id,
+      contactId: contact.id,
+      firstName: contact.first_name,
+      lastName: contact.last_name,
+      authMethod,
+      password: temporaryPassword,
+    });
+
+    if (!account.success) {
+      return { success: false, error: account.error, status: account.status };
+    }
+
+    const company = (Array.isArray(contact.company) ? contact.company[0] : contact.company) as
+      | { legal_name: string }
+      | null;
+    const appUrl = process.env.APP_URL || 'http://localhost:5000';
+
+    const emailResult = await sendPortalAccessEmail(contact.email, {
+      recipientName: `${contact.first_name} ${contact.last_name}`,
+      companyName: company?.legal_name || 'your company',
+      loginUrl: `${appUrl}/login`,
+      temporaryPassword,
+    });
+
+    if (!emailResult.success) {
+      console.warn('Portal user created but welcome email failed to send:', contact.email);
+    }
+
+    return { success: true, portalUserId: account.portalUserId, emailSent: emailResult.success };
+  } catch (error) {
+    console.error('Provision portal user error:', error);
+    return { success: false, error: 'Failed to create portal user', status: 500 };
+  }
+}
+
+/**
+ * Deactivate or reactivate a portal user. Deactivating bans the auth user, which
+ * revokes their refresh tokens and blocks new sign-ins; requireAuth also rejects
+ * inactive portal users, so access tokens already issued stop working immediately.
+ */
+export async function setPortalUserActive(
+  portalUserId: string,
+  active: boolean
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  try {
+    const { data: portalUser } = await supabase
+      .from('portal_users')
+      .select('id, auth_user_id, is_active')
+      .eq('id', portalUserId)
+      .maybeSingle();
+
+    if (!portalUser) {
+      return { success: false, error: 'Portal user not found', status: 404 };
+    }
+
+    const action = active ? 'reactivate' : 'deactivate';
+
+    if (portalUser.is_active === active) {
+      return { success: false, error: `Portal user is already ${active ? 'active' : 'deactivated'}`, status: 409 };
+    }
+
+    const { error: banError } = await supabase.auth.admin.updateUserById(portalUser.auth_user_id, {
+      ban_duration: active ? 'none' : DEACTIVATED_BAN_DURATION,
+    });
+
+    if (banError) {
+      console.error('Failed to update auth user ban:', banError);
+      return { success: false, error: `Failed to ${action} portal user`, status: 500 };
+    }
+
+    const { error } = await supabase
+      .from('portal_users')
+      .update({ is_active: active, updated_at: new Date().toISOString() })
+      .eq('id', portalUserId);
+
+    if (error) {
+      console.error('Failed to update portal user:', error);
+      return { success: false, error: `Failed to ${action} portal user`, status: 500 };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Set portal user active error:', error);
+    return { success: false, error: 'Failed to update portal user', status: 500 };
+  }
+}
+
+/**
+ * List a company's active contacts with their portal accounts
+ */
+export async function getCompanyPortalAccess(companyId: string): Promise<PortalAccessEntry[]> {
+  try {
+    const { data: contacts, error } = await supabase
+      .from('contacts')
+      .select('id, first_name, last_name, email, title, portal_users(id, is_active, auth_method, password_set_at, created_at)')
+      .eq('company_id', companyId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to get company portal access:', error);
+      return [];
+    }
+
+    return (contacts || []).map(({ portal_users, ...contact }) => ({
+      contact,
+      portal_user: (Array.isArray(portal_users) ? portal_users[0] : portal_users) || null,
+    }));
+  } catch (error) {
+    console.error('Get company portal access error:', error);
+    return [];
+  }
+}
@@ -0,0 +1,282 @@
+import crypto from 'crypto';
+import { supabase } from './supabase';
+
+// Types
+export interface RateLimitEntry {
+  attempts: number;
+  windowStartedAt: number;
+  blockedUntil: number | null;
+}
+
+/**
+ * Where attempt counts are kept
+ * The in-memory store suits a single server; use the Postgres store when several instances
+ * share the traffic so they all see the same counts.
+ */
+export interface RateLimitStore {
+  // Count an attempt, starting a new window if the current one has passed
+  hit(key: string, windowMs: number): Promise<RateLimitEntry>;
+  get(key: string): Promise<RateLimitEntry | null>;
+  block(key: string, until: number): Promise<void>;
+  reset(key: string): Promise<void>;
+  // Drop counters that have neither an open window nor an active block
+  prune(olderThanMs: number): Promise<number>;
+}
+
+export interface RateLimitPolicy {
+  // Prefix for store keys
+  name: string;
+  windowMs: number;
+  // Attempts allowed in a window before backoff starts
+  freeAttempts: number;
+  // Delay after the first attempt over the limit; doubles with each further attempt
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  attempts: number;
+  retryAfterSeconds: number;
+}
+
+// Configuration
+const STORE_TYPE = process.env.AUTH_RATE_LIMIT_STORE || 'memory';
+const MEMORY_STORE_MAX_KEYS = 10000;
+
+/**
+ * Keep counts in this process
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry & { updatedAt: number }>();
+
+  const prune = async (olderThanMs: number): Promise<number> => {
+    const cutoff = Date.now() - olderThanMs;
+    let removed = 0;
+    entries.forEach((entry, key) => {
+      if (entry.updatedAt < cutoff && (!entry.blockedUntil || entry.blockedUntil < Date.now())) {
+        entries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  };
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const existing = entries.get(key);
+
+      if (!existing && entries.size >= MEMORY_STORE_MAX_KEYS) {
+        await prune(windowMs);
+      }
+
+      const entry = existing && existing.windowStartedAt > now - windowMs
+        ? { ...existing, attempts: existing.attempts + 1, updatedAt: now }
+        : { attempts: 1, windowStartedAt: now, blockedUntil: existing?.blockedUntil ?? null, updatedAt: now };
+
+      entries.set(key, entry);
+      return { attempts: entry.attempts, windowStartedAt: entry.windowStartedAt, blockedUntil: entry.blockedUntil };
+    },
+    async get(key) {
+      const entry = entries.get(key);
+      return entry
+        ? { attempts: entry.attempts, windowStartedAt: entry.windowStartedAt, blockedUntil: entry.blockedUntil }
+        : null;
+    },
+    async block(key, until) {
+      const entry = entries.get(key);
+      if (entry) {
+        entry.blockedUntil = until;
+      }
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+    prune,
+  };
+}
+
+function toTime(value: string | null): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
+/**
+ * Keep counts in the auth_rate_limits table
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const { data, error } = await supabase.rpc('hit_auth_rate_limit', {
+        p_key: key,
+        p_window_seconds: Math.ceil(windowMs / 1000),
+      });
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (error || !row) {
+        throw error || new Error('No rate limit row returned');
+      }
+
+      return {
+        attempts: row.attempts,
+        windowStartedAt: toTime(row.window_started_at)!,
+        blockedUntil: toTime(row.blocked_until),
+      };
+    },
+    async get(key) {
+      const { data, error } = await supabase
+        .from('auth_rate_limits')
+        .select('attempts, window_started_at, blocked_until')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data
+        ? {
+            attempts: data.attempts,
+            windowStartedAt: toTime(data.window_started_at)!,
+            blockedUntil: toTime(data.blocked_until),
+          }
+        : null;
+    },
+    async block(key, until) {
+      const { error } = await supabase
+        .from('auth_rate_limits')
+        .update({ blocked_until: new Date(until).toISOString() })
+        .eq('key', key);
+
+      if (error) {
+        throw error;
+      }
+    },
+    async reset(key) {
+      const { error } = await supabase.from('auth_rate_limits').delete().eq('key', key);
+
+      if (error) {
+        throw error;
+      }
+    },
+    async prune(olderThanMs) {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('auth_rate_limits')
+        .delete()
+        .lt('updated_at', new Date(Date.now() - olderThanMs).toISOString())
+        .or(`blocked_until.is.null,blocked_until.lt.${now}`)
+        .select('key');
+
+      if (error) {
+        throw error;
+      }
+
+      return data?.length || 0;
+    },
+  };
+}
+
+let store: RateLimitStore = STORE_TYPE === 'postgres'
+  ? createPostgresRateLimitStore()
+  : createMemoryRateLimitStore();
+
+/**
+ * Replace the limiter store, e.g. with one backed by Redis
+ */
+export function setRateLimitStore(custom: RateLimitStore): void {
+  store = custom;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+// Emails and IP addresses are only stored hashed
+function storeKey(policy: RateLimitPolicy, identifier: string): string {
+  const hash = crypto.createHash('sha256').update(identifier.toLowerCase()).digest('hex');
+  return `${policy.name}:${hash}`;
+}
+
+function secondsUntil(time: number): number {
+  return Math.max(Math.ceil((time - Date.now()) / 1000), 1);
+}
+
+/**
+ * Check whether an identifier is currently held back, without counting an attempt
+ * Store failures let the attempt through so an outage doesn't lock everyone out.
+ */
+export async function checkRateLimit(
+  policy: RateLimitPolicy,
+  identifier: string
+): Promise<RateLimitResult> {
+  try {
+    const entry = await store.get(storeKey(policy, identifier));
+
+    if (entry?.blockedUntil && entry.blockedUntil > Date.now()) {
+      return { allowed: false, attempts: entry.attempts, retryAfterSeconds: secondsUntil(entry.blockedUntil) };
+    }
+
+    return { allowed: true, attempts: entry?.attempts || 0, retryAfterSeconds: 0 };
+  } catch (error) {
+    console.error('Rate limit check error:', error);
+    return { allowed: true, attempts: 0, retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * Count an attempt and, once the free attempts are used, hold the identifier back
+ * for an exponentially growing delay
+ */
+export async function recordRateLimitHit(
+  policy: RateLimitPolicy,
+  identifier: string
+): Promise<RateLimitResult> {
+  try {
+    const key = storeKey(policy, identifier);
+    const entry = await store.hit(key, policy.windowMs);
+
+    if (entry.attempts <= policy.freeAttempts) {
+      return { allowed: true, attempts: entry.attempts, retryAfterSeconds: 0 };
+    }
+
+    const delay = Math.min(
+      policy.backoffBaseMs * 2 ** (entry.attempts - policy.freeAttempts - 1),
+      policy.backoffMaxMs
+    );
+    const blockedUntil = Math.max(Date.now() + delay, entry.blockedUntil || 0);
+    await store.block(key, blockedUntil);
+
+    return { allowed: false, attempts: entry.attempts, retryAfterSeconds: secondsUntil(blockedUntil) };
+  } catch (error) {
+    console.error('Rate limit record error:', error);
+    return { allowed: true, attempts: 0, retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * Check an identifier and count the attempt if it is let through
+ * For requests where every attempt counts, not just failures
+ */
+export async function consumeRateLimit(
+  policy: RateLimitPolicy,
+  identifier: string
+): Promise<RateLimitResult> {
+  const check = await checkRateLimit(policy, identifier);
+  if (!check.allowed) {
+    return check;
+  }
+
+  return recordRateLimitHit(policy, identifier);
+}
+
+/**
+ * Forget an identifier's attempts, e.g. after a successful sign-in
+ */
+export async function resetRateLimit(policy: RateLimitPolicy, identifier: string): Promise<void> {
+  try {
+    await store.reset(storeKey(policy, identifier));
+  } catch (error) {
+    console.error('Rate limit reset error:', error);
+  }
+}
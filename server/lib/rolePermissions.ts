@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import {
+  CONFIGURABLE_CONTACT_ROLES,
+  resolveRolePermissions,
+} from '../../shared/permissions';
+import type {
+  CompanyRolePermissions,
+  ConfigurableContactRole,
+  PortalPermission,
+} from '../../shared/types';
+
+/**
+ * Get the permissions each configurable role has in a company
+ * Roles the primary contact hasn't changed report the defaults
+ */
+export async function getCompanyRolePermissions(companyId: string): Promise<CompanyRolePermissions[]> {
+  const { data: rows, error } = await supabase
+    .from('company_role_permissions')
+    .select('role, permissions')
+    .eq('company_id', companyId);
+
+  if (error) {
+    console.error('Failed to get company role permissions:', error);
+  }
+
+  return CONFIGURABLE_CONTACT_ROLES.map((role) => {
+    const saved = (rows || []).find((row) => row.role === role);
+    return {
+      role,
+      permissions: resolveRolePermissions(role, saved?.permissions || null),
+      customized: !!saved,
+    };
+  });
+}
+
+/**
+ * Save the permissions for one role in a company
+ */
+export async function updateCompanyRolePermissions(
+  companyId: string,
+  role: ConfigurableContactRole,
+  permissions: PortalPermission[],
+  updatedById: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('company_role_permissions')
+    .upsert(
+      {
+        company_id: companyId,
+        role,
+        permissions: resolveRolePermissions(role, permissions),
+        updated_by_id: updatedById,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'company_id,role' }
+    );
+
+  if (error) {
+    console.error('Failed to update company role permissions:', error);
+    return { success: false, error: 'Failed to update permissions' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Return a role to the default permissions
+ */
+export async function resetCompanyRolePermissions(
+  companyId: string,
+  role: ConfigurableContactRole
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('company_role_permissions')
+    .delete()
+    .eq('company_id', companyId)
+    .eq('role', role);
+
+  if (error) {
+    console.error('Failed to reset company role permissions:', error);
+    return { success: false, error: 'Failed to reset permissions' };
+  }
+
+  return { success: true };
+}
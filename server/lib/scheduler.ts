@@ -0,0 +1,150 @@
+import os from 'os';
+import crypto from 'crypto';
+import { supabase } from './supabase';
+
+// Types
+export interface ScheduledJob {
+  // Must match a row in scheduled_jobs, which holds the interval and enabled flag
+  name: string;
+  run: () => Promise<Record<string, unknown>>;
+}
+
+// Configuration
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '60000', 10);
+// How long a claimed job stays locked; a crashed instance's lease lapses after this
+const LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS || '600', 10);
+const RUN_RETENTION_DAYS = parseInt(process.env.JOB_RUN_RETENTION_DAYS || '30', 10);
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+let timer: NodeJS.Timeout | null = null;
+let polling = false;
+let scheduledJobs: ScheduledJob[] = [];
+
+/**
+ * Run a job if this instance can claim it, recording the run and releasing the lease afterwards
+ */
+async function runJob(job: ScheduledJob): Promise<void> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_scheduled_job', {
+    p_name: job.name,
+    p_instance_id: INSTANCE_ID,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (claimError) {
+    console.error(`Failed to claim scheduled job ${job.name}:`, claimError);
+    return;
+  }
+
+  if (!claimed) return;
+
+  const { data: run, error: runError } = await supabase
+    .from('job_runs')
+    .insert({ job_name: job.name, instance_id: INSTANCE_ID })
+    .select('id')
+    .single();
+
+  if (runError) {
+    console.error(`Failed to record run of scheduled job ${job.name}:`, runError);
+  }
+
+  let result: Record<string, unknown> = {};
+  let errorMessage: string | null = null;
+
+  try {
+    result = await job.run();
+  } catch (error) {
+    console.error(`Scheduled job ${job.name} failed:`, error);
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  if (run) {
+    await supabase
+      .from('job_runs')
+      .update({
+        status: errorMessage ? 'failed' : 'succeeded',
+        result,
+        error_message: errorMessage,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+  }
+
+  const { error: releaseError } = await supabase.rpc('release_scheduled_job', {
+    p_name: job.name,
+    p_instance_id: INSTANCE_ID,
+    p_error: errorMessage,
+  });
+
+  if (releaseError) {
+    console.error(`Failed to release scheduled job ${job.name}:`, releaseError);
+  }
+
+  const cutoff = new Date(Date.now() - RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await supabase
+    .from('job_runs')
+    .delete()
+    .eq('job_name', job.name)
+    .lt('started_at', cutoff.toISOString());
+}
+
+/**
+ * Check every job once; skipped if the previous poll is still running
+ */
+async function poll(jobs: ScheduledJob[]): Promise<void> {
+  if (polling) return;
+  polling = true;
+
+  try {
+    for (const job of jobs) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('Scheduler poll error:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start polling for due jobs. Job state lives in the database, so any number of
+ * server instances can run the scheduler and each job still runs once per interval.
+ */
+export function startScheduler(jobs: ScheduledJob[]): void {
+  if (timer) return;
+
+  scheduledJobs = jobs;
+  timer = setInterval(() => void poll(jobs), POLL_INTERVAL_MS);
+  timer.unref();
+  void poll(jobs);
+}
+
+/**
+ * Make a job due now, for work a request has queued, and poll straight away. Whichever
+ * instance claims the job first runs it; without a running scheduler it waits for one.
+ */
+export async function runJobSoon(name: string): Promise<void> {
+  const { error } = await supabase
+    .from('scheduled_jobs')
+    .update({ next_run_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('name', name);
+
+  if (error) {
+    console.error(`Failed to schedule job ${name}:`, error);
+    return;
+  }
+
+  if (timer) {
+    void poll(scheduledJobs);
+  }
+}
+
+/**
+ * Stop polling (a job already in progress finishes on its own)
+ */
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
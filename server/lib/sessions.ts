@@ -0,0 +1,258 @@
+import { supabase, getTokenSessionId } from './supabase';
+import type { LoginAttemptContext } from './loginProtection';
+import type { UserSession } from '../../shared/types';
+
+// Types
+export type SessionRevokedReason = 'signed_out' | 'user_revoked' | 'staff_revoked' | 'password_reset';
+
+// Configuration
+// last_seen_at is only written this often, so most requests just read the registry row
+const LAST_SEEN_INTERVAL_MINUTES = 5;
+const SESSION_RETENTION_DAYS = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Summarize a user agent as "Browser on OS" for the sessions list
+ */
+export function describeDevice(userAgent: string | null): string | null {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Add a new sign-in to the registry
+ * Called when the session's cookies are first set; repeat calls for the same session are ignored.
+ */
+export async function registerSession(
+  authUserId: string,
+  accessToken: string,
+  context: LoginAttemptContext
+): Promise<void> {
+  const sessionId = getTokenSessionId(accessToken);
+  if (!sessionId) {
+    return;
+  }
+
+  const { error } = await supabase.from('user_sessions').upsert(
+    {
+      session_id: sessionId,
+      auth_user_id: authUserId,
+      ip_address: context.ipAddress,
+      user_agent: context.userAgent,
+      device: describeDevice(context.userAgent),
+    },
+    { onConflict: 'session_id', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error('Failed to register session:', error);
+  }
+}
+
+/**
+ * Check that a session hasn't been revoked and note that it's in use
+ * Sessions that were never registered, e.g. from before the registry existed, are added here.
+ */
+export async function isSessionActive(
+  authUserId: string,
+  accessToken: string,
+  context: LoginAttemptContext
+): Promise<boolean> {
+  const sessionId = getTokenSessionId(accessToken);
+  if (!sessionId) {
+    return true;
+  }
+
+  const { data: session } = await supabase
+    .from('user_sessions')
+    .select('revoked_at, last_seen_at')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (!session) {
+    await registerSession(authUserId, accessToken, context);
+    return true;
+  }
+
+  if (session.revoked_at) {
+    return false;
+  }
+
+  if (new Date(session.last_seen_at).getTime() < Date.now() - LAST_SEEN_INTERVAL_MINUTES * MINUTE_MS) {
+    await supabase
+      .from('user_sessions')
+      .update({ last_seen_at: new Date().toISOString(), ip_address: context.ipAddress })
+      .eq('session_id', sessionId);
+  }
+
+  return true;
+}
+
+/**
+ * Get a user's active sessions, most recently used first
+ */
+export async function listSessions(authUserId: string, currentAccessToken?: string): Promise<UserSession[]> {
+  const currentSessionId = currentAccessToken ? getTokenSessionId(currentAccessToken) : null;
+
+  const { data: sessions, error } = await supabase
+    .from('user_sessions')
+    .select('session_id, device, ip_address, user_agent, created_at, last_seen_at')
+    .eq('auth_user_id', authUserId)
+    .is('revoked_at', null)
+    .order('last_seen_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (sessions || []).map((session) => ({
+    ...session,
+    is_current: session.session_id === currentSessionId,
+  }));
+}
+
+/**
+ * Sign a user out of some or all of their sessions
+ * Leave sessionIds unset to end every session, optionally keeping exceptAccessToken's.
+ */
+export async function revokeSessions(
+  authUserId: string,
+  reason: SessionRevokedReason,
+  options: { sessionIds?: string[]; exceptAccessToken?: string; revokedById?: string } = {}
+): Promise<{ success: boolean; revoked?: number; error?: string }> {
+  const { data: revoked, error } = await supabase.rpc('revoke_user_sessions', {
+    p_auth_user_id: authUserId,
+    p_reason: reason,
+    p_session_ids: options.sessionIds || null,
+    p_except_session_id: options.exceptAccessToken ? getTokenSessionId(options.exceptAccessToken) : null,
+    p_revoked_by: options.revokedById || null,
+  });
+
+  if (error) {
+    console.error('Failed to revoke sessions:', error);
+    return { success: false, error: 'Failed to sign out sessions' };
+  }
+
+  return { success: true, revoked: revoked ?? 0 };
+}
+
+/**
+ * Sign a user out of one of their sessions
+ */
+export async function revokeSession(
+  authUserId: string,
+  sessionId: string,
+  reason: SessionRevokedReason,
+  revokedById?: string
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  const result = await revokeSessions(authUserId, reason, { sessionIds: [sessionId], revokedById });
+  if (!result.success) {
+    return { success: false, error: result.error, status: 500 };
+  }
+
+  if (!result.revoked) {
+    return { success: false, error: 'Session not found', status: 404 };
+  }
+
+  return { success: true };
+}
+
+async function getPortalUserAuthId(portalUserId: string): Promise<string | null> {
+  const { data: portalUser } = await supabase
+    .from('portal_users')
+    .select('auth_user_id')
+    .eq('id', portalUserId)
+    .maybeSingle();
+
+  return portalUser?.auth_user_id || null;
+}
+
+/**
+ * Get a portal user's active sessions, for staff
+ */
+export async function listPortalUserSessions(
+  portalUserId: string
+): Promise<{ success: boolean; sessions?: UserSession[]; error?: string; status?: number }> {
+  const authUserId = await getPortalUserAuthId(portalUserId);
+  if (!authUserId) {
+    return { success: false, error: 'Portal user not found', status: 404 };
+  }
+
+  return { success: true, sessions: await listSessions(authUserId) };
+}
+
+/**
+ * Sign a portal user out of one session, or all of them when sessionId is unset
+ */
+export async function revokePortalUserSessions(
+  portalUserId: string,
+  revokedById: string,
+  sessionId?: string
+): Promise<{ success: boolean; revoked?: number; error?: string; status?: number }> {
+  const authUserId = await getPortalUserAuthId(portalUserId);
+  if (!authUserId) {
+    return { success: false, error: 'Portal user not found', status: 404 };
+  }
+
+  if (sessionId) {
+    const result = await revokeSession(authUserId, sessionId, 'staff_revoked', revokedById);
+    return result.success ? { success: true, revoked: 1 } : result;
+  }
+
+  const result = await revokeSessions(authUserId, 'staff_revoked', { revokedById });
+  return result.success ? result : { ...result, status: 500 };
+}
+
+/**
+ * End the session an access token belongs to, for sign-out
+ */
+export async function revokeCurrentSession(authUserId: string, accessToken: string): Promise<void> {
+  const sessionId = getTokenSessionId(accessToken);
+  if (sessionId) {
+    await revokeSessions(authUserId, 'signed_out', { sessionIds: [sessionId] });
+  }
+}
+
+/**
+ * Delete registry rows for sessions that were revoked or haven't been used for a while
+ */
+export async function pruneSessions(): Promise<{ pruned: number }> {
+  const cutoff = new Date(Date.now() - SESSION_RETENTION_DAYS * 24 * 60 * MINUTE_MS).toISOString();
+
+  const { data: pruned, error } = await supabase
+    .from('user_sessions')
+    .delete()
+    .or(`revoked_at.lt.${cutoff},last_seen_at.lt.${cutoff}`)
+    .select('session_id');
+
+  if (error) {
+    throw error;
+  }
+
+  return { pruned: pruned?.length || 0 };
+}
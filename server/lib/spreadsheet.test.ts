@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import ExcelJS from 'exceljs';
+import { readSpreadsheetRows } from './spreadsheet';
+
+async function xlsx(build: (workbook: ExcelJS.Workbook) => void): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  build(workbook);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+describe('readSpreadsheetRows', () => {
+  it('reads CSV files', async () => {
+    expect(await readSpreadsheetRows(Buffer.from('Email,Company\nada@acme.com,Acme\n'), 'invites.CSV')).toEqual([
+      ['Email', 'Company'],
+      ['ada@acme.com', 'Acme'],
+    ]);
+  });
+
+  it('reads the first worksheet of an Excel file as text', async () => {
+    const buffer = await xlsx((workbook) => {
+      const sheet = workbook.addWorksheet('Invites');
+      sheet.addRow(['Email', 'Company Name', 'Expiration Days']);
+      sheet.addRow([{ text: 'ada@acme.com', hyperlink: 'mailto:ada@acme.com' }, 'Acme', 14]);
+      sheet.addRow(['grace@navy.mil', 'Navy', { formula: '7*2', result: 14 }]);
+      workbook.addWorksheet('Notes').addRow(['Not read']);
+    });
+
+    expect(await readSpreadsheetRows(buffer, 'invites.xlsx')).toEqual([
+      ['Email', 'Company Name', 'Expiration Days'],
+      ['ada@acme.com', 'Acme', '14'],
+      ['grace@navy.mil', 'Navy', '14'],
+    ]);
+  });
+
+  it('keeps blank rows so row positions match the spreadsheet', async () => {
+    const buffer = await xlsx((workbook) => {
+      const sheet = workbook.addWorksheet('Invites');
+      sheet.getCell('A1').value = 'Email';
+      sheet.getCell('A3').value = 'ada@acme.com';
+    });
+
+    expect(await readSpreadsheetRows(buffer, 'invites.xlsx')).toEqual([['Email'], [], ['ada@acme.com']]);
+  });
+
+  it('rejects a file that is not really an Excel workbook', async () => {
+    await expect(readSpreadsheetRows(Buffer.from('Email\nada@acme.com'), 'invites.xlsx')).rejects.toThrow();
+  });
+});
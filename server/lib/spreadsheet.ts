@@ -0,0 +1,35 @@
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { parseCsv } from './csv';
+
+/**
+ * Read the rows of an uploaded CSV or Excel (.xlsx) file as text cells
+ * Excel files are read from their first worksheet. Every row up to the last one with data is
+ * returned, blank rows included, so row positions match the spreadsheet.
+ */
+export async function readSpreadsheetRows(buffer: Buffer, fileName: string): Promise<string[][]> {
+  if (path.extname(fileName).toLowerCase() !== '.xlsx') {
+    return parseCsv(buffer.toString('utf8'));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      // Formatted as Excel shows it, e.g. formula results and hyperlink text rather than objects
+      cells.push(row.getCell(column).text);
+    }
+    rows.push(cells);
+  }
+
+  return rows;
+}
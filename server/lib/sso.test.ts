@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SignedXml } from 'xml-crypto';
+
+const db = await vi.hoisted(async () => {
+  process.env.MFA_ENCRYPTION_KEY = 'test-encryption-key';
+  const { createFakeSupabase } = await import('../tests/fakeSupabase');
+  return createFakeSupabase();
+});
+
+vi.mock('./supabase', () => ({ supabase: db.client, getTokenSessionId: () => 'session-1' }));
+vi.mock('./portalUsers', () => ({ createPortalAccount: vi.fn() }));
+vi.mock('./loginProtection', () => ({ logSecurityEvent: vi.fn() }));
+
+import type { Row } from '../tests/fakeSupabase';
+import { createPortalAccount } from './portalUsers';
+import { logSecurityEvent } from './loginProtection';
+import { completeOidcLogin, completeSamlLogin, completeSsoSignIn, getServiceProviderDetails } from './sso';
+
+const context = { ipAddress: '203.0.113.7', userAgent: 'vitest' };
+const idpEntityId = 'https://idp.example.com';
+
+const connection = (overrides: Row) => ({
+  company_id: 'company-a',
+  name: 'Acme SSO',
+  email_domains: ['acme.com'],
+  is_active: true,
+  oidc_issuer: null,
+  oidc_client_id: null,
+  oidc_client_secret_encrypted: null,
+  saml_entity_id: null,
+  saml_sso_url: null,
+  saml_certificates: null,
+  ...overrides,
+});
+
+const rsaKeyPair = () =>
+  crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+
+const idpKey = rsaKeyPair();
+const otherKey = rsaKeyPair();
+
+// A SAML response to the sign-in started with saml_request_id "_request-1", as an IdP would post it
+function samlResponse(email: string, privateKey: string | null): string {
+  const { samlAcsUrl, samlEntityId } = getServiceProviderDetails('saml-1');
+  const now = Date.now();
+  const instant = (offsetMs: number) => new Date(now + offsetMs).toISOString();
+
+  const xml =
+    '<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion"' +
+    ` ID="_response-1" Version="2.0" IssueInstant="${instant(0)}" Destination="${samlAcsUrl}" InResponseTo="_request-1">` +
+    `<saml:Issuer>${idpEntityId}</saml:Issuer>` +
+    '<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>' +
+    `<saml:Assertion ID="_assertion-1" Version="2.0" IssueInstant="${instant(0)}">` +
+    `<saml:Issuer>${idpEntityId}</saml:Issuer>` +
+    '<saml:Subject>' +
+    `<saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${email}</saml:NameID>` +
+    '<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">' +
+    `<saml:SubjectConfirmationData InResponseTo="_request-1" NotOnOrAfter="${instant(300000)}" Recipient="${samlAcsUrl}"/>` +
+    '</saml:SubjectConfirmation>' +
+    '</saml:Subject>' +
+    `<saml:Conditions NotBefore="${instant(-60000)}" NotOnOrAfter="${instant(300000)}">` +
+    `<saml:AudienceRestriction><saml:Audience>${samlEntityId}</saml:Audience></saml:AudienceRestriction>` +
+    '</saml:Conditions>' +
+    `<saml:AuthnStatement AuthnInstant="${instant(0)}"><saml:AuthnContext>` +
+    '<saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef>' +
+    '</saml:AuthnContext></saml:AuthnStatement>' +
+    '</saml:Assertion>' +
+    '</samlp:Response>';
+
+  if (!privateKey) {
+    return xml;
+  }
+
+  const signature = new SignedXml({
+    privateKey,
+    signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+    canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+  });
+  signature.addReference({
+    xpath: "//*[local-name(.)='Assertion']",
+    transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#'],
+    digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+  });
+  signature.computeSignature(xml, {
+    location: { reference: "//*[local-name(.)='Assertion']/*[local-name(.)='Issuer']", action: 'after' },
+  });
+  return signature.getSignedXml();
+}
+
+// browserState is the sso-state cookie the browser sends back with the response
+const postSamlResponse = (xml: string, browserState: string | undefined) =>
+  completeSamlLogin(
+    'saml-1',
+    { SAMLResponse: Buffer.from(xml).toString('base64'), RelayState: 'relay-state' },
+    browserState
+  );
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('completeSamlLogin', () => {
+  beforeEach(() => {
+    db.reset({
+      sso_connections: [
+        connection({
+          id: 'saml-1',
+          protocol: 'saml',
+          saml_entity_id: idpEntityId,
+          saml_sso_url: `${idpEntityId}/sso`,
+          saml_certificates: [idpKey.publicKey],
+        }),
+      ],
+      sso_login_states: [
+        {
+          id: 'state-1',
+          connection_id: 'saml-1',
+          state_hash: crypto.createHash('sha256').update('relay-state').digest('hex'),
+          saml_request_id: '_request-1',
+          oidc_nonce: null,
+          oidc_code_verifier: null,
+          created_at: new Date().toISOString(),
+          expires_at: new Date(Date.now() + 600000).toISOString(),
+          consumed_at: null,
+        },
+      ],
+    });
+  });
+
+  it('reads the identity from an assertion signed by the connection\'s certificate', async () => {
+    const result = await postSamlResponse(samlResponse('Ada@Acme.com', idpKey.privateKey), 'relay-state');
+
+    expect(result).toEqual({
+      success: true,
+      connectionId: 'saml-1',
+      identity: { subject: 'Ada@Acme.com', email: 'ada@acme.com', firstName: null, lastName: null },
+    });
+  });
+
+  it('rejects an assertion signed by another key', async () => {
+    const result = await postSamlResponse(samlResponse('ada@acme.com', otherKey.privateKey), 'relay-state');
+
+    expect(result).toEqual({ success: false, error: 'Single sign-on failed. Please try again.' });
+  });
+
+  it('rejects an assertion changed after it was signed', async () => {
+    const forged = samlResponse('ada@acme.com', idpKey.privateKey).replace('>ada@acme.com<', '>eve@acme.com<');
+
+    expect(await postSamlResponse(forged, 'relay-state')).toEqual({
+      success: false,
+      error: 'Single sign-on failed. Please try again.',
+    });
+  });
+
+  it('rejects an unsigned assertion', async () => {
+    expect(await postSamlResponse(samlResponse('ada@acme.com', null), 'relay-state')).toMatchObject({ success: false });
+  });
+
+  it('rejects a response posted by a browser that did not start the sign-in', async () => {
+    const xml = samlResponse('ada@acme.com', idpKey.privateKey);
+
+    expect(await postSamlResponse(xml, undefined)).toMatchObject({ success: false });
+    expect(await postSamlResponse(xml, 'attacker-relay-state')).toMatchObject({ success: false });
+    expect(db.tables.sso_login_states[0].consumed_at).toBeNull();
+  });
+
+  it('only accepts a response once', async () => {
+    const xml = samlResponse('ada@acme.com', idpKey.privateKey);
+
+    expect(await postSamlResponse(xml, 'relay-state')).toMatchObject({ success: true });
+    expect(await postSamlResponse(xml, 'relay-state')).toMatchObject({ success: false });
+  });
+});
+
+describe('completeOidcLogin', () => {
+  it('rejects a callback from a browser that did not start the sign-in', async () => {
+    db.reset({
+      sso_login_states: [
+        {
+          id: 'state-1',
+          connection_id: 'oidc-1',
+          state_hash: crypto.createHash('sha256').update('oidc-state').digest('hex'),
+          created_at: new Date().toISOString(),
+          expires_at: new Date(Date.now() + 600000).toISOString(),
+          consumed_at: null,
+        },
+      ],
+    });
+
+    const result = await completeOidcLogin({ code: 'authorization-code', state: 'oidc-state' }, undefined);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Your sign-in has expired. Please start again from the login page.',
+    });
+    expect(db.tables.sso_login_states[0].consumed_at).toBeNull();
+  });
+});
+
+describe('completeSsoSignIn', () => {
+  const identity = { subject: 'idp-user-1', email: 'ada@acme.com', firstName: 'Ada', lastName: 'Lovelace' };
+
+  beforeEach(() => {
+    db.reset({
+      sso_connections: [connection({ id: 'oidc-1', protocol: 'oidc' })],
+      contacts: [],
+      portal_users: [],
+      'auth.users': [{ id: 'auth-new', email: 'ada@acme.com' }],
+      sso_identities: [],
+    });
+    vi.mocked(createPortalAccount).mockResolvedValue({
+      success: true,
+      portalUserId: 'portal-new',
+      authUserId: 'auth-new',
+    });
+  });
+
+  it('provisions a contact and portal account on the first sign-in', async () => {
+    const result = await completeSsoSignIn('oidc-1', identity, context);
+
+    expect(result).toMatchObject({ success: true, authUserId: 'auth-new' });
+    expect(db.tables.contacts).toEqual([
+      expect.objectContaining({ company_id: 'company-a', email: 'ada@acme.com', first_name: 'Ada', last_name: 'Lovelace' }),
+    ]);
+    expect(createPortalAccount).toHaveBeenCalledWith({
+      email: 'ada@acme.com',
+      companyId: 'company-a',
+      contactId: db.tables.contacts[0].id,
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      authMethod: 'sso',
+    });
+    expect(db.tables.sso_identities).toEqual([
+      expect.objectContaining({ connection_id: 'oidc-1', subject: 'idp-user-1', portal_user_id: 'portal-new' }),
+    ]);
+    expect(logSecurityEvent).toHaveBeenCalledWith('sso_user_provisioned', 'ada@acme.com', context, expect.anything());
+  });
+
+  it('gives an existing contact at the company a portal account', async () => {
+    db.tables.contacts.push({ id: 'contact-1', company_id: 'company-a', email: 'Ada@Acme.com', first_name: 'Ada', last_name: 'L.' });
+
+    expect(await completeSsoSignIn('oidc-1', identity, context)).toMatchObject({ success: true });
+    expect(db.tables.contacts).toHaveLength(1);
+    expect(createPortalAccount).toHaveBeenCalledWith(expect.objectContaining({ contactId: 'contact-1' }));
+  });
+
+  it.each(['ada@example.com', 'ada@acme.com.example.com', 'ada@sub.acme.com'])(
+    'refuses %s, which is not on the connection\'s domains',
+    async (email) => {
+      const result = await completeSsoSignIn('oidc-1', { ...identity, email }, context);
+
+      expect(result).toEqual({ success: false, error: `${email} is not on a domain managed by Acme SSO` });
+      expect(createPortalAccount).not.toHaveBeenCalled();
+      expect(db.tables.contacts).toEqual([]);
+      expect(db.tables.sso_identities).toEqual([]);
+      expect(logSecurityEvent).toHaveBeenCalledWith('sso_login_failed', email, context, expect.anything());
+    }
+  );
+
+  it('refuses an email that belongs to a contact at another company', async () => {
+    db.tables.contacts.push({ id: 'contact-b', company_id: 'company-b', email: 'ada@acme.com', first_name: 'Ada', last_name: 'L.' });
+
+    expect(await completeSsoSignIn('oidc-1', identity, context)).toMatchObject({ success: false });
+    expect(createPortalAccount).not.toHaveBeenCalled();
+  });
+});
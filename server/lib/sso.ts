@@ -0,0 +1,967 @@
+import crypto from 'crypto';
+import { Issuer, generators, type BaseClient, type CallbackParamsType } from 'openid-client';
+import { SAML, ValidateInResponseTo, type CacheProvider, type Profile } from '@node-saml/node-saml';
+import { DOMParser } from '@xmldom/xmldom';
+import type { Session } from '@supabase/supabase-js';
+import { supabase, getTokenSessionId } from './supabase';
+import { encrypt, decrypt } from './encryption';
+import { createPortalAccount } from './portalUsers';
+import { logSecurityEvent, type LoginAttemptContext } from './loginProtection';
+import type { TenantContext } from './tenant';
+import type { SsoConnection, SsoConnectionDetails, SsoProtocol, SsoServiceProviderDetails } from '../../shared/types';
+import type { CreateSsoConnectionInput, UpdateSsoConnectionInput } from '../../shared/validation';
+
+// Types
+export interface SsoIdentity {
+  // OIDC sub claim or SAML NameID
+  subject: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+interface SsoConnectionRecord extends SsoConnection {
+  oidc_client_secret_encrypted: string | null;
+  saml_certificates: string[] | null;
+}
+
+interface SsoLoginState {
+  id: string;
+  connection_id: string;
+  oidc_nonce: string | null;
+  oidc_code_verifier: string | null;
+  saml_request_id: string | null;
+  created_at: string;
+}
+
+interface SamlMetadata {
+  entityId: string;
+  ssoUrl: string;
+  certificates: string[];
+}
+
+// Configuration
+const LOGIN_STATE_MINUTES = 10;
+const DISCOVERY_CACHE_MINUTES = 60;
+// Allowance for clock differences between us and the identity provider
+const SAML_CLOCK_SKEW_MS = 60 * 1000;
+
+const CONNECTION_COLUMNS =
+  'id, company_id, protocol, name, email_domains, is_active, oidc_issuer, oidc_client_id, saml_entity_id, saml_sso_url, created_at, updated_at';
+
+const SAML_METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const XML_DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const SAML_REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+const SAML_EMAIL_NAME_ID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+// Attribute names IdPs commonly use for email and names in SAML assertions
+const SAML_EMAIL_ATTRIBUTES = [
+  'email',
+  'mail',
+  'urn:oid:0.9.2342.19200300.100.1.3',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+];
+const SAML_FIRST_NAME_ATTRIBUTES = [
+  'firstName',
+  'givenName',
+  'urn:oid:2.5.4.42',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+];
+const SAML_LAST_NAME_ATTRIBUTES = [
+  'lastName',
+  'surname',
+  'sn',
+  'urn:oid:2.5.4.4',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+];
+
+const MINUTE_MS = 60 * 1000;
+
+// Discovery documents rarely change, so each issuer is looked up at most once an hour
+const issuerCache = new Map<string, { issuer: Issuer<BaseClient>; fetchedAt: number }>();
+
+function hashState(state: string): string {
+  return crypto.createHash('sha256').update(state).digest('hex');
+}
+
+/**
+ * Whether a callback's state is the one handed to this browser when it started the sign-in
+ * Without this, anyone could start a sign-in and have someone else's browser finish it,
+ * signing them in to the attacker's account.
+ */
+function isBrowserState(state: string, browserState: string | undefined): boolean {
+  if (!browserState) {
+    return false;
+  }
+  const expected = Buffer.from(hashState(state));
+  const actual = Buffer.from(hashState(browserState));
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+export function getEmailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).trim().toLowerCase();
+}
+
+/**
+ * The URLs the customer's identity provider needs to trust the portal
+ */
+export function getServiceProviderDetails(connectionId: string): SsoServiceProviderDetails {
+  const appUrl = process.env.APP_URL || 'http://localhost:5000';
+  return {
+    oidcRedirectUri: `${appUrl}/api/auth/sso/oidc/callback`,
+    samlAcsUrl: `${appUrl}/api/auth/sso/saml/${connectionId}/acs`,
+    samlEntityId: `${appUrl}/api/auth/sso/saml/${connectionId}/metadata`,
+    samlMetadataUrl: `${appUrl}/api/auth/sso/saml/${connectionId}/metadata`,
+  };
+}
+
+async function getConnectionRecord(connectionId: string): Promise<SsoConnectionRecord | null> {
+  const { data: connection } = await supabase
+    .from('sso_connections')
+    .select(`${CONNECTION_COLUMNS}, oidc_client_secret_encrypted, saml_certificates`)
+    .eq('id', connectionId)
+    .maybeSingle();
+
+  return connection;
+}
+
+// ============================================
+// IDENTITY PROVIDER SETUP
+// ============================================
+
+/**
+ * Read the entity ID, sign-in URL and signing certificates from IdP metadata
+ */
+export function parseSamlMetadata(xml: string): { metadata?: SamlMetadata; error?: string } {
+  const parseErrors: string[] = [];
+  const document = new DOMParser({
+    errorHandler: {
+      warning: () => undefined,
+      error: (message) => parseErrors.push(message),
+      fatalError: (message) => parseErrors.push(message),
+    },
+  }).parseFromString(xml, 'text/xml');
+
+  if (parseErrors.length > 0 || !document?.documentElement) {
+    return { error: 'The SAML metadata is not valid XML' };
+  }
+
+  // Metadata may hold several entities; use the first that is an identity provider
+  const entities = Array.from(document.getElementsByTagNameNS(SAML_METADATA_NS, 'EntityDescriptor'));
+  const entity = entities.find(
+    (candidate) => candidate.getElementsByTagNameNS(SAML_METADATA_NS, 'IDPSSODescriptor').length > 0
+  );
+  if (!entity) {
+    return { error: 'The SAML metadata does not describe an identity provider' };
+  }
+
+  const entityId = entity.getAttribute('entityID');
+  const descriptor = entity.getElementsByTagNameNS(SAML_METADATA_NS, 'IDPSSODescriptor')[0];
+
+  const ssoService = Array.from(descriptor.getElementsByTagNameNS(SAML_METADATA_NS, 'SingleSignOnService')).find(
+    (service) => service.getAttribute('Binding') === SAML_REDIRECT_BINDING
+  );
+
+  const certificates = Array.from(descriptor.getElementsByTagNameNS(SAML_METADATA_NS, 'KeyDescriptor'))
+    .filter((key) => !key.getAttribute('use') || key.getAttribute('use') === 'signing')
+    .flatMap((key) => Array.from(key.getElementsByTagNameNS(XML_DSIG_NS, 'X509Certificate')))
+    .map((certificate) => (certificate.textContent || '').replace(/\s+/g, ''))
+    .filter(Boolean)
+    .map((certificate) =>
+      `-----BEGIN CERTIFICATE-----\n${certificate.match(/.{1,64}/g)!.join('\n')}\n-----END CERTIFICATE-----`
+    );
+
+  if (!entityId) {
+    return { error: 'The SAML metadata has no entity ID' };
+  }
+  if (!ssoService?.getAttribute('Location')) {
+    return { error: 'The SAML metadata has no HTTP-Redirect sign-in endpoint' };
+  }
+  if (certificates.length === 0) {
+    return { error: 'The SAML metadata has no signing certificate' };
+  }
+
+  return { metadata: { entityId, ssoUrl: ssoService.getAttribute('Location')!, certificates } };
+}
+
+async function discoverIssuer(issuerUrl: string): Promise<Issuer<BaseClient>> {
+  const cached = issuerCache.get(issuerUrl);
+  if (cached && cached.fetchedAt > Date.now() - DISCOVERY_CACHE_MINUTES * MINUTE_MS) {
+    return cached.issuer;
+  }
+
+  const issuer = await Issuer.discover(issuerUrl);
+  issuerCache.set(issuerUrl, { issuer, fetchedAt: Date.now() });
+  return issuer;
+}
+
+async function getOidcClient(connection: SsoConnectionRecord): Promise<BaseClient> {
+  const issuer = await discoverIssuer(connection.oidc_issuer!);
+  return new issuer.Client({
+    client_id: connection.oidc_client_id!,
+    client_secret: connection.oidc_client_secret_encrypted ? decrypt(connection.oidc_client_secret_encrypted) : undefined,
+    redirect_uris: [getServiceProviderDetails(connection.id).oidcRedirectUri],
+    response_types: ['code'],
+  });
+}
+
+/**
+ * Build the SAML service provider for a connection
+ * Each sign-in gets its own instance so the expected request ID comes from the stored login state.
+ */
+function createSamlClient(
+  connection: SsoConnectionRecord,
+  options: { requestId?: string; loginState?: SsoLoginState } = {}
+): SAML {
+  const serviceProvider = getServiceProviderDetails(connection.id);
+
+  const cacheProvider: CacheProvider = {
+    async saveAsync(key, value) {
+      return { value, createdAt: Date.now() };
+    },
+    async getAsync(key) {
+      return options.loginState && key === options.loginState.saml_request_id
+        ? options.loginState.created_at
+        : null;
+    },
+    async removeAsync() {
+      return null;
+    },
+  };
+
+  return new SAML({
+    entryPoint: connection.saml_sso_url || undefined,
+    issuer: serviceProvider.samlEntityId,
+    callbackUrl: serviceProvider.samlAcsUrl,
+    audience: serviceProvider.samlEntityId,
+    idpCert: connection.saml_certificates || [],
+    idpIssuer: connection.saml_entity_id || undefined,
+    // Let the IdP choose the NameID format; users are matched on their email attribute
+    identifierFormat: null,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    acceptedClockSkewMs: SAML_CLOCK_SKEW_MS,
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: LOGIN_STATE_MINUTES * MINUTE_MS,
+    cacheProvider,
+    ...(options.requestId ? { generateUniqueId: () => options.requestId! } : {}),
+  });
+}
+
+/**
+ * Service provider metadata for customers to upload to their identity provider
+ */
+export async function getSamlServiceProviderMetadata(connectionId: string): Promise<string | null> {
+  const connection = await getConnectionRecord(connectionId);
+  if (!connection || connection.protocol !== 'saml') {
+    return null;
+  }
+
+  return createSamlClient(connection).generateServiceProviderMetadata(null);
+}
+
+// ============================================
+// CONNECTION MANAGEMENT
+// ============================================
+
+/**
+ * Find a domain that is already routed to a different connection
+ */
+async function findDomainConflict(domains: string[], connectionId?: string): Promise<string | null> {
+  const { data: connections } = await supabase
+    .from('sso_connections')
+    .select('id, email_domains')
+    .overlaps('email_domains', domains);
+
+  const conflict = (connections || []).find((connection) => connection.id !== connectionId);
+  return conflict ? domains.find((domain) => conflict.email_domains.includes(domain)) || domains[0] : null;
+}
+
+/**
+ * Get a company's SSO connections along with the details to enter in each identity provider
+ */
+export async function listSsoConnections(companyId: string): Promise<SsoConnectionDetails[]> {
+  const { data: connections, error } = await supabase
+    .from('sso_connections')
+    .select(CONNECTION_COLUMNS)
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (connections || []).map((connection: SsoConnection) => ({
+    ...connection,
+    service_provider: getServiceProviderDetails(connection.id),
+  }));
+}
+
+/**
+ * Add an identity provider for a company
+ * OIDC issuers are checked for a discovery document and SAML metadata is parsed up front, so
+ * a broken connection is caught here rather than at someone's first sign-in.
+ */
+export async function createSsoConnection(
+  companyId: string,
+  input: CreateSsoConnectionInput,
+  createdById: string
+): Promise<{ success: boolean; connection?: SsoConnectionDetails; error?: string; status?: number }> {
+  try {
+    const domains = Array.from(new Set(input.emailDomains));
+    const conflict = await findDomainConflict(domains);
+    if (conflict) {
+      return { success: false, error: `${conflict} is already used by another SSO connection`, status: 409 };
+    }
+
+    const record: Record<string, unknown> = {
+      company_id: companyId,
+      protocol: input.protocol,
+      name: input.name,
+      email_domains: domains,
+      created_by: createdById,
+    };
+
+    if (input.protocol === 'oidc') {
+      try {
+        await discoverIssuer(input.oidcIssuer);
+      } catch {
+        return { success: false, error: 'Could not load the OpenID configuration from that issuer', status: 400 };
+      }
+      record.oidc_issuer = input.oidcIssuer;
+      record.oidc_client_id = input.oidcClientId;
+      record.oidc_client_secret_encrypted = encrypt(input.oidcClientSecret);
+    } else {
+      const { metadata, error } = parseSamlMetadata(input.samlMetadataXml);
+      if (!metadata) {
+        return { success: false, error, status: 400 };
+      }
+      record.saml_entity_id = metadata.entityId;
+      record.saml_sso_url = metadata.ssoUrl;
+      record.saml_certificates = metadata.certificates;
+      record.saml_metadata_xml = input.samlMetadataXml;
+    }
+
+    const { data: connection, error } = await supabase
+      .from('sso_connections')
+      .insert(record)
+      .select(CONNECTION_COLUMNS)
+      .single();
+
+    if (error || !connection) {
+      console.error('Failed to create SSO connection:', error);
+      return { success: false, error: 'Failed to create SSO connection', status: 500 };
+    }
+
+    return {
+      success: true,
+      connection: { ...connection, service_provider: getServiceProviderDetails(connection.id) },
+    };
+  } catch (error) {
+    console.error('Create SSO connection error:', error);
+    return { success: false, error: 'Failed to create SSO connection', status: 500 };
+  }
+}
+
+/**
+ * Rename, re-route, enable or disable a connection, rotate its OIDC secret or replace its SAML metadata
+ */
+export async function updateSsoConnection(
+  connectionId: string,
+  input: UpdateSsoConnectionInput
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  try {
+    const existing = await getConnectionRecord(connectionId);
+    if (!existing) {
+      return { success: false, error: 'SSO connection not found', status: 404 };
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.isActive !== undefined) updates.is_active = input.isActive;
+
+    if (input.emailDomains) {
+      const domains = Array.from(new Set(input.emailDomains));
+      const conflict = await findDomainConflict(domains, connectionId);
+      if (conflict) {
+        return { success: false, error: `${conflict} is already used by another SSO connection`, status: 409 };
+      }
+      updates.email_domains = domains;
+    }
+
+    if (input.oidcClientSecret !== undefined) {
+      if (existing.protocol !== 'oidc') {
+        return { success: false, error: 'Only OIDC connections have a client secret', status: 400 };
+      }
+      updates.oidc_client_secret_encrypted = encrypt(input.oidcClientSecret);
+    }
+
+    if (input.samlMetadataXml !== undefined) {
+      if (existing.protocol !== 'saml') {
+        return { success: false, error: 'Only SAML connections have metadata', status: 400 };
+      }
+      const { metadata, error } = parseSamlMetadata(input.samlMetadataXml);
+      if (!metadata) {
+        return { success: false, error, status: 400 };
+      }
+      updates.saml_entity_id = metadata.entityId;
+      updates.saml_sso_url = metadata.ssoUrl;
+      updates.saml_certificates = metadata.certificates;
+      updates.saml_metadata_xml = input.samlMetadataXml;
+    }
+
+    const { error } = await supabase.from('sso_connections').update(updates).eq('id', connectionId);
+
+    if (error) {
+      console.error('Failed to update SSO connection:', error);
+      return { success: false, error: 'Failed to update SSO connection', status: 500 };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Update SSO connection error:', error);
+    return { success: false, error: 'Failed to update SSO connection', status: 500 };
+  }
+}
+
+/**
+ * Remove a connection; its users keep their portal accounts but can no longer sign in through it
+ */
+export async function deleteSsoConnection(connectionId: string): Promise<{ success: boolean; error?: string; status?: number }> {
+  const { data: deleted, error } = await supabase
+    .from('sso_connections')
+    .delete()
+    .eq('id', connectionId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to delete SSO connection:', error);
+    return { success: false, error: 'Failed to delete SSO connection', status: 500 };
+  }
+
+  if (!deleted) {
+    return { success: false, error: 'SSO connection not found', status: 404 };
+  }
+
+  return { success: true };
+}
+
+// ============================================
+// DISCOVERY AND ENFORCEMENT
+// ============================================
+
+/**
+ * Find the active connection for an email address's domain
+ */
+export async function findSsoConnectionForEmail(
+  email: string
+): Promise<{ id: string; name: string; companyId: string } | null> {
+  const { data: connection } = await supabase
+    .from('sso_connections')
+    .select('id, name, company_id')
+    .eq('is_active', true)
+    .contains('email_domains', [getEmailDomain(email)])
+    .maybeSingle();
+
+  return connection ? { id: connection.id, name: connection.name, companyId: connection.company_id } : null;
+}
+
+async function findActiveConnectionForCompany(companyId: string): Promise<{ id: string; name: string } | null> {
+  const { data: connection } = await supabase
+    .from('sso_connections')
+    .select('id, name')
+    .eq('company_id', companyId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  return connection;
+}
+
+/**
+ * Whether a company's portal users may only sign in through SSO
+ * Needs sso_required on one of the company's security compliance configs and an active connection;
+ * without a connection there would be no way in, so the requirement isn't enforced.
+ */
+export async function isSsoEnforced(companyId: string): Promise<boolean> {
+  if (!(await findActiveConnectionForCompany(companyId))) {
+    return false;
+  }
+
+  const { data: configs } = await supabase
+    .from('security_compliance_configs')
+    .select('id, project:onboarding_projects!inner(company_id)')
+    .eq('sso_required', true)
+    .eq('onboarding_projects.company_id', companyId)
+    .limit(1);
+
+  return (configs || []).length > 0;
+}
+
+/**
+ * Find the connection an email address has to sign in through, when password and magic link
+ * sign-in are turned off for it
+ * Checks the email's domain and, for portal users outside their company's SSO domains, their company.
+ */
+export async function getRequiredSsoConnection(email: string): Promise<{ id: string; name: string } | null> {
+  const byDomain = await findSsoConnectionForEmail(email);
+  if (byDomain && (await isSsoEnforced(byDomain.companyId))) {
+    return byDomain;
+  }
+
+  const { data: portalUser } = await supabase
+    .from('portal_users')
+    .select('company_id, contact:contacts!inner(email)')
+    .ilike('contacts.email', escapeLikePattern(email))
+    .limit(1)
+    .maybeSingle();
+
+  if (portalUser?.company_id && (await isSsoEnforced(portalUser.company_id))) {
+    return findActiveConnectionForCompany(portalUser.company_id);
+  }
+
+  return null;
+}
+
+/**
+ * Check that a portal user whose company enforces SSO signed in through it
+ * Catches sessions started some other way, e.g. a magic link requested straight from Supabase.
+ */
+export async function isSessionSsoSatisfied(tenant: TenantContext, accessToken: string): Promise<boolean> {
+  if (tenant.userType !== 'portal_user' || !tenant.companyId) {
+    return true;
+  }
+
+  if (!(await isSsoEnforced(tenant.companyId))) {
+    return true;
+  }
+
+  const sessionId = getTokenSessionId(accessToken);
+  if (!sessionId) {
+    return false;
+  }
+
+  const { data: ssoSession } = await supabase
+    .from('sso_sessions')
+    .select('session_id')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  return !!ssoSession;
+}
+
+// ============================================
+// SIGN-IN
+// ============================================
+
+/**
+ * Start a service-provider-initiated sign-in
+ * Returns the identity provider URL to send the browser to.
+ */
+export async function startSsoLogin(
+  connectionId: string
+): Promise<{
+  success: boolean;
+  redirectUrl?: string;
+  state?: string;
+  protocol?: SsoProtocol;
+  expiresAt?: string;
+  error?: string;
+}> {
+  try {
+    const connection = await getConnectionRecord(connectionId);
+    if (!connection?.is_active) {
+      return { success: false, error: 'Single sign-on is not available for this account' };
+    }
+
+    const now = new Date();
+    await supabase.from('sso_login_states').delete().lt('expires_at', now.toISOString());
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const loginState: Record<string, unknown> = {
+      connection_id: connection.id,
+      state_hash: hashState(state),
+      expires_at: new Date(now.getTime() + LOGIN_STATE_MINUTES * MINUTE_MS).toISOString(),
+    };
+
+    let redirectUrl: string;
+
+    if (connection.protocol === 'oidc') {
+      const client = await getOidcClient(connection);
+      const nonce = generators.nonce();
+      const codeVerifier = generators.codeVerifier();
+      redirectUrl = client.authorizationUrl({
+        scope: 'openid email profile',
+        state,
+        nonce,
+        code_challenge: generators.codeChallenge(codeVerifier),
+        code_challenge_method: 'S256',
+      });
+      loginState.oidc_nonce = nonce;
+      loginState.oidc_code_verifier = codeVerifier;
+    } else {
+      // SAML request IDs must not start with a digit
+      const requestId = `_${crypto.randomBytes(20).toString('hex')}`;
+      redirectUrl = await createSamlClient(connection, { requestId }).getAuthorizeUrlAsync(state, undefined, {});
+      loginState.saml_request_id = requestId;
+    }
+
+    const { error } = await supabase.from('sso_login_states').insert(loginState);
+    if (error) {
+      console.error('Failed to save SSO login state:', error);
+      return { success: false, error: 'Failed to start single sign-on' };
+    }
+
+    return {
+      success: true,
+      redirectUrl,
+      state,
+      protocol: connection.protocol,
+      expiresAt: loginState.expires_at as string,
+    };
+  } catch (error) {
+    console.error('Start SSO login error:', error);
+    return { success: false, error: 'Failed to start single sign-on' };
+  }
+}
+
+/**
+ * Use up a login state; each can complete one sign-in
+ */
+async function consumeLoginState(state: string): Promise<SsoLoginState | null> {
+  const { data: loginState } = await supabase
+    .from('sso_login_states')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('state_hash', hashState(state))
+    .is('consumed_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('id, connection_id, oidc_nonce, oidc_code_verifier, saml_request_id, created_at')
+    .maybeSingle();
+
+  return loginState;
+}
+
+/**
+ * Check the OIDC authorization response and read the user's identity from the ID token
+ * browserState is the state startSsoLogin gave the browser that started the sign-in.
+ */
+export async function completeOidcLogin(
+  params: CallbackParamsType,
+  browserState: string | undefined
+): Promise<{ success: boolean; connectionId?: string; identity?: SsoIdentity; error?: string }> {
+  try {
+    if (!params.state || !isBrowserState(params.state, browserState)) {
+      return { success: false, error: 'Your sign-in has expired. Please start again from the login page.' };
+    }
+
+    const loginState = await consumeLoginState(params.state);
+    if (!loginState) {
+      return { success: false, error: 'Your sign-in has expired. Please try again.' };
+    }
+
+    const connection = await getConnectionRecord(loginState.connection_id);
+    if (!connection?.is_active || connection.protocol !== 'oidc') {
+      return { success: false, error: 'Single sign-on is not available for this account' };
+    }
+
+    const client = await getOidcClient(connection);
+    const tokenSet = await client.callback(getServiceProviderDetails(connection.id).oidcRedirectUri, params, {
+      state: params.state,
+      nonce: loginState.oidc_nonce || undefined,
+      code_verifier: loginState.oidc_code_verifier || undefined,
+    });
+    const claims = tokenSet.claims();
+
+    if (typeof claims.email !== 'string' || claims.email_verified === false) {
+      return { success: false, error: 'Your identity provider did not share a verified email address' };
+    }
+
+    return {
+      success: true,
+      connectionId: connection.id,
+      identity: {
+        subject: claims.sub,
+        email: claims.email.toLowerCase(),
+        firstName: typeof claims.given_name === 'string' ? claims.given_name : null,
+        lastName: typeof claims.family_name === 'string' ? claims.family_name : null,
+      },
+    };
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    return { success: false, error: 'Single sign-on failed. Please try again.' };
+  }
+}
+
+function readSamlAttribute(profile: Profile, names: string[]): string | null {
+  for (const name of names) {
+    const value = profile[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string' && first.trim()) {
+      return first.trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a SAML response posted to a connection's ACS URL and read the user's identity from it
+ * browserState is the state startSsoLogin gave the browser that started the sign-in.
+ */
+export async function completeSamlLogin(
+  connectionId: string,
+  body: { SAMLResponse?: string; RelayState?: string },
+  browserState: string | undefined
+): Promise<{ success: boolean; connectionId?: string; identity?: SsoIdentity; error?: string }> {
+  try {
+    // IdP-initiated sign-ins have no RelayState from us and are refused
+    if (!body.RelayState || !isBrowserState(body.RelayState, browserState)) {
+      return { success: false, error: 'Your sign-in has expired. Please start again from the login page.' };
+    }
+
+    const loginState = await consumeLoginState(body.RelayState);
+    if (!loginState || loginState.connection_id !== connectionId || !body.SAMLResponse) {
+      return { success: false, error: 'Your sign-in has expired. Please start again from the login page.' };
+    }
+
+    const connection = await getConnectionRecord(connectionId);
+    if (!connection?.is_active || connection.protocol !== 'saml') {
+      return { success: false, error: 'Single sign-on is not available for this account' };
+    }
+
+    const { profile } = await createSamlClient(connection, { loginState }).validatePostResponseAsync({
+      SAMLResponse: body.SAMLResponse,
+    });
+
+    if (!profile?.nameID) {
+      return { success: false, error: 'Single sign-on failed. Please try again.' };
+    }
+
+    const email =
+      readSamlAttribute(profile, SAML_EMAIL_ATTRIBUTES) ||
+      (profile.nameIDFormat === SAML_EMAIL_NAME_ID_FORMAT ? profile.nameID : null);
+
+    if (!email) {
+      return { success: false, error: 'Your identity provider did not share an email address' };
+    }
+
+    return {
+      success: true,
+      connectionId: connection.id,
+      identity: {
+        subject: profile.nameID,
+        email: email.toLowerCase(),
+        firstName: readSamlAttribute(profile, SAML_FIRST_NAME_ATTRIBUTES),
+        lastName: readSamlAttribute(profile, SAML_LAST_NAME_ATTRIBUTES),
+      },
+    };
+  } catch (error) {
+    console.error('SAML login error:', error);
+    return { success: false, error: 'Single sign-on failed. Please try again.' };
+  }
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (character) => `\\${character}`);
+}
+
+/**
+ * Find or create the portal user for an identity asserted by a company's identity provider
+ * First sign-ins are linked to the company's contact with that email, creating the contact
+ * and portal account if needed. Only emails on the connection's domains can be linked, so an
+ * identity provider can't claim accounts belonging to another company.
+ */
+async function resolveSsoUser(
+  connection: SsoConnectionRecord,
+  identity: SsoIdentity,
+  context: LoginAttemptContext
+): Promise<{ success: boolean; authUserId?: string; portalUserId?: string; error?: string }> {
+  const { data: linked } = await supabase
+    .from('sso_identities')
+    .select('id, portal_user:portal_users(id, auth_user_id, company_id, is_active)')
+    .eq('connection_id', connection.id)
+    .eq('subject', identity.subject)
+    .maybeSingle();
+
+  const linkedUser = linked && (Array.isArray(linked.portal_user) ? linked.portal_user[0] : linked.portal_user);
+
+  if (linked && linkedUser) {
+    if (!linkedUser.is_active || linkedUser.company_id !== connection.company_id) {
+      return { success: false, error: 'Your portal access has been deactivated. Please contact your administrator.' };
+    }
+
+    await supabase
+      .from('sso_identities')
+      .update({ email: identity.email, last_login_at: new Date().toISOString() })
+      .eq('id', linked.id);
+
+    return { success: true, authUserId: linkedUser.auth_user_id, portalUserId: linkedUser.id };
+  }
+
+  if (!connection.email_domains.includes(getEmailDomain(identity.email))) {
+    return { success: false, error: `${identity.email} is not on a domain managed by ${connection.name}` };
+  }
+
+  const { data: contacts } = await supabase
+    .from('contacts')
+    .select('id, company_id, first_name, last_name')
+    .ilike('email', escapeLikePattern(identity.email));
+
+  const contact = (contacts || []).find((candidate) => candidate.company_id === connection.company_id);
+  if (!contact && (contacts || []).length > 0) {
+    return { success: false, error: 'This email address belongs to a contact at another company. Please contact support.' };
+  }
+
+  let contactId = contact?.id;
+  let createdContact = false;
+
+  if (!contactId) {
+    const { data: newContact, error } = await supabase
+      .from('contacts')
+      .insert({
+        company_id: connection.company_id,
+        first_name: identity.firstName || identity.email.split('@')[0],
+        last_name: identity.lastName || '',
+        email: identity.email,
+        role: 'other',
+        is_active: true,
+      })
+      .select('id')
+      .single();
+
+    if (error || !newContact) {
+      console.error('Failed to create SSO contact:', error);
+      return { success: false, error: 'Failed to set up your portal account' };
+    }
+
+    contactId = newContact.id;
+    createdContact = true;
+  }
+
+  let { data: portalUser } = await supabase
+    .from('portal_users')
+    .select('id, auth_user_id, is_active')
+    .eq('contact_id', contactId)
+    .maybeSingle();
+
+  if (portalUser && !portalUser.is_active) {
+    return { success: false, error: 'Your portal access has been deactivated. Please contact your administrator.' };
+  }
+
+  if (!portalUser) {
+    const account = await createPortalAccount({
+      email: identity.email,
+      companyId: connection.company_id,
+      contactId: contactId!,
+      firstName: identity.firstName || contact?.first_name || identity.email.split('@')[0],
+      lastName: identity.lastName || contact?.last_name || '',
+      authMethod: 'sso',
+    });
+
+    if (!account.success) {
+      if (createdContact) {
+        await supabase.from('contacts').delete().eq('id', contactId);
+      }
+      return {
+        success: false,
+        error: account.status === 409
+          ? 'An account already exists for this email. Please contact support to link it to single sign-on.'
+          : 'Failed to set up your portal account',
+      };
+    }
+
+    portalUser = { id: account.portalUserId!, auth_user_id: account.authUserId!, is_active: true };
+
+    await logSecurityEvent('sso_user_provisioned', identity.email, context, {
+      portalUserId: portalUser.id,
+      details: { connection_id: connection.id, contact_created: createdContact },
+    });
+  }
+
+  const { error: linkError } = await supabase.from('sso_identities').insert({
+    connection_id: connection.id,
+    subject: identity.subject,
+    portal_user_id: portalUser.id,
+    email: identity.email,
+  });
+
+  if (linkError) {
+    console.error('Failed to link SSO identity:', linkError);
+    return { success: false, error: 'Failed to set up your portal account' };
+  }
+
+  return { success: true, authUserId: portalUser.auth_user_id, portalUserId: portalUser.id };
+}
+
+/**
+ * Sign in the portal user behind an SSO identity, provisioning them on their first visit
+ * Supabase can't start a session for an external identity directly, so a magic link is
+ * generated and redeemed on the server.
+ */
+export async function completeSsoSignIn(
+  connectionId: string,
+  identity: SsoIdentity,
+  context: LoginAttemptContext
+): Promise<{ success: boolean; authUserId?: string; session?: Session; error?: string }> {
+  try {
+    const connection = await getConnectionRecord(connectionId);
+    if (!connection?.is_active) {
+      return { success: false, error: 'Single sign-on is not available for this account' };
+    }
+
+    const user = await resolveSsoUser(connection, identity, context);
+    if (!user.success) {
+      await logSecurityEvent('sso_login_failed', identity.email, context, {
+        details: { connection_id: connection.id, reason: user.error },
+      });
+      return { success: false, error: user.error };
+    }
+
+    const { data: authUser } = await supabase.auth.admin.getUserById(user.authUserId!);
+    const authEmail = authUser?.user?.email;
+    if (!authEmail) {
+      return { success: false, error: 'Failed to sign in' };
+    }
+
+    const { data: link, error: linkError } = await supabase.auth.admin.generateLink({
+      type: 'magiclink',
+      email: authEmail,
+    });
+
+    if (linkError || !link.properties?.hashed_token) {
+      console.error('Failed to generate SSO sign-in link:', linkError);
+      return { success: false, error: 'Failed to sign in' };
+    }
+
+    const { data: verified, error: verifyError } = await supabase.auth.verifyOtp({
+      type: 'magiclink',
+      token_hash: link.properties.hashed_token,
+    });
+
+    if (verifyError || !verified.session) {
+      console.error('Failed to redeem SSO sign-in link:', verifyError);
+      return { success: false, error: 'Failed to sign in' };
+    }
+
+    const sessionId = getTokenSessionId(verified.session.access_token);
+    if (sessionId) {
+      await supabase.from('sso_sessions').insert({
+        session_id: sessionId,
+        connection_id: connection.id,
+        auth_user_id: user.authUserId,
+      });
+    }
+
+    await logSecurityEvent('sso_login', identity.email, context, {
+      portalUserId: user.portalUserId,
+      details: { connection_id: connection.id },
+    });
+
+    return { success: true, authUserId: user.authUserId, session: verified.session };
+  } catch (error) {
+    console.error('Complete SSO sign-in error:', error);
+    return { success: false, error: 'Failed to sign in' };
+  }
+}
@@ -74,6 +74,20 @@ export async function verifyToken(accessToken: string): Promise<User | null> {
   return user;
 }
 
+/**
+ * Read the session_id claim from an access token
+ * It ties together every access token issued for one sign-in, across refreshes.
+ * Only call this on tokens that have already been verified.
+ */
+export function getTokenSessionId(accessToken: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.session_id === 'string' ? payload.session_id : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get user type (claims_iq_staff or portal_user)
  */
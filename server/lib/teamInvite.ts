@@ -0,0 +1,134 @@
+import { supabase } from './supabase';
+import { isTeamMemberInvite, markInviteUsed, type Invite } from './invite';
+import { setUserPassword, validatePasswordStrength } from './password';
+import { createPortalAccount } from './portalUsers';
+
+// Types
+export interface TeamInviteDetails {
+  email: string;
+  firstName: string;
+  lastName: string;
+  companyId: string;
+  contactId: string;
+  companyName: string | null;
+}
+
+/**
+ * Load the contact and company a team-member invite was created for
+ * The contact must still belong to the company recorded on the invite
+ */
+export async function getTeamInviteDetails(invite: Invite): Promise<{
+  success: boolean;
+  details?: TeamInviteDetails;
+  error?: string;
+  status?: number;
+}> {
+  try {
+    if (!isTeamMemberInvite(invite)) {
+      return { success: false, error: 'This invite is not a team invitation', status: 400 };
+    }
+
+    const companyId = invite.metadata.companyId as string | undefined;
+    const contactId = invite.metadata.contactId as string | undefined;
+
+    const { data: contact } = companyId && contactId
+      ? await supabase
+          .from('contacts')
+          .select('id, first_name, last_name, company:companies(legal_name)')
+          .eq('id', contactId)
+          .eq('company_id', companyId)
+          .maybeSingle()
+      : { data: null };
+
+    if (!contact) {
+      return {
+        success: false,
+        error: 'This invitation is no longer valid. Ask your team administrator to invite you again.',
+        status: 400,
+      };
+    }
+
+    const company = (Array.isArray(contact.company) ? contact.company[0] : contact.company) as
+      | { legal_name: string }
+      | null;
+
+    return {
+      success: true,
+      details: {
+        email: invite.email,
+        firstName: contact.first_name,
+        lastName: contact.last_name,
+        companyId: companyId!,
+        contactId: contactId!,
+        companyName: company?.legal_name || null,
+      },
+    };
+  } catch (error) {
+    console.error('Get team invite error:', error);
+    return { success: false, error: 'Failed to load invitation', status: 500 };
+  }
+}
+
+/**
+ * Accept a team-member invite: create the Supabase auth user and the portal user
+ * linked to the invite's company and contact, set their password, and mark the invite used
+ */
+export async function acceptTeamInvite(invite: Invite, password: string): Promise<{
+  success: boolean;
+  error?: string;
+  status?: number;
+}> {
+  const lookup = await getTeamInviteDetails(invite);
+  if (!lookup.success) {
+    return { success: false, error: lookup.error, status: lookup.status };
+  }
+  const details = lookup.details!;
+
+  const strength = validatePasswordStrength(password, {
+    email: details.email,
+    firstName: details.firstName,
+    lastName: details.lastName,
+    companyName: details.companyName,
+  });
+  if (!strength.valid) {
+    return { success: false, error: strength.errors[0], status: 400 };
+  }
+
+  const account = await createPortalAccount({
+    email: details.email,
+    companyId: details.companyId,
+    contactId: details.contactId,
+    firstName: details.firstName,
+    lastName: details.lastName,
+    authMethod: 'magic_link',
+  });
+
+  if (!account.success) {
+    return {
+      success: false,
+      error: account.status === 409
+        ? 'An account already exists for this email. Sign in instead, or contact support.'
+        : 'Failed to create your account',
+      status: account.status,
+    };
+  }
+
+  try {
+    const passwordResult = await setUserPassword(account.portalUserId!, password);
+    if (!passwordResult.success) {
+      throw new Error(`Failed to set password: ${passwordResult.error}`);
+    }
+
+    await markInviteUsed(invite.id, null);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Accept team invite error:', error);
+
+    // Undo the account so the invite can be accepted again with the same link
+    await supabase.from('portal_users').delete().eq('id', account.portalUserId!);
+    await supabase.auth.admin.deleteUser(account.authUserId!);
+
+    return { success: false, error: 'Failed to create your account', status: 500 };
+  }
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../shared/types';
+import { ALL_PORTAL_PERMISSIONS, resolveStaffCapabilities } from '../../shared/permissions';
+import {
+  getAccessibleCompanyIds,
+  getTenantContext,
+  hasStaffCapability,
+  requireProjectAccess,
+  requireStaffCapability,
+  validateProjectAccess,
+  validateCompanyAccess,
+  TenantAccessError,
+} from './tenant';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for tenant.ts: equality filters over in-memory rows
+function fakeClient(tables: Record<string, Row[]>): SupabaseClient<Database> {
+  const from = (table: string) => {
+    const filters: [string, unknown][] = [];
+    const rows = () => (tables[table] || []).filter((row) => filters.every(([column, value]) => row[column] === value));
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      single: async () => {
+        const matches = rows();
+        return matches.length === 1 ? { data: matches[0], error: null } : { data: null, error: { code: 'PGRST116' } };
+      },
+      limit: () => builder,
+      maybeSingle: async () => ({ data: rows()[0] || null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) =>
+        Promise.resolve({ data: rows(), error: null }).then(resolve),
+    };
+    return builder;
+  };
+  return { from } as unknown as SupabaseClient<Database>;
+}
+
+const client = fakeClient({
+  users: [
+    { id: 'admin-1', auth_user_id: 'auth-admin', email: 'admin@claimsiq.com', role: 'admin' },
+    { id: 'csm-1', auth_user_id: 'auth-csm-1', email: 'csm1@claimsiq.com', role: 'csm' },
+    { id: 'csm-2', auth_user_id: 'auth-csm-2', email: 'csm2@claimsiq.com', role: 'csm' },
+    { id: 'support-1', auth_user_id: 'auth-support', email: 'support@claimsiq.com', role: 'support' },
+    { id: 'legacy-1', auth_user_id: 'auth-legacy', email: 'legacy@claimsiq.com', role: 'staff' },
+  ],
+  onboarding_projects: [
+    { id: 'project-csm-1', company_id: 'company-a', assigned_csm_id: 'csm-1' },
+    { id: 'project-csm-2', company_id: 'company-b', assigned_csm_id: 'csm-2' },
+    { id: 'project-unassigned', company_id: 'company-a', assigned_csm_id: null },
+  ],
+});
+
+async function staff(authUserId: string) {
+  const tenant = await getTenantContext(client, authUserId);
+  if (!tenant) throw new Error(`No tenant for ${authUserId}`);
+  return tenant;
+}
+
+describe('resolveStaffCapabilities', () => {
+  it('scopes CSMs to their assigned projects', () => {
+    expect(resolveStaffCapabilities('csm')).not.toContain('projects.view_all');
+    expect(resolveStaffCapabilities('csm')).toContain('projects.edit');
+  });
+
+  it('treats unknown and missing roles as read-only support', () => {
+    expect(resolveStaffCapabilities('staff')).toEqual(['projects.view_all']);
+    expect(resolveStaffCapabilities(null)).toEqual(['projects.view_all']);
+  });
+});
+
+describe('getTenantContext for staff', () => {
+  it('resolves the role and its capabilities', async () => {
+    const csm = await staff('auth-csm-1');
+
+    expect(csm.userType).toBe('claims_iq_staff');
+    expect(csm.staffRole).toBe('csm');
+    expect(csm.staffCapabilities).toEqual(resolveStaffCapabilities('csm'));
+    expect(csm.permissions).toEqual(ALL_PORTAL_PERMISSIONS);
+  });
+
+  it('gives read-only staff no portal permissions', async () => {
+    const support = await staff('auth-support');
+
+    expect(support.permissions).toEqual([]);
+    expect(hasStaffCapability(support, 'projects.edit')).toBe(false);
+  });
+});
+
+describe('validateProjectAccess', () => {
+  it('lets a CSM open only the projects assigned to them', async () => {
+    const csm = await staff('auth-csm-1');
+
+    expect(await validateProjectAccess(client, csm, 'project-csm-1')).toBe(true);
+    expect(await validateProjectAccess(client, csm, 'project-csm-2')).toBe(false);
+    expect(await validateProjectAccess(client, csm, 'project-unassigned')).toBe(false);
+  });
+
+  it.each(['auth-admin', 'auth-support', 'auth-legacy'])('lets %s open any project', async (authUserId) => {
+    const tenant = await staff(authUserId);
+
+    for (const projectId of ['project-csm-1', 'project-csm-2', 'project-unassigned']) {
+      expect(await validateProjectAccess(client, tenant, projectId)).toBe(true);
+    }
+  });
+
+  it('refuses projects that do not exist', async () => {
+    expect(await validateProjectAccess(client, await staff('auth-admin'), 'project-missing')).toBe(false);
+  });
+
+  it('throws TenantAccessError for another CSM\'s project', async () => {
+    const csm = await staff('auth-csm-2');
+
+    await expect(requireProjectAccess(client, csm, 'project-csm-2')).resolves.toBeUndefined();
+    await expect(requireProjectAccess(client, csm, 'project-csm-1')).rejects.toBeInstanceOf(TenantAccessError);
+  });
+});
+
+describe('validateCompanyAccess', () => {
+  it('lets a CSM see only companies with a project assigned to them', async () => {
+    const csm = await staff('auth-csm-1');
+
+    expect(await validateCompanyAccess(client, csm, 'company-a')).toBe(true);
+    expect(await validateCompanyAccess(client, csm, 'company-b')).toBe(false);
+    expect(await getAccessibleCompanyIds(client, csm)).toEqual(['company-a']);
+  });
+
+  it('lets staff who can view all projects see every company', async () => {
+    const support = await staff('auth-support');
+
+    expect(await validateCompanyAccess(client, support, 'company-b')).toBe(true);
+    expect(await getAccessibleCompanyIds(client, support)).toBeNull();
+  });
+});
+
+describe('requireStaffCapability', () => {
+  it('throws when the role does not allow the action', async () => {
+    const csm = await staff('auth-csm-1');
+
+    expect(() => requireStaffCapability(csm, 'invites.create')).not.toThrow();
+    expect(() => requireStaffCapability(csm, 'companies.merge')).toThrow(TenantAccessError);
+  });
+
+  it('leaves company security settings to admins', async () => {
+    expect(hasStaffCapability(await staff('auth-admin'), 'companies.security')).toBe(true);
+    for (const authUserId of ['auth-csm-1', 'auth-support', 'auth-legacy']) {
+      expect(hasStaffCapability(await staff(authUserId), 'companies.security')).toBe(false);
+    }
+  });
+
+  it('never grants staff capabilities to portal users', () => {
+    const portalUser = {
+      userId: 'portal-1',
+      userType: 'portal_user' as const,
+      companyId: 'company-a',
+      email: 'ada@acme.com',
+      contactRole: 'primary' as const,
+      permissions: ALL_PORTAL_PERMISSIONS,
+      staffRole: null,
+      staffCapabilities: resolveStaffCapabilities('admin'),
+    };
+
+    expect(hasStaffCapability(portalUser, 'projects.view_all')).toBe(false);
+  });
+});
@@ -1,5 +1,12 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import type { Database } from '../../shared/types';
+import type { Database, ContactRole, PortalPermission, StaffRole, StaffCapability } from '../../shared/types';
+import {
+  ALL_PORTAL_PERMISSIONS,
+  IMPERSONATION_BLOCKED_PERMISSIONS,
+  PORTAL_PERMISSIONS,
+  resolveRolePermissions,
+  resolveStaffCapabilities,
+} from '../../shared/permissions';
 
 /**
  * Tenant context for the current user
@@ -11,6 +18,22 @@ export interface TenantContext {
   email: string;
   firstName?: string;
   lastName?: string;
+  contactRole: ContactRole | null;
+  permissions: PortalPermission[];
+  staffRole: StaffRole | null;
+  staffCapabilities: StaffCapability[];
+  // Set when a staff user is viewing the portal as this portal user
+  impersonation?: TenantImpersonation;
+}
+
+export interface TenantImpersonation {
+  sessionId: string;
+  staffUserId: string;
+  staffName: string;
+  companyName: string | null;
+  allowDestructive: boolean;
+  readOnly: boolean;
+  expiresAt: string;
 }
 
 /**
@@ -33,11 +56,12 @@ export async function getTenantContext(
   // First, check if user is Claims IQ staff
   const { data: staffUser } = await client
     .from('users')
-    .select('id, email, first_name, last_name')
+    .select('id, email, first_name, last_name, role')
     .eq('auth_user_id', authUserId)
     .single();
 
   if (staffUser) {
+    const staffCapabilities = resolveStaffCapabilities(staffUser.role);
     return {
       userId: staffUser.id,
       userType: 'claims_iq_staff',
@@ -45,6 +69,11 @@ export async function getTenantContext(
       email: staffUser.email,
       firstName: staffUser.first_name,
       lastName: staffUser.last_name,
+      contactRole: null,
+      // Read-only staff can't act in the portal on a customer's behalf
+      permissions: staffCapabilities.includes('projects.edit') ? ALL_PORTAL_PERMISSIONS : [],
+      staffRole: staffUser.role,
+      staffCapabilities,
     };
   }
 
@@ -54,15 +83,30 @@ export async function getTenantContext(
     .select(`
       id,
       company_id,
-      contact:contacts(first_name, last_name, email)
+      contact:contacts(first_name, last_name, email, role)
     `)
     .eq('auth_user_id', authUserId)
+    .eq('is_active', true)
     .single();
 
   if (portalUser) {
     // Handle the contact relation - it could be an array or object
     const contactData = portalUser.contact;
     const contact = Array.isArray(contactData) ? contactData[0] : contactData;
+    const contactRole: ContactRole | null = contact?.role || null;
+
+    // Use the company's saved permissions for the role, if the primary contact changed them
+    let companyPermissions: PortalPermission[] | null = null;
+    if (contactRole && contactRole !== 'primary') {
+      const { data: rolePermissions } = await client
+        .from('company_role_permissions')
+        .select('permissions')
+        .eq('company_id', portalUser.company_id)
+        .eq('role', contactRole)
+        .maybeSingle();
+      companyPermissions = rolePermissions?.permissions || null;
+    }
+
     return {
       userId: portalUser.id,
       userType: 'portal_user',
@@ -70,6 +114,10 @@ export async function getTenantContext(
       email: contact?.email || '',
       firstName: contact?.first_name,
       lastName: contact?.last_name,
+      contactRole,
+      permissions: resolveRolePermissions(contactRole, companyPermissions),
+      staffRole: null,
+      staffCapabilities: [],
     };
   }
 
@@ -85,14 +133,18 @@ export async function validateProjectAccess(
   tenantContext: TenantContext,
   projectId: string
 ): Promise<boolean> {
-  // Claims IQ staff can access all projects
+  // Claims IQ staff can access all projects, except CSMs who only see their own
   if (tenantContext.userType === 'claims_iq_staff') {
-    // Verify project exists
-    const { data: project } = await client
+    let query = client
       .from('onboarding_projects')
       .select('id')
-      .eq('id', projectId)
-      .single();
+      .eq('id', projectId);
+
+    if (!hasStaffCapability(tenantContext, 'projects.view_all')) {
+      query = query.eq('assigned_csm_id', tenantContext.userId);
+    }
+
+    const { data: project } = await query.single();
 
     return !!project;
   }
@@ -114,20 +166,55 @@ export async function validateProjectAccess(
 
 /**
  * Validate that a user has access to a specific company
+ * Staff who can't see every project, i.e. CSMs, only see companies with a project assigned to them.
  */
 export async function validateCompanyAccess(
+  client: SupabaseClient<Database>,
   tenantContext: TenantContext,
   companyId: string
 ): Promise<boolean> {
-  // Claims IQ staff can access all companies
   if (tenantContext.userType === 'claims_iq_staff') {
-    return true;
+    if (hasStaffCapability(tenantContext, 'projects.view_all')) {
+      return true;
+    }
+
+    const { data: assigned } = await client
+      .from('onboarding_projects')
+      .select('id')
+      .eq('company_id', companyId)
+      .eq('assigned_csm_id', tenantContext.userId)
+      .limit(1);
+
+    return !!assigned && assigned.length > 0;
   }
 
   // Portal users can only access their own company
   return tenantContext.companyId === companyId;
 }
 
+/**
+ * Ids of the companies a user has access to, or null for staff who can see every company
+ */
+export async function getAccessibleCompanyIds(
+  client: SupabaseClient<Database>,
+  tenantContext: TenantContext
+): Promise<string[] | null> {
+  if (tenantContext.userType !== 'claims_iq_staff') {
+    return tenantContext.companyId ? [tenantContext.companyId] : [];
+  }
+
+  if (hasStaffCapability(tenantContext, 'projects.view_all')) {
+    return null;
+  }
+
+  const { data: projects } = await client
+    .from('onboarding_projects')
+    .select('company_id')
+    .eq('assigned_csm_id', tenantContext.userId);
+
+  return Array.from(new Set((projects || []).map((project) => project.company_id)));
+}
+
 /**
  * Require project access or throw TenantAccessError
  */
@@ -145,11 +232,12 @@ export async function requireProjectAccess(
 /**
  * Require company access or throw TenantAccessError
  */
-export function requireCompanyAccess(
+export async function requireCompanyAccess(
+  client: SupabaseClient<Database>,
   tenantContext: TenantContext,
   companyId: string
-): void {
-  const hasAccess = validateCompanyAccess(tenantContext, companyId);
+): Promise<void> {
+  const hasAccess = await validateCompanyAccess(client, tenantContext, companyId);
   if (!hasAccess) {
     throw new TenantAccessError(`Access denied to company ${companyId}`);
   }
@@ -163,3 +251,52 @@ export function requireStaffRole(tenantContext: TenantContext): void {
     throw new TenantAccessError('This action requires Claims IQ staff privileges');
   }
 }
+
+/**
+ * Check whether a staff user's role allows an action
+ */
+export function hasStaffCapability(tenantContext: TenantContext, capability: StaffCapability): boolean {
+  return tenantContext.userType === 'claims_iq_staff' && tenantContext.staffCapabilities.includes(capability);
+}
+
+/**
+ * Require a staff capability or throw TenantAccessError
+ */
+export function requireStaffCapability(tenantContext: TenantContext, capability: StaffCapability): void {
+  if (!hasStaffCapability(tenantContext, capability)) {
+    throw new TenantAccessError('Your staff role does not allow this action');
+  }
+}
+
+/**
+ * Check whether the user may take an action within their company
+ */
+export function hasPermission(tenantContext: TenantContext, permission: PortalPermission): boolean {
+  return tenantContext.permissions.includes(permission);
+}
+
+/**
+ * Require a portal permission or throw TenantAccessError
+ */
+export function requirePermission(tenantContext: TenantContext, permission: PortalPermission): void {
+  const impersonation = tenantContext.impersonation;
+  if (impersonation && !impersonation.allowDestructive && IMPERSONATION_BLOCKED_PERMISSIONS.includes(permission)) {
+    throw new TenantAccessError('This action is blocked while viewing the portal as a customer');
+  }
+
+  if (!hasPermission(tenantContext, permission)) {
+    const description = PORTAL_PERMISSIONS.find((p) => p.permission === permission)?.description;
+    throw new TenantAccessError(
+      description
+        ? `Your role does not allow you to ${description.charAt(0).toLowerCase()}${description.slice(1)}`
+        : 'Your role does not allow this action'
+    );
+  }
+}
+
+/**
+ * The id to record in activity logs: the staff user while impersonating, otherwise the user
+ */
+export function getActingUserId(tenantContext: TenantContext): string {
+  return tenantContext.impersonation?.staffUserId || tenantContext.userId;
+}
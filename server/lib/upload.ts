@@ -0,0 +1,51 @@
+import multer from 'multer';
+import path from 'path';
+
+// File types accepted for project documents and onboarding attachments
+export const ALLOWED_DOCUMENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/csv',
+];
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+// Multer config for document uploads (kept in memory, then written to Supabase Storage)
+export const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_DOCUMENT_SIZE,
+  },
+  fileFilter: (req, file, cb) => {
+    if (ALLOWED_DOCUMENT_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type'));
+    }
+  },
+});
+
+// Spreadsheet extensions accepted for bulk imports (checked by extension, since browsers
+// report CSV files under several different MIME types). Legacy .xls files can't be read.
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+// Multer config for bulk import spreadsheets
+export const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (SPREADSHEET_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Upload a CSV or Excel (.xlsx) file'));
+    }
+  },
+});
@@ -1,6 +1,10 @@
 import type { Request, Response, NextFunction } from 'express';
 import { supabase, createAuthenticatedClient, verifyToken } from '../lib/supabase';
-import { getTenantContext, TenantContext } from '../lib/tenant';
+import { getTenantContext, hasStaffCapability, TenantContext } from '../lib/tenant';
+import { isSessionMfaSatisfied } from '../lib/mfa';
+import { isSessionSsoSatisfied } from '../lib/sso';
+import { isSessionActive } from '../lib/sessions';
+import type { StaffCapability } from '../../shared/types';
 
 // Extend Express Request to include auth info
 declare global {
@@ -17,6 +21,48 @@ declare global {
   }
 }
 
+export const ACCESS_TOKEN_COOKIE = 'sb-access-token';
+export const REFRESH_TOKEN_COOKIE = 'sb-refresh-token';
+
+// Refresh tokens are kept for a week; access tokens for as long as Supabase says they're valid
+const REFRESH_TOKEN_MAX_AGE_MS = 60 * 60 * 24 * 7 * 1000;
+
+/**
+ * Store a Supabase session in the browser's auth cookies
+ */
+export function setSessionCookies(
+  res: Response,
+  session: { access_token: string; refresh_token: string; expires_in: number }
+): void {
+  res.cookie(ACCESS_TOKEN_COOKIE, session.access_token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: session.expires_in * 1000,
+    path: '/',
+  });
+
+  res.cookie(REFRESH_TOKEN_COOKIE, session.refresh_token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: REFRESH_TOKEN_MAX_AGE_MS,
+    path: '/',
+  });
+}
+
+export function clearSessionCookies(res: Response): void {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, { path: '/' });
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { path: '/' });
+}
+
+function getSessionContext(req: Request): { ipAddress: string | null; userAgent: string | null } {
+  return {
+    ipAddress: req.ip || null,
+    userAgent: req.get('User-Agent') || null,
+  };
+}
+
 /**
  * Extract access token from request
  * Checks Authorization header (Bearer token) and cookies
@@ -29,7 +75,7 @@ function extractAccessToken(req: Request): string | null {
   }
 
   // Check cookie
-  const accessToken = req.cookies?.['sb-access-token'];
+  const accessToken = req.cookies?.[ACCESS_TOKEN_COOKIE];
   if (accessToken) {
     return accessToken;
   }
@@ -71,6 +117,24 @@ export async function requireAuth(
       return;
     }
 
+    // Sessions that skipped the second factor, e.g. tokens fetched straight from Supabase
+    if (!(await isSessionMfaSatisfied(tenantContext, user.id, accessToken))) {
+      res.status(401).json({ error: 'Two-factor authentication required' });
+      return;
+    }
+
+    // Portal users whose company enforces SSO must have signed in through it
+    if (!(await isSessionSsoSatisfied(tenantContext, accessToken))) {
+      res.status(401).json({ error: 'Single sign-on required' });
+      return;
+    }
+
+    // Sessions signed out from another device or by staff
+    if (!(await isSessionActive(user.id, accessToken, getSessionContext(req)))) {
+      res.status(401).json({ error: 'Session has been signed out' });
+      return;
+    }
+
     // Attach to request
     req.user = {
       id: user.id,
@@ -105,7 +169,12 @@ export async function optionalAuth(
         const supabaseClient = createAuthenticatedClient(accessToken);
         const tenantContext = await getTenantContext(supabase, user.id);
 
-        if (tenantContext) {
+        if (
+          tenantContext &&
+          (await isSessionMfaSatisfied(tenantContext, user.id, accessToken)) &&
+          (await isSessionSsoSatisfied(tenantContext, accessToken)) &&
+          (await isSessionActive(user.id, accessToken, getSessionContext(req)))
+        ) {
           req.user = {
             id: user.id,
             email: user.email || '',
@@ -146,6 +215,26 @@ export function requireStaff(
   next();
 }
 
+/**
+ * Middleware to require a staff role that allows the given action
+ * Must be used after requireAuth
+ */
+export function requireCapability(capability: StaffCapability) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!hasStaffCapability(req.tenant, capability)) {
+      res.status(403).json({ error: 'Your staff role does not allow this action' });
+      return;
+    }
+
+    next();
+  };
+}
+
 /**
  * Middleware to require portal user role
  * Must be used after requireAuth
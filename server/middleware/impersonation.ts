@@ -0,0 +1,78 @@
+import type { Request, Response, NextFunction } from 'express';
+import { getImpersonatedTenantContext, logImpersonationActivity } from '../lib/impersonation';
+
+// Holds the id of the staff user's active impersonation session
+export const IMPERSONATION_COOKIE = 'impersonation-session';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Remember the impersonation session in the staff user's browser
+ */
+export function setImpersonationCookie(res: Response, sessionId: string, expiresAt: string): void {
+  res.cookie(IMPERSONATION_COOKIE, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: Math.max(new Date(expiresAt).getTime() - Date.now(), 0),
+    path: '/api',
+  });
+}
+
+export function clearImpersonationCookie(res: Response): void {
+  res.clearCookie(IMPERSONATION_COOKIE, { path: '/api' });
+}
+
+/**
+ * Middleware to act as the impersonated portal user for the rest of the request
+ * Must be used after requireAuth. Staff without an active session are left as they are.
+ * Writes are refused for read-only staff and otherwise audited under the staff user's id.
+ */
+export async function applyImpersonation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const sessionId = req.cookies?.[IMPERSONATION_COOKIE];
+    if (typeof sessionId !== 'string' || req.tenant?.userType !== 'claims_iq_staff') {
+      next();
+      return;
+    }
+
+    const impersonated = await getImpersonatedTenantContext(req.tenant, sessionId);
+    if (!impersonated) {
+      // Session ended or expired; carry on as the staff user
+      clearImpersonationCookie(res);
+      next();
+      return;
+    }
+
+    const impersonation = impersonated.impersonation!;
+
+    if (!READ_METHODS.includes(req.method)) {
+      if (impersonation.readOnly) {
+        res.status(403).json({ success: false, error: 'Your staff role can only view the portal as a customer' });
+        return;
+      }
+
+      res.on('finish', () => {
+        logImpersonationActivity(impersonated.companyId!, impersonation.staffUserId, 'impersonated_write', {
+          session_id: impersonation.sessionId,
+          portal_user_id: impersonated.userId,
+          method: req.method,
+          path: req.originalUrl,
+          status_code: res.statusCode,
+        }).catch((error) => {
+          console.error('Impersonation audit error:', error);
+        });
+      });
+    }
+
+    req.tenant = impersonated;
+    next();
+  } catch (error) {
+    console.error('Impersonation middleware error:', error);
+    res.status(500).json({ error: 'Authentication error' });
+  }
+}
@@ -0,0 +1,48 @@
+import type { Request, Response, NextFunction } from 'express';
+import { generateDeviceId, type InviteAccessAction, type InviteAccessContext } from '../lib/inviteAccess';
+
+declare global {
+  namespace Express {
+    interface Request {
+      inviteDeviceId?: string;
+    }
+  }
+}
+
+// Identifies the prospect's browser for invites bound to the first device that opens them
+const DEVICE_COOKIE = 'invite-device';
+const DEVICE_COOKIE_MAX_AGE = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+/**
+ * Middleware to give every browser using an invite link a stable random device id
+ * Reuses the id from the invite device cookie, or issues a new one
+ */
+export function inviteDevice(req: Request, res: Response, next: NextFunction): void {
+  let deviceId = req.cookies?.[DEVICE_COOKIE];
+
+  if (typeof deviceId !== 'string' || !/^[0-9a-f]{64}$/.test(deviceId)) {
+    deviceId = generateDeviceId();
+    res.cookie(DEVICE_COOKIE, deviceId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: DEVICE_COOKIE_MAX_AGE,
+      path: '/api',
+    });
+  }
+
+  req.inviteDeviceId = deviceId;
+  next();
+}
+
+/**
+ * Build the device and client details used to check and audit an invite request
+ */
+export function getInviteAccessContext(req: Request, action: InviteAccessAction): InviteAccessContext {
+  return {
+    action,
+    deviceId: req.inviteDeviceId!,
+    ipAddress: req.ip || null,
+    userAgent: req.get('User-Agent') || null,
+  };
+}
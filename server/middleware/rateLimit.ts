@@ -0,0 +1,61 @@
+import type { Request, Response, NextFunction } from 'express';
+import { consumeRateLimit, type RateLimitPolicy } from '../lib/rateLimit';
+
+/**
+ * Send a 429 telling the client when it may try again
+ */
+export function sendRateLimited(res: Response, retryAfterSeconds: number, message?: string): void {
+  res.set('Retry-After', String(retryAfterSeconds));
+  res.status(429).json({
+    error: message || `Too many requests. Please try again in ${formatRetryAfter(retryAfterSeconds)}.`,
+  });
+}
+
+/**
+ * Describe a wait in seconds the way a person would say it
+ */
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Middleware factory counting every request against a rate limit policy
+ * identify returns what to limit by (an IP address, an email, ...); requests it
+ * returns null for are let through for the route's own validation to reject.
+ */
+export function rateLimit(policy: RateLimitPolicy, identify: (req: Request) => string | null) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const identifier = identify(req);
+    if (!identifier) {
+      next();
+      return;
+    }
+
+    const result = await consumeRateLimit(policy, identifier);
+    if (!result.allowed) {
+      sendRateLimited(res, result.retryAfterSeconds);
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Rate limit identifier for the client's IP address
+ */
+export function byIp(req: Request): string | null {
+  return req.ip || null;
+}
+
+/**
+ * Rate limit identifier for the email address in the request body
+ */
+export function byBodyEmail(req: Request): string | null {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+}
@@ -6,6 +6,7 @@ import onboardingRoutes from "./routes/onboarding";
 import portalRoutes from "./routes/portal";
 import adminRoutes from "./routes/admin";
 import inviteRoutes from "./routes/invite";
+import webhookRoutes from "./routes/webhooks";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -23,6 +24,7 @@ export async function registerRoutes(
   app.use("/api/portal", portalRoutes);
   app.use("/api/admin", adminRoutes);
   app.use("/api/invites", inviteRoutes);
+  app.use("/api/webhooks", webhookRoutes);
 
   // Health check endpoint
   app.get("/api/health", (req, res) => {
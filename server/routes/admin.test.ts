@@ -0,0 +1,164 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = await vi.hoisted(async () => {
+  process.env.MFA_ENCRYPTION_KEY = 'test-encryption-key';
+  process.env.INVITE_SIGNING_SECRET = 'test-invite-secret';
+  const { createFakeSupabase } = await import('../tests/fakeSupabase');
+  return createFakeSupabase();
+});
+
+vi.mock('../lib/supabase', async () => (await import('../tests/fakeSupabase')).fakeSupabaseModule(db));
+vi.mock('../services/statusNotification', () => ({ notifyStatusChange: vi.fn().mockResolvedValue({ success: true }) }));
+
+import type { StaffRole } from '../../shared/types';
+import adminRoutes from './admin';
+import { startTestServer } from '../tests/testServer';
+import { staffAuthHeader, staffTables, staffUserId } from '../tests/staff';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+beforeAll(async () => {
+  server = await startTestServer({ '/api/admin': adminRoutes });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+// Company A's project is assigned to the CSM; company B's to someone else
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  db.reset({
+    ...staffTables(),
+    companies: [
+      { id: 'company-a', legal_name: 'Acme Insurance', mfa_required: false },
+      { id: 'company-b', legal_name: 'Beta Mutual', mfa_required: false },
+    ],
+    onboarding_projects: [
+      { id: 'project-a', company_id: 'company-a', status: 'discovery_in_progress', assigned_csm_id: staffUserId('csm') },
+      { id: 'project-b', company_id: 'company-b', status: 'discovery_in_progress', assigned_csm_id: 'staff-other' },
+    ],
+    portal_users: [
+      { id: 'portal-a', company_id: 'company-a', auth_user_id: 'auth-portal-a', is_active: true },
+      { id: 'portal-b', company_id: 'company-b', auth_user_id: 'auth-portal-b', is_active: true },
+    ],
+    activity_logs: [],
+    sso_connections: [],
+  });
+  db.tables['auth.users'].push({ id: 'auth-portal-a' }, { id: 'auth-portal-b' });
+});
+
+const request = (role: StaffRole, method: string, path: string, body?: unknown) =>
+  fetch(`${server.url}/api/admin${path}`, {
+    method,
+    headers: { ...staffAuthHeader(role), ...(body ? { 'content-type': 'application/json' } : {}) },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('admin routes by staff role', () => {
+  it('refuses requests without a staff session', async () => {
+    const response = await fetch(`${server.url}/api/admin/companies`);
+
+    expect(response.status).toBe(401);
+  });
+
+  describe('admin', () => {
+    it('can open and change the status of any project', async () => {
+      expect((await request('admin', 'GET', '/projects/project-b')).status).toBe(200);
+
+      const response = await request('admin', 'PATCH', '/projects/project-b', { status: 'sow_pending' });
+
+      expect(response.status).toBe(200);
+      expect(db.tables.onboarding_projects[1].status).toBe('sow_pending');
+    });
+
+    it('sees every company and can manage security settings', async () => {
+      const { companies } = await (await request('admin', 'GET', '/companies')).json();
+      expect(companies.map((company: { id: string }) => company.id)).toEqual(['company-a', 'company-b']);
+
+      expect((await request('admin', 'PATCH', '/companies/company-b/mfa-policy', { mfaRequired: true })).status).toBe(200);
+      expect((await request('admin', 'GET', '/companies/company-b/sso-connections')).status).toBe(200);
+    });
+  });
+
+  describe('csm', () => {
+    it('can change the status of a project assigned to them', async () => {
+      const response = await request('csm', 'PATCH', '/projects/project-a', { status: 'sow_pending' });
+
+      expect(response.status).toBe(200);
+      expect(db.tables.onboarding_projects[0].status).toBe('sow_pending');
+    });
+
+    it('gets 403 on a project that is not assigned to them', async () => {
+      expect((await request('csm', 'GET', '/projects/project-b')).status).toBe(403);
+      expect((await request('csm', 'PATCH', '/projects/project-b', { status: 'sow_pending' })).status).toBe(403);
+      expect(db.tables.onboarding_projects[1].status).toBe('discovery_in_progress');
+    });
+
+    it('only sees the companies assigned to them', async () => {
+      const { companies } = await (await request('csm', 'GET', '/companies')).json();
+
+      expect(companies.map((company: { id: string }) => company.id)).toEqual(['company-a']);
+      expect((await request('csm', 'GET', '/companies/company-a/portal-users')).status).toBe(200);
+      expect((await request('csm', 'GET', '/companies/company-b/portal-users')).status).toBe(403);
+      expect((await request('csm', 'GET', '/companies/company-b/duplicates')).status).toBe(403);
+    });
+
+    it('can only manage portal users of the companies assigned to them', async () => {
+      expect((await request('csm', 'POST', '/portal-users/portal-b/deactivate')).status).toBe(403);
+      expect((await request('csm', 'GET', '/portal-users/portal-b/sessions')).status).toBe(403);
+      expect((await request('csm', 'DELETE', '/portal-users/portal-b/sessions')).status).toBe(403);
+      expect(db.tables.portal_users[1].is_active).toBe(true);
+
+      expect((await request('csm', 'POST', '/portal-users/portal-a/deactivate')).status).toBe(200);
+      expect(db.tables.portal_users[0].is_active).toBe(false);
+    });
+
+    it('cannot merge companies or change security settings', async () => {
+      expect((await request('csm', 'POST', '/companies/merge', {})).status).toBe(403);
+      expect((await request('csm', 'PATCH', '/companies/company-a/mfa-policy', { mfaRequired: true })).status).toBe(403);
+      expect((await request('csm', 'GET', '/companies/company-a/sso-connections')).status).toBe(403);
+    });
+  });
+
+  describe('sales', () => {
+    it('can edit a project but gets 403 on a status change', async () => {
+      expect((await request('sales', 'PATCH', '/projects/project-b', { notes: 'Renewal in Q3' })).status).toBe(200);
+
+      const response = await request('sales', 'PATCH', '/projects/project-b', { status: 'sow_pending' });
+
+      expect(response.status).toBe(403);
+      expect(db.tables.onboarding_projects[1].status).toBe('discovery_in_progress');
+    });
+
+    it('cannot manage portal users', async () => {
+      expect((await request('sales', 'POST', '/portal-users/portal-a/deactivate')).status).toBe(403);
+      expect(db.tables.portal_users[0].is_active).toBe(true);
+    });
+  });
+
+  describe('support', () => {
+    it('can view every project and company', async () => {
+      expect((await request('support', 'GET', '/projects/project-b')).status).toBe(200);
+      expect((await request('support', 'GET', '/companies/company-b/portal-users')).status).toBe(200);
+    });
+
+    it.each([
+      ['PATCH', '/projects/project-a', { notes: 'Updated' }],
+      ['POST', '/companies/merge', {}],
+      ['POST', '/portal-users', {}],
+      ['POST', '/portal-users/portal-a/deactivate', undefined],
+      ['POST', '/portal-users/portal-a/reactivate', undefined],
+      ['DELETE', '/portal-users/portal-a/sessions', undefined],
+      ['DELETE', '/portal-users/portal-a/sessions/session-1', undefined],
+      ['PATCH', '/companies/company-a/mfa-policy', { mfaRequired: true }],
+      ['POST', '/companies/company-a/sso-connections', {}],
+      ['PATCH', '/sso-connections/sso-1', {}],
+      ['DELETE', '/sso-connections/sso-1', undefined],
+    ])('gets 403 on %s %s', async (method, path, body) => {
+      const response = await request('support', method, path, body);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
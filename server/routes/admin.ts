@@ -1,9 +1,35 @@
 import { Router, Request, Response } from 'express';
-import { requireAuth, requireStaff } from '../middleware/auth';
-import { updateProjectSchema } from '../../shared/validation';
+import { requireAuth, requireStaff, requireCapability } from '../middleware/auth';
+import {
+  getAccessibleCompanyIds,
+  hasStaffCapability,
+  requireCompanyAccess,
+  requireProjectAccess,
+  TenantAccessError,
+} from '../lib/tenant';
+import {
+  updateProjectSchema,
+  mergeCompaniesSchema,
+  provisionPortalUserSchema,
+  startImpersonationSchema,
+  updateMfaPolicySchema,
+  createSsoConnectionSchema,
+  updateSsoConnectionSchema,
+  sessionIdSchema,
+} from '../../shared/validation';
 import { fromZodError } from 'zod-validation-error';
-import type { ProjectSummary } from '../../shared/types';
+import type { ProjectSummary, ScheduledJobStatus, JobRun } from '../../shared/types';
 import { notifyStatusChange } from '../services/statusNotification';
+import { findDuplicateCompanies, mergeCompanies, setCompanyMfaRequired } from '../lib/company';
+import { provisionPortalUser, setPortalUserActive, getCompanyPortalAccess } from '../lib/portalUsers';
+import { startImpersonation, endImpersonation } from '../lib/impersonation';
+import { listSsoConnections, createSsoConnection, updateSsoConnection, deleteSsoConnection } from '../lib/sso';
+import { listPortalUserSessions, revokePortalUserSessions } from '../lib/sessions';
+import {
+  IMPERSONATION_COOKIE,
+  setImpersonationCookie,
+  clearImpersonationCookie,
+} from '../middleware/impersonation';
 
 const router = Router();
 
@@ -11,6 +37,43 @@ const router = Router();
 router.use(requireAuth);
 router.use(requireStaff);
 
+/**
+ * Check that the caller may see a company, answering 403 if not
+ * CSMs only see the companies with a project assigned to them.
+ */
+async function checkCompanyAccess(req: Request, res: Response, companyId: string | null | undefined): Promise<boolean> {
+  try {
+    if (!companyId) {
+      throw new TenantAccessError('You can only view customers assigned to you');
+    }
+    await requireCompanyAccess(req.supabaseClient!, req.tenant!, companyId);
+    return true;
+  } catch (e) {
+    if (e instanceof TenantAccessError) {
+      res.status(403).json({ success: false, error: 'You can only view customers assigned to you' });
+      return false;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Check that the caller may see the company a portal user or contact belongs to
+ */
+async function checkCompanyAccessFor(
+  req: Request,
+  res: Response,
+  table: 'portal_users' | 'contacts',
+  id: string
+): Promise<boolean> {
+  if (hasStaffCapability(req.tenant!, 'projects.view_all')) {
+    return true;
+  }
+
+  const { data: row } = await req.supabaseClient!.from(table).select('company_id').eq('id', id).maybeSingle();
+  return checkCompanyAccess(req, res, row?.company_id);
+}
+
 /**
  * GET /api/admin/projects
  * Get all projects (admin view)
@@ -18,10 +81,14 @@ router.use(requireStaff);
 router.get('/projects', async (req: Request, res: Response): Promise<void> => {
   try {
     const client = req.supabaseClient!;
+    const tenant = req.tenant!;
 
     // Support filtering by status
     const { status } = req.query;
 
+    // CSMs only see the projects assigned to them
+    const assignedOnly = !hasStaffCapability(tenant, 'projects.view_all');
+
     let query = client
       .from('onboarding_projects')
       .select(`
@@ -42,13 +109,17 @@ router.get('/projects', async (req: Request, res: Response): Promise<void> => {
       query = query.eq('status', status);
     }
 
+    if (assignedOnly) {
+      query = query.eq('assigned_csm_id', tenant.userId);
+    }
+
     const { data: projects, error } = await query;
 
     if (error) {
       console.error('Admin projects fetch error:', error);
 
       // Try alternate query without join filter
-      const { data: altProjects, error: altError } = await client
+      let altQuery = client
         .from('onboarding_projects')
         .select(`
           id,
@@ -62,6 +133,12 @@ router.get('/projects', async (req: Request, res: Response): Promise<void> => {
         `)
         .order('created_at', { ascending: false });
 
+      if (assignedOnly) {
+        altQuery = altQuery.eq('assigned_csm_id', tenant.userId);
+      }
+
+      const { data: altProjects, error: altError } = await altQuery;
+
       if (altError) {
         res.status(500).json({ success: false, error: 'Failed to fetch projects' });
         return;
@@ -132,8 +209,20 @@ router.get('/projects', async (req: Request, res: Response): Promise<void> => {
 router.get('/projects/:projectId', async (req: Request, res: Response): Promise<void> => {
   try {
     const client = req.supabaseClient!;
+    const tenant = req.tenant!;
     const { projectId } = req.params;
 
+    // CSMs can only open projects assigned to them
+    try {
+      await requireProjectAccess(client, tenant, projectId);
+    } catch (e) {
+      if (e instanceof TenantAccessError) {
+        res.status(403).json({ success: false, error: e.message });
+        return;
+      }
+      throw e;
+    }
+
     const { data: project, error } = await client
       .from('onboarding_projects')
       .select(`
@@ -176,7 +265,7 @@ router.get('/projects/:projectId', async (req: Request, res: Response): Promise<
  * PATCH /api/admin/projects/:projectId
  * Update a project (admin only)
  */
-router.patch('/projects/:projectId', async (req: Request, res: Response): Promise<void> => {
+router.patch('/projects/:projectId', requireCapability('projects.edit'), async (req: Request, res: Response): Promise<void> => {
   try {
     const client = req.supabaseClient!;
     const tenant = req.tenant!;
@@ -190,6 +279,16 @@ router.patch('/projects/:projectId', async (req: Request, res: Response): Promis
       return;
     }
 
+    try {
+      await requireProjectAccess(client, tenant, projectId);
+    } catch (e) {
+      if (e instanceof TenantAccessError) {
+        res.status(403).json({ success: false, error: e.message });
+        return;
+      }
+      throw e;
+    }
+
     // Verify project exists
     const { data: existing, error: fetchError } = await client
       .from('onboarding_projects')
@@ -202,6 +301,15 @@ router.patch('/projects/:projectId', async (req: Request, res: Response): Promis
       return;
     }
 
+    if (
+      parseResult.data.status &&
+      parseResult.data.status !== existing.status &&
+      !hasStaffCapability(tenant, 'projects.change_status')
+    ) {
+      res.status(403).json({ success: false, error: 'Your staff role does not allow changing project status' });
+      return;
+    }
+
     // Update the project
     const { error: updateError } = await client
       .from('onboarding_projects')
@@ -253,11 +361,19 @@ router.patch('/projects/:projectId', async (req: Request, res: Response): Promis
 router.get('/stats', async (req: Request, res: Response): Promise<void> => {
   try {
     const client = req.supabaseClient!;
+    const tenant = req.tenant!;
+    const assignedOnly = !hasStaffCapability(tenant, 'projects.view_all');
 
     // Get counts by status
-    const { data: projects, error } = await client
+    let projectsQuery = client
       .from('onboarding_projects')
-      .select('status');
+      .select('status, company_id');
+
+    if (assignedOnly) {
+      projectsQuery = projectsQuery.eq('assigned_csm_id', tenant.userId);
+    }
+
+    const { data: projects, error } = await projectsQuery;
 
     if (error) {
       console.error('Stats fetch error:', error);
@@ -270,10 +386,16 @@ router.get('/stats', async (req: Request, res: Response): Promise<void> => {
       statusCounts[project.status] = (statusCounts[project.status] || 0) + 1;
     }
 
-    // Get total companies
-    const { count: companyCount } = await client
-      .from('companies')
-      .select('*', { count: 'exact', head: true });
+    // Get total companies (a CSM counts the companies behind their projects)
+    let companyCount: number | null;
+    if (assignedOnly) {
+      companyCount = new Set((projects || []).map((project) => project.company_id)).size;
+    } else {
+      const { count } = await client
+        .from('companies')
+        .select('*', { count: 'exact', head: true });
+      companyCount = count;
+    }
 
     res.json({
       success: true,
@@ -289,6 +411,49 @@ router.get('/stats', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/admin/jobs
+ * Get background job state with each job's most recent runs
+ */
+router.get('/jobs', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const client = req.supabaseClient!;
+
+    const { data: jobs, error: jobsError } = await client
+      .from('scheduled_jobs')
+      .select('name, description, interval_seconds, enabled, next_run_at, locked_until, last_run_at, last_success_at, last_error')
+      .order('name');
+
+    if (jobsError) {
+      console.error('Jobs fetch error:', jobsError);
+      res.status(500).json({ success: false, error: 'Failed to fetch jobs' });
+      return;
+    }
+
+    const { data: runs, error: runsError } = await client
+      .from('job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(100);
+
+    if (runsError) {
+      console.error('Job runs fetch error:', runsError);
+      res.status(500).json({ success: false, error: 'Failed to fetch jobs' });
+      return;
+    }
+
+    const result: ScheduledJobStatus[] = (jobs || []).map((job) => ({
+      ...job,
+      recent_runs: ((runs || []) as JobRun[]).filter((run) => run.job_name === job.name).slice(0, 5),
+    }));
+
+    res.json({ success: true, jobs: result });
+  } catch (error) {
+    console.error('Jobs fetch error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch jobs' });
+  }
+});
+
 /**
  * GET /api/admin/companies
  * Get all companies
@@ -297,7 +462,7 @@ router.get('/companies', async (req: Request, res: Response): Promise<void> => {
   try {
     const client = req.supabaseClient!;
 
-    const { data: companies, error } = await client
+    let query = client
       .from('companies')
       .select(`
         *,
@@ -306,6 +471,14 @@ router.get('/companies', async (req: Request, res: Response): Promise<void> => {
       `)
       .order('created_at', { ascending: false });
 
+    // CSMs only see the customers assigned to them
+    const accessibleCompanyIds = await getAccessibleCompanyIds(client, req.tenant!);
+    if (accessibleCompanyIds) {
+      query = query.in('id', accessibleCompanyIds);
+    }
+
+    const { data: companies, error } = await query;
+
     if (error) {
       console.error('Companies fetch error:', error);
       res.status(500).json({ success: false, error: 'Failed to fetch companies' });
@@ -320,61 +493,193 @@ router.get('/companies', async (req: Request, res: Response): Promise<void> => {
 });
 
 /**
- * POST /api/admin/portal-users
- * Create a portal user for a contact
+ * GET /api/admin/companies/duplicates
+ * Get companies flagged as likely duplicates at onboarding submission
+ * Flags are dropped once either company has been merged away
  */
-router.post('/portal-users', async (req: Request, res: Response): Promise<void> => {
+router.get('/companies/duplicates', async (req: Request, res: Response): Promise<void> => {
   try {
     const client = req.supabaseClient!;
-    const { contactId } = req.body;
 
-    if (!contactId) {
-      res.status(400).json({ success: false, error: 'Contact ID is required' });
+    const { data: logs, error } = await client
+      .from('activity_logs')
+      .select('id, project_id, details, created_at, project:onboarding_projects(company_id)')
+      .eq('action', 'duplicate_company_flagged')
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Duplicate flags fetch error:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch duplicate companies' });
       return;
     }
 
-    // Get the contact
-    const { data: contact, error: contactError } = await client
-      .from('contacts')
-      .select('id, email, company_id')
-      .eq('id', contactId)
-      .single();
+    // Resolve which of the flagged companies still exist; CSMs only see pairs of their own customers
+    const accessibleCompanyIds = await getAccessibleCompanyIds(client, req.tenant!);
+    const companyIds = new Set<string>();
+    for (const log of logs || []) {
+      companyIds.add(log.details?.company_id);
+      for (const match of log.details?.matches || []) {
+        companyIds.add(match.company_id);
+      }
+    }
+    const visibleCompanyIds = Array.from(companyIds).filter(
+      (id) => id && (!accessibleCompanyIds || accessibleCompanyIds.includes(id))
+    );
+
+    const { data: companies } = await client
+      .from('companies')
+      .select('id, legal_name, dba_name, website, city, state, postal_code')
+      .in('id', visibleCompanyIds);
+
+    const companiesById = new Map((companies || []).map((c: any) => [c.id, c]));
+
+    const duplicates = [];
+    const seenPairs = new Set<string>();
+    for (const log of logs || []) {
+      const company = companiesById.get(log.details?.company_id);
+      if (!company) continue;
+
+      for (const match of log.details?.matches || []) {
+        const existing = companiesById.get(match.company_id);
+        const pairKey = [company.id, match.company_id].sort().join(':');
+        if (!existing || existing.id === company.id || seenPairs.has(pairKey)) continue;
+        seenPairs.add(pairKey);
+
+        duplicates.push({
+          projectId: log.project_id,
+          flaggedAt: log.created_at,
+          company,
+          existingCompany: existing,
+          score: match.score,
+          reasons: match.reasons,
+        });
+      }
+    }
+
+    res.json({ success: true, duplicates });
+  } catch (error) {
+    console.error('Duplicate flags fetch error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch duplicate companies' });
+  }
+});
+
+/**
+ * GET /api/admin/companies/:companyId/duplicates
+ * Find existing companies that look like the same carrier
+ */
+router.get('/companies/:companyId/duplicates', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const client = req.supabaseClient!;
+    const { companyId } = req.params;
 
-    if (contactError || !contact) {
-      res.status(404).json({ success: false, error: 'Contact not found' });
+    if (!(await checkCompanyAccess(req, res, companyId))) {
       return;
     }
 
-    // Check if portal user already exists
-    const { data: existingPortalUser } = await client
-      .from('portal_users')
-      .select('id')
-      .eq('contact_id', contactId)
+    const { data: company, error } = await client
+      .from('companies')
+      .select('id, legal_name, dba_name, website, postal_code')
+      .eq('id', companyId)
       .single();
 
-    if (existingPortalUser) {
-      res.status(400).json({ success: false, error: 'Portal user already exists for this contact' });
+    if (error || !company) {
+      res.status(404).json({ success: false, error: 'Company not found' });
       return;
     }
 
-    // Note: In a real implementation, you would:
-    // 1. Create a Supabase auth user for this email (or invite them)
-    // 2. Create the portal_users record with the auth_user_id
-    // For now, we'll return instructions for the manual step
+    const matches = await findDuplicateCompanies(company, company.id);
+    const accessibleCompanyIds = await getAccessibleCompanyIds(client, req.tenant!);
 
     res.json({
       success: true,
-      message: 'To complete portal user setup:',
-      steps: [
-        '1. The contact will need to use the magic link login with their email',
-        '2. After their first login, their auth_user_id will be available',
-        '3. Create portal_users record linking auth_user_id to company_id and contact_id',
-      ],
-      contact: {
-        id: contact.id,
-        email: contact.email,
-        companyId: contact.company_id,
-      },
+      matches: accessibleCompanyIds
+        ? matches.filter((match) => accessibleCompanyIds.includes(match.company.id))
+        : matches,
+    });
+  } catch (error) {
+    console.error('Duplicate companies fetch error:', error);
+    res.status(500).json({ success: false, error: 'Failed to find duplicate companies' });
+  }
+});
+
+/**
+ * POST /api/admin/companies/merge
+ * Merge the source company into the target company
+ * Re-parents contacts, projects, portal users and invites, then deletes the source
+ */
+router.post('/companies/merge', requireCapability('companies.merge'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tenant = req.tenant!;
+
+    const parseResult = mergeCompaniesSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const { sourceCompanyId, targetCompanyId } = parseResult.data;
+    const result = await mergeCompanies(sourceCompanyId, targetCompanyId, tenant.userId);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, moved: result.moved });
+  } catch (error) {
+    console.error('Company merge error:', error);
+    res.status(500).json({ success: false, error: 'Failed to merge companies' });
+  }
+});
+
+/**
+ * GET /api/admin/companies/:companyId/portal-users
+ * List a company's contacts with their portal access
+ */
+router.get('/companies/:companyId/portal-users', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await checkCompanyAccess(req, res, req.params.companyId))) {
+      return;
+    }
+
+    const entries = await getCompanyPortalAccess(req.params.companyId);
+    res.json({ success: true, portalUsers: entries });
+  } catch (error) {
+    console.error('Portal users fetch error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch portal users' });
+  }
+});
+
+/**
+ * POST /api/admin/portal-users
+ * Create a portal user for a contact and email them their sign-in details
+ */
+router.post('/portal-users', requireCapability('portal_users.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = provisionPortalUserSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: fromZodError(parseResult.error).message });
+      return;
+    }
+
+    const { contactId, authMethod } = parseResult.data;
+    if (!(await checkCompanyAccessFor(req, res, 'contacts', contactId))) {
+      return;
+    }
+
+    const result = await provisionPortalUser(contactId, authMethod);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      portalUserId: result.portalUserId,
+      emailSent: result.emailSent,
     });
   } catch (error) {
     console.error('Portal user creation error:', error);
@@ -382,4 +687,311 @@ router.post('/portal-users', async (req: Request, res: Response): Promise<void>
   }
 });
 
+/**
+ * POST /api/admin/portal-users/:id/deactivate
+ * Revoke a portal user's access and sign them out everywhere
+ */
+router.post('/portal-users/:id/deactivate', requireCapability('portal_users.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await checkCompanyAccessFor(req, res, 'portal_users', req.params.id))) {
+      return;
+    }
+
+    const result = await setPortalUserActive(req.params.id, false);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Portal user deactivate error:', error);
+    res.status(500).json({ success: false, error: 'Failed to deactivate portal user' });
+  }
+});
+
+/**
+ * POST /api/admin/portal-users/:id/reactivate
+ * Restore a deactivated portal user's access
+ */
+router.post('/portal-users/:id/reactivate', requireCapability('portal_users.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await checkCompanyAccessFor(req, res, 'portal_users', req.params.id))) {
+      return;
+    }
+
+    const result = await setPortalUserActive(req.params.id, true);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Portal user reactivate error:', error);
+    res.status(500).json({ success: false, error: 'Failed to reactivate portal user' });
+  }
+});
+
+/**
+ * GET /api/admin/portal-users/:id/sessions
+ * List the devices a portal user is signed in on
+ */
+router.get('/portal-users/:id/sessions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await checkCompanyAccessFor(req, res, 'portal_users', req.params.id))) {
+      return;
+    }
+
+    const result = await listPortalUserSessions(req.params.id);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, sessions: result.sessions });
+  } catch (error) {
+    console.error('Portal user sessions fetch error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch sessions' });
+  }
+});
+
+/**
+ * DELETE /api/admin/portal-users/:id/sessions/:sessionId
+ * Sign a portal user out of one device
+ */
+router.delete('/portal-users/:id/sessions/:sessionId', requireCapability('portal_users.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = sessionIdSchema.safeParse(req.params.sessionId);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: fromZodError(parseResult.error).message });
+      return;
+    }
+
+    if (!(await checkCompanyAccessFor(req, res, 'portal_users', req.params.id))) {
+      return;
+    }
+
+    const result = await revokePortalUserSessions(req.params.id, req.tenant!.userId, parseResult.data);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Portal user session revoke error:', error);
+    res.status(500).json({ success: false, error: 'Failed to sign out session' });
+  }
+});
+
+/**
+ * DELETE /api/admin/portal-users/:id/sessions
+ * Sign a portal user out everywhere
+ */
+router.delete('/portal-users/:id/sessions', requireCapability('portal_users.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await checkCompanyAccessFor(req, res, 'portal_users', req.params.id))) {
+      return;
+    }
+
+    const result = await revokePortalUserSessions(req.params.id, req.tenant!.userId);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, revoked: result.revoked });
+  } catch (error) {
+    console.error('Portal user sessions revoke error:', error);
+    res.status(500).json({ success: false, error: 'Failed to sign out sessions' });
+  }
+});
+
+/**
+ * PATCH /api/admin/companies/:companyId/mfa-policy
+ * Require or stop requiring two-factor authentication for a company's portal users
+ */
+router.patch('/companies/:companyId/mfa-policy', requireCapability('companies.security'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = updateMfaPolicySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: fromZodError(parseResult.error).message });
+      return;
+    }
+
+    const result = await setCompanyMfaRequired(req.params.companyId, parseResult.data.mfaRequired);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('MFA policy update error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update two-factor policy' });
+  }
+});
+
+/**
+ * GET /api/admin/companies/:companyId/sso-connections
+ * List a company's identity providers with the details to configure in each
+ */
+router.get('/companies/:companyId/sso-connections', requireCapability('companies.security'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const connections = await listSsoConnections(req.params.companyId);
+    res.json({ success: true, connections });
+  } catch (error) {
+    console.error('SSO connections fetch error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch SSO connections' });
+  }
+});
+
+/**
+ * POST /api/admin/companies/:companyId/sso-connections
+ * Add an OIDC or SAML identity provider for a company
+ */
+router.post('/companies/:companyId/sso-connections', requireCapability('companies.security'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = createSsoConnectionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: fromZodError(parseResult.error).message });
+      return;
+    }
+
+    const result = await createSsoConnection(req.params.companyId, parseResult.data, req.tenant!.userId);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.status(201).json({ success: true, connection: result.connection });
+  } catch (error) {
+    console.error('SSO connection create error:', error);
+    res.status(500).json({ success: false, error: 'Failed to create SSO connection' });
+  }
+});
+
+/**
+ * PATCH /api/admin/sso-connections/:id
+ * Update an identity provider's name, domains, status, client secret or metadata
+ */
+router.patch('/sso-connections/:id', requireCapability('companies.security'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = updateSsoConnectionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: fromZodError(parseResult.error).message });
+      return;
+    }
+
+    const result = await updateSsoConnection(req.params.id, parseResult.data);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('SSO connection update error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update SSO connection' });
+  }
+});
+
+/**
+ * DELETE /api/admin/sso-connections/:id
+ * Remove an identity provider
+ */
+router.delete('/sso-connections/:id', requireCapability('companies.security'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await deleteSsoConnection(req.params.id);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('SSO connection delete error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete SSO connection' });
+  }
+});
+
+/**
+ * POST /api/admin/impersonation
+ * Start viewing the portal as a portal user
+ */
+router.post('/impersonation', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = startImpersonationSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: fromZodError(parseResult.error).message });
+      return;
+    }
+
+    const tenant = req.tenant!;
+
+    // Only one impersonation session at a time
+    const previousSessionId = req.cookies?.[IMPERSONATION_COOKIE];
+    if (typeof previousSessionId === 'string') {
+      await endImpersonation(previousSessionId, tenant.userId);
+    }
+
+    const result = await startImpersonation(tenant, parseResult.data);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    setImpersonationCookie(res, result.sessionId!, result.expiresAt!);
+
+    res.status(201).json({
+      success: true,
+      sessionId: result.sessionId,
+      expiresAt: result.expiresAt,
+    });
+  } catch (error) {
+    console.error('Start impersonation error:', error);
+    res.status(500).json({ success: false, error: 'Failed to start impersonation' });
+  }
+});
+
+/**
+ * DELETE /api/admin/impersonation
+ * Stop viewing the portal as a customer
+ */
+router.delete('/impersonation', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionId = req.cookies?.[IMPERSONATION_COOKIE];
+    clearImpersonationCookie(res);
+
+    if (typeof sessionId !== 'string') {
+      res.json({ success: true });
+      return;
+    }
+
+    const result = await endImpersonation(sessionId, req.tenant!.userId);
+
+    // An expired session has nothing left to end
+    if (!result.success && result.status !== 404) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('End impersonation error:', error);
+    res.status(500).json({ success: false, error: 'Failed to end impersonation' });
+  }
+});
+
 export default router;
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = await vi.hoisted(async () => {
+  process.env.MFA_ENCRYPTION_KEY = 'test-encryption-key';
+  process.env.INVITE_SIGNING_SECRET = 'test-invite-secret';
+  const { createFakeSupabase } = await import('../tests/fakeSupabase');
+  return createFakeSupabase();
+});
+
+vi.mock('../lib/supabase', async () => (await import('../tests/fakeSupabase')).fakeSupabaseModule(db));
+vi.mock('../lib/password', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/password')>()),
+  verifyUserPassword: vi.fn(),
+}));
+
+import authRoutes from './auth';
+import { verifyUserPassword } from '../lib/password';
+import { startTestServer } from '../tests/testServer';
+
+const { publicKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+beforeAll(async () => {
+  server = await startTestServer({ '/api/auth': authRoutes });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  db.reset({
+    sso_connections: [
+      {
+        id: 'saml-1',
+        company_id: 'company-a',
+        protocol: 'saml',
+        name: 'Acme SSO',
+        email_domains: ['acme.com'],
+        is_active: true,
+        saml_entity_id: 'https://idp.example.com',
+        saml_sso_url: 'https://idp.example.com/sso',
+        saml_certificates: [publicKey],
+      },
+    ],
+  });
+});
+
+const get = (path: string, cookie?: string) =>
+  fetch(`${server.url}${path}`, { redirect: 'manual', headers: cookie ? { cookie } : {} });
+
+const postForm = (path: string, form: Record<string, string>, cookie?: string) =>
+  fetch(`${server.url}${path}`, {
+    method: 'POST',
+    redirect: 'manual',
+    headers: { 'content-type': 'application/x-www-form-urlencoded', ...(cookie ? { cookie } : {}) },
+    body: new URLSearchParams(form),
+  });
+
+// Start a SAML sign-in and return the RelayState sent to the IdP and the cookie given to the browser
+async function startSamlSignIn(): Promise<{ relayState: string; cookie: string }> {
+  const response = await get('/api/auth/sso/start?email=ada@acme.com');
+  expect(response.status).toBe(302);
+
+  const relayState = new URL(response.headers.get('location')!).searchParams.get('RelayState')!;
+  const setCookie = response.headers.get('set-cookie')!;
+  return { relayState, cookie: setCookie.split(';')[0] };
+}
+
+function loginError(response: Response): string | null {
+  const location = response.headers.get('location') || '';
+  return location.startsWith('/login?') ? new URLSearchParams(location.slice('/login?'.length)).get('error') : null;
+}
+
+describe('GET /sso/start', () => {
+  it('ties the sign-in to the browser with an httpOnly state cookie', async () => {
+    const response = await get('/api/auth/sso/start?email=ada@acme.com');
+    const setCookie = response.headers.get('set-cookie')!;
+    const relayState = new URL(response.headers.get('location')!).searchParams.get('RelayState');
+
+    expect(setCookie).toContain(`sso-state=${relayState};`);
+    expect(setCookie).toContain('Path=/api/auth/sso');
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).toContain('SameSite=Lax');
+  });
+});
+
+describe('POST /sso/saml/:connectionId/acs', () => {
+  const expired = 'Your sign-in has expired. Please start again from the login page.';
+
+  it('rejects a response posted without the state cookie and leaves the sign-in unused', async () => {
+    const { relayState } = await startSamlSignIn();
+
+    const response = await postForm('/api/auth/sso/saml/saml-1/acs', {
+      SAMLResponse: 'response',
+      RelayState: relayState,
+    });
+
+    expect(response.status).toBe(302);
+    expect(loginError(response)).toBe(expired);
+    expect(db.tables.sso_login_states[0].consumed_at ?? null).toBeNull();
+  });
+
+  it('rejects a response posted with another sign-in\'s cookie', async () => {
+    const attacker = await startSamlSignIn();
+    const victim = await startSamlSignIn();
+
+    const response = await postForm(
+      '/api/auth/sso/saml/saml-1/acs',
+      { SAMLResponse: 'response', RelayState: attacker.relayState },
+      victim.cookie
+    );
+
+    expect(loginError(response)).toBe(expired);
+  });
+
+  it('checks the response once the cookie matches, and clears the cookie', async () => {
+    const { relayState, cookie } = await startSamlSignIn();
+
+    const response = await postForm(
+      '/api/auth/sso/saml/saml-1/acs',
+      { SAMLResponse: 'response', RelayState: relayState },
+      cookie
+    );
+
+    // Past the state check, the unsigned placeholder response fails validation
+    expect(loginError(response)).toBe('Single sign-on failed. Please try again.');
+    expect(response.headers.get('set-cookie')).toMatch(/^sso-state=;/);
+  });
+});
+
+describe('GET /sso/oidc/callback', () => {
+  it('rejects a callback without the state cookie', async () => {
+    const response = await get('/api/auth/sso/oidc/callback?code=authorization-code&state=oidc-state');
+
+    expect(response.status).toBe(302);
+    expect(loginError(response)).toBe('Your sign-in has expired. Please start again from the login page.');
+  });
+});
+
+describe('POST /login-password', () => {
+  const login = (email: string) =>
+    fetch(`${server.url}/api/auth/login-password`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email, password: 'correct horse battery staple' }),
+    });
+
+  // Supabase Auth never accepts the password in these tests, so each sign-in falls back to the local hash
+  it.each([
+    ['the local password is wrong', { success: false, error: 'Invalid email or password' }, 'wrong'],
+    ['syncing the local password to Supabase Auth fails', { success: true, userId: 'auth-missing' }, 'sync'],
+  ])('counts a failed sign-in when %s', async (_case, verification, mailbox) => {
+    vi.mocked(verifyUserPassword).mockResolvedValue(verification);
+    const email = `${mailbox}@example.com`;
+
+    // The first three failures are free; the fourth starts the backoff
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      const response = await login(email);
+      expect(response.status).toBe(401);
+    }
+
+    const throttled = await login(email);
+    expect(throttled.status).toBe(429);
+    expect((await throttled.json()).error).toMatch(/^Too many sign-in attempts/);
+  });
+});
@@ -1,7 +1,16 @@
 import { Router, Request, Response } from 'express';
-import { supabase } from '../lib/supabase';
-import { loginSchema, verifyOtpSchema } from '../../shared/validation';
-import { requireAuth } from '../middleware/auth';
+import { supabase, verifyToken, getTokenSessionId } from '../lib/supabase';
+import { loginSchema, verifyOtpSchema, mfaCodeSchema, mfaChallengeSchema, sessionIdSchema } from '../../shared/validation';
+import {
+  requireAuth,
+  optionalAuth,
+  setSessionCookies,
+  clearSessionCookies,
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+} from '../middleware/auth';
+import { applyImpersonation, clearImpersonationCookie } from '../middleware/impersonation';
+import { rateLimit, sendRateLimited, formatRetryAfter, byIp, byBodyEmail } from '../middleware/rateLimit';
 import { fromZodError } from 'zod-validation-error';
 import { z } from 'zod';
 import {
@@ -11,7 +20,52 @@ import {
   resetPasswordWithToken,
   setUserPassword,
   validatePasswordStrength,
+  getPasswordContext,
 } from '../lib/password';
+import type { PasswordContext } from '../lib/passwordStrength';
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockAccount,
+  logSecurityEvent,
+  OTP_VERIFY_POLICY,
+  MFA_VERIFY_IP_POLICY,
+  AUTH_EMAIL_ADDRESS_POLICY,
+  AUTH_EMAIL_IP_POLICY,
+  SSO_IP_POLICY,
+  type LoginAttemptContext,
+  type LoginThrottle,
+} from '../lib/loginProtection';
+import { resetRateLimit } from '../lib/rateLimit';
+import {
+  createMfaChallenge,
+  beginChallengeEnrollment,
+  completeMfaChallenge,
+  getMfaChallengeUser,
+  getMfaStatus,
+  beginMfaEnrollment,
+  confirmMfaEnrollment,
+  markSessionMfaVerified,
+  verifyMfaCode,
+  regenerateRecoveryCodes,
+  disableMfa,
+  forgetMfaSession,
+  isMfaRequired,
+  type PendingSession,
+} from '../lib/mfa';
+import {
+  findSsoConnectionForEmail,
+  getRequiredSsoConnection,
+  startSsoLogin,
+  completeOidcLogin,
+  completeSamlLogin,
+  completeSsoSignIn,
+  getSamlServiceProviderMetadata,
+  type SsoIdentity,
+} from '../lib/sso';
+import { registerSession, listSessions, revokeSessions, revokeSession, revokeCurrentSession } from '../lib/sessions';
+import type { SsoProtocol } from '../../shared/types';
 
 // Password validation schemas
 const passwordLoginSchema = z.object({
@@ -40,13 +94,107 @@ const resetPasswordSchema = z.object({
   path: ['confirmPassword'],
 });
 
+const passwordStrengthSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  // Reset token, so the reset page can check the password against the user's details
+  token: z.string().optional(),
+});
+
+const unlockAccountSchema = z.object({
+  token: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid unlock token'),
+});
+
 const router = Router();
 
+// Limits on emails sent from the login pages, per IP address and per recipient
+const authEmailLimits = [
+  rateLimit(AUTH_EMAIL_IP_POLICY, byIp),
+  rateLimit(AUTH_EMAIL_ADDRESS_POLICY, byBodyEmail),
+];
+
+function getLoginAttemptContext(req: Request): LoginAttemptContext {
+  return {
+    ipAddress: req.ip || null,
+    userAgent: req.get('User-Agent') || null,
+  };
+}
+
+const MFA_CHALLENGE_COOKIE = 'mfa-challenge';
+
+/**
+ * Hold a new session back if the user has to pass two-factor authentication
+ * Sets the challenge cookie and returns the challenge, or null when the session can be issued.
+ */
+async function holdSessionForMfa(
+  res: Response,
+  authUserId: string,
+  session: PendingSession
+): Promise<{ enrollmentRequired: boolean } | null> {
+  const challenge = await createMfaChallenge(authUserId, {
+    access_token: session.access_token,
+    refresh_token: session.refresh_token,
+    expires_in: session.expires_in,
+    expires_at: session.expires_at,
+  });
+
+  if (!challenge) {
+    return null;
+  }
+
+  res.cookie(MFA_CHALLENGE_COOKIE, challenge.token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: new Date(challenge.expiresAt).getTime() - Date.now(),
+    path: '/api/auth',
+  });
+
+  return { enrollmentRequired: challenge.enrollmentRequired };
+}
+
+/**
+ * Hand a new session to the browser and add it to the session registry
+ */
+async function startSession(req: Request, res: Response, authUserId: string, session: PendingSession): Promise<void> {
+  await registerSession(authUserId, session.access_token, getLoginAttemptContext(req));
+  setSessionCookies(res, session);
+}
+
+/**
+ * Refuse password and magic link sign-in for users whose company requires SSO
+ * Returns true when the response has been sent.
+ */
+async function refuseIfSsoRequired(res: Response, email: string): Promise<boolean> {
+  if (!(await getRequiredSsoConnection(email))) {
+    return false;
+  }
+
+  res.status(403).json({
+    error: 'Your organization requires single sign-on. Continue with SSO to sign in.',
+    ssoRequired: true,
+  });
+  return true;
+}
+
+/**
+ * Refuse a password sign-in that has been throttled or whose account is locked
+ */
+function sendLoginThrottled(res: Response, throttle: LoginThrottle): void {
+  sendRateLimited(
+    res,
+    throttle.retryAfterSeconds,
+    throttle.locked
+      ? 'This account is temporarily locked after too many failed sign-in attempts. ' +
+          `Try again in ${formatRetryAfter(throttle.retryAfterSeconds)} or use the unlock link we emailed you.`
+      : `Too many sign-in attempts. Please try again in ${formatRetryAfter(throttle.retryAfterSeconds)}.`
+  );
+}
+
 /**
  * POST /api/auth/login
  * Send magic link (OTP) to email
  */
-router.post('/login', async (req: Request, res: Response): Promise<void> => {
+router.post('/login', ...authEmailLimits, async (req: Request, res: Response): Promise<void> => {
   try {
     const parseResult = loginSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -57,6 +205,10 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
 
     const { email } = parseResult.data;
 
+    if (await refuseIfSsoRequired(res, email)) {
+      return;
+    }
+
     // Get the app URL for redirect
     const appUrl = process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
 
@@ -87,7 +239,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
  * POST /api/auth/verify
  * Verify OTP token from email
  */
-router.post('/verify', async (req: Request, res: Response): Promise<void> => {
+router.post('/verify', rateLimit(OTP_VERIFY_POLICY, byBodyEmail), async (req: Request, res: Response): Promise<void> => {
   try {
     const parseResult = verifyOtpSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -115,22 +267,15 @@ router.post('/verify', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Set the access token as an HTTP-only cookie
-    res.cookie('sb-access-token', data.session.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: data.session.expires_in * 1000,
-      path: '/',
-    });
+    await resetRateLimit(OTP_VERIFY_POLICY, email);
 
-    res.cookie('sb-refresh-token', data.session.refresh_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-      path: '/',
-    });
+    const mfaChallenge = await holdSessionForMfa(res, data.session.user.id, data.session);
+    if (mfaChallenge) {
+      res.json({ success: true, mfaRequired: true, enrollmentRequired: mfaChallenge.enrollmentRequired });
+      return;
+    }
+
+    await startSession(req, res, data.session.user.id, data.session);
 
     res.json({
       success: true,
@@ -152,7 +297,7 @@ router.post('/verify', async (req: Request, res: Response): Promise<void> => {
  */
 router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
   try {
-    const refreshToken = req.cookies?.['sb-refresh-token'];
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
 
     if (!refreshToken) {
       res.status(401).json({ error: 'No refresh token' });
@@ -175,21 +320,7 @@ router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
     }
 
     // Update cookies
-    res.cookie('sb-access-token', data.session.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: data.session.expires_in * 1000,
-      path: '/',
-    });
-
-    res.cookie('sb-refresh-token', data.session.refresh_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-      path: '/',
-    });
+    setSessionCookies(res, data.session);
 
     res.json({
       success: true,
@@ -207,23 +338,28 @@ router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
  */
 router.post('/signout', async (req: Request, res: Response): Promise<void> => {
   try {
-    const accessToken = req.cookies?.['sb-access-token'];
+    const accessToken = req.cookies?.[ACCESS_TOKEN_COOKIE];
 
     if (accessToken) {
-      // Sign out from Supabase
-      await supabase.auth.signOut();
+      // End the Supabase session so its refresh token can't be used again
+      const user = await verifyToken(accessToken);
+      if (user) {
+        await revokeCurrentSession(user.id, accessToken);
+      }
+      await forgetMfaSession(accessToken);
     }
 
     // Clear cookies
-    res.clearCookie('sb-access-token', { path: '/' });
-    res.clearCookie('sb-refresh-token', { path: '/' });
+    clearSessionCookies(res);
+    res.clearCookie(MFA_CHALLENGE_COOKIE, { path: '/api/auth' });
+    clearImpersonationCookie(res);
 
     res.json({ success: true });
   } catch (error) {
     console.error('Signout error:', error);
     // Still clear cookies even if Supabase call fails
-    res.clearCookie('sb-access-token', { path: '/' });
-    res.clearCookie('sb-refresh-token', { path: '/' });
+    clearSessionCookies(res);
+    clearImpersonationCookie(res);
     res.json({ success: true });
   }
 });
@@ -232,8 +368,10 @@ router.post('/signout', async (req: Request, res: Response): Promise<void> => {
  * GET /api/auth/me
  * Get current user info
  */
-router.get('/me', requireAuth, async (req: Request, res: Response): Promise<void> => {
+router.get('/me', requireAuth, applyImpersonation, async (req: Request, res: Response): Promise<void> => {
   try {
+    const impersonation = req.tenant!.impersonation;
+
     res.json({
       success: true,
       user: {
@@ -243,6 +381,20 @@ router.get('/me', requireAuth, async (req: Request, res: Response): Promise<void
         companyId: req.tenant!.companyId,
         firstName: req.tenant!.firstName,
         lastName: req.tenant!.lastName,
+        contactRole: req.tenant!.contactRole,
+        permissions: req.tenant!.permissions,
+        staffRole: req.tenant!.staffRole,
+        staffCapabilities: req.tenant!.staffCapabilities,
+        impersonation: impersonation
+          ? {
+              sessionId: impersonation.sessionId,
+              staffName: impersonation.staffName,
+              companyName: impersonation.companyName,
+              allowDestructive: impersonation.allowDestructive,
+              readOnly: impersonation.readOnly,
+              expiresAt: impersonation.expiresAt,
+            }
+          : null,
       },
     });
   } catch (error) {
@@ -285,22 +437,13 @@ router.get('/callback', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Set the access token as an HTTP-only cookie
-    res.cookie('sb-access-token', data.session.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: data.session.expires_in * 1000,
-      path: '/',
-    });
+    const mfaChallenge = await holdSessionForMfa(res, data.session.user.id, data.session);
+    if (mfaChallenge) {
+      res.redirect(`/login?mfa=${mfaChallenge.enrollmentRequired ? 'enroll' : 'verify'}`);
+      return;
+    }
 
-    res.cookie('sb-refresh-token', data.session.refresh_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-      path: '/',
-    });
+    await startSession(req, res, data.session.user.id, data.session);
 
     // Redirect to portal
     res.redirect('/portal');
@@ -328,6 +471,17 @@ router.post('/login-password', async (req: Request, res: Response): Promise<void
     }
 
     const { email, password } = parseResult.data;
+    const attempt = getLoginAttemptContext(req);
+
+    if (await refuseIfSsoRequired(res, email)) {
+      return;
+    }
+
+    const throttle = await checkLoginAllowed(email, attempt);
+    if (!throttle.allowed) {
+      sendLoginThrottled(res, throttle);
+      return;
+    }
 
     // Use Supabase's native password authentication
     // This will work if the password was synced to Supabase Auth
@@ -339,14 +493,10 @@ router.post('/login-password', async (req: Request, res: Response): Promise<void
     if (signInError || !data.session) {
       // Fallback: Try local password verification for backwards compatibility
       const verification = await verifyUserPassword(email, password);
-      if (!verification.success) {
-        res.status(401).json({ error: 'Invalid email or password' });
-        return;
-      }
 
       // Password verified locally but not in Supabase - need to sync
       // This can happen for users who set passwords before the sync was implemented
-      if (verification.userId) {
+      if (verification.success && verification.userId) {
         // Sync the password to Supabase Auth
         const { error: syncError } = await supabase.auth.admin.updateUserById(
           verification.userId,
@@ -361,22 +511,16 @@ router.post('/login-password', async (req: Request, res: Response): Promise<void
           });
 
           if (!retryError && retryData.session) {
-            // Set cookies and return success
-            res.cookie('sb-access-token', retryData.session.access_token, {
-              httpOnly: true,
-              secure: process.env.NODE_ENV === 'production',
-              sameSite: 'lax',
-              maxAge: retryData.session.expires_in * 1000,
-              path: '/',
-            });
+            const mfaChallenge = await holdSessionForMfa(res, retryData.session.user.id, retryData.session);
+            if (mfaChallenge) {
+              res.json({ success: true, mfaRequired: true, enrollmentRequired: mfaChallenge.enrollmentRequired });
+              return;
+            }
 
-            res.cookie('sb-refresh-token', retryData.session.refresh_token, {
-              httpOnly: true,
-              secure: process.env.NODE_ENV === 'production',
-              sameSite: 'lax',
-              maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-              path: '/',
-            });
+            await recordLoginSuccess(email);
+
+            // Set cookies and return success
+            await startSession(req, res, retryData.session.user.id, retryData.session);
 
             res.json({
               success: true,
@@ -392,27 +536,27 @@ router.post('/login-password', async (req: Request, res: Response): Promise<void
         }
       }
 
-      // If we get here, we couldn't authenticate
+      // If we get here, we couldn't authenticate, including when the sync failed
+      const failure = await recordLoginFailure(email, attempt);
+      if (failure.locked) {
+        sendLoginThrottled(res, failure);
+        return;
+      }
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
 
-    // Supabase authentication successful - set session cookies
-    res.cookie('sb-access-token', data.session.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: data.session.expires_in * 1000,
-      path: '/',
-    });
+    // Failed sign-ins are only cleared once any second factor has been passed too
+    const mfaChallenge = await holdSessionForMfa(res, data.session.user.id, data.session);
+    if (mfaChallenge) {
+      res.json({ success: true, mfaRequired: true, enrollmentRequired: mfaChallenge.enrollmentRequired });
+      return;
+    }
 
-    res.cookie('sb-refresh-token', data.session.refresh_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-      path: '/',
-    });
+    await recordLoginSuccess(email);
+
+    // Supabase authentication successful - set session cookies
+    await startSession(req, res, data.session.user.id, data.session);
 
     res.json({
       success: true,
@@ -429,6 +573,35 @@ router.post('/login-password', async (req: Request, res: Response): Promise<void
   }
 });
 
+/**
+ * POST /api/auth/unlock-account
+ * Lift a lockout using the link from the account locked email
+ */
+router.post('/unlock-account', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = unlockAccountSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    const result = await unlockAccount(parseResult.data.token, getLoginAttemptContext(req));
+    if (!result.success) {
+      res.status(400).json({ error: result.error || 'Failed to unlock account' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Your account has been unlocked. You can now sign in.',
+    });
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    res.status(500).json({ error: 'Failed to unlock account' });
+  }
+});
+
 /**
  * POST /api/auth/set-password
  * Set password for authenticated user (after magic link login)
@@ -484,7 +657,7 @@ router.post('/set-password', requireAuth, async (req: Request, res: Response): P
  * POST /api/auth/forgot-password
  * Request password reset email
  */
-router.post('/forgot-password', async (req: Request, res: Response): Promise<void> => {
+router.post('/forgot-password', ...authEmailLimits, async (req: Request, res: Response): Promise<void> => {
   try {
     const parseResult = forgotPasswordSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -495,6 +668,10 @@ router.post('/forgot-password', async (req: Request, res: Response): Promise<voi
 
     const { email } = parseResult.data;
 
+    if (await refuseIfSsoRequired(res, email)) {
+      return;
+    }
+
     // Create reset token and send email
     const result = await createPasswordResetToken(email);
 
@@ -574,28 +751,554 @@ router.post('/reset-password', async (req: Request, res: Response): Promise<void
 });
 
 /**
- * GET /api/auth/password-strength
+ * POST /api/auth/password-strength
  * Check password strength (public utility endpoint)
+ * The password is also checked against the signed-in user's details, or those of the
+ * user a reset token belongs to when one is sent from the reset page.
  */
-router.post('/password-strength', async (req: Request, res: Response): Promise<void> => {
+router.post('/password-strength', optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const { password } = req.body;
+    const parseResult = passwordStrengthSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    const { password, token } = parseResult.data;
+
+    let context: PasswordContext = {};
+    if (req.tenant?.userType === 'portal_user') {
+      context = await getPasswordContext(req.tenant.userId);
+    } else if (req.user) {
+      context = { email: req.user.email };
+    } else if (token) {
+      const resetToken = await validateResetToken(token);
+      if (resetToken.valid) {
+        context = await getPasswordContext(resetToken.userId!);
+      }
+    }
+
+    res.json(validatePasswordStrength(password, context));
+  } catch (error) {
+    console.error('Password strength error:', error);
+    res.status(500).json({ error: 'Failed to check password strength' });
+  }
+});
+
+// ============================================
+// TWO-FACTOR AUTHENTICATION ROUTES
+// ============================================
+
+function getMfaEventOptions(req: Request): { portalUserId: string | null } {
+  return { portalUserId: req.tenant!.userType === 'portal_user' ? req.tenant!.userId : null };
+}
+
+/**
+ * POST /api/auth/mfa/challenge/enroll
+ * Start setting up an authenticator app during sign-in, for users who must have one
+ */
+router.post('/mfa/challenge/enroll', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const challengeToken = req.cookies?.[MFA_CHALLENGE_COOKIE];
+    if (!challengeToken) {
+      res.status(401).json({ error: 'Your sign-in has expired. Please sign in again.' });
+      return;
+    }
 
-    if (!password || typeof password !== 'string') {
-      res.status(400).json({ error: 'Password is required' });
+    const result = await beginChallengeEnrollment(challengeToken);
+    if (!result.success) {
+      res.status(result.status || 400).json({ error: result.error });
+      return;
+    }
+
+    res.json({ success: true, enrollment: result.enrollment });
+  } catch (error) {
+    console.error('MFA challenge enroll error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/challenge/verify
+ * Finish signing in with an authenticator or recovery code
+ */
+router.post('/mfa/challenge/verify', rateLimit(MFA_VERIFY_IP_POLICY, byIp), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const challengeToken = req.cookies?.[MFA_CHALLENGE_COOKIE];
+    if (!challengeToken) {
+      res.status(401).json({ error: 'Your sign-in has expired. Please sign in again.' });
       return;
     }
 
-    const validation = validatePasswordStrength(password);
+    const parseResult = mfaChallengeSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    const challengeUser = await getMfaChallengeUser(challengeToken);
+    if (!challengeUser) {
+      res.clearCookie(MFA_CHALLENGE_COOKIE, { path: '/api/auth' });
+      res.status(401).json({ error: 'Your sign-in has expired. Please sign in again.' });
+      return;
+    }
+
+    const { email } = challengeUser;
+    const attempt = getLoginAttemptContext(req);
+
+    // Wrong codes share the password lockout, so a new challenge doesn't buy more guesses
+    const throttle = await checkLoginAllowed(email, attempt);
+    if (!throttle.allowed) {
+      sendLoginThrottled(res, throttle);
+      return;
+    }
+
+    const result = await completeMfaChallenge(challengeToken, parseResult.data.code);
+    if (!result.success || !result.session) {
+      if (result.codeRejected) {
+        const failure = await recordLoginFailure(email, attempt);
+        if (failure.locked) {
+          res.clearCookie(MFA_CHALLENGE_COOKIE, { path: '/api/auth' });
+          sendLoginThrottled(res, failure);
+          return;
+        }
+      }
+      if (result.status === 401) {
+        res.clearCookie(MFA_CHALLENGE_COOKIE, { path: '/api/auth' });
+      }
+      res.status(result.status || 400).json({ error: result.error });
+      return;
+    }
+
+    const { session } = result;
+    await recordLoginSuccess(email);
+
+    if (result.recoveryCodes) {
+      await logSecurityEvent('mfa_enabled', email, attempt, { details: { during_sign_in: true } });
+    }
+    if (result.usedRecoveryCode) {
+      await logSecurityEvent('mfa_recovery_code_used', email, attempt);
+    }
+
+    res.clearCookie(MFA_CHALLENGE_COOKIE, { path: '/api/auth' });
+
+    await startSession(req, res, result.authUserId!, session);
 
     res.json({
-      valid: validation.valid,
-      score: validation.score,
-      errors: validation.errors,
+      success: true,
+      message: 'Login successful',
+      user: {
+        id: result.authUserId,
+        email,
+      },
+      expiresAt: session.expires_at,
+      // Only present when the authenticator app was set up during this sign-in
+      recoveryCodes: result.recoveryCodes,
     });
   } catch (error) {
-    console.error('Password strength error:', error);
-    res.status(500).json({ error: 'Failed to check password strength' });
+    console.error('MFA challenge verify error:', error);
+    res.status(500).json({ error: 'Failed to verify code' });
+  }
+});
+
+/**
+ * GET /api/auth/mfa
+ * Get the current user's two-factor authentication status
+ */
+router.get('/mfa', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = await getMfaStatus(req.user!.id, req.tenant!);
+    res.json({ success: true, data: status });
+  } catch (error) {
+    console.error('Get MFA status error:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/enroll
+ * Start setting up an authenticator app
+ */
+router.post('/mfa/enroll', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await beginMfaEnrollment(req.user!.id, req.user!.email);
+    if (!result.success) {
+      res.status(result.status || 400).json({ error: result.error });
+      return;
+    }
+
+    res.json({ success: true, enrollment: result.enrollment });
+  } catch (error) {
+    console.error('MFA enroll error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/enroll/confirm
+ * Turn on two-factor authentication with a code from the new app
+ */
+router.post('/mfa/enroll/confirm', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = mfaCodeSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    const result = await confirmMfaEnrollment(req.user!.id, parseResult.data.code);
+    if (!result.success) {
+      res.status(result.status || 400).json({ error: result.error });
+      return;
+    }
+
+    // This sign-in just proved the second factor, so it stays signed in
+    await markSessionMfaVerified(req.user!.id, req.user!.accessToken);
+
+    await logSecurityEvent('mfa_enabled', req.user!.email, getLoginAttemptContext(req), getMfaEventOptions(req));
+
+    res.json({ success: true, recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    console.error('MFA confirm error:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/recovery-codes
+ * Replace the recovery codes; needs a current authenticator code
+ */
+router.post('/mfa/recovery-codes', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = mfaCodeSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    const result = await regenerateRecoveryCodes(req.user!.id, parseResult.data.code);
+    if (!result.success) {
+      res.status(result.status || 400).json({ error: result.error });
+      return;
+    }
+
+    await logSecurityEvent(
+      'mfa_recovery_codes_regenerated',
+      req.user!.email,
+      getLoginAttemptContext(req),
+      getMfaEventOptions(req)
+    );
+
+    res.json({ success: true, recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Failed to generate recovery codes' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/disable
+ * Turn off two-factor authentication; needs an authenticator or recovery code
+ */
+router.post('/mfa/disable', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = mfaChallengeSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    if (await isMfaRequired(req.tenant!)) {
+      res.status(403).json({ error: 'Two-factor authentication is required for your account' });
+      return;
+    }
+
+    const verification = await verifyMfaCode(req.user!.id, parseResult.data.code);
+    if (!verification.success) {
+      res.status(400).json({ error: 'That code is not valid' });
+      return;
+    }
+
+    const result = await disableMfa(req.user!.id);
+    if (!result.success) {
+      res.status(500).json({ error: result.error });
+      return;
+    }
+
+    await logSecurityEvent('mfa_disabled', req.user!.email, getLoginAttemptContext(req), getMfaEventOptions(req));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Disable MFA error:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// ============================================
+// SESSION ROUTES
+// ============================================
+
+/**
+ * GET /api/auth/sessions
+ * List the devices the current user is signed in on
+ */
+router.get('/sessions', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await listSessions(req.user!.id, req.user!.accessToken);
+    res.json({ success: true, sessions });
+  } catch (error) {
+    console.error('Sessions fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Sign out one of the current user's other devices
+ */
+router.delete('/sessions/:sessionId', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = sessionIdSchema.safeParse(req.params.sessionId);
+    if (!parseResult.success) {
+      res.status(400).json({ error: fromZodError(parseResult.error).message });
+      return;
+    }
+
+    if (parseResult.data === getTokenSessionId(req.user!.accessToken)) {
+      res.status(400).json({ error: 'Use sign out to end your current session' });
+      return;
+    }
+
+    const result = await revokeSession(req.user!.id, parseResult.data, 'user_revoked');
+    if (!result.success) {
+      res.status(result.status || 500).json({ error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    res.status(500).json({ error: 'Failed to sign out session' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions
+ * Sign out everywhere except the current device
+ */
+router.delete('/sessions', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await revokeSessions(req.user!.id, 'user_revoked', { exceptAccessToken: req.user!.accessToken });
+    if (!result.success) {
+      res.status(500).json({ error: result.error });
+      return;
+    }
+
+    res.json({ success: true, revoked: result.revoked });
+  } catch (error) {
+    console.error('Sessions revoke error:', error);
+    res.status(500).json({ error: 'Failed to sign out other sessions' });
+  }
+});
+
+// ============================================
+// SINGLE SIGN-ON ROUTES
+// ============================================
+
+// Ties a sign-in to the browser that started it; the callback must come back with it
+const SSO_STATE_COOKIE = 'sso-state';
+const SSO_STATE_COOKIE_PATH = '/api/auth/sso';
+
+function setSsoStateCookie(res: Response, state: string, protocol: SsoProtocol, expiresAt: string): void {
+  const production = process.env.NODE_ENV === 'production';
+  res.cookie(SSO_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: production,
+    // SAML responses arrive as a cross-site POST from the identity provider, which Lax
+    // cookies aren't sent with. The state itself still has to match, so None is only
+    // as permissive as the OIDC redirect.
+    sameSite: protocol === 'saml' && production ? 'none' : 'lax',
+    maxAge: new Date(expiresAt).getTime() - Date.now(),
+    path: SSO_STATE_COOKIE_PATH,
+  });
+}
+
+function takeSsoStateCookie(req: Request, res: Response): string | undefined {
+  const state = req.cookies?.[SSO_STATE_COOKIE];
+  res.clearCookie(SSO_STATE_COOKIE, { path: SSO_STATE_COOKIE_PATH });
+  return typeof state === 'string' ? state : undefined;
+}
+
+/**
+ * Sign in the user behind an identity asserted by their company's identity provider
+ * Both protocols finish here, as a browser redirect to the portal or the two-factor step.
+ */
+async function finishSsoLogin(
+  req: Request,
+  res: Response,
+  connectionId: string,
+  identity: SsoIdentity
+): Promise<void> {
+  const result = await completeSsoSignIn(connectionId, identity, getLoginAttemptContext(req));
+  if (!result.success || !result.session) {
+    res.redirect(`/login?error=${encodeURIComponent(result.error || 'Single sign-on failed')}`);
+    return;
+  }
+
+  const mfaChallenge = await holdSessionForMfa(res, result.authUserId!, result.session);
+  if (mfaChallenge) {
+    res.redirect(`/login?mfa=${mfaChallenge.enrollmentRequired ? 'enroll' : 'verify'}`);
+    return;
+  }
+
+  await startSession(req, res, result.authUserId!, result.session);
+
+  res.redirect('/portal');
+}
+
+/**
+ * POST /api/auth/sso/discover
+ * Check whether an email address signs in through its company's identity provider
+ */
+router.post('/sso/discover', rateLimit(SSO_IP_POLICY, byIp), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = loginSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    const { email } = parseResult.data;
+    const connection = await findSsoConnectionForEmail(email);
+    const required = await getRequiredSsoConnection(email);
+
+    res.json({
+      success: true,
+      ssoAvailable: !!(connection || required),
+      ssoRequired: !!required,
+      connectionName: (connection || required)?.name || null,
+    });
+  } catch (error) {
+    console.error('SSO discover error:', error);
+    res.status(500).json({ error: 'Failed to look up single sign-on' });
+  }
+});
+
+/**
+ * GET /api/auth/sso/start?email=
+ * Send the browser to the identity provider for the email's company
+ */
+router.get('/sso/start', rateLimit(SSO_IP_POLICY, byIp), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = loginSchema.safeParse({ email: req.query.email });
+    if (!parseResult.success) {
+      res.redirect(`/login?error=${encodeURIComponent('Enter a valid email address to continue with SSO')}`);
+      return;
+    }
+
+    const { email } = parseResult.data;
+    const connection = (await findSsoConnectionForEmail(email)) || (await getRequiredSsoConnection(email));
+    if (!connection) {
+      res.redirect(`/login?error=${encodeURIComponent('Single sign-on is not set up for this email address')}`);
+      return;
+    }
+
+    const result = await startSsoLogin(connection.id);
+    if (!result.success || !result.redirectUrl) {
+      res.redirect(`/login?error=${encodeURIComponent(result.error || 'Failed to start single sign-on')}`);
+      return;
+    }
+
+    setSsoStateCookie(res, result.state!, result.protocol!, result.expiresAt!);
+    res.redirect(result.redirectUrl);
+  } catch (error) {
+    console.error('SSO start error:', error);
+    res.redirect(`/login?error=${encodeURIComponent('Failed to start single sign-on')}`);
+  }
+});
+
+/**
+ * GET /api/auth/sso/oidc/callback
+ * Redirect URI for OIDC identity providers
+ */
+router.get('/sso/oidc/callback', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const browserState = takeSsoStateCookie(req, res);
+
+    if (req.query.error) {
+      console.error('OIDC callback error:', req.query.error, req.query.error_description);
+      res.redirect(`/login?error=${encodeURIComponent(String(req.query.error_description || req.query.error))}`);
+      return;
+    }
+
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(req.query)) {
+      if (typeof value === 'string') {
+        params[key] = value;
+      }
+    }
+
+    const result = await completeOidcLogin(params, browserState);
+    if (!result.success) {
+      res.redirect(`/login?error=${encodeURIComponent(result.error || 'Single sign-on failed')}`);
+      return;
+    }
+
+    await finishSsoLogin(req, res, result.connectionId!, result.identity!);
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    res.redirect(`/login?error=${encodeURIComponent('Single sign-on failed')}`);
+  }
+});
+
+/**
+ * POST /api/auth/sso/saml/:connectionId/acs
+ * Assertion consumer service for SAML identity providers
+ */
+router.post('/sso/saml/:connectionId/acs', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await completeSamlLogin(
+      req.params.connectionId,
+      {
+        SAMLResponse: typeof req.body?.SAMLResponse === 'string' ? req.body.SAMLResponse : undefined,
+        RelayState: typeof req.body?.RelayState === 'string' ? req.body.RelayState : undefined,
+      },
+      takeSsoStateCookie(req, res)
+    );
+    if (!result.success) {
+      res.redirect(`/login?error=${encodeURIComponent(result.error || 'Single sign-on failed')}`);
+      return;
+    }
+
+    await finishSsoLogin(req, res, result.connectionId!, result.identity!);
+  } catch (error) {
+    console.error('SAML ACS error:', error);
+    res.redirect(`/login?error=${encodeURIComponent('Single sign-on failed')}`);
+  }
+});
+
+/**
+ * GET /api/auth/sso/saml/:connectionId/metadata
+ * Service provider metadata to upload to the customer's identity provider
+ */
+router.get('/sso/saml/:connectionId/metadata', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const metadata = await getSamlServiceProviderMetadata(req.params.connectionId);
+    if (!metadata) {
+      res.status(404).json({ error: 'SSO connection not found' });
+      return;
+    }
+
+    res.type('application/xml').send(metadata);
+  } catch (error) {
+    console.error('SAML metadata error:', error);
+    res.status(500).json({ error: 'Failed to generate SAML metadata' });
   }
 });
 
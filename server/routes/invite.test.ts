@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = await vi.hoisted(async () => {
+  process.env.MFA_ENCRYPTION_KEY = 'test-encryption-key';
+  process.env.INVITE_SIGNING_SECRET = 'test-invite-secret';
+  const { createFakeSupabase } = await import('../tests/fakeSupabase');
+  return createFakeSupabase();
+});
+
+vi.mock('../lib/supabase', async () => (await import('../tests/fakeSupabase')).fakeSupabaseModule(db));
+
+import type { StaffRole } from '../../shared/types';
+import inviteRoutes from './invite';
+import { startTestServer } from '../tests/testServer';
+import { STAFF_ROLES, staffAuthHeader, staffTables, staffUserId } from '../tests/staff';
+
+const assignedCompanyId = '00000000-0000-4000-8000-00000000000a';
+const otherCompanyId = '00000000-0000-4000-8000-00000000000b';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+beforeAll(async () => {
+  server = await startTestServer({ '/api/invites': inviteRoutes });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  db.reset({
+    ...staffTables(),
+    companies: [
+      { id: assignedCompanyId, legal_name: 'Acme Insurance' },
+      { id: otherCompanyId, legal_name: 'Beta Mutual' },
+    ],
+    onboarding_projects: [
+      { id: 'project-a', company_id: assignedCompanyId, assigned_csm_id: staffUserId('csm') },
+      { id: 'project-b', company_id: otherCompanyId, assigned_csm_id: 'staff-other' },
+    ],
+    invites: [
+      { id: 'invite-1', email: 'ada@acme.com', status: 'pending', expires_at: '2999-01-01T00:00:00.000Z', metadata: {} },
+    ],
+    email_logs: [],
+  });
+});
+
+const request = (role: StaffRole, method: string, path: string, body?: unknown) =>
+  fetch(`${server.url}/api/invites${path}`, {
+    method,
+    headers: { ...staffAuthHeader(role), ...(body ? { 'content-type': 'application/json' } : {}) },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('invite routes by staff role', () => {
+  it.each(['admin', 'csm', 'sales'] as StaffRole[])('%s can create an invite', async (role) => {
+    const response = await request(role, 'POST', '/', { email: `new-${role}@example.com` });
+
+    expect(response.status).toBe(201);
+    expect(db.tables.invites).toContainEqual(
+      expect.objectContaining({ email: `new-${role}@example.com`, invited_by_id: staffUserId(role) })
+    );
+  });
+
+  it('csm can invite a contact to a customer assigned to them', async () => {
+    const response = await request('csm', 'POST', '/', { email: 'new@acme.com', companyId: assignedCompanyId });
+
+    expect(response.status).toBe(201);
+  });
+
+  it('csm gets 403 inviting a contact to a customer assigned to someone else', async () => {
+    const response = await request('csm', 'POST', '/', { email: 'new@beta.com', companyId: otherCompanyId });
+
+    expect(response.status).toBe(403);
+    expect(db.tables.invites).toHaveLength(1);
+  });
+
+  it.each(['admin', 'sales'] as StaffRole[])('%s can invite a contact to any customer', async (role) => {
+    const response = await request(role, 'POST', '/', { email: 'new@beta.com', companyId: otherCompanyId });
+
+    expect(response.status).toBe(201);
+  });
+
+  it('sales can revoke an invite', async () => {
+    expect((await request('sales', 'POST', '/invite-1/revoke')).status).toBe(200);
+    expect(db.tables.invites[0].status).toBe('revoked');
+  });
+
+  it.each(STAFF_ROLES)('%s can list invites', async (role) => {
+    expect((await request(role, 'GET', '/')).status).toBe(200);
+  });
+
+  describe('support', () => {
+    it.each([
+      ['POST', '/', { email: 'new@example.com' }],
+      ['POST', '/bulk', { rows: [{ rowNumber: 2, email: 'new@example.com' }] }],
+      ['POST', '/invite-1/resend', undefined],
+      ['POST', '/invite-1/revoke', undefined],
+      ['POST', '/transfers/transfer-1/approve', undefined],
+      ['POST', '/transfers/transfer-1/deny', undefined],
+    ])('gets 403 on %s %s', async (method, path, body) => {
+      const response = await request('support', method, path, body);
+
+      expect(response.status).toBe(403);
+      expect(db.tables.invites).toEqual([expect.objectContaining({ id: 'invite-1', status: 'pending' })]);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { requireAuth, requireStaff } from '../middleware/auth';
+import { requireAuth, requireStaff, requireCapability } from '../middleware/auth';
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 import {
@@ -8,16 +8,46 @@ import {
   getInviteById,
   revokeInvite,
   resendInvite,
-  validateInvite,
 } from '../lib/invite';
+import { checkInviteAccess, getInviteTransferRequests, reviewInviteTransfer } from '../lib/inviteAccess';
+import { inviteDevice, getInviteAccessContext } from '../middleware/inviteDevice';
+import { getTeamInviteDetails, acceptTeamInvite } from '../lib/teamInvite';
+import { parseInviteSpreadsheet, validateBulkInvites, queueBulkInvites, getBulkInviteBatch } from '../lib/bulkInvite';
+import { runJobSoon } from '../lib/scheduler';
+import { spreadsheetUpload } from '../lib/upload';
+import { requireCompanyAccess, TenantAccessError } from '../lib/tenant';
+import { recordInviteEvent, getInviteFunnel } from '../lib/inviteEvents';
+import { sendBulkInvitesSchema, invitePrefillSchema } from '../../shared/validation';
+import type { BulkInviteRowResult } from '../../shared/types';
 
 const router = Router();
 
+// Counts for a bulk invite upload; rows being sent right now count as queued
+function summarizeBulkInvites(rows: BulkInviteRowResult[]) {
+  return {
+    total: rows.length,
+    queued: rows.filter((row) => row.status === 'queued' || row.status === 'sending').length,
+    sent: rows.filter((row) => row.status === 'sent').length,
+    failed: rows.filter((row) => row.status === 'failed').length,
+    skipped: rows.filter((row) => row.status === 'invalid' || row.status === 'duplicate').length,
+  };
+}
+
 // Validation schemas
 const createInviteSchema = z.object({
   email: z.string().email('Invalid email address'),
   companyName: z.string().max(255).optional(),
   expirationDays: z.number().int().min(1).max(30).optional(),
+  companyId: z.string().uuid('Invalid company').optional(),
+  deviceBinding: z.boolean().optional(),
+}).and(invitePrefillSchema);
+
+const acceptTeamInviteSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
 });
 
 const listInvitesSchema = z.object({
@@ -27,6 +57,14 @@ const listInvitesSchema = z.object({
   offset: z.coerce.number().int().min(0).optional(),
 });
 
+const listTransferRequestsSchema = z.object({
+  status: z.enum(['pending', 'approved', 'denied']).default('pending'),
+});
+
+const inviteFunnelSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(90),
+});
+
 // ============================================
 // PUBLIC ROUTES (for validating invites)
 // ============================================
@@ -35,7 +73,7 @@ const listInvitesSchema = z.object({
  * GET /api/invites/validate/:token
  * Validate an invite token (public endpoint)
  */
-router.get('/validate/:token', async (req: Request, res: Response): Promise<void> => {
+router.get('/validate/:token', inviteDevice, async (req: Request, res: Response): Promise<void> => {
   try {
     const { token } = req.params;
 
@@ -44,16 +82,19 @@ router.get('/validate/:token', async (req: Request, res: Response): Promise<void
       return;
     }
 
-    const validation = await validateInvite(token);
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'validate'));
 
     if (!validation.valid) {
-      res.status(400).json({
+      res.status(validation.status || 400).json({
         success: false,
         error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
       });
       return;
     }
 
+    await recordInviteEvent(validation.invite!.id, 'link_validated');
+
     // Return limited info for security
     res.json({
       success: true,
@@ -69,6 +110,105 @@ router.get('/validate/:token', async (req: Request, res: Response): Promise<void
   }
 });
 
+/**
+ * GET /api/invites/team/:token
+ * Validate a team-member invite and return who it is for (public endpoint)
+ */
+router.get('/team/:token', inviteDevice, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'validate'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    const result = await getTeamInviteDetails(validation.invite!);
+
+    if (!result.success) {
+      res.status(result.status || 400).json({ success: false, error: result.error });
+      return;
+    }
+
+    await recordInviteEvent(validation.invite!.id, 'link_validated');
+
+    res.json({
+      success: true,
+      invite: {
+        email: result.details!.email,
+        firstName: result.details!.firstName,
+        lastName: result.details!.lastName,
+        companyName: result.details!.companyName,
+        expiresAt: validation.invite!.expires_at,
+      },
+    });
+  } catch (error) {
+    console.error('Validate team invite error:', error);
+    res.status(500).json({ success: false, error: 'Failed to validate invite' });
+  }
+});
+
+/**
+ * POST /api/invites/team/:token/accept
+ * Accept a team-member invite: creates the portal account for the invited contact
+ * in their existing company and sets its password
+ */
+router.post('/team/:token/accept', inviteDevice, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const parseResult = acceptTeamInviteSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'team_accept'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    const result = await acceptTeamInvite(validation.invite!, parseResult.data.password);
+
+    if (!result.success) {
+      res.status(result.status || 400).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({
+      success: true,
+      email: validation.invite!.email,
+      message: 'Your account is ready. Sign in with your new password.',
+    });
+  } catch (error) {
+    console.error('Accept team invite error:', error);
+    res.status(500).json({ success: false, error: 'Failed to accept invite' });
+  }
+});
+
 // ============================================
 // PROTECTED ROUTES (staff only)
 // ============================================
@@ -81,7 +221,7 @@ router.use(requireStaff);
  * POST /api/invites
  * Create a new invite and send email
  */
-router.post('/', async (req: Request, res: Response): Promise<void> => {
+router.post('/', requireCapability('invites.create'), async (req: Request, res: Response): Promise<void> => {
   try {
     const parseResult = createInviteSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -90,19 +230,62 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const { email, companyName, expirationDays } = parseResult.data;
+    const {
+      email,
+      companyName,
+      expirationDays,
+      companyId,
+      deviceBinding,
+      prefill,
+      lockedFields,
+    } = parseResult.data;
+
+    // Invites for an existing company attach the submitted project to that company
+    let existingCompanyName: string | undefined;
+    if (companyId) {
+      const { data: company } = await req.supabaseClient!
+        .from('companies')
+        .select('id, legal_name')
+        .eq('id', companyId)
+        .single();
+
+      if (!company) {
+        res.status(404).json({ success: false, error: 'Company not found' });
+        return;
+      }
+
+      // CSMs can only invite contacts to the customers assigned to them
+      try {
+        await requireCompanyAccess(req.supabaseClient!, req.tenant!, companyId);
+      } catch (e) {
+        if (e instanceof TenantAccessError) {
+          res.status(403).json({ success: false, error: 'You can only invite contacts to customers assigned to you' });
+          return;
+        }
+        throw e;
+      }
+      existingCompanyName = company.legal_name;
+    }
 
     // Get the inviter's name
     const inviterName = req.tenant?.firstName && req.tenant?.lastName
       ? `${req.tenant.firstName} ${req.tenant.lastName}`
       : 'Claims iQ Team';
 
+    // Prefilled answers seed the wizard (see GET /api/onboarding/validate-invite/:token)
+    const metadata: Record<string, unknown> = {
+      ...(companyId ? { companyId } : {}),
+      ...(prefill ? { prefill, lockedFields } : {}),
+    };
+
     const result = await createInvite({
       email,
-      companyName,
+      companyName: companyName || existingCompanyName || prefill?.company?.legal_name,
       invitedById: req.tenant!.userId,
       invitedByName: inviterName,
       expirationDays,
+      deviceBinding,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
     });
 
     if (!result.success) {
@@ -110,9 +293,12 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // The link token is only available now; the invite stores just its hash
+    const { token_hash: _tokenHash, ...invite } = result.invite!;
+
     res.status(201).json({
       success: true,
-      invite: result.invite,
+      invite: { ...invite, token: result.token },
       message: `Invite sent to ${email}`,
     });
   } catch (error) {
@@ -121,6 +307,165 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * POST /api/invites/bulk/preview
+ * Parse a CSV/XLSX upload (columns: Email, Company Name, Expiration Days, CSM)
+ * and validate each row without sending anything
+ */
+router.post('/bulk/preview', requireCapability('invites.create'), spreadsheetUpload.single('file'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ success: false, error: 'No file uploaded' });
+      return;
+    }
+
+    const parsed = await parseInviteSpreadsheet(req.file.buffer, req.file.originalname);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error });
+      return;
+    }
+
+    const rows = await validateBulkInvites(parsed.rows!);
+
+    res.json({
+      success: true,
+      rows,
+      summary: {
+        total: rows.length,
+        ready: rows.filter((row) => row.status === 'ready').length,
+        invalid: rows.filter((row) => row.status === 'invalid').length,
+        duplicate: rows.filter((row) => row.status === 'duplicate').length,
+      },
+    });
+  } catch (error) {
+    console.error('Bulk invite preview error:', error);
+    res.status(500).json({ success: false, error: 'Failed to preview invites' });
+  }
+});
+
+/**
+ * POST /api/invites/bulk
+ * Create invites for previewed rows and queue their emails, which are sent in the background
+ * Rows are re-validated; invalid or duplicate rows are skipped and reported
+ */
+router.post('/bulk', requireCapability('invites.create'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = sendBulkInvitesSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const inviterName = req.tenant?.firstName && req.tenant?.lastName
+      ? `${req.tenant.firstName} ${req.tenant.lastName}`
+      : 'Claims iQ Team';
+
+    const { batchId, rows } = await queueBulkInvites(parseResult.data.rows, {
+      id: req.tenant!.userId,
+      name: inviterName,
+    });
+
+    const summary = summarizeBulkInvites(rows);
+    if (summary.queued > 0) {
+      void runJobSoon('bulk_invite_emails');
+    }
+
+    res.json({
+      success: true,
+      batchId,
+      rows,
+      summary,
+      message: `${summary.queued} invite${summary.queued === 1 ? '' : 's'} created; emails are being sent`,
+    });
+  } catch (error) {
+    console.error('Bulk invite error:', error);
+    res.status(500).json({ success: false, error: 'Failed to send invites' });
+  }
+});
+
+/**
+ * GET /api/invites/bulk/:batchId
+ * Delivery status of each row of a bulk invite upload, for polling while its emails go out
+ */
+router.get('/bulk/:batchId', requireCapability('invites.create'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rows = await getBulkInviteBatch(req.params.batchId, req.tenant!.userId);
+
+    if (!rows) {
+      res.status(404).json({ success: false, error: 'Bulk invite not found' });
+      return;
+    }
+
+    res.json({ success: true, batchId: req.params.batchId, rows, summary: summarizeBulkInvites(rows) });
+  } catch (error) {
+    console.error('Bulk invite status error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch invites' });
+  }
+});
+
+/**
+ * GET /api/invites/transfers
+ * List requests to move device-bound invites to another browser (pending by default)
+ */
+router.get('/transfers', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = listTransferRequestsSchema.safeParse(req.query);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const requests = await getInviteTransferRequests(parseResult.data.status);
+
+    res.json({ success: true, requests });
+  } catch (error) {
+    console.error('List invite transfers error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch transfer requests' });
+  }
+});
+
+/**
+ * POST /api/invites/transfers/:id/approve
+ * Rebind an invite to the browser that requested the transfer
+ */
+router.post('/transfers/:id/approve', requireCapability('invites.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await reviewInviteTransfer(req.params.id, req.tenant!.userId, true);
+
+    if (!result.success) {
+      res.status(result.status || 400).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Transfer approved' });
+  } catch (error) {
+    console.error('Approve invite transfer error:', error);
+    res.status(500).json({ success: false, error: 'Failed to approve transfer' });
+  }
+});
+
+/**
+ * POST /api/invites/transfers/:id/deny
+ * Refuse a transfer request; the invite stays bound to its current browser
+ */
+router.post('/transfers/:id/deny', requireCapability('invites.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await reviewInviteTransfer(req.params.id, req.tenant!.userId, false);
+
+    if (!result.success) {
+      res.status(result.status || 400).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Transfer denied' });
+  } catch (error) {
+    console.error('Deny invite transfer error:', error);
+    res.status(500).json({ success: false, error: 'Failed to deny transfer' });
+  }
+});
+
 /**
  * GET /api/invites
  * List all invites with optional filtering
@@ -182,7 +527,7 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
  * POST /api/invites/:id/resend
  * Resend an invite email
  */
-router.post('/:id/resend', async (req: Request, res: Response): Promise<void> => {
+router.post('/:id/resend', requireCapability('invites.manage'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
@@ -209,7 +554,7 @@ router.post('/:id/resend', async (req: Request, res: Response): Promise<void> =>
  * POST /api/invites/:id/revoke
  * Revoke an invite
  */
-router.post('/:id/revoke', async (req: Request, res: Response): Promise<void> => {
+router.post('/:id/revoke', requireCapability('invites.manage'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
@@ -259,4 +604,32 @@ router.get('/stats/summary', async (req: Request, res: Response): Promise<void>
   }
 });
 
+/**
+ * GET /api/invites/stats/funnel
+ * Get the invite funnel (sent -> opened -> link opened -> started -> draft saved -> submitted)
+ * for invites sent in the last `days` days
+ */
+router.get('/stats/funnel', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parseResult = inviteFunnelSchema.safeParse(req.query);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const result = await getInviteFunnel(parseResult.data.days);
+
+    if (!result.success) {
+      res.status(500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, funnel: result.funnel });
+  } catch (error) {
+    console.error('Invite funnel error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch invite funnel' });
+  }
+});
+
 export default router;
@@ -1,18 +1,47 @@
 import { Router, Request, Response } from 'express';
 import { supabase } from '../lib/supabase';
-import { onboardingFormSchema } from '../../shared/validation';
+import {
+  onboardingFormFieldsSchema,
+  refineLineOfBusinessRequirements,
+  saveOnboardingDraftSchema,
+  uploadOnboardingAttachmentSchema,
+  trackOnboardingEventSchema,
+} from '../../shared/validation';
 import { fromZodError } from 'zod-validation-error';
 import { z } from 'zod';
-import type { OnboardingFormData, ModuleType } from '../../shared/types';
-import { validateInvite, markInviteUsed } from '../lib/invite';
+import type {
+  OnboardingFormData,
+  OnboardingDraftData,
+  OnboardingSubmitResponse,
+} from '../../shared/types';
+import { isTeamMemberInvite } from '../lib/invite';
+import { checkInviteAccess, requestInviteTransfer } from '../lib/inviteAccess';
+import { inviteDevice, getInviteAccessContext } from '../middleware/inviteDevice';
+import { getDraft, saveDraft } from '../lib/draft';
+import { flagDuplicateCompanies } from '../lib/company';
+import { listAttachments, stageAttachment, deleteAttachment, promoteAttachments } from '../lib/attachments';
+import { documentUpload } from '../lib/upload';
+import { recordInviteEvent } from '../lib/inviteEvents';
+import {
+  isValidIdempotencyKey,
+  hashRequestBody,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from '../lib/idempotency';
 import { sendWelcomeEmail } from '../lib/email';
+import { estimateSizing } from '../../shared/sizing';
+import { getInvitePrefill, applyLockedPrefill } from '../../shared/invitePrefill';
 
 const router = Router();
 
+// Invite links can be bound to the browser that first opens them
+router.use(inviteDevice);
+
 // Schema for onboarding with invite token
-const onboardingWithInviteSchema = onboardingFormSchema.extend({
+const onboardingWithInviteSchema = onboardingFormFieldsSchema.extend({
   inviteToken: z.string().min(32, 'Invalid invite token'),
-});
+}).superRefine(refineLineOfBusinessRequirements);
 
 /**
  * GET /api/onboarding/validate-invite/:token
@@ -27,22 +56,39 @@ router.get('/validate-invite/:token', async (req: Request, res: Response): Promi
       return;
     }
 
-    const validation = await validateInvite(token);
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'validate'));
 
     if (!validation.valid) {
-      res.status(400).json({
+      res.status(validation.status || 400).json({
         success: false,
         error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    // Team-member invites join an existing company (see /api/invites/team/:token)
+    if (isTeamMemberInvite(validation.invite!)) {
+      res.status(400).json({
+        success: false,
+        error: 'This invite is for joining your team on Claims iQ',
+        teamInvite: true,
       });
       return;
     }
 
+    await recordInviteEvent(validation.invite!.id, 'link_validated');
+
+    const { prefill, lockedFields } = getInvitePrefill(validation.invite!.metadata);
+
     res.json({
       success: true,
       invite: {
         email: validation.invite!.email,
         companyName: validation.invite!.company_name,
         expiresAt: validation.invite!.expires_at,
+        prefill,
+        lockedFields,
       },
     });
   } catch (error) {
@@ -51,13 +97,309 @@ router.get('/validate-invite/:token', async (req: Request, res: Response): Promi
   }
 });
 
+/**
+ * GET /api/onboarding/draft/:token
+ * Get the saved wizard draft for an invite so the prospect can resume
+ */
+router.get('/draft/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'draft_load'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    const draft = await getDraft(validation.invite!.id);
+
+    res.json({
+      success: true,
+      draft: draft
+        ? {
+            currentStep: draft.current_step,
+            formData: draft.form_data,
+            updatedAt: draft.updated_at,
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error('Get draft error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch draft' });
+  }
+});
+
+/**
+ * PUT /api/onboarding/draft/:token
+ * Save the wizard draft for an invite (called on every step transition)
+ */
+router.put('/draft/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const parseResult = saveOnboardingDraftSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'draft_save'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    const { currentStep, formData } = parseResult.data;
+    const result = await saveDraft(validation.invite!.id, currentStep, formData as OnboardingDraftData);
+
+    if (!result.success) {
+      res.status(500).json({ success: false, error: result.error });
+      return;
+    }
+
+    await recordInviteEvent(validation.invite!.id, 'draft_saved');
+
+    res.json({
+      success: true,
+      draft: {
+        currentStep: result.draft!.current_step,
+        updatedAt: result.draft!.updated_at,
+      },
+    });
+  } catch (error) {
+    console.error('Save draft error:', error);
+    res.status(500).json({ success: false, error: 'Failed to save draft' });
+  }
+});
+
+/**
+ * POST /api/onboarding/events/:token
+ * Record a funnel step the wizard reports itself (e.g. the prospect starting to fill it in)
+ */
+router.post('/events/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const parseResult = trackOnboardingEventSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'event'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    await recordInviteEvent(validation.invite!.id, parseResult.data.event);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Track onboarding event error:', error);
+    res.status(500).json({ success: false, error: 'Failed to record event' });
+  }
+});
+
+/**
+ * POST /api/onboarding/transfer-request/:token
+ * Ask staff to let this browser use an invite that is bound to another browser
+ */
+router.post('/transfer-request/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const result = await requestInviteTransfer(token, getInviteAccessContext(req, 'transfer_request'));
+
+    if (!result.success) {
+      res.status(result.status || 400).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Request sent. Your Claims iQ contact will let you know once this browser is approved.',
+    });
+  } catch (error) {
+    console.error('Invite transfer request error:', error);
+    res.status(500).json({ success: false, error: 'Failed to request access' });
+  }
+});
+
+/**
+ * GET /api/onboarding/attachments/:token
+ * List the files attached so far in the wizard
+ */
+router.get('/attachments/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'attachments_list'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    const attachments = await listAttachments(validation.invite!.id);
+
+    res.json({ success: true, attachments });
+  } catch (error) {
+    console.error('List attachments error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch attachments' });
+  }
+});
+
+/**
+ * POST /api/onboarding/attachments/:token
+ * Attach a file in the wizard (staged against the invite, moved into the
+ * project's documents when the onboarding form is submitted)
+ */
+router.post('/attachments/:token', documentUpload.single('file'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.params;
+    const file = req.file;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    if (!file) {
+      res.status(400).json({ success: false, error: 'No file uploaded' });
+      return;
+    }
+
+    const parseResult = uploadOnboardingAttachmentSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'attachment_upload'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    const result = await stageAttachment(validation.invite!.id, file, parseResult.data.category);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, attachment: result.attachment });
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    res.status(500).json({ success: false, error: 'Failed to upload attachment' });
+  }
+});
+
+/**
+ * DELETE /api/onboarding/attachments/:token/:attachmentId
+ * Remove a file attached in the wizard
+ */
+router.delete('/attachments/:token/:attachmentId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, attachmentId } = req.params;
+
+    if (!token || token.length < 32) {
+      res.status(400).json({ success: false, error: 'Invalid token format' });
+      return;
+    }
+
+    const validation = await checkInviteAccess(token, getInviteAccessContext(req, 'attachment_delete'));
+
+    if (!validation.valid) {
+      res.status(validation.status || 400).json({
+        success: false,
+        error: validation.error,
+        deviceMismatch: validation.deviceMismatch,
+      });
+      return;
+    }
+
+    const result = await deleteAttachment(validation.invite!.id, attachmentId);
+
+    if (!result.success) {
+      res.status(result.status || 500).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete attachment error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete attachment' });
+  }
+});
+
 /**
  * POST /api/onboarding/submit
  * Submit the complete onboarding form
  * Requires valid invite token
- * Creates company, contact, project, and module selections
+ * Creates company, contact, project, module selections, configs and checklist
+ * atomically via the submit_onboarding database function, then moves any
+ * wizard attachments into the project's documents
+ * Accepts an optional Idempotency-Key header; duplicates replay the original response
  */
 router.post('/submit', async (req: Request, res: Response): Promise<void> => {
+  const idempotencyKey = req.get('Idempotency-Key');
+  let keyClaimed = false;
+  let keyCompleted = false;
+
   try {
     // Validate input with invite token
     const parseResult = onboardingWithInviteSchema.safeParse(req.body);
@@ -67,297 +409,133 @@ router.post('/submit', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (idempotencyKey !== undefined) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        res.status(400).json({ success: false, error: 'Invalid Idempotency-Key header' });
+        return;
+      }
+
+      const claim = await claimIdempotencyKey(
+        'onboarding_submit',
+        idempotencyKey,
+        hashRequestBody(req.body)
+      );
+
+      switch (claim.status) {
+        case 'replay':
+          res.status(claim.responseStatus).json(claim.responseBody);
+          return;
+        case 'in_progress':
+          res.status(409).json({
+            success: false,
+            error: 'This submission is already being processed',
+          });
+          return;
+        case 'mismatch':
+          res.status(422).json({
+            success: false,
+            error: 'Idempotency-Key was already used with a different request',
+          });
+          return;
+        case 'error':
+          throw new Error('Failed to record submission attempt');
+      }
+
+      keyClaimed = true;
+    }
+
     const { inviteToken, ...formDataRaw } = parseResult.data;
-    const formData = formDataRaw as OnboardingFormData;
 
     // Validate invite token
-    const inviteValidation = await validateInvite(inviteToken);
+    const inviteValidation = await checkInviteAccess(inviteToken, getInviteAccessContext(req, 'submit'));
     if (!inviteValidation.valid) {
-      res.status(400).json({
+      res.status(inviteValidation.status || 400).json({
         success: false,
         error: inviteValidation.error || 'Invalid or expired invite token',
+        deviceMismatch: inviteValidation.deviceMismatch,
       });
       return;
     }
 
-    // Start a transaction-like operation
-    // Note: Supabase doesn't support true transactions via the client
-    // If any step fails, we handle cleanup as best we can
-
-    let companyId: string | null = null;
-    let contactId: string | null = null;
-    let projectId: string | null = null;
-
-    try {
-      // 1. Create company
-      const { data: company, error: companyError } = await supabase
-        .from('companies')
-        .insert({
-          legal_name: formData.company.legal_name,
-          dba_name: formData.company.dba_name || null,
-          website: formData.company.website || null,
-          address_line_1: formData.company.address_line_1,
-          address_line_2: formData.company.address_line_2 || null,
-          city: formData.company.city,
-          state: formData.company.state,
-          postal_code: formData.company.postal_code,
-          company_size: formData.company.company_size || null,
-          lines_of_business: formData.company.lines_of_business || [],
-        })
-        .select('id')
-        .single();
-
-      if (companyError) {
-        console.error('Company insert error:', companyError);
-        throw new Error(`Failed to create company: ${companyError.message}`);
-      }
-
-      companyId = company.id;
-
-      // 2. Create primary contact
-      const { data: contact, error: contactError } = await supabase
-        .from('contacts')
-        .insert({
-          company_id: companyId,
-          first_name: formData.contact.first_name,
-          last_name: formData.contact.last_name,
-          email: formData.contact.email,
-          phone: formData.contact.phone || null,
-          title: formData.contact.title || null,
-          role: 'primary',
-          is_active: true,
-        })
-        .select('id')
-        .single();
-
-      if (contactError) {
-        console.error('Contact insert error:', contactError);
-        throw new Error(`Failed to create contact: ${contactError.message}`);
-      }
-
-      contactId = contact.id;
-
-      // 3. Create onboarding project
-      const { data: project, error: projectError } = await supabase
-        .from('onboarding_projects')
-        .insert({
-          company_id: companyId,
-          status: 'discovery_in_progress',
-          notes: null,
-        })
-        .select('id')
-        .single();
-
-      if (projectError) {
-        console.error('Project insert error:', projectError);
-        throw new Error(`Failed to create project: ${projectError.message}`);
-      }
-
-      projectId = project.id;
-
-      // 4. Create module selections
-      const moduleTypes: ModuleType[] = ['core', 'comms', 'fnol'];
-      const moduleSelectionsToInsert = moduleTypes.map((moduleType) => ({
-        project_id: projectId!,
-        module_type: moduleType,
-        is_selected: formData.modules[moduleType],
-      }));
-
-      const { data: moduleSelections, error: moduleError } = await supabase
-        .from('module_selections')
-        .insert(moduleSelectionsToInsert)
-        .select('id, module_type, is_selected');
+    // Submitting would create a new company; team members accept their invite instead
+    if (isTeamMemberInvite(inviteValidation.invite!)) {
+      res.status(400).json({ success: false, error: 'This invite is for joining an existing team' });
+      return;
+    }
 
-      if (moduleError) {
-        console.error('Module selection insert error:', moduleError);
-        throw new Error(`Failed to create module selections: ${moduleError.message}`);
-      }
+    // Fields locked on the invite always keep the values staff prefilled
+    const { prefill, lockedFields } = getInvitePrefill(inviteValidation.invite!.metadata);
+    const formData = applyLockedPrefill(formDataRaw as OnboardingFormData, prefill, lockedFields);
 
-      // 5. Update module configs if requirements are provided
-      // The database trigger should auto-create config records when is_selected=true
-      // We just need to update them with the requirements
-
-      if (formData.requirements) {
-        // Wait a bit for triggers to create the config records
-        await new Promise((resolve) => setTimeout(resolve, 100));
-
-        // Update core config if provided
-        if (formData.requirements.core && formData.modules.core) {
-          const coreSelection = moduleSelections.find((m) => m.module_type === 'core');
-          if (coreSelection) {
-            const { error: coreConfigError } = await supabase
-              .from('core_module_configs')
-              .update({
-                claim_types: formData.requirements.core.claim_types || [],
-                perils: formData.requirements.core.perils || [],
-                document_types: formData.requirements.core.document_types || [],
-                monthly_claim_volume: formData.requirements.core.monthly_claim_volume || null,
-                monthly_document_volume: formData.requirements.core.monthly_document_volume || null,
-                pain_points: formData.requirements.core.pain_points || null,
-              })
-              .eq('module_selection_id', coreSelection.id);
-
-            if (coreConfigError) {
-              console.error('Core config update error:', coreConfigError);
-              // Non-fatal, continue
-            }
-          }
-        }
-
-        // Update comms config if provided
-        if (formData.requirements.comms && formData.modules.comms) {
-          const commsSelection = moduleSelections.find((m) => m.module_type === 'comms');
-          if (commsSelection) {
-            const { error: commsConfigError } = await supabase
-              .from('comms_module_configs')
-              .update({
-                desired_channels: formData.requirements.comms.desired_channels || [],
-                monthly_message_volume: formData.requirements.comms.monthly_message_volume || null,
-                white_label_level: formData.requirements.comms.white_label_level || 'none',
-                languages_required: formData.requirements.comms.languages_required || ['English'],
-              })
-              .eq('module_selection_id', commsSelection.id);
-
-            if (commsConfigError) {
-              console.error('Comms config update error:', commsConfigError);
-              // Non-fatal, continue
-            }
-          }
-        }
-
-        // Update FNOL config if provided
-        if (formData.requirements.fnol && formData.modules.fnol) {
-          const fnolSelection = moduleSelections.find((m) => m.module_type === 'fnol');
-          if (fnolSelection) {
-            const { error: fnolConfigError } = await supabase
-              .from('fnol_module_configs')
-              .update({
-                desired_intake_methods: formData.requirements.fnol.desired_intake_methods || [],
-                monthly_fnol_volume: formData.requirements.fnol.monthly_fnol_volume || null,
-                lines_of_business: formData.requirements.fnol.lines_of_business || [],
-                photo_required: formData.requirements.fnol.photo_required || false,
-                video_required: formData.requirements.fnol.video_required || false,
-              })
-              .eq('module_selection_id', fnolSelection.id);
-
-            if (fnolConfigError) {
-              console.error('FNOL config update error:', fnolConfigError);
-              // Non-fatal, continue
-            }
-          }
-        }
-      }
+    // Claim the invite, then create the company, contact, project, module selections,
+    // configs and checklist in a single transaction (see submit_onboarding migrations)
+    const { data: projectId, error: submitError } = await supabase.rpc('submit_onboarding', {
+      p_invite_id: inviteValidation.invite!.id,
+      p_form: { ...formData, sizing_estimate: estimateSizing(formData) },
+    });
 
-      // 6. Auto-create checklist items from templates
-      const selectedModuleTypes = Object.entries(formData.modules)
-        .filter(([, selected]) => selected)
-        .map(([type]) => type as ModuleType);
-
-      // Query checklist templates that apply to this project
-      const { data: templates, error: templatesError } = await supabase
-        .from('checklist_templates')
-        .select('id, required_for_modules')
-        .order('order_index', { ascending: true });
-
-      if (!templatesError && templates && templates.length > 0) {
-        // Filter templates: include if module_type is null (universal) OR matches selected modules
-        const applicableTemplates = templates.filter((template) => {
-          const requiredModules = template.required_for_modules as ModuleType[] | null;
-          // If no required modules, it applies to all projects
-          if (!requiredModules || requiredModules.length === 0) {
-            return true;
-          }
-          // If has required modules, check if any match selected modules
-          return requiredModules.some((moduleType: ModuleType) =>
-            selectedModuleTypes.includes(moduleType)
-          );
-        });
-
-        // Create checklist items for each applicable template
-        if (applicableTemplates.length > 0) {
-          const checklistItemsToInsert = applicableTemplates.map((template) => ({
-            project_id: projectId!,
-            template_id: template.id,
-            status: 'pending' as const,
-          }));
-
-          const { error: checklistError } = await supabase
-            .from('checklist_items')
-            .insert(checklistItemsToInsert);
-
-          if (checklistError) {
-            console.error('Checklist items creation error:', checklistError);
-            // Non-fatal, continue with onboarding
-          } else {
-            // Log checklist creation
-            await supabase.from('activity_logs').insert({
-              project_id: projectId,
-              user_id: null,
-              action: 'checklist_items_created',
-              details: {
-                count: applicableTemplates.length,
-                module_types: selectedModuleTypes,
-              },
-            });
-          }
-        }
-      }
+    // The invite was used, expired or revoked since it was checked; PTxyz codes raised by
+    // submit_onboarding carry the HTTP status
+    if (submitError?.code?.startsWith('PT')) {
+      res.status(parseInt(submitError.code.slice(2), 10)).json({ success: false, error: submitError.message });
+      return;
+    }
 
-      // 7. Mark invite as used
-      await markInviteUsed(inviteToken, projectId!);
-
-      // 8. Log activity
-      await supabase.from('activity_logs').insert({
-        project_id: projectId,
-        user_id: null, // Invite-based submission
-        action: 'onboarding_submitted',
-        details: {
-          company_name: formData.company.legal_name,
-          contact_email: formData.contact.email,
-          invite_email: inviteValidation.invite!.email,
-          modules_selected: selectedModuleTypes,
-        },
-      });
+    if (submitError || !projectId) {
+      console.error('Onboarding submission transaction failed:', submitError);
+      throw new Error(`Failed to submit onboarding: ${submitError?.message || 'no project created'}`);
+    }
 
-      // 9. Send welcome email
-      const appUrl = process.env.APP_URL || 'http://localhost:5000';
-      await sendWelcomeEmail(
-        formData.contact.email,
-        {
-          recipientName: `${formData.contact.first_name} ${formData.contact.last_name}`,
-          companyName: formData.company.legal_name,
-          portalUrl: `${appUrl}/portal`,
-        },
-        projectId || undefined
+    const response: OnboardingSubmitResponse = {
+      success: true,
+      projectId,
+      message: 'Onboarding form submitted successfully. Check your email for next steps.',
+    };
+
+    // Store the response before anything else can fail, so retries replay it
+    if (keyClaimed) {
+      await completeIdempotencyKey(
+        'onboarding_submit',
+        idempotencyKey!,
+        200,
+        response,
+        inviteValidation.invite!.id
       );
+      keyCompleted = true;
+    }
 
-      res.json({
-        success: true,
-        projectId,
-        message: 'Onboarding form submitted successfully. Check your email for next steps.',
-      });
-    } catch (innerError) {
-      // Attempt cleanup on failure
-      console.error('Onboarding submission failed, attempting cleanup:', innerError);
+    // Move files attached in the wizard into the project's documents
+    await promoteAttachments(inviteValidation.invite!.id, projectId);
 
-      if (projectId) {
-        await supabase.from('onboarding_projects').delete().eq('id', projectId);
-      }
-      if (contactId) {
-        await supabase.from('contacts').delete().eq('id', contactId);
-      }
-      if (companyId) {
-        await supabase.from('companies').delete().eq('id', companyId);
-      }
-
-      throw innerError;
+    // Flag likely duplicates for staff review, unless the invite was issued for an existing company
+    if (!inviteValidation.invite!.metadata?.companyId) {
+      await flagDuplicateCompanies(projectId);
     }
+
+    // Send welcome email
+    const appUrl = process.env.APP_URL || 'http://localhost:5000';
+    await sendWelcomeEmail(
+      formData.contact.email,
+      {
+        recipientName: `${formData.contact.first_name} ${formData.contact.last_name}`,
+        companyName: formData.company.legal_name,
+        portalUrl: `${appUrl}/portal`,
+      },
+      projectId
+    );
+
+    res.json(response);
   } catch (error) {
     console.error('Onboarding submission error:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to submit onboarding form',
     });
+  } finally {
+    // Nothing was created, so let the client retry with the same key
+    if (keyClaimed && !keyCompleted) {
+      await releaseIdempotencyKey('onboarding_submit', idempotencyKey!);
+    }
   }
 });
 
@@ -1,45 +1,48 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth';
-import { requireProjectAccess, TenantAccessError } from '../lib/tenant';
-import { updateChecklistItemSchema } from '../../shared/validation';
+import { applyImpersonation } from '../middleware/impersonation';
+import { requireProjectAccess, requirePermission, getActingUserId, TenantAccessError } from '../lib/tenant';
+import { documentUpload } from '../lib/upload';
+import {
+  updateChecklistItemSchema,
+  updateRolePermissionsSchema,
+  configurableContactRoleSchema,
+} from '../../shared/validation';
+import {
+  getCompanyRolePermissions,
+  updateCompanyRolePermissions,
+  resetCompanyRolePermissions,
+} from '../lib/rolePermissions';
 import { fromZodError } from 'zod-validation-error';
-import type { ProjectWithDetails, ProjectSummary, ChecklistItemWithTemplate } from '../../shared/types';
+import type {
+  ProjectWithDetails,
+  ProjectSummary,
+  ChecklistItemWithTemplate,
+  SizingEstimate,
+} from '../../shared/types';
+import {
+  REQUIREMENT_MODULES,
+  getVisibleQuestions,
+  formatRequirementAnswer,
+  formatLineOfBusinessRequirements,
+} from '../../shared/requirementsCatalog';
+import {
+  SIZING_TIER_LABELS,
+  IMPLEMENTATION_EFFORT_LABELS,
+  formatGoLiveWindow,
+} from '../../shared/sizing';
 import PDFDocument from 'pdfkit';
-import multer from 'multer';
 import path from 'path';
 import crypto from 'crypto';
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = [
-      'application/pdf',
-      'image/jpeg',
-      'image/png',
-      'image/gif',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'text/csv',
-    ];
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type'));
-    }
-  },
-});
-
 const router = Router();
 
 // All portal routes require authentication
 router.use(requireAuth);
 
+// Staff viewing the portal as a customer act as that customer
+router.use(applyImpersonation);
+
 /**
  * GET /api/portal/projects
  * Get all projects accessible to the current user
@@ -241,6 +244,7 @@ router.patch('/checklist/:itemId', async (req: Request, res: Response): Promise<
     // Validate access to the project
     try {
       await requireProjectAccess(client, tenant, checklistItem.project_id);
+      requirePermission(tenant, 'checklist.update');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -278,7 +282,7 @@ router.patch('/checklist/:itemId', async (req: Request, res: Response): Promise<
     // Log activity
     await client.from('activity_logs').insert({
       project_id: checklistItem.project_id,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'checklist_item_updated',
       details: {
         item_id: itemId,
@@ -346,6 +350,7 @@ router.post('/projects/:projectId/sow/approve', async (req: Request, res: Respon
     // Validate access
     try {
       await requireProjectAccess(client, tenant, projectId);
+      requirePermission(tenant, 'sow.approve');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -392,7 +397,7 @@ router.post('/projects/:projectId/sow/approve', async (req: Request, res: Respon
     // Log activity
     await client.from('activity_logs').insert({
       project_id: projectId,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'sow_approved',
       details: {
         signed_by_email: tenant.email,
@@ -479,6 +484,22 @@ router.post('/team/invite', async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    try {
+      requirePermission(tenant, 'team.invite');
+    } catch (e) {
+      if (e instanceof TenantAccessError) {
+        res.status(403).json({ success: false, error: e.message });
+        return;
+      }
+      throw e;
+    }
+
+    // Each company has one primary contact; new members join with another role
+    if (role !== undefined && !configurableContactRoleSchema.safeParse(role).success) {
+      res.status(400).json({ success: false, error: 'Invalid role' });
+      return;
+    }
+
     // Check if contact already exists with this email for this company
     const { data: existingContact } = await client
       .from('contacts')
@@ -604,6 +625,133 @@ router.get('/team', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/portal/permissions
+ * Get the current user's permissions and what each role can do in their company
+ */
+router.get('/permissions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tenant = req.tenant!;
+
+    if (!tenant.companyId) {
+      res.status(403).json({ success: false, error: 'Company not found for user' });
+      return;
+    }
+
+    const roles = await getCompanyRolePermissions(tenant.companyId);
+
+    res.json({
+      success: true,
+      contactRole: tenant.contactRole,
+      permissions: tenant.permissions,
+      roles,
+    });
+  } catch (error) {
+    console.error('Permissions fetch error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch permissions' });
+  }
+});
+
+/**
+ * PUT /api/portal/permissions/:role
+ * Change what a role can do in the user's company
+ */
+router.put('/permissions/:role', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tenant = req.tenant!;
+
+    if (!tenant.companyId) {
+      res.status(403).json({ success: false, error: 'Company not found for user' });
+      return;
+    }
+
+    try {
+      requirePermission(tenant, 'team.permissions');
+    } catch (e) {
+      if (e instanceof TenantAccessError) {
+        res.status(403).json({ success: false, error: e.message });
+        return;
+      }
+      throw e;
+    }
+
+    const roleResult = configurableContactRoleSchema.safeParse(req.params.role);
+    if (!roleResult.success) {
+      res.status(400).json({ success: false, error: 'Invalid role' });
+      return;
+    }
+
+    const parseResult = updateRolePermissionsSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    const result = await updateCompanyRolePermissions(
+      tenant.companyId,
+      roleResult.data,
+      parseResult.data.permissions,
+      tenant.userId
+    );
+
+    if (!result.success) {
+      res.status(500).json({ success: false, error: result.error });
+      return;
+    }
+
+    const roles = await getCompanyRolePermissions(tenant.companyId);
+    res.json({ success: true, roles });
+  } catch (error) {
+    console.error('Permissions update error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update permissions' });
+  }
+});
+
+/**
+ * DELETE /api/portal/permissions/:role
+ * Return a role to the default permissions
+ */
+router.delete('/permissions/:role', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tenant = req.tenant!;
+
+    if (!tenant.companyId) {
+      res.status(403).json({ success: false, error: 'Company not found for user' });
+      return;
+    }
+
+    try {
+      requirePermission(tenant, 'team.permissions');
+    } catch (e) {
+      if (e instanceof TenantAccessError) {
+        res.status(403).json({ success: false, error: e.message });
+        return;
+      }
+      throw e;
+    }
+
+    const roleResult = configurableContactRoleSchema.safeParse(req.params.role);
+    if (!roleResult.success) {
+      res.status(400).json({ success: false, error: 'Invalid role' });
+      return;
+    }
+
+    const result = await resetCompanyRolePermissions(tenant.companyId, roleResult.data);
+
+    if (!result.success) {
+      res.status(500).json({ success: false, error: result.error });
+      return;
+    }
+
+    const roles = await getCompanyRolePermissions(tenant.companyId);
+    res.json({ success: true, roles });
+  } catch (error) {
+    console.error('Permissions reset error:', error);
+    res.status(500).json({ success: false, error: 'Failed to reset permissions' });
+  }
+});
+
 /**
  * GET /api/portal/projects/:projectId/activity
  * Get activity log for a project
@@ -751,40 +899,29 @@ router.get('/projects/:projectId/sow/pdf', async (req: Request, res: Response):
     doc.fontSize(11).font('Helvetica');
 
     for (const module of selectedModules) {
-      const moduleName = module.module_type === 'core' ? 'Core Claims Platform'
-        : module.module_type === 'comms' ? 'Communications Suite'
-        : 'FNOL Intake';
+      const moduleInfo = REQUIREMENT_MODULES.find((m) => m.module === module.module_type);
+      const configKey = `${module.module_type}_config`;
+      const config = Array.isArray(module[configKey]) ? module[configKey][0] : module[configKey];
 
-      doc.font('Helvetica-Bold').text(`• ${moduleName}`);
+      doc.font('Helvetica-Bold').text(`• ${moduleInfo?.sowTitle || module.module_type}`);
       doc.font('Helvetica');
 
-      if (module.module_type === 'core' && module.core_config) {
-        const config = Array.isArray(module.core_config) ? module.core_config[0] : module.core_config;
-        if (config?.claim_types?.length) {
-          doc.text(`  Claim Types: ${config.claim_types.join(', ')}`, { indent: 20 });
-        }
-        if (config?.monthly_claim_volume) {
-          doc.text(`  Monthly Volume: ${config.monthly_claim_volume.toLocaleString()} claims`, { indent: 20 });
-        }
-      }
-
-      if (module.module_type === 'comms' && module.comms_config) {
-        const config = Array.isArray(module.comms_config) ? module.comms_config[0] : module.comms_config;
-        if (config?.desired_channels?.length) {
-          doc.text(`  Channels: ${config.desired_channels.join(', ')}`, { indent: 20 });
-        }
-        if (config?.languages_required?.length) {
-          doc.text(`  Languages: ${config.languages_required.join(', ')}`, { indent: 20 });
+      // Requirements answered in the onboarding wizard (see shared/requirementsCatalog.ts)
+      for (const question of getVisibleQuestions(module.module_type, config || {})) {
+        const answer = formatRequirementAnswer(question, config?.[question.id]);
+        if (answer) {
+          doc.text(`  ${question.label}: ${answer}`, { indent: 20 });
         }
       }
 
-      if (module.module_type === 'fnol' && module.fnol_config) {
-        const config = Array.isArray(module.fnol_config) ? module.fnol_config[0] : module.fnol_config;
-        if (config?.desired_intake_methods?.length) {
-          doc.text(`  Intake Methods: ${config.desired_intake_methods.join(', ')}`, { indent: 20 });
-        }
-        if (config?.lines_of_business?.length) {
-          doc.text(`  Lines of Business: ${config.lines_of_business.join(', ')}`, { indent: 20 });
+      // Core requirements broken out by line of business
+      if (module.module_type === 'core') {
+        for (const { line, answers } of formatLineOfBusinessRequirements(config?.lob_requirements)) {
+          doc.font('Helvetica-Bold').text(`  ${line}`, { indent: 20 });
+          doc.font('Helvetica');
+          for (const { label, answer } of answers) {
+            doc.text(`    ${label}: ${answer}`, { indent: 30 });
+          }
         }
       }
 
@@ -805,6 +942,20 @@ router.get('/projects/:projectId/sow/pdf', async (req: Request, res: Response):
       ? new Date(project.target_go_live_date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
       : 'To be determined'}`);
 
+    // Sizing estimate captured at submission (indicative until confirmed by Claims iQ)
+    const sizing: SizingEstimate | null = project.sizing_estimate;
+    if (sizing) {
+      doc.moveDown(0.5);
+      doc.text(`Estimated Tier: ${SIZING_TIER_LABELS[sizing.tier]}`);
+      doc.text(`Implementation Effort: ${IMPLEMENTATION_EFFORT_LABELS[sizing.effort]} (approx. ${sizing.effort_weeks} weeks)`);
+      if (!project.target_go_live_date) {
+        doc.text(`Estimated Go-Live Window: ${formatGoLiveWindow(sizing.go_live_window)}`);
+      }
+      if (sizing.drivers.length > 0) {
+        doc.text(`Sizing Drivers: ${sizing.drivers.join('; ')}`);
+      }
+    }
+
     doc.moveDown(1.5);
 
     // Terms Section
@@ -869,7 +1020,7 @@ router.get('/projects/:projectId/sow/pdf', async (req: Request, res: Response):
  * POST /api/portal/projects/:projectId/documents/upload
  * Upload a document to the project
  */
-router.post('/projects/:projectId/documents/upload', upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+router.post('/projects/:projectId/documents/upload', documentUpload.single('file'), async (req: Request, res: Response): Promise<void> => {
   try {
     const client = req.supabaseClient!;
     const tenant = req.tenant!;
@@ -884,6 +1035,7 @@ router.post('/projects/:projectId/documents/upload', upload.single('file'), asyn
     // Validate access
     try {
       await requireProjectAccess(client, tenant, projectId);
+      requirePermission(tenant, 'documents.upload');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -937,7 +1089,7 @@ router.post('/projects/:projectId/documents/upload', upload.single('file'), asyn
     // Log activity
     await client.from('activity_logs').insert({
       project_id: projectId,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'document_uploaded',
       details: {
         document_name: file.originalname,
@@ -978,6 +1130,7 @@ router.delete('/documents/:documentId', async (req: Request, res: Response): Pro
     // Validate access to the project
     try {
       await requireProjectAccess(client, tenant, document.project_id);
+      requirePermission(tenant, 'documents.delete');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -1011,7 +1164,7 @@ router.delete('/documents/:documentId', async (req: Request, res: Response): Pro
     // Log activity
     await client.from('activity_logs').insert({
       project_id: document.project_id,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'document_deleted',
       details: {
         document_name: document.name,
@@ -1136,6 +1289,7 @@ router.post('/projects/:projectId/integrations', async (req: Request, res: Respo
     // Validate access
     try {
       await requireProjectAccess(client, tenant, projectId);
+      requirePermission(tenant, 'integrations.manage');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -1166,7 +1320,7 @@ router.post('/projects/:projectId/integrations', async (req: Request, res: Respo
     // Log activity
     await client.from('activity_logs').insert({
       project_id: projectId,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'integration_added',
       details: {
         system_name: systemName,
@@ -1207,6 +1361,7 @@ router.patch('/integrations/:integrationId', async (req: Request, res: Response)
     // Validate access
     try {
       await requireProjectAccess(client, tenant, existing.project_id);
+      requirePermission(tenant, 'integrations.manage');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -1267,6 +1422,7 @@ router.delete('/integrations/:integrationId', async (req: Request, res: Response
     // Validate access
     try {
       await requireProjectAccess(client, tenant, existing.project_id);
+      requirePermission(tenant, 'integrations.manage');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -1289,7 +1445,7 @@ router.delete('/integrations/:integrationId', async (req: Request, res: Response
     // Log activity
     await client.from('activity_logs').insert({
       project_id: existing.project_id,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'integration_removed',
       details: {
         system_name: existing.system_name,
@@ -1322,6 +1478,7 @@ router.post('/projects/:projectId/webhooks', async (req: Request, res: Response)
     // Validate access
     try {
       await requireProjectAccess(client, tenant, projectId);
+      requirePermission(tenant, 'webhooks.manage');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -1355,7 +1512,7 @@ router.post('/projects/:projectId/webhooks', async (req: Request, res: Response)
     // Log activity
     await client.from('activity_logs').insert({
       project_id: projectId,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'webhook_registered',
       details: {
         url,
@@ -1436,6 +1593,7 @@ router.delete('/webhooks/:webhookId', async (req: Request, res: Response): Promi
     // Validate access
     try {
       await requireProjectAccess(client, tenant, existing.project_id);
+      requirePermission(tenant, 'webhooks.manage');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -1475,6 +1633,7 @@ router.post('/projects/:projectId/api-credentials/regenerate', async (req: Reque
     // Validate access
     try {
       await requireProjectAccess(client, tenant, projectId);
+      requirePermission(tenant, 'api_credentials.regenerate');
     } catch (e) {
       if (e instanceof TenantAccessError) {
         res.status(403).json({ success: false, error: e.message });
@@ -1507,7 +1666,7 @@ router.post('/projects/:projectId/api-credentials/regenerate', async (req: Reque
     // Log activity
     await client.from('activity_logs').insert({
       project_id: projectId,
-      user_id: tenant.userId,
+      user_id: getActingUserId(tenant),
       action: 'api_credentials_regenerated',
       details: {},
     });
@@ -0,0 +1,66 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { verifyEventWebhookSignature } from '../lib/email';
+import { recordInviteEvent } from '../lib/inviteEvents';
+
+const router = Router();
+
+// SendGrid event webhook payload (only the fields we use; custom args arrive as top-level fields)
+const sendgridEventsSchema = z.array(
+  z.object({
+    event: z.string(),
+    timestamp: z.number().optional(),
+    sg_event_id: z.string().optional(),
+    invite_id: z.string().optional(),
+  }).passthrough()
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/webhooks/sendgrid
+ * Receive SendGrid email events (signed) and record invite email opens for the funnel
+ */
+router.post('/sendgrid', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const payload = req.rawBody;
+    const verified = Buffer.isBuffer(payload) && verifyEventWebhookSignature(
+      payload,
+      req.get('X-Twilio-Email-Event-Webhook-Signature'),
+      req.get('X-Twilio-Email-Event-Webhook-Timestamp')
+    );
+
+    if (!verified) {
+      res.status(401).json({ success: false, error: 'Invalid webhook signature' });
+      return;
+    }
+
+    const parseResult = sendgridEventsSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      const error = fromZodError(parseResult.error);
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    let recorded = 0;
+    for (const event of parseResult.data) {
+      // A click also proves the email was opened (opens go unreported when images are blocked)
+      if (event.event !== 'open' && event.event !== 'click') continue;
+      if (!event.invite_id || !UUID_PATTERN.test(event.invite_id)) continue;
+
+      await recordInviteEvent(event.invite_id, 'email_opened', {
+        metadata: { sendgrid_event: event.event, sg_event_id: event.sg_event_id },
+        occurredAt: event.timestamp ? new Date(event.timestamp * 1000) : undefined,
+      });
+      recorded++;
+    }
+
+    res.json({ success: true, recorded });
+  } catch (error) {
+    console.error('SendGrid webhook error:', error);
+    res.status(500).json({ success: false, error: 'Failed to process webhook' });
+  }
+});
+
+export default router;
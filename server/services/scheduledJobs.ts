@@ -0,0 +1,41 @@
+import { startScheduler, type ScheduledJob } from '../lib/scheduler';
+import { expireOldInvites, sendInviteReminders } from '../lib/invite';
+import { pruneRateLimits } from '../lib/loginProtection';
+import { pruneSessions } from '../lib/sessions';
+import { processBulkInviteEmails } from '../lib/bulkInvite';
+
+// Intervals and on/off switches are stored per job in the scheduled_jobs table
+const JOBS: ScheduledJob[] = [
+  {
+    name: 'expire_invites',
+    run: async () => ({ expired: await expireOldInvites() }),
+  },
+  {
+    name: 'invite_reminders',
+    run: async () => sendInviteReminders(),
+  },
+  {
+    name: 'bulk_invite_emails',
+    run: async () => processBulkInviteEmails(),
+  },
+  {
+    name: 'auth_rate_limit_cleanup',
+    run: async () => pruneRateLimits(),
+  },
+  {
+    name: 'user_session_cleanup',
+    run: async () => pruneSessions(),
+  },
+];
+
+/**
+ * Start the background jobs unless disabled with JOB_SCHEDULER_ENABLED=false
+ */
+export function startScheduledJobs(): void {
+  if (process.env.JOB_SCHEDULER_ENABLED === 'false') {
+    console.log('Job scheduler disabled');
+    return;
+  }
+
+  startScheduler(JOBS);
+}
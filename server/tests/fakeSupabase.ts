@@ -0,0 +1,174 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../shared/types';
+
+// An in-memory stand-in for the Supabase client, for tests of server code that queries it
+// Filters, inserts, updates and deletes work on plain rows; embedded resources (joins),
+// ordering and paging are ignored, so tests should only rely on the rows a query filters.
+
+export type Row = Record<string, unknown>;
+
+export interface FakeSupabase {
+  client: SupabaseClient<Database>;
+  tables: Record<string, Row[]>;
+  // Database functions called through client.rpc(), by name
+  rpc: Record<string, (args: Row) => unknown>;
+  reset(tables: Record<string, Row[]>): void;
+}
+
+type Filter = (row: Row) => boolean;
+
+const unescapeLike = (pattern: string) => pattern.replace(/\\(.)/g, '$1');
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\\.|[%_*])/)
+    .map((part) => {
+      if (part === '%' || part === '*') return '.*';
+      if (part === '_') return '.';
+      return unescapeLike(part).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function createFakeSupabase(): FakeSupabase {
+  const tables: Record<string, Row[]> = {};
+  const rpc: Record<string, (args: Row) => unknown> = {};
+  let nextId = 1;
+
+  const from = (table: string) => {
+    const filters: Filter[] = [];
+    let action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+    let values: Row | Row[] = {};
+
+    const run = () => {
+      const rows = (tables[table] ||= []);
+      if (action === 'insert' || action === 'upsert') {
+        const inserted = [values].flat().map((value) => ({ id: `${table}-${nextId++}`, ...value }));
+        rows.push(...inserted);
+        return inserted;
+      }
+      const matches = rows.filter((row) => filters.every((filter) => filter(row)));
+      if (action === 'update') matches.forEach((row) => Object.assign(row, values));
+      if (action === 'delete') tables[table] = rows.filter((row) => !matches.includes(row));
+      return matches;
+    };
+
+    const filter = (test: Filter) => {
+      filters.push(test);
+      return builder;
+    };
+    const write = (nextAction: typeof action, value: Row | Row[] = {}) => {
+      action = nextAction;
+      values = value;
+      return builder;
+    };
+
+    const methods: Record<string, unknown> = {
+      insert: (value: Row | Row[]) => write('insert', value),
+      upsert: (value: Row | Row[]) => write('upsert', value),
+      update: (value: Row) => write('update', value),
+      delete: () => write('delete'),
+      eq: (column: string, value: unknown) => filter((row) => (row[column] ?? null) === value),
+      neq: (column: string, value: unknown) => filter((row) => (row[column] ?? null) !== value),
+      is: (column: string, value: unknown) => filter((row) => (row[column] ?? null) === value),
+      in: (column: string, list: unknown[]) => filter((row) => list.includes(row[column])),
+      gt: (column: string, value: string) => filter((row) => row[column] != null && String(row[column]) > value),
+      gte: (column: string, value: string) => filter((row) => row[column] != null && String(row[column]) >= value),
+      lt: (column: string, value: string) => filter((row) => row[column] != null && String(row[column]) < value),
+      lte: (column: string, value: string) => filter((row) => row[column] != null && String(row[column]) <= value),
+      ilike: (column: string, pattern: string) =>
+        filter((row) => typeof row[column] === 'string' && likeToRegExp(pattern).test(row[column] as string)),
+      contains: (column: string, list: unknown[]) =>
+        filter((row) => Array.isArray(row[column]) && list.every((value) => (row[column] as unknown[]).includes(value))),
+      single: async () => {
+        const rows = run();
+        return rows.length === 1 ? { data: rows[0], error: null } : { data: null, error: { code: 'PGRST116' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (result: unknown) => unknown, reject?: (error: unknown) => unknown) => {
+        const rows = run();
+        return Promise.resolve({ data: rows, error: null, count: rows.length }).then(resolve, reject);
+      },
+    };
+
+    // select, order, limit, or and the rest don't change which rows come back
+    const builder: Record<string, unknown> = new Proxy(methods, {
+      get: (target, property: string) => (property in target ? target[property] : () => builder),
+    });
+    return builder;
+  };
+
+  const authUsers = () => (tables['auth.users'] ||= []);
+  const findAuthUser = (id: string) => authUsers().find((user) => user.id === id) || null;
+
+  const client = {
+    from,
+    rpc: async (name: string, args: Row = {}) => {
+      try {
+        return { data: rpc[name] ? await rpc[name](args) : null, error: null };
+      } catch (error) {
+        return { data: null, error };
+      }
+    },
+    auth: {
+      // Access tokens in tests are the auth user's id
+      getUser: async (accessToken: string) => {
+        const user = findAuthUser(accessToken);
+        return user ? { data: { user }, error: null } : { data: { user: null }, error: { message: 'invalid JWT' } };
+      },
+      // Supabase Auth holds no passwords here, so password sign-ins always fail
+      signInWithPassword: async () => ({
+        data: { user: null, session: null },
+        error: { message: 'Invalid login credentials' },
+      }),
+      verifyOtp: async () => ({
+        data: { session: { access_token: 'access-token', refresh_token: 'refresh-token' } },
+        error: null,
+      }),
+      admin: {
+        getUserById: async (id: string) => ({ data: { user: findAuthUser(id) }, error: null }),
+        createUser: async (attributes: Row) => {
+          const user = { id: `auth-${nextId++}`, ...attributes };
+          authUsers().push(user);
+          return { data: { user }, error: null };
+        },
+        updateUserById: async (id: string, attributes: Row) => {
+          const user = findAuthUser(id);
+          if (user) Object.assign(user, attributes);
+          return { data: { user }, error: user ? null : { message: 'User not found' } };
+        },
+        deleteUser: async (id: string) => {
+          tables['auth.users'] = authUsers().filter((user) => user.id !== id);
+          return { data: null, error: null };
+        },
+        generateLink: async () => ({ data: { properties: { hashed_token: 'hashed-token' } }, error: null }),
+        signOut: async () => ({ data: null, error: null }),
+      },
+    },
+  };
+
+  return {
+    client: client as unknown as SupabaseClient<Database>,
+    tables,
+    rpc,
+    reset(nextTables) {
+      for (const table of Object.keys(tables)) delete tables[table];
+      for (const name of Object.keys(rpc)) delete rpc[name];
+      Object.assign(tables, structuredClone(nextTables));
+    },
+  };
+}
+
+/**
+ * The exports of server/lib/supabase backed by a fake, for vi.mock('../lib/supabase')
+ * Access tokens are auth user ids, and each is its own session.
+ */
+export function fakeSupabaseModule(fake: FakeSupabase) {
+  return {
+    supabase: fake.client,
+    createAuthenticatedClient: () => fake.client,
+    verifyToken: async (accessToken: string) => (await fake.client.auth.getUser(accessToken)).data.user,
+    getTokenSessionId: (accessToken: string) => `session-${accessToken}`,
+  };
+}
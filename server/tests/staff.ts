@@ -0,0 +1,30 @@
+import type { StaffRole } from '../../shared/types';
+import type { Row } from './fakeSupabase';
+
+// One staff member per role, signed in with a session that has passed two-factor authentication.
+// With fakeSupabaseModule, a staff member's access token is their auth user id.
+
+export const STAFF_ROLES: StaffRole[] = ['admin', 'csm', 'sales', 'support'];
+
+export const staffUserId = (role: StaffRole) => `staff-${role}`;
+
+export const staffAuthHeader = (role: StaffRole) => ({ authorization: `Bearer auth-${role}` });
+
+/**
+ * Fake Supabase tables holding the staff members and their verified sessions
+ */
+export function staffTables(): Record<string, Row[]> {
+  return {
+    users: STAFF_ROLES.map((role) => ({
+      id: staffUserId(role),
+      auth_user_id: `auth-${role}`,
+      email: `${role}@claimsiq.com`,
+      first_name: role,
+      last_name: 'User',
+      role,
+      is_active: true,
+    })),
+    'auth.users': STAFF_ROLES.map((role) => ({ id: `auth-${role}`, email: `${role}@claimsiq.com` })),
+    mfa_verified_sessions: STAFF_ROLES.map((role) => ({ session_id: `session-auth-${role}`, auth_user_id: `auth-${role}` })),
+  };
+}
@@ -0,0 +1,26 @@
+import express, { type Router } from 'express';
+import cookieParser from 'cookie-parser';
+import type { AddressInfo } from 'net';
+
+/**
+ * Serve routers on a random local port the way server/routes.ts mounts them
+ * Returns the base URL to fetch from and a function to shut the server down.
+ */
+export async function startTestServer(routes: Record<string, Router>): Promise<{ url: string; close: () => Promise<void> }> {
+  const app = express();
+  app.use(cookieParser());
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  for (const [path, router] of Object.entries(routes)) {
+    app.use(path, router);
+  }
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  normalizeAddress,
+  normalizePostalCode,
+  normalizeState,
+  POSTAL_CODE_ERROR,
+  STATE_ERROR,
+} from './address';
+
+describe('normalizeState', () => {
+  it.each([
+    ['tx', 'TX'],
+    ['Texas', 'TX'],
+    ['  new   york ', 'NY'],
+    ['N.Y.', 'NY'],
+    ['Washington D.C.', 'DC'],
+    ['PEI', 'PE'],
+    ['Québec', 'QC'],
+    ['puerto rico', 'PR'],
+  ])('resolves %j to %s', (input, code) => {
+    expect(normalizeState(input)?.code).toBe(code);
+  });
+
+  it('reports the country of the region', () => {
+    expect(normalizeState('ON')?.country).toBe('CA');
+    expect(normalizeState('OH')?.country).toBe('US');
+  });
+
+  it.each([null, undefined, '', 'Texass', 'ZZ', 'England'])('rejects %j', (input) => {
+    expect(normalizeState(input)).toBeNull();
+  });
+});
+
+describe('normalizePostalCode', () => {
+  it.each([
+    ['78701', '78701'],
+    ['78701-1234', '78701-1234'],
+    ['787011234', '78701-1234'],
+    [' 78701 1234 ', '78701-1234'],
+  ])('formats US ZIP %j as %s', (input, postalCode) => {
+    expect(normalizePostalCode(input)).toEqual({ postalCode, country: 'US' });
+  });
+
+  it.each([
+    ['k1a0b1', 'K1A 0B1'],
+    ['K1A 0B1', 'K1A 0B1'],
+    ['m5v  3l9', 'M5V 3L9'],
+  ])('formats Canadian postal code %j as %s', (input, postalCode) => {
+    expect(normalizePostalCode(input)).toEqual({ postalCode, country: 'CA' });
+  });
+
+  it.each([null, '', '7870', '78701-12', 'D1A 0B1', 'K1A 0B', 'W1A 0B1', 'ABCDE'])('rejects %j', (input) => {
+    expect(normalizePostalCode(input)).toBeNull();
+  });
+});
+
+describe('normalizeAddress', () => {
+  it('normalizes a matching state and postal code', () => {
+    expect(normalizeAddress('texas', '787011234')).toEqual({
+      valid: true,
+      state: 'TX',
+      postalCode: '78701-1234',
+      country: 'US',
+      errors: {},
+    });
+  });
+
+  it('rejects a US state with a Canadian postal code', () => {
+    const address = normalizeAddress('TX', 'K1A 0B1');
+
+    expect(address.valid).toBe(false);
+    expect(address.errors).toEqual({ postalCode: 'Texas requires a US ZIP code' });
+  });
+
+  it('rejects a province with a US ZIP code', () => {
+    expect(normalizeAddress('Ontario', '78701').errors).toEqual({
+      postalCode: 'Ontario requires a Canadian postal code',
+    });
+  });
+
+  it('reports an unknown state and an invalid postal code together', () => {
+    const address = normalizeAddress('Atlantis', '123');
+
+    expect(address.valid).toBe(false);
+    expect(address.errors).toEqual({ state: STATE_ERROR, postalCode: POSTAL_CODE_ERROR });
+  });
+});
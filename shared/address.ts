@@ -0,0 +1,141 @@
+// Offline address normalization for US and Canadian addresses
+// Used by companySchema (server) and the onboarding wizard's company step (client)
+
+export type AddressCountry = 'US' | 'CA';
+
+export interface Region {
+  code: string;
+  name: string;
+  country: AddressCountry;
+}
+
+// US states, DC, territories and military "states"
+export const US_STATES: Region[] = [
+  ['AL', 'Alabama'], ['AK', 'Alaska'], ['AZ', 'Arizona'], ['AR', 'Arkansas'], ['CA', 'California'],
+  ['CO', 'Colorado'], ['CT', 'Connecticut'], ['DE', 'Delaware'], ['FL', 'Florida'], ['GA', 'Georgia'],
+  ['HI', 'Hawaii'], ['ID', 'Idaho'], ['IL', 'Illinois'], ['IN', 'Indiana'], ['IA', 'Iowa'],
+  ['KS', 'Kansas'], ['KY', 'Kentucky'], ['LA', 'Louisiana'], ['ME', 'Maine'], ['MD', 'Maryland'],
+  ['MA', 'Massachusetts'], ['MI', 'Michigan'], ['MN', 'Minnesota'], ['MS', 'Mississippi'], ['MO', 'Missouri'],
+  ['MT', 'Montana'], ['NE', 'Nebraska'], ['NV', 'Nevada'], ['NH', 'New Hampshire'], ['NJ', 'New Jersey'],
+  ['NM', 'New Mexico'], ['NY', 'New York'], ['NC', 'North Carolina'], ['ND', 'North Dakota'], ['OH', 'Ohio'],
+  ['OK', 'Oklahoma'], ['OR', 'Oregon'], ['PA', 'Pennsylvania'], ['RI', 'Rhode Island'], ['SC', 'South Carolina'],
+  ['SD', 'South Dakota'], ['TN', 'Tennessee'], ['TX', 'Texas'], ['UT', 'Utah'], ['VT', 'Vermont'],
+  ['VA', 'Virginia'], ['WA', 'Washington'], ['WV', 'West Virginia'], ['WI', 'Wisconsin'], ['WY', 'Wyoming'],
+  ['DC', 'District of Columbia'],
+  ['AS', 'American Samoa'], ['GU', 'Guam'], ['MP', 'Northern Mariana Islands'], ['PR', 'Puerto Rico'],
+  ['VI', 'U.S. Virgin Islands'], ['UM', 'U.S. Minor Outlying Islands'],
+  ['AA', 'Armed Forces Americas'], ['AE', 'Armed Forces Europe'], ['AP', 'Armed Forces Pacific'],
+].map(([code, name]) => ({ code, name, country: 'US' as const }));
+
+export const CA_PROVINCES: Region[] = [
+  ['AB', 'Alberta'], ['BC', 'British Columbia'], ['MB', 'Manitoba'], ['NB', 'New Brunswick'],
+  ['NL', 'Newfoundland and Labrador'], ['NS', 'Nova Scotia'], ['NT', 'Northwest Territories'],
+  ['NU', 'Nunavut'], ['ON', 'Ontario'], ['PE', 'Prince Edward Island'], ['QC', 'Quebec'],
+  ['SK', 'Saskatchewan'], ['YT', 'Yukon'],
+].map(([code, name]) => ({ code, name, country: 'CA' as const }));
+
+export const REGIONS: Region[] = [...US_STATES, ...CA_PROVINCES];
+
+// Common alternate spellings
+const REGION_ALIASES: Record<string, string> = {
+  'WASHINGTON DC': 'DC',
+  'WASHINGTON D C': 'DC',
+  'VIRGIN ISLANDS': 'VI',
+  'US VIRGIN ISLANDS': 'VI',
+  'NEWFOUNDLAND': 'NL',
+  'PEI': 'PE',
+  'QUÉBEC': 'QC',
+  'YUKON TERRITORY': 'YT',
+};
+
+// ZIP or ZIP+4
+const US_POSTAL_PATTERN = /^(\d{5})(?:[-\s]?(\d{4}))?$/;
+// A1A 1A1 (D, F, I, O, Q and U are never used; W and Z never start a code)
+const CA_POSTAL_PATTERN = /^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s?(\d[ABCEGHJ-NPRSTV-Z]\d)$/;
+
+function cleanRegionInput(value: string): string {
+  return value
+    .trim()
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Resolve a state or province from its code or name ("tx", "Texas", "N.Y." -> TX / NY)
+ * Returns null if it isn't a US state/territory or Canadian province
+ */
+export function normalizeState(value: string | null | undefined): Region | null {
+  if (!value) return null;
+  const cleaned = cleanRegionInput(value);
+  const code = REGION_ALIASES[cleaned] || cleaned;
+
+  return (
+    REGIONS.find((region) => region.code === code) ||
+    REGIONS.find((region) => cleanRegionInput(region.name) === code) ||
+    null
+  );
+}
+
+/**
+ * Format a US ZIP/ZIP+4 or Canadian postal code ("123456789" -> "12345-6789", "k1a0b1" -> "K1A 0B1")
+ * Returns null if it matches neither format
+ */
+export function normalizePostalCode(
+  value: string | null | undefined
+): { postalCode: string; country: AddressCountry } | null {
+  if (!value) return null;
+  const cleaned = value.trim().toUpperCase().replace(/\s+/g, ' ');
+
+  const us = cleaned.match(US_POSTAL_PATTERN);
+  if (us) {
+    return { postalCode: us[2] ? `${us[1]}-${us[2]}` : us[1], country: 'US' };
+  }
+
+  const ca = cleaned.match(CA_POSTAL_PATTERN);
+  if (ca) {
+    return { postalCode: `${ca[1]} ${ca[2]}`, country: 'CA' };
+  }
+
+  return null;
+}
+
+export interface AddressValidation {
+  valid: boolean;
+  state?: string;
+  postalCode?: string;
+  country?: AddressCountry;
+  errors: { state?: string; postalCode?: string };
+}
+
+export const STATE_ERROR = 'Enter a valid US state or Canadian province';
+export const POSTAL_CODE_ERROR = 'Enter a valid ZIP (12345 or 12345-6789) or Canadian postal code (A1A 1A1)';
+
+/**
+ * Normalize a state and postal code together, checking they belong to the same country
+ */
+export function normalizeAddress(state: string, postalCode: string): AddressValidation {
+  const region = normalizeState(state);
+  const postal = normalizePostalCode(postalCode);
+  const errors: AddressValidation['errors'] = {};
+
+  if (!region) {
+    errors.state = STATE_ERROR;
+  }
+  if (!postal) {
+    errors.postalCode = POSTAL_CODE_ERROR;
+  }
+  if (region && postal && region.country !== postal.country) {
+    errors.postalCode = region.country === 'US'
+      ? `${region.name} requires a US ZIP code`
+      : `${region.name} requires a Canadian postal code`;
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    state: region?.code,
+    postalCode: postal?.postalCode,
+    country: region?.country,
+    errors,
+  };
+}
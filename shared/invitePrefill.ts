@@ -0,0 +1,106 @@
+// Invite prefill: answers staff enter when creating an invite, shown in the wizard as
+// "provided by Claims iQ" and optionally locked. Used by the invite and submit routes and
+// by the onboarding wizard.
+
+import type { InvitePrefill, InvitePrefillField, OnboardingFormData } from './types';
+
+export const INVITE_PREFILL_LOCKABLE_FIELDS = [
+  'company.legal_name',
+  'company.dba_name',
+  'company.website',
+  'company.address_line_1',
+  'company.address_line_2',
+  'company.city',
+  'company.state',
+  'company.postal_code',
+  'company.company_size',
+  'company.lines_of_business',
+  'contact.first_name',
+  'contact.last_name',
+  'contact.email',
+  'contact.phone',
+  'contact.title',
+  'modules',
+] as const satisfies readonly InvitePrefillField[];
+
+/**
+ * Get the prefilled value for a lockable field, or undefined if it wasn't prefilled
+ */
+export function getPrefillValue(prefill: InvitePrefill | null | undefined, field: InvitePrefillField): unknown {
+  if (!prefill) return undefined;
+
+  if (field === 'modules') {
+    return prefill.modules && Object.values(prefill.modules).some((value) => value !== undefined)
+      ? prefill.modules
+      : undefined;
+  }
+
+  const [section, key] = field.split('.') as ['company' | 'contact', string];
+  const value = (prefill[section] as Record<string, unknown> | undefined)?.[key];
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Locked fields with nothing prefilled (a lock needs a value to lock the field to)
+ */
+export function findUnfilledLockedFields(
+  prefill: InvitePrefill | null | undefined,
+  lockedFields: InvitePrefillField[]
+): InvitePrefillField[] {
+  return lockedFields.filter((field) => getPrefillValue(prefill, field) === undefined);
+}
+
+/**
+ * Read the prefill and locked fields stored in an invite's metadata
+ */
+export function getInvitePrefill(metadata: Record<string, unknown> | null | undefined): {
+  prefill: InvitePrefill | null;
+  lockedFields: InvitePrefillField[];
+} {
+  const prefill = (metadata?.prefill as InvitePrefill | undefined) || null;
+  const lockedFields = Array.isArray(metadata?.lockedFields)
+    ? (metadata!.lockedFields as string[]).filter((field): field is InvitePrefillField =>
+        (INVITE_PREFILL_LOCKABLE_FIELDS as readonly string[]).includes(field))
+    : [];
+
+  return { prefill, lockedFields };
+}
+
+/**
+ * Overwrite locked fields in a submission with the invite's prefilled values,
+ * so a lock holds even if the request was edited outside the wizard
+ */
+export function applyLockedPrefill(
+  formData: OnboardingFormData,
+  prefill: InvitePrefill | null,
+  lockedFields: InvitePrefillField[]
+): OnboardingFormData {
+  const result: OnboardingFormData = {
+    ...formData,
+    company: { ...formData.company },
+    contact: { ...formData.contact },
+  };
+
+  for (const field of lockedFields) {
+    const value = getPrefillValue(prefill, field);
+    if (value === undefined) continue;
+
+    if (field === 'modules') {
+      const modules = value as Partial<OnboardingFormData['modules']>;
+      result.modules = {
+        core: modules.core ?? false,
+        comms: modules.comms ?? false,
+        fnol: modules.fnol ?? false,
+      };
+      continue;
+    }
+
+    const [section, key] = field.split('.') as ['company' | 'contact', string];
+    (result[section] as Record<string, unknown>)[key] = value;
+  }
+
+  return result;
+}
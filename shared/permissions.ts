@@ -0,0 +1,114 @@
+// Portal permissions within a customer company, and what each Claims IQ staff role can do
+// Each contact role maps to a default set of permissions; the primary contact can change the
+// set for every other role, and always holds every permission themselves.
+import type {
+  ContactRole,
+  ConfigurableContactRole,
+  PortalPermission,
+  StaffRole,
+  StaffCapability,
+} from './types';
+
+export const PORTAL_PERMISSIONS: { permission: PortalPermission; label: string; description: string }[] = [
+  { permission: 'sow.approve', label: 'Approve SOW', description: 'Approve and sign the Statement of Work' },
+  { permission: 'checklist.update', label: 'Update checklist', description: 'Mark onboarding checklist items complete' },
+  { permission: 'documents.upload', label: 'Upload documents', description: 'Add documents to the project' },
+  { permission: 'documents.delete', label: 'Delete documents', description: 'Remove documents from the project' },
+  { permission: 'integrations.manage', label: 'Manage integrations', description: 'Add, edit and remove integration details' },
+  { permission: 'webhooks.manage', label: 'Manage webhooks', description: 'Register and remove webhook endpoints' },
+  {
+    permission: 'api_credentials.regenerate',
+    label: 'Regenerate API keys',
+    description: 'Issue new API credentials, revoking the current ones',
+  },
+  { permission: 'team.invite', label: 'Invite team members', description: 'Invite colleagues to the portal' },
+  { permission: 'team.permissions', label: 'Manage permissions', description: 'Change what each role is allowed to do' },
+];
+
+export const ALL_PORTAL_PERMISSIONS: PortalPermission[] = PORTAL_PERMISSIONS.map(({ permission }) => permission);
+
+// Blocked while staff view the portal as a customer, unless the session explicitly allows them
+export const IMPERSONATION_BLOCKED_PERMISSIONS: PortalPermission[] = [
+  'sow.approve',
+  'api_credentials.regenerate',
+  'documents.delete',
+  'team.permissions',
+];
+
+// Managing permissions stays with the primary contact so they can't be locked out
+export const CONFIGURABLE_PORTAL_PERMISSIONS: PortalPermission[] = ALL_PORTAL_PERMISSIONS.filter(
+  (permission) => permission !== 'team.permissions'
+);
+
+export const CONFIGURABLE_CONTACT_ROLES: ConfigurableContactRole[] = ['technical', 'executive', 'billing', 'other'];
+
+export const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  primary: 'Primary',
+  technical: 'Technical',
+  executive: 'Executive',
+  billing: 'Billing',
+  other: 'Other',
+};
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<ConfigurableContactRole, PortalPermission[]> = {
+  technical: [
+    'checklist.update',
+    'documents.upload',
+    'documents.delete',
+    'integrations.manage',
+    'webhooks.manage',
+    'api_credentials.regenerate',
+  ],
+  executive: ['sow.approve', 'checklist.update', 'documents.upload', 'team.invite'],
+  billing: ['documents.upload'],
+  other: ['checklist.update', 'documents.upload'],
+};
+
+/**
+ * Permissions held by a contact role, using the company's saved set for the role if it has one
+ */
+export function resolveRolePermissions(
+  role: ContactRole | null | undefined,
+  companyPermissions?: PortalPermission[] | null
+): PortalPermission[] {
+  if (role === 'primary') return ALL_PORTAL_PERMISSIONS;
+  if (!role) return [];
+  const permissions = companyPermissions ?? DEFAULT_ROLE_PERMISSIONS[role];
+  return permissions.filter((permission) => CONFIGURABLE_PORTAL_PERMISSIONS.includes(permission));
+}
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  admin: 'Admin',
+  csm: 'Customer Success',
+  sales: 'Sales',
+  support: 'Support',
+};
+
+// CSMs can act on the projects assigned to them; without projects.view_all they see no others.
+// Only admins change a company's security settings (companies.security).
+export const STAFF_ROLE_CAPABILITIES: Record<StaffRole, StaffCapability[]> = {
+  admin: [
+    'projects.view_all',
+    'projects.edit',
+    'projects.change_status',
+    'invites.create',
+    'invites.manage',
+    'companies.merge',
+    'portal_users.manage',
+    'companies.security',
+    'impersonation.allow_destructive',
+  ],
+  csm: ['projects.edit', 'projects.change_status', 'invites.create', 'invites.manage', 'portal_users.manage'],
+  sales: ['projects.view_all', 'projects.edit', 'invites.create', 'invites.manage'],
+  support: ['projects.view_all'],
+};
+
+/**
+ * Capabilities of a staff role; unrecognised roles are treated as read-only support
+ */
+export function resolveStaffCapabilities(role: string | null | undefined): StaffCapability[] {
+  if (role && role in STAFF_ROLE_CAPABILITIES) {
+    return STAFF_ROLE_CAPABILITIES[role as StaffRole];
+  }
+  return STAFF_ROLE_CAPABILITIES.support;
+}
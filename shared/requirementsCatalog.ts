@@ -0,0 +1,495 @@
+import { z } from 'zod';
+import type { ModuleType } from './types';
+
+// Requirements question catalog
+// Drives the wizard's requirements step, its validation, the review step, the SOW and the
+// admin project view. Question ids are the column names in the module's config table.
+//
+// A new module question also needs a migration that adds its column to the config table and
+// redefines that module's onboarding_store_<module>_requirements function (first defined in
+// supabase/migrations/004_submit_onboarding_function.sql) to write it on submission.
+// Per-line-of-business questions are stored in core_module_configs.lob_requirements and don't.
+
+export type RequirementQuestionType = 'number' | 'text' | 'multiselect' | 'single_select' | 'boolean';
+
+export interface RequirementOption {
+  value: string;
+  label: string;
+}
+
+// Show a question only when another question in the same module has a given answer
+export interface RequirementCondition {
+  questionId: string;
+  includes?: string;
+  equals?: string | number | boolean;
+}
+
+export interface RequirementQuestion {
+  id: string;
+  module: ModuleType;
+  type: RequirementQuestionType;
+  label: string;
+  description?: string;
+  placeholder?: string;
+  options?: RequirementOption[];
+  // Per-line-of-business questions: options keyed by line category (falls back to options)
+  optionsByCategory?: Partial<Record<LineOfBusinessCategory, RequirementOption[]>>;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  // Used when the answer is omitted or the question is hidden
+  defaultValue?: string | number | boolean | string[];
+  // Pre-filled in the wizard only (falls back to defaultValue)
+  initialValue?: string | number | boolean | string[];
+  showWhen?: RequirementCondition;
+}
+
+export interface RequirementModule {
+  module: ModuleType;
+  title: string;
+  sowTitle: string;
+}
+
+export type RequirementAnswers = Record<string, unknown>;
+
+// Lines of business offered in the wizard, grouped by the kind of claims they produce
+export type LineOfBusinessCategory = 'auto' | 'property' | 'workers_comp' | 'liability';
+
+export const LINES_OF_BUSINESS: { value: string; category: LineOfBusinessCategory }[] = [
+  { value: 'Personal Auto', category: 'auto' },
+  { value: 'Commercial Auto', category: 'auto' },
+  { value: 'Homeowners', category: 'property' },
+  { value: 'Renters', category: 'property' },
+  { value: 'Commercial Property', category: 'property' },
+  { value: 'Workers Comp', category: 'workers_comp' },
+  { value: 'General Liability', category: 'liability' },
+  { value: 'Professional Liability', category: 'liability' },
+];
+
+export const REQUIREMENT_MODULES: RequirementModule[] = [
+  { module: 'core', title: 'Core Intelligence Configuration', sowTitle: 'Core Claims Platform' },
+  { module: 'comms', title: 'Communications Configuration', sowTitle: 'Communications Suite' },
+  { module: 'fnol', title: 'FNOL Configuration', sowTitle: 'FNOL Intake' },
+];
+
+export const REQUIREMENTS_CATALOG: RequirementQuestion[] = [
+  // Core
+  {
+    id: 'monthly_claim_volume',
+    module: 'core',
+    type: 'number',
+    label: 'Monthly Claim Volume Estimate',
+    placeholder: 'e.g. 500',
+    min: 1,
+    max: 10000000,
+  },
+  {
+    id: 'monthly_document_volume',
+    module: 'core',
+    type: 'number',
+    label: 'Monthly Document Volume Estimate',
+    description: 'Pages or files received across all claims each month',
+    placeholder: 'e.g. 5000',
+    min: 1,
+    max: 100000000,
+  },
+  {
+    id: 'document_types',
+    module: 'core',
+    type: 'multiselect',
+    label: 'Document Types Needed',
+    options: [
+      { value: 'Police Reports', label: 'Police Reports' },
+      { value: 'Medical Bills', label: 'Medical Bills' },
+      { value: 'Repair Estimates', label: 'Repair Estimates' },
+      { value: 'Photos', label: 'Photos' },
+    ],
+    defaultValue: [],
+  },
+
+  // Comms
+  {
+    id: 'monthly_message_volume',
+    module: 'comms',
+    type: 'number',
+    label: 'Monthly Message Volume Estimate',
+    description: 'Emails, texts and in-app messages sent each month',
+    placeholder: 'e.g. 20000',
+    min: 1,
+    max: 100000000,
+  },
+  {
+    id: 'desired_channels',
+    module: 'comms',
+    type: 'multiselect',
+    label: 'Required Channels',
+    options: [
+      { value: 'Email', label: 'Email' },
+      { value: 'SMS', label: 'SMS' },
+      { value: 'WhatsApp', label: 'WhatsApp' },
+      { value: 'In-App', label: 'In-App' },
+    ],
+    defaultValue: [],
+  },
+  {
+    id: 'white_label_level',
+    module: 'comms',
+    type: 'single_select',
+    label: 'White Labeling',
+    options: [
+      { value: 'none', label: 'None (Claims iQ Branding)' },
+      { value: 'basic', label: 'Basic (Logo & Colors)' },
+      { value: 'full', label: 'Full (Custom Domain & Email)' },
+    ],
+    defaultValue: 'none',
+  },
+  {
+    id: 'languages_required',
+    module: 'comms',
+    type: 'multiselect',
+    label: 'Languages',
+    options: [
+      { value: 'English', label: 'English' },
+      { value: 'Spanish', label: 'Spanish' },
+      { value: 'French', label: 'French' },
+      { value: 'Chinese', label: 'Chinese' },
+      { value: 'Vietnamese', label: 'Vietnamese' },
+    ],
+    required: true,
+    defaultValue: ['English'],
+  },
+
+  // FNOL
+  {
+    id: 'desired_intake_methods',
+    module: 'fnol',
+    type: 'multiselect',
+    label: 'Intake Methods',
+    description: 'How policyholders will report a loss',
+    options: [
+      { value: 'web', label: 'Web Form' },
+      { value: 'mobile_app', label: 'Mobile App' },
+      { value: 'phone', label: 'Phone / Call Center' },
+      { value: 'email', label: 'Email' },
+    ],
+    required: true,
+    initialValue: ['web'],
+  },
+  {
+    id: 'monthly_fnol_volume',
+    module: 'fnol',
+    type: 'number',
+    label: 'Monthly FNOL Volume Estimate',
+    description: 'New losses reported each month',
+    placeholder: 'e.g. 300',
+    min: 1,
+    max: 10000000,
+  },
+  {
+    id: 'photo_required',
+    module: 'fnol',
+    type: 'boolean',
+    label: 'Photo Intake',
+    description: 'Allow users to upload photos during FNOL',
+    defaultValue: false,
+    initialValue: true,
+  },
+  {
+    id: 'video_required',
+    module: 'fnol',
+    type: 'boolean',
+    label: 'Video Intake',
+    description: 'Allow users to record/upload video statements',
+    defaultValue: false,
+    showWhen: { questionId: 'desired_intake_methods', includes: 'mobile_app' },
+  },
+];
+
+// Questions asked once per line of business (stored in core_module_configs.lob_requirements)
+export const LINE_OF_BUSINESS_QUESTIONS: RequirementQuestion[] = [
+  {
+    id: 'monthly_claim_volume',
+    module: 'core',
+    type: 'number',
+    label: 'Monthly Claim Volume',
+    placeholder: 'e.g. 200',
+    min: 1,
+    max: 10000000,
+  },
+  {
+    id: 'claim_types',
+    module: 'core',
+    type: 'multiselect',
+    label: 'Claim Types',
+    optionsByCategory: {
+      auto: [
+        { value: 'Collision', label: 'Collision' },
+        { value: 'Comprehensive', label: 'Comprehensive' },
+        { value: 'Bodily Injury', label: 'Bodily Injury' },
+        { value: 'Uninsured Motorist', label: 'Uninsured Motorist' },
+      ],
+      property: [
+        { value: 'Dwelling', label: 'Dwelling' },
+        { value: 'Contents', label: 'Contents' },
+        { value: 'Additional Living Expense', label: 'Additional Living Expense' },
+        { value: 'Business Interruption', label: 'Business Interruption' },
+      ],
+      workers_comp: [
+        { value: 'Medical Only', label: 'Medical Only' },
+        { value: 'Lost Time', label: 'Lost Time' },
+        { value: 'Indemnity', label: 'Indemnity' },
+      ],
+      liability: [
+        { value: 'Bodily Injury', label: 'Bodily Injury' },
+        { value: 'Property Damage', label: 'Property Damage' },
+        { value: 'Errors & Omissions', label: 'Errors & Omissions' },
+      ],
+    },
+    defaultValue: [],
+  },
+  {
+    id: 'perils',
+    module: 'core',
+    type: 'multiselect',
+    label: 'Perils',
+    optionsByCategory: {
+      auto: [
+        { value: 'Collision', label: 'Collision' },
+        { value: 'Theft', label: 'Theft' },
+        { value: 'Glass', label: 'Glass' },
+        { value: 'Weather', label: 'Weather' },
+      ],
+      property: [
+        { value: 'Fire', label: 'Fire' },
+        { value: 'Wind/Hail', label: 'Wind/Hail' },
+        { value: 'Water', label: 'Water' },
+        { value: 'Theft', label: 'Theft' },
+      ],
+      workers_comp: [
+        { value: 'Injury', label: 'Injury' },
+        { value: 'Occupational Illness', label: 'Occupational Illness' },
+      ],
+      liability: [
+        { value: 'Premises', label: 'Premises' },
+        { value: 'Products', label: 'Products' },
+        { value: 'Professional Error', label: 'Professional Error' },
+      ],
+    },
+    defaultValue: [],
+  },
+];
+
+/**
+ * Get the per-line questions for a line of business, with that line's options resolved
+ */
+export function getLineOfBusinessQuestions(line: string): RequirementQuestion[] {
+  const category = LINES_OF_BUSINESS.find((lob) => lob.value === line)?.category;
+  return LINE_OF_BUSINESS_QUESTIONS.map((question) => ({
+    ...question,
+    options: (category && question.optionsByCategory?.[category]) || question.options || [],
+  }));
+}
+
+/**
+ * Get the catalog questions for a module, in display order
+ */
+export function getModuleQuestions(module: ModuleType): RequirementQuestion[] {
+  return REQUIREMENTS_CATALOG.filter((question) => question.module === module);
+}
+
+/**
+ * Check a question's visibility condition against the module's current answers
+ */
+export function isQuestionVisible(question: RequirementQuestion, answers: RequirementAnswers = {}): boolean {
+  const condition = question.showWhen;
+  if (!condition) return true;
+
+  const value = answers[condition.questionId];
+  if (condition.includes !== undefined) {
+    return Array.isArray(value) && value.includes(condition.includes);
+  }
+  if (condition.equals !== undefined) {
+    return value === condition.equals;
+  }
+  return true;
+}
+
+/**
+ * Get the questions for a module that are visible given its current answers
+ */
+export function getVisibleQuestions(module: ModuleType, answers: RequirementAnswers = {}): RequirementQuestion[] {
+  return getModuleQuestions(module).filter((question) => isQuestionVisible(question, answers));
+}
+
+/**
+ * Get a module's default answers (used to seed the wizard)
+ */
+export function getDefaultAnswers(module: ModuleType): RequirementAnswers {
+  const answers: RequirementAnswers = {};
+  for (const question of getModuleQuestions(module)) {
+    const value = question.initialValue ?? question.defaultValue;
+    if (value !== undefined) {
+      answers[question.id] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+  return answers;
+}
+
+/**
+ * Format an answer for display (review step, SOW, admin view)
+ * Returns null for unanswered questions
+ */
+export function formatRequirementAnswer(question: RequirementQuestion, value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  const optionLabel = (v: unknown) =>
+    question.options?.find((option) => option.value === v)?.label ?? String(v);
+
+  switch (question.type) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'multiselect':
+      return Array.isArray(value) && value.length > 0 ? value.map(optionLabel).join(', ') : null;
+    case 'single_select':
+      return optionLabel(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Format per-line-of-business answers for display, skipping unanswered questions and empty lines
+ */
+export function formatLineOfBusinessRequirements(
+  lines: Record<string, RequirementAnswers> | null | undefined
+): { line: string; answers: { label: string; answer: string }[] }[] {
+  return Object.entries(lines || {})
+    .map(([line, answers]) => ({
+      line,
+      answers: getLineOfBusinessQuestions(line)
+        .map((question) => ({ label: question.label, answer: formatRequirementAnswer(question, answers?.[question.id]) }))
+        .filter((row): row is { label: string; answer: string } => row.answer !== null),
+    }))
+    .filter(({ answers }) => answers.length > 0);
+}
+
+// --- Validation ---
+
+function questionSchema(question: RequirementQuestion): z.ZodTypeAny {
+  const values = (question.options || []).map((option) => option.value) as [string, ...string[]];
+  if (values.length === 0 && (question.type === 'multiselect' || question.type === 'single_select')) {
+    // No options for this line of business: accept any values
+    return question.type === 'multiselect' ? z.array(z.string()).default([]) : z.string().optional().nullable();
+  }
+
+  switch (question.type) {
+    case 'number': {
+      let schema = z.number().int();
+      if (question.min !== undefined) schema = schema.min(question.min, `${question.label} must be at least ${question.min}`);
+      if (question.max !== undefined) schema = schema.max(question.max, `${question.label} must be at most ${question.max}`);
+      return question.required ? schema : schema.optional().nullable();
+    }
+    case 'text': {
+      let schema = z.string().max(question.maxLength ?? 2000);
+      if (question.required) schema = schema.min(1, `${question.label} is required`);
+      return question.required ? schema : schema.optional().nullable();
+    }
+    case 'multiselect': {
+      let schema = z.array(z.enum(values));
+      if (question.required) schema = schema.min(1, `Select at least one option for ${question.label}`);
+      return schema.default((question.defaultValue as string[]) ?? []);
+    }
+    case 'single_select': {
+      const schema = z.enum(values);
+      return question.defaultValue !== undefined
+        ? schema.default(question.defaultValue as string)
+        : question.required ? schema : schema.optional().nullable();
+    }
+    case 'boolean':
+      return z.boolean().default((question.defaultValue as boolean) ?? false);
+  }
+}
+
+/**
+ * Zod shape for a module's questions, without visibility rules (used for drafts)
+ */
+export function buildRequirementsShape(module: ModuleType): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const question of getModuleQuestions(module)) {
+    shape[question.id] = questionSchema(question);
+  }
+  return shape;
+}
+
+/**
+ * Zod schema for a module's answers
+ * Questions hidden by their visibility condition skip validation and are reset to their default
+ * extraShape validates config fields that are not asked in the wizard
+ */
+export function buildRequirementsSchema(module: ModuleType, extraShape: z.ZodRawShape = {}) {
+  const questions = getModuleQuestions(module);
+  const extraSchema = z.object(extraShape);
+
+  return z.record(z.unknown()).transform((answers, ctx) => {
+    const extras = extraSchema.safeParse(answers);
+    if (!extras.success) {
+      extras.error.issues.forEach((issue) => ctx.addIssue(issue));
+    }
+
+    const output: RequirementAnswers = { ...(extras.success ? extras.data : {}) };
+
+    for (const question of questions) {
+      if (!isQuestionVisible(question, answers)) {
+        if (question.defaultValue !== undefined) {
+          output[question.id] = question.defaultValue;
+        }
+        continue;
+      }
+
+      const result = questionSchema(question).safeParse(answers[question.id]);
+
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: [question.id, ...issue.path] });
+        }
+        continue;
+      }
+
+      output[question.id] = result.data;
+    }
+
+    return output;
+  });
+}
+
+/**
+ * Zod schema for per-line-of-business answers ({ [line]: { [questionId]: answer } })
+ * Each line's answers are validated against that line's options
+ */
+export const lineOfBusinessRequirementsSchema = z
+  .record(z.string(), z.record(z.unknown()))
+  .transform((lines, ctx) => {
+    const output: Record<string, RequirementAnswers> = {};
+
+    for (const [line, answers] of Object.entries(lines)) {
+      output[line] = {};
+      for (const question of getLineOfBusinessQuestions(line)) {
+        const result = questionSchema(question).safeParse(answers[question.id]);
+
+        if (!result.success) {
+          for (const issue of result.error.issues) {
+            ctx.addIssue({ ...issue, path: [line, question.id, ...issue.path] });
+          }
+          continue;
+        }
+
+        output[line][question.id] = result.data;
+      }
+    }
+
+    return output;
+  })
+  .default({});
@@ -0,0 +1,179 @@
+// Volume-based sizing estimate for an onboarding submission
+// Shown on the wizard's review step, stored on the project at submission, and used by staff
+// as the starting point for the SOW. Figures are indicative, not a quote.
+import type {
+  ModuleType,
+  OnboardingFormData,
+  SizingEstimate,
+  SizingTier,
+  ImplementationEffort,
+} from './types';
+
+export type SizingInput = Pick<OnboardingFormData, 'modules' | 'requirements'> & {
+  company?: Pick<OnboardingFormData['company'], 'lines_of_business'>;
+};
+
+export const SIZING_TIER_LABELS: Record<SizingTier, string> = {
+  starter: 'Starter',
+  growth: 'Growth',
+  enterprise: 'Enterprise',
+};
+
+export const IMPLEMENTATION_EFFORT_LABELS: Record<ImplementationEffort, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const TIER_ORDER: SizingTier[] = ['starter', 'growth', 'enterprise'];
+
+// Monthly volumes at which each tier starts
+const VOLUME_THRESHOLDS: { label: string; growth: number; enterprise: number }[] = [
+  { label: 'claim', growth: 500, enterprise: 5000 },
+  { label: 'document', growth: 5000, enterprise: 50000 },
+  { label: 'message', growth: 10000, enterprise: 100000 },
+  { label: 'FNOL', growth: 300, enterprise: 3000 },
+];
+
+// Baseline implementation weeks per module; additional modules overlap with the first
+const MODULE_WEEKS: Record<ModuleType, number> = {
+  core: 6,
+  comms: 4,
+  fnol: 4,
+};
+const ADDITIONAL_MODULE_WEEKS = 2;
+
+const TIER_WEEKS: Record<SizingTier, number> = {
+  starter: 0,
+  growth: 1,
+  enterprise: 3,
+};
+
+const WHITE_LABEL_WEEKS = { none: 0, basic: 1, full: 3 };
+const WEEKS_PER_EXTRA_LANGUAGE = 1;
+const MAX_LANGUAGE_WEEKS = 4;
+const MOBILE_APP_WEEKS = 2;
+// Lines of business beyond this many each add a week of configuration
+const INCLUDED_LINES_OF_BUSINESS = 2;
+
+// Effort thresholds (total weeks)
+const MEDIUM_EFFORT_WEEKS = 9;
+const HIGH_EFFORT_WEEKS = 15;
+
+// The go-live window runs from the estimate to this much longer again
+const GO_LIVE_SLACK = 0.25;
+
+function tierForVolume(volume: number, threshold: { growth: number; enterprise: number }): SizingTier {
+  if (volume >= threshold.enterprise) return 'enterprise';
+  if (volume >= threshold.growth) return 'growth';
+  return 'starter';
+}
+
+function addWeeks(date: Date, weeks: number): string {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + Math.round(weeks * 7));
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Total monthly claim volume: the sum across lines of business when given, otherwise the overall estimate
+ */
+export function totalClaimVolume(core: NonNullable<OnboardingFormData['requirements']>['core']): number {
+  const byLine = Object.values(core?.lob_requirements || {})
+    .reduce((sum, line) => sum + (line.monthly_claim_volume || 0), 0);
+  return byLine || core?.monthly_claim_volume || 0;
+}
+
+/**
+ * Estimate the tier, implementation effort and go-live window for the selected modules
+ */
+export function estimateSizing(input: SizingInput, startDate: Date = new Date()): SizingEstimate {
+  const modules = (Object.keys(MODULE_WEEKS) as ModuleType[]).filter((module) => input.modules?.[module]);
+  const core = modules.includes('core') ? input.requirements?.core : undefined;
+  const comms = modules.includes('comms') ? input.requirements?.comms : undefined;
+  const fnol = modules.includes('fnol') ? input.requirements?.fnol : undefined;
+  const drivers: string[] = [];
+
+  // Tier: the highest tier any volume reaches
+  const volumes = [
+    totalClaimVolume(core),
+    core?.monthly_document_volume || 0,
+    comms?.monthly_message_volume || 0,
+    fnol?.monthly_fnol_volume || 0,
+  ];
+  let tier: SizingTier = 'starter';
+  volumes.forEach((volume, index) => {
+    const threshold = VOLUME_THRESHOLDS[index];
+    const volumeTier = tierForVolume(volume, threshold);
+    if (volumeTier !== 'starter') {
+      drivers.push(`${volume.toLocaleString('en-US')} ${threshold.label}s per month (${SIZING_TIER_LABELS[volumeTier]})`);
+    }
+    if (TIER_ORDER.indexOf(volumeTier) > TIER_ORDER.indexOf(tier)) {
+      tier = volumeTier;
+    }
+  });
+
+  // Effort: the largest module, plus overlap for the rest, plus configuration work
+  const moduleWeeks = modules.map((module) => MODULE_WEEKS[module]).sort((a, b) => b - a);
+  let weeks = moduleWeeks.length
+    ? moduleWeeks[0] + (moduleWeeks.length - 1) * ADDITIONAL_MODULE_WEEKS
+    : 0;
+  if (modules.length > 1) {
+    drivers.push(`${modules.length} modules`);
+  }
+
+  weeks += TIER_WEEKS[tier];
+
+  const whiteLabelLevel = comms?.white_label_level || 'none';
+  if (WHITE_LABEL_WEEKS[whiteLabelLevel]) {
+    weeks += WHITE_LABEL_WEEKS[whiteLabelLevel];
+    drivers.push(whiteLabelLevel === 'full' ? 'Full white labeling' : 'Basic white labeling');
+  }
+
+  const extraLanguages = Math.max(0, (comms?.languages_required?.length || 0) - 1);
+  if (extraLanguages > 0) {
+    weeks += Math.min(extraLanguages * WEEKS_PER_EXTRA_LANGUAGE, MAX_LANGUAGE_WEEKS);
+    drivers.push(`${extraLanguages + 1} languages`);
+  }
+
+  if (fnol?.desired_intake_methods?.includes('mobile_app')) {
+    weeks += MOBILE_APP_WEEKS;
+    drivers.push('Mobile app intake');
+  }
+
+  const linesOfBusiness = input.company?.lines_of_business?.length || 0;
+  if (core && linesOfBusiness > INCLUDED_LINES_OF_BUSINESS) {
+    weeks += linesOfBusiness - INCLUDED_LINES_OF_BUSINESS;
+    drivers.push(`${linesOfBusiness} lines of business`);
+  }
+
+  const effort: ImplementationEffort = weeks >= HIGH_EFFORT_WEEKS
+    ? 'high'
+    : weeks >= MEDIUM_EFFORT_WEEKS ? 'medium' : 'low';
+
+  return {
+    tier,
+    effort,
+    effort_weeks: weeks,
+    go_live_window: {
+      earliest: addWeeks(startDate, weeks),
+      latest: addWeeks(startDate, Math.ceil(weeks * (1 + GO_LIVE_SLACK))),
+    },
+    drivers,
+    estimated_at: startDate.toISOString(),
+  };
+}
+
+/**
+ * Format an estimated go-live window for display ("Mar 2 – Mar 30, 2026")
+ */
+export function formatGoLiveWindow(window: SizingEstimate['go_live_window']): string {
+  const format = (date: string, withYear: boolean) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear ? { year: 'numeric' } : {}),
+    });
+  const sameYear = window.earliest.slice(0, 4) === window.latest.slice(0, 4);
+  return `${format(window.earliest, !sameYear)} – ${format(window.latest, true)}`;
+}
@@ -14,6 +14,9 @@ export type ModuleType = 'core' | 'comms' | 'fnol';
 export type WhiteLabelLevel = 'none' | 'basic' | 'full';
 export type ChecklistStatus = 'pending' | 'in_progress' | 'complete' | 'blocked';
 export type DocumentStatus = 'pending' | 'approved' | 'rejected';
+export type AttachmentCategory = 'sample_claim' | 'policy_form' | 'process_diagram' | 'other';
+export type SizingTier = 'starter' | 'growth' | 'enterprise';
+export type ImplementationEffort = 'low' | 'medium' | 'high';
 
 // Core Tables
 
@@ -27,8 +30,12 @@ export interface Company {
   city: string;
   state: string;
   postal_code: string;
+  // postal_code with only its letters and digits, uppercased; generated by the database
+  postal_code_compact: string;
   company_size: CompanySize | null;
   lines_of_business: string[];
+  // Portal users must sign in with two-factor authentication
+  mfa_required: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -57,10 +64,24 @@ export interface OnboardingProject {
   assigned_csm_id: string | null;
   sow_signed_at: string | null;
   notes: string | null;
+  sizing_estimate: SizingEstimate | null;
   created_at: string;
   updated_at: string;
 }
 
+// Estimated tier, effort and go-live window from the wizard's volumes (see shared/sizing.ts)
+export interface SizingEstimate {
+  tier: SizingTier;
+  effort: ImplementationEffort;
+  effort_weeks: number;
+  go_live_window: {
+    earliest: string;
+    latest: string;
+  };
+  drivers: string[];
+  estimated_at: string;
+}
+
 export interface ModuleSelection {
   id: string;
   project_id: string;
@@ -79,10 +100,18 @@ export interface CoreModuleConfig {
   monthly_claim_volume: number | null;
   monthly_document_volume: number | null;
   pain_points: string | null;
+  lob_requirements: Record<string, LineOfBusinessRequirements>;
   created_at: string;
   updated_at: string;
 }
 
+// Core requirements captured for one line of business (keyed by line in lob_requirements)
+export interface LineOfBusinessRequirements {
+  claim_types: string[];
+  perils: string[];
+  monthly_claim_volume?: number | null;
+}
+
 export interface CommsModuleConfig {
   id: string;
   module_selection_id: string;
@@ -169,35 +198,75 @@ export interface Document {
 
 export interface ActivityLog {
   id: string;
-  project_id: string;
+  project_id: string | null;
   user_id: string | null;
   action: string;
   details: Record<string, unknown> | null;
   created_at: string;
 }
 
+// Claims IQ staff roles; CSMs only see projects assigned to them
+export type StaffRole = 'admin' | 'csm' | 'sales' | 'support';
+
+export type StaffCapability =
+  | 'projects.view_all'
+  | 'projects.edit'
+  | 'projects.change_status'
+  | 'invites.create'
+  | 'invites.manage'
+  | 'companies.merge'
+  | 'portal_users.manage'
+  // Tenant-wide security settings: the two-factor requirement and identity providers
+  | 'companies.security'
+  | 'impersonation.allow_destructive';
+
 export interface User {
   id: string;
   auth_user_id: string;
   email: string;
   first_name: string;
   last_name: string;
-  role: string;
+  role: StaffRole;
   is_active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type PortalAuthMethod = 'magic_link' | 'password' | 'both' | 'sso';
+
 export interface PortalUser {
   id: string;
   auth_user_id: string;
   company_id: string;
   contact_id: string | null;
   is_active: boolean;
+  auth_method: PortalAuthMethod;
+  password_set_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Actions a portal user can be allowed to take for their company
+export type PortalPermission =
+  | 'sow.approve'
+  | 'checklist.update'
+  | 'documents.upload'
+  | 'documents.delete'
+  | 'integrations.manage'
+  | 'webhooks.manage'
+  | 'api_credentials.regenerate'
+  | 'team.invite'
+  | 'team.permissions';
+
+// The primary contact always holds every permission; the other roles are configurable
+export type ConfigurableContactRole = Exclude<ContactRole, 'primary'>;
+
+export interface CompanyRolePermissions {
+  role: ConfigurableContactRole;
+  permissions: PortalPermission[];
+  customized: boolean;
+}
+
 // Composite Types for API responses
 
 export interface ModuleSelectionWithConfig extends ModuleSelection {
@@ -282,12 +351,13 @@ export interface OnboardingFormData {
   };
   requirements?: {
     core?: {
-      claim_types: string[];
-      perils: string[];
+      claim_types?: string[];
+      perils?: string[];
       document_types: string[];
       monthly_claim_volume?: number;
       monthly_document_volume?: number;
       pain_points?: string;
+      lob_requirements?: Record<string, LineOfBusinessRequirements>;
     };
     comms?: {
       desired_channels: string[];
@@ -305,6 +375,61 @@ export interface OnboardingFormData {
   };
 }
 
+// Partial form data saved while the onboarding wizard is in progress
+export type OnboardingDraftData = {
+  company?: Partial<OnboardingFormData['company']>;
+  contact?: Partial<OnboardingFormData['contact']>;
+  modules?: Partial<OnboardingFormData['modules']>;
+  requirements?: {
+    core?: Partial<NonNullable<OnboardingFormData['requirements']>['core']>;
+    comms?: Partial<NonNullable<OnboardingFormData['requirements']>['comms']>;
+    fnol?: Partial<NonNullable<OnboardingFormData['requirements']>['fnol']>;
+  };
+};
+
+// Wizard answers staff already know, stored on the invite (metadata.prefill) to seed the wizard
+export type InvitePrefill = OnboardingDraftData;
+
+// Prefilled fields staff can lock so the prospect can see but not change them
+export type InvitePrefillField =
+  | 'company.legal_name'
+  | 'company.dba_name'
+  | 'company.website'
+  | 'company.address_line_1'
+  | 'company.address_line_2'
+  | 'company.city'
+  | 'company.state'
+  | 'company.postal_code'
+  | 'company.company_size'
+  | 'company.lines_of_business'
+  | 'contact.first_name'
+  | 'contact.last_name'
+  | 'contact.email'
+  | 'contact.phone'
+  | 'contact.title'
+  | 'modules';
+
+export interface OnboardingDraft {
+  id: string;
+  invite_id: string;
+  current_step: number;
+  form_data: OnboardingDraftData;
+  created_at: string;
+  updated_at: string;
+}
+
+// File attached in the onboarding wizard, staged against the invite until submission
+export interface OnboardingAttachment {
+  id: string;
+  invite_id: string;
+  name: string;
+  file_path: string;
+  file_type: string;
+  file_size: number;
+  category: AttachmentCategory;
+  created_at: string;
+}
+
 // API Response types
 export interface ApiResponse<T> {
   success: boolean;
@@ -315,9 +440,102 @@ export interface ApiResponse<T> {
 export interface OnboardingSubmitResponse {
   success: boolean;
   projectId?: string;
+  message?: string;
   error?: string;
 }
 
+// One row of a bulk invite upload: its validation result (preview) or delivery status (send).
+// Sent uploads create their invites straight away; the emails go out in the background,
+// moving each row from queued through sending to sent or failed.
+export interface BulkInviteRowResult {
+  rowNumber: number;
+  email: string;
+  companyName?: string;
+  expirationDays?: number;
+  csmEmail?: string;
+  csmId?: string;
+  csmName?: string;
+  status: 'ready' | 'invalid' | 'duplicate' | 'queued' | 'sending' | 'sent' | 'failed';
+  errors: string[];
+  inviteId?: string;
+}
+
+// Invite funnel analytics
+// Steps recorded in invite_events; "sent" and "submitted" come from the invite itself
+export type InviteEventType = 'email_opened' | 'link_validated' | 'wizard_started' | 'draft_saved';
+export type InviteFunnelStepKey = 'sent' | InviteEventType | 'submitted';
+
+export interface InviteFunnelStep {
+  key: InviteFunnelStepKey;
+  label: string;
+  // Invites that reached this step or any later one
+  reached: number;
+  // Percentage of the previous step's invites that reached this one (null for the first step)
+  conversion_rate: number | null;
+  // Invites whose furthest step is this one
+  stopped: number;
+}
+
+export interface InviteFunnel {
+  since: string;
+  total_invites: number;
+  steps: InviteFunnelStep[];
+  time_to_submit: {
+    count: number;
+    median_hours: number | null;
+    p90_hours: number | null;
+    buckets: { label: string; count: number }[];
+  };
+}
+
+// A company contact and their portal account, if staff have provisioned one
+export interface PortalAccessEntry {
+  contact: Pick<Contact, 'id' | 'first_name' | 'last_name' | 'email' | 'title'>;
+  portal_user: Pick<PortalUser, 'id' | 'is_active' | 'auth_method' | 'password_set_at' | 'created_at'> | null;
+}
+
+// Request to move a device-bound invite to another browser, for staff review
+export type InviteTransferStatus = 'pending' | 'approved' | 'denied';
+
+export interface InviteTransferRequest {
+  id: string;
+  invite_id: string;
+  email: string;
+  company_name: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  status: InviteTransferStatus;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+// Background job state and recent runs, for the admin jobs view
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface JobRun {
+  id: string;
+  job_name: string;
+  instance_id: string;
+  status: JobRunStatus;
+  result: Record<string, unknown>;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface ScheduledJobStatus {
+  name: string;
+  description: string | null;
+  interval_seconds: number;
+  enabled: boolean;
+  next_run_at: string;
+  locked_until: string | null;
+  last_run_at: string | null;
+  last_success_at: string | null;
+  last_error: string | null;
+  recent_runs: JobRun[];
+}
+
 export interface AuthUser {
   id: string;
   email: string;
@@ -325,4 +543,96 @@ export interface AuthUser {
   companyId: string | null;
   firstName?: string;
   lastName?: string;
+  contactRole: ContactRole | null;
+  permissions: PortalPermission[];
+  staffRole: StaffRole | null;
+  staffCapabilities: StaffCapability[];
+  impersonation: ImpersonationInfo | null;
+}
+
+// Two-factor authentication state for the signed-in user
+export interface MfaStatus {
+  enabled: boolean;
+  // Staff and users of companies with the MFA policy can't turn it off
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Returned when setting up an authenticator app
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+// An active sign-in from the session registry
+export interface UserSession {
+  session_id: string;
+  // e.g. "Chrome on macOS"
+  device: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  // The session making the request
+  is_current: boolean;
+}
+
+export type PasswordStrengthLabel = 'Weak' | 'Fair' | 'Good' | 'Strong';
+
+// Result of checking a new password, shown while the user types it
+export interface PasswordStrength {
+  valid: boolean;
+  // 0-5; passwords below 2 are refused
+  score: number;
+  label: PasswordStrengthLabel;
+  // Reasons the password can't be used
+  errors: string[];
+  // Found in the bundled list of breached passwords
+  breached: boolean;
+  feedback: {
+    // The biggest problem with the password, if any
+    warning: string | null;
+    suggestions: string[];
+  };
+}
+
+export type SsoProtocol = 'oidc' | 'saml';
+
+// A company's identity provider; the OIDC client secret and raw SAML metadata are never sent out
+export interface SsoConnection {
+  id: string;
+  company_id: string;
+  protocol: SsoProtocol;
+  name: string;
+  email_domains: string[];
+  is_active: boolean;
+  oidc_issuer: string | null;
+  oidc_client_id: string | null;
+  saml_entity_id: string | null;
+  saml_sso_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the customer enters in their identity provider to trust the portal
+export interface SsoServiceProviderDetails {
+  oidcRedirectUri: string;
+  samlAcsUrl: string;
+  samlEntityId: string;
+  samlMetadataUrl: string;
+}
+
+export interface SsoConnectionDetails extends SsoConnection {
+  service_provider: SsoServiceProviderDetails;
+}
+
+// Present on /api/auth/me while a staff user is viewing the portal as a customer
+export interface ImpersonationInfo {
+  sessionId: string;
+  staffName: string;
+  companyName: string | null;
+  allowDestructive: boolean;
+  readOnly: boolean;
+  expiresAt: string;
 }
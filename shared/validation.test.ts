@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { companyAddressSchema, companySchema } from './validation';
+import { POSTAL_CODE_ERROR, STATE_ERROR } from './address';
+
+const company = {
+  legal_name: 'Acme Insurance',
+  address_line_1: '1 Main St',
+  city: 'Austin',
+  state: 'Texas',
+  postal_code: '787011234',
+};
+
+function issues(result: { success: boolean; error?: { issues: { path: (string | number)[]; message: string }[] } }) {
+  return (result.error?.issues || []).map(({ path, message }) => ({ path, message }));
+}
+
+describe('companySchema', () => {
+  it('stores the state code and the formatted postal code', () => {
+    const result = companySchema.parse(company);
+
+    expect(result.state).toBe('TX');
+    expect(result.postal_code).toBe('78701-1234');
+    expect(result.lines_of_business).toEqual([]);
+  });
+
+  it('rejects an unknown state and postal code', () => {
+    const result = companySchema.safeParse({ ...company, state: 'Atlantis', postal_code: '123' });
+
+    expect(issues(result)).toEqual([
+      { path: ['state'], message: STATE_ERROR },
+      { path: ['postal_code'], message: POSTAL_CODE_ERROR },
+    ]);
+  });
+
+  it('still requires the state and postal code', () => {
+    const result = companySchema.safeParse({ ...company, state: '', postal_code: '' });
+
+    expect(issues(result)).toEqual([
+      { path: ['state'], message: 'State is required' },
+      { path: ['postal_code'], message: 'Postal code is required' },
+    ]);
+  });
+});
+
+describe('companyAddressSchema', () => {
+  it('accepts a Canadian address', () => {
+    const result = companyAddressSchema.parse({ ...company, state: 'ontario', postal_code: 'k1a0b1' });
+
+    expect(result.state).toBe('ON');
+    expect(result.postal_code).toBe('K1A 0B1');
+  });
+
+  it('rejects a postal code from a different country than the state', () => {
+    const result = companyAddressSchema.safeParse({ ...company, postal_code: 'K1A 0B1' });
+
+    expect(issues(result)).toEqual([{ path: ['postal_code'], message: 'Texas requires a US ZIP code' }]);
+  });
+});
@@ -1,4 +1,18 @@
 import { z } from 'zod';
+import {
+  buildRequirementsSchema,
+  buildRequirementsShape,
+  lineOfBusinessRequirementsSchema,
+} from './requirementsCatalog';
+import {
+  normalizeAddress,
+  normalizeState,
+  normalizePostalCode,
+  STATE_ERROR,
+  POSTAL_CODE_ERROR,
+} from './address';
+import { INVITE_PREFILL_LOCKABLE_FIELDS, findUnfilledLockedFields } from './invitePrefill';
+import type { InvitePrefill } from './types';
 
 // Company size enum
 export const companySizeSchema = z.enum(['micro', 'small', 'medium', 'large', 'enterprise']);
@@ -6,6 +20,24 @@ export const companySizeSchema = z.enum(['micro', 'small', 'medium', 'large', 'e
 // Contact role enum
 export const contactRoleSchema = z.enum(['primary', 'technical', 'executive', 'billing', 'other']);
 
+// Contact roles whose portal permissions the primary contact can change
+export const configurableContactRoleSchema = z.enum(['technical', 'executive', 'billing', 'other']);
+
+// Portal permission enum
+export const portalPermissionSchema = z.enum([
+  'sow.approve',
+  'checklist.update',
+  'documents.upload',
+  'documents.delete',
+  'integrations.manage',
+  'webhooks.manage',
+  'api_credentials.regenerate',
+  'team.invite',
+]);
+
+// Onboarding attachment category enum
+export const attachmentCategorySchema = z.enum(['sample_claim', 'policy_form', 'process_diagram', 'other']);
+
 // Project status enum
 export const projectStatusSchema = z.enum([
   'discovery_in_progress',
@@ -33,12 +65,36 @@ export const companySchema = z.object({
   address_line_1: z.string().min(1, 'Address is required').max(255),
   address_line_2: z.string().max(255).optional().nullable(),
   city: z.string().min(1, 'City is required').max(100),
-  state: z.string().min(1, 'State is required').max(100),
-  postal_code: z.string().min(1, 'Postal code is required').max(20),
+  // Stored as the two-letter state/province code
+  state: z.string().min(1, 'State is required').max(100).transform((value, ctx) => {
+    const region = normalizeState(value);
+    if (!region) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: STATE_ERROR });
+      return z.NEVER;
+    }
+    return region.code;
+  }),
+  // Stored as 12345, 12345-6789 or A1A 1A1
+  postal_code: z.string().min(1, 'Postal code is required').max(20).transform((value, ctx) => {
+    const postal = normalizePostalCode(value);
+    if (!postal) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: POSTAL_CODE_ERROR });
+      return z.NEVER;
+    }
+    return postal.postalCode;
+  }),
   company_size: companySizeSchema.optional().nullable(),
   lines_of_business: z.array(z.string()).default([]),
 });
 
+// Company with a state and postal code from the same country
+export const companyAddressSchema = companySchema.superRefine((company, ctx) => {
+  const address = normalizeAddress(company.state, company.postal_code);
+  if (address.errors.postalCode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: address.errors.postalCode, path: ['postal_code'] });
+  }
+});
+
 // Contact validation schema
 export const contactSchema = z.object({
   first_name: z.string().min(1, 'First name is required').max(100),
@@ -49,39 +105,29 @@ export const contactSchema = z.object({
 });
 
 // Module selection schema
-export const modulesSchema = z.object({
+const moduleFlagsSchema = z.object({
   core: z.boolean().default(false),
   comms: z.boolean().default(false),
   fnol: z.boolean().default(false),
-}).refine((data) => data.core || data.comms || data.fnol, {
+});
+
+export const modulesSchema = moduleFlagsSchema.refine((data) => data.core || data.comms || data.fnol, {
   message: 'At least one module must be selected',
 });
 
-// Core module requirements schema
-export const coreRequirementsSchema = z.object({
+// Module requirements schemas
+// Wizard questions come from the requirements catalog; the extra fields are not asked in the wizard
+export const coreRequirementsSchema = buildRequirementsSchema('core', {
   claim_types: z.array(z.string()).default([]),
   perils: z.array(z.string()).default([]),
-  document_types: z.array(z.string()).default([]),
-  monthly_claim_volume: z.number().int().positive().optional().nullable(),
-  monthly_document_volume: z.number().int().positive().optional().nullable(),
   pain_points: z.string().max(2000).optional().nullable(),
+  lob_requirements: lineOfBusinessRequirementsSchema,
 });
 
-// Comms module requirements schema
-export const commsRequirementsSchema = z.object({
-  desired_channels: z.array(z.string()).default([]),
-  monthly_message_volume: z.number().int().positive().optional().nullable(),
-  white_label_level: whiteLabelLevelSchema.default('none'),
-  languages_required: z.array(z.string()).default(['English']),
-});
+export const commsRequirementsSchema = buildRequirementsSchema('comms');
 
-// FNOL module requirements schema
-export const fnolRequirementsSchema = z.object({
-  desired_intake_methods: z.array(z.string()).default([]),
-  monthly_fnol_volume: z.number().int().positive().optional().nullable(),
+export const fnolRequirementsSchema = buildRequirementsSchema('fnol', {
   lines_of_business: z.array(z.string()).default([]),
-  photo_required: z.boolean().default(false),
-  video_required: z.boolean().default(false),
 });
 
 // Combined requirements schema
@@ -92,18 +138,116 @@ export const requirementsSchema = z.object({
 }).optional();
 
 // Complete onboarding form schema
-export const onboardingFormSchema = z.object({
-  company: companySchema,
+// onboardingFormFieldsSchema is the unrefined object, for schemas that extend the form
+export const onboardingFormFieldsSchema = z.object({
+  company: companyAddressSchema,
   contact: contactSchema,
   modules: modulesSchema,
   requirements: requirementsSchema,
 });
 
+/**
+ * Reject per-line answers for lines of business the company didn't select
+ */
+export function refineLineOfBusinessRequirements(
+  data: z.infer<typeof onboardingFormFieldsSchema>,
+  ctx: z.RefinementCtx
+): void {
+  const selectedLines = new Set(data.company.lines_of_business);
+  for (const line of Object.keys(data.requirements?.core?.lob_requirements || {})) {
+    if (!selectedLines.has(line)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['requirements', 'core', 'lob_requirements', line],
+        message: `${line} is not one of the company's lines of business`,
+      });
+    }
+  }
+}
+
+export const onboardingFormSchema = onboardingFormFieldsSchema.superRefine(refineLineOfBusinessRequirements);
+
+// Onboarding draft schema (partial form data saved between wizard steps)
+export const onboardingDraftSchema = z.object({
+  company: companySchema.partial().optional(),
+  contact: contactSchema.partial().optional(),
+  modules: moduleFlagsSchema.partial().optional(),
+  requirements: z.object({
+    core: z.object(buildRequirementsShape('core')).partial().passthrough().optional(),
+    comms: z.object(buildRequirementsShape('comms')).partial().passthrough().optional(),
+    fnol: z.object(buildRequirementsShape('fnol')).partial().passthrough().optional(),
+  }).optional(),
+});
+
+export const saveOnboardingDraftSchema = z.object({
+  currentStep: z.number().int().min(1).max(5),
+  formData: onboardingDraftSchema,
+});
+
+// Funnel events reported by the wizard itself (the rest are recorded server-side)
+export const trackOnboardingEventSchema = z.object({
+  event: z.enum(['wizard_started']),
+});
+
+// Onboarding attachment upload fields (sent alongside the file)
+export const uploadOnboardingAttachmentSchema = z.object({
+  category: attachmentCategorySchema.default('other'),
+});
+
+// Invite prefill: partial wizard answers plus the prefilled fields the prospect can't change
+export const invitePrefillSchema = z.object({
+  prefill: onboardingDraftSchema.optional(),
+  lockedFields: z.array(z.enum(INVITE_PREFILL_LOCKABLE_FIELDS)).default([]),
+}).superRefine((data, ctx) => {
+  const unfilled = findUnfilledLockedFields(data.prefill as InvitePrefill | undefined, data.lockedFields);
+  if (unfilled.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['lockedFields'],
+      message: `Locked fields must be prefilled: ${unfilled.join(', ')}`,
+    });
+  }
+});
+
+// Bulk invite uploads
+export const MAX_BULK_INVITE_ROWS = 200;
+
+// One spreadsheet row as uploaded; each row is validated separately so errors can be reported per row
+export const bulkInviteUploadRowSchema = z.object({
+  rowNumber: z.number().int().min(1),
+  email: z.string(),
+  companyName: z.string().optional(),
+  expirationDays: z.union([z.number(), z.string()]).optional(),
+  csmEmail: z.string().optional(),
+});
+
+export const bulkInviteRowSchema = z.object({
+  rowNumber: z.number().int().min(1),
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  companyName: z.string().trim().max(255, 'Company name is too long').optional(),
+  expirationDays: z.coerce.number({ invalid_type_error: 'Expiration days must be a number' })
+    .int('Expiration days must be a whole number')
+    .min(1, 'Expiration days must be between 1 and 30')
+    .max(30, 'Expiration days must be between 1 and 30')
+    .optional(),
+  csmEmail: z.string().trim().toLowerCase().email('Invalid CSM email').optional(),
+});
+
+// Rows confirmed from the preview (re-validated on the server before sending)
+export const sendBulkInvitesSchema = z.object({
+  rows: z.array(bulkInviteUploadRowSchema)
+    .min(1, 'No rows to invite')
+    .max(MAX_BULK_INVITE_ROWS, `At most ${MAX_BULK_INVITE_ROWS} invites can be sent at once`),
+});
+
 // Login schema
 export const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
 });
 
+// Session registry IDs in route params
+export const sessionIdSchema = z.string().uuid('Invalid session');
+
 // Verify OTP schema
 export const verifyOtpSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -123,6 +267,89 @@ export const updateProjectSchema = z.object({
   notes: z.string().max(5000).optional().nullable(),
 });
 
+// Company merge schema (admin deduplication)
+export const mergeCompaniesSchema = z.object({
+  sourceCompanyId: z.string().uuid('Invalid source company'),
+  targetCompanyId: z.string().uuid('Invalid target company'),
+}).refine((data) => data.sourceCompanyId !== data.targetCompanyId, {
+  message: 'Cannot merge a company into itself',
+  path: ['targetCompanyId'],
+});
+
+// Portal user provisioning schema (admin)
+export const provisionPortalUserSchema = z.object({
+  contactId: z.string().uuid('Invalid contact'),
+  authMethod: z.enum(['magic_link', 'password']).default('magic_link'),
+});
+
+// Staff impersonation schema (admin)
+export const startImpersonationSchema = z.object({
+  portalUserId: z.string().uuid('Invalid portal user'),
+  reason: z.string().trim().max(500).optional(),
+  allowDestructive: z.boolean().default(false),
+});
+
+// Two-factor authentication schemas
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+// Sign-in accepts either an authenticator code or a recovery code
+export const mfaChallengeSchema = z.object({
+  code: z.string().trim().min(6, 'Enter your authentication code').max(32, 'Invalid code'),
+});
+
+// Company two-factor policy schema (admin)
+export const updateMfaPolicySchema = z.object({
+  mfaRequired: z.boolean(),
+});
+
+// SSO connection schemas (admin)
+const ssoEmailDomainsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .transform((domain) => domain.replace(/^@/, ''))
+      .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid email domain'))
+  )
+  .min(1, 'Add at least one email domain')
+  .max(20, 'Too many email domains');
+
+// Uploaded IdP metadata documents are a few kilobytes; the cap stops runaway uploads
+const samlMetadataXmlSchema = z.string().min(1, 'SAML metadata is required').max(500000, 'SAML metadata is too large');
+
+export const createSsoConnectionSchema = z.discriminatedUnion('protocol', [
+  z.object({
+    protocol: z.literal('oidc'),
+    name: z.string().trim().min(1, 'Name is required').max(255),
+    emailDomains: ssoEmailDomainsSchema,
+    oidcIssuer: z.string().trim().url('Invalid issuer URL'),
+    oidcClientId: z.string().trim().min(1, 'Client ID is required'),
+    oidcClientSecret: z.string().trim().min(1, 'Client secret is required'),
+  }),
+  z.object({
+    protocol: z.literal('saml'),
+    name: z.string().trim().min(1, 'Name is required').max(255),
+    emailDomains: ssoEmailDomainsSchema,
+    samlMetadataXml: samlMetadataXmlSchema,
+  }),
+]);
+
+export const updateSsoConnectionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255).optional(),
+  emailDomains: ssoEmailDomainsSchema.optional(),
+  isActive: z.boolean().optional(),
+  oidcClientSecret: z.string().trim().min(1).optional(),
+  samlMetadataXml: samlMetadataXmlSchema.optional(),
+});
+
+// Role permissions update schema (portal)
+export const updateRolePermissionsSchema = z.object({
+  permissions: z.array(portalPermissionSchema),
+});
+
 // Type exports
 export type CompanyInput = z.infer<typeof companySchema>;
 export type ContactInput = z.infer<typeof contactSchema>;
@@ -132,7 +359,23 @@ export type CommsRequirementsInput = z.infer<typeof commsRequirementsSchema>;
 export type FnolRequirementsInput = z.infer<typeof fnolRequirementsSchema>;
 export type RequirementsInput = z.infer<typeof requirementsSchema>;
 export type OnboardingFormInput = z.infer<typeof onboardingFormSchema>;
+export type OnboardingDraftInput = z.infer<typeof onboardingDraftSchema>;
+export type SaveOnboardingDraftInput = z.infer<typeof saveOnboardingDraftSchema>;
+export type UploadOnboardingAttachmentInput = z.infer<typeof uploadOnboardingAttachmentSchema>;
+export type TrackOnboardingEventInput = z.infer<typeof trackOnboardingEventSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type VerifyOtpInput = z.infer<typeof verifyOtpSchema>;
 export type UpdateChecklistItemInput = z.infer<typeof updateChecklistItemSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+export type MergeCompaniesInput = z.infer<typeof mergeCompaniesSchema>;
+export type ProvisionPortalUserInput = z.infer<typeof provisionPortalUserSchema>;
+export type UpdateRolePermissionsInput = z.infer<typeof updateRolePermissionsSchema>;
+export type StartImpersonationInput = z.infer<typeof startImpersonationSchema>;
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>;
+export type UpdateMfaPolicyInput = z.infer<typeof updateMfaPolicySchema>;
+export type CreateSsoConnectionInput = z.infer<typeof createSsoConnectionSchema>;
+export type UpdateSsoConnectionInput = z.infer<typeof updateSsoConnectionSchema>;
+export type InvitePrefillInput = z.infer<typeof invitePrefillSchema>;
+export type BulkInviteUploadRow = z.infer<typeof bulkInviteUploadRowSchema>;
+export type BulkInviteRowInput = z.infer<typeof bulkInviteRowSchema>;
+export type SendBulkInvitesInput = z.infer<typeof sendBulkInvitesSchema>;
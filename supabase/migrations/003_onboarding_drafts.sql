@@ -0,0 +1,49 @@
+-- Migration: Onboarding Drafts
+-- Description: Persists in-progress onboarding wizard data so prospects can resume from their invite link
+
+-- ============================================
+-- 1. ONBOARDING DRAFTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS onboarding_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invite_id UUID NOT NULL UNIQUE REFERENCES invites(id) ON DELETE CASCADE,
+  current_step INTEGER NOT NULL DEFAULT 1,
+  form_data JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_draft_step CHECK (current_step BETWEEN 1 AND 5)
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_drafts_invite_id ON onboarding_drafts(invite_id);
+
+-- ============================================
+-- 2. UPDATE TRIGGERS
+-- ============================================
+CREATE OR REPLACE FUNCTION update_onboarding_drafts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_onboarding_drafts_updated_at ON onboarding_drafts;
+CREATE TRIGGER trigger_update_onboarding_drafts_updated_at
+  BEFORE UPDATE ON onboarding_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_onboarding_drafts_updated_at();
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE onboarding_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are read and written by the server on behalf of invite holders
+CREATE POLICY "Service role only for onboarding drafts" ON onboarding_drafts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Staff can view drafts (e.g. to follow up on abandoned onboarding)
+CREATE POLICY "Staff can view onboarding drafts" ON onboarding_drafts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
@@ -0,0 +1,320 @@
+-- Migration: Atomic Onboarding Submission
+-- Description: Moves the onboarding submission into a single transactional function called via RPC,
+-- so a submission either fully lands (company, contact, project, modules, configs, checklist, invite)
+-- or leaves nothing behind
+
+-- ============================================
+-- 1. SUBMISSION STEPS
+-- ============================================
+-- Each step is its own function so a later migration can replace just the step it changes.
+-- They are only called from submit_onboarding, inside its transaction.
+
+-- Create the company from p_form->'company'; returns its id
+CREATE OR REPLACE FUNCTION onboarding_create_company(p_company JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_company companies%ROWTYPE := jsonb_populate_record(NULL::companies, p_company);
+  v_company_id UUID;
+BEGIN
+  INSERT INTO companies (
+    legal_name, dba_name, website, address_line_1, address_line_2,
+    city, state, postal_code, company_size, lines_of_business
+  )
+  VALUES (
+    v_company.legal_name,
+    NULLIF(v_company.dba_name, ''),
+    NULLIF(v_company.website, ''),
+    v_company.address_line_1,
+    NULLIF(v_company.address_line_2, ''),
+    v_company.city,
+    v_company.state,
+    v_company.postal_code,
+    v_company.company_size,
+    COALESCE(v_company.lines_of_business, ARRAY[]::TEXT[])
+  )
+  RETURNING id INTO v_company_id;
+
+  RETURN v_company_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create the company's primary contact from p_form->'contact'
+CREATE OR REPLACE FUNCTION onboarding_create_contact(p_company_id UUID, p_contact JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_contact contacts%ROWTYPE := jsonb_populate_record(NULL::contacts, p_contact);
+BEGIN
+  INSERT INTO contacts (company_id, first_name, last_name, email, phone, title, role, is_active)
+  VALUES (
+    p_company_id,
+    v_contact.first_name,
+    v_contact.last_name,
+    v_contact.email,
+    NULLIF(v_contact.phone, ''),
+    NULLIF(v_contact.title, ''),
+    'primary',
+    TRUE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create the onboarding project; returns its id.
+-- Gets the invite and the whole form so what a project starts with can change here alone.
+CREATE OR REPLACE FUNCTION onboarding_create_project(p_invite_id UUID, p_company_id UUID, p_form JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_project_id UUID;
+BEGIN
+  INSERT INTO onboarding_projects (company_id, status, notes)
+  VALUES (p_company_id, 'discovery_in_progress', NULL)
+  RETURNING id INTO v_project_id;
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Store each module's requirements on the config row the module_selections trigger created,
+-- inserting it if missing
+CREATE OR REPLACE FUNCTION onboarding_store_core_requirements(p_project_id UUID, p_requirements JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_core core_module_configs%ROWTYPE := jsonb_populate_record(NULL::core_module_configs, p_requirements);
+  v_selection_id UUID;
+BEGIN
+  SELECT id INTO v_selection_id FROM module_selections
+  WHERE project_id = p_project_id AND module_type = 'core';
+
+  UPDATE core_module_configs SET
+    claim_types = COALESCE(v_core.claim_types, ARRAY[]::TEXT[]),
+    perils = COALESCE(v_core.perils, ARRAY[]::TEXT[]),
+    document_types = COALESCE(v_core.document_types, ARRAY[]::TEXT[]),
+    monthly_claim_volume = v_core.monthly_claim_volume,
+    monthly_document_volume = v_core.monthly_document_volume,
+    pain_points = NULLIF(v_core.pain_points, '')
+  WHERE module_selection_id = v_selection_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO core_module_configs (
+      module_selection_id, claim_types, perils, document_types,
+      monthly_claim_volume, monthly_document_volume, pain_points
+    )
+    VALUES (
+      v_selection_id,
+      COALESCE(v_core.claim_types, ARRAY[]::TEXT[]),
+      COALESCE(v_core.perils, ARRAY[]::TEXT[]),
+      COALESCE(v_core.document_types, ARRAY[]::TEXT[]),
+      v_core.monthly_claim_volume,
+      v_core.monthly_document_volume,
+      NULLIF(v_core.pain_points, '')
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION onboarding_store_comms_requirements(p_project_id UUID, p_requirements JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_comms comms_module_configs%ROWTYPE := jsonb_populate_record(
+    NULL::comms_module_configs,
+    jsonb_build_object('white_label_level', 'none', 'languages_required', jsonb_build_array('English'))
+      || jsonb_strip_nulls(p_requirements)
+  );
+  v_selection_id UUID;
+BEGIN
+  SELECT id INTO v_selection_id FROM module_selections
+  WHERE project_id = p_project_id AND module_type = 'comms';
+
+  UPDATE comms_module_configs SET
+    desired_channels = COALESCE(v_comms.desired_channels, ARRAY[]::TEXT[]),
+    monthly_message_volume = v_comms.monthly_message_volume,
+    white_label_level = v_comms.white_label_level,
+    languages_required = v_comms.languages_required
+  WHERE module_selection_id = v_selection_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO comms_module_configs (
+      module_selection_id, desired_channels, monthly_message_volume,
+      white_label_level, languages_required
+    )
+    VALUES (
+      v_selection_id,
+      COALESCE(v_comms.desired_channels, ARRAY[]::TEXT[]),
+      v_comms.monthly_message_volume,
+      v_comms.white_label_level,
+      v_comms.languages_required
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION onboarding_store_fnol_requirements(p_project_id UUID, p_requirements JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_fnol fnol_module_configs%ROWTYPE := jsonb_populate_record(NULL::fnol_module_configs, p_requirements);
+  v_selection_id UUID;
+BEGIN
+  SELECT id INTO v_selection_id FROM module_selections
+  WHERE project_id = p_project_id AND module_type = 'fnol';
+
+  UPDATE fnol_module_configs SET
+    desired_intake_methods = COALESCE(v_fnol.desired_intake_methods, ARRAY[]::TEXT[]),
+    monthly_fnol_volume = v_fnol.monthly_fnol_volume,
+    lines_of_business = COALESCE(v_fnol.lines_of_business, ARRAY[]::TEXT[]),
+    photo_required = COALESCE(v_fnol.photo_required, FALSE),
+    video_required = COALESCE(v_fnol.video_required, FALSE)
+  WHERE module_selection_id = v_selection_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO fnol_module_configs (
+      module_selection_id, desired_intake_methods, monthly_fnol_volume,
+      lines_of_business, photo_required, video_required
+    )
+    VALUES (
+      v_selection_id,
+      COALESCE(v_fnol.desired_intake_methods, ARRAY[]::TEXT[]),
+      v_fnol.monthly_fnol_volume,
+      COALESCE(v_fnol.lines_of_business, ARRAY[]::TEXT[]),
+      COALESCE(v_fnol.photo_required, FALSE),
+      COALESCE(v_fnol.video_required, FALSE)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create checklist items from templates (universal, or matching a selected module)
+CREATE OR REPLACE FUNCTION onboarding_create_checklist(p_project_id UUID, p_selected_modules TEXT[])
+RETURNS VOID AS $$
+DECLARE
+  v_checklist_count INTEGER;
+BEGIN
+  INSERT INTO checklist_items (project_id, template_id, status)
+  SELECT p_project_id, t.id, 'pending'
+  FROM checklist_templates t
+  WHERE t.required_for_modules IS NULL
+    OR cardinality(t.required_for_modules) = 0
+    OR t.required_for_modules::TEXT[] && p_selected_modules
+  ORDER BY t.order_index;
+
+  GET DIAGNOSTICS v_checklist_count = ROW_COUNT;
+
+  IF v_checklist_count > 0 THEN
+    INSERT INTO activity_logs (project_id, user_id, action, details)
+    VALUES (
+      p_project_id,
+      NULL,
+      'checklist_items_created',
+      jsonb_build_object('count', v_checklist_count, 'module_types', to_jsonb(p_selected_modules))
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 2. SUBMIT ONBOARDING FUNCTION
+-- ============================================
+-- p_form has the shape of OnboardingFormData (shared/types.ts)
+-- Returns the new onboarding project id
+CREATE OR REPLACE FUNCTION submit_onboarding(p_invite_id UUID, p_form JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_modules JSONB := COALESCE(p_form->'modules', '{}'::JSONB);
+  v_requirements JSONB := COALESCE(p_form->'requirements', '{}'::JSONB);
+  v_company_id UUID;
+  v_project_id UUID;
+  v_selected_modules TEXT[] := ARRAY[]::TEXT[];
+  v_invite_email TEXT;
+BEGIN
+  IF COALESCE((v_modules->>'core')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'core');
+  END IF;
+  IF COALESCE((v_modules->>'comms')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'comms');
+  END IF;
+  IF COALESCE((v_modules->>'fnol')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'fnol');
+  END IF;
+
+  -- 1. Create company
+  v_company_id := onboarding_create_company(p_form->'company');
+
+  -- 2. Create primary contact
+  PERFORM onboarding_create_contact(v_company_id, p_form->'contact');
+
+  -- 3. Create onboarding project
+  v_project_id := onboarding_create_project(p_invite_id, v_company_id, p_form);
+
+  -- 4. Create module selections (config rows are created by the module_selections trigger)
+  INSERT INTO module_selections (project_id, module_type, is_selected)
+  VALUES
+    (v_project_id, 'core', 'core' = ANY(v_selected_modules)),
+    (v_project_id, 'comms', 'comms' = ANY(v_selected_modules)),
+    (v_project_id, 'fnol', 'fnol' = ANY(v_selected_modules));
+
+  -- 5. Store module requirements
+  IF 'core' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'core') = 'object' THEN
+    PERFORM onboarding_store_core_requirements(v_project_id, v_requirements->'core');
+  END IF;
+  IF 'comms' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'comms') = 'object' THEN
+    PERFORM onboarding_store_comms_requirements(v_project_id, v_requirements->'comms');
+  END IF;
+  IF 'fnol' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'fnol') = 'object' THEN
+    PERFORM onboarding_store_fnol_requirements(v_project_id, v_requirements->'fnol');
+  END IF;
+
+  -- 6. Create checklist items
+  PERFORM onboarding_create_checklist(v_project_id, v_selected_modules);
+
+  -- 7. Mark invite as used (fails the whole submission if it was used concurrently)
+  UPDATE invites SET
+    status = 'used',
+    used_at = NOW(),
+    project_id = v_project_id,
+    updated_at = NOW()
+  WHERE id = p_invite_id AND status = 'pending'
+  RETURNING email INTO v_invite_email;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite % is no longer pending', p_invite_id;
+  END IF;
+
+  -- 8. Discard the saved wizard draft
+  DELETE FROM onboarding_drafts WHERE invite_id = p_invite_id;
+
+  -- 9. Log activity
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  VALUES (
+    v_project_id,
+    NULL,
+    'onboarding_submitted',
+    jsonb_build_object(
+      'company_name', p_form->'company'->>'legal_name',
+      'contact_email', p_form->'contact'->>'email',
+      'invite_email', v_invite_email,
+      'modules_selected', to_jsonb(v_selected_modules)
+    )
+  );
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. GRANT PERMISSIONS (server-side only)
+-- ============================================
+REVOKE ALL ON FUNCTION onboarding_create_company(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION onboarding_create_contact(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION onboarding_create_project(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION onboarding_store_core_requirements(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION onboarding_store_comms_requirements(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION onboarding_store_fnol_requirements(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION onboarding_create_checklist(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION submit_onboarding(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION onboarding_create_company(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION onboarding_create_contact(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION onboarding_create_project(UUID, UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION onboarding_store_core_requirements(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION onboarding_store_comms_requirements(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION onboarding_store_fnol_requirements(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION onboarding_create_checklist(UUID, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION submit_onboarding(UUID, JSONB) TO service_role;
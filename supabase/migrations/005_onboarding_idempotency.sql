@@ -0,0 +1,128 @@
+-- Migration: Idempotent Onboarding Submission
+-- Description: Stores Idempotency-Key headers with their responses so retried or double-clicked
+-- submissions replay the original result, and claims the invite before anything is created
+
+-- ============================================
+-- 1. IDEMPOTENCY KEYS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idempotency_key VARCHAR(255) NOT NULL,
+  scope VARCHAR(50) NOT NULL,
+  request_hash VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',
+  response_status INTEGER,
+  response_body JSONB,
+  invite_id UUID REFERENCES invites(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_idempotency_status CHECK (status IN ('processing', 'completed')),
+  CONSTRAINT unique_idempotency_key UNIQUE (scope, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only for idempotency keys" ON idempotency_keys
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- 2. ONE PROJECT PER INVITE
+-- ============================================
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invites_project_id_unique
+  ON invites(project_id) WHERE project_id IS NOT NULL;
+
+-- ============================================
+-- 3. CLAIM THE INVITE BEFORE CREATING ANYTHING
+-- ============================================
+-- Same as 004, except the invite is claimed first: the UPDATE takes a row lock, so a concurrent
+-- submission for the same invite waits, then finds it no longer pending and fails with PT409
+-- (PostgREST maps PTxyz codes to HTTP status xyz) before inserting anything;
+-- the onboarding_* step functions from 004 are unchanged
+CREATE OR REPLACE FUNCTION submit_onboarding(p_invite_id UUID, p_form JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_modules JSONB := COALESCE(p_form->'modules', '{}'::JSONB);
+  v_requirements JSONB := COALESCE(p_form->'requirements', '{}'::JSONB);
+  v_company_id UUID;
+  v_project_id UUID;
+  v_selected_modules TEXT[] := ARRAY[]::TEXT[];
+  v_invite_email TEXT;
+BEGIN
+  -- 0. Claim the invite
+  UPDATE invites SET
+    status = 'used',
+    used_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_invite_id AND status = 'pending' AND expires_at > NOW()
+  RETURNING email INTO v_invite_email;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite has already been used'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  IF COALESCE((v_modules->>'core')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'core');
+  END IF;
+  IF COALESCE((v_modules->>'comms')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'comms');
+  END IF;
+  IF COALESCE((v_modules->>'fnol')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'fnol');
+  END IF;
+
+  -- 1. Create company
+  v_company_id := onboarding_create_company(p_form->'company');
+
+  -- 2. Create primary contact
+  PERFORM onboarding_create_contact(v_company_id, p_form->'contact');
+
+  -- 3. Create onboarding project
+  v_project_id := onboarding_create_project(p_invite_id, v_company_id, p_form);
+
+  -- 4. Create module selections (config rows are created by the module_selections trigger)
+  INSERT INTO module_selections (project_id, module_type, is_selected)
+  VALUES
+    (v_project_id, 'core', 'core' = ANY(v_selected_modules)),
+    (v_project_id, 'comms', 'comms' = ANY(v_selected_modules)),
+    (v_project_id, 'fnol', 'fnol' = ANY(v_selected_modules));
+
+  -- 5. Store module requirements
+  IF 'core' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'core') = 'object' THEN
+    PERFORM onboarding_store_core_requirements(v_project_id, v_requirements->'core');
+  END IF;
+  IF 'comms' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'comms') = 'object' THEN
+    PERFORM onboarding_store_comms_requirements(v_project_id, v_requirements->'comms');
+  END IF;
+  IF 'fnol' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'fnol') = 'object' THEN
+    PERFORM onboarding_store_fnol_requirements(v_project_id, v_requirements->'fnol');
+  END IF;
+
+  -- 6. Create checklist items
+  PERFORM onboarding_create_checklist(v_project_id, v_selected_modules);
+
+  -- 7. Link the claimed invite to the new project
+  UPDATE invites SET project_id = v_project_id WHERE id = p_invite_id;
+
+  -- 8. Discard the saved wizard draft
+  DELETE FROM onboarding_drafts WHERE invite_id = p_invite_id;
+
+  -- 9. Log activity
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  VALUES (
+    v_project_id,
+    NULL,
+    'onboarding_submitted',
+    jsonb_build_object(
+      'company_name', p_form->'company'->>'legal_name',
+      'contact_email', p_form->'contact'->>'email',
+      'invite_email', v_invite_email,
+      'modules_selected', to_jsonb(v_selected_modules)
+    )
+  );
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,248 @@
+-- Migration: Company Deduplication
+-- Description: Attaches onboarding submissions to the company an invite was issued for,
+-- and adds a staff-only function to merge duplicate companies
+
+-- ============================================
+-- 1. MATCHING INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_companies_legal_name_lower ON companies(LOWER(legal_name));
+CREATE INDEX IF NOT EXISTS idx_companies_postal_code ON companies(postal_code);
+CREATE INDEX IF NOT EXISTS idx_invites_metadata_company_id ON invites((metadata->>'companyId'));
+
+-- ============================================
+-- 2. SUBMIT INTO AN EXISTING COMPANY
+-- ============================================
+-- Same as 005, except an invite whose metadata carries companyId (issued for an existing
+-- company, e.g. a second business unit) attaches the new project to that company. Only the
+-- contact step and the orchestrator change; the other onboarding_* steps are as in 004
+
+-- Reuses an existing contact with the same email; a new contact is only primary if the
+-- company does not have one yet
+CREATE OR REPLACE FUNCTION onboarding_create_contact(p_company_id UUID, p_contact JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_contact contacts%ROWTYPE := jsonb_populate_record(NULL::contacts, p_contact);
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM contacts
+    WHERE company_id = p_company_id AND LOWER(email) = LOWER(v_contact.email)
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO contacts (company_id, first_name, last_name, email, phone, title, role, is_active)
+  VALUES (
+    p_company_id,
+    v_contact.first_name,
+    v_contact.last_name,
+    v_contact.email,
+    NULLIF(v_contact.phone, ''),
+    NULLIF(v_contact.title, ''),
+    CASE
+      WHEN EXISTS (SELECT 1 FROM contacts WHERE company_id = p_company_id AND role = 'primary')
+        THEN 'other'::contact_role
+      ELSE 'primary'::contact_role
+    END,
+    TRUE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION submit_onboarding(p_invite_id UUID, p_form JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_modules JSONB := COALESCE(p_form->'modules', '{}'::JSONB);
+  v_requirements JSONB := COALESCE(p_form->'requirements', '{}'::JSONB);
+  v_company_id UUID;
+  v_project_id UUID;
+  v_selected_modules TEXT[] := ARRAY[]::TEXT[];
+  v_invite_email TEXT;
+  v_invite_company_id UUID;
+BEGIN
+  -- 0. Claim the invite
+  UPDATE invites SET
+    status = 'used',
+    used_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_invite_id AND status = 'pending' AND expires_at > NOW()
+  RETURNING email, NULLIF(metadata->>'companyId', '')::UUID
+  INTO v_invite_email, v_invite_company_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite has already been used'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  IF COALESCE((v_modules->>'core')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'core');
+  END IF;
+  IF COALESCE((v_modules->>'comms')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'comms');
+  END IF;
+  IF COALESCE((v_modules->>'fnol')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'fnol');
+  END IF;
+
+  -- 1. Use the company the invite was issued for, otherwise create one
+  IF v_invite_company_id IS NOT NULL THEN
+    SELECT id INTO v_company_id FROM companies WHERE id = v_invite_company_id;
+  END IF;
+
+  IF v_company_id IS NULL THEN
+    v_company_id := onboarding_create_company(p_form->'company');
+  END IF;
+
+  -- 2. Create the contact (primary for a new company; reuse an existing contact by email)
+  PERFORM onboarding_create_contact(v_company_id, p_form->'contact');
+
+  -- 3. Create onboarding project
+  v_project_id := onboarding_create_project(p_invite_id, v_company_id, p_form);
+
+  -- 4. Create module selections (config rows are created by the module_selections trigger)
+  INSERT INTO module_selections (project_id, module_type, is_selected)
+  VALUES
+    (v_project_id, 'core', 'core' = ANY(v_selected_modules)),
+    (v_project_id, 'comms', 'comms' = ANY(v_selected_modules)),
+    (v_project_id, 'fnol', 'fnol' = ANY(v_selected_modules));
+
+  -- 5. Store module requirements
+  IF 'core' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'core') = 'object' THEN
+    PERFORM onboarding_store_core_requirements(v_project_id, v_requirements->'core');
+  END IF;
+  IF 'comms' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'comms') = 'object' THEN
+    PERFORM onboarding_store_comms_requirements(v_project_id, v_requirements->'comms');
+  END IF;
+  IF 'fnol' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'fnol') = 'object' THEN
+    PERFORM onboarding_store_fnol_requirements(v_project_id, v_requirements->'fnol');
+  END IF;
+
+  -- 6. Create checklist items
+  PERFORM onboarding_create_checklist(v_project_id, v_selected_modules);
+
+  -- 7. Link the claimed invite to the new project
+  UPDATE invites SET project_id = v_project_id WHERE id = p_invite_id;
+
+  -- 8. Discard the saved wizard draft
+  DELETE FROM onboarding_drafts WHERE invite_id = p_invite_id;
+
+  -- 9. Log activity
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  VALUES (
+    v_project_id,
+    NULL,
+    'onboarding_submitted',
+    jsonb_build_object(
+      'company_name', p_form->'company'->>'legal_name',
+      'company_id', v_company_id,
+      'existing_company', v_invite_company_id IS NOT NULL AND v_company_id = v_invite_company_id,
+      'contact_email', p_form->'contact'->>'email',
+      'invite_email', v_invite_email,
+      'modules_selected', to_jsonb(v_selected_modules)
+    )
+  );
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. MERGE COMPANIES FUNCTION
+-- ============================================
+-- Moves contacts, projects, portal users and invites from p_source_id to p_target_id,
+-- fills blank company fields from the source, then deletes the source company
+-- Returns the number of rows moved per table
+CREATE OR REPLACE FUNCTION merge_companies(p_source_id UUID, p_target_id UUID, p_merged_by UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_source companies%ROWTYPE;
+  v_target companies%ROWTYPE;
+  v_contacts INTEGER;
+  v_projects INTEGER;
+  v_portal_users INTEGER;
+  v_invites INTEGER;
+  v_result JSONB;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a company into itself' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Lock both companies in a consistent order
+  PERFORM 1 FROM companies WHERE id IN (p_source_id, p_target_id) ORDER BY id FOR UPDATE;
+
+  SELECT * INTO v_source FROM companies WHERE id = p_source_id;
+  SELECT * INTO v_target FROM companies WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  -- Only one primary contact per company: source primaries become 'other'
+  IF EXISTS (SELECT 1 FROM contacts WHERE company_id = p_target_id AND role = 'primary') THEN
+    UPDATE contacts SET role = 'other'
+    WHERE company_id = p_source_id AND role = 'primary';
+  END IF;
+
+  UPDATE contacts SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_contacts = ROW_COUNT;
+
+  UPDATE onboarding_projects SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_projects = ROW_COUNT;
+
+  UPDATE portal_users SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_portal_users = ROW_COUNT;
+
+  UPDATE invites SET
+    metadata = jsonb_set(metadata, '{companyId}', to_jsonb(p_target_id::TEXT)),
+    updated_at = NOW()
+  WHERE metadata->>'companyId' = p_source_id::TEXT;
+  GET DIAGNOSTICS v_invites = ROW_COUNT;
+
+  -- Keep anything the target is missing
+  UPDATE companies SET
+    dba_name = COALESCE(dba_name, v_source.dba_name),
+    website = COALESCE(website, v_source.website),
+    address_line_2 = COALESCE(address_line_2, v_source.address_line_2),
+    company_size = COALESCE(company_size, v_source.company_size),
+    lines_of_business = ARRAY(
+      SELECT DISTINCT unnest(COALESCE(lines_of_business, ARRAY[]::TEXT[]) || COALESCE(v_source.lines_of_business, ARRAY[]::TEXT[]))
+    ),
+    updated_at = NOW()
+  WHERE id = p_target_id;
+
+  DELETE FROM companies WHERE id = p_source_id;
+
+  v_result := jsonb_build_object(
+    'contacts', v_contacts,
+    'projects', v_projects,
+    'portal_users', v_portal_users,
+    'invites', v_invites
+  );
+
+  -- Log on every project now owned by the merged company
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  SELECT
+    p.id,
+    p_merged_by,
+    'companies_merged',
+    jsonb_build_object(
+      'source_company_id', p_source_id,
+      'source_company_name', v_source.legal_name,
+      'target_company_id', p_target_id,
+      'target_company_name', v_target.legal_name,
+      'moved', v_result
+    )
+  FROM onboarding_projects p
+  WHERE p.company_id = p_target_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 4. GRANT PERMISSIONS (server-side only)
+-- ============================================
+REVOKE ALL ON FUNCTION merge_companies(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION merge_companies(UUID, UUID, UUID) TO service_role;
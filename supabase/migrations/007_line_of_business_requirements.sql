@@ -0,0 +1,71 @@
+-- Migration: Per-Line-of-Business Requirements
+-- Description: Captures core claim types, perils and volumes for each line of business
+
+-- ============================================
+-- 1. CORE MODULE CONFIG COLUMN
+-- ============================================
+-- Keyed by line of business, e.g.
+-- { "Personal Auto": { "claim_types": [...], "perils": [...], "monthly_claim_volume": 200 } }
+ALTER TABLE core_module_configs
+  ADD COLUMN IF NOT EXISTS lob_requirements JSONB NOT NULL DEFAULT '{}';
+
+-- ============================================
+-- 2. STORE PER-LINE REQUIREMENTS ON SUBMISSION
+-- ============================================
+-- Same as 004, except core requirements include lob_requirements, and the flat
+-- claim_types / perils columns also receive every line's answers
+CREATE OR REPLACE FUNCTION onboarding_store_core_requirements(p_project_id UUID, p_requirements JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_core core_module_configs%ROWTYPE := jsonb_populate_record(NULL::core_module_configs, p_requirements);
+  v_selection_id UUID;
+  v_lob_claim_types TEXT[];
+  v_lob_perils TEXT[];
+BEGIN
+  v_core.lob_requirements := COALESCE(v_core.lob_requirements, '{}'::JSONB);
+  SELECT id INTO v_selection_id FROM module_selections
+  WHERE project_id = p_project_id AND module_type = 'core';
+
+  -- Project-wide claim types and perils are the union of every line's answers
+  SELECT
+    ARRAY(SELECT DISTINCT v FROM jsonb_each(v_core.lob_requirements) l,
+      jsonb_array_elements_text(COALESCE(l.value->'claim_types', '[]'::JSONB)) v ORDER BY v),
+    ARRAY(SELECT DISTINCT v FROM jsonb_each(v_core.lob_requirements) l,
+      jsonb_array_elements_text(COALESCE(l.value->'perils', '[]'::JSONB)) v ORDER BY v)
+  INTO v_lob_claim_types, v_lob_perils;
+
+  v_core.claim_types := ARRAY(
+    SELECT DISTINCT unnest(COALESCE(v_core.claim_types, ARRAY[]::TEXT[]) || v_lob_claim_types)
+  );
+  v_core.perils := ARRAY(
+    SELECT DISTINCT unnest(COALESCE(v_core.perils, ARRAY[]::TEXT[]) || v_lob_perils)
+  );
+
+  UPDATE core_module_configs SET
+    claim_types = v_core.claim_types,
+    perils = v_core.perils,
+    document_types = COALESCE(v_core.document_types, ARRAY[]::TEXT[]),
+    monthly_claim_volume = v_core.monthly_claim_volume,
+    monthly_document_volume = v_core.monthly_document_volume,
+    pain_points = NULLIF(v_core.pain_points, ''),
+    lob_requirements = v_core.lob_requirements
+  WHERE module_selection_id = v_selection_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO core_module_configs (
+      module_selection_id, claim_types, perils, document_types,
+      monthly_claim_volume, monthly_document_volume, pain_points, lob_requirements
+    )
+    VALUES (
+      v_selection_id,
+      v_core.claim_types,
+      v_core.perils,
+      COALESCE(v_core.document_types, ARRAY[]::TEXT[]),
+      v_core.monthly_claim_volume,
+      v_core.monthly_document_volume,
+      NULLIF(v_core.pain_points, ''),
+      v_core.lob_requirements
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
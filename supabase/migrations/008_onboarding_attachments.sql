@@ -0,0 +1,39 @@
+-- Migration: Onboarding Attachments
+-- Description: Stages files uploaded in the onboarding wizard against the invite, so prospects can
+-- attach sample claims, policy forms or process diagrams before they have a project or a login
+
+-- ============================================
+-- 1. ONBOARDING ATTACHMENTS TABLE
+-- ============================================
+-- Keyed to the invite rather than the draft: submit_onboarding deletes the draft, and the
+-- attachments must survive until the server has moved them into the new project's documents
+CREATE TABLE IF NOT EXISTS onboarding_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invite_id UUID NOT NULL REFERENCES invites(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  file_type VARCHAR(255) NOT NULL,
+  file_size INTEGER NOT NULL,
+  category VARCHAR(50) NOT NULL DEFAULT 'other',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_attachment_category CHECK (
+    category IN ('sample_claim', 'policy_form', 'process_diagram', 'other')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_attachments_invite_id ON onboarding_attachments(invite_id);
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE onboarding_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Attachments are written by the server on behalf of invite holders
+CREATE POLICY "Service role only for onboarding attachments" ON onboarding_attachments
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Staff can view staged attachments (e.g. alongside an abandoned draft)
+CREATE POLICY "Staff can view onboarding attachments" ON onboarding_attachments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
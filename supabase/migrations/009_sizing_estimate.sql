@@ -0,0 +1,34 @@
+-- Migration: Sizing Estimate
+-- Description: Stores the volume-based sizing estimate (tier, implementation effort and
+-- go-live window) on the project, as the starting point for the SOW
+
+-- ============================================
+-- 1. PROJECT COLUMN
+-- ============================================
+-- Shape: { "tier", "effort", "effort_weeks", "go_live_window": { "earliest", "latest" },
+--          "drivers": [...], "estimated_at" } (see shared/sizing.ts)
+ALTER TABLE onboarding_projects
+  ADD COLUMN IF NOT EXISTS sizing_estimate JSONB;
+
+-- ============================================
+-- 2. STORE THE ESTIMATE ON SUBMISSION
+-- ============================================
+-- Same as 004, except the project is created with p_form->'sizing_estimate'
+-- (computed by the server before the RPC is called)
+CREATE OR REPLACE FUNCTION onboarding_create_project(p_invite_id UUID, p_company_id UUID, p_form JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_project_id UUID;
+BEGIN
+  INSERT INTO onboarding_projects (company_id, status, notes, sizing_estimate)
+  VALUES (
+    p_company_id,
+    'discovery_in_progress',
+    NULL,
+    CASE WHEN jsonb_typeof(p_form->'sizing_estimate') = 'object' THEN p_form->'sizing_estimate' END
+  )
+  RETURNING id INTO v_project_id;
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
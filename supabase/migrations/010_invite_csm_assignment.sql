@@ -0,0 +1,33 @@
+-- Migration: Invite CSM Assignment
+-- Description: Invites can name the customer success manager for the prospect (set by bulk
+-- invite uploads in invites.metadata.assignedCsmId); the project is assigned to them on submission
+
+-- ============================================
+-- 1. ASSIGN THE INVITE'S CSM ON SUBMISSION
+-- ============================================
+-- Same as 009, except the project's assigned_csm_id comes from the claimed invite's metadata,
+-- if that user is still active
+CREATE OR REPLACE FUNCTION onboarding_create_project(p_invite_id UUID, p_company_id UUID, p_form JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_csm_id UUID;
+  v_project_id UUID;
+BEGIN
+  SELECT u.id INTO v_csm_id
+  FROM invites i
+  JOIN users u ON u.id = NULLIF(i.metadata->>'assignedCsmId', '')::UUID
+  WHERE i.id = p_invite_id AND u.is_active;
+
+  INSERT INTO onboarding_projects (company_id, status, notes, sizing_estimate, assigned_csm_id)
+  VALUES (
+    p_company_id,
+    'discovery_in_progress',
+    NULL,
+    CASE WHEN jsonb_typeof(p_form->'sizing_estimate') = 'object' THEN p_form->'sizing_estimate' END,
+    v_csm_id
+  )
+  RETURNING id INTO v_project_id;
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
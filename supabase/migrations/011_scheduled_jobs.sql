@@ -0,0 +1,132 @@
+-- Migration: Scheduled Jobs
+-- Description: Persisted state for the in-process job scheduler (invite expiry and reminders).
+-- Each job row doubles as a lease lock so only one server instance runs a job at a time.
+
+-- ============================================
+-- 1. SCHEDULED JOBS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  name VARCHAR(100) PRIMARY KEY,
+  description TEXT,
+  interval_seconds INTEGER NOT NULL CHECK (interval_seconds > 0),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO scheduled_jobs (name, description, interval_seconds) VALUES
+  ('expire_invites', 'Mark pending invites past their expiry date as expired', 900),
+  ('invite_reminders', 'Email a reminder for unused invites that are about to expire', 3600)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 2. JOB RUNS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name VARCHAR(100) NOT NULL REFERENCES scheduled_jobs(name) ON DELETE CASCADE,
+  instance_id VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'running',
+  result JSONB DEFAULT '{}',
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT valid_job_run_status CHECK (status IN ('running', 'succeeded', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON job_runs(job_name, started_at DESC);
+
+-- ============================================
+-- 3. INVITE REMINDERS
+-- ============================================
+ALTER TABLE invites
+ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS valid_email_type;
+ALTER TABLE email_logs
+ADD CONSTRAINT valid_email_type CHECK (
+  email_type IN ('invite', 'invite_reminder', 'magic_link', 'status_update', 'password_reset', 'welcome')
+);
+
+-- ============================================
+-- 4. LEASE FUNCTIONS
+-- ============================================
+
+-- Take the lease on a job if it is enabled, due, and not held by another instance.
+-- The single conditional UPDATE makes this safe when several instances poll at once.
+CREATE OR REPLACE FUNCTION claim_scheduled_job(
+  p_name VARCHAR,
+  p_instance_id VARCHAR,
+  p_lease_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE scheduled_jobs
+  SET locked_by = p_instance_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      last_run_at = NOW(),
+      updated_at = NOW()
+  WHERE name = p_name
+    AND enabled
+    AND next_run_at <= NOW()
+    AND (locked_until IS NULL OR locked_until < NOW());
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release a lease held by this instance and schedule the next run
+CREATE OR REPLACE FUNCTION release_scheduled_job(
+  p_name VARCHAR,
+  p_instance_id VARCHAR,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE scheduled_jobs
+  SET locked_by = NULL,
+      locked_until = NULL,
+      next_run_at = NOW() + make_interval(secs => interval_seconds),
+      last_success_at = CASE WHEN p_error IS NULL THEN NOW() ELSE last_success_at END,
+      last_error = p_error,
+      updated_at = NOW()
+  WHERE name = p_name
+    AND locked_by = p_instance_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 5. GRANT PERMISSIONS (server-side only)
+-- ============================================
+REVOKE ALL ON FUNCTION claim_scheduled_job(VARCHAR, VARCHAR, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_scheduled_job(VARCHAR, VARCHAR, INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION release_scheduled_job(VARCHAR, VARCHAR, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_scheduled_job(VARCHAR, VARCHAR, TEXT) TO service_role;
+
+-- ============================================
+-- 6. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage scheduled jobs" ON scheduled_jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view scheduled jobs" ON scheduled_jobs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
+
+CREATE POLICY "Service role can manage job runs" ON job_runs
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view job runs" ON job_runs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
@@ -0,0 +1,95 @@
+-- Migration: Invite Funnel Events
+-- Description: Records when each invite first reached a funnel step (email opened, link
+-- validated, wizard started, draft saved) and aggregates the funnel for the admin dashboard.
+-- "Sent" and "submitted" come from invites.created_at and invites.used_at.
+
+-- ============================================
+-- 1. INVITE EVENTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS invite_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invite_id UUID NOT NULL REFERENCES invites(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  metadata JSONB DEFAULT '{}',
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT valid_invite_event_type CHECK (
+    event_type IN ('email_opened', 'link_validated', 'wizard_started', 'draft_saved')
+  )
+);
+
+-- Only the first occurrence of each step is kept
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invite_events_invite_type ON invite_events(invite_id, event_type);
+
+-- ============================================
+-- 2. FUNNEL AGGREGATE
+-- ============================================
+
+-- For invites created since p_since: how many got no further than each step (1 = sent ...
+-- 6 = submitted), and the seconds from sent to submitted for every submitted invite.
+-- An invite counts as reaching a step if it reached that step or any later one, so a missing
+-- open event (images blocked) doesn't hide a prospect who went on to use the link.
+CREATE OR REPLACE FUNCTION invite_funnel(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS JSONB AS $$
+DECLARE
+  v_furthest JSONB;
+  v_submit_seconds JSONB;
+BEGIN
+  WITH scoped AS (
+    SELECT id, status, created_at, used_at
+    FROM invites
+    WHERE created_at >= p_since
+  ),
+  furthest AS (
+    SELECT
+      s.id,
+      GREATEST(
+        1,
+        CASE WHEN s.status = 'used' OR s.used_at IS NOT NULL THEN 6 ELSE 0 END,
+        COALESCE(MAX(
+          CASE e.event_type
+            WHEN 'email_opened' THEN 2
+            WHEN 'link_validated' THEN 3
+            WHEN 'wizard_started' THEN 4
+            WHEN 'draft_saved' THEN 5
+          END
+        ), 0)
+      ) AS step
+    FROM scoped s
+    LEFT JOIN invite_events e ON e.invite_id = s.id
+    GROUP BY s.id, s.status, s.used_at
+  )
+  SELECT COALESCE(jsonb_object_agg(step, invite_count), '{}'::JSONB)
+  INTO v_furthest
+  FROM (SELECT step, COUNT(*) AS invite_count FROM furthest GROUP BY step) counts;
+
+  SELECT COALESCE(jsonb_agg(ROUND(EXTRACT(EPOCH FROM used_at - created_at))), '[]'::JSONB)
+  INTO v_submit_seconds
+  FROM invites
+  WHERE created_at >= p_since
+    AND used_at IS NOT NULL;
+
+  RETURN jsonb_build_object(
+    'furthest_step_counts', v_furthest,
+    'submit_seconds', v_submit_seconds
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- 3. GRANT PERMISSIONS (server-side only)
+-- ============================================
+REVOKE ALL ON FUNCTION invite_funnel(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION invite_funnel(TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- ============================================
+-- 4. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE invite_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage invite events" ON invite_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view invite events" ON invite_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
@@ -0,0 +1,139 @@
+-- Migration: Invite Token Security
+-- Description: Stores invite tokens only as SHA-256 hashes, adds optional binding of an invite
+-- to the first browser that opens it (with staff-approved transfers to another browser), and
+-- audits every attempt to use an invite link.
+
+-- ============================================
+-- 1. HASHED INVITE TOKENS
+-- ============================================
+ALTER TABLE invites
+ADD COLUMN IF NOT EXISTS token_hash VARCHAR(64);
+
+-- Links already sent keep working: their whole token is hashed
+UPDATE invites
+SET token_hash = encode(sha256(convert_to(token, 'UTF8')), 'hex')
+WHERE token_hash IS NULL;
+
+ALTER TABLE invites ALTER COLUMN token_hash SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invites_token_hash ON invites(token_hash);
+
+DROP INDEX IF EXISTS idx_invites_token;
+ALTER TABLE invites DROP COLUMN IF EXISTS token;
+
+-- Invites are only read server-side (service role) or by staff, so the public read policy
+-- from migration 002 is no longer needed
+DROP POLICY IF EXISTS "Anyone can validate invites" ON invites;
+
+-- ============================================
+-- 2. DEVICE BINDING
+-- ============================================
+ALTER TABLE invites
+ADD COLUMN IF NOT EXISTS device_binding BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS bound_device_hash VARCHAR(64),
+ADD COLUMN IF NOT EXISTS bound_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS invite_transfer_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invite_id UUID NOT NULL REFERENCES invites(id) ON DELETE CASCADE,
+  device_hash VARCHAR(64) NOT NULL,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  reviewed_by_id UUID REFERENCES users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_transfer_status CHECK (status IN ('pending', 'approved', 'denied'))
+);
+
+-- One open request per browser per invite
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invite_transfer_requests_pending
+  ON invite_transfer_requests(invite_id, device_hash)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_invite_transfer_requests_status ON invite_transfer_requests(status, created_at DESC);
+
+-- Approve a pending transfer: the invite is rebound to the requesting browser and any other
+-- pending requests for the invite are denied. Returns false if the request is no longer pending.
+CREATE OR REPLACE FUNCTION approve_invite_transfer(
+  p_request_id UUID,
+  p_reviewed_by_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_request invite_transfer_requests%ROWTYPE;
+BEGIN
+  UPDATE invite_transfer_requests
+  SET status = 'approved',
+      reviewed_by_id = p_reviewed_by_id,
+      reviewed_at = NOW()
+  WHERE id = p_request_id
+    AND status = 'pending'
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE invites
+  SET bound_device_hash = v_request.device_hash,
+      bound_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_request.invite_id;
+
+  UPDATE invite_transfer_requests
+  SET status = 'denied',
+      reviewed_by_id = p_reviewed_by_id,
+      reviewed_at = NOW()
+  WHERE invite_id = v_request.invite_id
+    AND status = 'pending';
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. ACCESS AUDIT LOG
+-- ============================================
+CREATE TABLE IF NOT EXISTS invite_access_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Null when the token couldn't be matched to an invite
+  invite_id UUID REFERENCES invites(id) ON DELETE CASCADE,
+  action VARCHAR(50) NOT NULL,
+  outcome VARCHAR(30) NOT NULL,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_invite_access_outcome CHECK (
+    outcome IN ('valid', 'invalid_token', 'not_found', 'used', 'expired', 'revoked', 'device_mismatch')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_invite_access_logs_invite ON invite_access_logs(invite_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invite_access_logs_created_at ON invite_access_logs(created_at DESC);
+
+-- ============================================
+-- 4. GRANT PERMISSIONS (server-side only)
+-- ============================================
+REVOKE ALL ON FUNCTION approve_invite_transfer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION approve_invite_transfer(UUID, UUID) TO service_role;
+
+-- ============================================
+-- 5. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE invite_transfer_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invite_access_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage invite transfer requests" ON invite_transfer_requests
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view invite transfer requests" ON invite_transfer_requests
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
+
+CREATE POLICY "Service role can manage invite access logs" ON invite_access_logs
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view invite access logs" ON invite_access_logs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
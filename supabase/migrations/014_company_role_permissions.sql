@@ -0,0 +1,146 @@
+-- Migration: Company Role Permissions
+-- Description: Lets a company's primary contact choose what each contact role may do in the
+-- portal (approve the SOW, manage webhooks, regenerate API keys, ...). Roles without a row
+-- here use the defaults in shared/permissions.ts; the primary contact always has every permission.
+
+-- ============================================
+-- 1. COMPANY ROLE PERMISSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS company_role_permissions (
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  updated_by_id UUID REFERENCES portal_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (company_id, role),
+  CONSTRAINT valid_configurable_role CHECK (
+    role IN ('technical', 'executive', 'billing', 'other')
+  )
+);
+
+-- ============================================
+-- 2. KEEP ROLE PERMISSIONS WHEN MERGING COMPANIES
+-- ============================================
+-- Same as 006, except the source company's role permissions move to the target instead of
+-- being deleted with the source (ON DELETE CASCADE). Where both companies configured a role,
+-- the merged company gets the stricter setting: only the permissions both allowed.
+CREATE OR REPLACE FUNCTION merge_companies(p_source_id UUID, p_target_id UUID, p_merged_by UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_source companies%ROWTYPE;
+  v_target companies%ROWTYPE;
+  v_contacts INTEGER;
+  v_projects INTEGER;
+  v_portal_users INTEGER;
+  v_invites INTEGER;
+  v_role_permissions INTEGER;
+  v_result JSONB;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a company into itself' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Lock both companies in a consistent order
+  PERFORM 1 FROM companies WHERE id IN (p_source_id, p_target_id) ORDER BY id FOR UPDATE;
+
+  SELECT * INTO v_source FROM companies WHERE id = p_source_id;
+  SELECT * INTO v_target FROM companies WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  -- Only one primary contact per company: source primaries become 'other'
+  IF EXISTS (SELECT 1 FROM contacts WHERE company_id = p_target_id AND role = 'primary') THEN
+    UPDATE contacts SET role = 'other'
+    WHERE company_id = p_source_id AND role = 'primary';
+  END IF;
+
+  UPDATE contacts SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_contacts = ROW_COUNT;
+
+  UPDATE onboarding_projects SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_projects = ROW_COUNT;
+
+  UPDATE portal_users SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_portal_users = ROW_COUNT;
+
+  UPDATE invites SET
+    metadata = jsonb_set(metadata, '{companyId}', to_jsonb(p_target_id::TEXT)),
+    updated_at = NOW()
+  WHERE metadata->>'companyId' = p_source_id::TEXT;
+  GET DIAGNOSTICS v_invites = ROW_COUNT;
+
+  -- A role both companies configured keeps only the permissions both allowed
+  UPDATE company_role_permissions t SET
+    permissions = ARRAY(SELECT unnest(t.permissions) INTERSECT SELECT unnest(s.permissions)),
+    updated_at = NOW()
+  FROM company_role_permissions s
+  WHERE t.company_id = p_target_id
+    AND s.company_id = p_source_id
+    AND s.role = t.role;
+
+  -- Roles only the source configured keep its settings
+  UPDATE company_role_permissions SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id
+    AND role NOT IN (SELECT role FROM company_role_permissions WHERE company_id = p_target_id);
+  GET DIAGNOSTICS v_role_permissions = ROW_COUNT;
+
+  -- Keep anything the target is missing
+  UPDATE companies SET
+    dba_name = COALESCE(dba_name, v_source.dba_name),
+    website = COALESCE(website, v_source.website),
+    address_line_2 = COALESCE(address_line_2, v_source.address_line_2),
+    company_size = COALESCE(company_size, v_source.company_size),
+    lines_of_business = ARRAY(
+      SELECT DISTINCT unnest(COALESCE(lines_of_business, ARRAY[]::TEXT[]) || COALESCE(v_source.lines_of_business, ARRAY[]::TEXT[]))
+    ),
+    updated_at = NOW()
+  WHERE id = p_target_id;
+
+  DELETE FROM companies WHERE id = p_source_id;
+
+  v_result := jsonb_build_object(
+    'contacts', v_contacts,
+    'projects', v_projects,
+    'portal_users', v_portal_users,
+    'invites', v_invites,
+    'role_permissions', v_role_permissions
+  );
+
+  -- Log on every project now owned by the merged company
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  SELECT
+    p.id,
+    p_merged_by,
+    'companies_merged',
+    jsonb_build_object(
+      'source_company_id', p_source_id,
+      'source_company_name', v_source.legal_name,
+      'target_company_id', p_target_id,
+      'target_company_name', v_target.legal_name,
+      'moved', v_result
+    )
+  FROM onboarding_projects p
+  WHERE p.company_id = p_target_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE company_role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage company role permissions" ON company_role_permissions
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view company role permissions" ON company_role_permissions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
@@ -0,0 +1,25 @@
+-- Migration: Staff Roles
+-- Description: Restricts users.role to the staff roles the admin API understands (admin, csm,
+-- sales, support). Existing staff keep full access as admins; reassign roles afterwards.
+-- New staff default to read-only support.
+
+-- ============================================
+-- 1. NORMALIZE EXISTING ROLES
+-- ============================================
+UPDATE users
+SET role = 'admin', updated_at = NOW()
+WHERE role IS NULL OR role NOT IN ('admin', 'csm', 'sales', 'support');
+
+-- ============================================
+-- 2. CONSTRAIN STAFF ROLES
+-- ============================================
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'support';
+ALTER TABLE users ALTER COLUMN role SET NOT NULL;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS valid_staff_role;
+ALTER TABLE users ADD CONSTRAINT valid_staff_role CHECK (
+  role IN ('admin', 'csm', 'sales', 'support')
+);
+
+-- CSMs list the projects assigned to them
+CREATE INDEX IF NOT EXISTS idx_onboarding_projects_assigned_csm ON onboarding_projects(assigned_csm_id);
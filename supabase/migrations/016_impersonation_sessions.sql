@@ -0,0 +1,41 @@
+-- Migration: Staff Impersonation Sessions
+-- Description: Lets staff view the portal as a chosen portal user. Each session records who
+-- started it, for whom, why, and whether destructive actions were allowed. Start, stop and
+-- every write made during the session are written to activity_logs under the staff user's id.
+
+-- ============================================
+-- 1. IMPERSONATION SESSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS impersonation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  portal_user_id UUID NOT NULL REFERENCES portal_users(id) ON DELETE CASCADE,
+  reason TEXT,
+  allow_destructive BOOLEAN NOT NULL DEFAULT false,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_staff ON impersonation_sessions(staff_user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_portal_user ON impersonation_sessions(portal_user_id, started_at DESC);
+
+-- ============================================
+-- 2. ACTIVITY LOGS FOR COMPANIES WITHOUT A PROJECT
+-- ============================================
+
+-- Impersonating a user whose company has no project yet is still audited
+ALTER TABLE activity_logs ALTER COLUMN project_id DROP NOT NULL;
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE impersonation_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage impersonation sessions" ON impersonation_sessions
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view impersonation sessions" ON impersonation_sessions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
@@ -0,0 +1,120 @@
+-- Migration: Auth Rate Limits and Account Lockout
+-- Description: Brute-force protection for sign-in and the emails sent from the login pages.
+-- auth_rate_limits backs the Postgres limiter store (AUTH_RATE_LIMIT_STORE=postgres) so every
+-- instance shares the same counts. Accounts that keep failing are locked until the lockout
+-- lapses or the owner follows the unlock link we email them; each lockout is a security event.
+
+-- ============================================
+-- 1. AUTH RATE LIMITS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS auth_rate_limits (
+  -- Policy name plus a hash of the email or IP address being limited
+  key VARCHAR(255) PRIMARY KEY,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  window_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_rate_limits_updated ON auth_rate_limits(updated_at);
+
+-- Count an attempt, starting a new window if the current one has passed.
+-- A single upsert keeps the count right when several instances record attempts at once.
+CREATE OR REPLACE FUNCTION hit_auth_rate_limit(
+  p_key VARCHAR,
+  p_window_seconds INTEGER
+)
+RETURNS TABLE (attempts INTEGER, window_started_at TIMESTAMP WITH TIME ZONE, blocked_until TIMESTAMP WITH TIME ZONE) AS $$
+  INSERT INTO auth_rate_limits AS r (key, attempts, window_started_at, updated_at)
+  VALUES (p_key, 1, NOW(), NOW())
+  ON CONFLICT (key) DO UPDATE
+  SET attempts = CASE
+        WHEN r.window_started_at <= NOW() - make_interval(secs => p_window_seconds) THEN 1
+        ELSE r.attempts + 1
+      END,
+      window_started_at = CASE
+        WHEN r.window_started_at <= NOW() - make_interval(secs => p_window_seconds) THEN NOW()
+        ELSE r.window_started_at
+      END,
+      updated_at = NOW()
+  RETURNING r.attempts, r.window_started_at, r.blocked_until;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- 2. ACCOUNT LOCKOUTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS account_lockouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Lower-cased; accounts are locked by email whether or not one exists
+  email VARCHAR(255) NOT NULL,
+  locked_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- SHA-256 of the token in the emailed unlock link
+  unlock_token_hash VARCHAR(64) NOT NULL UNIQUE,
+  unlocked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_lockouts_email ON account_lockouts(email, locked_until DESC);
+
+-- ============================================
+-- 3. SECURITY EVENTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS security_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type VARCHAR(50) NOT NULL,
+  email VARCHAR(255),
+  portal_user_id UUID REFERENCES portal_users(id) ON DELETE SET NULL,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  details JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_security_event_type CHECK (
+    event_type IN ('account_locked', 'account_unlocked')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_email ON security_events(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_created ON security_events(created_at DESC);
+
+-- ============================================
+-- 4. ACCOUNT LOCKED EMAILS
+-- ============================================
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS valid_email_type;
+ALTER TABLE email_logs
+ADD CONSTRAINT valid_email_type CHECK (
+  email_type IN ('invite', 'invite_reminder', 'magic_link', 'status_update', 'password_reset', 'welcome', 'account_locked')
+);
+
+-- ============================================
+-- 5. RATE LIMIT CLEANUP JOB
+-- ============================================
+INSERT INTO scheduled_jobs (name, description, interval_seconds) VALUES
+  ('auth_rate_limit_cleanup', 'Delete sign-in rate limit counters that are no longer in use', 3600)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 6. GRANT PERMISSIONS (server-side only)
+-- ============================================
+REVOKE ALL ON FUNCTION hit_auth_rate_limit(VARCHAR, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hit_auth_rate_limit(VARCHAR, INTEGER) TO service_role;
+
+-- ============================================
+-- 7. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE auth_rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_lockouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE security_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage auth rate limits" ON auth_rate_limits
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage account lockouts" ON account_lockouts
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage security events" ON security_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Staff can view security events" ON security_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE auth_user_id = auth.uid())
+  );
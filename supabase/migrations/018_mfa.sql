@@ -0,0 +1,219 @@
+-- Migration: Two-Factor Authentication
+-- Description: TOTP authenticator apps with one-time recovery codes for portal and staff users.
+-- After the password or magic link step, sign-in is held in mfa_challenges until the second
+-- factor is checked; sessions that passed it are recorded so tokens obtained any other way are
+-- refused. Staff always need two-factor authentication; companies can require it for their users.
+
+-- ============================================
+-- 1. MFA FACTORS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS mfa_factors (
+  auth_user_id UUID PRIMARY KEY,
+  -- TOTP secret, encrypted with MFA_ENCRYPTION_KEY
+  secret_encrypted TEXT NOT NULL,
+  -- NULL until the user has entered a first code from their app
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  -- Time step of the last accepted code, so a code can't be used twice
+  last_used_step BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- 2. RECOVERY CODES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auth_user_id UUID NOT NULL REFERENCES mfa_factors(auth_user_id) ON DELETE CASCADE,
+  -- SHA-256 of the code; the codes themselves are only shown once
+  code_hash VARCHAR(64) NOT NULL UNIQUE,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON mfa_recovery_codes(auth_user_id);
+
+-- ============================================
+-- 3. SIGN-IN CHALLENGES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS mfa_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auth_user_id UUID NOT NULL,
+  -- SHA-256 of the token in the browser's MFA challenge cookie
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  -- Session from the first step, encrypted; handed over once the second factor is checked
+  session_encrypted TEXT NOT NULL,
+  -- Set when the user must set up an authenticator app before signing in
+  enrollment_required BOOLEAN NOT NULL DEFAULT false,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_user ON mfa_challenges(auth_user_id);
+
+-- ============================================
+-- 4. VERIFIED SESSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS mfa_verified_sessions (
+  -- session_id claim of the Supabase access token; it survives token refreshes
+  session_id UUID PRIMARY KEY,
+  auth_user_id UUID NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_verified_sessions_user ON mfa_verified_sessions(auth_user_id);
+
+-- ============================================
+-- 5. COMPANY MFA POLICY
+-- ============================================
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS mfa_required BOOLEAN NOT NULL DEFAULT false;
+
+-- Same as 014, except the merged company requires two-factor authentication if either
+-- company did, so merging can't switch the requirement off
+CREATE OR REPLACE FUNCTION merge_companies(p_source_id UUID, p_target_id UUID, p_merged_by UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_source companies%ROWTYPE;
+  v_target companies%ROWTYPE;
+  v_contacts INTEGER;
+  v_projects INTEGER;
+  v_portal_users INTEGER;
+  v_invites INTEGER;
+  v_role_permissions INTEGER;
+  v_result JSONB;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a company into itself' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Lock both companies in a consistent order
+  PERFORM 1 FROM companies WHERE id IN (p_source_id, p_target_id) ORDER BY id FOR UPDATE;
+
+  SELECT * INTO v_source FROM companies WHERE id = p_source_id;
+  SELECT * INTO v_target FROM companies WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  -- Only one primary contact per company: source primaries become 'other'
+  IF EXISTS (SELECT 1 FROM contacts WHERE company_id = p_target_id AND role = 'primary') THEN
+    UPDATE contacts SET role = 'other'
+    WHERE company_id = p_source_id AND role = 'primary';
+  END IF;
+
+  UPDATE contacts SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_contacts = ROW_COUNT;
+
+  UPDATE onboarding_projects SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_projects = ROW_COUNT;
+
+  UPDATE portal_users SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_portal_users = ROW_COUNT;
+
+  UPDATE invites SET
+    metadata = jsonb_set(metadata, '{companyId}', to_jsonb(p_target_id::TEXT)),
+    updated_at = NOW()
+  WHERE metadata->>'companyId' = p_source_id::TEXT;
+  GET DIAGNOSTICS v_invites = ROW_COUNT;
+
+  -- A role both companies configured keeps only the permissions both allowed
+  UPDATE company_role_permissions t SET
+    permissions = ARRAY(SELECT unnest(t.permissions) INTERSECT SELECT unnest(s.permissions)),
+    updated_at = NOW()
+  FROM company_role_permissions s
+  WHERE t.company_id = p_target_id
+    AND s.company_id = p_source_id
+    AND s.role = t.role;
+
+  -- Roles only the source configured keep its settings
+  UPDATE company_role_permissions SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id
+    AND role NOT IN (SELECT role FROM company_role_permissions WHERE company_id = p_target_id);
+  GET DIAGNOSTICS v_role_permissions = ROW_COUNT;
+
+  -- Keep anything the target is missing
+  UPDATE companies SET
+    dba_name = COALESCE(dba_name, v_source.dba_name),
+    website = COALESCE(website, v_source.website),
+    address_line_2 = COALESCE(address_line_2, v_source.address_line_2),
+    company_size = COALESCE(company_size, v_source.company_size),
+    -- The merged company requires two-factor authentication if either did
+    mfa_required = mfa_required OR v_source.mfa_required,
+    lines_of_business = ARRAY(
+      SELECT DISTINCT unnest(COALESCE(lines_of_business, ARRAY[]::TEXT[]) || COALESCE(v_source.lines_of_business, ARRAY[]::TEXT[]))
+    ),
+    updated_at = NOW()
+  WHERE id = p_target_id;
+
+  DELETE FROM companies WHERE id = p_source_id;
+
+  v_result := jsonb_build_object(
+    'contacts', v_contacts,
+    'projects', v_projects,
+    'portal_users', v_portal_users,
+    'invites', v_invites,
+    'role_permissions', v_role_permissions
+  );
+
+  -- Log on every project now owned by the merged company
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  SELECT
+    p.id,
+    p_merged_by,
+    'companies_merged',
+    jsonb_build_object(
+      'source_company_id', p_source_id,
+      'source_company_name', v_source.legal_name,
+      'target_company_id', p_target_id,
+      'target_company_name', v_target.legal_name,
+      'moved', v_result
+    )
+  FROM onboarding_projects p
+  WHERE p.company_id = p_target_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 6. MFA SECURITY EVENTS
+-- ============================================
+ALTER TABLE security_events DROP CONSTRAINT IF EXISTS valid_security_event_type;
+ALTER TABLE security_events
+ADD CONSTRAINT valid_security_event_type CHECK (
+  event_type IN (
+    'account_locked',
+    'account_unlocked',
+    'mfa_enabled',
+    'mfa_disabled',
+    'mfa_recovery_code_used',
+    'mfa_recovery_codes_regenerated'
+  )
+);
+
+-- ============================================
+-- 7. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE mfa_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mfa_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mfa_verified_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage MFA factors" ON mfa_factors
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage MFA recovery codes" ON mfa_recovery_codes
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage MFA challenges" ON mfa_challenges
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage MFA verified sessions" ON mfa_verified_sessions
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,269 @@
+-- Migration: Customer Single Sign-On
+-- Description: Per-company OIDC and SAML connections for portal sign-in. Users are sent to their
+-- company's identity provider based on their email domain and provisioned on first sign-in.
+-- When a project's security compliance config has sso_required set and the company has an active
+-- connection, password and magic link sign-in are refused and only SSO sessions are accepted.
+
+-- ============================================
+-- 1. SSO CONNECTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS sso_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  protocol VARCHAR(10) NOT NULL,
+  -- Shown on the login page, e.g. "Acme Okta"
+  name VARCHAR(255) NOT NULL,
+  -- Lower-cased email domains routed to this connection
+  email_domains TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- OIDC: the issuer is used for discovery
+  oidc_issuer TEXT,
+  oidc_client_id TEXT,
+  -- Encrypted with MFA_ENCRYPTION_KEY; never returned to the browser
+  oidc_client_secret_encrypted TEXT,
+  -- SAML: read from the uploaded IdP metadata
+  saml_entity_id TEXT,
+  saml_sso_url TEXT,
+  saml_certificates TEXT[],
+  saml_metadata_xml TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_sso_protocol CHECK (protocol IN ('oidc', 'saml')),
+  CONSTRAINT oidc_connection_complete CHECK (
+    protocol <> 'oidc' OR (oidc_issuer IS NOT NULL AND oidc_client_id IS NOT NULL)
+  ),
+  CONSTRAINT saml_connection_complete CHECK (
+    protocol <> 'saml' OR (saml_entity_id IS NOT NULL AND saml_sso_url IS NOT NULL AND saml_certificates IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_connections_company ON sso_connections(company_id);
+CREATE INDEX IF NOT EXISTS idx_sso_connections_domains ON sso_connections USING GIN (email_domains);
+
+-- ============================================
+-- 2. SSO LOGIN STATES TABLE
+-- ============================================
+-- Kept server-side because the SAML response arrives as a cross-site POST that carries no cookies
+CREATE TABLE IF NOT EXISTS sso_login_states (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES sso_connections(id) ON DELETE CASCADE,
+  -- SHA-256 of the OIDC state or SAML RelayState sent to the identity provider
+  state_hash VARCHAR(64) NOT NULL UNIQUE,
+  -- OIDC nonce and PKCE verifier
+  oidc_nonce VARCHAR(255),
+  oidc_code_verifier VARCHAR(255),
+  -- ID of the SAML AuthnRequest, checked against the response's InResponseTo
+  saml_request_id VARCHAR(255),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_login_states_expires ON sso_login_states(expires_at);
+
+-- ============================================
+-- 3. SSO IDENTITIES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS sso_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES sso_connections(id) ON DELETE CASCADE,
+  -- OIDC sub claim or SAML NameID
+  subject TEXT NOT NULL,
+  portal_user_id UUID NOT NULL REFERENCES portal_users(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  last_login_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (connection_id, subject)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_identities_portal_user ON sso_identities(portal_user_id);
+
+-- ============================================
+-- 4. SSO SESSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS sso_sessions (
+  -- session_id claim of the Supabase access token; it survives token refreshes
+  session_id UUID PRIMARY KEY,
+  connection_id UUID NOT NULL REFERENCES sso_connections(id) ON DELETE CASCADE,
+  auth_user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_sessions_user ON sso_sessions(auth_user_id);
+
+-- ============================================
+-- 5. SSO PORTAL USERS
+-- ============================================
+ALTER TABLE portal_users DROP CONSTRAINT IF EXISTS valid_auth_method;
+ALTER TABLE portal_users
+ADD CONSTRAINT valid_auth_method CHECK (auth_method IN ('magic_link', 'password', 'both', 'sso'));
+
+-- ============================================
+-- 6. SSO SECURITY EVENTS
+-- ============================================
+ALTER TABLE security_events DROP CONSTRAINT IF EXISTS valid_security_event_type;
+ALTER TABLE security_events
+ADD CONSTRAINT valid_security_event_type CHECK (
+  event_type IN (
+    'account_locked',
+    'account_unlocked',
+    'mfa_enabled',
+    'mfa_disabled',
+    'mfa_recovery_code_used',
+    'mfa_recovery_codes_regenerated',
+    'sso_login',
+    'sso_login_failed',
+    'sso_user_provisioned'
+  )
+);
+
+-- ============================================
+-- 7. KEEP SSO CONNECTIONS WHEN MERGING COMPANIES
+-- ============================================
+-- Same as 018, except the source company's SSO connections move to the target instead of being
+-- deleted with the source (ON DELETE CASCADE). If both companies have connections the merge is
+-- refused, since their identity providers would compete for the same users' sign-ins.
+CREATE OR REPLACE FUNCTION merge_companies(p_source_id UUID, p_target_id UUID, p_merged_by UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_source companies%ROWTYPE;
+  v_target companies%ROWTYPE;
+  v_contacts INTEGER;
+  v_projects INTEGER;
+  v_portal_users INTEGER;
+  v_invites INTEGER;
+  v_role_permissions INTEGER;
+  v_sso_connections INTEGER;
+  v_result JSONB;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a company into itself' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Lock both companies in a consistent order
+  PERFORM 1 FROM companies WHERE id IN (p_source_id, p_target_id) ORDER BY id FOR UPDATE;
+
+  SELECT * INTO v_source FROM companies WHERE id = p_source_id;
+  SELECT * INTO v_target FROM companies WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  -- Two sets of identity providers would compete for the same users' sign-ins
+  IF EXISTS (SELECT 1 FROM sso_connections WHERE company_id = p_source_id)
+    AND EXISTS (SELECT 1 FROM sso_connections WHERE company_id = p_target_id) THEN
+    RAISE EXCEPTION 'Both companies have single sign-on connections. Remove one company''s connections before merging.'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  -- Only one primary contact per company: source primaries become 'other'
+  IF EXISTS (SELECT 1 FROM contacts WHERE company_id = p_target_id AND role = 'primary') THEN
+    UPDATE contacts SET role = 'other'
+    WHERE company_id = p_source_id AND role = 'primary';
+  END IF;
+
+  UPDATE contacts SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_contacts = ROW_COUNT;
+
+  UPDATE onboarding_projects SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_projects = ROW_COUNT;
+
+  UPDATE portal_users SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_portal_users = ROW_COUNT;
+
+  UPDATE invites SET
+    metadata = jsonb_set(metadata, '{companyId}', to_jsonb(p_target_id::TEXT)),
+    updated_at = NOW()
+  WHERE metadata->>'companyId' = p_source_id::TEXT;
+  GET DIAGNOSTICS v_invites = ROW_COUNT;
+
+  -- A role both companies configured keeps only the permissions both allowed
+  UPDATE company_role_permissions t SET
+    permissions = ARRAY(SELECT unnest(t.permissions) INTERSECT SELECT unnest(s.permissions)),
+    updated_at = NOW()
+  FROM company_role_permissions s
+  WHERE t.company_id = p_target_id
+    AND s.company_id = p_source_id
+    AND s.role = t.role;
+
+  -- Roles only the source configured keep its settings
+  UPDATE company_role_permissions SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id
+    AND role NOT IN (SELECT role FROM company_role_permissions WHERE company_id = p_target_id);
+  GET DIAGNOSTICS v_role_permissions = ROW_COUNT;
+
+  UPDATE sso_connections SET company_id = p_target_id, updated_at = NOW()
+  WHERE company_id = p_source_id;
+  GET DIAGNOSTICS v_sso_connections = ROW_COUNT;
+
+  -- Keep anything the target is missing
+  UPDATE companies SET
+    dba_name = COALESCE(dba_name, v_source.dba_name),
+    website = COALESCE(website, v_source.website),
+    address_line_2 = COALESCE(address_line_2, v_source.address_line_2),
+    company_size = COALESCE(company_size, v_source.company_size),
+    -- The merged company requires two-factor authentication if either did
+    mfa_required = mfa_required OR v_source.mfa_required,
+    lines_of_business = ARRAY(
+      SELECT DISTINCT unnest(COALESCE(lines_of_business, ARRAY[]::TEXT[]) || COALESCE(v_source.lines_of_business, ARRAY[]::TEXT[]))
+    ),
+    updated_at = NOW()
+  WHERE id = p_target_id;
+
+  DELETE FROM companies WHERE id = p_source_id;
+
+  v_result := jsonb_build_object(
+    'contacts', v_contacts,
+    'projects', v_projects,
+    'portal_users', v_portal_users,
+    'invites', v_invites,
+    'role_permissions', v_role_permissions,
+    'sso_connections', v_sso_connections
+  );
+
+  -- Log on every project now owned by the merged company
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  SELECT
+    p.id,
+    p_merged_by,
+    'companies_merged',
+    jsonb_build_object(
+      'source_company_id', p_source_id,
+      'source_company_name', v_source.legal_name,
+      'target_company_id', p_target_id,
+      'target_company_name', v_target.legal_name,
+      'moved', v_result
+    )
+  FROM onboarding_projects p
+  WHERE p.company_id = p_target_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 8. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE sso_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sso_login_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sso_identities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sso_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage SSO connections" ON sso_connections
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage SSO login states" ON sso_login_states
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage SSO identities" ON sso_identities
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage SSO sessions" ON sso_sessions
+  FOR ALL USING (auth.role() = 'service_role');
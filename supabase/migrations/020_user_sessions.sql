@@ -0,0 +1,94 @@
+-- Migration: Session Registry
+-- Description: One row per sign-in with the device, IP address and when it was last used, so
+-- users can see where they're signed in and sign out remotely, and staff can do the same for
+-- portal users. Revoking deletes the Supabase Auth session, which ends its refresh token, and
+-- marks the registry row so access tokens already handed out are refused until they expire.
+
+-- ============================================
+-- 1. USER SESSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_sessions (
+  -- session_id claim of the Supabase access token; it survives token refreshes
+  session_id UUID PRIMARY KEY,
+  auth_user_id UUID NOT NULL,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  -- Readable summary of the user agent, e.g. "Chrome on macOS"
+  device VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(30),
+  -- Staff user who signed the session out, if it wasn't the user themselves
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  CONSTRAINT valid_session_revoked_reason CHECK (
+    revoked_reason IS NULL OR revoked_reason IN ('signed_out', 'user_revoked', 'staff_revoked', 'password_reset')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(auth_user_id, last_seen_at DESC);
+
+-- ============================================
+-- 2. REVOKE SESSIONS FUNCTION
+-- ============================================
+-- Ends a user's sessions: the given ones, or all of them apart from p_except_session_id.
+-- Supabase Auth sessions that were never registered are recorded as revoked too, so their
+-- outstanding access tokens are refused as well. Returns the number of sessions ended.
+CREATE OR REPLACE FUNCTION revoke_user_sessions(
+  p_auth_user_id UUID,
+  p_reason VARCHAR,
+  p_session_ids UUID[] DEFAULT NULL,
+  p_except_session_id UUID DEFAULT NULL,
+  p_revoked_by UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_revoked INTEGER;
+BEGIN
+  WITH ended_auth_sessions AS (
+    DELETE FROM auth.sessions
+    WHERE user_id = p_auth_user_id
+      AND (p_session_ids IS NULL OR id = ANY(p_session_ids))
+      AND (p_except_session_id IS NULL OR id <> p_except_session_id)
+    RETURNING id, created_at
+  )
+  INSERT INTO user_sessions (session_id, auth_user_id, created_at, last_seen_at)
+  SELECT id, p_auth_user_id, created_at, created_at
+  FROM ended_auth_sessions
+  ON CONFLICT (session_id) DO NOTHING;
+
+  UPDATE user_sessions
+  SET revoked_at = NOW(),
+      revoked_reason = p_reason,
+      revoked_by = p_revoked_by
+  WHERE auth_user_id = p_auth_user_id
+    AND revoked_at IS NULL
+    AND (p_session_ids IS NULL OR session_id = ANY(p_session_ids))
+    AND (p_except_session_id IS NULL OR session_id <> p_except_session_id);
+
+  GET DIAGNOSTICS v_revoked = ROW_COUNT;
+  RETURN v_revoked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 3. SESSION CLEANUP JOB
+-- ============================================
+INSERT INTO scheduled_jobs (name, description, interval_seconds) VALUES
+  ('user_session_cleanup', 'Delete registry rows for sessions that were revoked or have not been used for 30 days', 86400)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 4. GRANT PERMISSIONS (server-side only)
+-- ============================================
+REVOKE ALL ON FUNCTION revoke_user_sessions(UUID, VARCHAR, UUID[], UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION revoke_user_sessions(UUID, VARCHAR, UUID[], UUID, UUID) TO service_role;
+
+-- ============================================
+-- 5. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage user sessions" ON user_sessions
+  FOR ALL USING (auth.role() = 'service_role');
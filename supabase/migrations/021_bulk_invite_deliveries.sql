@@ -0,0 +1,64 @@
+-- Migration: Bulk Invite Deliveries
+-- Description: A bulk invite upload creates its invites straight away and queues their emails,
+-- which the bulk_invite_emails job sends one at a time (paced for the email provider's rate
+-- limits). Each row of the upload is kept with its status so the admin UI can follow progress.
+
+-- ============================================
+-- 1. BULK INVITE BATCHES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS bulk_invite_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- Shown as the sender in the invite emails
+  inviter_name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- 2. BULK INVITE ROWS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS bulk_invite_rows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES bulk_invite_batches(id) ON DELETE CASCADE,
+  -- Row in the uploaded spreadsheet
+  row_number INTEGER NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  company_name VARCHAR(255),
+  expiration_days INTEGER,
+  csm_email VARCHAR(255),
+  csm_name VARCHAR(255),
+  -- invalid/duplicate rows were skipped; queued rows have an invite waiting for its email
+  status VARCHAR(20) NOT NULL,
+  errors TEXT[] NOT NULL DEFAULT '{}',
+  invite_id UUID REFERENCES invites(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_bulk_invite_row_status CHECK (
+    status IN ('invalid', 'duplicate', 'queued', 'sending', 'sent', 'failed')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_invite_rows_batch ON bulk_invite_rows(batch_id, row_number);
+CREATE INDEX IF NOT EXISTS idx_bulk_invite_rows_pending ON bulk_invite_rows(status, created_at)
+  WHERE status IN ('queued', 'sending');
+
+-- ============================================
+-- 3. BULK INVITE EMAIL JOB
+-- ============================================
+INSERT INTO scheduled_jobs (name, description, interval_seconds) VALUES
+  ('bulk_invite_emails', 'Send the queued emails for bulk invite uploads', 60)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 4. ROW LEVEL SECURITY POLICIES
+-- ============================================
+ALTER TABLE bulk_invite_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bulk_invite_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage bulk invite batches" ON bulk_invite_batches
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage bulk invite rows" ON bulk_invite_rows
+  FOR ALL USING (auth.role() = 'service_role');
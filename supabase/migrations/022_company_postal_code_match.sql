@@ -0,0 +1,15 @@
+-- Migration: Company Postal Code Matching
+-- Description: Keeps a compact form of each company's postal code (letters and digits only,
+-- uppercased) for the duplicate check to match on, so "K1A 0B1" and "78701-1234" are found
+-- the same way whether or not they were entered with a space or dash
+
+-- ============================================
+-- 1. COMPACT POSTAL CODE
+-- ============================================
+-- Matches normalizePostalCode in server/lib/company.ts, except ZIP+4 is kept whole; the
+-- duplicate check matches on a prefix
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS postal_code_compact TEXT
+  GENERATED ALWAYS AS (UPPER(REGEXP_REPLACE(postal_code, '[^A-Za-z0-9]', '', 'g'))) STORED;
+
+DROP INDEX IF EXISTS idx_companies_postal_code;
+CREATE INDEX IF NOT EXISTS idx_companies_postal_code_compact ON companies(postal_code_compact text_pattern_ops);
@@ -0,0 +1,117 @@
+-- Migration: Onboarding Invite Claim Errors
+-- Description: A submission whose invite can't be claimed says why, instead of reporting every
+-- invite that isn't pending as already used
+
+-- ============================================
+-- 1. SUBMIT ONBOARDING
+-- ============================================
+-- Same as 006, except a failed claim looks the invite up again: a used invite still fails with
+-- PT409, an expired or revoked one with PT410 and a missing one with PT404. The server passes
+-- the message on with the matching HTTP status
+CREATE OR REPLACE FUNCTION submit_onboarding(p_invite_id UUID, p_form JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_modules JSONB := COALESCE(p_form->'modules', '{}'::JSONB);
+  v_requirements JSONB := COALESCE(p_form->'requirements', '{}'::JSONB);
+  v_company_id UUID;
+  v_project_id UUID;
+  v_selected_modules TEXT[] := ARRAY[]::TEXT[];
+  v_invite_email TEXT;
+  v_invite_company_id UUID;
+  v_invite_status TEXT;
+BEGIN
+  -- 0. Claim the invite
+  UPDATE invites SET
+    status = 'used',
+    used_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_invite_id AND status = 'pending' AND expires_at > NOW()
+  RETURNING email, NULLIF(metadata->>'companyId', '')::UUID
+  INTO v_invite_email, v_invite_company_id;
+
+  IF NOT FOUND THEN
+    SELECT status INTO v_invite_status FROM invites WHERE id = p_invite_id;
+
+    IF v_invite_status IS NULL THEN
+      RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'PT404';
+    ELSIF v_invite_status = 'used' THEN
+      RAISE EXCEPTION 'This invite has already been used' USING ERRCODE = 'PT409';
+    ELSIF v_invite_status = 'revoked' THEN
+      RAISE EXCEPTION 'This invite has been revoked' USING ERRCODE = 'PT410';
+    ELSE
+      -- Marked expired, or still pending past its expiry date
+      RAISE EXCEPTION 'This invite has expired' USING ERRCODE = 'PT410';
+    END IF;
+  END IF;
+
+  IF COALESCE((v_modules->>'core')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'core');
+  END IF;
+  IF COALESCE((v_modules->>'comms')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'comms');
+  END IF;
+  IF COALESCE((v_modules->>'fnol')::BOOLEAN, FALSE) THEN
+    v_selected_modules := array_append(v_selected_modules, 'fnol');
+  END IF;
+
+  -- 1. Use the company the invite was issued for, otherwise create one
+  IF v_invite_company_id IS NOT NULL THEN
+    SELECT id INTO v_company_id FROM companies WHERE id = v_invite_company_id;
+  END IF;
+
+  IF v_company_id IS NULL THEN
+    v_company_id := onboarding_create_company(p_form->'company');
+  END IF;
+
+  -- 2. Create the contact (primary for a new company; reuse an existing contact by email)
+  PERFORM onboarding_create_contact(v_company_id, p_form->'contact');
+
+  -- 3. Create onboarding project
+  v_project_id := onboarding_create_project(p_invite_id, v_company_id, p_form);
+
+  -- 4. Create module selections (config rows are created by the module_selections trigger)
+  INSERT INTO module_selections (project_id, module_type, is_selected)
+  VALUES
+    (v_project_id, 'core', 'core' = ANY(v_selected_modules)),
+    (v_project_id, 'comms', 'comms' = ANY(v_selected_modules)),
+    (v_project_id, 'fnol', 'fnol' = ANY(v_selected_modules));
+
+  -- 5. Store module requirements
+  IF 'core' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'core') = 'object' THEN
+    PERFORM onboarding_store_core_requirements(v_project_id, v_requirements->'core');
+  END IF;
+  IF 'comms' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'comms') = 'object' THEN
+    PERFORM onboarding_store_comms_requirements(v_project_id, v_requirements->'comms');
+  END IF;
+  IF 'fnol' = ANY(v_selected_modules) AND jsonb_typeof(v_requirements->'fnol') = 'object' THEN
+    PERFORM onboarding_store_fnol_requirements(v_project_id, v_requirements->'fnol');
+  END IF;
+
+  -- 6. Create checklist items
+  PERFORM onboarding_create_checklist(v_project_id, v_selected_modules);
+
+  -- 7. Link the claimed invite to the new project
+  UPDATE invites SET project_id = v_project_id WHERE id = p_invite_id;
+
+  -- 8. Discard the saved wizard draft
+  DELETE FROM onboarding_drafts WHERE invite_id = p_invite_id;
+
+  -- 9. Log activity
+  INSERT INTO activity_logs (project_id, user_id, action, details)
+  VALUES (
+    v_project_id,
+    NULL,
+    'onboarding_submitted',
+    jsonb_build_object(
+      'company_name', p_form->'company'->>'legal_name',
+      'company_id', v_company_id,
+      'existing_company', v_invite_company_id IS NOT NULL AND v_company_id = v_invite_company_id,
+      'contact_email', p_form->'contact'->>'email',
+      'invite_email', v_invite_email,
+      'modules_selected', to_jsonb(v_selected_modules)
+    )
+  );
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
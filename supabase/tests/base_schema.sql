@@ -0,0 +1,231 @@
+-- Stand-in for the parts of the Supabase project that exist before 002_invite_system.sql:
+-- the API roles, the auth schema, and the core onboarding tables from the original schema.
+-- Only what the migrations and their tests rely on is included.
+
+-- ============================================
+-- 1. SUPABASE ROLES AND AUTH SCHEMA
+-- ============================================
+CREATE ROLE anon;
+CREATE ROLE authenticated;
+CREATE ROLE service_role;
+
+CREATE SCHEMA auth;
+
+CREATE FUNCTION auth.uid() RETURNS UUID AS $$ SELECT NULL::UUID $$ LANGUAGE sql;
+CREATE FUNCTION auth.role() RETURNS TEXT AS $$ SELECT 'service_role'::TEXT $$ LANGUAGE sql;
+
+CREATE TABLE auth.sessions (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- 2. ENUMS
+-- ============================================
+CREATE TYPE company_size AS ENUM ('micro', 'small', 'medium', 'large', 'enterprise');
+CREATE TYPE contact_role AS ENUM ('primary', 'technical', 'executive', 'billing', 'other');
+CREATE TYPE project_status AS ENUM ('discovery_in_progress', 'sow_pending', 'contract_signed', 'onboarding', 'live', 'churned');
+CREATE TYPE module_type AS ENUM ('core', 'comms', 'fnol');
+CREATE TYPE white_label_level AS ENUM ('none', 'basic', 'full');
+
+-- ============================================
+-- 3. CORE TABLES
+-- ============================================
+CREATE TABLE users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auth_user_id UUID,
+  email TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  role TEXT DEFAULT 'admin',
+  is_active BOOLEAN DEFAULT TRUE,
+  username TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE companies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  legal_name TEXT NOT NULL,
+  dba_name TEXT,
+  website TEXT,
+  address_line_1 TEXT NOT NULL,
+  address_line_2 TEXT,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  postal_code TEXT NOT NULL,
+  company_size company_size,
+  lines_of_business TEXT[] DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  title TEXT,
+  role contact_role DEFAULT 'other',
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE onboarding_projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  status project_status DEFAULT 'discovery_in_progress',
+  stage TEXT,
+  target_go_live_date TIMESTAMP WITH TIME ZONE,
+  actual_go_live_date TIMESTAMP WITH TIME ZONE,
+  assigned_csm_id UUID REFERENCES users(id),
+  sow_signed_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE portal_users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auth_user_id UUID,
+  company_id UUID REFERENCES companies(id),
+  contact_id UUID REFERENCES contacts(id),
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE module_selections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES onboarding_projects(id) ON DELETE CASCADE,
+  module_type module_type NOT NULL,
+  is_selected BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE core_module_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  module_selection_id UUID REFERENCES module_selections(id) ON DELETE CASCADE,
+  claim_types TEXT[] DEFAULT '{}',
+  perils TEXT[] DEFAULT '{}',
+  document_types TEXT[] DEFAULT '{}',
+  monthly_claim_volume INTEGER,
+  monthly_document_volume INTEGER,
+  pain_points TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE comms_module_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  module_selection_id UUID REFERENCES module_selections(id) ON DELETE CASCADE,
+  desired_channels TEXT[] DEFAULT '{}',
+  monthly_message_volume INTEGER,
+  white_label_level white_label_level DEFAULT 'none',
+  languages_required TEXT[] DEFAULT '{English}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE fnol_module_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  module_selection_id UUID REFERENCES module_selections(id) ON DELETE CASCADE,
+  desired_intake_methods TEXT[] DEFAULT '{}',
+  monthly_fnol_volume INTEGER,
+  lines_of_business TEXT[] DEFAULT '{}',
+  photo_required BOOLEAN DEFAULT FALSE,
+  video_required BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE checklist_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT,
+  description TEXT,
+  category TEXT,
+  order_index INTEGER,
+  required_for_modules module_type[],
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES onboarding_projects(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES checklist_templates(id),
+  status TEXT DEFAULT 'pending',
+  assigned_to_id UUID,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES onboarding_projects(id) ON DELETE CASCADE,
+  name TEXT,
+  file_path TEXT,
+  file_type TEXT,
+  file_size INTEGER,
+  status TEXT DEFAULT 'pending',
+  uploaded_by_id UUID,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE activity_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES onboarding_projects(id) ON DELETE CASCADE,
+  user_id UUID,
+  action TEXT NOT NULL,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE integration_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES onboarding_projects(id)
+);
+
+CREATE TABLE security_compliance_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES onboarding_projects(id),
+  sso_required BOOLEAN DEFAULT FALSE,
+  sso_provider TEXT,
+  data_retention_days INTEGER,
+  geographic_restrictions TEXT[] DEFAULT '{}',
+  compliance_requirements TEXT[] DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- 4. MODULE CONFIG TRIGGER
+-- ============================================
+-- Selecting a module creates its empty config row
+CREATE FUNCTION create_module_config() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_selected THEN
+    IF NEW.module_type = 'core' THEN
+      INSERT INTO core_module_configs (module_selection_id) VALUES (NEW.id);
+    ELSIF NEW.module_type = 'comms' THEN
+      INSERT INTO comms_module_configs (module_selection_id) VALUES (NEW.id);
+    ELSE
+      INSERT INTO fnol_module_configs (module_selection_id) VALUES (NEW.id);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER create_module_config_on_selection
+  AFTER INSERT ON module_selections
+  FOR EACH ROW EXECUTE FUNCTION create_module_config();
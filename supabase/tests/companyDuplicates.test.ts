@@ -0,0 +1,50 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createMigratedDatabase } from "./database";
+
+describe("companies.postal_code_compact", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createMigratedDatabase();
+    await db.exec(
+      `INSERT INTO companies (legal_name, address_line_1, city, state, postal_code) VALUES
+         ('Maple Mutual', '1 Wellington St', 'Ottawa', 'ON', 'k1a 0b1'),
+         ('Acme Insurance', '1 Main St', 'Austin', 'TX', '78701-1234'),
+         ('Beta Mutual', '2 Main St', 'Austin', 'TX', '78702')`
+    );
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  // The duplicate check's prefilter, given a postal code from normalizePostalCode
+  async function findByPostalCode(normalized: string) {
+    const result = await db.query<{ legal_name: string }>(
+      "SELECT legal_name FROM companies WHERE postal_code_compact LIKE $1 || '%' ORDER BY legal_name",
+      [normalized]
+    );
+    return result.rows.map((row) => row.legal_name);
+  }
+
+  it("keeps only the letters and digits of the postal code, uppercased", async () => {
+    const result = await db.query<{ postal_code_compact: string }>(
+      "SELECT postal_code_compact FROM companies ORDER BY legal_name"
+    );
+
+    expect(result.rows.map((row) => row.postal_code_compact)).toEqual(["787011234", "78702", "K1A0B1"]);
+  });
+
+  it("finds a stored code however it was spaced or punctuated", async () => {
+    expect(await findByPostalCode("K1A0B1")).toEqual(["Maple Mutual"]);
+    expect(await findByPostalCode("78701")).toEqual(["Acme Insurance"]);
+  });
+
+  it("follows a change to the postal code", async () => {
+    await db.exec("UPDATE companies SET postal_code = 'K1A-0B2' WHERE legal_name = 'Maple Mutual'");
+
+    expect(await findByPostalCode("K1A0B1")).toEqual([]);
+    expect(await findByPostalCode("K1A0B2")).toEqual(["Maple Mutual"]);
+  });
+});
@@ -0,0 +1,35 @@
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+
+const TESTS_DIR = import.meta.dirname;
+const MIGRATIONS_DIR = path.resolve(TESTS_DIR, "../migrations");
+
+/**
+ * Start an in-memory Postgres with the base schema and every migration applied, in order
+ */
+export async function createMigratedDatabase(): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(readFileSync(path.join(TESTS_DIR, "base_schema.sql"), "utf-8"));
+
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith(".sql"))
+    .sort();
+  for (const migration of migrations) {
+    try {
+      await db.exec(readFileSync(path.join(MIGRATIONS_DIR, migration), "utf-8"));
+    } catch (error) {
+      throw new Error(`${migration} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return db;
+}
+
+/**
+ * Count the rows in a table, optionally filtered by a WHERE clause
+ */
+export async function countRows(db: PGlite, table: string, where = "TRUE", params: unknown[] = []): Promise<number> {
+  const result = await db.query<{ count: number }>(`SELECT count(*)::int AS count FROM ${table} WHERE ${where}`, params);
+  return result.rows[0].count;
+}
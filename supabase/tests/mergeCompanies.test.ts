@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { countRows, createMigratedDatabase } from "./database";
+
+const SOURCE_ID = "00000000-0000-4000-8000-00000000000a";
+const TARGET_ID = "00000000-0000-4000-8000-00000000000b";
+
+describe("merge_companies", () => {
+  let db: PGlite;
+  let staffId: string;
+
+  beforeAll(async () => {
+    db = await createMigratedDatabase();
+    const staff = await db.query<{ id: string }>("INSERT INTO users (email) VALUES ('admin@claimsiq.com') RETURNING id");
+    staffId = staff.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.exec("TRUNCATE companies CASCADE;");
+    await db.query(
+      `INSERT INTO companies (id, legal_name, address_line_1, city, state, postal_code) VALUES
+         ($1, 'Acme Insurance', '1 Main St', 'Austin', 'TX', '78701'),
+         ($2, 'Acme Insurance Ltd.', '1 Main St', 'Austin', 'TX', '78701')`,
+      [SOURCE_ID, TARGET_ID]
+    );
+  });
+
+  async function merge() {
+    const result = await db.query<{ moved: Record<string, number> }>(
+      "SELECT merge_companies($1, $2, $3) AS moved",
+      [SOURCE_ID, TARGET_ID, staffId]
+    );
+    return result.rows[0].moved;
+  }
+
+  async function rolePermissions(companyId: string) {
+    const result = await db.query<{ role: string; permissions: string[] }>(
+      "SELECT role, permissions FROM company_role_permissions WHERE company_id = $1 ORDER BY role",
+      [companyId]
+    );
+    return result.rows.map(({ role, permissions }) => ({ role, permissions: [...permissions].sort() }));
+  }
+
+  it("keeps the source company's role permissions, with the stricter setting for roles both configured", async () => {
+    await db.query(
+      `INSERT INTO company_role_permissions (company_id, role, permissions) VALUES
+         ($1, 'billing', '{sow.approve}'),
+         ($1, 'technical', '{integrations.manage,webhooks.manage}'),
+         ($2, 'technical', '{webhooks.manage,api_credentials.regenerate}'),
+         ($2, 'executive', '{sow.approve,team.invite}')`,
+      [SOURCE_ID, TARGET_ID]
+    );
+
+    const moved = await merge();
+
+    expect(moved.role_permissions).toBe(1);
+    expect(await countRows(db, "companies", "id = $1", [SOURCE_ID])).toBe(0);
+    expect(await rolePermissions(TARGET_ID)).toEqual([
+      { role: "billing", permissions: ["sow.approve"] },
+      { role: "executive", permissions: ["sow.approve", "team.invite"] },
+      { role: "technical", permissions: ["webhooks.manage"] },
+    ]);
+  });
+
+  it.each([
+    [true, false],
+    [false, true],
+  ])("requires two-factor authentication if either company did (source %s, target %s)", async (source, target) => {
+    await db.query("UPDATE companies SET mfa_required = $2 WHERE id = $1", [SOURCE_ID, source]);
+    await db.query("UPDATE companies SET mfa_required = $2 WHERE id = $1", [TARGET_ID, target]);
+
+    await merge();
+
+    const company = await db.query<{ mfa_required: boolean }>("SELECT mfa_required FROM companies WHERE id = $1", [TARGET_ID]);
+    expect(company.rows[0].mfa_required).toBe(true);
+  });
+
+  async function addSamlConnection(companyId: string, name: string) {
+    await db.query(
+      `INSERT INTO sso_connections (company_id, protocol, name, email_domains, saml_entity_id, saml_sso_url, saml_certificates)
+       VALUES ($1, 'saml', $2, '{acme.com}', 'https://idp.example.com', 'https://idp.example.com/sso', '{certificate}')`,
+      [companyId, name]
+    );
+  }
+
+  it("moves the source company's SSO connections to the target", async () => {
+    await addSamlConnection(SOURCE_ID, "Acme Okta");
+
+    const moved = await merge();
+
+    expect(moved.sso_connections).toBe(1);
+    expect(await countRows(db, "sso_connections", "company_id = $1 AND name = 'Acme Okta'", [TARGET_ID])).toBe(1);
+  });
+
+  it("refuses to merge two companies that both have SSO connections", async () => {
+    await addSamlConnection(SOURCE_ID, "Acme Okta");
+    await addSamlConnection(TARGET_ID, "Acme Azure AD");
+
+    await expect(merge()).rejects.toThrow("Both companies have single sign-on connections");
+
+    expect(await countRows(db, "companies")).toBe(2);
+    expect(await countRows(db, "sso_connections", "company_id = $1", [SOURCE_ID])).toBe(1);
+  });
+});
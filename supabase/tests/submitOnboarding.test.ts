@@ -0,0 +1,182 @@
+import { randomBytes, randomUUID } from "crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { countRows, createMigratedDatabase } from "./database";
+
+// Everything submit_onboarding writes, which must stay empty when a submission fails
+const SUBMISSION_TABLES = [
+  "companies",
+  "contacts",
+  "onboarding_projects",
+  "module_selections",
+  "core_module_configs",
+  "comms_module_configs",
+  "fnol_module_configs",
+  "checklist_items",
+  "activity_logs",
+];
+
+function buildForm(overrides: Record<string, unknown> = {}) {
+  return {
+    company: {
+      legal_name: "Acme Insurance",
+      address_line_1: "1 Main St",
+      city: "Austin",
+      state: "TX",
+      postal_code: "78701",
+      company_size: "small",
+      lines_of_business: ["Personal Auto"],
+    },
+    contact: { first_name: "Ada", last_name: "Lovelace", email: "ada@acme.com" },
+    modules: { core: true, comms: true, fnol: true },
+    requirements: {
+      core: { claim_types: ["Collision"], perils: [], document_types: ["Photos"], monthly_claim_volume: 500 },
+      comms: { desired_channels: ["SMS"], white_label_level: "basic", languages_required: ["English"] },
+      fnol: { desired_intake_methods: ["Phone"], monthly_fnol_volume: 200 },
+    },
+    ...overrides,
+  };
+}
+
+describe("submit_onboarding", () => {
+  let db: PGlite;
+  let inviteId: string;
+
+  beforeAll(async () => {
+    db = await createMigratedDatabase();
+    await db.exec(`
+      INSERT INTO checklist_templates (name, order_index, required_for_modules) VALUES
+        ('Kickoff call', 1, NULL),
+        ('Core setup', 2, '{core}'),
+        ('FNOL setup', 3, '{fnol}');
+    `);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.exec(`TRUNCATE companies, onboarding_projects, invites CASCADE;`);
+
+    inviteId = randomUUID();
+    await db.query(
+      `INSERT INTO invites (id, token_hash, email, status, expires_at)
+       VALUES ($1, $2, 'ada@acme.com', 'pending', NOW() + INTERVAL '7 days')`,
+      [inviteId, randomBytes(32).toString("hex")]
+    );
+    await db.query(`INSERT INTO onboarding_drafts (invite_id, form_data) VALUES ($1, '{}')`, [inviteId]);
+  });
+
+  async function submit(form: unknown): Promise<string> {
+    const result = await db.query<{ project_id: string }>(
+      "SELECT submit_onboarding($1, $2::jsonb) AS project_id",
+      [inviteId, JSON.stringify(form)]
+    );
+    return result.rows[0].project_id;
+  }
+
+  async function expectNothingWritten() {
+    for (const table of SUBMISSION_TABLES) {
+      expect(await countRows(db, table), table).toBe(0);
+    }
+
+    // The invite is still usable and the draft is kept for another attempt
+    const invite = await db.query<{ status: string; project_id: string | null }>(
+      "SELECT status, project_id FROM invites WHERE id = $1",
+      [inviteId]
+    );
+    expect(invite.rows[0]).toEqual({ status: "pending", project_id: null });
+    expect(await countRows(db, "onboarding_drafts", "invite_id = $1", [inviteId])).toBe(1);
+  }
+
+  it("creates the whole submission in one call", async () => {
+    const projectId = await submit(buildForm());
+
+    expect(await countRows(db, "companies")).toBe(1);
+    expect(await countRows(db, "contacts", "role = 'primary'")).toBe(1);
+    expect(await countRows(db, "module_selections", "project_id = $1 AND is_selected", [projectId])).toBe(3);
+    expect(await countRows(db, "core_module_configs", "monthly_claim_volume = 500")).toBe(1);
+    expect(await countRows(db, "comms_module_configs", "white_label_level = 'basic'")).toBe(1);
+    expect(await countRows(db, "fnol_module_configs", "monthly_fnol_volume = 200")).toBe(1);
+    expect(await countRows(db, "checklist_items", "project_id = $1", [projectId])).toBe(3);
+    expect(await countRows(db, "activity_logs", "action = 'onboarding_submitted'")).toBe(1);
+
+    const invite = await db.query<{ status: string; project_id: string }>(
+      "SELECT status, project_id FROM invites WHERE id = $1",
+      [inviteId]
+    );
+    expect(invite.rows[0]).toEqual({ status: "used", project_id: projectId });
+    expect(await countRows(db, "onboarding_drafts")).toBe(0);
+  });
+
+  it("assigns the invite's active CSM and stores the sizing estimate on the project", async () => {
+    const csm = await db.query<{ id: string }>(
+      "INSERT INTO users (email, role) VALUES ('csm@example.com', 'csm') RETURNING id"
+    );
+    await db.query(
+      `UPDATE invites SET metadata = jsonb_build_object('assignedCsmId', $2::text) WHERE id = $1`,
+      [inviteId, csm.rows[0].id]
+    );
+
+    const projectId = await submit(buildForm({ sizing_estimate: { tier: "standard" } }));
+
+    const project = await db.query<{ assigned_csm_id: string; sizing_estimate: unknown }>(
+      "SELECT assigned_csm_id, sizing_estimate FROM onboarding_projects WHERE id = $1",
+      [projectId]
+    );
+    expect(project.rows[0]).toEqual({ assigned_csm_id: csm.rows[0].id, sizing_estimate: { tier: "standard" } });
+  });
+
+  it("rolls back the company and invite claim when the contact can't be created", async () => {
+    const form = buildForm({ contact: { last_name: "Lovelace", email: "ada@acme.com" } });
+
+    await expect(submit(form)).rejects.toThrow(/first_name/);
+    await expectNothingWritten();
+  });
+
+  it("rolls back the project and module rows when a module's requirements are invalid", async () => {
+    const form = buildForm();
+    form.requirements.comms.white_label_level = "platinum";
+
+    await expect(submit(form)).rejects.toThrow(/white_label_level/);
+    await expectNothingWritten();
+  });
+
+  it("rolls back everything when the last module's requirements are invalid", async () => {
+    const form = buildForm();
+    (form.requirements.fnol as Record<string, unknown>).monthly_fnol_volume = "lots";
+
+    await expect(submit(form)).rejects.toThrow(/integer/);
+    await expectNothingWritten();
+  });
+
+  it("refuses a second submission for the same invite without writing anything", async () => {
+    await submit(buildForm());
+    const counts = await Promise.all(SUBMISSION_TABLES.map((table) => countRows(db, table)));
+
+    await expect(submit(buildForm())).rejects.toMatchObject({ code: "PT409", message: "This invite has already been used" });
+
+    expect(await Promise.all(SUBMISSION_TABLES.map((table) => countRows(db, table)))).toEqual(counts);
+  });
+
+  it.each([
+    ["revoked", "status = 'revoked'", "This invite has been revoked"],
+    ["marked expired", "status = 'expired'", "This invite has expired"],
+    ["past its expiry date", "expires_at = NOW() - INTERVAL '1 day'", "This invite has expired"],
+  ])("refuses an invite that was %s with PT410 and says why", async (_case, update, message) => {
+    await db.query(`UPDATE invites SET ${update} WHERE id = $1`, [inviteId]);
+
+    await expect(submit(buildForm())).rejects.toMatchObject({ code: "PT410", message });
+
+    for (const table of SUBMISSION_TABLES) {
+      expect(await countRows(db, table)).toBe(0);
+    }
+  });
+
+  it("refuses an invite that doesn't exist with PT404", async () => {
+    await db.query("DELETE FROM invites WHERE id = $1", [inviteId]);
+
+    await expect(submit(buildForm())).rejects.toMatchObject({ code: "PT404", message: "Invite not found" });
+  });
+});
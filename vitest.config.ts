@@ -0,0 +1,23 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+      "@assets": path.resolve(import.meta.dirname, "attached_assets"),
+    },
+  },
+  // Client components rely on the automatic JSX runtime (no React import)
+  esbuild: {
+    jsx: "automatic",
+  },
+  test: {
+    environment: "node",
+    include: ["{client,server,shared,supabase}/**/*.test.{ts,tsx}"],
+    // Migration tests start an in-memory Postgres per file
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});